@@ -130,7 +130,7 @@ test.describe('Save and Load State', () => {
     await flowers.waitCanvasStable(canvas);
     await controls.open();
     await controls.getSave().click();
-    await expect(eventLog.getHeaderLog().getByText('Garden state saved!')).toBeVisible({ timeout: 10000 });
+    await expect(eventLog.getHeaderLog().getByText(/Garden saved as "Garden at tick \d+"!/)).toBeVisible({ timeout: 10000 });
 
     await controls.getBirdsInput().fill('4');
     await controls.getApplyAndReset().click();
@@ -139,8 +139,9 @@ test.describe('Save and Load State', () => {
     await flowers.waitCanvasStable(canvas);
     await controls.open();
     await controls.getLoad().click();
+    await page.getByRole('dialog').filter({ hasText: 'Saved Gardens' }).getByRole('button', { name: 'Load', exact: true }).first().click();
     await expect(page.getByText('Loading saved garden...')).toBeVisible();
-    await expect(eventLog.getHeaderLog().getByText('Loaded last saved garden!')).toBeVisible({ timeout: 10000 });
+    await expect(eventLog.getHeaderLog().getByText(/Loaded "Garden at tick \d+"!/)).toBeVisible({ timeout: 10000 });
 
     await flowers.waitCanvasStable(canvas);
   });
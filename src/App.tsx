@@ -2,7 +2,7 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { SimulationView } from './components/SimulationView';
 import { Controls } from './components/Controls';
 import { FlowerDetailsPanel } from './components/FlowerDetailsPanel';
-import type { CellContent, Flower, SimulationParams, Grid, Insect, Cockroach, Coord } from './types';
+import type { CellContent, SimulationParams, Insect, Cockroach, Coord, ReplayFile, WaterBodyKind, ObstacleKind, ClimateScenario, SavedGardenState, SaveSlot, CustomSpeciesFile } from './types';
 import { DEFAULT_SIM_PARAMS } from './constants';
 import { SettingsIcon, XIcon, LoaderIcon, TrophyIcon, GitHubIcon, ToolboxIcon, ChatBubbleIcon } from './components/icons';
 import { useSimulation } from './hooks/useSimulation';
@@ -13,7 +13,9 @@ import { eventService } from './services/eventService';
 import { DataPanel } from './components/DataPanel';
 import { useAnalyticsStore } from './stores/analyticsStore';
 import { db } from './services/db';
+import { listSaveSlots, createSaveSlot, migrateLegacySave, drawSaveThumbnail } from './services/saveSlots';
 import { useEventLogStore } from './stores/eventLogStore';
+import { useChallengeStore } from './stores/challengeStore';
 import { FullEventLogPanel } from './components/FullEventLogPanel';
 import { ActorSelectionPanel } from './components/ActorSelectionPanel';
 import { InsectDetailsPanel } from './components/InsectDetailsPanel';
@@ -23,48 +25,23 @@ import { StatusPanel } from './components/StatusPanel';
 import { Logo } from './components/Logo';
 import { ToolsPanel } from './components/ToolsPanel';
 import { AIChatPanel } from './components/AIChatPanel';
+import { SaveSlotsPanel } from './components/SaveSlotsPanel';
+import { parseReplayFile, getReplayFileName } from './lib/replayFile';
+import { createGardenFile, parseGardenFile, getGardenFileName } from './lib/gardenFile';
+import { parseCustomSpeciesFile } from './lib/customSpecies';
+import { migrateSave } from './lib/saveMigrations';
+import { parseClimateFile } from './lib/climateScenario';
+import { frameMoistureAt } from './lib/soilMoisture';
+import { useCustomSpeciesStore } from './stores/customSpeciesStore';
 
-const META_SAVE_KEY = 'evoGarden-savedState-meta';
 const INIT_TIMEOUT_MS = 15000; // 15 seconds for initialization and loading
 
-/**
- * Rehydrates the simulation grid by fetching detailed actor data (flowers, insects)
- * from IndexedDB and merging it with the placeholder data from the metadata.
- * This supports backward compatibility with older save files that stored full actor data
- * in localStorage.
- * @param metadata The saved state metadata from localStorage.
- * @returns A promise that resolves to the fully rehydrated grid.
- */
-const rehydrateGrid = async (metadata: any): Promise<Grid> => {
-    const flowers = await db.savedFlowers.toArray();
-    const insects = await db.savedInsects.toArray();
-
-    const hasFlowerPlaceholders = metadata.grid.flat(2).some((a: any) => a.type === 'flower' && a.genome === undefined);
-    if (flowers.length === 0 && hasFlowerPlaceholders) {
-        throw new Error("Metadata found, but no flowers in the database. Save file may be corrupt.");
-    }
-    
-    const hasInsectPlaceholders = metadata.grid.flat(2).some((a: any) => a.type === 'insect' && a.lifespan === undefined);
-    if (insects.length === 0 && hasInsectPlaceholders) {
-        throw new Error("Metadata found, but no insects in the database. Save file may be corrupt.");
-    }
-
-    const actorMap = new Map<string, CellContent>([
-        ...flowers.map((f): [string, CellContent] => [f.id, f]),
-        ...insects.map((i): [string, CellContent] => [i.id, i])
-    ]);
-
-    return metadata.grid.map((row: CellContent[][]) => 
-        row.map((cell: CellContent[]) => 
-            cell.map((actor: CellContent) => {
-                // Only rehydrate placeholders to maintain compatibility with old saves
-                if ((actor.type === 'flower' && (actor as Flower).genome === undefined) || (actor.type === 'insect' && (actor as Insect).lifespan === undefined)) {
-                    return actorMap.get(actor.id) || null;
-                }
-                return actor;
-            }).filter((actor): actor is CellContent => actor !== null)
-        )
-    );
+// Upgrades a save to the current format, telling the user about anything left out of it.
+const upgradeSave = (saved: unknown): SavedGardenState => {
+  const warnings: string[] = [];
+  const state = migrateSave(saved, warnings);
+  warnings.forEach(message => eventService.dispatch({ message, type: 'info', importance: 'high' }));
+  return state;
 };
 
 
@@ -77,6 +54,7 @@ export default function App(): React.ReactNode {
   const [isDataPanelOpen, setIsDataPanelOpen] = useState(false);
   const [isFullLogOpen, setIsFullLogOpen] = useState(false);
   const [isCommentaryOpen, setIsCommentaryOpen] = useState(false);
+  const [isSavesOpen, setIsSavesOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [loadingMessage, setLoadingMessage] = useState('Initializing EvoGarden...');
   const [isSaving, setIsSaving] = useState(false);
@@ -84,6 +62,9 @@ export default function App(): React.ReactNode {
   const [hasSavedState, setHasSavedState] = useState(false);
   const [isServiceInitialized, setIsServiceInitialized] = useState(false);
   const [plantingInfo, setPlantingInfo] = useState<{ genome: string; sex: 'male' | 'female' | 'both' } | null>(null);
+  const [waterPlacement, setWaterPlacement] = useState<WaterBodyKind | null>(null);
+  const [obstaclePlacement, setObstaclePlacement] = useState<ObstacleKind | null>(null);
+  const [showMoistureOverlay, setShowMoistureOverlay] = useState(false);
   const [canvases, setCanvases] = useState<{ bg: HTMLCanvasElement; fg: HTMLCanvasElement } | null>(null);
   const wasRunningBeforeSelectionRef = useRef(false);
   const wasRunningBeforeLogRef = useRef(false);
@@ -102,7 +83,8 @@ export default function App(): React.ReactNode {
   }, [params]);
 
 
-  const { actors, isRunning, setIsRunning, workerRef, resetWithNewParams, updateLiveParams, isWorkerInitialized, latestSummaryRef, workerError, latestSummary, triggerWeatherEvent, introduceSpecies, introduceStationary, plantChampionSeed } = useSimulation({ setIsLoading });
+  const { actors, terrain, soilMoisture, obstacles, isRunning, setIsRunning, workerRef, resetWithNewParams, updateLiveParams, isWorkerInitialized, latestSummaryRef, workerError, latestSummary, currentTick, historyRange, rewindTo, stepBack, step, runTicks, isAdvancing, isReplaying, loadReplay, triggerWeatherEvent, introduceSpecies, syncCustomSpecies, introduceStationary, plantChampionSeed, placeWaterBody, toggleObstacle } = useSimulation({ setIsLoading });
+  const customSpecies = useCustomSpeciesStore(state => state.species);
   const { trackedActorId, handleTrackActor, handleStopTracking } = useActorTracker({ actors, isRunning, setIsRunning, setSelectedActor, selectedActor });
 
     const handleEnterPlantingMode = (genome: string, sex: 'male' | 'female' | 'both') => {
@@ -115,13 +97,37 @@ export default function App(): React.ReactNode {
     };
 
     const handlePlantOnCell = (coords: Coord) => {
-        if (plantingInfo) {
+        if (plantingInfo && !isReplaying) {
             plantChampionSeed(plantingInfo.genome, plantingInfo.sex, coords);
             setPlantingInfo(null);
             eventService.dispatch({ type: 'success', importance: 'high', message: 'Champion seed planted!' });
         }
     };
 
+    const handleEnterWaterMode = (kind: WaterBodyKind) => {
+        setWaterPlacement(kind);
+        setIsToolsOpen(false);
+    };
+
+    const handlePlaceWater = (coords: Coord) => {
+        if (waterPlacement && !isReplaying) {
+            placeWaterBody(waterPlacement, coords);
+            setWaterPlacement(null);
+        }
+    };
+
+    const handleEnterObstacleMode = (kind: ObstacleKind) => {
+        setObstaclePlacement(kind);
+        setIsToolsOpen(false);
+    };
+
+    // Obstacle mode stays on, so a wall can be built one cell after another.
+    const handlePlaceObstacle = (coords: Coord) => {
+        if (obstaclePlacement && !isReplaying) {
+            toggleObstacle(obstaclePlacement, coords);
+        }
+    };
+
     const handleCanvasesReady = useCallback((bg: HTMLCanvasElement, fg: HTMLCanvasElement) => {
         setCanvases({ bg, fg });
     }, []);
@@ -137,11 +143,19 @@ export default function App(): React.ReactNode {
     eventService.initialize(() => paramsRef.current);
   }, []);
 
-  // Check for a saved state on initial load
+  // Keep the worker's species registry in step with the user-defined species
   useEffect(() => {
-    setHasSavedState(!!localStorage.getItem(META_SAVE_KEY));
+    if (isWorkerInitialized) syncCustomSpecies(customSpecies);
+  }, [isWorkerInitialized, customSpecies, syncCustomSpecies]);
+
+  const refreshHasSavedState = useCallback(async () => {
+    try {
+        setHasSavedState((await listSaveSlots()).length > 0);
+    } catch (err) {
+        console.error("Failed to list save slots:", err);
+    }
   }, []);
-  
+
   // Effect for one-time WASM initialization and auto-loading/initialization.
   useEffect(() => {
     if (!isWorkerInitialized) return;
@@ -156,21 +170,38 @@ export default function App(): React.ReactNode {
             await Promise.race([flowerService.initialize(), timeoutPromise]);
             setIsServiceInitialized(true);
             
-            const metadataJSON = localStorage.getItem(META_SAVE_KEY);
-            if (metadataJSON) {
+            // Gardens saved before there were save slots move into a slot of their own.
+            await migrateLegacySave().catch(err => {
+                console.error("Failed to move the old save into a save slot:", err);
+                const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+                eventService.dispatch({ message: `Your last saved garden could not be moved into a save slot, and has been kept to try again: ${errorMessage}`, type: 'error', importance: 'high' });
+            });
+
+            const [latestSlot] = await listSaveSlots();
+            setHasSavedState(!!latestSlot);
+            let latestState: SavedGardenState | null = null;
+            if (latestSlot) {
+                try {
+                    latestState = upgradeSave(latestSlot.state);
+                } catch (err) {
+                    console.error("Failed to load the latest save:", err);
+                    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+                    eventService.dispatch({ message: `Your latest save, "${latestSlot.name}", could not be loaded: ${errorMessage}`, type: 'error', importance: 'high' });
+                }
+            }
+            if (latestSlot && latestState) {
                 setLoadingMessage('Loading saved garden...');
-                const metadata = JSON.parse(metadataJSON);
-                const rehydratedGrid = await rehydrateGrid(metadata);
-
-                const fullStateToLoad = { ...metadata, grid: rehydratedGrid };
-                workerRef.current!.postMessage({ type: 'load-state', payload: fullStateToLoad });
+                loadGardenState(latestState).catch(err => {
+                    console.error("Failed to load the latest save:", err);
+                    eventService.dispatch({ message: `Your latest save, "${latestSlot.name}", could not be loaded: ${err.message}`, type: 'error', importance: 'high' });
+                });
                 
                 // Sync main thread state, merging with defaults to handle new params
-                const loadedParams = { ...DEFAULT_SIM_PARAMS, ...fullStateToLoad.params };
+                const loadedParams = { ...DEFAULT_SIM_PARAMS, ...latestState.params };
                 setParams(loadedParams);
                 setIsRunning(false);
                 setSelectedActor(null);
-                eventService.dispatch({ message: 'Loaded last saved garden!', type: 'info', importance: 'high' });
+                eventService.dispatch({ message: `Loaded your latest save, "${latestSlot.name}"!`, type: 'info', importance: 'high' });
             } else {
                 // Initialize with default params
                 setLoadingMessage('Creating a new garden...');
@@ -180,10 +211,6 @@ export default function App(): React.ReactNode {
         } catch (err) {
             console.error("Failed to initialize or load on main thread:", err);
             setError("Failed to load core simulation components. This could be due to a network issue, a corrupt save file, or an unsupported browser. Please refresh the page to try again.");
-            // Clear potentially corrupt state
-            localStorage.removeItem(META_SAVE_KEY);
-            await db.savedFlowers.clear();
-            await db.savedInsects.clear();
             setIsLoading(false);
         }
     };
@@ -300,112 +327,294 @@ export default function App(): React.ReactNode {
     };
   }, [selectedActor, actorsInSelectedCell, handleActorSelection, trackedActorId]);
 
-  const handleSaveSimulation = useCallback(async () => {
-    if (!workerRef.current || isSaving) return;
+  // Asks the simulation worker for the whole garden, for saving or export.
+  const requestGardenState = useCallback(async (): Promise<SavedGardenState> => {
+    const stateFromWorker = await new Promise((resolve, reject) => {
+        const timeout = setTimeout(() => reject(new Error("Timeout getting state from worker")), 5000);
+        
+        const messageHandler = (e: MessageEvent) => {
+            if (e.data.type === 'state-response') {
+                workerRef.current?.removeEventListener('message', messageHandler);
+                clearTimeout(timeout);
+                resolve(e.data.payload);
+            }
+        };
+        
+        workerRef.current!.addEventListener('message', messageHandler);
+        workerRef.current!.postMessage({ type: 'get-state' });
+    });
+
+    if (!stateFromWorker) throw new Error("Did not receive state from worker.");
+    return stateFromWorker as SavedGardenState;
+  }, [workerRef]);
+
+  // Loads a garden into the worker, settling once the worker has loaded it or failed to.
+  const loadGardenState = useCallback((state: SavedGardenState) => new Promise<void>((resolve, reject) => {
+    const messageHandler = (e: MessageEvent) => {
+        if (e.data.type !== 'load-complete' && e.data.type !== 'load-failed') return;
+        workerRef.current?.removeEventListener('message', messageHandler);
+        if (e.data.type === 'load-complete') resolve();
+        else reject(new Error(e.data.payload.message));
+    };
+
+    workerRef.current!.addEventListener('message', messageHandler);
+    workerRef.current!.postMessage({ type: 'load-state', payload: state });
+  }), [workerRef]);
+
+  // Saves the current garden to a new slot, named after its tick unless a name is given.
+  const handleSaveSimulation = useCallback(async (name?: string): Promise<SaveSlot | null> => {
+    if (!workerRef.current || isSaving) return null;
     
     setIsSaving(true);
     setIsRunning(false); // Pause simulation to get a stable state
 
     try {
-        const stateFromWorker = await new Promise((resolve, reject) => {
-            const timeout = setTimeout(() => reject(new Error("Timeout getting state from worker")), 5000);
-            
-            const messageHandler = (e: MessageEvent) => {
-                if (e.data.type === 'state-response') {
-                    workerRef.current?.removeEventListener('message', messageHandler);
-                    clearTimeout(timeout);
-                    resolve(e.data.payload);
-                }
-            };
-            
-            workerRef.current!.addEventListener('message', messageHandler);
-            workerRef.current!.postMessage({ type: 'get-state' });
-        });
-
-        if (!stateFromWorker) throw new Error("Did not receive state from worker.");
-
-        const fullState = stateFromWorker as { params: SimulationParams, grid: Grid, tick: number, totalInsectsEaten: number };
-        const flowersToSave: Flower[] = [];
-        const insectsToSave: (Insect | Cockroach)[] = [];
-
-        // Create a "skeleton" grid with placeholders for flowers and insects
-        const skeletonGrid = fullState.grid.map(row => 
-            row.map(cell => 
-                cell.map(actor => {
-                    if (actor.type === 'flower') {
-                        flowersToSave.push(actor as Flower);
-                        return { id: actor.id, type: 'flower', x: actor.x, y: actor.y };
-                    }
-                    if (actor.type === 'insect' || actor.type === 'cockroach') {
-                        insectsToSave.push(actor as (Insect | Cockroach));
-                        return { id: actor.id, type: actor.type, x: actor.x, y: actor.y };
-                    }
-                    return actor;
-                })
-            )
-        );
-
-        const metadataToSave = {
-            ...fullState,
-            grid: skeletonGrid,
-        };
-
-        // Transactionally write to DB and localStorage
-        await db.transaction('rw', db.savedFlowers, db.savedInsects, async () => {
-            await db.savedFlowers.clear();
-            await db.savedInsects.clear();
-            await db.savedFlowers.bulkAdd(flowersToSave);
-            await db.savedInsects.bulkAdd(insectsToSave as any); // Cast because Dexie types are strict
-        });
-
-        localStorage.setItem(META_SAVE_KEY, JSON.stringify(metadataToSave));
+        const state = await requestGardenState();
+        const thumbnail = drawSaveThumbnail(canvases ? [canvases.bg, canvases.fg] : []);
+        const slot = await createSaveSlot(name ?? `Garden at tick ${state.tick}`, state, thumbnail);
         
         setHasSavedState(true);
-        eventService.dispatch({ message: 'Garden state saved!', type: 'success', importance: 'high' });
+        eventService.dispatch({ message: `Garden saved as "${slot.name}"!`, type: 'success', importance: 'high' });
+        return slot;
     } catch (err) {
         console.error("Save failed:", err);
         const errorMessage = err instanceof Error ? err.message : 'Unknown error';
         eventService.dispatch({ message: `Save failed: ${errorMessage}`, type: 'error', importance: 'high' });
+        return null;
     } finally {
         setIsSaving(false);
     }
-  }, [workerRef, isSaving, setIsRunning]);
+  }, [workerRef, isSaving, setIsRunning, canvases, requestGardenState]);
 
-  const handleLoadSimulation = useCallback(async () => {
-    const metadataJSON = localStorage.getItem(META_SAVE_KEY);
-    if (!metadataJSON || !workerRef.current) {
-        eventService.dispatch({ message: 'No saved state found.', type: 'error', importance: 'high' });
+  const handleLoadSlot = useCallback((slot: SaveSlot) => {
+    if (!workerRef.current) return;
+
+    let state: SavedGardenState;
+    try {
+        state = upgradeSave(slot.state);
+    } catch (err) {
+        console.error("Load failed:", err);
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        eventService.dispatch({ message: `Load failed: ${errorMessage}`, type: 'error', importance: 'high' });
         return;
     }
     
     setLoadingMessage('Loading saved garden...');
     setIsLoading(true);
+    loadGardenState(state).catch(err => {
+        console.error("Load failed:", err);
+        eventService.dispatch({ message: `Load failed: ${err.message}`, type: 'error', importance: 'high' });
+    });
+
+    setParams({ ...DEFAULT_SIM_PARAMS, ...state.params });
+    setIsRunning(false);
+    setSelectedActor(null);
+    setActorsInSelectedCell([]);
+    setIsSavesOpen(false);
+    setIsControlsOpen(false);
+    useAnalyticsStore.getState().reset();
+    useEventLogStore.getState().reset();
+    eventService.dispatch({ message: `Loaded "${slot.name}"!`, type: 'info', importance: 'high' });
+  }, [workerRef, setIsRunning, loadGardenState]);
+
+  const handleCloseSaves = useCallback(() => {
+    setIsSavesOpen(false);
+    refreshHasSavedState(); // Slots may have been deleted
+  }, [refreshHasSavedState]);
+
+  const handleExportGarden = useCallback(async () => {
+    if (!workerRef.current) return;
+    setIsRunning(false);
 
     try {
-        const metadata = JSON.parse(metadataJSON);
-        const rehydratedGrid = await rehydrateGrid(metadata);
+        const state = await requestGardenState();
+        const garden = createGardenFile(
+            `Garden at tick ${state.tick}`,
+            state,
+            await db.seedBank.toArray(),
+            useChallengeStore.getState().challenges,
+            useAnalyticsStore.getState().history,
+            useCustomSpeciesStore.getState().species,
+        );
 
-        const fullStateToLoad = { ...metadata, grid: rehydratedGrid };
-        workerRef.current.postMessage({ type: 'load-state', payload: fullStateToLoad });
+        // Gardens are too large for a data URL.
+        const url = URL.createObjectURL(new Blob([JSON.stringify(garden)], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.download = getGardenFileName(garden);
+        link.href = url;
+        link.click();
+        URL.revokeObjectURL(url);
+        eventService.dispatch({ message: 'Garden exported!', type: 'success', importance: 'high' });
+    } catch (err) {
+        console.error("Garden export failed:", err);
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        eventService.dispatch({ message: `Garden export failed: ${errorMessage}`, type: 'error', importance: 'high' });
+    }
+  }, [workerRef, setIsRunning, requestGardenState]);
+
+  // Registers the user-defined species a garden or replay file brings, here and in the worker,
+  // ahead of the file's insects. They replace any of the user's species with the same emoji.
+  const registerFileSpecies = useCallback((species: CustomSpeciesFile[]) => {
+    const store = useCustomSpeciesStore.getState();
+    species.forEach(definition => store.addSpecies(definition));
+    syncCustomSpecies(useCustomSpeciesStore.getState().species);
+  }, [syncCustomSpecies]);
+
+  // Restores everything in the file and keeps the garden in a save slot of its own. The seed
+  // bank and the slot are only written once the garden has loaded, so a failed import changes
+  // neither, and the garden's species are taken back off.
+  const handleImportGarden = useCallback(async (file: File) => {
+    if (!workerRef.current) return;
+
+    const previousSpecies = useCustomSpeciesStore.getState().species;
+    let isLoaded = false;
+    try {
+        const garden = parseGardenFile(await file.text());
+        registerFileSpecies(garden.customSpecies);
+        const state = upgradeSave(garden.state);
 
-        const loadedParams = { ...DEFAULT_SIM_PARAMS, ...fullStateToLoad.params };
-        setParams(loadedParams);
+        setLoadingMessage('Loading garden...');
+        setIsLoading(true);
         setIsRunning(false);
+        await loadGardenState(state);
+        isLoaded = true;
+
+        await db.transaction('rw', db.seedBank, async () => {
+            await db.seedBank.clear();
+            await db.seedBank.bulkPut(garden.seedBank);
+        });
+        await createSaveSlot(garden.name, state, '');
+        setHasSavedState(true);
+        setParams({ ...DEFAULT_SIM_PARAMS, ...state.params });
         setSelectedActor(null);
+        setActorsInSelectedCell([]);
+        setPlantingInfo(null);
         setIsControlsOpen(false);
-        eventService.dispatch({ message: 'Loaded last saved garden!', type: 'info', importance: 'high' });
+        useChallengeStore.getState().restore(garden.challenges);
+        useAnalyticsStore.getState().restore(garden.analyticsHistory);
+        useEventLogStore.getState().reset();
+        eventService.dispatch({ message: `Imported "${garden.name}"!`, type: 'success', importance: 'high' });
     } catch (err) {
-        console.error("Load failed:", err);
+        if (!isLoaded) {
+            useCustomSpeciesStore.getState().restore(previousSpecies);
+            syncCustomSpecies(previousSpecies);
+        }
+        console.error("Garden import failed:", err);
         const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-        eventService.dispatch({ message: `Load failed: ${errorMessage}`, type: 'error', importance: 'high' });
-        setIsLoading(false);
-        localStorage.removeItem(META_SAVE_KEY);
-        await db.savedFlowers.clear();
-        await db.savedInsects.clear();
-        setHasSavedState(false);
+        eventService.dispatch({ message: `Garden import failed: ${errorMessage}`, type: 'error', importance: 'high' });
+    }
+  }, [workerRef, setIsRunning, loadGardenState, registerFileSpecies, syncCustomSpecies]);
+
+  const handleExportReplay = useCallback(async () => {
+    if (!workerRef.current) return;
+    setIsRunning(false);
+
+    try {
+        const replay = await new Promise<ReplayFile | null>((resolve, reject) => {
+            const timeout = setTimeout(() => reject(new Error("Timeout getting replay from worker")), 5000);
+
+            const messageHandler = (e: MessageEvent) => {
+                if (e.data.type === 'replay-response') {
+                    workerRef.current?.removeEventListener('message', messageHandler);
+                    clearTimeout(timeout);
+                    resolve(e.data.payload);
+                }
+            };
+
+            workerRef.current!.addEventListener('message', messageHandler);
+            workerRef.current!.postMessage({ type: 'get-replay' });
+        });
+
+        if (!replay) {
+            eventService.dispatch({ message: 'Only seeded runs started from a new garden can be exported as replays.', type: 'error', importance: 'high' });
+            return;
+        }
+
+        const link = document.createElement('a');
+        link.download = getReplayFileName(replay);
+        link.href = 'data:text/json;charset=utf-8,' + encodeURIComponent(JSON.stringify(replay));
+        link.click();
+        eventService.dispatch({ message: 'Replay exported!', type: 'success', importance: 'high' });
+    } catch (err) {
+        console.error("Replay export failed:", err);
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        eventService.dispatch({ message: `Replay export failed: ${errorMessage}`, type: 'error', importance: 'high' });
     }
   }, [workerRef, setIsRunning]);
 
+  // A replay the worker cannot load takes its species back off, like a failed garden import.
+  const handleOpenReplay = useCallback(async (file: File) => {
+    if (!workerRef.current) return;
+
+    const previousSpecies = useCustomSpeciesStore.getState().species;
+    let isLoaded = false;
+    try {
+        const replay = parseReplayFile(await file.text());
+        registerFileSpecies(replay.customSpecies);
+
+        setLoadingMessage('Loading replay...');
+        setIsLoading(true);
+        setIsRunning(false);
+        await loadReplay(replay);
+        isLoaded = true;
+        setParams({ ...DEFAULT_SIM_PARAMS, ...replay.params, seed: replay.seed });
+        setSelectedActor(null);
+        setActorsInSelectedCell([]);
+        setPlantingInfo(null);
+        setIsControlsOpen(false);
+        useAnalyticsStore.getState().reset();
+        useEventLogStore.getState().reset();
+        eventService.dispatch({ message: 'Replay loaded. Controls are locked until you exit the replay.', type: 'info', importance: 'high' });
+    } catch (err) {
+        if (!isLoaded) {
+            useCustomSpeciesStore.getState().restore(previousSpecies);
+            syncCustomSpecies(previousSpecies);
+        }
+        console.error("Replay load failed:", err);
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        eventService.dispatch({ message: `Replay load failed: ${errorMessage}`, type: 'error', importance: 'high' });
+    }
+  }, [workerRef, setIsRunning, loadReplay, registerFileSpecies, syncCustomSpecies]);
+
+  const handleImportSpecies = useCallback(async (file: File): Promise<string | null> => {
+    try {
+        const species = parseCustomSpeciesFile(await file.text());
+        useCustomSpeciesStore.getState().addSpecies(species);
+        eventService.dispatch({ message: `Added ${species.emoji} ${species.name}. Apply & Reset to add it to the garden.`, type: 'success', importance: 'high' });
+        return species.emoji;
+    } catch (err) {
+        console.error("Species import failed:", err);
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        eventService.dispatch({ message: `Species import failed: ${errorMessage}`, type: 'error', importance: 'high' });
+        return null;
+    }
+  }, []);
+
+  // Returns false, with the reason as an error event, if the species cannot be removed yet.
+  const handleRemoveSpecies = useCallback((emoji: string): boolean => {
+    // Insects act through their species' definition, so it stays while any of them are in the garden.
+    const livingCount = [...actors.values()].filter(actor => actor.type === 'insect' && (actor as Insect).emoji === emoji).length;
+    if (livingCount > 0) {
+        eventService.dispatch({ message: `${emoji} cannot be removed while ${livingCount} of them live in the garden. Apply & Reset without it first.`, type: 'error', importance: 'high' });
+        return false;
+    }
+    useCustomSpeciesStore.getState().removeSpecies(emoji);
+    return true;
+  }, [actors]);
+
+  const handleImportClimate = useCallback(async (file: File): Promise<ClimateScenario | null> => {
+    try {
+        const scenario = parseClimateFile(await file.text(), file.name);
+        eventService.dispatch({ message: `Imported the ${scenario.name} climate (${scenario.series!.temperature.length} readings). Apply & Reset to use it.`, type: 'success', importance: 'high' });
+        return scenario;
+    } catch (err) {
+        console.error("Climate import failed:", err);
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        eventService.dispatch({ message: `Climate import failed: ${errorMessage}`, type: 'error', importance: 'high' });
+        return null;
+    }
+  }, []);
+
   const handleOpenFullLog = useCallback(() => {
     wasRunningBeforeLogRef.current = isRunning;
     setIsRunning(false);
@@ -444,6 +653,7 @@ export default function App(): React.ReactNode {
             case 'flower':
                 return <FlowerDetailsPanel 
                             flower={selectedActor} 
+                            soilMoisture={frameMoistureAt(soilMoisture, selectedActor.x, selectedActor.y)}
                             isRunning={isRunning} 
                             setIsRunning={setIsRunning} 
                             onClose={() => handleActorSelection(null)}
@@ -455,6 +665,7 @@ export default function App(): React.ReactNode {
             case 'cockroach':
                 return <InsectDetailsPanel 
                             insect={selectedActor as (Insect | Cockroach)} 
+                            soilMoisture={frameMoistureAt(soilMoisture, selectedActor.x, selectedActor.y)}
                             onClose={() => handleActorSelection(null)} 
                             onStopTracking={handleStopTracking}
                             trackedActorId={trackedActorId}
@@ -545,11 +756,20 @@ const detailsPanel = renderDetailsPanel();
           <SimulationView 
             params={params}
             actors={actors}
+            terrain={terrain}
             onCellClick={handleCellClick}
             selectedActorId={selectedActor?.id ?? null}
             onFrameRendered={handleFrameRendered}
             plantingInfo={plantingInfo}
             onPlantOnCell={handlePlantOnCell}
+            waterPlacement={waterPlacement}
+            onPlaceWater={handlePlaceWater}
+            obstaclePlacement={obstaclePlacement}
+            onPlaceObstacle={handlePlaceObstacle}
+            soilMoisture={soilMoisture}
+            obstacles={obstacles}
+            timeOfDay={latestSummary?.timeOfDay ?? 0}
+            showMoistureOverlay={showMoistureOverlay}
             onCanvasesReady={handleCanvasesReady}
           />
         </div>
@@ -563,6 +783,22 @@ const detailsPanel = renderDetailsPanel();
                 </button>
             </div>
         )}
+        {waterPlacement && (
+            <div className="fixed top-24 left-1/2 -translate-x-1/2 bg-accent-blue/80 text-background font-bold px-4 py-2 rounded-lg shadow-lg z-20 flex items-center gap-4">
+                <span>{waterPlacement === 'pond' ? 'Click a cell to dig a pond.' : 'Click a cell to start a stream; it will run downhill.'}</span>
+                <button onClick={() => setWaterPlacement(null)} className="p-1 hover:bg-black/20 rounded-full">
+                    <XIcon className="w-5 h-5" />
+                </button>
+            </div>
+        )}
+        {obstaclePlacement && (
+            <div className="fixed top-24 left-1/2 -translate-x-1/2 bg-tertiary/80 text-background font-bold px-4 py-2 rounded-lg shadow-lg z-20 flex items-center gap-4">
+                <span>{obstaclePlacement === 'rock' ? 'Click cells to place rocks' : 'Click cells to build walls'}; click an obstacle to clear it.</span>
+                <button onClick={() => setObstaclePlacement(null)} className="p-1 hover:bg-black/20 rounded-full">
+                    <XIcon className="w-5 h-5" />
+                </button>
+            </div>
+        )}
        {/* UI Buttons */}
       <div className="fixed top-24 right-4 z-20 flex flex-col space-y-2">
             <button
@@ -577,9 +813,10 @@ const detailsPanel = renderDetailsPanel();
             <button
                 ref={toolsButtonRef}
                 onClick={() => setIsToolsOpen(true)}
-                className="p-3 bg-tertiary/80 hover:bg-tertiary text-surface rounded-md shadow-lg transition-colors duration-200 cursor-pointer"
+                disabled={isReplaying}
+                className="p-3 bg-tertiary/80 hover:bg-tertiary text-surface rounded-md shadow-lg transition-colors duration-200 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
                 aria-label="Open intervention tools panel"
-                title="Open Intervention Tools"
+                title={isReplaying ? 'Interventions are locked during a replay' : 'Open Intervention Tools'}
             >
                 <ToolboxIcon className="w-6 h-6" />
             </button>
@@ -614,6 +851,15 @@ const detailsPanel = renderDetailsPanel();
         setIsRunning={setIsRunning}
       />
       <FullEventLogPanel isOpen={isFullLogOpen} onClose={handleCloseFullLog} />
+      <SaveSlotsPanel
+        isOpen={isSavesOpen}
+        onClose={handleCloseSaves}
+        onSave={handleSaveSimulation}
+        onLoad={handleLoadSlot}
+        canSave={!isRunning && !isReplaying}
+        isSaving={isSaving}
+        currentTick={currentTick}
+      />
       <ToolsPanel
         isOpen={isToolsOpen}
         onClose={() => setIsToolsOpen(false)}
@@ -622,6 +868,10 @@ const detailsPanel = renderDetailsPanel();
         introduceSpecies={introduceSpecies}
         introduceStationary={introduceStationary}
         onEnterPlantingMode={handleEnterPlantingMode}
+        onEnterWaterMode={handleEnterWaterMode}
+        onEnterObstacleMode={handleEnterObstacleMode}
+        showMoistureOverlay={showMoistureOverlay}
+        onToggleMoistureOverlay={setShowMoistureOverlay}
       />
 
       {/* Controls Panel Overlay */}
@@ -649,11 +899,27 @@ const detailsPanel = renderDetailsPanel();
                     onParamsChange={handleParamsChange} 
                     isRunning={isRunning}
                     setIsRunning={setIsRunning}
-                    onSave={handleSaveSimulation}
+                    onSave={() => handleSaveSimulation()}
                     onStart={() => setIsControlsOpen(false)}
-                    onLoad={handleLoadSimulation}
+                    onLoad={() => setIsSavesOpen(true)}
                     hasSavedState={hasSavedState}
                     isSaving={isSaving}
+                    currentTick={currentTick}
+                    historyRange={historyRange}
+                    isAdvancing={isAdvancing}
+                    onStepBack={stepBack}
+                    onRewind={rewindTo}
+                    onStep={step}
+                    onRunTicks={runTicks}
+                    isReplaying={isReplaying}
+                    onExportReplay={handleExportReplay}
+                    onOpenReplay={handleOpenReplay}
+                    onExitReplay={() => handleParamsChange(params, true)}
+                    onExportGarden={handleExportGarden}
+                    onImportGarden={handleImportGarden}
+                    onImportSpecies={handleImportSpecies}
+                    onRemoveSpecies={handleRemoveSpecies}
+                    onImportClimate={handleImportClimate}
                 />
             </div>
          </div>
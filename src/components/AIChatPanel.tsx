@@ -4,6 +4,7 @@ import '@cristianglezm/live-commentary-widget/style.css';
 import { XIcon } from './icons';
 import { useAnalyticsStore } from '../stores/analyticsStore';
 import { useEventLogStore } from '../stores/eventLogStore';
+import { speciesRegistry } from '../lib/speciesRegistry';
 
 interface AIChatPanelProps {
     isOpen: boolean;
@@ -45,18 +46,9 @@ export const AIChatPanel: React.FC<AIChatPanelProps> = ({ isOpen, canvases, onCl
             };
 
             // Calculate dominant insect
-            const insectCounts: Record<string, number> = {
-                'Butterfly': current.butterflies,
-                'Caterpillar': current.caterpillars,
-                'Beetle': current.beetles,
-                'Ladybug': current.ladybugs,
-                'Snail': current.snails,
-                'Bee': current.bees,
-                'Scorpion': current.scorpionCount,
-                'Ant': current.antCount,
-                'Spider': current.spiderCount,
-                'Cockroach': current.cockroaches
-            };
+            const insectCounts: Record<string, number> = Object.fromEntries(
+                speciesRegistry.getAll().map(species => [species.name, current.speciesCounts?.[species.emoji] || 0])
+            );
             
             let dominantInsect = 'None';
             let maxCount = -1;
@@ -7,6 +7,7 @@ import { FlowerTraitsChart } from './charts/FlowerTraitsChart';
 import { BaseEffectsChart } from './charts/BaseEffectsChart';
 import { PerformanceChart } from './charts/PerformanceChart';
 import { EnvironmentHealthChart } from './charts/EnvironmentHealthChart';
+import { DiseaseChart } from './charts/DiseaseChart';
 
 export const ChartsPanel: React.FC = () => {
     const history = useAnalyticsStore(state => state.history);
@@ -21,6 +22,9 @@ export const ChartsPanel: React.FC = () => {
             </div>
             <div className="bg-chart-background border-2 border-chart-border rounded-lg p-2">
                 <PopulationDynamicsChart history={history} />
+            </div>
+            <div className="bg-chart-background border-2 border-chart-border rounded-lg p-2">
+                <DiseaseChart history={history} />
             </div>
              <div className="bg-chart-background border-2 border-chart-border rounded-lg p-2">
                 <EventsChart history={history} />
@@ -1,8 +1,10 @@
 import '@testing-library/jest-dom';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { Controls } from './Controls';
 import { DEFAULT_SIM_PARAMS } from '../constants';
+import { setCustomSpecies } from '../lib/customSpecies';
+import type { ClimateScenario, CustomSpeciesFile } from '../types';
 
 describe('Controls component', () => {
     const mockOnParamsChange = vi.fn();
@@ -10,6 +12,18 @@ describe('Controls component', () => {
     const mockOnSave = vi.fn();
     const mockOnLoad = vi.fn();
     const mockOnStart = vi.fn();
+    const mockOnStepBack = vi.fn();
+    const mockOnRewind = vi.fn();
+    const mockOnStep = vi.fn();
+    const mockOnRunTicks = vi.fn();
+    const mockOnExportReplay = vi.fn();
+    const mockOnOpenReplay = vi.fn();
+    const mockOnExitReplay = vi.fn();
+    const mockOnExportGarden = vi.fn();
+    const mockOnImportGarden = vi.fn();
+    const mockOnImportSpecies = vi.fn();
+    const mockOnRemoveSpecies = vi.fn();
+    const mockOnImportClimate = vi.fn();
 
     const defaultProps = {
         params: DEFAULT_SIM_PARAMS,
@@ -21,6 +35,22 @@ describe('Controls component', () => {
         hasSavedState: false,
         isSaving: false,
         onStart: mockOnStart,
+        currentTick: 0,
+        historyRange: null,
+        isAdvancing: false,
+        onStepBack: mockOnStepBack,
+        onRewind: mockOnRewind,
+        onStep: mockOnStep,
+        onRunTicks: mockOnRunTicks,
+        isReplaying: false,
+        onExportReplay: mockOnExportReplay,
+        onOpenReplay: mockOnOpenReplay,
+        onExitReplay: mockOnExitReplay,
+        onExportGarden: mockOnExportGarden,
+        onImportGarden: mockOnImportGarden,
+        onImportSpecies: mockOnImportSpecies,
+        onRemoveSpecies: mockOnRemoveSpecies,
+        onImportClimate: mockOnImportClimate,
     };
 
     beforeEach(() => {
@@ -194,4 +224,158 @@ describe('Controls component', () => {
         expect(saveButton).toBeDisabled();
         expect(screen.getByText('Saving...')).toBeInTheDocument();
     });
+
+    it('disables the history controls when there is nothing to rewind to', () => {
+        render(<Controls {...defaultProps} />);
+        expect(screen.getByRole('button', { name: /Step back one tick/i })).toBeDisabled();
+        expect(screen.getByLabelText(/History: tick/i)).toBeDisabled();
+    });
+
+    it('steps back and rewinds through the history when paused', () => {
+        render(<Controls {...defaultProps} currentTick={20} historyRange={{ oldestTick: 5, latestTick: 20 }} />);
+
+        fireEvent.click(screen.getByRole('button', { name: /Step back one tick/i }));
+        expect(mockOnStepBack).toHaveBeenCalledTimes(1);
+
+        fireEvent.change(screen.getByLabelText(/History: tick/i), { target: { value: '12' } });
+        expect(mockOnRewind).toHaveBeenCalledWith(12);
+    });
+
+    it('disables the history controls while the simulation is running', () => {
+        render(<Controls {...defaultProps} isRunning={true} currentTick={20} historyRange={{ oldestTick: 5, latestTick: 20 }} />);
+        expect(screen.getByRole('button', { name: /Step back one tick/i })).toBeDisabled();
+        expect(screen.getByLabelText(/History: tick/i)).toBeDisabled();
+    });
+
+    it('steps forward and runs a chosen number of ticks', () => {
+        render(<Controls {...defaultProps} />);
+
+        fireEvent.click(screen.getByRole('button', { name: /Step forward one tick/i }));
+        expect(mockOnStep).toHaveBeenCalledTimes(1);
+
+        fireEvent.change(screen.getByLabelText(/Ticks to run/i), { target: { value: '25' } });
+        fireEvent.click(screen.getByRole('button', { name: /Run 25 ticks/i }));
+        expect(mockOnRunTicks).toHaveBeenCalledWith(25);
+    });
+
+    it('disables stepping while the simulation is running', () => {
+        render(<Controls {...defaultProps} isRunning={true} />);
+        expect(screen.getByRole('button', { name: /Step forward one tick/i })).toBeDisabled();
+        expect(screen.getByRole('button', { name: /Run 10 ticks/i })).toBeDisabled();
+    });
+
+    it('disables playing, stepping and rewinding while ticks are being run', () => {
+        render(<Controls {...defaultProps} isAdvancing={true} currentTick={5} historyRange={{ oldestTick: 0, latestTick: 5 }} />);
+        expect(screen.getByRole('button', { name: /Start simulation/i })).toBeDisabled();
+        expect(screen.getByRole('button', { name: /Step forward one tick/i })).toBeDisabled();
+        expect(screen.getByRole('button', { name: /Run 10 ticks/i })).toBeDisabled();
+        expect(screen.getByRole('button', { name: /Step back one tick/i })).toBeDisabled();
+        expect(screen.getByLabelText(/History: tick 5/i)).toBeDisabled();
+    });
+
+    it('only offers replay export for seeded runs', () => {
+        const { rerender } = render(<Controls {...defaultProps} />);
+        expect(screen.getByRole('button', { name: /Export Replay/i })).toBeDisabled();
+
+        rerender(<Controls {...defaultProps} params={{ ...DEFAULT_SIM_PARAMS, seed: 42 }} />);
+        fireEvent.click(screen.getByRole('button', { name: /Export Replay/i }));
+        expect(mockOnExportReplay).toHaveBeenCalledTimes(1);
+    });
+
+    it('passes an opened replay file on', () => {
+        render(<Controls {...defaultProps} />);
+        const file = new File(['{}'], 'replay.json', { type: 'application/json' });
+        fireEvent.change(screen.getByLabelText(/Open replay file/i), { target: { files: [file] } });
+        expect(mockOnOpenReplay).toHaveBeenCalledWith(file);
+    });
+
+    it('exports the garden and passes an imported garden file on', () => {
+        render(<Controls {...defaultProps} />);
+        fireEvent.click(screen.getByRole('button', { name: /Export Garden/i }));
+        expect(mockOnExportGarden).toHaveBeenCalledTimes(1);
+
+        const file = new File(['{}'], 'meadow.evogarden');
+        fireEvent.change(screen.getByLabelText(/Import garden file/i), { target: { files: [file] } });
+        expect(mockOnImportGarden).toHaveBeenCalledWith(file);
+    });
+
+    it('locks the parameters while watching a replay but keeps playback controls', () => {
+        render(<Controls {...defaultProps} isReplaying={true} hasSavedState={true} params={{ ...DEFAULT_SIM_PARAMS, seed: 42 }} />);
+
+        expect(screen.getByRole('button', { name: /Apply & Reset/i })).toBeDisabled();
+        expect(screen.getByRole('button', { name: /Save/i })).toBeDisabled();
+        expect(screen.getByRole('button', { name: /Load/i })).toBeDisabled();
+        expect(screen.getByRole('button', { name: /Export Garden/i })).toBeDisabled();
+        expect(screen.getByLabelText(/Grid Width/i)).toBeDisabled();
+        expect(screen.getByRole('button', { name: /Start simulation/i })).toBeEnabled();
+        expect(screen.getByRole('button', { name: /Step forward one tick/i })).toBeEnabled();
+
+        fireEvent.click(screen.getByRole('button', { name: /Exit Replay/i }));
+        expect(mockOnExitReplay).toHaveBeenCalledTimes(1);
+    });
+
+    it('permits an imported species and offers to remove it', async () => {
+        const glowWorm: CustomSpeciesFile = {
+            emoji: '🪱', name: 'Glow Worm', role: 'scavenger',
+            stats: { attack: 1, maxHealth: 40, maxStamina: 30, speed: 1, eggHatchTime: 10, reproductionCost: 4 },
+            behaviors: [{ type: 'scavenge' }],
+        };
+        mockOnImportSpecies.mockImplementation(async () => {
+            setCustomSpecies([glowWorm]);
+            return glowWorm.emoji;
+        });
+
+        render(<Controls {...defaultProps} />);
+        fireEvent.click(screen.getByRole('button', { name: /Permitted Actors/i }));
+        const file = new File(['{}'], 'glowworm.json', { type: 'application/json' });
+        fireEvent.change(screen.getByLabelText(/Add species from JSON file/i), { target: { files: [file] } });
+
+        await waitFor(() => expect(screen.getByRole('button', { name: /Remove Glow Worm/i })).toBeInTheDocument());
+        expect(mockOnImportSpecies).toHaveBeenCalledWith(file);
+        fireEvent.click(screen.getByRole('button', { name: /Apply & Reset/i }));
+        expect(mockOnParamsChange.mock.calls[0][0].allowedActors).toContain('🪱');
+
+        // While the garden still has glow worms the removal is refused, and the species stays permitted.
+        const permitted = screen.getByRole('checkbox', { name: /Glow Worm/i });
+        mockOnRemoveSpecies.mockReturnValueOnce(false);
+        fireEvent.click(screen.getByRole('button', { name: /Remove Glow Worm/i }));
+        expect(permitted).toBeChecked();
+
+        mockOnRemoveSpecies.mockReturnValueOnce(true);
+        fireEvent.click(screen.getByRole('button', { name: /Remove Glow Worm/i }));
+        expect(mockOnRemoveSpecies).toHaveBeenCalledWith('🪱');
+        expect(permitted).not.toBeChecked();
+        setCustomSpecies([]);
+    });
+
+    it('uses an imported climate, with its loop and scale options', async () => {
+        const climate: ClimateScenario = { id: 'imported', name: 'Valencia 2023', series: { interval: 'day', temperature: [10, 12], humidity: [0.6, 0.7] } };
+        mockOnImportClimate.mockResolvedValue(climate);
+
+        render(<Controls {...defaultProps} />);
+        expect(screen.queryByLabelText(/Loop the readings/i)).not.toBeInTheDocument();
+        const file = new File(['temperature,humidity'], 'valencia.csv', { type: 'text/csv' });
+        fireEvent.change(screen.getByLabelText(/Import climate from CSV or JSON file/i), { target: { files: [file] } });
+
+        await waitFor(() => expect(screen.getByLabelText(/Climate Scenario/i)).toHaveValue('imported'));
+        fireEvent.click(screen.getByLabelText(/Loop the readings/i));
+        fireEvent.change(screen.getByLabelText(/Temp. Swing Scale/i), { target: { value: '1.5' } });
+        fireEvent.click(screen.getByRole('button', { name: /Apply & Reset/i }));
+
+        expect(mockOnImportClimate).toHaveBeenCalledWith(file);
+        expect(mockOnParamsChange).toHaveBeenCalledWith(expect.objectContaining({
+            climateScenario: climate,
+            climateLoop: false,
+            climateTemperatureScale: 1.5,
+        }), true);
+    });
+
+    it('switches to a built-in climate scenario', () => {
+        render(<Controls {...defaultProps} />);
+
+        fireEvent.change(screen.getByLabelText(/Climate Scenario/i), { target: { value: 'gradual-warming' } });
+        fireEvent.click(screen.getByRole('button', { name: /Apply & Reset/i }));
+
+        expect(mockOnParamsChange.mock.calls[0][0].climateScenario).toMatchObject({ id: 'gradual-warming', warmingPerTick: 0.01 });
+    });
 });
@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import type { SimulationParams, WindDirection } from '../types';
-import { PlayIcon, PauseIcon, RefreshCwIcon, SaveIcon, UploadIcon, LoaderIcon } from './icons';
+import type { ClimateScenario, SimulationParams, TickHistoryRange } from '../types';
+import { PlayIcon, PauseIcon, RefreshCwIcon, SaveIcon, UploadIcon, LoaderIcon, SkipBackIcon, SkipForwardIcon, DownloadIcon, XIcon } from './icons';
 import { CollapsibleSection } from './CollapsibleSection';
-import { INSECT_DATA } from '../constants';
-import { ACTOR_NAMES } from '../utils';
+import { getEmojiName } from '../utils';
+import { speciesRegistry } from '../lib/speciesRegistry';
+import { generateSeed } from '../lib/random';
+import { BUILTIN_CLIMATE_SCENARIOS, WIND_DIRECTIONS } from '../constants';
+import { IMPORTED_CLIMATE_SCENARIO_ID } from '../lib/climateScenario';
 
 interface ControlsProps {
     params: SimulationParams;
@@ -15,28 +18,57 @@ interface ControlsProps {
     onLoad: () => void;
     hasSavedState: boolean;
     isSaving: boolean;
+    currentTick: number;
+    historyRange: TickHistoryRange | null;
+    isAdvancing: boolean; // A step or run of ticks is in progress
+    onStepBack: () => void;
+    onRewind: (tick: number) => void;
+    onStep: () => void;
+    onRunTicks: (count: number) => void;
+    isReplaying: boolean;
+    onExportReplay: () => void;
+    onOpenReplay: (file: File) => void;
+    onExitReplay: () => void;
+    onExportGarden: () => void;
+    onImportGarden: (file: File) => void;
+    /** Imports a species definition file, resolving to the new species' emoji or null if it was rejected. */
+    onImportSpecies: (file: File) => Promise<string | null>;
+    onRemoveSpecies: (emoji: string) => boolean;
+    /** Imports a climate file, resolving to its scenario or null if it was rejected. */
+    onImportClimate: (file: File) => Promise<ClimateScenario | null>;
 }
 
-const WIND_DIRECTIONS: WindDirection[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
 const FLOWER_DETAIL_OPTIONS = [4, 8, 16, 32, 64];
 const SIMULATION_SPEED_OPTIONS = [0.5, 1, 2, 4];
 const LIVE_UPDATABLE_PARAMS = ['simulationSpeed', 'notificationMode'];
-// Create a list of all spawnable actors for the UI
-const ACTOR_LIST = ['🐦', '🦅', ...Array.from(INSECT_DATA.keys())];
+const MAX_RUN_TICKS = 1000;
+// Actors that can be permitted besides the registered insect species
+const NON_INSECT_ACTORS = ['🐦', '🦅'];
+
+// Species whose eggs hatch into another species, and that species, are permitted together.
+const getLinkedSpecies = (emoji: string): string | null => {
+    const offspring = speciesRegistry.get(emoji)?.offspringEmoji;
+    if (offspring) return offspring;
+    return speciesRegistry.getAll().find(s => s.offspringEmoji === emoji)?.emoji ?? null;
+};
 
 
-export const Controls: React.FC<ControlsProps> = ({ params, onParamsChange, isRunning, setIsRunning, onSave, onLoad, hasSavedState, isSaving, onStart }) => {
+export const Controls: React.FC<ControlsProps> = ({ params, onParamsChange, isRunning, setIsRunning, onSave, onLoad, hasSavedState, isSaving, onStart, currentTick, historyRange, isAdvancing, onStepBack, onRewind, onStep, onRunTicks, isReplaying, onExportReplay, onOpenReplay, onExitReplay, onExportGarden, onImportGarden, onImportSpecies, onRemoveSpecies, onImportClimate }) => {
     const [localParams, setLocalParams] = useState<SimulationParams>(params);
+    const [runTickCount, setRunTickCount] = useState(10);
+    // The last imported climate stays on offer after another scenario is chosen.
+    const [importedClimate, setImportedClimate] = useState<ClimateScenario | null>(params.climateScenario?.id === IMPORTED_CLIMATE_SCENARIO_ID ? params.climateScenario : null);
 
     useEffect(() => {
         setLocalParams(params);
+        if (params.climateScenario?.id === IMPORTED_CLIMATE_SCENARIO_ID) setImportedClimate(params.climateScenario);
     }, [params]);
 
     const handleParamChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
         const { name, value, type } = e.target;
         
         setLocalParams(prev => {
-            const isFloat = ['humidity', 'herbicideFlowerDensityThreshold', 'humidityAmplitude', 'weatherEventChance', 'heavyRainHumidityIncrease', 'droughtHumidityDecrease', 'mutationChance', 'mutationAmount', 'beeWinterHoneyConsumption', 'hivePollenToHoneyRatio', 'beePollinationWanderChance', 'pheromoneStrengthDecay', 'spiderWebStaminaRegen', 'spiderWebTrapChance', 'spiderEscapeChanceModifier', 'simulationSpeed'].includes(name);
+            const isFloat = ['humidity', 'herbicideFlowerDensityThreshold', 'humidityAmplitude', 'weatherEventChance', 'heavyRainHumidityIncrease', 'droughtHumidityDecrease', 'mutationChance', 'mutationAmount', 'beeWinterHoneyConsumption', 'hivePollenToHoneyRatio', 'beePollinationWanderChance', 'pheromoneStrengthDecay', 'spiderWebStaminaRegen', 'spiderWebTrapChance', 'spiderEscapeChanceModifier', 'simulationSpeed', 'climateTemperatureScale', 'climateHumidityScale', 'diseaseOutbreakChance', 'blightOutbreakChance', 'blightSpreadChance', 'blightHealthDamage'].includes(name);
             const isString = ['windDirection', 'notificationMode'].includes(name);
         
             let processedValue: string | number | boolean = value;
@@ -70,7 +102,7 @@ export const Controls: React.FC<ControlsProps> = ({ params, onParamsChange, isRu
     const handleAllowedActorsChange = (emoji: string, checked: boolean) => {
         setLocalParams(prev => {
             const currentAllowed = new Set(prev.allowedActors);
-            const linkedEmoji = emoji === '🦋' ? '🐛' : emoji === '🐛' ? '🦋' : null;
+            const linkedEmoji = getLinkedSpecies(emoji);
     
             if (checked) {
                 currentAllowed.add(emoji);
@@ -84,14 +116,76 @@ export const Controls: React.FC<ControlsProps> = ({ params, onParamsChange, isRu
         });
     };
 
+    const handleSeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { value } = e.target;
+        // An empty field means an unseeded (non-reproducible) run.
+        const seed = value.trim() === '' ? null : parseInt(value, 10);
+        setLocalParams(prev => ({ ...prev, seed: seed === null || isNaN(seed) ? null : seed >>> 0 }));
+    };
+
     const handleApply = () => {
         onParamsChange(localParams, true);
     };
+
+    const handleReplayFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onOpenReplay(file);
+        e.target.value = ''; // Allow the same file to be opened again
+    };
+
+    const handleGardenFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onImportGarden(file);
+        e.target.value = '';
+    };
+
+    const handleSpeciesFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const emoji = await onImportSpecies(file);
+        if (emoji) handleAllowedActorsChange(emoji, true);
+    };
+
+    const handleClimateScenarioChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const { value } = e.target;
+        const scenarios = importedClimate ? [...BUILTIN_CLIMATE_SCENARIOS, importedClimate] : BUILTIN_CLIMATE_SCENARIOS;
+        setLocalParams(prev => ({ ...prev, climateScenario: scenarios.find(s => s.id === value) ?? null }));
+    };
+
+    const handleClimateFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const scenario = await onImportClimate(file);
+        if (scenario) {
+            setImportedClimate(scenario);
+            setLocalParams(prev => ({ ...prev, climateScenario: scenario }));
+        }
+    };
+
+    const handleRemoveSpecies = (emoji: string) => {
+        if (onRemoveSpecies(emoji)) handleAllowedActorsChange(emoji, false);
+    };
     
     const maxFlowers = localParams.gridWidth * localParams.gridHeight;
+    // Rewinding is only offered while paused, and only once there is something to rewind to.
+    const canRewind = !isRunning && !isSaving && !isAdvancing && historyRange !== null && historyRange.latestTick > historyRange.oldestTick;
     
     return (
         <div className="space-y-4">
+            {isReplaying && (
+                <div className="flex items-center justify-between gap-2 p-2 bg-accent-yellow/20 border border-accent-yellow/50 rounded-md">
+                    <span className="text-sm text-primary-light">Watching a replay. Controls are locked.</span>
+                    <button
+                        onClick={onExitReplay}
+                        className="px-3 py-1 bg-surface-hover hover:bg-surface text-white text-sm font-semibold rounded-md transition-colors duration-200 cursor-pointer"
+                        title="Leave the replay and start a new garden"
+                    >
+                        Exit Replay
+                    </button>
+                </div>
+            )}
             <div className="grid grid-cols-2 gap-2">
                 <button
                     onClick={() => {
@@ -102,7 +196,7 @@ export const Controls: React.FC<ControlsProps> = ({ params, onParamsChange, isRu
                     }}
                     className="flex items-center justify-center px-4 py-2 bg-accent-green/50 hover:bg-accent-green/70 text-white font-semibold rounded-md transition-colors duration-200 disabled:bg-surface-hover/50 disabled:cursor-not-allowed cursor-pointer"
                     aria-label={isRunning ? 'Pause simulation' : 'Start simulation'}
-                    disabled={isSaving}
+                    disabled={isSaving || isAdvancing}
                 >
                     {isRunning ? <PauseIcon className="w-5 h-5 mr-2" /> : <PlayIcon className="w-5 h-5 mr-2" />}
                     {isRunning ? 'Pause' : 'Start'}
@@ -111,7 +205,7 @@ export const Controls: React.FC<ControlsProps> = ({ params, onParamsChange, isRu
                     onClick={handleApply}
                     className="flex items-center justify-center px-4 py-2 bg-accent-blue/50 hover:bg-accent-blue/70 text-white font-semibold rounded-md transition-colors duration-200 disabled:bg-surface-hover/50 disabled:cursor-not-allowed cursor-pointer"
                     title="Apply new parameters and reset simulation"
-                    disabled={isSaving}
+                    disabled={isSaving || isReplaying}
                 >
                     <RefreshCwIcon className="w-5 h-5 mr-2" />
                     Apply & Reset
@@ -119,8 +213,8 @@ export const Controls: React.FC<ControlsProps> = ({ params, onParamsChange, isRu
                 <button
                     onClick={onSave}
                     className="flex items-center justify-center px-4 py-2 bg-accent-purple/50 hover:bg-accent-purple/70 text-white font-semibold rounded-md transition-colors duration-200 disabled:bg-surface-hover/50 disabled:cursor-not-allowed cursor-pointer"
-                    title="Save current simulation state"
-                    disabled={isSaving || isRunning}
+                    title="Save the current garden to a new slot"
+                    disabled={isSaving || isRunning || isReplaying}
                 >
                     {isSaving ? (
                         <><LoaderIcon className="w-5 h-5 mr-2 animate-spin" /> Saving...</>
@@ -130,17 +224,121 @@ export const Controls: React.FC<ControlsProps> = ({ params, onParamsChange, isRu
                 </button>
                  <button
                     onClick={onLoad}
-                    disabled={!hasSavedState || isSaving}
+                    disabled={!hasSavedState || isSaving || isReplaying}
                     className="flex items-center justify-center px-4 py-2 bg-accent-yellow/50 hover:bg-accent-yellow/70 text-white font-semibold rounded-md transition-colors duration-200 disabled:bg-surface-hover/50 disabled:cursor-not-allowed cursor-pointer"
-                    title="Load last saved simulation"
+                    title="Open the saved gardens"
                 >
                     <UploadIcon className="w-5 h-5 mr-2" />
                     Load
                 </button>
+                <button
+                    onClick={onExportReplay}
+                    disabled={isSaving || params.seed === null}
+                    className="flex items-center justify-center px-4 py-2 bg-surface-hover hover:bg-surface text-white font-semibold rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                    title={params.seed === null ? 'Only seeded runs can be exported as replays' : 'Download this run as a replay file'}
+                >
+                    <DownloadIcon className="w-5 h-5 mr-2" />
+                    Export Replay
+                </button>
+                <label
+                    className={`flex items-center justify-center px-4 py-2 bg-surface-hover hover:bg-surface text-white font-semibold rounded-md transition-colors duration-200 ${isSaving ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                    title="Open a replay file and watch it"
+                >
+                    <UploadIcon className="w-5 h-5 mr-2" />
+                    Open Replay
+                    <input type="file" accept=".json,application/json" className="sr-only" onChange={handleReplayFileChange} disabled={isSaving} aria-label="Open replay file" />
+                </label>
+                <button
+                    onClick={onExportGarden}
+                    disabled={isSaving || isReplaying}
+                    className="flex items-center justify-center px-4 py-2 bg-surface-hover hover:bg-surface text-white font-semibold rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                    title="Download the whole garden, with its seed bank, challenges and analytics, as one file"
+                >
+                    <DownloadIcon className="w-5 h-5 mr-2" />
+                    Export Garden
+                </button>
+                <label
+                    className={`flex items-center justify-center px-4 py-2 bg-surface-hover hover:bg-surface text-white font-semibold rounded-md transition-colors duration-200 ${isSaving || isReplaying ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                    title="Open a garden exported from EvoGarden, here or in another browser"
+                >
+                    <UploadIcon className="w-5 h-5 mr-2" />
+                    Import Garden
+                    <input type="file" accept=".evogarden,.json,application/json" className="sr-only" onChange={handleGardenFileChange} disabled={isSaving || isReplaying} aria-label="Import garden file" />
+                </label>
+            </div>
+
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={onStepBack}
+                    disabled={!canRewind || currentTick <= (historyRange?.oldestTick ?? 0)}
+                    className="flex items-center justify-center p-2 bg-surface-hover hover:bg-surface text-white rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                    aria-label="Step back one tick"
+                    title="Step back one tick"
+                >
+                    <SkipBackIcon className="w-5 h-5" />
+                </button>
+                <label className="block flex-grow" htmlFor="tickScrubber">
+                    <span className="text-secondary text-sm">History: tick {currentTick}</span>
+                    <input
+                        type="range"
+                        name="tickScrubber"
+                        id="tickScrubber"
+                        min={historyRange?.oldestTick ?? 0}
+                        max={historyRange?.latestTick ?? 0}
+                        value={currentTick}
+                        onChange={(e) => onRewind(parseInt(e.target.value, 10))}
+                        disabled={!canRewind}
+                        className="w-full h-2 bg-surface-hover rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed"
+                    />
+                </label>
+                <button
+                    onClick={onStep}
+                    disabled={isRunning || isSaving || isAdvancing}
+                    className="flex items-center justify-center p-2 bg-surface-hover hover:bg-surface text-white rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                    aria-label="Step forward one tick"
+                    title="Step forward one tick"
+                >
+                    <SkipForwardIcon className="w-5 h-5" />
+                </button>
             </div>
 
-            <div className="space-y-1">
+            <div className="flex items-center gap-2">
+                <label className="sr-only" htmlFor="runTickCount">Ticks to run</label>
+                <input
+                    type="number"
+                    id="runTickCount"
+                    min="1"
+                    max={MAX_RUN_TICKS}
+                    value={runTickCount}
+                    onChange={(e) => setRunTickCount(Math.min(MAX_RUN_TICKS, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                    className="w-24 p-2 bg-surface-hover border border-surface rounded-md text-white"
+                />
+                <button
+                    onClick={() => onRunTicks(runTickCount)}
+                    disabled={isRunning || isSaving || isAdvancing}
+                    className="flex-grow px-4 py-2 bg-surface-hover hover:bg-surface text-white font-semibold rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                    title="Run this many ticks, then pause"
+                >
+                    Run {runTickCount} ticks
+                </button>
+            </div>
+
+            <fieldset className="space-y-1" disabled={isReplaying}>
                 <CollapsibleSection title="World Parameters">
+                    <label className="block" htmlFor="seed">
+                        <span className="text-secondary text-sm">Seed (blank for random)</span>
+                        <div className="flex gap-2 mt-1">
+                            <input type="number" name="seed" id="seed" min="0" placeholder="Random" value={localParams.seed ?? ''} onChange={handleSeedChange} className="w-full p-2 bg-surface-hover border border-surface rounded-md text-white" />
+                            <button
+                                type="button"
+                                onClick={() => setLocalParams(prev => ({ ...prev, seed: generateSeed() }))}
+                                className="px-3 bg-surface-hover hover:bg-surface rounded-md text-secondary text-sm"
+                                title="Generate a new seed"
+                            >
+                                New
+                            </button>
+                        </div>
+                    </label>
                     <label className="block" htmlFor="gridWidth">
                         <span className="text-secondary text-sm">Grid Width: {localParams.gridWidth}</span>
                         <input type="range" name="gridWidth" id="gridWidth" min="10" max="35" value={localParams.gridWidth} onChange={handleParamChange} className="w-full h-2 bg-surface-hover rounded-lg appearance-none cursor-pointer" />
@@ -152,6 +350,10 @@ export const Controls: React.FC<ControlsProps> = ({ params, onParamsChange, isRu
                      <label className="block" htmlFor="seasonLengthInTicks">
                         <span className="text-secondary text-sm">Season Length: {localParams.seasonLengthInTicks} ticks</span>
                         <input type="range" name="seasonLengthInTicks" id="seasonLengthInTicks" min="100" max="5000" step="100" value={localParams.seasonLengthInTicks} onChange={handleParamChange} className="w-full h-2 bg-surface-hover rounded-lg appearance-none cursor-pointer" />
+                    </label>
+                     <label className="block" htmlFor="dayLengthInTicks">
+                        <span className="text-secondary text-sm">Day Length: {localParams.dayLengthInTicks} ticks</span>
+                        <input type="range" name="dayLengthInTicks" id="dayLengthInTicks" min="10" max="200" step="2" value={localParams.dayLengthInTicks} onChange={handleParamChange} className="w-full h-2 bg-surface-hover rounded-lg appearance-none cursor-pointer" />
                     </label>
                     <label className="block" htmlFor="temperature">
                         <span className="text-secondary text-sm">Base Temperature: {localParams.temperature}°C</span>
@@ -161,6 +363,42 @@ export const Controls: React.FC<ControlsProps> = ({ params, onParamsChange, isRu
                         <span className="text-secondary text-sm">Temp. Variation: ±{localParams.temperatureAmplitude}°C</span>
                         <input type="range" name="temperatureAmplitude" id="temperatureAmplitude" min="0" max="25" value={localParams.temperatureAmplitude} onChange={handleParamChange} className="w-full h-2 bg-surface-hover rounded-lg appearance-none cursor-pointer" />
                     </label>
+                    <label className="block" htmlFor="climateScenario">
+                        <span className="text-secondary text-sm">Climate Scenario</span>
+                        <select name="climateScenario" id="climateScenario" value={localParams.climateScenario?.id ?? ''} onChange={handleClimateScenarioChange} className="w-full mt-1 p-2 bg-surface-hover border border-surface rounded-md text-white">
+                            <option value="">Seasonal Cycle</option>
+                            {BUILTIN_CLIMATE_SCENARIOS.map(scenario => <option key={scenario.id} value={scenario.id}>{scenario.name}</option>)}
+                            {importedClimate && <option value={importedClimate.id}>{importedClimate.name} (imported)</option>}
+                        </select>
+                    </label>
+                    <label
+                        className="flex items-center justify-center px-4 py-2 bg-surface-hover hover:bg-surface text-white text-sm font-semibold rounded-md transition-colors duration-200 cursor-pointer"
+                        title="Replace the seasonal cycle with temperature and humidity readings from a CSV or JSON file"
+                    >
+                        <UploadIcon className="w-4 h-4 mr-2" />
+                        Import Climate (CSV/JSON)
+                        <input type="file" accept=".csv,.json,text/csv,application/json" className="sr-only" onChange={handleClimateFileChange} aria-label="Import climate from CSV or JSON file" />
+                    </label>
+                    {localParams.climateScenario?.series && (
+                        <>
+                            <label className="flex items-center space-x-2 text-sm text-secondary cursor-pointer" htmlFor="climateLoop">
+                                <input type="checkbox" name="climateLoop" id="climateLoop" checked={localParams.climateLoop} onChange={handleParamChange} className="h-4 w-4 rounded bg-surface border-border text-accent-green focus:ring-accent-green" />
+                                <span>Loop the readings</span>
+                            </label>
+                            <label className="block" htmlFor="climateTemperatureScale">
+                                <span className="text-secondary text-sm">Temp. Swing Scale: ×{localParams.climateTemperatureScale}</span>
+                                <input type="range" name="climateTemperatureScale" id="climateTemperatureScale" min="0" max="3" step="0.1" value={localParams.climateTemperatureScale} onChange={handleParamChange} className="w-full h-2 bg-surface-hover rounded-lg appearance-none cursor-pointer" />
+                            </label>
+                            <label className="block" htmlFor="climateHumidityScale">
+                                <span className="text-secondary text-sm">Humidity Swing Scale: ×{localParams.climateHumidityScale}</span>
+                                <input type="range" name="climateHumidityScale" id="climateHumidityScale" min="0" max="3" step="0.1" value={localParams.climateHumidityScale} onChange={handleParamChange} className="w-full h-2 bg-surface-hover rounded-lg appearance-none cursor-pointer" />
+                            </label>
+                        </>
+                    )}
+                     <label className="block" htmlFor="nightTempDecrease">
+                        <span className="text-secondary text-sm">Night Cooling: -{localParams.nightTempDecrease}°C</span>
+                        <input type="range" name="nightTempDecrease" id="nightTempDecrease" min="0" max="20" value={localParams.nightTempDecrease} onChange={handleParamChange} className="w-full h-2 bg-surface-hover rounded-lg appearance-none cursor-pointer" />
+                    </label>
                     <label className="block" htmlFor="humidity">
                         <span className="text-secondary text-sm">Base Humidity: {Math.round(localParams.humidity * 100)}%</span>
                         <input type="range" name="humidity" id="humidity" min="0" max="1" step="0.01" value={localParams.humidity} onChange={handleParamChange} className="w-full h-2 bg-surface-hover rounded-lg appearance-none cursor-pointer" />
@@ -198,7 +436,7 @@ export const Controls: React.FC<ControlsProps> = ({ params, onParamsChange, isRu
 
                  <CollapsibleSection title="Permitted Actors" defaultOpen={false}>
                     <div className="grid grid-cols-2 gap-2">
-                        {ACTOR_LIST.map(emoji => (
+                        {[...NON_INSECT_ACTORS, ...speciesRegistry.getEmojis()].map(emoji => (
                             <label key={emoji} className="flex items-center space-x-2 text-sm text-secondary cursor-pointer">
                                 <input
                                     type="checkbox"
@@ -206,10 +444,27 @@ export const Controls: React.FC<ControlsProps> = ({ params, onParamsChange, isRu
                                     onChange={(e) => handleAllowedActorsChange(emoji, e.target.checked)}
                                     className="h-4 w-4 rounded bg-surface border-border text-accent-green focus:ring-accent-green"
                                 />
-                                <span>{emoji} {ACTOR_NAMES[emoji]}</span>
+                                <span>{emoji} {getEmojiName(emoji)}</span>
+                                {speciesRegistry.get(emoji)?.custom && (
+                                    <button
+                                        onClick={(e) => { e.preventDefault(); handleRemoveSpecies(emoji); }}
+                                        className="p-0.5 text-tertiary hover:text-accent-red rounded-full cursor-pointer"
+                                        aria-label={`Remove ${getEmojiName(emoji)}`}
+                                    >
+                                        <XIcon className="w-3 h-3" />
+                                    </button>
+                                )}
                             </label>
                         ))}
                     </div>
+                    <label
+                        className="flex items-center justify-center mt-3 px-4 py-2 bg-surface-hover hover:bg-surface text-white text-sm font-semibold rounded-md transition-colors duration-200 cursor-pointer"
+                        title="Add an insect species from a JSON definition file"
+                    >
+                        <UploadIcon className="w-4 h-4 mr-2" />
+                        Add Species (JSON)
+                        <input type="file" accept=".json,application/json" className="sr-only" onChange={handleSpeciesFileChange} aria-label="Add species from JSON file" />
+                    </label>
                 </CollapsibleSection>
 
                  <CollapsibleSection title="Hive & Colony Rules" defaultOpen={false}>
@@ -362,6 +617,36 @@ export const Controls: React.FC<ControlsProps> = ({ params, onParamsChange, isRu
                     </label>
                 </CollapsibleSection>
 
+                <CollapsibleSection title="Disease" defaultOpen={false}>
+                    <label className="block" htmlFor="diseaseOutbreakChance">
+                        <span className="text-secondary text-sm">Outbreak Chance: {(localParams.diseaseOutbreakChance * 100).toFixed(1)}%</span>
+                        <input type="range" name="diseaseOutbreakChance" id="diseaseOutbreakChance" min="0" max="0.02" step="0.001" value={localParams.diseaseOutbreakChance} onChange={handleParamChange} className="w-full h-2 bg-surface-hover rounded-lg appearance-none cursor-pointer" />
+                    </label>
+                    <label className="block" htmlFor="diseaseDuration">
+                        <span className="text-secondary text-sm">Illness Duration: {localParams.diseaseDuration} ticks</span>
+                        <input type="range" name="diseaseDuration" id="diseaseDuration" min="5" max="200" value={localParams.diseaseDuration} onChange={handleParamChange} className="w-full h-2 bg-surface-hover rounded-lg appearance-none cursor-pointer" />
+                    </label>
+                    <label className="block" htmlFor="diseaseHealthDamage">
+                        <span className="text-secondary text-sm">Health Lost per Tick: {localParams.diseaseHealthDamage}</span>
+                        <input type="range" name="diseaseHealthDamage" id="diseaseHealthDamage" min="0" max="5" value={localParams.diseaseHealthDamage} onChange={handleParamChange} className="w-full h-2 bg-surface-hover rounded-lg appearance-none cursor-pointer" />
+                    </label>
+                </CollapsibleSection>
+
+                <CollapsibleSection title="Flower Blight" defaultOpen={false}>
+                    <label className="block" htmlFor="blightOutbreakChance">
+                        <span className="text-secondary text-sm">Outbreak Chance: {(localParams.blightOutbreakChance * 100).toFixed(1)}%</span>
+                        <input type="range" name="blightOutbreakChance" id="blightOutbreakChance" min="0" max="0.01" step="0.001" value={localParams.blightOutbreakChance} onChange={handleParamChange} className="w-full h-2 bg-surface-hover rounded-lg appearance-none cursor-pointer" />
+                    </label>
+                    <label className="block" htmlFor="blightSpreadChance">
+                        <span className="text-secondary text-sm">Spread Chance: {(localParams.blightSpreadChance * 100).toFixed(0)}%</span>
+                        <input type="range" name="blightSpreadChance" id="blightSpreadChance" min="0" max="0.5" step="0.01" value={localParams.blightSpreadChance} onChange={handleParamChange} className="w-full h-2 bg-surface-hover rounded-lg appearance-none cursor-pointer" />
+                    </label>
+                    <label className="block" htmlFor="blightHealthDamage">
+                        <span className="text-secondary text-sm">Health Lost per Tick: {localParams.blightHealthDamage}</span>
+                        <input type="range" name="blightHealthDamage" id="blightHealthDamage" min="0" max="5" step="0.1" value={localParams.blightHealthDamage} onChange={handleParamChange} className="w-full h-2 bg-surface-hover rounded-lg appearance-none cursor-pointer" />
+                    </label>
+                </CollapsibleSection>
+
                 <CollapsibleSection title="Graphics & UI" defaultOpen={false}>
                     <label className="block" htmlFor="simulationSpeed">
                         <span className="text-secondary text-sm">Simulation Speed</span>
@@ -384,7 +669,7 @@ export const Controls: React.FC<ControlsProps> = ({ params, onParamsChange, isRu
                         </select>
                     </label>
                 </CollapsibleSection>
-            </div>
+            </fieldset>
         </div>
     );
 };
@@ -1,8 +1,8 @@
 import React from 'react';
 import type { Egg } from '../types';
 import { XIcon, SearchIcon } from './icons';
-import { INSECT_DATA } from '../constants';
 import { getShortId } from '../utils';
+import { speciesRegistry } from '../lib/speciesRegistry';
 
 interface EggDetailsPanelProps {
     egg: Egg | null;
@@ -15,7 +15,7 @@ interface EggDetailsPanelProps {
 export const EggDetailsPanel: React.FC<EggDetailsPanelProps> = ({ egg, onClose, onTrackActor, onStopTracking, trackedActorId }) => {
     if (!egg) return null;
 
-    const insectToHatch = INSECT_DATA.get(egg.insectEmoji);
+    const insectToHatch = speciesRegistry.getStats(egg.insectEmoji);
     const isTrackingThisEgg = trackedActorId && trackedActorId === egg.id;
 
     return (
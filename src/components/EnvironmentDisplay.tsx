@@ -1,6 +1,8 @@
 import React from 'react';
 import type { TickSummary, WeatherEventType } from '../types';
 import { SunIcon, CloudRainIcon, SnowflakeIcon, WindIcon } from './icons';
+import { isNightTime } from '../lib/environmentManager';
+import { WIND_DIRECTIONS } from '../constants';
 
 const eventInfo: Record<WeatherEventType, { icon: React.ReactNode; text: string; colorClass: string }> = {
     heatwave: { icon: <SunIcon className="w-4 h-4" />, text: 'Heatwave', colorClass: 'text-accent-yellow' },
@@ -23,14 +25,20 @@ export const EnvironmentDisplay: React.FC<EnvironmentDisplayProps> = ({ summary
         );
     }
 
-    const { season, currentTemperature, currentHumidity, weatherEvent } = summary;
+    const { season, currentTemperature, currentHumidity, weatherEvent, timeOfDay, windDirection, windStrength } = summary;
     const eventDetails = eventInfo[weatherEvent];
 
     return (
         <div className="bg-background px-3 py-1.5 rounded-md text-xs text-secondary font-mono flex items-center justify-between gap-3">
             <span>{season}</span>
+            <span>{isNightTime(timeOfDay) ? '🌙 Night' : '☀️ Day'}</span>
             <span className="font-semibold text-primary">{currentTemperature.toFixed(1)}°C</span>
             <span>{(currentHumidity * 100).toFixed(0)}% Hum.</span>
+            <span className="flex items-center gap-1" title={`Wind blowing towards ${windDirection}`}>
+                {/* The arrow points the way the wind blows, rotated 45° for each step round from north. */}
+                <span className="inline-block" style={{ transform: `rotate(${WIND_DIRECTIONS.indexOf(windDirection) * 45}deg)` }}>↑</span>
+                {windStrength.toFixed(1)}
+            </span>
             {weatherEvent !== 'none' && eventDetails && (
                 <div className={`flex items-center space-x-1.5 capitalize p-1 bg-surface-hover/50 rounded ${eventDetails.colorClass}`}>
                     {eventDetails.icon}
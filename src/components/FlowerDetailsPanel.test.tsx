@@ -102,6 +102,24 @@ describe('FlowerDetailsPanel', () => {
         expect(screen.getByTitle('Track this flower')).toBeInTheDocument();
     });
 
+    it('shows the soil moisture of the flower\'s cell when it is known', () => {
+        render(<FlowerDetailsPanel {...defaultProps} flower={mockFlower} soilMoisture={0.426} />);
+        expect(screen.getByText(/Soil Moisture:/i).parentElement).toHaveTextContent('Soil Moisture: 43%');
+    });
+
+    it('shows the stats a flower grew with next to its current ones once the weather has changed them', () => {
+        const baseStats = { maxHealth: 100, maxStamina: 100, nutrientEfficiency: 1.1, toxicityRate: 0.1, effects: { ...mockFlower.effects, vitality: 4 } };
+        render(<FlowerDetailsPanel {...defaultProps} flower={{ ...mockFlower, baseStats }} />);
+        expect(screen.getByText('Weather Adjustment')).toBeInTheDocument();
+        expect(screen.getByText('Max Health').parentElement).toHaveTextContent('Max Health100120');
+        expect(screen.getByText('Vitality').parentElement).toHaveTextContent('Vitality410');
+    });
+
+    it('leaves out the weather adjustment for flowers the weather has not changed', () => {
+        render(<FlowerDetailsPanel {...defaultProps} flower={mockFlower} />);
+        expect(screen.queryByText('Weather Adjustment')).not.toBeInTheDocument();
+    });
+
     it('calls onTrackActor when track button is clicked', () => {
         render(<FlowerDetailsPanel {...defaultProps} flower={mockFlower} />);
         const trackButton = screen.getByTitle('Track this flower');
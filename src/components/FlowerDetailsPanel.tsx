@@ -1,11 +1,12 @@
 import React, { useCallback, useState, useRef } from 'react';
-import type { Flower } from '../types';
+import type { Flower, FlowerPlasticStats } from '../types';
 import { CopyIcon, CheckIcon, LoaderIcon, DownloadIcon, XIcon, SearchIcon } from './icons';
 import { flowerService } from '../services/flowerService';
 import { Modal } from './Modal';
 import { Flower3DViewer } from './Flower3DViewer';
 import { TOXIC_FLOWER_THRESHOLD } from '../constants';
 import { getShortId } from '../utils';
+import { blightResistance } from '../lib/blight';
 
 interface FlowerDetailsPanelProps {
     flower: Flower | null;
@@ -15,6 +16,7 @@ interface FlowerDetailsPanelProps {
     onTrackActor: (id: string) => void;
     onStopTracking: () => void;
     trackedActorId: string | null;
+    soilMoisture?: number; // Moisture of the ground the flower grows in, from 0 to 1
 }
 
 const StatBar: React.FC<{ value: number, max: number, label: string, colorClass: string }> = ({ value, max, label, colorClass }) => (
@@ -29,7 +31,39 @@ const StatBar: React.FC<{ value: number, max: number, label: string, colorClass:
     </div>
 );
 
-export const FlowerDetailsPanel: React.FC<FlowerDetailsPanelProps> = ({ flower, isRunning, setIsRunning, onClose, onTrackActor, onStopTracking, trackedActorId }) => {
+// The stats a flower grew with next to the ones the weather has since given it.
+const PlasticStats: React.FC<{ flower: Flower, baseStats: FlowerPlasticStats }> = ({ flower, baseStats }) => {
+    const rows: [string, string, string][] = [
+        ['Max Health', Math.round(baseStats.maxHealth).toString(), Math.round(flower.maxHealth).toString()],
+        ['Max Stamina', Math.round(baseStats.maxStamina).toString(), Math.round(flower.maxStamina).toString()],
+        ['Toxicity', `${(baseStats.toxicityRate * 100).toFixed(0)}%`, `${(flower.toxicityRate * 100).toFixed(0)}%`],
+        ['Nutrient Efficiency', `${baseStats.nutrientEfficiency.toFixed(2)}x`, `${flower.nutrientEfficiency.toFixed(2)}x`],
+        ...(Object.keys(flower.effects) as (keyof Flower['effects'])[]).map((effect): [string, string, string] => [
+            effect.charAt(0).toUpperCase() + effect.slice(1),
+            baseStats.effects[effect].toString(),
+            flower.effects[effect].toString(),
+        ]),
+    ];
+    return (
+        <div className="text-sm space-y-1 text-secondary border-t border-border/50 pt-2">
+            <h3 className="text-base font-semibold text-primary-light/80 mb-1">Weather Adjustment</h3>
+            <div className="grid grid-cols-[1fr_auto_auto] gap-x-4">
+                <span className="text-xs text-tertiary">Stat</span>
+                <span className="text-xs text-tertiary text-right">Base</span>
+                <span className="text-xs text-tertiary text-right">Current</span>
+                {rows.map(([label, base, current]) => (
+                    <React.Fragment key={label}>
+                        <strong>{label}</strong>
+                        <span className="text-right">{base}</span>
+                        <span className={`text-right ${base !== current ? 'text-primary-light font-semibold' : ''}`}>{current}</span>
+                    </React.Fragment>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export const FlowerDetailsPanel: React.FC<FlowerDetailsPanelProps> = ({ flower, isRunning, setIsRunning, onClose, onTrackActor, onStopTracking, trackedActorId, soilMoisture }) => {
     const [copied, setCopied] = useState(false);
     const [is3DViewerOpen, setIs3DViewerOpen] = useState(false);
     const [gltfString, setGltfString] = useState<string | null>(null);
@@ -138,6 +172,8 @@ export const FlowerDetailsPanel: React.FC<FlowerDetailsPanelProps> = ({ flower,
                     <h3 className="text-base font-semibold text-primary-light/80 mb-1">Current State</h3>
                     <p><strong>Age:</strong> {flower.age} / {flower.maturationPeriod} ticks</p>
                     <p><strong>Status:</strong> {flower.isMature ? 'Mature' : 'Immature'}</p>
+                    {flower.isBlighted && <p><strong>Health Status:</strong> <span className="text-accent-red">Blighted</span></p>}
+                    {soilMoisture !== undefined && <p><strong>Soil Moisture:</strong> {Math.round(soilMoisture * 100)}%</p>}
                 </div>
 
                 <div className="text-sm space-y-1 text-secondary border-t border-border/50 pt-2">
@@ -154,6 +190,7 @@ export const FlowerDetailsPanel: React.FC<FlowerDetailsPanelProps> = ({ flower,
                         )}
                     </div>
                     <p><strong>Nutrient Efficiency:</strong> {flower.nutrientEfficiency.toFixed(2)}x</p>
+                    <p><strong>Blight Resistance:</strong> {Math.round(blightResistance(flower) * 100)}%</p>
                 </div>
                 
                 <div className="text-sm space-y-1 text-secondary border-t border-border/50 pt-2">
@@ -166,6 +203,8 @@ export const FlowerDetailsPanel: React.FC<FlowerDetailsPanelProps> = ({ flower,
                         <p><strong>Luck:</strong> {flower.effects.luck}</p>
                     </div>
                 </div>
+
+                {flower.baseStats && <PlasticStats flower={flower} baseStats={flower.baseStats} />}
                 
                 <div className="grow flex flex-col">
                     <label htmlFor="genome" className="block mb-1 text-sm font-medium text-primary-light shrink-0">Genome</label>
@@ -2,7 +2,7 @@ import React from 'react';
 import type { CellContent, Bird, Eagle, Nutrient, Corpse, Cocoon, SlimeTrail, Hive, TerritoryMark, AntColony, PheromoneTrail, SpiderWeb } from '../types';
 import { XIcon, SearchIcon } from './icons';
 import { GenomeVisualizer } from './GenomeVisualizer';
-import { getShortId, ACTOR_NAMES } from '../utils';
+import { getShortId, getEmojiName } from '../utils';
 
 interface GenericActorDetailsPanelProps {
     actor: CellContent | null;
@@ -191,7 +191,7 @@ export const GenericActorDetailsPanel: React.FC<GenericActorDetailsPanelProps> =
 
     const { emoji, title, stats, genome } = getActorDisplayInfo(actor);
     const isTrackingThisActor = trackedActorId && trackedActorId === actor.id;
-    const actorName = ACTOR_NAMES[emoji] || actor.type.replace(/([A-Z])/g, ' $1');
+    const actorName = getEmojiName(emoji) || actor.type.replace(/([A-Z])/g, ' $1');
 
     return (
         <div className="bg-surface border-2 border-tertiary rounded-lg shadow-lg h-full flex flex-col">
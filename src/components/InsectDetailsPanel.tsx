@@ -1,9 +1,10 @@
 import React from 'react';
 import type { Insect, Cockroach } from '../types';
 import { XIcon, SearchIcon } from './icons';
-import { INSECT_DATA, CATERPILLAR_EAT_AMOUNT_FOR_COCOON } from '../constants';
-import { ACTOR_NAMES, getShortId } from '../utils';
+import { CATERPILLAR_EAT_AMOUNT_FOR_COCOON } from '../constants';
+import { getShortId } from '../utils';
 import { GenomeVisualizer } from './GenomeVisualizer';
+import { speciesRegistry } from '../lib/speciesRegistry';
 
 interface InsectDetailsPanelProps {
     insect: (Insect | Cockroach) | null;
@@ -11,6 +12,7 @@ interface InsectDetailsPanelProps {
     onStopTracking: () => void;
     onTrackActor: (id: string) => void;
     trackedActorId: string | null;
+    soilMoisture?: number; // Moisture of the ground the insect is on, from 0 to 1
 }
 
 const StatBar: React.FC<{ value: number, max: number, label: string, colorClass: string }> = ({ value, max, label, colorClass }) => (
@@ -25,15 +27,16 @@ const StatBar: React.FC<{ value: number, max: number, label: string, colorClass:
     </div>
 );
 
-export const InsectDetailsPanel: React.FC<InsectDetailsPanelProps> = ({ insect, onClose, onStopTracking, onTrackActor, trackedActorId }) => {
+export const InsectDetailsPanel: React.FC<InsectDetailsPanelProps> = ({ insect, onClose, onStopTracking, onTrackActor, trackedActorId, soilMoisture }) => {
     if (!insect) return null;
 
-    const baseStats = INSECT_DATA.get(insect.emoji);
+    const species = speciesRegistry.get(insect.emoji);
+    const baseStats = species?.stats;
     const isTrackingThisInsect = trackedActorId && trackedActorId === insect.id;
     const isCaterpillar = insect.emoji === '🐛';
-    const isHoneybee = insect.emoji === '🐝';
-    const isAnt = insect.emoji === '🐜';
-    const actorName = ACTOR_NAMES[insect.emoji] || (insect.type === 'cockroach' ? 'Cockroach' : 'Insect');
+    const isHoneybee = species?.reproduction === 'hive';
+    const isAnt = species?.reproduction === 'colony';
+    const actorName = species?.name || (insect.type === 'cockroach' ? 'Cockroach' : 'Insect');
 
     return (
         <div className="bg-surface border-2 border-tertiary rounded-lg shadow-lg h-full flex flex-col">
@@ -120,6 +123,9 @@ export const InsectDetailsPanel: React.FC<InsectDetailsPanelProps> = ({ insect,
                             ) : ' No'}
                         </p>
                     )}
+                    {(insect.infectionTimer ?? 0) > 0 ? (
+                        <p><strong>Health Status:</strong> <span className="text-accent-red">Infected ({insect.infectionTimer} ticks left)</span></p>
+                    ) : insect.isImmune && <p><strong>Health Status:</strong> Immune</p>}
                     {baseStats && baseStats.reproductionCost > 0 && <p><strong>Reproduction Cooldown:</strong> {insect.reproductionCooldown || 0} ticks</p>}
                     {(isHoneybee || isAnt) && (
                         <>
@@ -131,6 +137,7 @@ export const InsectDetailsPanel: React.FC<InsectDetailsPanelProps> = ({ insect,
                     {isAnt && (insect as Insect).carriedItem && (
                         <p><strong>Carrying:</strong> <span className="capitalize">{(insect as Insect).carriedItem!.type}</span> (Value: {(insect as Insect).carriedItem!.value})</p>
                     )}
+                    {soilMoisture !== undefined && <p><strong>Soil Moisture:</strong> {Math.round(soilMoisture * 100)}%</p>}
                 </div>
             </div>
         </div>
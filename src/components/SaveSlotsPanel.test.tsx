@@ -0,0 +1,123 @@
+import '@testing-library/jest-dom';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { SaveSlotsPanel } from './SaveSlotsPanel';
+import { listSaveSlots, renameSaveSlot, duplicateSaveSlot, deleteSaveSlot } from '../services/saveSlots';
+import type { SaveSlot } from '../types';
+import { DEFAULT_SIM_PARAMS } from '../constants';
+
+vi.mock('../services/saveSlots', () => ({
+    listSaveSlots: vi.fn(),
+    renameSaveSlot: vi.fn(),
+    duplicateSaveSlot: vi.fn(),
+    deleteSaveSlot: vi.fn(),
+}));
+
+const makeSlot = (id: string, name: string, tick: number): SaveSlot => ({
+    id,
+    name,
+    createdAt: Date.UTC(2026, 0, 1),
+    tick,
+    summary: { gridWidth: 15, gridHeight: 10, seed: 42, climateScenario: 'Seasonal', flowerCount: 12, insectCount: 7 },
+    thumbnail: id === 'a' ? 'data:image/jpeg;base64,abc' : '',
+    state: { params: DEFAULT_SIM_PARAMS, grid: [], tick } as unknown as SaveSlot['state'],
+});
+
+describe('SaveSlotsPanel', () => {
+    const slots = [makeSlot('a', 'Before the drought', 300), makeSlot('b', 'Control', 120)];
+    const mockOnSave = vi.fn();
+    const mockOnLoad = vi.fn();
+
+    const defaultProps = {
+        isOpen: true,
+        onClose: vi.fn(),
+        onSave: mockOnSave,
+        onLoad: mockOnLoad,
+        canSave: true,
+        isSaving: false,
+        currentTick: 450,
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(listSaveSlots).mockResolvedValue(slots);
+    });
+
+    it('lists each slot with its tick, summary and thumbnail', async () => {
+        render(<SaveSlotsPanel {...defaultProps} />);
+
+        expect(await screen.findByText('Before the drought')).toBeInTheDocument();
+        expect(screen.getByText('Control')).toBeInTheDocument();
+        expect(screen.getAllByText(/Tick 300/)).toHaveLength(1);
+        expect(screen.getAllByText('15×10 · Seed 42 · Seasonal climate · 12 flowers · 7 insects')).toHaveLength(2);
+        expect(screen.getByAltText('Thumbnail of Before the drought')).toHaveAttribute('src', 'data:image/jpeg;base64,abc');
+        expect(screen.getByText('No preview')).toBeInTheDocument();
+    });
+
+    it('shows a message when there are no saves', async () => {
+        vi.mocked(listSaveSlots).mockResolvedValue([]);
+        render(<SaveSlotsPanel {...defaultProps} />);
+        expect(await screen.findByText('No saved gardens yet.')).toBeInTheDocument();
+    });
+
+    it('saves to a new slot under the given name, or one made from the tick', async () => {
+        mockOnSave.mockResolvedValue(slots[0]);
+        render(<SaveSlotsPanel {...defaultProps} />);
+        await screen.findByText('Control');
+
+        fireEvent.change(screen.getByLabelText('New save name'), { target: { value: '  Wet spring  ' } });
+        fireEvent.click(screen.getByRole('button', { name: /Save New/ }));
+        await waitFor(() => expect(mockOnSave).toHaveBeenCalledWith('Wet spring'));
+        await waitFor(() => expect(screen.getByLabelText('New save name')).toHaveValue(''));
+
+        fireEvent.click(screen.getByRole('button', { name: /Save New/ }));
+        await waitFor(() => expect(mockOnSave).toHaveBeenLastCalledWith('Garden at tick 450'));
+    });
+
+    it('does not let the garden be saved while it cannot be', async () => {
+        render(<SaveSlotsPanel {...defaultProps} canSave={false} />);
+        await screen.findByText('Control');
+        expect(screen.getByRole('button', { name: /Save New/ })).toBeDisabled();
+    });
+
+    it('loads the chosen slot', async () => {
+        render(<SaveSlotsPanel {...defaultProps} />);
+        await screen.findByText('Control');
+
+        fireEvent.click(screen.getAllByRole('button', { name: 'Load' })[1]);
+        expect(mockOnLoad).toHaveBeenCalledWith(slots[1]);
+    });
+
+    it('renames a slot when the new name is confirmed', async () => {
+        render(<SaveSlotsPanel {...defaultProps} />);
+        await screen.findByText('Control');
+
+        fireEvent.click(screen.getAllByRole('button', { name: 'Rename' })[1]);
+        const input = screen.getByLabelText('Save name');
+        fireEvent.change(input, { target: { value: 'Control run' } });
+        fireEvent.keyDown(input, { key: 'Enter' });
+
+        await waitFor(() => expect(renameSaveSlot).toHaveBeenCalledWith('b', 'Control run'));
+        expect(listSaveSlots).toHaveBeenCalledTimes(2);
+    });
+
+    it('duplicates a slot', async () => {
+        render(<SaveSlotsPanel {...defaultProps} />);
+        await screen.findByText('Control');
+
+        fireEvent.click(screen.getAllByRole('button', { name: /Duplicate/ })[0]);
+        await waitFor(() => expect(duplicateSaveSlot).toHaveBeenCalledWith('a'));
+    });
+
+    it('deletes a slot only once the deletion is confirmed', async () => {
+        render(<SaveSlotsPanel {...defaultProps} />);
+        await screen.findByText('Control');
+
+        fireEvent.click(screen.getByRole('button', { name: 'Delete Control' }));
+        expect(deleteSaveSlot).not.toHaveBeenCalled();
+        expect(screen.getByText('"Control" will be deleted. This cannot be undone.')).toBeInTheDocument();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+        await waitFor(() => expect(deleteSaveSlot).toHaveBeenCalledWith('b'));
+    });
+});
@@ -0,0 +1,206 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { SaveSlot } from '../types';
+import { listSaveSlots, renameSaveSlot, duplicateSaveSlot, deleteSaveSlot } from '../services/saveSlots';
+import { eventService } from '../services/eventService';
+import { CopyIcon, LoaderIcon, SaveIcon, Trash2Icon, UploadIcon } from './icons';
+import { Modal } from './Modal';
+import { ConfirmationModal } from './ConfirmationModal';
+
+interface SaveSlotsPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSave: (name: string) => Promise<SaveSlot | null>; // Saves the current garden to a new slot
+    onLoad: (slot: SaveSlot) => void;
+    canSave: boolean;
+    isSaving: boolean;
+    currentTick: number;
+}
+
+const reportError = (action: string, err: unknown) => {
+    console.error(`${action} failed:`, err);
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+    eventService.dispatch({ message: `${action} failed: ${errorMessage}`, type: 'error', importance: 'high' });
+};
+
+const SaveSlotCard: React.FC<{
+    slot: SaveSlot;
+    onLoad: () => void;
+    onRename: (name: string) => void;
+    onDuplicate: () => void;
+    onDelete: () => void;
+}> = ({ slot, onLoad, onRename, onDuplicate, onDelete }) => {
+    const [editedName, setEditedName] = useState<string | null>(null);
+    const { summary } = slot;
+
+    const commitRename = () => {
+        const name = editedName?.trim();
+        if (name && name !== slot.name) onRename(name);
+        setEditedName(null);
+    };
+
+    return (
+        <div className="flex gap-3 p-3 bg-background/50 border border-border/50 rounded-md">
+            <div className="w-32 h-20 bg-black/50 rounded shrink-0 flex items-center justify-center overflow-hidden">
+                {slot.thumbnail
+                    ? <img src={slot.thumbnail} alt={`Thumbnail of ${slot.name}`} className="w-full h-full object-contain" />
+                    : <span className="text-xs text-tertiary">No preview</span>}
+            </div>
+            <div className="min-w-0 grow space-y-1">
+                {editedName !== null ? (
+                    <input
+                        autoFocus
+                        value={editedName}
+                        onChange={(e) => setEditedName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') setEditedName(null);
+                        }}
+                        className="w-full px-2 py-0.5 bg-surface border border-border rounded text-primary-light font-semibold"
+                        aria-label="Save name"
+                    />
+                ) : (
+                    <p className="font-semibold text-primary-light truncate">{slot.name}</p>
+                )}
+                <p className="text-xs text-secondary">{new Date(slot.createdAt).toLocaleString()} · Tick {slot.tick}</p>
+                <p className="text-xs text-tertiary">
+                    {summary.gridWidth}×{summary.gridHeight} · {summary.seed !== null ? `Seed ${summary.seed}` : 'Unseeded'} · {summary.climateScenario} climate · {summary.flowerCount} flowers · {summary.insectCount} insects
+                </p>
+                <div className="flex gap-2 pt-1">
+                    <button onClick={onLoad} className="flex items-center px-2 py-1 bg-accent-yellow/50 hover:bg-accent-yellow/70 text-white text-xs font-semibold rounded-md transition-colors">
+                        <UploadIcon className="w-3 h-3 mr-1" /> Load
+                    </button>
+                    <button onClick={() => setEditedName(slot.name)} className="flex items-center px-2 py-1 bg-surface-hover hover:bg-border/20 text-white text-xs font-semibold rounded-md transition-colors">
+                        Rename
+                    </button>
+                    <button onClick={onDuplicate} className="flex items-center px-2 py-1 bg-surface-hover hover:bg-border/20 text-white text-xs font-semibold rounded-md transition-colors" title="Branch this garden into a new save">
+                        <CopyIcon className="w-3 h-3 mr-1" /> Duplicate
+                    </button>
+                    <button onClick={onDelete} className="flex items-center px-2 py-1 bg-accent-red/20 hover:bg-accent-red/40 text-accent-red text-xs font-semibold rounded-md transition-colors" aria-label={`Delete ${slot.name}`}>
+                        <Trash2Icon className="w-3 h-3 mr-1" /> Delete
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Lists the saved gardens, newest first, to load, rename, duplicate or delete, and saves
+ * the current garden to a new slot.
+ */
+export const SaveSlotsPanel: React.FC<SaveSlotsPanelProps> = ({ isOpen, onClose, onSave, onLoad, canSave, isSaving, currentTick }) => {
+    const [slots, setSlots] = useState<SaveSlot[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [newName, setNewName] = useState('');
+    const [slotToDelete, setSlotToDelete] = useState<SaveSlot | null>(null);
+
+    const fetchSlots = useCallback(async () => {
+        try {
+            setSlots(await listSaveSlots());
+        } catch (error) {
+            console.error("Failed to fetch save slots:", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (isOpen) fetchSlots();
+    }, [isOpen, fetchSlots]);
+
+    const handleSave = async () => {
+        const slot = await onSave(newName.trim() || `Garden at tick ${currentTick}`);
+        if (slot) {
+            setNewName('');
+            fetchSlots();
+        }
+    };
+
+    const handleRename = async (slot: SaveSlot, name: string) => {
+        try {
+            await renameSaveSlot(slot.id, name);
+        } catch (err) {
+            reportError('Rename', err);
+        }
+        fetchSlots();
+    };
+
+    const handleDuplicate = async (slot: SaveSlot) => {
+        try {
+            await duplicateSaveSlot(slot.id);
+        } catch (err) {
+            reportError('Duplicate', err);
+        }
+        fetchSlots();
+    };
+
+    const handleDelete = async () => {
+        if (!slotToDelete) return;
+        try {
+            await deleteSaveSlot(slotToDelete.id);
+        } catch (err) {
+            reportError('Delete', err);
+        }
+        setSlotToDelete(null);
+        fetchSlots();
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Saved Gardens">
+            <div className="h-full overflow-y-auto p-4 space-y-4">
+                <div className="flex gap-2">
+                    <input
+                        value={newName}
+                        onChange={(e) => setNewName(e.target.value)}
+                        placeholder={`Garden at tick ${currentTick}`}
+                        className="grow px-3 py-2 bg-background/50 border border-border rounded-md text-primary-light"
+                        aria-label="New save name"
+                        disabled={!canSave || isSaving}
+                    />
+                    <button
+                        onClick={handleSave}
+                        disabled={!canSave || isSaving}
+                        className="flex items-center justify-center px-4 py-2 bg-accent-purple/50 hover:bg-accent-purple/70 text-white font-semibold rounded-md transition-colors duration-200 disabled:bg-surface-hover/50 disabled:cursor-not-allowed cursor-pointer"
+                        title={canSave ? 'Save the current garden to a new slot' : 'Pause the simulation to save'}
+                    >
+                        {isSaving ? <LoaderIcon className="w-5 h-5 mr-2 animate-spin" /> : <SaveIcon className="w-5 h-5 mr-2" />}
+                        Save New
+                    </button>
+                </div>
+
+                {isLoading ? (
+                    <div className="flex justify-center items-center h-48">
+                        <LoaderIcon className="w-8 h-8 animate-spin text-tertiary" />
+                    </div>
+                ) : slots.length === 0 ? (
+                    <div className="text-center text-secondary py-12">
+                        <p>No saved gardens yet.</p>
+                        <p className="text-sm">Save a garden to come back to it, or to branch it and compare outcomes.</p>
+                    </div>
+                ) : (
+                    <div className="space-y-2">
+                        {slots.map(slot => (
+                            <SaveSlotCard
+                                key={slot.id}
+                                slot={slot}
+                                onLoad={() => onLoad(slot)}
+                                onRename={(name) => handleRename(slot, name)}
+                                onDuplicate={() => handleDuplicate(slot)}
+                                onDelete={() => setSlotToDelete(slot)}
+                            />
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {slotToDelete && <ConfirmationModal
+                onConfirm={handleDelete}
+                onCancel={() => setSlotToDelete(null)}
+                title="Delete Save?"
+                message={`"${slotToDelete.name}" will be deleted. This cannot be undone.`}
+                confirmText="Delete"
+            />}
+        </Modal>
+    );
+};
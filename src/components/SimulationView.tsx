@@ -1,5 +1,5 @@
 import React, { useRef, useEffect, useCallback, useState } from 'react';
-import type { CellContent, SimulationParams, Coord } from '../types';
+import type { CellContent, SimulationParams, Coord, TerrainData, SoilMoistureFrame, WaterBodyKind, ObstacleFrame, ObstacleKind } from '../types';
 import { RenderingEngine } from '../lib/renderingEngine';
 import { eventService } from '../services/eventService';
 
@@ -10,13 +10,22 @@ interface SimulationViewProps {
     onCellClick: (actors: CellContent[]) => void;
     selectedActorId: string | null;
     actors: Map<string, CellContent>;
+    terrain: TerrainData | null;
+    soilMoisture: SoilMoistureFrame | null;
+    obstacles: ObstacleFrame | null;
+    timeOfDay: number;
+    showMoistureOverlay: boolean;
     onFrameRendered: (renderTimeMs: number) => void;
     plantingInfo: { genome: string; sex: 'male' | 'female' | 'both' } | null;
     onPlantOnCell: (coords: Coord) => void;
+    waterPlacement: WaterBodyKind | null;
+    onPlaceWater: (coords: Coord) => void;
+    obstaclePlacement: ObstacleKind | null;
+    onPlaceObstacle: (coords: Coord) => void;
     onCanvasesReady?: (bg: HTMLCanvasElement, fg: HTMLCanvasElement) => void;
 }
 
-export const SimulationView: React.FC<SimulationViewProps> = ({ params, onCellClick, selectedActorId, actors, onFrameRendered, plantingInfo, onPlantOnCell, onCanvasesReady }) => {
+export const SimulationView: React.FC<SimulationViewProps> = ({ params, onCellClick, selectedActorId, actors, terrain, soilMoisture, obstacles, timeOfDay, showMoistureOverlay, onFrameRendered, plantingInfo, onPlantOnCell, waterPlacement, onPlaceWater, obstaclePlacement, onPlaceObstacle, onCanvasesReady }) => {
     const bgCanvasRef = useRef<HTMLCanvasElement | null>(null);
     const fgCanvasRef = useRef<HTMLCanvasElement | null>(null);
     const engineRef = useRef<RenderingEngine | null>(null);
@@ -48,6 +57,31 @@ export const SimulationView: React.FC<SimulationViewProps> = ({ params, onCellCl
         }
     }, [params, isEngineReady]);
 
+    useEffect(() => {
+        if (isEngineReady && engineRef.current) {
+            engineRef.current.setTerrain(terrain);
+        }
+    }, [terrain, isEngineReady]);
+
+    useEffect(() => {
+        if (isEngineReady && engineRef.current) {
+            engineRef.current.setSoilMoisture(soilMoisture);
+            engineRef.current.setMoistureOverlay(showMoistureOverlay);
+        }
+    }, [soilMoisture, showMoistureOverlay, isEngineReady]);
+
+    useEffect(() => {
+        if (isEngineReady && engineRef.current) {
+            engineRef.current.setObstacles(obstacles);
+        }
+    }, [obstacles, isEngineReady]);
+
+    useEffect(() => {
+        if (isEngineReady && engineRef.current) {
+            engineRef.current.setTimeOfDay(timeOfDay);
+        }
+    }, [timeOfDay, isEngineReady]);
+
 
     // Main draw loop
     useEffect(() => {
@@ -57,7 +91,7 @@ export const SimulationView: React.FC<SimulationViewProps> = ({ params, onCellCl
             const renderEndTime = performance.now();
             onFrameRendered(renderEndTime - renderStartTime);
         }
-    }, [actors, selectedActorId, isEngineReady, onFrameRendered]);
+    }, [actors, soilMoisture, obstacles, timeOfDay, showMoistureOverlay, selectedActorId, isEngineReady, onFrameRendered]);
 
 
     const handleClick = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
@@ -71,6 +105,16 @@ export const SimulationView: React.FC<SimulationViewProps> = ({ params, onCellCl
         const gridX = Math.floor(x / CELL_SIZE_PX);
         const gridY = Math.floor(y / CELL_SIZE_PX);
 
+        if (waterPlacement) {
+            onPlaceWater({ x: gridX, y: gridY });
+            return;
+        }
+
+        if (obstaclePlacement) {
+            onPlaceObstacle({ x: gridX, y: gridY });
+            return;
+        }
+
         if (plantingInfo) {
             const actorsInCell = Array.from(actors.values()).filter(actor => actor.x === gridX && actor.y === gridY);
             if (actorsInCell.length === 0) {
@@ -89,7 +133,7 @@ export const SimulationView: React.FC<SimulationViewProps> = ({ params, onCellCl
         }
         
         onCellClick(actorsInCell);
-    }, [actors, onCellClick, plantingInfo, onPlantOnCell]);
+    }, [actors, onCellClick, plantingInfo, onPlantOnCell, waterPlacement, onPlaceWater, obstaclePlacement, onPlaceObstacle]);
 
     const canvasWidth = params.gridWidth * CELL_SIZE_PX;
     const canvasHeight = params.gridHeight * CELL_SIZE_PX;
@@ -108,7 +152,7 @@ export const SimulationView: React.FC<SimulationViewProps> = ({ params, onCellCl
                 <canvas
                     ref={fgCanvasRef}
                     onClick={handleClick}
-                    className={`absolute top-0 left-0 ${plantingInfo ? 'cursor-crosshair' : 'cursor-pointer'}`}
+                    className={`absolute top-0 left-0 ${plantingInfo || waterPlacement || obstaclePlacement ? 'cursor-crosshair' : 'cursor-pointer'}`}
                     role="grid"
                     aria-label="EvoGarden simulation grid"
                 />
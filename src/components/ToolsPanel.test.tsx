@@ -27,6 +27,9 @@ describe('ToolsPanel', () => {
   const mockIntroduceSpecies = vi.fn();
   const mockIntroduceStationary = vi.fn();
   const mockOnEnterPlantingMode = vi.fn();
+  const mockOnEnterWaterMode = vi.fn();
+  const mockOnEnterObstacleMode = vi.fn();
+  const mockOnToggleMoistureOverlay = vi.fn();
 
   const defaultProps = {
     isOpen: true,
@@ -36,6 +39,10 @@ describe('ToolsPanel', () => {
     introduceSpecies: mockIntroduceSpecies,
     introduceStationary: mockIntroduceStationary,
     onEnterPlantingMode: mockOnEnterPlantingMode,
+    onEnterWaterMode: mockOnEnterWaterMode,
+    onEnterObstacleMode: mockOnEnterObstacleMode,
+    showMoistureOverlay: false,
+    onToggleMoistureOverlay: mockOnToggleMoistureOverlay,
   };
 
   beforeEach(() => {
@@ -171,4 +178,34 @@ describe('ToolsPanel', () => {
       expect(screen.getByRole('button', { name: 'Heatwave' })).toBeEnabled();
     });
   });
+
+  describe('Water', () => {
+    it('enters water placement mode and closes the panel', async () => {
+      render(<ToolsPanel {...defaultProps} />);
+      await act(async () => {
+        fireEvent.click(screen.getByRole('button', { name: 'Start Stream' }));
+      });
+      expect(mockOnEnterWaterMode).toHaveBeenCalledWith('stream');
+      expect(mockOnClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('toggles the soil moisture overlay', async () => {
+      render(<ToolsPanel {...defaultProps} />);
+      await act(async () => {
+        fireEvent.click(screen.getByLabelText('Show Soil Moisture'));
+      });
+      expect(mockOnToggleMoistureOverlay).toHaveBeenCalledWith(true);
+    });
+  });
+
+  describe('Obstacles', () => {
+    it('enters obstacle placement mode and closes the panel', async () => {
+      render(<ToolsPanel {...defaultProps} />);
+      await act(async () => {
+        fireEvent.click(screen.getByRole('button', { name: 'Build Walls' }));
+      });
+      expect(mockOnEnterObstacleMode).toHaveBeenCalledWith('wall');
+      expect(mockOnClose).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -1,9 +1,10 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import type { SimulationParams, SeedBankEntry } from '../types';
-import { XIcon, SunIcon, SnowflakeIcon, CloudRainIcon, WindIcon, BugIcon } from './icons';
+import type { SimulationParams, SeedBankEntry, WaterBodyKind, ObstacleKind } from '../types';
+import { XIcon, SunIcon, SnowflakeIcon, CloudRainIcon, WindIcon, BugIcon, DropletIcon } from './icons';
 import { CollapsibleSection } from './CollapsibleSection';
 import { db } from '../services/db';
-import { ACTOR_NAMES } from '../utils';
+import { getEmojiName } from '../utils';
+import { speciesRegistry } from '../lib/speciesRegistry';
 
 interface ToolsPanelProps {
     isOpen: boolean;
@@ -13,11 +14,16 @@ interface ToolsPanelProps {
     introduceSpecies: (emoji: string, count: number) => void;
     introduceStationary: (actorType: 'hive' | 'antColony', count: number) => void;
     onEnterPlantingMode: (genome: string, sex: 'male' | 'female' | 'both') => void;
+    onEnterWaterMode: (kind: WaterBodyKind) => void;
+    onEnterObstacleMode: (kind: ObstacleKind) => void;
+    showMoistureOverlay: boolean;
+    onToggleMoistureOverlay: (show: boolean) => void;
 }
 
-const SPAWNABLE_ACTORS = ['🦋', '🐛', '🐌', '🐞', '🪲', '🦂', '🕷️', '🪳', '🐦', '🛖', '⛰️'];
+// Spawnable actors besides the insect species registered as spawnable
+const SPAWNABLE_NON_INSECTS = ['🐦', '🛖', '⛰️'];
 
-export const ToolsPanel: React.FC<ToolsPanelProps> = ({ isOpen, onClose, triggerWeatherEvent, introduceSpecies, introduceStationary, onEnterPlantingMode }) => {
+export const ToolsPanel: React.FC<ToolsPanelProps> = ({ isOpen, onClose, triggerWeatherEvent, introduceSpecies, introduceStationary, onEnterPlantingMode, onEnterWaterMode, onEnterObstacleMode, showMoistureOverlay, onToggleMoistureOverlay }) => {
     const [champions, setChampions] = useState<SeedBankEntry[]>([]);
     const [isLoadingChampions, setIsLoadingChampions] = useState(true);
     const [weatherCooldown, setWeatherCooldown] = useState(false);
@@ -27,8 +33,9 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({ isOpen, onClose, trigger
     const allSpawnable = useMemo(() => {
         // The tools panel should allow spawning any actor for sandbox-style intervention,
         // ignoring the `allowedActors` parameter which governs automatic spawning.
-        return SPAWNABLE_ACTORS;
-    }, []);
+        const spawnableSpecies = speciesRegistry.getAll().filter(s => s.spawnable).map(s => s.emoji);
+        return [...spawnableSpecies, ...SPAWNABLE_NON_INSECTS];
+    }, [isOpen]);
 
     useEffect(() => {
         if (isOpen) {
@@ -72,6 +79,16 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({ isOpen, onClose, trigger
         onClose();
     };
 
+    const handlePlaceWater = (kind: WaterBodyKind) => {
+        onEnterWaterMode(kind);
+        onClose();
+    };
+
+    const handlePlaceObstacle = (kind: ObstacleKind) => {
+        onEnterObstacleMode(kind);
+        onClose();
+    };
+
     return (
         <>
             <div 
@@ -113,7 +130,7 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({ isOpen, onClose, trigger
                                         <label className="block">
                                             <span className="text-secondary text-sm">Actor</span>
                                             <select value={selectedActor} onChange={e => setSelectedActor(e.target.value)} className="w-full mt-1 p-2 bg-surface-hover border border-surface rounded-md text-white">
-                                                {allSpawnable.map(emoji => <option key={emoji} value={emoji}>{emoji} {ACTOR_NAMES[emoji]}</option>)}
+                                                {allSpawnable.map(emoji => <option key={emoji} value={emoji}>{emoji} {getEmojiName(emoji)}</option>)}
                                             </select>
                                         </label>
                                         <label className="block">
@@ -138,6 +155,30 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({ isOpen, onClose, trigger
                                     <button disabled={weatherCooldown} onClick={() => handleTriggerWeather('drought')} className="flex items-center justify-center gap-2 p-2 bg-surface-hover rounded-md hover:bg-border/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"><WindIcon className="w-5 h-5 text-yellow-500" /> Drought</button>
                                 </div>
                             </CollapsibleSection>
+
+                            <CollapsibleSection title="Water">
+                                <div className="grid grid-cols-2 gap-2">
+                                    <button onClick={() => handlePlaceWater('pond')} className="flex items-center justify-center gap-2 p-2 bg-surface-hover rounded-md hover:bg-border/20 transition-colors"><DropletIcon className="w-5 h-5 text-blue-300" /> Dig Pond</button>
+                                    <button onClick={() => handlePlaceWater('stream')} className="flex items-center justify-center gap-2 p-2 bg-surface-hover rounded-md hover:bg-border/20 transition-colors"><DropletIcon className="w-5 h-5 text-accent-blue" /> Start Stream</button>
+                                </div>
+                                <label className="flex items-center space-x-2 cursor-pointer mt-3 p-2 bg-surface-hover/50 rounded-md hover:bg-surface-hover text-sm text-secondary">
+                                    <input
+                                        type="checkbox"
+                                        checked={showMoistureOverlay}
+                                        onChange={(e) => onToggleMoistureOverlay(e.target.checked)}
+                                        className="h-4 w-4 rounded bg-surface border-border text-accent-green focus:ring-accent-green"
+                                    />
+                                    <span>Show Soil Moisture</span>
+                                </label>
+                            </CollapsibleSection>
+
+                            <CollapsibleSection title="Obstacles">
+                                <div className="grid grid-cols-2 gap-2">
+                                    <button onClick={() => handlePlaceObstacle('rock')} className="flex items-center justify-center gap-2 p-2 bg-surface-hover rounded-md hover:bg-border/20 transition-colors"><span aria-hidden="true">🪨</span> Place Rocks</button>
+                                    <button onClick={() => handlePlaceObstacle('wall')} className="flex items-center justify-center gap-2 p-2 bg-surface-hover rounded-md hover:bg-border/20 transition-colors"><span aria-hidden="true">🧱</span> Build Walls</button>
+                                </div>
+                                <p className="text-xs text-secondary mt-2">Walking creatures find their way around obstacles. Click an obstacle again to clear it.</p>
+                            </CollapsibleSection>
                         </div>
                     </div>
                 </div>
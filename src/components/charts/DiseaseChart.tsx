@@ -0,0 +1,31 @@
+import React, { useMemo, useState } from 'react';
+import type { EChartsOption } from 'echarts';
+import type { AnalyticsDataPoint } from '../../types';
+import { Chart } from '../Chart';
+import { baseChartOptions, createLegendSelectHandler } from './chartOptions';
+
+interface DiseaseChartProps {
+    history: AnalyticsDataPoint[];
+}
+
+export const DiseaseChart: React.FC<DiseaseChartProps> = ({ history }) => {
+    const [legend, setLegend] = useState<Record<string, boolean>>({ 'Susceptible': true, 'Infected': true, 'Recovered': true });
+    const handleLegendChange = createLegendSelectHandler(setLegend);
+
+    const option = useMemo<EChartsOption>(() => {
+        const ticks = history.map(h => h.tick);
+        return {
+            ...baseChartOptions,
+            title: { text: 'Insect Disease (SIR)', left: 'center', textStyle: { color: '#bbf7d0', fontWeight: 'bold' }, top: 0 },
+            legend: { data: ['Susceptible', 'Infected', 'Recovered'], top: 35, textStyle: { color: '#bbf7d0' }, selected: legend },
+            xAxis: { ...baseChartOptions.xAxis, data: ticks },
+            series: [
+                { name: 'Susceptible', type: 'line', data: history.map(h => h.susceptibleInsects ?? h.insects), color: '#4299e1' },
+                { name: 'Infected', type: 'line', data: history.map(h => h.infectedInsects || 0), color: '#e53e3e' },
+                { name: 'Recovered', type: 'line', data: history.map(h => h.recoveredInsects || 0), color: '#48bb78' },
+            ],
+        };
+    }, [history, legend]);
+
+    return <Chart option={option} onEvents={{ 'legendselectchanged': handleLegendChange }} />;
+};
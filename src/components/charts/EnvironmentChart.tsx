@@ -3,13 +3,14 @@ import type { EChartsOption } from 'echarts';
 import type { AnalyticsDataPoint } from '../../types';
 import { Chart } from '../Chart';
 import { baseChartOptions, createLegendSelectHandler } from './chartOptions';
+import { isNightTime } from '../../lib/environmentManager';
 
 interface EnvironmentChartProps {
     history: AnalyticsDataPoint[];
 }
 
 export const EnvironmentChart: React.FC<EnvironmentChartProps> = ({ history }) => {
-    const [environmentLegend, setEnvironmentLegend] = useState<Record<string, boolean>>({ 'Temperature (°C)': true, 'Humidity (%)': true });
+    const [environmentLegend, setEnvironmentLegend] = useState<Record<string, boolean>>({ 'Temperature (°C)': true, 'Humidity (%)': true, 'Wind (cells)': true, 'Night': true });
     const handleEnvironmentLegendChange = createLegendSelectHandler(setEnvironmentLegend);
 
     const environmentOption = useMemo<EChartsOption>(() => {
@@ -17,7 +18,7 @@ export const EnvironmentChart: React.FC<EnvironmentChartProps> = ({ history }) =
         return {
             ...baseChartOptions,
             title: { text: 'Environment', left: 'center', textStyle: { color: '#bbf7d0', fontWeight: 'bold' }, top: 0 },
-            legend: { data: ['Temperature (°C)', 'Humidity (%)'], top: 35, textStyle: { color: '#bbf7d0' }, selected: environmentLegend },
+            legend: { data: ['Temperature (°C)', 'Humidity (%)', 'Wind (cells)', 'Night'], top: 35, textStyle: { color: '#bbf7d0' }, selected: environmentLegend },
             xAxis: { ...baseChartOptions.xAxis, data: ticks },
             yAxis: [
                 {
@@ -28,11 +29,19 @@ export const EnvironmentChart: React.FC<EnvironmentChartProps> = ({ history }) =
                     ...(baseChartOptions.yAxis as object),
                     type: 'value', name: '%', position: 'right', min: 0, max: 100,
                     splitLine: { show: false },
+                },
+                // Wind strength has an axis of its own, kept out of sight to spare the chart a third scale.
+                {
+                    ...(baseChartOptions.yAxis as object),
+                    type: 'value', show: false, min: 0,
                 }
             ],
             series: [
                 { name: 'Temperature (°C)', type: 'line', yAxisIndex: 0, data: history.map(h => h.currentTemperature?.toFixed(1)), color: '#f56565' },
                 { name: 'Humidity (%)', type: 'line', yAxisIndex: 1, data: history.map(h => ((h.currentHumidity ?? 0) * 100).toFixed(0)), color: '#4299e1' },
+                { name: 'Wind (cells)', type: 'line', yAxisIndex: 2, data: history.map(h => h.windStrength?.toFixed(1)), color: '#a0aec0' },
+                // Nights show as shaded bands across the full height of the chart.
+                { name: 'Night', type: 'line', step: 'end', yAxisIndex: 1, showSymbol: false, lineStyle: { width: 0 }, areaStyle: { opacity: 0.25 }, data: history.map(h => h.timeOfDay !== undefined && isNightTime(h.timeOfDay) ? 100 : 0), color: '#6b7280' },
             ],
         };
     }, [history, environmentLegend]);
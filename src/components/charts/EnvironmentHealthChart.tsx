@@ -13,6 +13,7 @@ export const EnvironmentHealthChart: React.FC<EnvironmentHealthChartProps> = ({
         'Total Flowers': true,
         'Healing Flowers': true,
         'Toxic Flowers': true,
+        'Blighted Flowers': true,
         'Herbicide Planes': true,
         'Herbicide Smokes': true,
         'Corpses': true,
@@ -25,7 +26,7 @@ export const EnvironmentHealthChart: React.FC<EnvironmentHealthChartProps> = ({
             ...baseChartOptions,
             title: { text: 'Environment Health & Resources', left: 'center', textStyle: { color: '#bbf7d0', fontWeight: 'bold' }, top: 0 },
             legend: {
-                data: ['Total Flowers', 'Healing Flowers', 'Toxic Flowers', 'Herbicide Planes', 'Herbicide Smokes', 'Corpses'],
+                data: ['Total Flowers', 'Healing Flowers', 'Toxic Flowers', 'Blighted Flowers', 'Herbicide Planes', 'Herbicide Smokes', 'Corpses'],
                 top: 35,
                 textStyle: { color: '#bbf7d0' },
                 selected: legend
@@ -35,6 +36,7 @@ export const EnvironmentHealthChart: React.FC<EnvironmentHealthChartProps> = ({
                 { name: 'Total Flowers', type: 'line', data: history.map(h => h.flowers), color: '#48bb78' },
                 { name: 'Healing Flowers', type: 'line', data: history.map(h => h.healingFlowerCount || 0), color: '#38a169', lineStyle: { type: 'dashed' } },
                 { name: 'Toxic Flowers', type: 'line', data: history.map(h => h.toxicFlowerCount || 0), color: '#c05621', lineStyle: { type: 'dashed' } },
+                { name: 'Blighted Flowers', type: 'line', data: history.map(h => h.blightedFlowerCount || 0), color: '#975a16', lineStyle: { type: 'dotted' } },
                 { name: 'Herbicide Planes', type: 'line', data: history.map(h => h.herbicidePlanes || 0), color: '#cbd5e0' },
                 { name: 'Herbicide Smokes', type: 'line', data: history.map(h => h.herbicideSmokes || 0), color: '#718096' },
                 { name: 'Corpses', type: 'line', data: history.map(h => h.corpses || 0), color: '#a0aec0' },
@@ -8,8 +8,14 @@ interface FlowerTraitsChartProps {
     history: AnalyticsDataPoint[];
 }
 
+// The share of flowers of one sex, from 0 to 1.
+const sexShare = (point: AnalyticsDataPoint, count: number | undefined): string => {
+    const total = (point.maleFlowerCount || 0) + (point.femaleFlowerCount || 0) + (point.hermaphroditeFlowerCount || 0);
+    return total > 0 ? ((count || 0) / total).toFixed(2) : '0';
+};
+
 export const FlowerTraitsChart: React.FC<FlowerTraitsChartProps> = ({ history }) => {
-    const [traitsLegend, setTraitsLegend] = useState<Record<string, boolean>>({ 'Avg Health': true, 'Max Health': true, 'Avg Stamina': true, 'Max Stamina': true, 'Avg Maturation': true, 'Avg Nutrient Efficiency': true, 'Max Toxicity': true, 'Max Healing': true });
+    const [traitsLegend, setTraitsLegend] = useState<Record<string, boolean>>({ 'Avg Health': true, 'Max Health': true, 'Avg Stamina': true, 'Max Stamina': true, 'Avg Maturation': true, 'Avg Nutrient Efficiency': true, 'Max Toxicity': true, 'Max Healing': true, 'Male Share': true, 'Female Share': true, 'Hermaphrodite Share': true });
     const handleTraitsLegendChange = createLegendSelectHandler(setTraitsLegend);
 
     const flowerTraitsOption = useMemo<EChartsOption>(() => {
@@ -18,7 +24,7 @@ export const FlowerTraitsChart: React.FC<FlowerTraitsChartProps> = ({ history })
             ...baseChartOptions,
             title: { text: 'Flower Genetic Traits', left: 'center', textStyle: { color: '#bbf7d0', fontWeight: 'bold' }, top: 0 },
             legend: {
-                data: ['Avg Health', 'Max Health', 'Avg Stamina', 'Max Stamina', 'Avg Maturation', 'Avg Nutrient Efficiency', 'Max Toxicity', 'Max Healing'],
+                data: ['Avg Health', 'Max Health', 'Avg Stamina', 'Max Stamina', 'Avg Maturation', 'Avg Nutrient Efficiency', 'Max Toxicity', 'Max Healing', 'Male Share', 'Female Share', 'Hermaphrodite Share'],
                 top: 35,
                 textStyle: { color: '#bbf7d0' },
                 selected: traitsLegend,
@@ -31,7 +37,7 @@ export const FlowerTraitsChart: React.FC<FlowerTraitsChartProps> = ({ history })
                 },
                 {
                     ...(baseChartOptions.yAxis as object),
-                    type: 'value', name: 'Efficiency / Toxicity', position: 'right', min: 0,
+                    type: 'value', name: 'Efficiency / Toxicity / Share', position: 'right', min: 0,
                     axisLabel: { formatter: (value: number) => value.toFixed(2), color: '#bbf7d0' },
                     splitLine: { show: false }, // No grid lines for the right-side Y axis
                 }
@@ -45,6 +51,9 @@ export const FlowerTraitsChart: React.FC<FlowerTraitsChartProps> = ({ history })
                 { name: 'Avg Nutrient Efficiency', type: 'line', yAxisIndex: 1, data: history.map(h => h.avgNutrientEfficiency.toFixed(2)), color: '#38a169' },
                 { name: 'Max Toxicity', type: 'line', yAxisIndex: 1, data: history.map(h => h.maxToxicity.toFixed(2)), color: '#c05621' },
                 { name: 'Max Healing', type: 'line', yAxisIndex: 1, data: history.map(h => h.maxHealingRate.toFixed(2)), color: '#48bb78' },
+                { name: 'Male Share', type: 'line', yAxisIndex: 1, data: history.map(h => sexShare(h, h.maleFlowerCount)), color: '#90cdf4', lineStyle: { type: 'dashed' } },
+                { name: 'Female Share', type: 'line', yAxisIndex: 1, data: history.map(h => sexShare(h, h.femaleFlowerCount)), color: '#f687b3', lineStyle: { type: 'dashed' } },
+                { name: 'Hermaphrodite Share', type: 'line', yAxisIndex: 1, data: history.map(h => sexShare(h, h.hermaphroditeFlowerCount)), color: '#d6bcfa', lineStyle: { type: 'dashed' } },
             ],
         };
     }, [history, traitsLegend]);
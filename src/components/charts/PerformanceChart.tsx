@@ -9,7 +9,7 @@ interface PerformanceChartProps {
 }
 
 export const PerformanceChart: React.FC<PerformanceChartProps> = ({ history }) => {
-    const [performanceLegend, setPerformanceLegend] = useState<Record<string, boolean>>({ 'Tick Time (Worker)': true, 'Render Time (UI)': true, 'Pending Requests': true });
+    const [performanceLegend, setPerformanceLegend] = useState<Record<string, boolean>>({ 'Tick Time (Worker)': true, 'Render Time (UI)': true, 'Pending Requests': true, 'Genome Cache Hits': true });
     const handlePerformanceLegendChange = createLegendSelectHandler(setPerformanceLegend);
 
     const performanceOption = useMemo<EChartsOption>(() => {
@@ -17,7 +17,9 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = ({ history }) =
         return {
             ...baseChartOptions,
             title: { text: 'Performance & Workload', left: 'center', textStyle: { color: '#bbf7d0', fontWeight: 'bold' }, top: 0 },
-            legend: { data: ['Tick Time (Worker)', 'Render Time (UI)', 'Pending Requests'], top: 35, textStyle: { color: '#bbf7d0' }, selected: performanceLegend },
+            legend: { data: ['Tick Time (Worker)', 'Render Time (UI)', 'Pending Requests', 'Genome Cache Hits'], top: 35, textStyle: { color: '#bbf7d0' }, selected: performanceLegend },
+            // Leave room for the second axis on the right.
+            grid: { ...(baseChartOptions.grid as object), right: 70 },
             xAxis: { ...baseChartOptions.xAxis, data: ticks },
             yAxis: [
                 {
@@ -33,11 +35,22 @@ export const PerformanceChart: React.FC<PerformanceChartProps> = ({ history }) =
                     position: 'right',
                     splitLine: { show: false },
                 },
+                {
+                    ...(baseChartOptions.yAxis as object),
+                    type: 'value',
+                    name: 'Hit Rate %',
+                    position: 'right',
+                    offset: 55,
+                    min: 0,
+                    max: 100,
+                    splitLine: { show: false },
+                },
             ],
             series: [
                 { name: 'Tick Time (Worker)', type: 'line', yAxisIndex: 0, data: history.map(h => h.tickTimeMs.toFixed(2)), color: '#38b2ac' },
                 { name: 'Render Time (UI)', type: 'line', yAxisIndex: 0, data: history.map(h => h.renderTimeMs.toFixed(2)), color: '#ed8936' },
                 { name: 'Pending Requests', type: 'line', yAxisIndex: 1, data: history.map(h => h.pendingFlowerRequests), color: '#ed64a6' },
+                { name: 'Genome Cache Hits', type: 'line', yAxisIndex: 2, data: history.map(h => ((h.flowerCacheHitRate ?? 0) * 100).toFixed(1)), color: '#9f7aea' },
             ],
         };
     }, [history, performanceLegend]);
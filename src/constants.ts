@@ -1,6 +1,11 @@
-import type { SimulationParams, InsectStats } from './types';
+import type { ClimateScenario, ObstacleKind, SimulationParams, TerrainType, WeatherEventType, WindDirection } from './types';
 
 export const BASE_TICK_RATE_MS = 250;
+export const TICK_HISTORY_LENGTH = 200; // Number of past ticks kept for rewinding
+export const REPLAY_FORMAT_VERSION = 1;
+export const GARDEN_FILE_FORMAT_VERSION = 1;
+export const SAVE_FORMAT_VERSION = 2; // Bumped, with a migration in saveMigrations.ts, whenever what the engine saves changes
+export const SAVE_THUMBNAIL_WIDTH = 240; // Pixels; save slot thumbnails keep the garden's aspect ratio
 
 export const DEFAULT_SIM_PARAMS: SimulationParams = {
     gridWidth: 15,
@@ -20,10 +25,19 @@ export const DEFAULT_SIM_PARAMS: SimulationParams = {
     herbicideSmokeExpansionCount: 2,
     notificationMode: 'both',
     simulationSpeed: 1,
+    seed: null, // Random each run
     // Seasonal Cycle Parameters
     seasonLengthInTicks: 150,
     temperatureAmplitude: 15, // Varies by ±15°C from base
     humidityAmplitude: 0.25, // Varies by ±25% from base
+    // Climate Scenario Parameters
+    climateScenario: null,
+    climateLoop: true,
+    climateTemperatureScale: 1,
+    climateHumidityScale: 1,
+    // Day/Night Cycle Parameters
+    dayLengthInTicks: 30,
+    nightTempDecrease: 8, // 8°C colder at midnight
     // Weather Event Parameters
     weatherEventChance: 0.008, // 0.8% chance per tick
     heatwaveTempIncrease: 10,
@@ -32,6 +46,14 @@ export const DEFAULT_SIM_PARAMS: SimulationParams = {
     droughtHumidityDecrease: 0.2,
     weatherEventMinDuration: 20, // Ticks
     weatherEventMaxDuration: 50, // Ticks
+    // Disease Parameters
+    diseaseOutbreakChance: 0.002,
+    diseaseDuration: 40, // Ticks
+    diseaseHealthDamage: 1,
+    // Blight Parameters
+    blightOutbreakChance: 0.001,
+    blightSpreadChance: 0.05,
+    blightHealthDamage: 0.5,
     // Insect Evolution
     reproductionCooldown: 1,
     mutationChance: 0.05,
@@ -67,6 +89,25 @@ export const DEFAULT_SIM_PARAMS: SimulationParams = {
     allowedActors: ['🦋', '🐛', '🐌', '🐞', '🪲', '🦂', '🐝', '🐜', '🕷️', '🪳', '🐦', '🦅'],
 };
 
+// --- CLIMATE CONSTANTS ---
+// Scenarios offered alongside the ones users import. They keep the seasonal sine wave and add a trend to it.
+export const BUILTIN_CLIMATE_SCENARIOS: ClimateScenario[] = [
+    { id: 'gradual-warming', name: 'Gradual Warming (+0.01°C/tick)', warmingPerTick: 0.01 },
+    { id: 'increasing-droughts', name: 'Increasingly Frequent Droughts', droughtChancePerTick: 0.000002 }, // Another 1% chance per tick every 5,000 ticks
+];
+export const CLIMATE_SERIES_MAX_READINGS = 100000;
+
+// --- WIND CONSTANTS ---
+export const WIND_DIRECTIONS: WindDirection[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW']; // Clockwise, 45° apart
+export const WIND_SHIFT_CHANCE = 0.05; // Chance per tick that the wind veers 45°
+export const WIND_MAX_VEER = 2; // Steps of 45° the wind can stray from the prevailing direction
+export const WIND_SEASONAL_AMPLITUDE = 0.5; // Winter winds are up to 50% stronger, summer winds 50% weaker
+export const WIND_GUST_CHANCE = 0.1;
+export const WIND_GUST_FACTOR = 2;
+export const WIND_WEATHER_FACTORS: Record<WeatherEventType, number> = { none: 1, heatwave: 0.7, coldsnap: 1.3, heavyrain: 1.5, drought: 0.8 };
+export const WIND_DRIFT_CHANCE_PER_STRENGTH = 0.05; // Chance per tick, per cell of strength, that a flyer is blown a cell downwind
+export const WIND_CALM_STRENGTH = 1; // Below this, smoke spreads evenly instead of downwind
+
 // --- FLOWER CONSTANTS ---
 export const FLOWER_SPAWN_SEARCH_RADIUS = 3;
 export const FLOWER_TICK_COST_MULTIPLIER = 0.08;
@@ -77,6 +118,37 @@ export const SEED_HEALTH = 10;
 export const WIND_POLLINATION_CHANCE = 0.005;
 export const PROXIMITY_POLLINATION_CHANCE = 0.002;
 export const FLOWER_EXPANSION_CHANCE = 0.001;
+export const FLOWER_SELFING_CHANCE = 0.2; // How likely a hermaphrodite's own pollen is to set seed on it, relative to pollen from another flower
+export const FLOWER_ARRIVAL_DELAY_TICKS = 3; // Seeded runs only: ticks between a seed being planted and its flower arriving
+export const FLOWER_QUEUE_MAX_DEPTH = 256; // Outstanding flower requests beyond which new ones are turned away
+export const FLOWER_WORKER_POOL_MAX = 4; // Upper bound on genetics workers, whatever the core count
+export const GENOME_CACHE_MAX_ENTRIES = 256; // Genomes each genetics worker keeps stats and images for in memory
+export const GENOME_CACHE_MAX_STORED = 2000; // Genomes kept in the persistent genome cache
+export const FLOWER_PLASTICITY_INTERVAL_TICKS = 20; // Ticks between living flowers' stats being worked out again for the weather
+export const FLOWER_PLASTICITY_TEMPERATURE_STEP = 1; // The weather is rounded to these steps first, so genomes' stats are cached
+export const FLOWER_PLASTICITY_HUMIDITY_STEP = 0.05;
+
+// --- TERRAIN CONSTANTS ---
+export const TERRAIN_MAX_ALTITUDE = 1000; // metres
+export const TERRAIN_FEATURE_SIZE = 8; // Cells between the control points of the terrain noise
+export const TERRAIN_ROCK_ALTITUDE = 0.8; // Share of the maximum altitude above which the ground is bare rock
+export const TERRAIN_TYPES: TerrainType[] = ['loam', 'sand', 'clay', 'rock']; // In the order the genetics module numbers them
+export const TERRAIN_SPEED_FACTORS: Record<TerrainType, number> = { loam: 1, sand: 0.75, clay: 0.85, rock: 0.6 }; // Share of its speed an insect keeps on each terrain
+
+// --- SOIL MOISTURE CONSTANTS ---
+export const SOIL_MOISTURE_DIFFUSION = 0.2; // Share of the gap to its neighbours' mean moisture a cell closes each tick
+export const SOIL_MOISTURE_RELAXATION = 0.01; // Share of the gap to the air's humidity a cell closes each tick
+export const SOIL_MOISTURE_RAIN_GAIN = 0.02; // Moisture every cell gains per tick of heavy rain
+export const SOIL_MOISTURE_DROUGHT_LOSS = 0.02; // Moisture every cell loses per tick of drought
+export const SOIL_MOISTURE_DRY = 0.25; // Below this, flowers spend more stamina, up to double on bone-dry soil
+export const SOIL_MOISTURE_WATERLOGGED = 0.9; // Above this, flowers spend more stamina, up to half as much again in water
+export const POND_RADIUS = 1; // Cells a pond reaches out from where it is placed
+export const STREAM_MAX_LENGTH = 24; // Cells a stream runs downhill before it sinks into the ground
+
+// --- OBSTACLE & PATHFINDING CONSTANTS ---
+export const OBSTACLE_KINDS: ObstacleKind[] = ['rock', 'wall'];
+export const PHEROMONE_PATH_COST_FACTOR = 0.4; // Share of a cell's cost an ant pays to walk its own colony's trail
+export const PATH_FIELD_CACHE_SIZE = 128; // Flow fields kept for reuse before the least recently used is dropped
 
 // --- NUTRIENT CONSTANTS ---
 export const NUTRIENT_LIFESPAN = 2; // ticks
@@ -107,6 +179,17 @@ export const INSECT_REPRODUCTION_COOLDOWN = 1; // ticks
 export const MUTATION_CHANCE = 0.05; // 5% chance per gene
 export const MUTATION_AMOUNT = 0.2;  // Mutate by +/- 20%
 export const INSECT_WANDER_CHANCE = 0.1;
+export const NOCTURNAL_SPEED_BONUS = 1.5; // Speed multiplier for nocturnal species at night
+
+// --- DISEASE CONSTANTS ---
+export const DISEASE_DEFAULT_TRANSMISSION_RATE = 0.15; // Chance per tick of catching it from each infected insect on the cell
+export const DISEASE_NEST_EXPOSURE_FACTOR = 2; // Catching it is this much likelier on the crowded cell of a hive or colony
+export const DISEASE_LETHARGY_CHANCE = 0.5; // Chance per tick that an infected insect rests instead of acting
+
+// --- BLIGHT CONSTANTS ---
+export const BLIGHT_REFERENCE_HUMIDITY = 0.5; // The blight spreads at its set chance at this humidity, faster when wetter
+export const BLIGHT_RESISTANCE_HALF_EFFECT = 20; // Vitality plus strength that halves a flower's chance of catching the blight
+export const BLIGHT_RECOVERY_CHANCE = 0.02; // Chance per tick that a fully resistant flower throws off the blight
 
 // --- CATERPILLAR & COCOON CONSTANTS ---
 export const CATERPILLAR_EAT_AMOUNT_FOR_COCOON = 50;
@@ -120,6 +203,7 @@ export const WEAK_FLOWER_THRESHOLD = 0.5;
 export const BEETLE_HEAL_AMOUNT = 20;
 export const BEETLE_COLLECT_STAMINA_COST = 5;
 export const BEETLE_DEPOSIT_STAMINA_COST = 5;
+export const BEETLE_CLEAR_BLIGHT_STAMINA_COST = 5;
 
 // --- COCKROACH CONSTANTS ---
 export const COCKROACH_VISION_RANGE = 4;
@@ -149,30 +233,6 @@ export const FLOWER_STAT_INDICES = {
 };
 export const INSECT_GENOME_LENGTH = Object.keys(FLOWER_STAT_INDICES).length;
 
-// Defines the base stats for each insect type
-export const INSECT_DATA: ReadonlyMap<string, InsectStats> = new Map([
-    // Butterfly is a pure pollinator with no attack
-    ['🦋', { role: 'pollinator', attack: 0, maxHealth: 100, maxStamina: 40, speed: 2, eggHatchTime: 8, reproductionCost: 5 }],
-    // Caterpillar is a voracious attacker
-    ['🐛', { role: 'attacker', attack: 8, maxHealth: 150, maxStamina: 30, speed: 1, eggHatchTime: 20, reproductionCost: 0 }], // Caterpillars don't reproduce
-    // Tank is slow and sturdy, low damage
-    ['🐌', { role: 'tank', attack: 3, maxHealth: 250, maxStamina: 20, speed: 1, eggHatchTime: 25, reproductionCost: 3 }],
-    // Ladybugs are pest hunters
-    ['🐞', { role: 'hunter', attack: 5, maxHealth: 120, maxStamina: 40, speed: 2, eggHatchTime: 18, reproductionCost: 5 }],
-    // Bees are fast pollinators with slightly more damage than butterflies
-    ['🐝', { role: 'pollinator', attack: 5, maxHealth: 60, maxStamina: 70, speed: 2, eggHatchTime: 12, reproductionCost: 0 }],
-    // Cockroaches are scavengers that can also attack weak flowers
-    ['🪳', { role: 'scavenger', attack: 2, maxHealth: 50, maxStamina: 50, speed: 1, eggHatchTime: 30, reproductionCost: 2 }],
-    // Beetles are support tanks
-    ['🪲', { role: 'support', attack: 1, maxHealth: 200, maxStamina: 50, speed: 1, eggHatchTime: 30, reproductionCost: 10 }],
-    // Scorpions are ground predators
-    ['🦂', { role: 'hunter', attack: 12, maxHealth: 220, maxStamina: 60, speed: 1, eggHatchTime: 35, reproductionCost: 15 }],
-    // Ants are colony builders and scavengers
-    ['🐜', { role: 'colony-builder', attack: 4, maxHealth: 80, maxStamina: 60, speed: 2, eggHatchTime: 10, reproductionCost: 5 }],
-    // Spiders are trappers/hunters
-    ['🕷️', { role: 'hunter', attack: 15, maxHealth: 180, maxStamina: 80, speed: 1, eggHatchTime: 20, reproductionCost: 20 }],
-]);
-
 // --- FOOD VALUES for Ants ---
 export const FOOD_VALUE_CORPSE = 50;
 export const FOOD_VALUE_EGG = 20;
@@ -194,5 +254,8 @@ export const COCKROACH_SPAWN_COOLDOWN = 15;
 // --- SCORPION CONSTANTS ---
 export const SCORPION_HEAL_FROM_PREY = 30;
 
+// --- USER-DEFINED SPECIES CONSTANTS ---
+export const HUNTER_HEAL_FROM_PREY = 25; // Health/stamina a user-defined hunter regains from a kill
+
 // --- SPIDER CONSTANTS ---
 export const SPIDER_HEAL_FROM_PREY = 40;
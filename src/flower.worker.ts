@@ -1,17 +1,24 @@
 /// <reference lib="webworker" />
 
 import { flowerService } from './services/flowerService';
-import { createNewFlower } from './lib/simulationInitializer';
-import type { SimulationParams, FlowerCreationRequest } from './types';
+import { createNewFlower, reevaluateFlowerStats } from './lib/simulationInitializer';
+import { FlowerGenomeCache } from './lib/flowerGenomeCache';
+import { db, pruneGenomeCache } from './services/db';
+import { GENOME_CACHE_MAX_ENTRIES, GENOME_CACHE_MAX_STORED } from './constants';
+import type { SimulationParams, FlowerCreationRequest, FlowerReevaluationRequest } from './types';
 
 let simWorkerPort: MessagePort | null = null;
 let currentParams: SimulationParams | null = null;
 
 const INIT_TIMEOUT_MS = 15000;
 
+// Stats and images of genomes this worker has seen, backed by the IndexedDB table all flower workers share.
+const genomeCache = new FlowerGenomeCache(GENOME_CACHE_MAX_ENTRIES, db.genomeCache);
+
 // --- Queue System for Flower Creation ---
 let requestQueue: FlowerCreationRequest[] = [];
 let cancellationQueue: string[] = []; // New queue for cancellation IDs
+let reevaluationQueue: FlowerReevaluationRequest[] = []; // Batches of stats to work out, taken between breeds
 let isProcessing = false;
 
 // Initialize the WASM service for this worker thread.
@@ -28,9 +35,25 @@ const initializeWasm = async (): Promise<boolean> => {
     }
 };
 
+/**
+ * Works out the stats of a batch of flowers. A batch that fails is answered with no updates,
+ * so the simulation is not left waiting on it.
+ */
+const reevaluateBatch = async (request: FlowerReevaluationRequest) => {
+    const updates = await reevaluateFlowerStats(flowerService, request, genomeCache).catch(error => {
+        console.error("Flower Worker: failed to reevaluate flowers.", error);
+        return [];
+    });
+    simWorkerPort?.postMessage({
+        type: 'flowers-reevaluated',
+        payload: { batchId: request.batchId, updates, cacheStats: genomeCache.takeStats() }
+    });
+};
+
 /**
  * Processes the flower request queue sequentially. It first clears any
- * cancelled requests before starting a new genetics task.
+ * cancelled requests before starting a new genetics task. Reevaluation
+ * batches go before the next breed, so the WASM only runs one task at a time.
  */
 const processQueue = async () => {
     if (isProcessing) {
@@ -44,6 +67,15 @@ const processQueue = async () => {
         cancellationQueue = [];
     }
 
+    const reevaluation = reevaluationQueue.shift();
+    if (reevaluation) {
+        isProcessing = true;
+        await reevaluateBatch(reevaluation);
+        isProcessing = false;
+        setTimeout(processQueue, 0);
+        return;
+    }
+
     if (requestQueue.length === 0) {
         isProcessing = false;
         return;
@@ -59,7 +91,9 @@ const processQueue = async () => {
         return;
     }
     
-    const newFlower = await createNewFlower(flowerService, currentParams!, request.x, request.y, request.parentGenome1, request.parentGenome2, request.flowerId);
+    const newFlower = await createNewFlower(flowerService, currentParams!, request.x, request.y, request.parentGenome1, request.parentGenome2, request.flowerId, request.genome, request.site, genomeCache);
+    // The cache lookups made for this request, so the simulation can report hit rates.
+    const cacheStats = genomeCache.takeStats();
     
     // After async work, check if the request was cancelled while processing.
     const wasCancelled = cancellationQueue.some(id => id === request.requestId);
@@ -68,12 +102,12 @@ const processQueue = async () => {
         if (newFlower) {
             simWorkerPort?.postMessage({
                 type: 'flower-created',
-                payload: { requestId: request.requestId, flower: newFlower }
+                payload: { requestId: request.requestId, flower: newFlower, cacheStats }
             });
         } else {
             simWorkerPort?.postMessage({
                 type: 'flower-creation-failed',
-                payload: { requestId: request.requestId }
+                payload: { requestId: request.requestId, cacheStats }
             });
         }
     }
@@ -96,6 +130,7 @@ self.onmessage = async (e: MessageEvent) => {
                 simWorkerPort.onmessage = handleSimWorkerMessage;
             }
             await initializeWasm();
+            pruneGenomeCache(GENOME_CACHE_MAX_STORED).catch(error => console.error("Flower Worker: failed to prune the genome cache.", error));
             break;
     }
 };
@@ -123,6 +158,14 @@ const handleSimWorkerMessage = (e: MessageEvent) => {
             }
             break;
             
+        case 'reevaluate-flowers':
+            // Stats are worked out in the same queue as breeding, between breeds.
+            reevaluationQueue.push(payload);
+            if (!isProcessing) {
+                processQueue();
+            }
+            break;
+
         case 'cancel-flower-request': {
             // Add to cancellation queue instead of filtering immediately
             cancellationQueue.push(payload.requestId);
@@ -0,0 +1,101 @@
+/// <reference types="node" />
+
+/**
+ * Command-line entry point for running the simulation in Node, for batch experiments.
+ *
+ *   npm run build:headless
+ *   npm run headless -- --params params.json --ticks 1000 --out run.jsonl [--seed 42] [--climate climate.csv] [--wasm]
+ *
+ * Params are merged over the defaults; a climate file replaces their seasonal cycle. Each tick's `TickSummary` is written as one JSON line,
+ * to `--out` or to stdout. Flowers use a stub genetics service unless `--wasm` is given.
+ */
+import fs from 'fs';
+import path from 'path';
+import type { FEService, SimulationParams } from './types';
+import { DEFAULT_SIM_PARAMS } from './constants';
+import { runHeadlessSimulation } from './lib/headlessRunner';
+import { StubFlowerService } from './services/stubFlowerService';
+import { registerBuiltinSpecies } from './lib/builtinSpecies';
+import { parseClimateFile } from './lib/climateScenario';
+
+interface CliOptions {
+    paramsPath: string | null;
+    ticks: number;
+    outPath: string | null;
+    seed: number | null;
+    climatePath: string | null;
+    useWasm: boolean;
+}
+
+const USAGE = 'Usage: headless --ticks <count> [--params <file.json>] [--out <file.jsonl>] [--seed <number>] [--climate <file.csv|file.json>] [--wasm]';
+
+const parseArgs = (argv: string[]): CliOptions => {
+    const options: CliOptions = { paramsPath: null, ticks: 0, outPath: null, seed: null, climatePath: null, useWasm: false };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--params': options.paramsPath = argv[++i]; break;
+            case '--ticks': options.ticks = parseInt(argv[++i], 10); break;
+            case '--out': options.outPath = argv[++i]; break;
+            case '--seed': options.seed = parseInt(argv[++i], 10); break;
+            case '--climate': options.climatePath = argv[++i]; break;
+            case '--wasm': options.useWasm = true; break;
+            default: throw new Error(`Unknown argument: ${arg}`);
+        }
+    }
+    if (!Number.isInteger(options.ticks) || options.ticks <= 0) {
+        throw new Error('--ticks must be a positive integer.');
+    }
+    if (options.seed !== null && isNaN(options.seed)) {
+        throw new Error('--seed must be a number.');
+    }
+    return options;
+};
+
+const loadFlowerService = async (useWasm: boolean): Promise<FEService> => {
+    if (!useWasm) return new StubFlowerService();
+    const { flowerService } = await import('./services/flowerService');
+    return flowerService;
+};
+
+const main = async () => {
+    let options: CliOptions;
+    try {
+        options = parseArgs(process.argv.slice(2));
+    } catch (error) {
+        console.error((error as Error).message);
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    const fileParams: Partial<SimulationParams> = options.paramsPath
+        ? JSON.parse(fs.readFileSync(options.paramsPath, 'utf8'))
+        : {};
+    const params: SimulationParams = { ...DEFAULT_SIM_PARAMS, ...fileParams };
+    if (options.seed !== null) params.seed = options.seed;
+    if (options.climatePath) {
+        params.climateScenario = parseClimateFile(fs.readFileSync(options.climatePath, 'utf8'), path.basename(options.climatePath));
+    }
+
+    // Keep stdout clean for the JSONL stream when no output file is given.
+    if (!options.outPath) console.log = console.error;
+    const out = options.outPath ? fs.openSync(options.outPath, 'w') : process.stdout.fd;
+
+    try {
+        await runHeadlessSimulation({
+            params,
+            ticks: options.ticks,
+            flowerService: await loadFlowerService(options.useWasm),
+            onTick: (summary) => fs.writeSync(out, JSON.stringify(summary) + '\n'),
+        });
+    } finally {
+        if (options.outPath) fs.closeSync(out);
+    }
+};
+
+registerBuiltinSpecies();
+
+main().catch(error => {
+    console.error('Headless run failed:', error);
+    process.exit(1);
+});
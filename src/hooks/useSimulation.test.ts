@@ -1,8 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useSimulation } from './useSimulation';
-import { DEFAULT_SIM_PARAMS } from '../constants';
-import type { ActorDelta, Bird, CellContent, Flower, Insect } from '../types';
+import { DEFAULT_SIM_PARAMS, FLOWER_WORKER_POOL_MAX } from '../constants';
+import type { ActorDelta, Bird, CellContent, Flower, Insect, ReplayFile, CustomSpeciesFile } from '../types';
+import { TickEncoder } from '../lib/tickProtocol';
 
 // --- Mock Worker Setup ---
 const mockWorkerInstances: { postMessage: ReturnType<typeof vi.fn>; terminate: ReturnType<typeof vi.fn>; onmessage: ((e: MessageEvent) => void) | null }[] = [];
@@ -26,6 +27,10 @@ vi.stubGlobal('MessageChannel', class MockMessageChannel {
     port2 = mockPort2;
 });
 
+// Three cores leave room for a single flower worker.
+const setCoreCount = (cores: number) => Object.defineProperty(navigator, 'hardwareConcurrency', { value: cores, configurable: true });
+setCoreCount(3);
+
 describe('useSimulation hook', () => {
     const mockSetIsLoading = vi.fn();
 
@@ -47,7 +52,7 @@ describe('useSimulation hook', () => {
         const flowerWorkerInstance = mockWorkerInstances[1];
         
         expect(simWorkerInstance.postMessage).toHaveBeenCalledWith(
-            { type: 'init-ports', payload: { flowerWorkerPort: mockPort1 } },
+            { type: 'init-ports', payload: { flowerWorkerPorts: [mockPort1] } },
             [mockPort1]
         );
         expect(flowerWorkerInstance.postMessage).toHaveBeenCalledWith(
@@ -56,6 +61,20 @@ describe('useSimulation hook', () => {
         );
     });
 
+    it('sizes the flower worker pool from the core count', () => {
+        setCoreCount(16);
+        try {
+            renderHook(() => useSimulation({ setIsLoading: mockSetIsLoading }));
+        } finally {
+            setCoreCount(3);
+        }
+        expect(mockWorkerInstances.length).toBe(1 + FLOWER_WORKER_POOL_MAX);
+        expect(mockWorkerInstances[0].postMessage).toHaveBeenCalledWith(
+            { type: 'init-ports', payload: { flowerWorkerPorts: Array(FLOWER_WORKER_POOL_MAX).fill(mockPort1) } },
+            Array(FLOWER_WORKER_POOL_MAX).fill(mockPort1)
+        );
+    });
+
     it('terminates both workers on unmount', () => {
         const { unmount } = renderHook(() => useSimulation({ setIsLoading: mockSetIsLoading }));
         unmount();
@@ -102,16 +121,13 @@ describe('useSimulation hook', () => {
             { id: 'insect-1', type: 'insect', x: 1, y: 1, lifespan: 50, emoji: '🦋' } as Insect,
         ];
 
-        const initialGrid: (CellContent[])[][] = [
-            [[initialActorsList[0]], []],
-            [[], [initialActorsList[1]]],
-        ];
+        const encoder = new TickEncoder();
 
         const initMessage = {
             data: {
                 type: 'init-complete',
                 payload: {
-                    grid: initialGrid,
+                    actors: encoder.encodeSnapshot(initialActorsList),
                     params: { ...DEFAULT_SIM_PARAMS, gridWidth: 2, gridHeight: 2 }
                 }
             }
@@ -137,7 +153,7 @@ describe('useSimulation hook', () => {
             data: {
                 type: 'tick-update',
                 payload: {
-                    deltas,
+                    actors: encoder.encode(deltas),
                     events: [],
                     summary: { tick: 1, flowerCount: 1, insectCount: 0, birdCount: 1 }
                 }
@@ -179,4 +195,153 @@ describe('useSimulation hook', () => {
 
         expect(result.current.actors).toBe(initialActors);
     });
+
+    it('sends rewind and step-back messages and applies the restored state', () => {
+        const { result } = renderHook(() => useSimulation({ setIsLoading: mockSetIsLoading }));
+        const simWorker = mockWorkerInstances[0];
+
+        act(() => {
+            result.current.rewindTo(12);
+            result.current.stepBack();
+        });
+        expect(simWorker.postMessage).toHaveBeenCalledWith({ type: 'rewind', payload: { tick: 12 } });
+        expect(simWorker.postMessage).toHaveBeenCalledWith({ type: 'step-back' });
+
+        const flower = { id: 'flower-1', type: 'flower', x: 0, y: 0, health: 100 } as Flower;
+        const rewindMessage = {
+            data: {
+                type: 'rewind-complete',
+                payload: {
+                    actors: new TickEncoder().encodeSnapshot([flower]),
+                    tick: 12,
+                    summary: null,
+                    historyRange: { oldestTick: 2, latestTick: 30 },
+                }
+            }
+        } as MessageEvent;
+
+        act(() => {
+            simWorker.onmessage?.(rewindMessage);
+        });
+
+        expect(result.current.currentTick).toBe(12);
+        expect(result.current.historyRange).toEqual({ oldestTick: 2, latestTick: 30 });
+        expect(result.current.actors.get('flower-1')).toEqual(flower);
+    });
+
+    it('sends step and run-ticks messages and applies the aggregated result', () => {
+        const { result } = renderHook(() => useSimulation({ setIsLoading: mockSetIsLoading }));
+        const simWorker = mockWorkerInstances[0];
+
+        act(() => {
+            result.current.step();
+            result.current.runTicks(5);
+        });
+        expect(simWorker.postMessage).toHaveBeenCalledWith({ type: 'step' });
+        expect(simWorker.postMessage).toHaveBeenCalledWith({ type: 'run-ticks', payload: { count: 5 } });
+        expect(result.current.isAdvancing).toBe(true);
+
+        const flower = { id: 'flower-1', type: 'flower', x: 0, y: 0, health: 100 } as Flower;
+        const ticksMessage = {
+            data: {
+                type: 'ticks-complete',
+                payload: {
+                    actors: new TickEncoder().encode([{ type: 'add', actor: flower }]),
+                    events: [],
+                    summaries: [{ tick: 3, flowerCount: 0, insectCount: 0, birdCount: 0 }, { tick: 4, flowerCount: 1, insectCount: 0, birdCount: 0 }],
+                    historyRange: { oldestTick: 0, latestTick: 5 },
+                }
+            }
+        } as MessageEvent;
+
+        act(() => {
+            simWorker.onmessage?.(ticksMessage);
+        });
+
+        expect(result.current.actors.get('flower-1')).toEqual(flower);
+        expect(result.current.currentTick).toBe(5);
+        expect(result.current.latestSummary?.tick).toBe(4);
+        expect(result.current.historyRange).toEqual({ oldestTick: 0, latestTick: 5 });
+        expect(result.current.isAdvancing).toBe(false);
+    });
+
+    it('stops loading when the worker fails to load a garden', () => {
+        renderHook(() => useSimulation({ setIsLoading: mockSetIsLoading }));
+        const simWorker = mockWorkerInstances[0];
+
+        act(() => {
+            simWorker.onmessage?.({ data: { type: 'load-failed', payload: { message: 'The save has no simulation settings.' } } } as MessageEvent);
+        });
+        expect(mockSetIsLoading).toHaveBeenCalledWith(false);
+    });
+
+    it('stops waiting on a step the worker skips', () => {
+        const { result } = renderHook(() => useSimulation({ setIsLoading: mockSetIsLoading }));
+        const simWorker = mockWorkerInstances[0];
+
+        act(() => {
+            result.current.step();
+        });
+        expect(result.current.isAdvancing).toBe(true);
+
+        act(() => {
+            simWorker.onmessage?.({ data: { type: 'ticks-skipped' } } as MessageEvent);
+        });
+        expect(result.current.isAdvancing).toBe(false);
+    });
+
+    it('sends a replay to the worker and enters replay mode once it is loaded', async () => {
+        const { result } = renderHook(() => useSimulation({ setIsLoading: mockSetIsLoading }));
+        const simWorker = mockWorkerInstances[0];
+        const replay = { format: 'evogarden-replay', seed: 7 } as ReplayFile;
+
+        let loaded!: Promise<void>;
+        act(() => {
+            loaded = result.current.loadReplay(replay);
+        });
+        expect(simWorker.postMessage).toHaveBeenCalledWith({ type: 'load-replay', payload: replay });
+        expect(result.current.isReplaying).toBe(false);
+
+        const flower = { id: 'flower-1', type: 'flower', x: 0, y: 0, health: 100 } as Flower;
+        act(() => {
+            simWorker.onmessage?.({ data: { type: 'replay-loaded', payload: { actors: new TickEncoder().encodeSnapshot([flower]), tick: 0 } } } as MessageEvent);
+        });
+        await expect(loaded).resolves.toBeUndefined();
+        expect(result.current.isReplaying).toBe(true);
+        expect(result.current.actors.get('flower-1')).toEqual(flower);
+
+        act(() => {
+            simWorker.onmessage?.({ data: { type: 'init-complete', payload: { actors: new TickEncoder().encodeSnapshot([]), tick: 0 } } } as MessageEvent);
+        });
+        expect(result.current.isReplaying).toBe(false);
+    });
+
+    it('stops loading and rejects the replay load when the worker fails to load it', async () => {
+        const { result } = renderHook(() => useSimulation({ setIsLoading: mockSetIsLoading }));
+        const simWorker = mockWorkerInstances[0];
+
+        let loaded!: Promise<void>;
+        act(() => {
+            loaded = result.current.loadReplay({ format: 'evogarden-replay', seed: 7 } as ReplayFile);
+        });
+        act(() => {
+            simWorker.onmessage?.({ data: { type: 'load-failed', payload: { message: 'Cannot read the terrain.' } } } as MessageEvent);
+        });
+
+        await expect(loaded).rejects.toThrow('Cannot read the terrain.');
+        expect(mockSetIsLoading).toHaveBeenCalledWith(false);
+        expect(result.current.isReplaying).toBe(false);
+    });
+
+    it('sends user-defined species to the simulation worker', () => {
+        const { result } = renderHook(() => useSimulation({ setIsLoading: mockSetIsLoading }));
+        const simWorker = mockWorkerInstances[0];
+        const species = [{ emoji: '🪱', name: 'Glow Worm', role: 'balanced', behaviors: [{ type: 'scavenge' }] } as CustomSpeciesFile];
+
+        act(() => {
+            result.current.syncCustomSpecies(species);
+        });
+
+        expect(simWorker.postMessage).toHaveBeenCalledWith({ type: 'set-custom-species', payload: species });
+    });
 });
@@ -1,7 +1,14 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import type { SimulationParams, AppEvent, CellContent, ActorDelta, TickSummary, Coord } from '../types';
+import type { SimulationParams, AppEvent, CellContent, EncodedActorChanges, TickSummary, Coord, TickHistoryRange, ReplayFile, CustomSpeciesFile, TerrainData, SoilMoistureFrame, WaterBodyKind, ObstacleFrame, ObstacleKind } from '../types';
 import { useChallengeStore } from '../stores/challengeStore';
+import { useAnalyticsStore } from '../stores/analyticsStore';
 import { eventService } from '../services/eventService';
+import { ActorTable } from '../lib/tickProtocol';
+import { FLOWER_WORKER_POOL_MAX } from '../constants';
+
+// One flower genetics worker per spare core, leaving a core each for the page and the
+// simulation worker, and no more than FLOWER_WORKER_POOL_MAX.
+const getFlowerWorkerCount = () => Math.max(1, Math.min(FLOWER_WORKER_POOL_MAX, (navigator.hardwareConcurrency || 2) - 2));
 
 interface UseSimulationProps {
     setIsLoading: (loading: boolean) => void;
@@ -13,10 +20,18 @@ export const useSimulation = ({ setIsLoading }: UseSimulationProps) => {
     const [isWorkerInitialized, setIsWorkerInitialized] = useState(false);
     const [workerError, setWorkerError] = useState<Error | null>(null);
     const [latestSummary, setLatestSummary] = useState<TickSummary | null>(null);
+    const [currentTick, setCurrentTick] = useState(0);
+    const [historyRange, setHistoryRange] = useState<TickHistoryRange | null>(null);
+    const [isReplaying, setIsReplaying] = useState(false);
+    const [isAdvancing, setIsAdvancing] = useState(false); // True from a step or run of ticks until the worker is done with it
+    const [terrain, setTerrain] = useState<TerrainData | null>(null);
+    const [soilMoisture, setSoilMoisture] = useState<SoilMoistureFrame | null>(null);
+    const [obstacles, setObstacles] = useState<ObstacleFrame | null>(null);
     const workerRef = useRef<Worker | null>(null);
-    const flowerWorkerRef = useRef<Worker | null>(null);
+    const flowerWorkersRef = useRef<Worker[]>([]);
     const isRunningRef = useRef(isRunning);
     const latestSummaryRef = useRef<TickSummary | null>(null);
+    const pendingReplayRef = useRef<{ resolve: () => void; reject: (error: Error) => void } | null>(null); // The replay load the worker has yet to answer
     
     // Effect to initialize and terminate the workers
     useEffect(() => {
@@ -25,10 +40,10 @@ export const useSimulation = ({ setIsLoading }: UseSimulationProps) => {
         });
         workerRef.current = simWorker;
 
-        const flowerWorker = new Worker(new URL('../flower.worker.ts', import.meta.url), {
+        const flowerWorkers = Array.from({ length: getFlowerWorkerCount() }, () => new Worker(new URL('../flower.worker.ts', import.meta.url), {
             type: 'module',
-        });
-        flowerWorkerRef.current = flowerWorker;
+        }));
+        flowerWorkersRef.current = flowerWorkers;
 
         const errorHandler = (event: ErrorEvent) => {
             console.error("A worker encountered an error:", event.message, event);
@@ -36,55 +51,69 @@ export const useSimulation = ({ setIsLoading }: UseSimulationProps) => {
             setIsLoading(false); // Stop loading on error
         };
         simWorker.onerror = errorHandler;
-        flowerWorker.onerror = errorHandler;
+        flowerWorkers.forEach(flowerWorker => flowerWorker.onerror = errorHandler);
 
-        const channel = new MessageChannel();
-        simWorker.postMessage({ type: 'init-ports', payload: { flowerWorkerPort: channel.port1 } }, [channel.port1]);
-        flowerWorker.postMessage({ type: 'init-ports', payload: { simWorkerPort: channel.port2 } }, [channel.port2]);
+        // Each flower worker gets its own channel to the simulation worker.
+        const flowerWorkerPorts = flowerWorkers.map(flowerWorker => {
+            const channel = new MessageChannel();
+            flowerWorker.postMessage({ type: 'init-ports', payload: { simWorkerPort: channel.port2 } }, [channel.port2]);
+            return channel.port1;
+        });
+        simWorker.postMessage({ type: 'init-ports', payload: { flowerWorkerPorts } }, flowerWorkerPorts);
         
         setIsWorkerInitialized(true);
+
+        // The worker's actors, patched by each message; `actors` is rebuilt from it.
+        const actorTable = new ActorTable();
+        const applyActorChanges = (changes: EncodedActorChanges, isSnapshot = false) => {
+            if (isSnapshot) actorTable.reset();
+            actorTable.apply(changes);
+            setActors(actorTable.toMap());
+        };
         
         simWorker.onmessage = (e: MessageEvent) => {
             const { type, payload } = e.data;
             switch (type) {
                 case 'init-complete':
-                case 'load-complete': {
-                    const newActors = new Map<string, CellContent>();
-                    payload.grid.flat(2).forEach((actor: CellContent) => {
-                        if (actor) newActors.set(actor.id, actor);
-                    });
-                    setActors(newActors);
+                case 'load-complete':
+                case 'replay-loaded': {
+                    applyActorChanges(payload.actors, true);
+                    setTerrain(payload.terrain ?? null);
+                    setSoilMoisture(payload.soilMoisture ?? null);
+                    setObstacles(payload.obstacles ?? null);
                     setLatestSummary(null);
+                    setCurrentTick(payload.tick ?? 0);
+                    setHistoryRange(null);
+                    setIsReplaying(type === 'replay-loaded');
                     setIsLoading(false);
+                    if (type === 'replay-loaded') {
+                        pendingReplayRef.current?.resolve();
+                        pendingReplayRef.current = null;
+                    }
+                    break;
+                }
+                case 'rewind-complete': {
+                    applyActorChanges(payload.actors, true);
+                    setSoilMoisture(payload.soilMoisture ?? null);
+                    setObstacles(payload.obstacles ?? null);
+                    // Not routed through latestSummaryRef, so the analytics don't record it twice.
+                    setLatestSummary(payload.summary);
+                    setCurrentTick(payload.tick);
+                    setHistoryRange(payload.historyRange);
+                    useAnalyticsStore.getState().truncateFrom(payload.tick);
                     break;
                 }
                 case 'tick-update': {
-                    const { deltas, events, summary } = payload;
+                    const { actors: actorChanges, soilMoisture, obstacles, events, summary, historyRange } = payload;
                     
                     latestSummaryRef.current = summary;
                     setLatestSummary(summary);
+                    setCurrentTick(summary.tick + 1);
+                    setHistoryRange(historyRange);
 
-                    setActors(currentActors => {
-                        const newActors = new Map(currentActors);
-                        for (const delta of (deltas as ActorDelta[])) {
-                            switch (delta.type) {
-                                case 'add':
-                                    newActors.set(delta.actor.id, delta.actor);
-                                    break;
-                                case 'remove':
-                                    newActors.delete(delta.id);
-                                    break;
-                                case 'update': {
-                                    const actorToUpdate = newActors.get(delta.id);
-                                    if (actorToUpdate) {
-                                        newActors.set(delta.id, { ...actorToUpdate, ...delta.changes } as CellContent);
-                                    }
-                                    break;
-                                }
-                            }
-                        }
-                        return newActors;
-                    });
+                    applyActorChanges(actorChanges as EncodedActorChanges);
+                    setSoilMoisture(soilMoisture ?? null);
+                    setObstacles(obstacles ?? null);
                     
                     useChallengeStore.getState().processTick(summary);
                     for (const event of (events as AppEvent[])) {
@@ -92,14 +121,50 @@ export const useSimulation = ({ setIsLoading }: UseSimulationProps) => {
                     }
                     break;
                 }
+                case 'load-failed':
+                    // Whoever asked for the load reports why it failed; a replay is asked for through loadReplay.
+                    setIsLoading(false);
+                    pendingReplayRef.current?.reject(new Error(payload.message));
+                    pendingReplayRef.current = null;
+                    break;
+                case 'ticks-skipped':
+                    setIsAdvancing(false);
+                    break;
+                case 'ticks-complete': {
+                    setIsAdvancing(false);
+                    const { actors: actorChanges, soilMoisture, obstacles, events, summaries, historyRange } = payload as { actors: EncodedActorChanges; soilMoisture?: SoilMoistureFrame; obstacles?: ObstacleFrame; events: AppEvent[]; summaries: TickSummary[]; historyRange: TickHistoryRange | null };
+                    const summary = summaries[summaries.length - 1];
+                    if (!summary) break;
+
+                    // Earlier ticks go straight into the analytics; the last one is recorded on the next frame, like a normal tick.
+                    for (const earlierSummary of summaries.slice(0, -1)) {
+                        useAnalyticsStore.getState().addDataPoint({ summary: earlierSummary, renderTimeMs: 0 });
+                    }
+                    latestSummaryRef.current = summary;
+                    setLatestSummary(summary);
+                    setCurrentTick(summary.tick + 1);
+                    setHistoryRange(historyRange);
+
+                    applyActorChanges(actorChanges);
+                    setSoilMoisture(soilMoisture ?? null);
+                    setObstacles(obstacles ?? null);
+
+                    for (const tickSummary of summaries) {
+                        useChallengeStore.getState().processTick(tickSummary);
+                    }
+                    for (const event of events) {
+                        eventService.dispatch({ ...event, tick: event.tick ?? summary.tick });
+                    }
+                    break;
+                }
             }
         };
 
         return () => {
             simWorker.terminate();
-            flowerWorker.terminate();
+            flowerWorkers.forEach(flowerWorker => flowerWorker.terminate());
             workerRef.current = null;
-            flowerWorkerRef.current = null;
+            flowerWorkersRef.current = [];
             setIsWorkerInitialized(false);
         };
     }, [setIsLoading]);
@@ -135,6 +200,10 @@ export const useSimulation = ({ setIsLoading }: UseSimulationProps) => {
         workerRef.current?.postMessage({ type: 'introduce-species', payload: { emoji, count } });
     }, []);
 
+    const syncCustomSpecies = useCallback((species: CustomSpeciesFile[]) => {
+        workerRef.current?.postMessage({ type: 'set-custom-species', payload: species });
+    }, []);
+
     const introduceStationary = useCallback((actorType: 'hive' | 'antColony', count: number) => {
         workerRef.current?.postMessage({ type: 'introduce-stationary', payload: { actorType, count } });
     }, []);
@@ -143,5 +212,45 @@ export const useSimulation = ({ setIsLoading }: UseSimulationProps) => {
         workerRef.current?.postMessage({ type: 'plant-champion-seed', payload: { genome, sex, position } });
     }, []);
 
-    return { actors, isRunning, setIsRunning, workerRef, resetWithNewParams, updateLiveParams, isWorkerInitialized, latestSummaryRef, workerError, latestSummary, triggerWeatherEvent, introduceSpecies, introduceStationary, plantChampionSeed };
+    const placeWaterBody = useCallback((kind: WaterBodyKind, position: Coord) => {
+        workerRef.current?.postMessage({ type: 'place-water', payload: { kind, position } });
+    }, []);
+
+    const toggleObstacle = useCallback((kind: ObstacleKind, position: Coord) => {
+        workerRef.current?.postMessage({ type: 'toggle-obstacle', payload: { kind, position } });
+    }, []);
+
+    const rewindTo = useCallback((tick: number) => {
+        workerRef.current?.postMessage({ type: 'rewind', payload: { tick } });
+    }, []);
+
+    const stepBack = useCallback(() => {
+        workerRef.current?.postMessage({ type: 'step-back' });
+    }, []);
+
+    const step = useCallback(() => {
+        if (!workerRef.current) return;
+        setIsAdvancing(true);
+        workerRef.current.postMessage({ type: 'step' });
+    }, []);
+
+    const runTicks = useCallback((count: number) => {
+        if (!workerRef.current) return;
+        setIsAdvancing(true);
+        workerRef.current.postMessage({ type: 'run-ticks', payload: { count } });
+    }, []);
+
+    // Resolves once the worker has loaded the replay, and rejects with its reason if it could not.
+    const loadReplay = useCallback((replay: ReplayFile) => new Promise<void>((resolve, reject) => {
+        if (!workerRef.current) {
+            reject(new Error('The simulation is not running.'));
+            return;
+        }
+        pendingReplayRef.current = { resolve, reject };
+        workerRef.current.postMessage({ type: 'load-replay', payload: replay });
+        latestSummaryRef.current = null;
+        setLatestSummary(null);
+    }), []);
+
+    return { actors, terrain, soilMoisture, obstacles, isRunning, setIsRunning, workerRef, resetWithNewParams, updateLiveParams, isWorkerInitialized, latestSummaryRef, workerError, latestSummary, currentTick, historyRange, rewindTo, stepBack, step, runTicks, isAdvancing, isReplaying, loadReplay, triggerWeatherEvent, introduceSpecies, syncCustomSpecies, introduceStationary, plantChampionSeed, placeWaterBody, toggleObstacle };
 };
@@ -2,6 +2,9 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import './style.css';
+import { registerBuiltinSpecies } from './lib/builtinSpecies';
+
+registerBuiltinSpecies();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
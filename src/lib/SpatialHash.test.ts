@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SpatialHash } from './SpatialHash';
+import type { Nutrient, Corpse } from '../types';
+
+const nutrient = (id: string, x: number, y: number): Nutrient => ({ id, type: 'nutrient', x, y, lifespan: 10 });
+const corpse = (id: string, x: number, y: number): Corpse => ({ id, type: 'corpse', x, y, originalEmoji: '🐞', decayTimer: 10, foodValue: 5 });
+
+describe('SpatialHash', () => {
+    let hash: SpatialHash;
+
+    beforeEach(() => {
+        hash = new SpatialHash(10, 10);
+    });
+
+    describe('Maintenance', () => {
+        it('should find inserted actors on their cell', () => {
+            const n1 = nutrient('n1', 2, 3);
+            hash.insert(n1);
+            expect(hash.getOnCell(2, 3)).toEqual([n1]);
+            expect(hash.getOnCell(3, 2)).toEqual([]);
+        });
+
+        it('should forget removed actors', () => {
+            hash.insert(nutrient('n1', 2, 3));
+            expect(hash.remove('n1')).toBe(true);
+            expect(hash.remove('n1')).toBe(false);
+            expect(hash.getOnCell(2, 3)).toEqual([]);
+            expect(hash.ofType('nutrient')).toEqual([]);
+        });
+
+        it('should move an actor to its new cell on update', () => {
+            const n1 = nutrient('n1', 2, 3);
+            hash.insert(n1);
+            n1.x = 7;
+            hash.update(n1);
+            expect(hash.getOnCell(2, 3)).toEqual([]);
+            expect(hash.getOnCell(7, 3)).toEqual([n1]);
+        });
+
+        it('should keep actors that leave the grid until they are removed', () => {
+            const n1 = nutrient('n1', 9, 9);
+            hash.insert(n1);
+            n1.x = 12;
+            hash.update(n1);
+            expect(hash.has('n1')).toBe(true);
+            expect(hash.within(9, 9, 5)).toEqual([]);
+            n1.x = 8;
+            hash.update(n1);
+            expect(hash.getOnCell(8, 9)).toEqual([n1]);
+        });
+
+        it('should not index an actor twice when it is inserted again', () => {
+            hash.insert(nutrient('n1', 2, 3));
+            hash.insert(nutrient('n1', 4, 4));
+            expect(hash.getOnCell(2, 3)).toEqual([]);
+            expect(hash.ofType('nutrient')).toHaveLength(1);
+        });
+    });
+
+    describe('Queries', () => {
+        it('should filter a cell by type', () => {
+            const n1 = nutrient('n1', 5, 5);
+            const c1 = corpse('c1', 5, 5);
+            hash.insert(n1);
+            hash.insert(c1);
+            expect(hash.getOnCell(5, 5, 'corpse')).toEqual([c1]);
+            expect(hash.getOnCell(5, 5)).toHaveLength(2);
+        });
+
+        it('should return the actors in the square around a point', () => {
+            hash.insert(nutrient('inside', 3, 7));
+            hash.insert(nutrient('corner', 7, 7));
+            hash.insert(nutrient('outside', 8, 5));
+            const ids = hash.within(5, 5, 2).map(a => a.id).sort();
+            expect(ids).toEqual(['corner', 'inside']);
+        });
+
+        it('should clip ranges at the grid edges', () => {
+            hash.insert(nutrient('n1', 0, 0));
+            expect(hash.within(0, 0, 3)).toHaveLength(1);
+        });
+
+        it('should find the nearest actor of a type by straight-line distance', () => {
+            hash.insert(corpse('diagonal', 8, 8));
+            hash.insert(corpse('straight', 5, 9));
+            hash.insert(nutrient('closer-nutrient', 5, 6));
+            expect(hash.nearest(5, 5, 'corpse')?.id).toBe('straight');
+        });
+
+        it('should respect the search radius and filter of nearest', () => {
+            hash.insert(corpse('far', 9, 9));
+            hash.insert(corpse('near', 4, 4));
+            expect(hash.nearest(1, 1, 'corpse', 2)).toBeNull();
+            expect(hash.nearest(1, 1, 'corpse', 10, c => c.id !== 'near')?.id).toBe('far');
+        });
+    });
+});
@@ -0,0 +1,161 @@
+import type { CellContent, Insect } from '../types';
+
+type ActorType = CellContent['type'];
+type ActorOfType<K extends ActorType> = Extract<CellContent, { type: K }>;
+
+interface Entry {
+    actor: CellContent;
+    cell: number; // Index into `cells`, or -1 while the actor is off the grid
+}
+
+/**
+ * A grid-aligned spatial index of actors, with one bucket per cell.
+ *
+ * Unlike a quadtree rebuilt every tick, it is kept up to date as actors move, spawn and die:
+ * `insert` and `remove` as they come and go, and `update` after an actor's `x` or `y` changes.
+ * Ranges are measured in whole cells, so `within(x, y, 2)` covers the 5x5 square around (x, y).
+ */
+export class SpatialHash {
+    readonly width: number;
+    readonly height: number;
+    private cells: CellContent[][];
+    private entries = new Map<string, Entry>();
+    private byType = new Map<ActorType, Set<CellContent>>();
+
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+        this.cells = Array.from({ length: width * height }, () => []);
+    }
+
+    /** Builds an index holding the given actors. */
+    static fromActors(actors: Iterable<CellContent>, params: { gridWidth: number, gridHeight: number }): SpatialHash {
+        const hash = new SpatialHash(params.gridWidth, params.gridHeight);
+        for (const actor of actors) hash.insert(actor);
+        return hash;
+    }
+
+    public insert(actor: CellContent) {
+        if (this.entries.has(actor.id)) this.remove(actor.id);
+        const cell = this.cellIndex(actor.x, actor.y);
+        this.entries.set(actor.id, { actor, cell });
+        if (cell !== -1) this.cells[cell].push(actor);
+
+        let ofType = this.byType.get(actor.type);
+        if (!ofType) {
+            ofType = new Set();
+            this.byType.set(actor.type, ofType);
+        }
+        ofType.add(actor);
+    }
+
+    public remove(id: string): boolean {
+        const entry = this.entries.get(id);
+        if (!entry) return false;
+        this.entries.delete(id);
+        if (entry.cell !== -1) this.removeFromCell(entry.cell, id);
+        this.byType.get(entry.actor.type)?.delete(entry.actor);
+        return true;
+    }
+
+    /** Moves an actor to the bucket for its current position, if it has changed cell. */
+    public update(actor: { id: string, x: number, y: number }) {
+        const entry = this.entries.get(actor.id);
+        if (!entry) return;
+        const cell = this.cellIndex(actor.x, actor.y);
+        if (cell === entry.cell) return;
+        if (entry.cell !== -1) this.removeFromCell(entry.cell, actor.id);
+        if (cell !== -1) this.cells[cell].push(entry.actor);
+        entry.cell = cell;
+    }
+
+    public has(id: string): boolean {
+        return this.entries.has(id);
+    }
+
+    public clear() {
+        for (const cell of this.cells) cell.length = 0;
+        this.entries.clear();
+        this.byType.clear();
+    }
+
+    /** The actors on a cell, optionally only those of one type. */
+    public getOnCell(x: number, y: number): CellContent[];
+    public getOnCell<K extends ActorType>(x: number, y: number, type: K): ActorOfType<K>[];
+    public getOnCell(x: number, y: number, type?: ActorType): CellContent[] {
+        const cell = this.cellIndex(x, y);
+        if (cell === -1) return [];
+        const actors = this.cells[cell];
+        return type ? actors.filter(a => a.type === type) : actors.slice();
+    }
+
+    /** The insects of one species on a cell. */
+    public insectsOnCell(x: number, y: number, emoji: string): Insect[] {
+        return this.getOnCell(x, y, 'insect').filter(insect => insect.emoji === emoji);
+    }
+
+    /** The actors within `radius` cells of (x, y) in both directions, optionally only those of one type. */
+    public within(x: number, y: number, radius: number): CellContent[];
+    public within<K extends ActorType>(x: number, y: number, radius: number, type: K): ActorOfType<K>[];
+    public within(x: number, y: number, radius: number, type?: ActorType): CellContent[] {
+        const found: CellContent[] = [];
+        const minX = Math.max(0, Math.ceil(x - radius)), maxX = Math.min(this.width - 1, Math.floor(x + radius));
+        const minY = Math.max(0, Math.ceil(y - radius)), maxY = Math.min(this.height - 1, Math.floor(y + radius));
+        for (let cy = minY; cy <= maxY; cy++) {
+            for (let cx = minX; cx <= maxX; cx++) {
+                for (const actor of this.cells[cy * this.width + cx]) {
+                    if (!type || actor.type === type) found.push(actor);
+                }
+            }
+        }
+        return found;
+    }
+
+    /**
+     * The closest actor of a type to (x, y) by straight-line distance, searching outwards up to
+     * `maxRadius` cells in each direction. `filter` can rule out candidates, such as the searcher itself.
+     */
+    public nearest<K extends ActorType>(x: number, y: number, type: K, maxRadius = Math.max(this.width, this.height), filter?: (actor: ActorOfType<K>) => boolean): ActorOfType<K> | null {
+        let best: ActorOfType<K> | null = null;
+        let bestDistance = Infinity;
+        for (let ring = 0; ring <= maxRadius && ring <= bestDistance; ring++) {
+            for (const actor of this.ring(x, y, ring)) {
+                if (actor.type !== type || (filter && !filter(actor as ActorOfType<K>))) continue;
+                const distance = Math.hypot(actor.x - x, actor.y - y);
+                if (distance < bestDistance) {
+                    best = actor as ActorOfType<K>;
+                    bestDistance = distance;
+                }
+            }
+        }
+        return best;
+    }
+
+    /** Every actor of a type, wherever it is. */
+    public ofType<K extends ActorType>(type: K): ActorOfType<K>[] {
+        return Array.from(this.byType.get(type) ?? []) as ActorOfType<K>[];
+    }
+
+    // The actors on the cells exactly `ring` cells away from (x, y).
+    private *ring(x: number, y: number, ring: number): Generator<CellContent> {
+        for (let cy = y - ring; cy <= y + ring; cy++) {
+            const edge = cy === y - ring || cy === y + ring;
+            for (let cx = x - ring; cx <= x + ring; cx += edge || ring === 0 ? 1 : 2 * ring) {
+                const cell = this.cellIndex(cx, cy);
+                if (cell !== -1) yield* this.cells[cell];
+            }
+        }
+    }
+
+    private removeFromCell(cell: number, id: string) {
+        const actors = this.cells[cell];
+        const index = actors.findIndex(a => a.id === id);
+        if (index !== -1) actors.splice(index, 1);
+    }
+
+    private cellIndex(x: number, y: number): number {
+        const cx = Math.floor(x), cy = Math.floor(y);
+        if (cx < 0 || cx >= this.width || cy < 0 || cy >= this.height) return -1;
+        return cy * this.width + cx;
+    }
+}
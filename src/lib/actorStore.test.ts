@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { ActorStore } from './actorStore';
+import type { Grid, Nutrient } from '../types';
+
+const nutrient = (id: string, x: number, lifespan: number): Nutrient => ({ id, type: 'nutrient', x, y: 0, lifespan });
+
+const makeGrid = (...actors: Nutrient[]): Grid => {
+    const grid: Grid = [Array.from({ length: 4 }, () => [])];
+    for (const actor of actors) grid[0][actor.x].push(actor);
+    return grid;
+};
+
+describe('ActorStore', () => {
+    it('should report only the actors changed since the tick started', () => {
+        const store = new ActorStore();
+        store.startTick(makeGrid(nutrient('n1', 0, 10), nutrient('n2', 1, 5)));
+
+        (store.get('n1') as Nutrient).lifespan--;
+
+        expect(store.takeDeltas()).toEqual([{ type: 'update', id: 'n1', changes: { lifespan: 9 } }]);
+    });
+
+    it('should change the actors in place and keep the grid as it was at the start of the tick', () => {
+        const n1 = nutrient('n1', 0, 10);
+        const grid = makeGrid(n1);
+        const store = new ActorStore();
+        store.startTick(grid);
+
+        const live = store.get('n1') as Nutrient;
+        live.lifespan = 3;
+        live.x = 2;
+
+        expect(n1.lifespan).toBe(3);
+        expect(grid[0][0]).toEqual([nutrient('n1', 0, 10)]);
+        expect(store.getSnapshot('n1')).toEqual(nutrient('n1', 0, 10));
+        expect(Array.from(store.plainValues())).toEqual([n1]);
+    });
+
+    it('should record added and removed actors', () => {
+        const store = new ActorStore();
+        store.startTick(makeGrid(nutrient('n1', 0, 10), nutrient('n2', 1, 5)));
+
+        store.delete('n1');
+        store.set('n3', nutrient('n3', 2, 7));
+        store.set('n4', nutrient('n4', 3, 1));
+        store.delete('n4');
+
+        expect(store.takeDeltas()).toEqual([
+            { type: 'remove', id: 'n1' },
+            { type: 'add', actor: nutrient('n3', 2, 7) },
+        ]);
+    });
+
+    it('should treat an actor removed and put back in the same tick as an update', () => {
+        const store = new ActorStore();
+        store.startTick(makeGrid(nutrient('n1', 0, 10)));
+
+        store.delete('n1');
+        store.set('n1', nutrient('n1', 1, 10));
+
+        expect(store.takeDeltas()).toEqual([{ type: 'update', id: 'n1', changes: { x: 1 } }]);
+    });
+
+    it('should follow grid order when a tick starts', () => {
+        const store = new ActorStore();
+        store.startTick(makeGrid(nutrient('n1', 3, 1), nutrient('n2', 0, 1), nutrient('n3', 1, 1)));
+
+        expect(Array.from(store.keys())).toEqual(['n2', 'n3', 'n1']);
+    });
+});
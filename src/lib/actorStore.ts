@@ -0,0 +1,215 @@
+import type { ActorDelta, CellContent, Grid } from '../types';
+import { cloneActor } from './simulationUtils';
+import { SpatialHash } from './SpatialHash';
+
+const shallowObjectEquals = (o1: any, o2: any): boolean => {
+    if (o1 === o2) return true;
+    if (o1 == null || o2 == null) return o1 === o2;
+    if (typeof o1 !== 'object' || typeof o2 !== 'object') return o1 === o2;
+
+    const keys1 = Object.keys(o1);
+    const keys2 = Object.keys(o2);
+
+    if (keys1.length !== keys2.length) return false;
+
+    for (const key of keys1) {
+        if (!Object.prototype.hasOwnProperty.call(o2, key) || o1[key] !== o2[key]) {
+            return false;
+        }
+    }
+    return true;
+};
+
+const diffActor = (before: CellContent, after: CellContent): Partial<CellContent> | null => {
+    const changes: Partial<CellContent> = {};
+    let hasChanged = false;
+
+    for (const key in after) {
+        if (key === 'id') continue;
+
+        const initialValue = (before as any)[key];
+        const finalValue = (after as any)[key];
+
+        if (typeof finalValue === 'object' && finalValue !== null) {
+            if (!shallowObjectEquals(initialValue, finalValue)) {
+                (changes as any)[key] = finalValue;
+                hasChanged = true;
+            }
+        } else if (initialValue !== finalValue) {
+            (changes as any)[key] = finalValue;
+            hasChanged = true;
+        }
+    }
+    return hasChanged ? changes : null;
+};
+
+/**
+ * The simulation's actors during a tick, changed in place rather than copied every tick.
+ *
+ * It is a `Map` from actor ID to actor, so behaviors use it like any other actor map, but
+ * the actors it hands out are proxies that notice writes. The first write to an actor in
+ * a tick keeps a copy of it, and `takeDeltas` compares only those actors against their
+ * copies. Added and removed actors are recorded by `set` and `delete`.
+ *
+ * The grid the tick started from keeps showing actors as they were then: an actor's first
+ * change swaps it there for its copy. `spatialHash`, on the other hand, follows the actors
+ * as they move, arrive and leave, and is kept from one tick to the next.
+ *
+ * Nested objects (an insect's pollen, a bird's target) are compared shallowly, as they
+ * always have been, so they should be replaced rather than edited in place.
+ */
+export class ActorStore extends Map<string, CellContent> {
+    public spatialHash = new SpatialHash(0, 0);
+    private plain = new Map<string, CellContent>();
+    private proxies = new WeakMap<CellContent, CellContent>();
+    private targets = new WeakMap<CellContent, CellContent>();
+    private grid: Grid = [];
+    private snapshots = new Map<string, CellContent>();
+    private added = new Set<string>();
+    private removed = new Map<string, CellContent>();
+
+    private readonly handler: ProxyHandler<CellContent> = {
+        set: (target, key, value) => {
+            this.recordChange(target);
+            const done = Reflect.set(target, key, value);
+            if ((key === 'x' || key === 'y') && this.plain.get(target.id) === target) {
+                this.spatialHash.update(target);
+            }
+            return done;
+        },
+        deleteProperty: (target, key) => {
+            this.recordChange(target);
+            return Reflect.deleteProperty(target, key);
+        },
+    };
+
+    /** Replaces the actors with those in `grid`, such as after loading a garden. */
+    public reset(grid: Grid) {
+        this.spatialHash = new SpatialHash(grid[0]?.length ?? 0, grid.length);
+        this.startTick(grid);
+        for (const proxy of this.values()) {
+            this.spatialHash.insert(proxy);
+        }
+        this.grid = [];
+    }
+
+    /**
+     * Starts a tick from the actors in `grid`, which must be the ones the store holds, in cell
+     * order. Nothing is recorded yet, so the next `takeDeltas` only reports what changes after this call.
+     */
+    public startTick(grid: Grid) {
+        super.clear();
+        this.plain.clear();
+        this.clearChanges();
+        this.grid = grid;
+        for (const row of grid) {
+            for (const cell of row) {
+                for (const actor of cell) {
+                    this.store(actor.id, this.unwrap(actor));
+                }
+            }
+        }
+    }
+
+    public set(id: string, value: CellContent): this {
+        const actor = this.unwrap(value);
+        const current = this.plain.get(id);
+        if (current === actor) return this;
+
+        if (current === undefined) {
+            const removedActor = this.removed.get(id);
+            if (removedActor) {
+                // Removed and put back in the same tick, so it is an update of the original.
+                this.recordChange(removedActor);
+                this.removed.delete(id);
+            } else {
+                this.added.add(id);
+            }
+        } else {
+            this.recordChange(current);
+        }
+        this.spatialHash.insert(this.store(id, actor));
+        return this;
+    }
+
+    public delete(id: string): boolean {
+        const actor = this.plain.get(id);
+        if (actor === undefined) return false;
+        if (this.added.has(id)) {
+            this.added.delete(id);
+        } else {
+            this.removed.set(id, actor);
+        }
+        this.plain.delete(id);
+        this.spatialHash.remove(id);
+        return super.delete(id);
+    }
+
+    /** The actors themselves rather than proxies, for building grids. */
+    public plainValues(): MapIterator<CellContent> {
+        return this.plain.values();
+    }
+
+    /** The actor as it was at the start of the tick, if it has changed since. */
+    public getSnapshot(id: string): CellContent | undefined {
+        return this.snapshots.get(id);
+    }
+
+    /**
+     * Returns the changes recorded since `startTick` as deltas and stops recording.
+     * Added actors are copied, so later changes to them do not alter the returned deltas.
+     */
+    public takeDeltas(): ActorDelta[] {
+        const deltas: ActorDelta[] = [];
+        for (const id of this.removed.keys()) {
+            deltas.push({ type: 'remove', id });
+        }
+        for (const [id, before] of this.snapshots) {
+            const actor = this.plain.get(id);
+            if (!actor || this.added.has(id)) continue;
+            const changes = diffActor(before, actor);
+            if (changes) deltas.push({ type: 'update', id, changes });
+        }
+        for (const id of this.added) {
+            deltas.push({ type: 'add', actor: cloneActor(this.plain.get(id)!) });
+        }
+        this.clearChanges();
+        this.grid = [];
+        return deltas;
+    }
+
+    private store(id: string, actor: CellContent): CellContent {
+        let proxy = this.proxies.get(actor);
+        if (!proxy) {
+            proxy = new Proxy(actor, this.handler);
+            this.proxies.set(actor, proxy);
+            this.targets.set(proxy, actor);
+        }
+        this.plain.set(id, actor);
+        super.set(id, proxy);
+        return proxy;
+    }
+
+    private clearChanges() {
+        this.snapshots.clear();
+        this.added.clear();
+        this.removed.clear();
+    }
+
+    private recordChange(actor: CellContent) {
+        const { id } = actor;
+        if (this.added.has(id) || this.snapshots.has(id)) return;
+        // Writes to an actor that has since been replaced, or left in an earlier tick, are not tracked.
+        if (this.plain.get(id) !== actor && this.removed.get(id) !== actor) return;
+
+        const snapshot = cloneActor(actor);
+        this.snapshots.set(id, snapshot);
+        const cell = this.grid[actor.y]?.[actor.x];
+        const index = cell ? cell.indexOf(actor) : -1;
+        if (index !== -1) cell[index] = snapshot;
+    }
+
+    private unwrap(actor: CellContent): CellContent {
+        return this.targets.get(actor) ?? actor;
+    }
+}
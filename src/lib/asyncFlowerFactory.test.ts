@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AsyncFlowerFactory } from './asyncFlowerFactory';
+import { DEFAULT_SIM_PARAMS, FLOWER_QUEUE_MAX_DEPTH } from '../constants';
+import { TerrainMap } from './terrain';
+import type { CellContent, Flower, FlowerCreationRequest, FlowerRequestPriority } from '../types';
+
+interface FakePort {
+    onmessage: ((e: MessageEvent) => void) | null;
+    requests: FlowerCreationRequest[];
+    postMessage: ReturnType<typeof vi.fn<(message: { type: string; payload?: any }) => void>>;
+    answer(requestId?: string): void;
+}
+
+// A fake genetics worker that holds on to requests until the test answers them.
+const createPort = () => {
+    const port: FakePort = {
+        onmessage: null as ((e: MessageEvent) => void) | null,
+        requests: [] as FlowerCreationRequest[],
+        postMessage: vi.fn((message: { type: string; payload?: any }) => {
+            if (message.type === 'request-flower') port.requests.push(message.payload);
+        }),
+        answer(requestId = port.requests[0]?.requestId) {
+            port.requests = port.requests.filter(r => r.requestId !== requestId);
+            const flower = { id: `flower-${requestId}`, type: 'flower', age: 0, maturationPeriod: 10, genome: 'g' } as Flower;
+            port.onmessage?.({ data: { type: 'flower-created', payload: { requestId, flower } } } as MessageEvent);
+        },
+    };
+    return port;
+};
+
+describe('AsyncFlowerFactory', () => {
+    let factory: AsyncFlowerFactory;
+    let actors: Map<string, CellContent>;
+    let idCounter: number;
+
+    const getNextId = (type: string) => `${type}-${idCounter++}`;
+    const request = (priority?: FlowerRequestPriority) => {
+        const seed = factory.requestNewFlower(actors, 0, 0, undefined, undefined, getNextId, priority);
+        if (seed) actors.set(seed.id, seed);
+        return seed;
+    };
+
+    beforeEach(() => {
+        factory = new AsyncFlowerFactory();
+        factory.setStemImage('stem');
+        actors = new Map();
+        idCounter = 0;
+    });
+
+    it('should give each worker one request at a time', () => {
+        const ports = [createPort(), createPort()];
+        factory.setFlowerWorkerPorts(ports, DEFAULT_SIM_PARAMS);
+        const seeds = [request(), request(), request()];
+
+        expect(ports.map(p => p.requests.map(r => r.requestId))).toEqual([[seeds[0]!.id], [seeds[1]!.id]]);
+        expect(factory.takeMetrics().depth).toBe(1);
+
+        ports[0].answer();
+        expect(ports[0].requests.map(r => r.requestId)).toEqual([seeds[2]!.id]);
+        expect(factory.getCompletedFlowers(actors).seedsToRemove).toEqual([seeds[0]!.id]);
+    });
+
+    it('should send each request with the terrain of its cell', () => {
+        const port = createPort();
+        factory.setFlowerWorkerPorts([port], DEFAULT_SIM_PARAMS);
+        const terrain = TerrainMap.fromData({ width: 2, height: 1, altitude: [0, 640], types: [0, 2] });
+        factory.setTerrain(terrain);
+        factory.requestNewFlower(actors, 1, 0, undefined, undefined, getNextId);
+
+        expect(port.requests[0].site).toEqual({ altitude: 640, terrainType: 2 });
+    });
+
+    it('should serve waiting requests by priority', () => {
+        const port = createPort();
+        factory.setFlowerWorkerPorts([port], DEFAULT_SIM_PARAMS);
+        request();
+        const expansion = request('expansion');
+        const pollination = request('pollination');
+        const planting = request('planting');
+
+        const served: string[] = [];
+        for (let i = 0; i < 3; i++) {
+            port.answer();
+            served.push(port.requests[0].requestId);
+        }
+        expect(served).toEqual([planting!.id, pollination!.id, expansion!.id]);
+    });
+
+    it('should send a cancelled request to no worker, or withdraw it from the one working on it', () => {
+        const port = createPort();
+        factory.setFlowerWorkerPorts([port], DEFAULT_SIM_PARAMS);
+        const first = request();
+        const second = request();
+
+        factory.cancelFlowerRequest(first!.id);
+        expect(port.postMessage).toHaveBeenCalledWith({ type: 'cancel-flower-request', payload: { requestId: first!.id } });
+        expect(port.requests[port.requests.length - 1].requestId).toBe(second!.id);
+
+        // A reply that was already on its way is dropped.
+        port.answer(first!.id);
+        expect(factory.getCompletedFlowers(actors).seedsToRemove).toEqual([]);
+    });
+
+    describe('when the queue is full', () => {
+        beforeEach(() => {
+            factory.setFlowerWorkerPorts([createPort()], DEFAULT_SIM_PARAMS);
+            for (let i = 0; i < FLOWER_QUEUE_MAX_DEPTH - 1; i++) request('pollination');
+        });
+
+        it('should turn away requests that do not outrank any outstanding one', () => {
+            request('pollination');
+            expect(request('expansion')).toBeNull();
+            expect(request('pollination')).toBeNull();
+            expect(factory.getPendingRequestCount()).toBe(FLOWER_QUEUE_MAX_DEPTH);
+        });
+
+        it('should fail the newest lowest-priority request to make room for a more important one', () => {
+            const expansion = request('expansion');
+            const planting = request('planting');
+
+            expect(planting).not.toBeNull();
+            expect(factory.getPendingRequestCount()).toBe(FLOWER_QUEUE_MAX_DEPTH);
+            const { seedsToRemove, flowersToAdd } = factory.getCompletedFlowers(actors);
+            expect(seedsToRemove).toEqual([expansion!.id]);
+            expect(flowersToAdd).toEqual([]);
+        });
+    });
+
+    it('should report the mean latency of the flowers finished since it was last asked', () => {
+        const now = vi.spyOn(performance, 'now').mockReturnValue(1000);
+        const port = createPort();
+        factory.setFlowerWorkerPorts([port], DEFAULT_SIM_PARAMS);
+        request();
+        request();
+
+        now.mockReturnValue(1040);
+        port.answer();
+        now.mockReturnValue(1060);
+        port.answer();
+
+        expect(factory.takeMetrics()).toMatchObject({ depth: 0, latencyMs: 50 });
+        expect(factory.takeMetrics().latencyMs).toBe(50);
+        now.mockRestore();
+    });
+
+    it('should report the genome cache hit rate of the workers', () => {
+        const port = createPort();
+        factory.setFlowerWorkerPorts([port], DEFAULT_SIM_PARAMS);
+        const seed = request();
+
+        port.onmessage?.({ data: { type: 'flower-creation-failed', payload: { requestId: seed!.id, cacheStats: { hits: 3, misses: 1 } } } } as MessageEvent);
+
+        expect(factory.takeMetrics().cacheHitRate).toBe(0.75);
+        expect(factory.getCompletedFlowers(actors).seedsToRemove).toEqual([seed!.id]);
+    });
+
+    describe('reevaluating living flowers', () => {
+        const flower = { id: 'flower-1-0', type: 'flower', x: 1, y: 0, genome: 'g' } as Flower;
+        const update = { flowerId: flower.id, genome: 'g', stats: { maxHealth: 80 } };
+        const answerReevaluation = (port: FakePort, updates: unknown[] = [update]) => {
+            const batches = port.postMessage.mock.calls.filter(([message]) => message.type === 'reevaluate-flowers');
+            const [{ payload }] = batches[batches.length - 1];
+            port.onmessage?.({ data: { type: 'flowers-reevaluated', payload: { batchId: payload.batchId, updates, cacheStats: { hits: 1, misses: 1 } } } } as MessageEvent);
+            return payload;
+        };
+
+        it('should send the flowers with the weather and their sites, one batch at a time', () => {
+            const port = createPort();
+            factory.setFlowerWorkerPorts([port], DEFAULT_SIM_PARAMS);
+            factory.setTerrain(TerrainMap.fromData({ width: 2, height: 1, altitude: [0, 640], types: [0, 2] }));
+
+            expect(factory.requestReevaluation([flower], 30, 0.4)).toBe(true);
+            expect(factory.requestReevaluation([flower], 30, 0.4)).toBe(false);
+            const payload = answerReevaluation(port);
+
+            expect(payload).toMatchObject({ temperature: 30, humidity: 0.4, flowers: [{ flowerId: flower.id, genome: 'g', site: { altitude: 640, terrainType: 2 } }] });
+            expect(factory.takeReevaluatedStats()).toEqual([update]);
+            expect(factory.takeReevaluatedStats()).toEqual([]);
+            expect(factory.takeMetrics().cacheHitRate).toBe(0.5);
+            expect(factory.requestReevaluation([flower], 30, 0.4)).toBe(true);
+        });
+
+        it('should hand over the new stats only once they are due in scheduled mode', async () => {
+            const port = createPort();
+            factory.setFlowerWorkerPorts([port], DEFAULT_SIM_PARAMS);
+            factory.setArrivalDelay(2);
+            factory.requestReevaluation([flower], 30, 0.4);
+            answerReevaluation(port);
+
+            factory.setCurrentTick(1);
+            expect(factory.takeReevaluatedStats()).toEqual([]);
+            factory.setCurrentTick(2);
+            await factory.waitForDueFlowers();
+            expect(factory.takeReevaluatedStats()).toEqual([update]);
+        });
+
+        it('should ignore answers to a batch dropped by a reset', () => {
+            const port = createPort();
+            factory.setFlowerWorkerPorts([port], DEFAULT_SIM_PARAMS);
+            factory.requestReevaluation([flower], 30, 0.4);
+            factory.reset();
+
+            answerReevaluation(port);
+            expect(factory.takeReevaluatedStats()).toEqual([]);
+        });
+
+        it('should send an unanswered batch again after restoring a snapshot', () => {
+            const port = createPort();
+            factory.setFlowerWorkerPorts([port], DEFAULT_SIM_PARAMS);
+            factory.requestReevaluation([flower], 30, 0.4);
+            const [{ payload: sent }] = port.postMessage.mock.calls.find(([message]) => message.type === 'reevaluate-flowers')!;
+
+            factory.restoreSnapshot(factory.getSnapshot());
+            const resent = answerReevaluation(port);
+            expect(resent.batchId).not.toBe(sent.batchId);
+            expect(resent.flowers).toEqual(sent.flowers);
+            expect(factory.takeReevaluatedStats()).toEqual([update]);
+        });
+    });
+});
@@ -1,28 +1,124 @@
-import type { Flower, FlowerSeed, SimulationParams, CellContent, FlowerCreationRequest } from '../types';
-import { SEED_HEALTH } from '../constants';
+import type { Flower, FlowerSeed, SimulationParams, CellContent, FlowerCreationRequest, FlowerRequestPriority, FlowerReevaluationRequest, FlowerStatsUpdate } from '../types';
+import { FLOWER_QUEUE_MAX_DEPTH, SEED_HEALTH } from '../constants';
+import { FlowerRequestQueue, priorityRank } from './flowerRequestQueue';
+import type { GenomeCacheStats } from './flowerGenomeCache';
+import type { TerrainMap } from './terrain';
 
 interface CompletedFlowerPayload {
     requestId: string;
     flower: Flower | null; // Flower can be null on creation failure
 }
 
+/**
+ * The channel the factory talks to the flower genetics backend through. In the browser this is
+ * the `MessagePort` to `flower.worker.ts`; headless runs use an in-process backend instead.
+ */
+export interface FlowerWorkerPort {
+    postMessage(message: { type: string; payload?: any }): void;
+    onmessage: ((e: MessageEvent) => void) | null;
+}
+
+// A genetics worker and the requests it is working on. Workers are handed one request at a
+// time, so that the queue rather than the worker decides which flower is bred next.
+interface FlowerWorker {
+    port: FlowerWorkerPort;
+    inFlight: Set<string>;
+}
+
+export interface FlowerFactoryMetrics {
+    depth: number; // Requests waiting for a free worker
+    latencyMs: number; // Mean time from request to finished flower, over the flowers finished since the last call
+    cacheHitRate: number; // Share of the workers' genome cache lookups that hit, over those since the last call
+}
+
 export interface CompletedFlowerResult {
     flowersToAdd: Flower[];
     seedsToRemove: string[];
+    deliveredGenomes: { requestId: string; genome: string }[];
+}
+
+// Bookkeeping for a request in tick-scheduled (seeded) mode.
+interface ScheduledRequest {
+    sequence: number; // Order in which the request was made, used to deliver flowers in a stable order.
+    readyTick: number; // First tick at which the flower is handed to the simulation.
+}
+
+// A batch of living flowers whose stats are being worked out again for the weather.
+interface PendingReevaluation {
+    request: FlowerReevaluationRequest;
+    readyTick: number | null; // In scheduled mode, the first tick at which the new stats are handed over
+    updates: FlowerStatsUpdate[] | null; // Null until the worker has answered
+}
+
+/**
+ * The factory's outstanding work at a point in time, so it can be resumed after a rewind.
+ */
+export interface FlowerFactorySnapshot {
+    requests: { request: FlowerCreationRequest; schedule: ScheduledRequest | null }[];
+    completed: CompletedFlowerPayload[];
+    requestSequence: number;
+    reevaluation: PendingReevaluation | null;
 }
 
+/**
+ * Breeds flowers on a pool of genetics workers on behalf of the simulation. Requests wait in a
+ * priority queue until a worker is free, and at most `FLOWER_QUEUE_MAX_DEPTH` can be outstanding.
+ */
 export class AsyncFlowerFactory {
-    private flowerWorkerPort: MessagePort | null = null;
+    private workers: FlowerWorker[] = [];
+    private waitingRequests = new FlowerRequestQueue();
     private completedFlowersQueue: CompletedFlowerPayload[] = [];
     private stemImageData: string | null = null;
     private pendingRequests = new Set<string>();
+    private requestPayloads = new Map<string, FlowerCreationRequest>();
 
-    public setFlowerWorkerPort(port: MessagePort, params: SimulationParams) {
-        this.flowerWorkerPort = port;
-        this.flowerWorkerPort.onmessage = (e: MessageEvent) => {
-            this.handleMessage(e.data);
-        };
-        this.flowerWorkerPort.postMessage({ type: 'update-params', payload: params });
+    // Tick-scheduled delivery. When `arrivalDelayTicks` is null flowers are delivered
+    // as soon as the worker returns them; otherwise every flower is delivered exactly
+    // `arrivalDelayTicks` ticks after it was requested, regardless of worker speed.
+    private arrivalDelayTicks: number | null = null;
+    private currentTick = 0;
+    private requestSequence = 0;
+    private scheduledRequests = new Map<string, ScheduledRequest>();
+    private arrivalWaiters: (() => void)[] = [];
+
+    // When replaying a recorded run, the genome each request produced originally, by request ID.
+    private genomeOverrides: Map<string, string> | null = null;
+
+    // The ground flowers are bred for; each request carries the terrain of its cell.
+    private terrain: TerrainMap | null = null;
+
+    // Wall-clock time each outstanding request was made, and the latencies measured since the last metrics were taken.
+    private requestedAt = new Map<string, number>();
+    private latencies: number[] = [];
+    private lastLatencyMs = 0;
+    private cacheStats: GenomeCacheStats = { hits: 0, misses: 0 };
+    private lastCacheHitRate = 0;
+
+    // At most one reevaluation batch is out at a time. Batch IDs are never reused, so answers
+    // to batches dropped by a reset or rewind can be told apart.
+    private reevaluation: PendingReevaluation | null = null;
+    private reevaluationSequence = 0;
+
+    /**
+     * Sets the workers to breed flowers on. Requests the previous workers were still
+     * working on go back in the queue.
+     */
+    public setFlowerWorkerPorts(ports: FlowerWorkerPort[], params: SimulationParams) {
+        for (const worker of this.workers) {
+            for (const requestId of worker.inFlight) {
+                const request = this.requestPayloads.get(requestId);
+                if (request) this.waitingRequests.push(request);
+            }
+        }
+        this.workers = ports.map(port => {
+            const worker: FlowerWorker = { port, inFlight: new Set() };
+            port.onmessage = (e: MessageEvent) => {
+                this.handleMessage(worker, e.data);
+            };
+            port.postMessage({ type: 'update-params', payload: params });
+            return worker;
+        });
+        this._dispatch();
     }
 
     public setStemImage(imageData: string) {
@@ -30,20 +126,166 @@ export class AsyncFlowerFactory {
     }
 
     public updateParams(params: SimulationParams) {
-        this.flowerWorkerPort?.postMessage({ type: 'update-params', payload: params });
+        this._broadcast({ type: 'update-params', payload: params });
+    }
+    
+    public setArrivalDelay(delayTicks: number | null) {
+        this.arrivalDelayTicks = delayTicks;
+    }
+
+    public setGenomeOverrides(genomes: Map<string, string> | null) {
+        this.genomeOverrides = genomes;
+    }
+
+    public setTerrain(terrain: TerrainMap | null) {
+        this.terrain = terrain;
+    }
+
+    public setCurrentTick(tick: number) {
+        this.currentTick = tick;
     }
     
     public reset() {
         this.completedFlowersQueue = [];
         this.pendingRequests.clear();
-        this.flowerWorkerPort?.postMessage({ type: 'cancel-all-requests' });
+        this.requestPayloads.clear();
+        this.scheduledRequests.clear();
+        this.requestSequence = 0;
+        this.waitingRequests.clear();
+        this.requestedAt.clear();
+        this.latencies = [];
+        this.reevaluation = null;
+        for (const worker of this.workers) worker.inFlight.clear();
+        this._notifyArrivalWaiters();
+        this._broadcast({ type: 'cancel-all-requests' });
     }
 
-    private handleMessage(data: { type: string, payload: any }) {
+    private handleMessage(worker: FlowerWorker, data: { type: string, payload: any }) {
         const { type, payload } = data;
-        if (type === 'flower-created' || type === 'flower-creation-failed') {
-            this.completedFlowersQueue.push(payload);
-            this.pendingRequests.delete(payload.requestId);
+        if (type === 'flowers-reevaluated') {
+            this._addCacheStats(payload.cacheStats);
+            const { reevaluation } = this;
+            if (!reevaluation || reevaluation.request.batchId !== payload.batchId) return;
+            reevaluation.updates = payload.updates;
+            this._notifyArrivalWaiters();
+        } else if (type === 'flower-created' || type === 'flower-creation-failed') {
+            const { cacheStats, ...completed } = payload as CompletedFlowerPayload & { cacheStats?: GenomeCacheStats };
+            this._addCacheStats(cacheStats);
+            // Replies to requests that were cancelled, or made before a reset, are dropped.
+            if (!worker.inFlight.delete(payload.requestId)) return;
+            this.completedFlowersQueue.push(completed);
+            const requestedAt = this.requestedAt.get(payload.requestId);
+            if (requestedAt !== undefined) {
+                this.latencies.push(performance.now() - requestedAt);
+                this.requestedAt.delete(payload.requestId);
+            }
+            // In scheduled mode a request stays pending until it is delivered to the simulation.
+            if (this.arrivalDelayTicks === null) {
+                this.pendingRequests.delete(payload.requestId);
+                this.requestPayloads.delete(payload.requestId);
+            }
+            this._notifyArrivalWaiters();
+            this._dispatch();
+        }
+    }
+
+    private _addCacheStats(stats: GenomeCacheStats | undefined) {
+        if (!stats) return;
+        this.cacheStats.hits += stats.hits;
+        this.cacheStats.misses += stats.misses;
+    }
+
+    private _broadcast(message: { type: string; payload?: any }) {
+        for (const worker of this.workers) worker.port.postMessage(message);
+    }
+
+    // Hands waiting requests to idle workers, highest priority first.
+    private _dispatch() {
+        for (const worker of this.workers) {
+            if (worker.inFlight.size > 0) continue;
+            const request = this.waitingRequests.shift();
+            if (!request) return;
+            worker.inFlight.add(request.requestId);
+            worker.port.postMessage({ type: 'request-flower', payload: request });
+        }
+    }
+
+    // Takes a request away from the queue or the worker it was handed to.
+    private _withdraw(requestId: string) {
+        if (this.waitingRequests.remove(requestId)) return;
+        for (const worker of this.workers) {
+            if (worker.inFlight.delete(requestId)) {
+                worker.port.postMessage({ type: 'cancel-flower-request', payload: { requestId } });
+                this._dispatch();
+                return;
+            }
+        }
+    }
+
+    /**
+     * Makes room for a request of the given priority once `FLOWER_QUEUE_MAX_DEPTH` requests are
+     * outstanding, by failing the newest request of the lowest priority below it. Returns false
+     * if every outstanding request matters as much, in which case the new one is turned away.
+     */
+    private _makeRoomFor(priority: FlowerRequestPriority): boolean {
+        if (this.pendingRequests.size < FLOWER_QUEUE_MAX_DEPTH) return true;
+
+        let victim: FlowerCreationRequest | null = null;
+        let victimRank = priorityRank(priority);
+        for (const request of this.requestPayloads.values()) {
+            const rank = priorityRank(request.priority);
+            if (rank >= victimRank && (victim || rank > victimRank)) {
+                victim = request;
+                victimRank = rank;
+            }
+        }
+        if (!victim) return false;
+
+        const { requestId } = victim;
+        this._withdraw(requestId);
+        this.completedFlowersQueue = this.completedFlowersQueue.filter(c => c.requestId !== requestId);
+        // With no schedule left, the failure is delivered on the next tick and takes the seed away.
+        this.completedFlowersQueue.push({ requestId, flower: null });
+        this.pendingRequests.delete(requestId);
+        this.requestPayloads.delete(requestId);
+        this.scheduledRequests.delete(requestId);
+        this.requestedAt.delete(requestId);
+        return true;
+    }
+
+    private _notifyArrivalWaiters() {
+        const waiters = this.arrivalWaiters;
+        this.arrivalWaiters = [];
+        waiters.forEach(resolve => resolve());
+    }
+
+    private _isDue(requestId: string): boolean {
+        const scheduled = this.scheduledRequests.get(requestId);
+        // Unscheduled results (e.g. for cancelled requests) are released immediately and discarded downstream.
+        return !scheduled || scheduled.readyTick <= this.currentTick;
+    }
+
+    private _hasOutstandingDueRequests(): boolean {
+        const { reevaluation } = this;
+        if (reevaluation && !reevaluation.updates && reevaluation.readyTick !== null && reevaluation.readyTick <= this.currentTick) {
+            return true;
+        }
+        for (const [requestId, scheduled] of this.scheduledRequests) {
+            if (scheduled.readyTick <= this.currentTick && !this.completedFlowersQueue.some(c => c.requestId === requestId)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * In scheduled mode, resolves once the worker has returned every flower, and any new
+     * stats, due on the current tick. Resolves immediately otherwise.
+     */
+    public async waitForDueFlowers(): Promise<void> {
+        if (this.arrivalDelayTicks === null) return;
+        while (this._hasOutstandingDueRequests()) {
+            await new Promise<void>(resolve => this.arrivalWaiters.push(resolve));
         }
     }
 
@@ -53,12 +295,14 @@ export class AsyncFlowerFactory {
         y: number,
         parentGenome1: string | undefined,
         parentGenome2: string | undefined,
-        getNextId: (type: string, x: number, y: number) => string
+        getNextId: (type: string, x: number, y: number) => string,
+        priority: FlowerRequestPriority = 'pollination'
     ): FlowerSeed | null {
-        if (!this.flowerWorkerPort || !this.stemImageData) {
+        if (this.workers.length === 0 || !this.stemImageData) {
             console.error("AsyncFlowerFactory not ready to request a new flower.");
             return null;
         }
+        if (!this._makeRoomFor(priority)) return null;
 
         let totalHealth = 0;
         let flowerCount = 0;
@@ -76,35 +320,133 @@ export class AsyncFlowerFactory {
         const flowerId = getNextId('flower', x, y);
         
         const requestPayload: FlowerCreationRequest = {
-            requestId, flowerId, x, y, parentGenome1, parentGenome2
+            requestId, flowerId, x, y, parentGenome1, parentGenome2, priority
         };
+        const genome = this.genomeOverrides?.get(requestId);
+        if (genome) requestPayload.genome = genome;
+        if (this.terrain) requestPayload.site = this.terrain.siteAt(x, y);
 
-        this.flowerWorkerPort.postMessage({
-            type: 'request-flower',
-            payload: requestPayload
-        });
-        
         this.pendingRequests.add(requestId);
+        this.requestPayloads.set(requestId, requestPayload);
+        this.requestedAt.set(requestId, performance.now());
+        if (this.arrivalDelayTicks !== null) {
+            this.scheduledRequests.set(requestId, { sequence: this.requestSequence++, readyTick: this.currentTick + this.arrivalDelayTicks });
+        }
+        this.waitingRequests.push(requestPayload);
+        this._dispatch();
 
         return { id: requestId, type: 'flowerSeed', x, y, imageData: this.stemImageData, health: seedHealth, maxHealth: seedHealth, age: 0 };
     }
     
     public cancelFlowerRequest(requestId: string) {
-        this.flowerWorkerPort?.postMessage({
-            type: 'cancel-flower-request',
-            payload: { requestId }
-        });
+        this._withdraw(requestId);
         // Immediately remove from pending set to update UI counter
         this.pendingRequests.delete(requestId);
+        this.requestPayloads.delete(requestId);
+        this.scheduledRequests.delete(requestId);
+        this.requestedAt.delete(requestId);
+        this._notifyArrivalWaiters();
+    }
+
+    /**
+     * Asks a worker to work out the stats of living flowers again for the given weather. In
+     * scheduled mode the new stats are handed over `arrivalDelayTicks` ticks later, like flowers.
+     * Returns false, without asking, while the previous batch is still out or with no workers.
+     */
+    public requestReevaluation(flowers: Flower[], temperature: number, humidity: number): boolean {
+        if (this.workers.length === 0 || this.reevaluation) return false;
+        const request: FlowerReevaluationRequest = {
+            batchId: `reevaluation-${this.reevaluationSequence++}`,
+            temperature,
+            humidity,
+            flowers: flowers.map(flower => ({ flowerId: flower.id, genome: flower.genome, site: this.terrain?.siteAt(flower.x, flower.y) })),
+        };
+        const readyTick = this.arrivalDelayTicks !== null ? this.currentTick + this.arrivalDelayTicks : null;
+        this.reevaluation = { request, readyTick, updates: null };
+        this._sendReevaluation(request);
+        return true;
+    }
+
+    // Goes to the least busy worker; it is worked out alongside that worker's breeding.
+    private _sendReevaluation(request: FlowerReevaluationRequest) {
+        const worker = this.workers.reduce((idlest, w) => w.inFlight.size < idlest.inFlight.size ? w : idlest);
+        worker.port.postMessage({ type: 'reevaluate-flowers', payload: request });
+    }
+
+    /** The new stats of the last batch, once they are in and due, or nothing. */
+    public takeReevaluatedStats(): FlowerStatsUpdate[] {
+        const { reevaluation } = this;
+        if (!reevaluation?.updates || (reevaluation.readyTick !== null && reevaluation.readyTick > this.currentTick)) return [];
+        this.reevaluation = null;
+        return reevaluation.updates;
+    }
+
+    public getSnapshot(): FlowerFactorySnapshot {
+        return structuredClone({
+            requests: Array.from(this.requestPayloads.values()).map(request => ({
+                request,
+                schedule: this.scheduledRequests.get(request.requestId) ?? null,
+            })),
+            completed: this.completedFlowersQueue,
+            requestSequence: this.requestSequence,
+            reevaluation: this.reevaluation,
+        });
+    }
+
+    /**
+     * Replaces all outstanding work with a snapshot. Requests whose flowers had not
+     * arrived yet are queued again under their original IDs, and a reevaluation batch
+     * that had not been answered is sent again under a new one.
+     */
+    public restoreSnapshot(snapshot: FlowerFactorySnapshot) {
+        this.reset();
+        const { requests, completed, requestSequence, reevaluation } = structuredClone(snapshot);
+        this.completedFlowersQueue = completed;
+        this.requestSequence = requestSequence;
+        if (reevaluation && (reevaluation.updates || this.workers.length > 0)) {
+            this.reevaluation = reevaluation;
+            if (!reevaluation.updates) {
+                reevaluation.request.batchId = `reevaluation-${this.reevaluationSequence++}`;
+                this._sendReevaluation(reevaluation.request);
+            }
+        }
+        const completedIds = new Set(completed.map(c => c.requestId));
+
+        for (const { request, schedule } of requests) {
+            this.pendingRequests.add(request.requestId);
+            this.requestPayloads.set(request.requestId, request);
+            if (schedule) this.scheduledRequests.set(request.requestId, schedule);
+            if (!completedIds.has(request.requestId)) {
+                this.requestedAt.set(request.requestId, performance.now());
+                this.waitingRequests.push(request);
+            }
+        }
+        this._dispatch();
     }
     
     public getCompletedFlowers(actorState: Map<string, CellContent>): CompletedFlowerResult {
-        const result: CompletedFlowerResult = { flowersToAdd: [], seedsToRemove: [] };
+        const result: CompletedFlowerResult = { flowersToAdd: [], seedsToRemove: [], deliveredGenomes: [] };
         if (this.completedFlowersQueue.length === 0) {
             return result;
         }
 
-        for (const { requestId, flower } of this.completedFlowersQueue) {
+        let deliverable = this.completedFlowersQueue;
+        if (this.arrivalDelayTicks !== null) {
+            deliverable = this.completedFlowersQueue.filter(c => this._isDue(c.requestId));
+            this.completedFlowersQueue = this.completedFlowersQueue.filter(c => !this._isDue(c.requestId));
+            // Deliver in request order, not in the order the worker happened to finish them.
+            const sequenceOf = (requestId: string) => this.scheduledRequests.get(requestId)?.sequence ?? -1;
+            deliverable.sort((a, b) => sequenceOf(a.requestId) - sequenceOf(b.requestId));
+            for (const { requestId } of deliverable) {
+                this.scheduledRequests.delete(requestId);
+                this.pendingRequests.delete(requestId);
+                this.requestPayloads.delete(requestId);
+            }
+        } else {
+            this.completedFlowersQueue = [];
+        }
+
+        for (const { requestId, flower } of deliverable) {
             const seed = actorState.get(requestId);
             if (seed && seed.type === 'flowerSeed') {
                 result.seedsToRemove.push(requestId);
@@ -114,15 +456,32 @@ export class AsyncFlowerFactory {
                         flower.isMature = true;
                     }
                     result.flowersToAdd.push(flower);
+                    result.deliveredGenomes.push({ requestId, genome: flower.genome });
                 }
             }
         }
 
-        this.completedFlowersQueue = [];
         return result;
     }
 
     public getPendingRequestCount(): number {
         return this.pendingRequests.size;
     }
+
+    /**
+     * The current queue depth, and the mean latency and genome cache hit rate since the last
+     * call. If no flowers were finished or looked up since, the previous figures are reported again.
+     */
+    public takeMetrics(): FlowerFactoryMetrics {
+        if (this.latencies.length > 0) {
+            this.lastLatencyMs = this.latencies.reduce((sum, ms) => sum + ms, 0) / this.latencies.length;
+            this.latencies = [];
+        }
+        const { hits, misses } = this.cacheStats;
+        if (hits + misses > 0) {
+            this.lastCacheHitRate = hits / (hits + misses);
+            this.cacheStats = { hits: 0, misses: 0 };
+        }
+        return { depth: this.waitingRequests.size, latencyMs: this.lastLatencyMs, cacheHitRate: this.lastCacheHitRate };
+    }
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import type { AntColony, Insect, CellContent, SimulationParams, AppEvent } from '../../types';
-import { INSECT_DATA } from '../../constants';
-import { findEmptyCell } from '../simulationUtils';
+import { buildGrid, findEmptyCell } from '../simulationUtils';
+import { random } from '../random';
+import { speciesRegistry } from '../speciesRegistry';
 
 interface AntColonyContext {
     nextActorState: Map<string, CellContent>;
@@ -12,14 +13,15 @@ interface AntColonyContext {
 }
 
 function createAntFromColony(colony: AntColony, position: {x: number, y: number}, params: SimulationParams, getNextId: (type: string, x: number, y: number) => string): Insect {
-    const baseStats = INSECT_DATA.get('🐜')!;
-    const newAntId = getNextId('insect-ant', position.x, position.y);
+    const species = speciesRegistry.getNestSpecies('colony')!;
+    const baseStats = species.stats;
+    const newAntId = getNextId(`insect-${speciesRegistry.getIdName(species.emoji)}`, position.x, position.y);
     
     // Inherit from colony, with mutation
     const newGenome = [...colony.genome];
     for (let i = 0; i < newGenome.length; i++) {
-        if (Math.random() < params.mutationChance) {
-            newGenome[i] *= 1 + (Math.random() * params.mutationAmount * 2) - params.mutationAmount;
+        if (random() < params.mutationChance) {
+            newGenome[i] *= 1 + (random() * params.mutationAmount * 2) - params.mutationAmount;
         }
     }
 
@@ -28,7 +30,7 @@ function createAntFromColony(colony: AntColony, position: {x: number, y: number}
         type: 'insect',
         x: position.x,
         y: position.y,
-        emoji: '🐜',
+        emoji: species.emoji,
         pollen: null,
         colonyId: colony.colonyId,
         colonyPosition: { x: colony.x, y: colony.y },
@@ -47,11 +49,7 @@ export const processAntColonyTick = (colony: AntColony, context: AntColonyContex
     // 1. Handle ants emerging from dormancy
     if (currentTemperature > params.antDormancyTemp && colony.storedAnts && colony.storedAnts > 0) {
         const spawnSpot = findEmptyCell(
-            Array.from({ length: params.gridHeight }, (_, y) => 
-                Array.from({ length: params.gridWidth }, (_, x) => 
-                    Array.from(nextActorState.values()).filter(a => a.x === x && a.y === y)
-                )
-            ), 
+            buildGrid(nextActorState.values(), params),
             params, 
             { x: colony.x, y: colony.y }
         );
@@ -67,11 +65,7 @@ export const processAntColonyTick = (colony: AntColony, context: AntColonyContex
     // 2. Spawn new ants if food reserves are high
     if (colony.foodReserves >= params.antColonySpawnThreshold && colony.spawnCooldown === 0) {
         const spawnSpot = findEmptyCell(
-            Array.from({ length: params.gridHeight }, (_, y) => 
-                Array.from({ length: params.gridWidth }, (_, x) => 
-                    Array.from(nextActorState.values()).filter(a => a.x === x && a.y === y)
-                )
-            ), 
+            buildGrid(nextActorState.values(), params),
             params, 
             { x: colony.x, y: colony.y }
         );
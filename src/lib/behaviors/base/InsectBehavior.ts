@@ -1,14 +1,18 @@
 import type { Insect, Cockroach, Flower, InsectBehaviorContext } from '../../../types';
 import { 
     INSECT_HEALTH_DECAY_PER_TICK,
-    INSECT_DATA,
     CORPSE_DECAY_TIME,
     SLIME_TRAIL_SLOW_FACTOR,
     FOOD_VALUE_CORPSE,
     INSECT_POLLINATION_CHANCE,
+    INSECT_STAMINA_REGEN_PER_TICK,
+    NOCTURNAL_SPEED_BONUS,
 } from '../../../constants';
-import { neighborVectors, scoreFlower, findCellForFlowerSpawn, getActorsOnCell } from '../../simulationUtils';
-import { Rectangle } from '../../Quadtree';
+import { neighborVectors, scoreFlower, findCellForFlowerSpawn } from '../../simulationUtils';
+import { random } from '../../random';
+import { fertilisationChance } from '../../flowerSex';
+import { speciesRegistry } from '../../speciesRegistry';
+import { isInfected } from '../../disease';
 
 const INSECT_VISION_RANGE = 5;
 
@@ -26,6 +30,15 @@ export abstract class InsectBehavior {
      */
     abstract update(insect: Insect | Cockroach, context: InsectBehaviorContext): void;
 
+    /**
+     * Called instead of `update` for diurnal species at night. By default the insect stays
+     * where it is and gets its stamina back.
+     */
+    public rest(insect: Insect | Cockroach, context: InsectBehaviorContext): void {
+        if (this.handleHealthAndDeath(insect, context)) return;
+        insect.stamina = Math.min(insect.maxStamina, insect.stamina + INSECT_STAMINA_REGEN_PER_TICK);
+    }
+
     /**
      * Handles the health decay and potential death of an insect at the start of its turn.
      * @returns `true` if the insect died, `false` otherwise.
@@ -34,15 +47,17 @@ export abstract class InsectBehavior {
         insect.health -= INSECT_HEALTH_DECAY_PER_TICK;
         if (insect.health <= 0) {
             context.nextActorState.delete(insect.id);
-            const corpseId = `corpse-${insect.x}-${insect.y}-${Date.now()}`;
-            const baseStats = INSECT_DATA.get(insect.emoji);
+            const corpseId = context.getNextId('corpse', insect.x, insect.y);
+            const baseStats = speciesRegistry.getStats(insect.emoji);
             const foodValue = baseStats ? baseStats.maxHealth : FOOD_VALUE_CORPSE;
+            const diedInfected = isInfected(insect);
             context.nextActorState.set(corpseId, { 
                 id: corpseId, type: 'corpse', x: insect.x, y: insect.y, 
                 originalEmoji: insect.emoji, decayTimer: CORPSE_DECAY_TIME,
-                foodValue: foodValue 
+                foodValue: foodValue,
+                ...(diedInfected && { isInfectious: true }),
             });
-            context.events.push({ message: `💀 A ${insect.emoji} died.`, type: 'info', importance: 'low' });
+            context.events.push({ message: `💀 A ${insect.emoji} died${diedInfected ? ' of the disease' : ''}.`, type: 'info', importance: 'low' });
             context.incrementInsectsDiedOfOldAge();
             return true;
         }
@@ -50,19 +65,14 @@ export abstract class InsectBehavior {
     }
 
     protected findFlowerOnCell(x: number, y: number, context: InsectBehaviorContext): Flower | undefined {
-         return getActorsOnCell(context.qtree, context.nextActorState, x, y).find(
-            (actor) => actor.type === 'flower'
-        ) as Flower | undefined;
+        return context.spatialHash.getOnCell(x, y, 'flower')[0];
    }
 
     /**
      * Finds the best flower target for an insect based on its genome.
      */
     protected findBestFlowerTarget(insect: Insect | Cockroach, context: InsectBehaviorContext): Flower | null {
-        const vision = new Rectangle(insect.x, insect.y, INSECT_VISION_RANGE, INSECT_VISION_RANGE);
-        const nearbyFlowers = context.flowerQtree.query(vision)
-            .map(p => p.data as Flower)
-            .filter(f => context.nextActorState.has(f.id));
+        const nearbyFlowers = context.spatialHash.within(insect.x, insect.y, INSECT_VISION_RANGE, 'flower');
 
         if (nearbyFlowers.length === 0) {
             return null;
@@ -75,21 +85,31 @@ export abstract class InsectBehavior {
     }
 
     /**
-     * Moves the insect towards a target coordinate, respecting its speed and slime trails.
+     * Moves the insect towards a target coordinate, respecting its speed, the terrain and slime trails.
+     * Nocturnal species are faster at night.
+     * Flying insects head straight for the target; others walk the path the pathfinder finds around
+     * obstacles, and ants follow their colony's trails where they can.
      * @returns `true` if the insect moved, `false` otherwise.
      */
     protected moveTowards(insect: Insect | Cockroach, target: { x: number, y: number }, context: InsectBehaviorContext): boolean {
-        const baseStats = INSECT_DATA.get(insect.emoji)!;
+        const species = speciesRegistry.get(insect.emoji)!;
         
-        let effectiveSpeed = baseStats.speed;
+        let speed = species.stats.speed;
         // Snails are immune to slime, other insects are slowed.
         if (insect.emoji !== '🐌') {
             const cell = context.grid[insect.y][insect.x];
             if (cell.some(a => a.type === 'slimeTrail')) {
-                effectiveSpeed *= SLIME_TRAIL_SLOW_FACTOR;
+                speed *= SLIME_TRAIL_SLOW_FACTOR;
             }
         }
-        
+        if (context.isNight && species.activity === 'nocturnal') {
+            speed *= NOCTURNAL_SPEED_BONUS;
+        }
+
+        return species.flies ? this.flyTowards(insect, target, speed * context.terrain.speedFactorAt(insect.x, insect.y), context) : this.walkTowards(insect, target, speed, context);
+    }
+
+    private flyTowards(insect: Insect | Cockroach, target: { x: number, y: number }, effectiveSpeed: number, context: InsectBehaviorContext): boolean {
         const dx = target.x - insect.x;
         const dy = target.y - insect.y;
         const distance = Math.hypot(dx, dy);
@@ -116,17 +136,37 @@ export abstract class InsectBehavior {
         return false;
     }
 
+    // Takes steps along the path while the insect's speed covers their cost. The terrain's
+    // cost is part of each step, and an insect always manages at least one step.
+    private walkTowards(insect: Insect | Cockroach, target: { x: number, y: number }, speed: number, context: InsectBehaviorContext): boolean {
+        const colonyId = 'colonyId' in insect ? insect.colonyId : undefined;
+        let budget = speed;
+        let moved = false;
+        for (;;) {
+            const step = context.pathfinder.nextStep(insect, target, colonyId);
+            if (!step || (moved && step.cost > budget)) break;
+            budget -= step.cost;
+            insect.x = step.x;
+            insect.y = step.y;
+            moved = true;
+        }
+        return moved;
+    }
+
     /**
      * Executes a random "wander" move to a neighboring cell, respecting slime trails.
+     * Insects that walk keep out of cells they cannot enter.
      * @returns `true` if the insect moved, `false` if it was unable to find a valid cell.
      */
     protected wander(insect: Insect | Cockroach, context: InsectBehaviorContext): boolean {
         // Wandering is not affected by slime, as it's a single-cell move.
-        const moves = neighborVectors.sort(() => Math.random() - 0.5);
+        const walks = !speciesRegistry.get(insect.emoji)?.flies;
+        const moves = [...neighborVectors].sort(() => random() - 0.5);
         for (const [dx, dy] of moves) {
             const potentialX = insect.x + dx;
             const potentialY = insect.y + dy;
-            if (potentialX >= 0 && potentialX < context.params.gridWidth && potentialY >= 0 && potentialY < context.params.gridHeight) {
+            if (potentialX >= 0 && potentialX < context.params.gridWidth && potentialY >= 0 && potentialY < context.params.gridHeight
+                && !(walks && context.pathfinder.isBlocked(potentialX, potentialY))) {
                 insect.x = potentialX;
                 insect.y = potentialY;
                 return true;
@@ -137,7 +177,8 @@ export abstract class InsectBehavior {
 
     protected handlePollination(insect: Insect, flower: Flower, context: InsectBehaviorContext) {
         const { pollen } = insect;
-        if (pollen && pollen.sourceFlowerId !== flower.id && flower.isMature && Math.random() < INSECT_POLLINATION_CHANCE) {
+        const chance = pollen && flower.isMature ? INSECT_POLLINATION_CHANCE * fertilisationChance(pollen.sourceFlowerId, pollen.sex, flower) : 0;
+        if (pollen && chance > 0 && random() < chance) {
             const spawnSpot = findCellForFlowerSpawn(context.grid, context.params, { x: flower.x, y: flower.y }, context.claimedCellsThisTick);
             if (spawnSpot) {
                 const seed = context.asyncFlowerFactory.requestNewFlower(context.nextActorState, spawnSpot.x, spawnSpot.y, flower.genome, pollen.genome, context.getNextId);
@@ -1,8 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { processBirdTick } from './birdBehavior';
 import type { Bird, Insect, Grid, CellContent, AppEvent, Flower, Egg, Cocoon } from '../../types';
-import { Quadtree, Rectangle } from '../Quadtree';
-import { DEFAULT_SIM_PARAMS, INSECT_DATA } from '../../constants';
+import { SpatialHash } from '../SpatialHash';
+import { PathfindingService } from '../pathfinding';
+import { DEFAULT_SIM_PARAMS } from '../../constants';
+import { speciesRegistry } from '../speciesRegistry';
 
 describe('birdBehavior', () => {
     let bird: Bird;
@@ -13,9 +15,8 @@ describe('birdBehavior', () => {
     let incrementCocoonsEaten: () => void;
     let getNextId: (type: string, x: number, y: number) => string;
     let grid: Grid;
-    let qtree: Quadtree<CellContent>;
-    let flowerQtree: Quadtree<CellContent>;
-    const mockInsectStats = INSECT_DATA.get('🦋')!;
+    let spatialHash: SpatialHash;
+    const mockInsectStats = speciesRegistry.getStats('🦋')!;
 
     const createMockInsect = (id: string, x: number, y: number): Insect => ({
         id, type: 'insect', x, y, emoji: '🦋', pollen: null,
@@ -36,15 +37,15 @@ describe('birdBehavior', () => {
         incrementCocoonsEaten = vi.fn();
         getNextId = vi.fn((type, x, y) => `${type}-${x}-${y}`);
         grid = Array.from({ length: DEFAULT_SIM_PARAMS.gridHeight }, () => Array.from({ length: DEFAULT_SIM_PARAMS.gridWidth }, () => []));
-        qtree = new Quadtree(new Rectangle(DEFAULT_SIM_PARAMS.gridWidth / 2, DEFAULT_SIM_PARAMS.gridHeight / 2, DEFAULT_SIM_PARAMS.gridWidth / 2, DEFAULT_SIM_PARAMS.gridHeight / 2), 4);
-        flowerQtree = new Quadtree(new Rectangle(DEFAULT_SIM_PARAMS.gridWidth / 2, DEFAULT_SIM_PARAMS.gridHeight / 2, DEFAULT_SIM_PARAMS.gridWidth / 2, DEFAULT_SIM_PARAMS.gridHeight / 2), 4);
+        spatialHash = new SpatialHash(DEFAULT_SIM_PARAMS.gridWidth, DEFAULT_SIM_PARAMS.gridHeight);
     });
 
     const setupContext = () => ({
         grid,
         params: DEFAULT_SIM_PARAMS,
-        qtree,
-        flowerQtree,
+        spatialHash,
+        pathfinder: new PathfindingService(DEFAULT_SIM_PARAMS.gridWidth, DEFAULT_SIM_PARAMS.gridHeight),
+        wind: { direction: 'N' as const, strength: 0 },
         nextActorState,
         events,
         incrementInsectsEaten,
@@ -60,8 +61,8 @@ describe('birdBehavior', () => {
         grid[9][9].push(farInsect);
         nextActorState.set(closeInsect.id, closeInsect);
         nextActorState.set(farInsect.id, farInsect);
-        qtree.insert({ x: 7, y: 7, data: closeInsect });
-        qtree.insert({ x: 9, y: 9, data: farInsect });
+        spatialHash.insert(closeInsect);
+        spatialHash.insert(farInsect);
         
         processBirdTick(bird, setupContext());
 
@@ -77,8 +78,8 @@ describe('birdBehavior', () => {
         grid[8][8].push(unprotectedInsect);
         nextActorState.set(protectedInsect.id, protectedInsect);
         nextActorState.set(unprotectedInsect.id, unprotectedInsect);
-        qtree.insert({ x: 6, y: 6, data: protectedInsect });
-        qtree.insert({ x: 8, y: 8, data: unprotectedInsect });
+        spatialHash.insert(protectedInsect);
+        spatialHash.insert(unprotectedInsect);
 
         processBirdTick(bird, setupContext());
 
@@ -87,7 +88,7 @@ describe('birdBehavior', () => {
 
     it('should find a patrol target if no prey is nearby', () => {
         const flower = { id: 'flower1', type: 'flower', x: 10, y: 8 } as Flower;
-        flowerQtree.insert({ x: flower.x, y: flower.y, data: flower });
+        spatialHash.insert(flower);
         
         processBirdTick(bird, setupContext());
 
@@ -99,7 +100,7 @@ describe('birdBehavior', () => {
         const targetInsect = createMockInsect('insect-target', 8, 8);
         grid[8][8].push(targetInsect);
         nextActorState.set(targetInsect.id, targetInsect);
-        qtree.insert({ x: 8, y: 8, data: targetInsect });
+        spatialHash.insert(targetInsect);
 
         bird.target = { x: 8, y: 8 };
         processBirdTick(bird, setupContext());
@@ -123,7 +124,7 @@ describe('birdBehavior', () => {
         
         grid[6][6].push(targetInsect);
         nextActorState.set(targetInsect.id, targetInsect);
-        qtree.insert({ x: 6, y: 6, data: targetInsect });
+        spatialHash.insert(targetInsect);
 
         processBirdTick(bird, setupContext());
 
@@ -151,7 +152,7 @@ describe('birdBehavior', () => {
         
         grid[6][6].push(targetEgg);
         nextActorState.set(targetEgg.id, targetEgg);
-        qtree.insert({ x: 6, y: 6, data: targetEgg });
+        spatialHash.insert(targetEgg);
 
         processBirdTick(bird, setupContext());
 
@@ -174,8 +175,8 @@ describe('birdBehavior', () => {
         grid[8][8].push(egg);
         nextActorState.set(cocoon.id, cocoon);
         nextActorState.set(egg.id, egg);
-        qtree.insert({ x: 7, y: 7, data: cocoon });
-        qtree.insert({ x: 8, y: 8, data: egg });
+        spatialHash.insert(cocoon);
+        spatialHash.insert(egg);
 
         processBirdTick(bird, setupContext());
 
@@ -189,7 +190,7 @@ describe('birdBehavior', () => {
         
         grid[6][6].push(targetCocoon);
         nextActorState.set(targetCocoon.id, targetCocoon);
-        qtree.insert({ x: 6, y: 6, data: targetCocoon });
+        spatialHash.insert(targetCocoon);
 
         processBirdTick(bird, setupContext());
 
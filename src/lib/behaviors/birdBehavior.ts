@@ -1,15 +1,19 @@
-import type { Bird, Insect, Egg, Nutrient, CellContent, Grid, SimulationParams, AppEvent, Flower, Cocoon } from '../../types';
-import { Quadtree, Rectangle } from '../Quadtree';
+import type { Bird, Insect, Egg, Nutrient, CellContent, Grid, SimulationParams, AppEvent, Cocoon, Wind } from '../../types';
+import type { SpatialHash } from '../SpatialHash';
+import type { PathfindingService } from '../pathfinding';
 import { BIRD_DROP_NUTRIENT_CHANCE, NUTRIENT_LIFESPAN } from '../../constants';
-import { findCellForStationaryActor, getActorsOnCell } from '../simulationUtils';
+import { findCellForStationaryActor } from '../simulationUtils';
+import { random } from '../random';
+import { windDrift } from '../wind';
 
 const BIRD_VISION_RANGE = 7;
 
 export interface BirdContext {
     grid: Grid;
     params: SimulationParams;
-    qtree: Quadtree<CellContent>;
-    flowerQtree: Quadtree<CellContent>;
+    spatialHash: SpatialHash;
+    pathfinder: PathfindingService;
+    wind: Wind;
     nextActorState: Map<string, CellContent>;
     events: AppEvent[];
     incrementInsectsEaten: () => void;
@@ -19,87 +23,35 @@ export interface BirdContext {
 }
 
 export const processBirdTick = (bird: Bird, context: BirdContext) => {
-    const { grid, params, qtree, flowerQtree, nextActorState, events, incrementInsectsEaten, incrementEggsEaten, incrementCocoonsEaten, getNextId } = context;
+    const { grid, params, spatialHash, pathfinder, wind, nextActorState, events, incrementInsectsEaten, incrementEggsEaten, incrementCocoonsEaten, getNextId } = context;
     const { gridWidth, gridHeight } = params;
     const { x, y } = bird;
     let moved = false;
 
     // 1. Find a prey target if we don't have one
     if (!bird.target) {
-        const vision = new Rectangle(x, y, BIRD_VISION_RANGE, BIRD_VISION_RANGE);
-        const nearbyPoints = qtree.query(vision);
-        
-        // Priority 1: Find unprotected insects
-        const nearbyInsects = nearbyPoints
-            .map(p => p.data)
-            .filter(a => {
-                if (a?.type !== 'insect' || !nextActorState.has(a.id)) return false;
-                const isProtected = grid[a.y][a.x].some(c => c.type === 'flower');
-                return !isProtected;
-            }) as Insect[];
+        const isUnprotected = (a: CellContent) => nextActorState.has(a.id) && !grid[a.y][a.x].some(c => c.type === 'flower');
 
-        if (nearbyInsects.length > 0) {
-            const closestInsect = nearbyInsects.reduce((closest, insect) => {
-               const dist = Math.hypot(x - insect.x, y - insect.y);
-               return (dist < closest.dist) ? { insect, dist } : closest;
-            }, { insect: null as Insect | null, dist: Infinity }).insect;
-            
-            if (closestInsect) {
-                bird.target = { x: closestInsect.x, y: closestInsect.y };
-            }
-        } else {
-            // Priority 2: Find unprotected cocoons
-            const nearbyCocoons = nearbyPoints
-                .map(p => p.data)
-                .filter(a => {
-                    if (a?.type !== 'cocoon' || !nextActorState.has(a.id)) return false;
-                    const isProtected = grid[a.y][a.x].some(c => c.type === 'flower');
-                    return !isProtected;
-                }) as Cocoon[];
-            
-            if (nearbyCocoons.length > 0) {
-                 const closestCocoon = nearbyCocoons.reduce((closest, cocoon) => {
-                    const dist = Math.hypot(x - cocoon.x, y - cocoon.y);
-                    return (dist < closest.dist) ? { cocoon, dist } : closest;
-                 }, { cocoon: null as Cocoon | null, dist: Infinity }).cocoon;
-                 
-                 if (closestCocoon) {
-                     bird.target = { x: closestCocoon.x, y: closestCocoon.y };
-                 }
-            } else {
-                // Priority 3: Find unprotected eggs if no insects or cocoons are available
-                const nearbyEggs = nearbyPoints
-                    .map(p => p.data)
-                    .filter(a => {
-                        if (a?.type !== 'egg' || !nextActorState.has(a.id)) return false;
-                        const isProtected = grid[a.y][a.x].some(c => c.type === 'flower');
-                        return !isProtected;
-                    }) as Egg[];
-                
-                if (nearbyEggs.length > 0) {
-                     const closestEgg = nearbyEggs.reduce((closest, egg) => {
-                        const dist = Math.hypot(x - egg.x, y - egg.y);
-                        return (dist < closest.dist) ? { egg, dist } : closest;
-                     }, { egg: null as Egg | null, dist: Infinity }).egg;
-                     
-                     if (closestEgg) {
-                         bird.target = { x: closestEgg.x, y: closestEgg.y };
-                     }
-                }
-            }
+        // Prefer unprotected insects, then cocoons, then eggs
+        const prey = spatialHash.nearest(x, y, 'insect', BIRD_VISION_RANGE, isUnprotected)
+            ?? spatialHash.nearest(x, y, 'cocoon', BIRD_VISION_RANGE, isUnprotected)
+            ?? spatialHash.nearest(x, y, 'egg', BIRD_VISION_RANGE, isUnprotected);
+
+        if (prey) {
+            bird.target = { x: prey.x, y: prey.y };
         }
     }
     
-    // 2. Move towards prey target and attack
+    // 2. Walk up to the prey on the ground, around any obstacles, and attack
     if (bird.target) {
-        const targetCellContent = getActorsOnCell(qtree, nextActorState, bird.target.x, bird.target.y);
+        const targetCellContent = spatialHash.getOnCell(bird.target.x, bird.target.y);
         const targetActor = targetCellContent.find(c => (c.type === 'insect' || c.type === 'egg' || c.type === 'cocoon')) as Insect | Egg | Cocoon | undefined;
+        const onTarget = x === bird.target.x && y === bird.target.y;
+        const step = onTarget ? { x, y } : pathfinder.nextStep(bird, bird.target);
         
-        if (targetActor && nextActorState.has(targetActor.id)) {
-            const dx = Math.sign(bird.target.x - x);
-            const dy = Math.sign(bird.target.y - y);
-            const newX = x + dx; 
-            const newY = y + dy;
+        if (targetActor && nextActorState.has(targetActor.id) && step) {
+            const newX = step.x;
+            const newY = step.y;
 
             if (newX === bird.target.x && newY === bird.target.y) { // Attack
                 nextActorState.delete(targetActor.id);
@@ -135,7 +87,7 @@ export const processBirdTick = (bird: Bird, context: BirdContext) => {
                 moved = true;
             }
         } else {
-            bird.target = null; // Target is gone
+            bird.target = null; // Target is gone, or out of reach
         }
     }
 
@@ -146,9 +98,9 @@ export const processBirdTick = (bird: Bird, context: BirdContext) => {
         }
 
         if (!bird.patrolTarget) {
-            const allFlowers = flowerQtree.query(new Rectangle(gridWidth / 2, gridHeight / 2, gridWidth / 2, gridHeight / 2)).map(p => p.data as Flower);
+            const allFlowers = spatialHash.ofType('flower').sort((a, b) => a.id.localeCompare(b.id));
             if (allFlowers.length > 0) {
-                const randomFlower = allFlowers[Math.floor(Math.random() * allFlowers.length)];
+                const randomFlower = allFlowers[Math.floor(random() * allFlowers.length)];
                 bird.patrolTarget = { x: randomFlower.x, y: randomFlower.y };
             }
         }
@@ -158,7 +110,7 @@ export const processBirdTick = (bird: Bird, context: BirdContext) => {
             dx = Math.sign(bird.patrolTarget.x - x);
             dy = Math.sign(bird.patrolTarget.y - y);
         } else {
-            const moves = [[0,1], [0,-1], [1,0], [-1,0]].sort(() => Math.random() - 0.5);
+            const moves = [[0,1], [0,-1], [1,0], [-1,0]].sort(() => random() - 0.5);
             [dx, dy] = moves[0];
         }
         
@@ -168,10 +120,17 @@ export const processBirdTick = (bird: Bird, context: BirdContext) => {
             bird.x = newX;
             bird.y = newY;
         }
+
+        // Birds in flight are blown off course by the wind.
+        const drift = windDrift(bird, wind, params);
+        if (drift && !grid[drift.y][drift.x].some(c => c.type === 'bird')) {
+            bird.x = drift.x;
+            bird.y = drift.y;
+        }
     }
 
     // 4. Drop random nutrient
-    if (Math.random() < BIRD_DROP_NUTRIENT_CHANCE) {
+    if (random() < BIRD_DROP_NUTRIENT_CHANCE) {
          const pos = findCellForStationaryActor(grid, params, 'nutrient');
          if (pos) {
             const nutrientId = getNextId('nutrient', pos.x, pos.y);
@@ -1,8 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { processCocoonTick } from './cocoonBehavior';
 import type { Cocoon, CellContent, AppEvent, Insect } from '../../types';
-import { DEFAULT_SIM_PARAMS, INSECT_DATA } from '../../constants';
-import { ACTOR_NAMES } from '../../utils';
+import { DEFAULT_SIM_PARAMS } from '../../constants';
+import { speciesRegistry } from '../speciesRegistry';
 
 describe('cocoonBehavior', () => {
     let cocoon: Cocoon;
@@ -43,12 +43,12 @@ describe('cocoonBehavior', () => {
         expect(newButterfly?.emoji).toBe('🦋');
         expect(newButterfly?.genome).toEqual([1,2,3]);
         
-        const baseStats = INSECT_DATA.get('🦋')!;
+        const baseStats = speciesRegistry.getStats('🦋')!;
         expect(newButterfly?.health).toBe(baseStats.maxHealth);
         expect(newButterfly?.stamina).toBe(baseStats.maxStamina);
 
         expect(events.length).toBe(1);
         expect(events[0].message).toContain('butterfly has emerged');
-        expect(mockGetNextId).toHaveBeenCalledWith(ACTOR_NAMES['🦋'].toLowerCase(), cocoon.x, cocoon.y);
+        expect(mockGetNextId).toHaveBeenCalledWith(speciesRegistry.getIdName('🦋'), cocoon.x, cocoon.y);
     });
 });
@@ -1,6 +1,5 @@
 import type { Cocoon, CellContent, Insect, AppEvent } from '../../types';
-import { INSECT_DATA } from '../../constants';
-import { ACTOR_NAMES } from '../../utils';
+import { speciesRegistry } from '../speciesRegistry';
 
 interface CocoonContext {
     nextActorState: Map<string, CellContent>;
@@ -15,13 +14,13 @@ export const processCocoonTick = (cocoon: Cocoon, context: CocoonContext) => {
     if (cocoon.hatchTimer <= 0) {
         nextActorState.delete(cocoon.id);
         
-        const baseStats = INSECT_DATA.get('🦋');
+        const baseStats = speciesRegistry.getStats('🦋');
         if (!baseStats) {
             console.error(`Could not find base stats for butterfly emoji: 🦋`);
             return;
         }
 
-        const newButterflyId = getNextId(ACTOR_NAMES['🦋'].toLowerCase(), cocoon.x, cocoon.y);
+        const newButterflyId = getNextId(speciesRegistry.getIdName('🦋'), cocoon.x, cocoon.y);
         const newButterfly: Insect = {
             id: newButterflyId,
             type: 'insect',
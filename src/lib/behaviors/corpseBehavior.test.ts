@@ -1,21 +1,27 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { processCorpseTick } from './corpseBehavior';
-import type { Corpse, CellContent, Nutrient } from '../../types';
-import { CORPSE_DECAY_TIME, NUTRIENT_FROM_OLD_AGE_LIFESPAN, FOOD_VALUE_CORPSE } from '../../constants';
+import type { Corpse, CellContent, Nutrient, Insect, AppEvent } from '../../types';
+import { CORPSE_DECAY_TIME, NUTRIENT_FROM_OLD_AGE_LIFESPAN, FOOD_VALUE_CORPSE, DEFAULT_SIM_PARAMS } from '../../constants';
+import { SpatialHash } from '../SpatialHash';
 
 describe('corpseBehavior', () => {
     let corpse: Corpse;
     let nextActorState: Map<string, CellContent>;
+    let spatialHash: SpatialHash;
+    let events: AppEvent[];
     const mockGetNextId = vi.fn();
 
     beforeEach(() => {
         corpse = { id: 'corpse1', type: 'corpse', x: 1, y: 1, originalEmoji: '🦋', decayTimer: CORPSE_DECAY_TIME, foodValue: FOOD_VALUE_CORPSE };
         nextActorState = new Map();
         nextActorState.set(corpse.id, corpse);
+        spatialHash = new SpatialHash(DEFAULT_SIM_PARAMS.gridWidth, DEFAULT_SIM_PARAMS.gridHeight);
+        spatialHash.insert(corpse);
+        events = [];
         mockGetNextId.mockClear().mockReturnValue('new-nutrient-id');
     });
 
-    const setupContext = () => ({ nextActorState, getNextId: mockGetNextId });
+    const setupContext = () => ({ nextActorState, spatialHash, params: DEFAULT_SIM_PARAMS, events, getNextId: mockGetNextId });
 
     it('should decrement the decay timer', () => {
         corpse.decayTimer = 5;
@@ -43,4 +49,19 @@ describe('corpseBehavior', () => {
         processCorpseTick(corpse, setupContext());
         expect(nextActorState.has(corpse.id)).toBe(false);
     });
+
+    it('should pass the disease on to insects on its cell if it died infected', () => {
+        const ant = { id: 'ant1', type: 'insect', emoji: '🐜', x: 1, y: 1, health: 80 } as Insect;
+        nextActorState.set(ant.id, ant);
+        spatialHash.insert(ant);
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+
+        processCorpseTick(corpse, setupContext());
+        expect(ant.infectionTimer).toBeUndefined();
+
+        corpse.isInfectious = true;
+        processCorpseTick(corpse, setupContext());
+        expect(ant.infectionTimer).toBe(DEFAULT_SIM_PARAMS.diseaseDuration);
+        vi.restoreAllMocks();
+    });
 });
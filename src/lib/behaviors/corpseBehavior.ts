@@ -1,13 +1,26 @@
-import type { Corpse, CellContent, Nutrient } from '../../types';
+import type { Corpse, CellContent, Nutrient, SimulationParams, AppEvent } from '../../types';
 import { NUTRIENT_FROM_OLD_AGE_LIFESPAN } from '../../constants';
+import type { SpatialHash } from '../SpatialHash';
+import { exposeToDisease } from '../disease';
 
 interface CorpseContext {
     nextActorState: Map<string, CellContent>;
+    spatialHash: SpatialHash;
+    params: SimulationParams;
+    events: AppEvent[];
     getNextId: (type: string, x: number, y: number) => string;
 }
 
 export const processCorpseTick = (corpse: Corpse, context: CorpseContext) => {
-    const { nextActorState, getNextId } = context;
+    const { nextActorState, spatialHash, params, events, getNextId } = context;
+
+    // The corpse of an infected insect keeps the disease alive, passing it to insects on its cell.
+    if (corpse.isInfectious) {
+        const hosts = [...spatialHash.getOnCell(corpse.x, corpse.y, 'insect'), ...spatialHash.getOnCell(corpse.x, corpse.y, 'cockroach')];
+        for (const host of hosts) {
+            if (nextActorState.has(host.id)) exposeToDisease(host, 1, spatialHash, params, events);
+        }
+    }
     
     corpse.decayTimer--;
     if (corpse.decayTimer <= 0) {
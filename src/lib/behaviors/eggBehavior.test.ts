@@ -1,8 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { processEggTick } from './eggBehavior';
 import type { Egg, CellContent, AppEvent, Bird, Insect } from '../../types';
-import { DEFAULT_SIM_PARAMS, INSECT_DATA } from '../../constants';
-import { ACTOR_NAMES } from '../../utils';
+import { DEFAULT_SIM_PARAMS } from '../../constants';
+import { speciesRegistry } from '../speciesRegistry';
 
 describe('eggBehavior', () => {
     let egg: Egg;
@@ -49,14 +49,14 @@ describe('eggBehavior', () => {
         expect(newInsect?.y).toBe(egg.y);
         expect(newInsect?.genome).toEqual(mockGenome);
         
-        const baseStats = INSECT_DATA.get(egg.insectEmoji)!;
+        const baseStats = speciesRegistry.getStats(egg.insectEmoji)!;
         expect(newInsect?.health).toBe(baseStats.maxHealth);
         expect(newInsect?.stamina).toBe(baseStats.maxStamina);
 
         expect(events.length).toBe(1);
         expect(events[0].message).toBe('🐣 An insect has hatched!');
         expect(incrementInsectsBorn).toHaveBeenCalledTimes(1);
-        expect(mockGetNextId).toHaveBeenCalledWith(ACTOR_NAMES[egg.insectEmoji].toLowerCase(), egg.x, egg.y);
+        expect(mockGetNextId).toHaveBeenCalledWith(speciesRegistry.getIdName(egg.insectEmoji), egg.x, egg.y);
     });
     
     it('should not hatch if a bird is on the same cell', () => {
@@ -1,6 +1,5 @@
 import type { Egg, CellContent, Insect, AppEvent, SimulationParams } from '../../types';
-import { INSECT_DATA } from '../../constants';
-import { ACTOR_NAMES } from '../../utils';
+import { speciesRegistry } from '../speciesRegistry';
 
 interface EggContext {
     nextActorState: Map<string, CellContent>;
@@ -17,13 +16,13 @@ export const processEggTick = (egg: Egg, context: EggContext) => {
     if (egg.hatchTimer <= 0) {
         nextActorState.delete(egg.id);
         
-        const baseStats = INSECT_DATA.get(egg.insectEmoji);
+        const baseStats = speciesRegistry.getStats(egg.insectEmoji);
         if (!baseStats) {
             console.error(`Could not find base stats for emoji: ${egg.insectEmoji}`);
             return;
         }
 
-        const typeName = (ACTOR_NAMES[egg.insectEmoji] || 'insect').toLowerCase();
+        const typeName = speciesRegistry.getIdName(egg.insectEmoji);
         const newInsectId = getNextId(typeName, egg.x, egg.y);
         const newInsect: Insect = {
             id: newInsectId,
@@ -3,6 +3,7 @@ import { processFlowerTick, processFlowerSeedTick } from './flowerBehavior';
 import type { Flower, Grid, CellContent, FlowerSeed } from '../../types';
 import { DEFAULT_SIM_PARAMS, FLOWER_STAMINA_COST_PER_TICK, FLOWER_TICK_COST_MULTIPLIER, FLOWER_EXPANSION_CHANCE, PROXIMITY_POLLINATION_CHANCE, SEED_HEALTH } from '../../constants';
 import { AsyncFlowerFactory } from '../asyncFlowerFactory';
+import { SoilMoistureMap } from '../soilMoisture';
 
 vi.mock('../asyncFlowerFactory');
 
@@ -47,6 +48,8 @@ describe('flowerBehavior', () => {
         params: DEFAULT_SIM_PARAMS,
         asyncFlowerFactory: mockAsyncFlowerFactory,
         currentTemperature: DEFAULT_SIM_PARAMS.temperature, // Default to a neutral temperature
+        soilMoisture: SoilMoistureMap.uniform(15, 15, 0.5),
+        wind: { direction: DEFAULT_SIM_PARAMS.windDirection, strength: DEFAULT_SIM_PARAMS.windStrength },
         nextActorState: new Map<string, CellContent>(),
         claimedCellsThisTick,
         getNextId,
@@ -67,6 +70,15 @@ describe('flowerBehavior', () => {
         expect(flower.health).toBeLessThan(initialHealth);
     });
 
+    it('should lose health to the blight', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0.99);
+        flower.isBlighted = true;
+        processFlowerTick(flower, setupContext(), newActorQueue);
+        expect(flower.health).toBe(mockFlower.health - DEFAULT_SIM_PARAMS.blightHealthDamage);
+        expect(flower.isBlighted).toBe(true);
+        vi.restoreAllMocks();
+    });
+
     it('should double stamina cost when temperature is outside optimal range', () => {
         const context = setupContext();
         context.currentTemperature = flower.maxTemperature + 5; // Outside range
@@ -78,12 +90,23 @@ describe('flowerBehavior', () => {
         expect(flower.stamina).toBe(initialStamina - expectedCost);
     });
 
+    it('should spend more stamina on dry ground', () => {
+        const context = setupContext();
+        context.soilMoisture = SoilMoistureMap.uniform(15, 15, 0);
+        const initialStamina = flower.stamina;
+
+        processFlowerTick(flower, context, newActorQueue);
+
+        const expectedCost = FLOWER_STAMINA_COST_PER_TICK * FLOWER_TICK_COST_MULTIPLIER * 2;
+        expect(flower.stamina).toBe(initialStamina - expectedCost);
+    });
+
     it('should trigger expansion, queue a new FlowerSeed, and claim the cell', () => {
         vi.spyOn(Math, 'random').mockReturnValue(FLOWER_EXPANSION_CHANCE / 2);
         const context = setupContext();
         processFlowerTick(flower, context, newActorQueue);
         expect(requestNewFlower).toHaveBeenCalled();
-        expect(requestNewFlower).toHaveBeenCalledWith(context.nextActorState, expect.any(Number), expect.any(Number), flower.genome, undefined, expect.any(Function));
+        expect(requestNewFlower).toHaveBeenCalledWith(context.nextActorState, expect.any(Number), expect.any(Number), flower.genome, undefined, expect.any(Function), 'expansion');
         expect(newActorQueue.length).toBe(1);
         
         const createdSeed = newActorQueue[0] as FlowerSeed;
@@ -112,6 +135,26 @@ describe('flowerBehavior', () => {
         vi.spyOn(Math, 'random').mockRestore();
     });
 
+    it('should only pollinate by proximity from a flower that makes pollen to one that sets seed', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(PROXIMITY_POLLINATION_CHANCE / 2);
+        const maleNeighbor: Flower = { ...mockFlower, id: 'flower2', x: 5, y: 6, genome: 'g2', sex: 'male' };
+        grid[6][5].push(maleNeighbor);
+
+        flower.sex = 'female';
+        processFlowerTick(flower, setupContext(), newActorQueue);
+        expect(requestNewFlower).not.toHaveBeenCalled();
+
+        flower.sex = 'male';
+        processFlowerTick(flower, setupContext(), newActorQueue);
+        expect(requestNewFlower).not.toHaveBeenCalled();
+
+        maleNeighbor.sex = 'female';
+        processFlowerTick(flower, setupContext(), newActorQueue);
+        expect(requestNewFlower).toHaveBeenCalledTimes(1);
+
+        vi.spyOn(Math, 'random').mockRestore();
+    });
+
     it('should not attempt to expand into a cell that is already claimed', () => {
         // Fill the entire grid with blocker flowers
         for (let y = 0; y < grid.length; y++) {
@@ -162,6 +205,8 @@ describe('flowerBehavior', () => {
             params: DEFAULT_SIM_PARAMS,
             asyncFlowerFactory: mockAsyncFlowerFactory,
             currentTemperature: DEFAULT_SIM_PARAMS.temperature,
+            soilMoisture: SoilMoistureMap.uniform(15, 15, 0.5),
+            wind: { direction: DEFAULT_SIM_PARAMS.windDirection, strength: DEFAULT_SIM_PARAMS.windStrength },
             nextActorState,
             claimedCellsThisTick: new Set<string>(), // Not used by seed tick, but required by context type
             getNextId,
@@ -1,4 +1,4 @@
-import type { Flower, SimulationParams, Grid, CellContent, FlowerSeed } from '../../types';
+import type { Flower, SimulationParams, Grid, CellContent, FlowerSeed, Wind } from '../../types';
 import { 
     FLOWER_TICK_COST_MULTIPLIER, 
     FLOWER_STAMINA_COST_PER_TICK, 
@@ -9,12 +9,18 @@ import {
 } from '../../constants';
 import { findCellForFlowerSpawn, neighborVectors, windVectors } from '../simulationUtils';
 import type { AsyncFlowerFactory } from '../asyncFlowerFactory';
+import type { SoilMoistureMap } from '../soilMoisture';
+import { random } from '../random';
+import { progressBlight } from '../blight';
+import { fertilisationChance, makesPollen } from '../flowerSex';
 
 export interface FlowerContext {
     params: SimulationParams;
     grid: Grid; // The original grid from the start of the tick
     asyncFlowerFactory: AsyncFlowerFactory;
     currentTemperature: number;
+    soilMoisture: SoilMoistureMap;
+    wind: Wind;
     nextActorState: Map<string, CellContent>;
     claimedCellsThisTick: Set<string>; // New: Tracks cells claimed for spawning in the current tick
     getNextId: (type: string, x: number, y: number) => string;
@@ -25,8 +31,8 @@ export const processFlowerTick = (
     context: FlowerContext,
     newActorQueue: CellContent[]
 ) => {
-    const { params, grid, asyncFlowerFactory, currentTemperature, nextActorState, claimedCellsThisTick, getNextId } = context;
-    const { gridWidth, gridHeight, windDirection, windStrength } = params;
+    const { params, grid, asyncFlowerFactory, currentTemperature, soilMoisture, wind, nextActorState, claimedCellsThisTick, getNextId } = context;
+    const { gridWidth, gridHeight } = params;
 
     flower.age++;
     if (flower.age > flower.maturationPeriod) {
@@ -40,12 +46,14 @@ export const processFlowerTick = (
     if (currentTemperature < flower.minTemperature || currentTemperature > flower.maxTemperature) {
         staminaCost *= 2; // Double stamina cost if outside optimal temperature range
     }
+    staminaCost *= soilMoisture.staminaFactorAt(flower.x, flower.y);
 
     if (flower.stamina > 0) {
         flower.stamina -= staminaCost;
     } else {
         flower.health -= healthCost;
     }
+    progressBlight(flower, params);
 
     if (flower.health <= 0) {
         nextActorState.delete(flower.id);
@@ -57,11 +65,11 @@ export const processFlowerTick = (
         let hasReproducedThisTick = false;
         
         // 1. Asexual Expansion (one check per flower)
-        if (Math.random() < FLOWER_EXPANSION_CHANCE) {
+        if (random() < FLOWER_EXPANSION_CHANCE) {
             const spawnSpot = findCellForFlowerSpawn(grid, params, { x: flower.x, y: flower.y }, claimedCellsThisTick);
 
             if (spawnSpot) {
-                const seed = asyncFlowerFactory.requestNewFlower(nextActorState, spawnSpot.x, spawnSpot.y, flower.genome, undefined, getNextId);
+                const seed = asyncFlowerFactory.requestNewFlower(nextActorState, spawnSpot.x, spawnSpot.y, flower.genome, undefined, getNextId, 'expansion');
                 if (seed) {
                     newActorQueue.push(seed);
                     claimedCellsThisTick.add(`flower-${spawnSpot.x}-${spawnSpot.y}`);
@@ -70,12 +78,13 @@ export const processFlowerTick = (
             }
         }
 
-        // 2. Proximity Pollination (one check per flower)
-        if (!hasReproducedThisTick && Math.random() < PROXIMITY_POLLINATION_CHANCE) {
+        // 2. Proximity Pollination (one check per flower); the flower's pollen sets seed on a neighbour
+        const canPollinate = makesPollen(flower.sex);
+        if (!hasReproducedThisTick && canPollinate && random() < PROXIMITY_POLLINATION_CHANCE) {
             const matureNeighbors = neighborVectors
                 .map(([dx, dy]) => grid[flower.y + dy]?.[flower.x + dx]?.find(c => c.type === 'flower') as Flower | undefined)
-                .filter((f): f is Flower => !!f && f.isMature)
-                .sort(() => 0.5 - Math.random());
+                .filter((f): f is Flower => !!f && f.isMature && fertilisationChance(flower.id, flower.sex, f) > 0)
+                .sort(() => 0.5 - random());
 
             if (matureNeighbors.length > 0) {
                 const partner = matureNeighbors[0];
@@ -91,16 +100,16 @@ export const processFlowerTick = (
             }
         }
 
-        // 3. Wind Pollination (one check per flower)
-        if (!hasReproducedThisTick && Math.random() < WIND_POLLINATION_CHANCE) {
-            const { dx, dy } = windVectors[windDirection];
-            for (let i = 1; i <= windStrength; i++) {
+        // 3. Wind Pollination (one check per flower); stronger winds carry pollen further
+        if (!hasReproducedThisTick && canPollinate && random() < WIND_POLLINATION_CHANCE) {
+            const { dx, dy } = windVectors[wind.direction];
+            for (let i = 1; i <= Math.round(wind.strength); i++) {
                 const targetX = flower.x + i * dx;
                 const targetY = flower.y + i * dy;
                 if (targetX < 0 || targetX >= gridWidth || targetY < 0 || targetY >= gridHeight) break;
                 
                 const targetFlower = grid[targetY][targetX]?.find(c => c.type === 'flower') as Flower | undefined;
-                if (targetFlower?.isMature) {
+                if (targetFlower?.isMature && fertilisationChance(flower.id, flower.sex, targetFlower) > 0) {
                     const spawnSpot = findCellForFlowerSpawn(grid, params, {x: targetX, y: targetY}, claimedCellsThisTick);
                     if (spawnSpot) {
                          const seed = asyncFlowerFactory.requestNewFlower(nextActorState, spawnSpot.x, spawnSpot.y, flower.genome, targetFlower.genome, getNextId);
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { processHerbicidePlaneTick } from './herbicidePlaneBehavior';
 import type { HerbicidePlane, CellContent, Grid, SimulationParams } from '../../types';
 import { DEFAULT_SIM_PARAMS } from '../../constants';
+import { SpatialHash } from '../SpatialHash';
 
 describe('herbicidePlaneBehavior', () => {
     let plane: HerbicidePlane;
@@ -26,6 +27,7 @@ describe('herbicidePlaneBehavior', () => {
         grid,
         params,
         nextActorState,
+        spatialHash: SpatialHash.fromActors(nextActorState.values(), params),
         getNextId: mockGetNextId,
     });
 
@@ -1,14 +1,16 @@
 import type { HerbicidePlane, HerbicideSmoke, CellContent, Grid, SimulationParams } from '../../types';
+import type { SpatialHash } from '../SpatialHash';
 
 export interface HerbicidePlaneContext {
     grid: Grid;
     params: SimulationParams;
     nextActorState: Map<string, CellContent>;
+    spatialHash: SpatialHash;
     getNextId: (type: string, x: number, y: number) => string;
 }
 
 export const processHerbicidePlaneTick = (plane: HerbicidePlane, context: HerbicidePlaneContext) => {
-    const { nextActorState, params, getNextId } = context;
+    const { nextActorState, spatialHash, params, getNextId } = context;
     const { gridWidth, gridHeight, herbicideSmokeLifespan } = params;
     const { x, y, dx, dy, turnDx, turnDy } = plane;
 
@@ -23,7 +25,7 @@ export const processHerbicidePlaneTick = (plane: HerbicidePlane, context: Herbic
         canBeExpanded: params.herbicideSmokeExpansionCount,
     };
     // Add smoke only if the cell doesn't have one already to avoid stacking
-    if (!Array.from(nextActorState.values()).some(a => a.x === x && a.y === y && a.type === 'herbicideSmoke')) {
+    if (spatialHash.getOnCell(x, y, 'herbicideSmoke').length === 0) {
         nextActorState.set(smokeId, newSmoke);
     }
     
@@ -1,9 +1,9 @@
 import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
 import { processHerbicideSmokeTick } from './herbicideSmokeBehavior';
-import type { HerbicideSmoke, Flower, CellContent, Grid, SimulationParams, FlowerSeed } from '../../types';
+import type { HerbicideSmoke, Flower, CellContent, Grid, SimulationParams, FlowerSeed, Wind } from '../../types';
 import { DEFAULT_SIM_PARAMS } from '../../constants';
 import { AsyncFlowerFactory } from '../asyncFlowerFactory';
-import { Quadtree, Rectangle } from '../Quadtree';
+import { SpatialHash } from '../SpatialHash';
 
 vi.mock('../asyncFlowerFactory');
 
@@ -12,7 +12,7 @@ describe('herbicideSmokeBehavior', () => {
     let flower: Flower;
     let nextActorState: Map<string, CellContent>;
     let grid: Grid;
-    let qtree: Quadtree<CellContent>;
+    let spatialHash: SpatialHash;
     const params: SimulationParams = { ...DEFAULT_SIM_PARAMS, gridWidth: 5, gridHeight: 5, herbicideDamage: 25 };
     let mockAsyncFlowerFactory: AsyncFlowerFactory;
     let cancelFlowerRequest: Mock;
@@ -38,23 +38,23 @@ describe('herbicideSmokeBehavior', () => {
         nextActorState = new Map();
         nextActorState.set(smoke.id, smoke);
         nextActorState.set(flower.id, flower);
-        
-        const boundary = new Rectangle(params.gridWidth / 2, params.gridHeight / 2, params.gridWidth / 2, params.gridHeight / 2);
-        qtree = new Quadtree(boundary, 4);
-        qtree.insert({ x: smoke.x, y: smoke.y, data: smoke });
-        qtree.insert({ x: flower.x, y: flower.y, data: flower });
+        spatialHash = new SpatialHash(params.gridWidth, params.gridHeight);
+        spatialHash.insert(smoke);
+        spatialHash.insert(flower);
         
         cancelFlowerRequest = vi.fn();
         mockAsyncFlowerFactory = new (AsyncFlowerFactory as any)();
         mockAsyncFlowerFactory.cancelFlowerRequest = cancelFlowerRequest;
     });
 
-    const setupContext = () => ({
+    const setupContext = (wind: Wind = { direction: 'N', strength: 0 }) => ({
         grid,
         params,
         nextActorState,
         asyncFlowerFactory: mockAsyncFlowerFactory,
-        qtree,
+        spatialHash,
+        wind,
+        getNextId: (type: string, x: number, y: number) => `${type}-${x}-${y}`,
     });
 
     it('should apply damage to flowers in the same cell', () => {
@@ -70,6 +70,12 @@ describe('herbicideSmokeBehavior', () => {
         expect(smoke.canBeExpanded >= 0).toBe(true);
     });
 
+    it('should only expand downwind when the wind blows', () => {
+        processHerbicideSmokeTick(smoke, setupContext({ direction: 'E', strength: 2 }));
+        const newSmokes = Array.from(nextActorState.values()).filter(a => a.type === 'herbicideSmoke' && a.id !== smoke.id);
+        expect(newSmokes.map(s => [s.x, s.y]).sort()).toEqual([[3, 1], [3, 2], [3, 3]]);
+    });
+
     it('should not expand on subsequent ticks', () => {
         smoke.canBeExpanded = 0;
         processHerbicideSmokeTick(smoke, setupContext());
@@ -102,7 +108,7 @@ describe('herbicideSmokeBehavior', () => {
         };
         nextActorState.set(seed.id, seed);
         grid[2][2].push(seed);
-        qtree.insert({ x: seed.x, y: seed.y, data: seed });
+        spatialHash.insert(seed);
 
         processHerbicideSmokeTick(smoke, setupContext());
 
@@ -1,22 +1,26 @@
-import type { HerbicideSmoke, CellContent, Grid, SimulationParams, Flower, FlowerSeed } from '../../types';
-import { getActorsOnCell, neighborVectors } from '../simulationUtils';
+import type { HerbicideSmoke, CellContent, Grid, SimulationParams, Flower, FlowerSeed, Wind } from '../../types';
+import { neighborVectors } from '../simulationUtils';
+import { isDownwind } from '../wind';
+import { WIND_CALM_STRENGTH } from '../../constants';
 import type { AsyncFlowerFactory } from '../asyncFlowerFactory';
-import type { Quadtree } from '../Quadtree';
+import type { SpatialHash } from '../SpatialHash';
 
 export interface HerbicideSmokeContext {
     grid: Grid;
     params: SimulationParams;
     nextActorState: Map<string, CellContent>;
     asyncFlowerFactory: AsyncFlowerFactory;
-    qtree: Quadtree<CellContent>;
+    spatialHash: SpatialHash;
+    wind: Wind;
+    getNextId: (type: string, x: number, y: number) => string;
 }
 
 export const processHerbicideSmokeTick = (smoke: HerbicideSmoke, context: HerbicideSmokeContext) => {
-    const { nextActorState, params, asyncFlowerFactory, qtree } = context;
+    const { nextActorState, params, asyncFlowerFactory, spatialHash, wind, getNextId } = context;
     const { gridWidth, gridHeight, herbicideDamage, herbicideSmokeLifespan } = params;
 
     // 1. Apply damage to flowers and seeds in the same cell
-    const actorsOnCell = getActorsOnCell(qtree, nextActorState, smoke.x, smoke.y);
+    const actorsOnCell = spatialHash.getOnCell(smoke.x, smoke.y);
     const vulnerableInCell = actorsOnCell
         .filter(a => a.type === 'flower' || a.type === 'flowerSeed') as (Flower | FlowerSeed)[];
     
@@ -30,20 +34,19 @@ export const processHerbicideSmokeTick = (smoke: HerbicideSmoke, context: Herbic
         }
     }
 
-    // 2. Expand to neighbors if it hasn't already
+    // 2. Expand to neighbors if it hasn't already; the wind carries it downwind unless it is calm
     if (smoke.canBeExpanded > 0) {
-        neighborVectors.forEach(([dx, dy]) => {
+        const isCalm = wind.strength < WIND_CALM_STRENGTH;
+        neighborVectors.filter(([dx, dy]) => isCalm || isDownwind(dx, dy, wind)).forEach(([dx, dy]) => {
             const nx = smoke.x + dx;
             const ny = smoke.y + dy;
 
             if (nx >= 0 && nx < gridWidth && ny >= 0 && ny < gridHeight) {
                 // Check if a smoke cloud already exists at the new position
-                const alreadyExists = Array.from(nextActorState.values()).some(
-                    (actor) => actor.x === nx && actor.y === ny && actor.type === 'herbicideSmoke'
-                );
+                const alreadyExists = spatialHash.getOnCell(nx, ny, 'herbicideSmoke').length > 0;
 
                 if (!alreadyExists) {
-                    const neighborSmokeId = `smoke-${nx}-${ny}-${Date.now()}`;
+                    const neighborSmokeId = getNextId('smoke', nx, ny);
                     const newNeighborSmoke: HerbicideSmoke = {
                         id: neighborSmokeId,
                         type: 'herbicideSmoke',
@@ -33,6 +33,7 @@ describe('hiveBehavior', () => {
         newActorQueue,
         params,
         currentTemperature: params.temperature,
+        isNight: false,
         getNextId,
     });
 
@@ -131,6 +132,18 @@ describe('hiveBehavior', () => {
         expect(newActorQueue.length).toBe(0);
     });
 
+    it('should keep its bees in through the night', () => {
+        const context = setupContext();
+        context.currentTemperature = params.beeDormancyTemp + 1;
+        context.isNight = true;
+        hive.storedBees = 1;
+
+        processHiveTick(hive, context);
+
+        expect(hive.storedBees).toBe(1);
+        expect(newActorQueue.length).toBe(0);
+    });
+
     it('should not release a stored bee if there are no empty adjacent cells', () => {
         const context = setupContext();
         context.currentTemperature = params.beeDormancyTemp + 1;
@@ -1,6 +1,7 @@
 import type { Hive, Insect, CellContent, SimulationParams, AppEvent } from '../../types';
-import { INSECT_DATA } from '../../constants';
-import { findEmptyCell } from '../simulationUtils';
+import { buildGrid, findEmptyCell } from '../simulationUtils';
+import { random } from '../random';
+import { speciesRegistry } from '../speciesRegistry';
 
 interface HiveContext {
     nextActorState: Map<string, CellContent>;
@@ -8,18 +9,20 @@ interface HiveContext {
     newActorQueue: CellContent[];
     params: SimulationParams;
     currentTemperature: number;
+    isNight: boolean;
     getNextId: (type: string, x: number, y: number) => string;
 }
 
 function createBeeFromHive(hive: Hive, position: {x: number, y: number}, params: SimulationParams, getNextId: (type: string, x: number, y: number) => string): Insect {
-    const baseStats = INSECT_DATA.get('🐝')!;
-    const newBeeId = getNextId('insect-honeybee', position.x, position.y);
+    const species = speciesRegistry.getNestSpecies('hive')!;
+    const baseStats = species.stats;
+    const newBeeId = getNextId(`insect-${speciesRegistry.getIdName(species.emoji)}`, position.x, position.y);
     
     // Inherit from hive, with mutation
     const newGenome = [...hive.genome];
     for (let i = 0; i < newGenome.length; i++) {
-        if (Math.random() < params.mutationChance) {
-            newGenome[i] *= 1 + (Math.random() * params.mutationAmount * 2) - params.mutationAmount;
+        if (random() < params.mutationChance) {
+            newGenome[i] *= 1 + (random() * params.mutationAmount * 2) - params.mutationAmount;
         }
     }
 
@@ -28,7 +31,7 @@ function createBeeFromHive(hive: Hive, position: {x: number, y: number}, params:
         type: 'insect',
         x: position.x,
         y: position.y,
-        emoji: '🐝',
+        emoji: species.emoji,
         pollen: null,
         hiveId: hive.hiveId,
         hivePosition: { x: hive.x, y: hive.y },
@@ -42,16 +45,12 @@ function createBeeFromHive(hive: Hive, position: {x: number, y: number}, params:
 }
 
 export const processHiveTick = (hive: Hive, context: HiveContext) => {
-    const { nextActorState, events, newActorQueue, params, currentTemperature, getNextId } = context;
+    const { nextActorState, events, newActorQueue, params, currentTemperature, isNight, getNextId } = context;
     
-    // 1. Handle bees emerging from dormancy
-    if (currentTemperature > params.beeDormancyTemp && hive.storedBees && hive.storedBees > 0) {
+    // 1. Handle bees emerging from dormancy, or from their rest once the night is over
+    if (currentTemperature > params.beeDormancyTemp && !isNight && hive.storedBees && hive.storedBees > 0) {
         const spawnSpot = findEmptyCell(
-            Array.from({ length: params.gridHeight }, (_, y) => 
-                Array.from({ length: params.gridWidth }, (_, x) => 
-                    Array.from(nextActorState.values()).filter(a => a.x === x && a.y === y)
-                )
-            ), 
+            buildGrid(nextActorState.values(), params),
             params, 
             { x: hive.x, y: hive.y }
         );
@@ -60,7 +59,7 @@ export const processHiveTick = (hive: Hive, context: HiveContext) => {
             hive.storedBees--;
             const newBee = createBeeFromHive(hive, spawnSpot, params, getNextId);
             newActorQueue.push(newBee);
-            events.push({ message: `🐝 A bee emerged from its hive as the weather warmed.`, type: 'info', importance: 'low' });
+            events.push({ message: `🐝 A bee emerged from its hive.`, type: 'info', importance: 'low' });
         }
     }
 
@@ -72,12 +71,7 @@ export const processHiveTick = (hive: Hive, context: HiveContext) => {
     // 3. Spawn new bees if honey reserves are high
     if (hive.honey >= params.hiveSpawnThreshold && hive.spawnCooldown === 0) {
         const spawnSpot = findEmptyCell(
-            // A bit inefficient, but needed to find a spot for the bee
-            Array.from({ length: params.gridHeight }, (_, y) => 
-                Array.from({ length: params.gridWidth }, (_, x) => 
-                    Array.from(nextActorState.values()).filter(a => a.x === x && a.y === y)
-                )
-            ), 
+            buildGrid(nextActorState.values(), params),
             params, 
             { x: hive.x, y: hive.y }
         );
@@ -1,144 +1,48 @@
-import { describe, it, expect, vi, beforeEach, beforeAll } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
 import { processInsectTick } from './insectBehavior';
+import { speciesRegistry } from '../speciesRegistry';
+import { DefaultInsectBehavior } from './specialized/DefaultInsectBehavior';
 import type { Insect, Cockroach, CellContent } from '../../types';
 import type { InsectBehaviorContext } from '../../types';
-
-// Mock the specialized behavior modules
-vi.mock('./specialized/DefaultInsectBehavior', () => {
-    const DefaultInsectBehavior = vi.fn();
-    DefaultInsectBehavior.prototype.update = vi.fn();
-    return { DefaultInsectBehavior };
-});
-vi.mock('./specialized/CockroachBehavior', () => {
-    const CockroachBehavior = vi.fn();
-    CockroachBehavior.prototype.update = vi.fn();
-    return { CockroachBehavior };
-});
-vi.mock('./specialized/CaterpillarBehavior', () => {
-    const CaterpillarBehavior = vi.fn();
-    CaterpillarBehavior.prototype.update = vi.fn();
-    return { CaterpillarBehavior };
-});
-vi.mock('./specialized/ButterflyBehavior', () => {
-    const ButterflyBehavior = vi.fn();
-    ButterflyBehavior.prototype.update = vi.fn();
-    return { ButterflyBehavior };
-});
-vi.mock('./specialized/SnailBehavior', () => {
-    const SnailBehavior = vi.fn();
-    SnailBehavior.prototype.update = vi.fn();
-    return { SnailBehavior };
-});
-vi.mock('./specialized/BeetleBehavior', () => {
-    const BeetleBehavior = vi.fn();
-    BeetleBehavior.prototype.update = vi.fn();
-    return { BeetleBehavior };
-});
-vi.mock('./specialized/LadybugBehavior', () => {
-    const LadybugBehavior = vi.fn();
-    LadybugBehavior.prototype.update = vi.fn();
-    return { LadybugBehavior };
-});
-vi.mock('./specialized/ScorpionBehavior', () => {
-    const ScorpionBehavior = vi.fn();
-    ScorpionBehavior.prototype.update = vi.fn();
-    return { ScorpionBehavior };
-});
-vi.mock('./specialized/HoneybeeBehavior', () => {
-    const HoneybeeBehavior = vi.fn();
-    HoneybeeBehavior.prototype.update = vi.fn();
-    return { HoneybeeBehavior };
-});
-vi.mock('./specialized/AntBehavior', () => {
-    const AntBehavior = vi.fn();
-    AntBehavior.prototype.update = vi.fn();
-    return { AntBehavior };
-});
-vi.mock('./specialized/SpiderBehavior', () => {
-    const SpiderBehavior = vi.fn();
-    SpiderBehavior.prototype.update = vi.fn();
-    return { SpiderBehavior };
-});
+import { DEFAULT_SIM_PARAMS } from '../../constants';
 
 describe('insectBehavior dispatcher', () => {
-    let mockDefaultBehaviorUpdate: any;
-    let mockCockroachBehaviorUpdate: any;
-    let mockCaterpillarBehaviorUpdate: any;
-    let mockButterflyBehaviorUpdate: any;
-    let mockSnailBehaviorUpdate: any;
-    let mockBeetleBehaviorUpdate: any;
-    let mockLadybugBehaviorUpdate: any;
-    let mockScorpionBehaviorUpdate: any;
-    let mockHoneybeeBehaviorUpdate: any;
-    let mockAntBehaviorUpdate: any;
-    let mockSpiderBehaviorUpdate: any;
-
-    const allMocks: any[] = [];
-
     const mockContext = {
         nextActorState: new Map<string, CellContent>(),
     } as InsectBehaviorContext;
 
-    beforeAll(async () => {
-        const { DefaultInsectBehavior } = await import('./specialized/DefaultInsectBehavior');
-        const { CockroachBehavior } = await import('./specialized/CockroachBehavior');
-        const { CaterpillarBehavior } = await import('./specialized/CaterpillarBehavior');
-        const { ButterflyBehavior } = await import('./specialized/ButterflyBehavior');
-        const { SnailBehavior } = await import('./specialized/SnailBehavior');
-        const { BeetleBehavior } = await import('./specialized/BeetleBehavior');
-        const { LadybugBehavior } = await import('./specialized/LadybugBehavior');
-        const { ScorpionBehavior } = await import('./specialized/ScorpionBehavior');
-        const { HoneybeeBehavior } = await import('./specialized/HoneybeeBehavior');
-        const { AntBehavior } = await import('./specialized/AntBehavior');
-        const { SpiderBehavior } = await import('./specialized/SpiderBehavior');
-        
-        mockDefaultBehaviorUpdate = new (DefaultInsectBehavior as any)().update;
-        mockCockroachBehaviorUpdate = new (CockroachBehavior as any)().update;
-        mockCaterpillarBehaviorUpdate = new (CaterpillarBehavior as any)().update;
-        mockButterflyBehaviorUpdate = new (ButterflyBehavior as any)().update;
-        mockSnailBehaviorUpdate = new (SnailBehavior as any)().update;
-        mockBeetleBehaviorUpdate = new (BeetleBehavior as any)().update;
-        mockLadybugBehaviorUpdate = new (LadybugBehavior as any)().update;
-        mockScorpionBehaviorUpdate = new (ScorpionBehavior as any)().update;
-        mockHoneybeeBehaviorUpdate = new (HoneybeeBehavior as any)().update;
-        mockAntBehaviorUpdate = new (AntBehavior as any)().update;
-        mockSpiderBehaviorUpdate = new (SpiderBehavior as any)().update;
-
-        allMocks.push(
-            mockDefaultBehaviorUpdate, mockCockroachBehaviorUpdate, mockCaterpillarBehaviorUpdate,
-            mockButterflyBehaviorUpdate, mockSnailBehaviorUpdate, mockBeetleBehaviorUpdate,
-            mockLadybugBehaviorUpdate, mockScorpionBehaviorUpdate, mockHoneybeeBehaviorUpdate,
-            mockAntBehaviorUpdate, mockSpiderBehaviorUpdate
-        );
-    });
+    // Stub out every registered behavior so the dispatcher can be observed in isolation.
+    const updateMocks = new Map<string, MockInstance>();
 
     beforeEach(() => {
-        vi.clearAllMocks();
+        updateMocks.clear();
+        for (const species of speciesRegistry.getAll()) {
+            updateMocks.set(species.emoji, vi.spyOn(species.behavior.prototype, 'update').mockImplementation(() => {}));
+        }
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
     });
 
-    const testCases: { emoji: string, mockUpdate: () => any, type?: 'cockroach' }[] = [
-        { emoji: '🦋', mockUpdate: () => mockButterflyBehaviorUpdate },
-        { emoji: '🐛', mockUpdate: () => mockCaterpillarBehaviorUpdate },
-        { emoji: '🐌', mockUpdate: () => mockSnailBehaviorUpdate },
-        { emoji: '🐞', mockUpdate: () => mockLadybugBehaviorUpdate },
-        { emoji: '🪲', mockUpdate: () => mockBeetleBehaviorUpdate },
-        { emoji: '🦂', mockUpdate: () => mockScorpionBehaviorUpdate },
-        { emoji: '🐝', mockUpdate: () => mockHoneybeeBehaviorUpdate },
-        { emoji: '🐜', mockUpdate: () => mockAntBehaviorUpdate },
-        { emoji: '🕷️', mockUpdate: () => mockSpiderBehaviorUpdate },
-        { emoji: '🪳', mockUpdate: () => mockCockroachBehaviorUpdate, type: 'cockroach' },
+    const allMocks = () => Array.from(updateMocks.values());
+
+    const testCases: { emoji: string, type?: 'cockroach' }[] = [
+        { emoji: '🦋' }, { emoji: '🐛' }, { emoji: '🐌' }, { emoji: '🐞' }, { emoji: '🪲' },
+        { emoji: '🦂' }, { emoji: '🐝' }, { emoji: '🐜' }, { emoji: '🕷️' },
+        { emoji: '🪳', type: 'cockroach' },
     ];
 
-    for (const { emoji, mockUpdate, type } of testCases) {
+    for (const { emoji, type } of testCases) {
         it(`should delegate to the correct behavior for ${emoji}`, () => {
             const actor = { emoji, type: type || 'insect' } as Insect | Cockroach;
             processInsectTick(actor, mockContext);
 
-            const expectedMock = mockUpdate();
+            const expectedMock = updateMocks.get(emoji)!;
             expect(expectedMock).toHaveBeenCalledWith(actor, mockContext);
 
             // Ensure no other behavior was called
-            allMocks.filter(m => m !== expectedMock).forEach(m => {
+            allMocks().filter(m => m !== expectedMock).forEach(m => {
                 expect(m).not.toHaveBeenCalled();
             });
         });
@@ -150,7 +54,7 @@ describe('insectBehavior dispatcher', () => {
         
         processInsectTick(unknownInsect, mockContext);
 
-        allMocks.forEach(m => {
+        allMocks().forEach(m => {
             expect(m).not.toHaveBeenCalled();
         });
         
@@ -164,8 +68,69 @@ describe('insectBehavior dispatcher', () => {
         
         processInsectTick(trappedInsect, mockContext);
 
-        allMocks.forEach(m => {
+        allMocks().forEach(m => {
             expect(m).not.toHaveBeenCalled();
         });
     });
-});
\ No newline at end of file
+
+    it('should let diurnal species rest at night and the others carry on', () => {
+        const rest = vi.spyOn(speciesRegistry.get('🦋')!.behavior.prototype, 'rest').mockImplementation(() => {});
+        const nightContext = { ...mockContext, isNight: true } as InsectBehaviorContext;
+        const butterfly = { emoji: '🦋', type: 'insect' } as Insect;
+        const spider = { emoji: '🕷️', type: 'insect' } as Insect;
+
+        processInsectTick(butterfly, nightContext);
+        processInsectTick(spider, nightContext);
+
+        expect(rest).toHaveBeenCalledWith(butterfly, nightContext);
+        expect(updateMocks.get('🦋')).not.toHaveBeenCalled();
+        expect(updateMocks.get('🕷️')).toHaveBeenCalledWith(spider, nightContext);
+    });
+
+    it('should let the wind blow flying insects off course, but not walking ones', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        const butterfly = { id: 'butterfly', emoji: '🦋', type: 'insect', x: 5, y: 5 } as Insect;
+        const caterpillar = { id: 'caterpillar', emoji: '🐛', type: 'insect', x: 5, y: 5 } as Insect;
+        const windyContext = {
+            ...mockContext,
+            params: DEFAULT_SIM_PARAMS,
+            wind: { direction: 'E', strength: 3 },
+            nextActorState: new Map<string, CellContent>([[butterfly.id, butterfly], [caterpillar.id, caterpillar]]),
+        } as InsectBehaviorContext;
+
+        processInsectTick(butterfly, windyContext);
+        processInsectTick(caterpillar, windyContext);
+
+        expect(butterfly).toMatchObject({ x: 6, y: 5 });
+        expect(caterpillar).toMatchObject({ x: 5, y: 5 });
+    });
+
+    it('should make sick insects rest some of the time while their illness runs its course', () => {
+        const rest = vi.spyOn(speciesRegistry.get('🐞')!.behavior.prototype, 'rest').mockImplementation(() => {});
+        const sickContext = { ...mockContext, params: DEFAULT_SIM_PARAMS, events: [] } as unknown as InsectBehaviorContext;
+        const ladybug = { emoji: '🐞', type: 'insect', health: 100, infectionTimer: 5 } as Insect;
+
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        processInsectTick(ladybug, sickContext);
+        expect(rest).toHaveBeenCalledWith(ladybug, sickContext);
+        expect(ladybug).toMatchObject({ health: 100 - DEFAULT_SIM_PARAMS.diseaseHealthDamage, infectionTimer: 4 });
+
+        vi.spyOn(Math, 'random').mockReturnValue(0.99);
+        processInsectTick(ladybug, sickContext);
+        expect(updateMocks.get('🐞')).toHaveBeenCalledWith(ladybug, sickContext);
+    });
+
+    it('should delegate to the behavior of a newly registered species', () => {
+        class GlowwormBehavior extends DefaultInsectBehavior {}
+        const update = vi.spyOn(GlowwormBehavior.prototype, 'update').mockImplementation(() => {});
+        speciesRegistry.register({ ...speciesRegistry.get('🐞')!, emoji: '🪱', name: 'Glowworm', pluralName: 'Glowworms', behavior: GlowwormBehavior });
+
+        try {
+            const actor = { emoji: '🪱', type: 'insect' } as Insect;
+            processInsectTick(actor, mockContext);
+            expect(update).toHaveBeenCalledWith(actor, mockContext);
+        } finally {
+            speciesRegistry.unregister('🪱');
+        }
+    });
+});
@@ -1,34 +1,29 @@
-import type { Insect, Cockroach, InsectBehaviorContext } from '../../types';
-import { InsectBehavior } from './base/InsectBehavior';
-import { CockroachBehavior } from './specialized/CockroachBehavior';
-import { CaterpillarBehavior } from './specialized/CaterpillarBehavior';
-import { ButterflyBehavior } from './specialized/ButterflyBehavior';
-import { BeetleBehavior } from './specialized/BeetleBehavior';
-import { LadybugBehavior } from './specialized/LadybugBehavior';
-import { SnailBehavior } from './specialized/SnailBehavior';
-import { ScorpionBehavior } from './specialized/ScorpionBehavior';
-import { HoneybeeBehavior } from './specialized/HoneybeeBehavior';
-import { AntBehavior } from './specialized/AntBehavior';
-import { SpiderBehavior } from './specialized/SpiderBehavior';
+import type { Insect, Cockroach, InsectBehaviorContext, SpeciesDefinition } from '../../types';
+import type { InsectBehavior } from './base/InsectBehavior';
+import { speciesRegistry } from '../speciesRegistry';
+import { windDrift } from '../wind';
+import { isInfected, progressDisease } from '../disease';
+import { random } from '../random';
+import { DISEASE_LETHARGY_CHANCE } from '../../constants';
 
-// Map insect emojis to their specific behavior handlers
-const behaviorMap: Map<string, InsectBehavior> = new Map<string, InsectBehavior>([
-    ['🦋', new ButterflyBehavior()],
-    ['🐛', new CaterpillarBehavior()],
-    ['🐌', new SnailBehavior()],
-    ['🐞', new LadybugBehavior()],
-    ['🐝', new HoneybeeBehavior()],
-    ['🪳', new CockroachBehavior()],
-    ['🪲', new BeetleBehavior()],
-    ['🦂', new ScorpionBehavior()],
-    ['🐜', new AntBehavior()],
-    ['🕷️', new SpiderBehavior()],
-]);
+// One behavior instance per species, created the first time an insect of that species acts.
+const behaviorInstances = new WeakMap<SpeciesDefinition, InsectBehavior>();
+
+const getBehavior = (emoji: string): InsectBehavior | undefined => {
+    const species = speciesRegistry.get(emoji);
+    if (!species) return undefined;
+    let behavior = behaviorInstances.get(species);
+    if (!behavior) {
+        behavior = new species.behavior();
+        behaviorInstances.set(species, behavior);
+    }
+    return behavior;
+};
 
 /**
  * Main entry point for processing an insect's tick.
- * This function acts as a dispatcher, looking up the appropriate behavior
- * strategy for the given insect type and executing it.
+ * This function acts as a dispatcher, looking up the behavior strategy the
+ * insect's species registered and executing it.
  */
 export const processInsectTick = (
     insect: Insect | Cockroach,
@@ -39,9 +34,23 @@ export const processInsectTick = (
         return;
     }
 
-    const behavior = behaviorMap.get(insect.emoji);
-    if (behavior) {
+    const behavior = getBehavior(insect.emoji);
+    const species = speciesRegistry.get(insect.emoji);
+    progressDisease(insect, context.params, context.events);
+    // Diurnal species rest through the night, and sick insects much of the time.
+    const rests = (context.isNight && species?.activity === 'diurnal') || (isInfected(insect) && random() < DISEASE_LETHARGY_CHANCE);
+    if (behavior && rests) {
+        behavior.rest(insect, context);
+    } else if (behavior) {
         behavior.update(insect, context);
+        // Insects on the wing are blown off course by the wind.
+        if (species?.flies && context.nextActorState.has(insect.id)) {
+            const drift = windDrift(insect, context.wind, context.params);
+            if (drift) {
+                insect.x = drift.x;
+                insect.y = drift.y;
+            }
+        }
     } else {
         console.warn(`No behavior defined for insect emoji: ${insect.emoji}`);
     }
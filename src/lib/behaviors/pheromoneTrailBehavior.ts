@@ -15,10 +15,9 @@ export const processPheromoneTrailTick = (trail: PheromoneTrail, context: Pherom
         nextActorState.delete(trail.id);
     }
     
+    // The signal is replaced rather than edited, so the change shows up in the tick's deltas.
     if (trail.signal) {
-        trail.signal.ttl--;
-        if (trail.signal.ttl <= 0) {
-            trail.signal = undefined;
-        }
+        const ttl = trail.signal.ttl - 1;
+        trail.signal = ttl > 0 ? { ...trail.signal, ttl } : undefined;
     }
 };
\ No newline at end of file
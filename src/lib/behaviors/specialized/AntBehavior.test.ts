@@ -1,9 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { AntBehavior } from './AntBehavior';
 import type { Insect, Corpse, AntColony, PheromoneTrail, CellContent, SimulationParams, AppEvent } from '../../../types';
-import { Quadtree, Rectangle } from '../../Quadtree';
+import { SpatialHash } from '../../SpatialHash';
 import { 
-    INSECT_DATA, 
     DEFAULT_SIM_PARAMS, 
     INSECT_MOVE_COST,
     FOOD_VALUE_CORPSE,
@@ -11,8 +10,13 @@ import {
     ANT_EAT_AMOUNT
 } from '../../../constants';
 import { AsyncFlowerFactory } from '../../asyncFlowerFactory';
+import { TerrainMap } from '../../terrain';
+import { PathfindingService } from '../../pathfinding';
+import { ObstacleMap } from '../../obstacles';
+import { SoilMoistureMap } from '../../soilMoisture';
+import { speciesRegistry } from '../../speciesRegistry';
 
-const ANT_DATA = INSECT_DATA.get('🐜')!;
+const ANT_DATA = speciesRegistry.getStats('🐜')!;
 
 vi.mock('../../asyncFlowerFactory');
 
@@ -20,7 +24,7 @@ describe('AntBehavior', () => {
     let behavior: AntBehavior;
     let ant: Insect;
     let nextActorState: Map<string, CellContent>;
-    let qtree: Quadtree<CellContent>;
+    let spatialHash: SpatialHash;
     let newActorQueue: CellContent[];
     const getNextId = vi.fn();
     const params: SimulationParams = { ...DEFAULT_SIM_PARAMS, gridWidth: 20, gridHeight: 20 };
@@ -46,8 +50,7 @@ describe('AntBehavior', () => {
         };
         nextActorState = new Map();
         nextActorState.set(ant.id, ant);
-        const boundary = new Rectangle(params.gridWidth / 2, params.gridHeight / 2, params.gridWidth / 2, params.gridHeight / 2);
-        qtree = new Quadtree(boundary, 4);
+        spatialHash = new SpatialHash(params.gridWidth, params.gridHeight);
         newActorQueue = [];
         getNextId.mockClear().mockImplementation((type: string, x: number, y: number) => {
             if (['pheromoneTrail'].includes(type)) {
@@ -59,13 +62,16 @@ describe('AntBehavior', () => {
     
     const setupContext = (): any => ({
         params,
-        qtree,
+        spatialHash,
         nextActorState,
         newActorQueue,
         events: [] as AppEvent[],
         grid: Array.from({ length: params.gridHeight }, () => Array.from({ length: params.gridWidth }, () => [])),
-        flowerQtree: new Quadtree(new Rectangle(10,10,10,10), 4),
         asyncFlowerFactory: new (AsyncFlowerFactory as any)(),
+        terrain: TerrainMap.flat(params.gridWidth, params.gridHeight),
+        pathfinder: new PathfindingService(params.gridWidth, params.gridHeight),
+        isNight: false,
+        wind: { direction: 'N', strength: 0 },
         incrementInsectsDiedOfOldAge: vi.fn(),
         currentTemperature: params.temperature,
         getNextId,
@@ -74,7 +80,7 @@ describe('AntBehavior', () => {
     it('should seek and move towards the nearest corpse', () => {
         const corpse = createMockCorpse('c1', 13, 13);
         nextActorState.set(corpse.id, corpse);
-        qtree.insert({ x: corpse.x, y: corpse.y, data: corpse });
+        spatialHash.insert(corpse);
         
         behavior.update(ant, setupContext());
 
@@ -92,7 +98,7 @@ describe('AntBehavior', () => {
         const initialFoodValue = corpse.foodValue;
         nextActorState.set(corpse.id, corpse);
         const context = setupContext();
-        context.qtree.insert({ x: corpse.x, y: corpse.y, data: corpse });
+        context.spatialHash.insert(corpse);
 
         behavior.update(ant, context);
         
@@ -121,6 +127,24 @@ describe('AntBehavior', () => {
         expect(ant.y).toBe(9);
     });
 
+    it('should find its way home around a wall', () => {
+        const colony = createMockColony('1', 5, 10);
+        nextActorState.set(colony.id, colony);
+        ant.behaviorState = 'returning_to_colony';
+        ant.carriedItem = { type: 'corpse', value: FOOD_VALUE_CORPSE };
+
+        const context = setupContext();
+        const obstacles = ObstacleMap.empty(params.gridWidth, params.gridHeight);
+        for (let y = 7; y <= 13; y++) obstacles.toggle('wall', 8, y);
+        context.pathfinder.update(context.terrain, SoilMoistureMap.uniform(params.gridWidth, params.gridHeight, 0.5), obstacles, []);
+
+        for (let i = 0; i < 10 && ant.behaviorState === 'returning_to_colony'; i++) {
+            behavior.update(ant, context);
+            expect(obstacles.isBlocked(ant.x, ant.y)).toBe(false);
+        }
+        expect(ant.behaviorState).toBe('seeking_food');
+    });
+
     it('should deposit food at colony, restore stamina, and switch to seeking_food', () => {
         const colony = createMockColony('1', 10, 10);
         nextActorState.set(colony.id, colony);
@@ -166,8 +190,8 @@ describe('AntBehavior', () => {
         ant.behaviorState = 'seeking_food'; // When seeking, it should follow trails
 
         const context = setupContext();
-        context.qtree.insert({ x: strongTrail.x, y: strongTrail.y, data: strongTrail });
-        context.qtree.insert({ x: weakTrail.x, y: weakTrail.y, data: weakTrail });
+        context.spatialHash.insert(strongTrail);
+        context.spatialHash.insert(weakTrail);
 
         behavior.update(ant, context);
         
@@ -184,7 +208,7 @@ describe('AntBehavior', () => {
             };
             nextActorState.set(enemyAnt.id, enemyAnt);
             const context = setupContext();
-            context.qtree.insert({ x: enemyAnt.x, y: enemyAnt.y, data: enemyAnt });
+            context.spatialHash.insert(enemyAnt);
     
             behavior.update(ant, context);
     
@@ -206,7 +230,7 @@ describe('AntBehavior', () => {
                 colonyId: '2',
             };
             nextActorState.set(enemyAnt.id, enemyAnt);
-            qtree.insert({ x: enemyAnt.x, y: enemyAnt.y, data: enemyAnt });
+            spatialHash.insert(enemyAnt);
     
             ant.behaviorState = 'hunting'; // Start in hunting state
             const context = setupContext();
@@ -234,7 +258,7 @@ describe('AntBehavior', () => {
             };
             nextActorState.set(trailWithSignal.id, trailWithSignal);
             const context = setupContext();
-            context.qtree.insert({ x: trailWithSignal.x, y: trailWithSignal.y, data: trailWithSignal });
+            context.spatialHash.insert(trailWithSignal);
     
             behavior.update(ant, context);
             
@@ -8,15 +8,14 @@ import {
     ANT_CARRY_CAPACITY,
     ANT_EAT_AMOUNT,
     INSECT_ATTACK_COST,
-    INSECT_DATA,
     CORPSE_DECAY_TIME,
     FOOD_VALUE_CORPSE,
 } from '../../../constants';
 import { InsectBehavior } from '../base/InsectBehavior';
 import type { InsectBehaviorContext } from '../../../types';
-import { Rectangle } from '../../Quadtree';
-import { scoreFlower, getActorsOnCell } from '../../simulationUtils';
+import { scoreFlower } from '../../simulationUtils';
 import { neighborVectors } from '../../simulationUtils';
+import { speciesRegistry } from '../../speciesRegistry';
 
 const ANT_VISION_RANGE = 7;
 const PREY_PRIORITY: ('corpse' | 'egg' | 'cocoon')[] = ['corpse', 'egg', 'cocoon'];
@@ -94,7 +93,7 @@ export class AntBehavior extends InsectBehavior {
     }
 
     private handleInteraction(insect: Insect, context: InsectBehaviorContext): boolean {
-        const actorsOnCell = getActorsOnCell(context.qtree, context.nextActorState, insect.x, insect.y);
+        const actorsOnCell = context.spatialHash.getOnCell(insect.x, insect.y);
         switch (insect.behaviorState) {
             case 'seeking_food': {
                 const enemyOnCell = actorsOnCell.find((a: any) => a.type === 'insect' && (a as Insect).emoji === '🐜' && (a as Insect).colonyId !== insect.colonyId) as Insect | undefined;
@@ -124,21 +123,20 @@ export class AntBehavior extends InsectBehavior {
                 if (enemy && insect.x === enemy.x && insect.y === enemy.y) {
                     if (insect.stamina >= INSECT_ATTACK_COST) {
                         insect.stamina -= INSECT_ATTACK_COST;
-                        const attackPower = INSECT_DATA.get('🐜')!.attack;
+                        const attackPower = speciesRegistry.getStats('🐜')!.attack;
                         enemy.health -= attackPower;
                         context.events.push({ message: `An 🐜 from colony ${insect.colonyId} attacked an ant from colony ${enemy.colonyId}.`, type: 'info', importance: 'low' });
 
                         if (enemy.health <= 0) {
                             context.nextActorState.delete(enemy.id);
                             const corpseId = context.getNextId('corpse', enemy.x, enemy.y);
-                            const foodValue = INSECT_DATA.get(enemy.emoji)?.maxHealth || FOOD_VALUE_CORPSE;
+                            const foodValue = speciesRegistry.getStats(enemy.emoji)?.maxHealth || FOOD_VALUE_CORPSE;
                             const newCorpse: Corpse = { 
                                 id: corpseId, type: 'corpse', x: enemy.x, y: enemy.y, 
                                 originalEmoji: enemy.emoji, decayTimer: CORPSE_DECAY_TIME,
                                 foodValue: foodValue 
                             };
                             context.nextActorState.set(corpseId, newCorpse);
-                            context.qtree.insert({ x: newCorpse.x, y: newCorpse.y, data: newCorpse });
 
                             insect.behaviorState = 'seeking_food'; // Go back to foraging
                             insect.targetId = undefined;
@@ -163,7 +161,7 @@ export class AntBehavior extends InsectBehavior {
             const nx = insect.x + dx;
             const ny = insect.y + dy;
     
-            if (nx >= 0 && nx < params.gridWidth && ny >= 0 && ny < params.gridHeight) {
+            if (nx >= 0 && nx < params.gridWidth && ny >= 0 && ny < params.gridHeight && !context.pathfinder.isBlocked(nx, ny)) {
                 const trailOnCell = this.getPheromoneOnCell(nx, ny, context);
     
                 if (trailOnCell && trailOnCell.colonyId === insect.colonyId) {
@@ -254,7 +252,7 @@ export class AntBehavior extends InsectBehavior {
     }
 
     private findFoodOnCell(insect: Insect, context: InsectBehaviorContext): Corpse | Egg | Cocoon | Flower | null {
-        const actorsOnCell = getActorsOnCell(context.qtree, context.nextActorState, insect.x, insect.y);
+        const actorsOnCell = context.spatialHash.getOnCell(insect.x, insect.y);
         for (const type of PREY_PRIORITY) {
             const food = actorsOnCell.find((a: any) => {
                 if (a.type !== type) return false;
@@ -267,13 +265,12 @@ export class AntBehavior extends InsectBehavior {
     }
     
     private findNearestFood(insect: Insect, context: InsectBehaviorContext): Corpse | Egg | Cocoon | Flower | null {
-        const vision = new Rectangle(insect.x, insect.y, ANT_VISION_RANGE, ANT_VISION_RANGE);
+        const nearby = context.spatialHash.within(insect.x, insect.y, ANT_VISION_RANGE);
         
         for (const type of PREY_PRIORITY) {
-            const potentialTargets = context.qtree.query(vision)
-                .map(p => p.data)
+            const potentialTargets = nearby
                 .filter((a: any) => {
-                    if (a?.type !== type || !context.nextActorState.has(a.id)) return false;
+                    if (a.type !== type) return false;
                     if (a.type === 'corpse') return (a as Corpse).foodValue > 0;
                     return true;
                 });
@@ -350,7 +347,7 @@ export class AntBehavior extends InsectBehavior {
     private findColony(insect: Insect, context: InsectBehaviorContext): AntColony | undefined {
         // Optimization: Use stored position if available
         if (insect.colonyPosition) {
-            const actorsOnCell = getActorsOnCell(context.qtree, context.nextActorState, insect.colonyPosition.x, insect.colonyPosition.y);
+            const actorsOnCell = context.spatialHash.getOnCell(insect.colonyPosition.x, insect.colonyPosition.y);
             const colony = actorsOnCell.find((a: any) => a.type === 'antColony' && (a as AntColony).colonyId === insect.colonyId) as AntColony | undefined;
             if (colony) return colony;
         }
@@ -394,9 +391,6 @@ export class AntBehavior extends InsectBehavior {
                 strength: strength
             };
             context.nextActorState.set(trailId, newTrail);
-            // This actor is new this tick, so it won't be in the original qtree.
-            // We don't need to add it to the qtree because other actors in this same tick
-            // will find it by checking nextActorState.
             insect.lastPheromonePosition = { x: insect.x, y: insect.y };
         }
     }
@@ -420,10 +414,8 @@ export class AntBehavior extends InsectBehavior {
     }
 
     private findNearestEnemy(insect: Insect, context: InsectBehaviorContext): Insect | null {
-        const vision = new Rectangle(insect.x, insect.y, ANT_VISION_RANGE, ANT_VISION_RANGE);
-        const nearbyAnts = context.qtree.query(vision)
-            .map(p => p.data)
-            .filter((a: any) => a.type === 'insect' && (a as Insect).emoji === '🐜' && (a as Insect).colonyId !== insect.colonyId && context.nextActorState.has(a.id)) as Insect[];
+        const nearbyAnts = context.spatialHash.within(insect.x, insect.y, ANT_VISION_RANGE, 'insect')
+            .filter(a => a.emoji === '🐜' && a.colonyId !== insect.colonyId);
 
         if (nearbyAnts.length === 0) return null;
 
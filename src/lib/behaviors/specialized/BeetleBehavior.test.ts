@@ -1,20 +1,23 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { BeetleBehavior } from './BeetleBehavior';
 import type { Insect, Flower, CellContent, SimulationParams, AppEvent } from '../../../types';
-import { Quadtree, Rectangle } from '../../Quadtree';
+import { SpatialHash } from '../../SpatialHash';
 import { 
-    INSECT_DATA, 
     DEFAULT_SIM_PARAMS, 
     INSECT_STAMINA_REGEN_PER_TICK,
     INSECT_MOVE_COST,
     BEETLE_HEAL_AMOUNT,
     BEETLE_COLLECT_STAMINA_COST,
     BEETLE_DEPOSIT_STAMINA_COST,
+    BEETLE_CLEAR_BLIGHT_STAMINA_COST,
     FLOWER_STAT_INDICES
 } from '../../../constants';
 import { AsyncFlowerFactory } from '../../asyncFlowerFactory';
+import { TerrainMap } from '../../terrain';
+import { PathfindingService } from '../../pathfinding';
+import { speciesRegistry } from '../../speciesRegistry';
 
-const BEETLE_DATA = INSECT_DATA.get('🪲')!;
+const BEETLE_DATA = speciesRegistry.getStats('🪲')!;
 
 vi.mock('../../asyncFlowerFactory');
 
@@ -22,8 +25,7 @@ describe('BeetleBehavior', () => {
     let behavior: BeetleBehavior;
     let beetle: Insect;
     let nextActorState: Map<string, CellContent>;
-    let qtree: Quadtree<CellContent>;
-    let flowerQtree: Quadtree<CellContent>;
+    let spatialHash: SpatialHash;
     let events: AppEvent[];
     const params: SimulationParams = { ...DEFAULT_SIM_PARAMS, gridWidth: 20, gridHeight: 20 };
     
@@ -47,20 +49,21 @@ describe('BeetleBehavior', () => {
         };
         nextActorState = new Map();
         nextActorState.set(beetle.id, beetle);
-        const boundary = new Rectangle(params.gridWidth / 2, params.gridHeight / 2, params.gridWidth / 2, params.gridHeight / 2);
-        qtree = new Quadtree(boundary, 4);
-        flowerQtree = new Quadtree(boundary, 4);
+        spatialHash = new SpatialHash(params.gridWidth, params.gridHeight);
         events = [];
     });
     
     const setupContext = (): any => ({
         params,
-        qtree,
-        flowerQtree,
+        spatialHash,
         nextActorState,
         events,
         grid: Array.from({ length: params.gridHeight }, () => Array.from({ length: params.gridWidth }, () => [])),
         asyncFlowerFactory: new (AsyncFlowerFactory as any)(),
+        terrain: TerrainMap.flat(params.gridWidth, params.gridHeight),
+        pathfinder: new PathfindingService(params.gridWidth, params.gridHeight),
+        isNight: false,
+        wind: { direction: 'N', strength: 0 },
         incrementInsectsDiedOfOldAge: vi.fn(),
         currentTemperature: params.temperature,
         newActorQueue: [],
@@ -69,7 +72,7 @@ describe('BeetleBehavior', () => {
     it('should seek and move towards a healthy flower when not carrying nutrients', () => {
         const healthyFlower = createMockFlower('hf1', 12, 12, 90, 100); // 90% health
         nextActorState.set(healthyFlower.id, healthyFlower);
-        flowerQtree.insert({ x: healthyFlower.x, y: healthyFlower.y, data: healthyFlower });
+        spatialHash.insert(healthyFlower);
         
         behavior.update(beetle, setupContext());
 
@@ -84,8 +87,8 @@ describe('BeetleBehavior', () => {
         const healthyFlower = createMockFlower('hf1', 10, 10, 90, 100);
         nextActorState.set(healthyFlower.id, healthyFlower);
         const context = setupContext();
-        context.flowerQtree.insert({ x: healthyFlower.x, y: healthyFlower.y, data: healthyFlower });
-        context.qtree.insert({ x: healthyFlower.x, y: healthyFlower.y, data: healthyFlower });
+        context.spatialHash.insert(healthyFlower);
+        context.spatialHash.insert(healthyFlower);
         
         behavior.update(beetle, context);
 
@@ -98,7 +101,7 @@ describe('BeetleBehavior', () => {
         beetle.isCarryingNutrient = true;
         const weakFlower = createMockFlower('wf1', 8, 8, 40, 100); // 40% health
         nextActorState.set(weakFlower.id, weakFlower);
-        flowerQtree.insert({ x: weakFlower.x, y: weakFlower.y, data: weakFlower });
+        spatialHash.insert(weakFlower);
         
         behavior.update(beetle, setupContext());
 
@@ -116,8 +119,8 @@ describe('BeetleBehavior', () => {
         const initialFlowerHealth = weakFlower.health;
         
         const context = setupContext();
-        context.flowerQtree.insert({ x: weakFlower.x, y: weakFlower.y, data: weakFlower });
-        context.qtree.insert({ x: weakFlower.x, y: weakFlower.y, data: weakFlower });
+        context.spatialHash.insert(weakFlower);
+        context.spatialHash.insert(weakFlower);
 
         behavior.update(beetle, context);
 
@@ -128,11 +131,38 @@ describe('BeetleBehavior', () => {
         expect(events.some(e => e.message.includes('healed a flower'))).toBe(true);
     });
 
+    it('should head for a blighted flower ahead of a healthy one', () => {
+        const healthyFlower = createMockFlower('hf1', 12, 12, 90, 100);
+        const blightedFlower = { ...createMockFlower('bf1', 8, 8, 90, 100), isBlighted: true };
+        for (const flower of [healthyFlower, blightedFlower]) {
+            nextActorState.set(flower.id, flower);
+            spatialHash.insert(flower);
+        }
+
+        behavior.update(beetle, setupContext());
+
+        expect(beetle.x).toBe(9);
+        expect(beetle.y).toBe(9);
+    });
+
+    it('should clear the blight from a flower on its cell instead of collecting nutrients', () => {
+        const blightedFlower = { ...createMockFlower('bf1', 10, 10, 90, 100), isBlighted: true };
+        nextActorState.set(blightedFlower.id, blightedFlower);
+        spatialHash.insert(blightedFlower);
+
+        behavior.update(beetle, setupContext());
+
+        expect(blightedFlower.isBlighted).toBe(false);
+        expect(beetle.isCarryingNutrient).toBe(false);
+        expect(beetle.stamina).toBe(BEETLE_DATA.maxStamina - BEETLE_CLEAR_BLIGHT_STAMINA_COST);
+        expect(events.some(e => e.message.includes('cleared the blight'))).toBe(true);
+    });
+
     it('should wander if it has no nutrients and no healthy flowers are nearby', () => {
         const randomSpy = vi.spyOn(Math, 'random').mockReturnValue(0);
         const weakFlower = createMockFlower('wf1', 8, 8, 40, 100);
         nextActorState.set(weakFlower.id, weakFlower);
-        flowerQtree.insert({ x: weakFlower.x, y: weakFlower.y, data: weakFlower });
+        spatialHash.insert(weakFlower);
         
         const initialX = beetle.x;
         const initialY = beetle.y;
@@ -149,7 +179,7 @@ describe('BeetleBehavior', () => {
         beetle.isCarryingNutrient = true;
         const healthyFlower = createMockFlower('hf1', 12, 12, 90, 100);
         nextActorState.set(healthyFlower.id, healthyFlower);
-        flowerQtree.insert({ x: healthyFlower.x, y: healthyFlower.y, data: healthyFlower });
+        spatialHash.insert(healthyFlower);
         
         const initialX = beetle.x;
         const initialY = beetle.y;
@@ -7,12 +7,12 @@ import {
     WEAK_FLOWER_THRESHOLD,
     BEETLE_HEAL_AMOUNT,
     BEETLE_COLLECT_STAMINA_COST,
-    BEETLE_DEPOSIT_STAMINA_COST
+    BEETLE_DEPOSIT_STAMINA_COST,
+    BEETLE_CLEAR_BLIGHT_STAMINA_COST
 } from '../../../constants';
 import { InsectBehavior } from '../base/InsectBehavior';
+import { makesPollen } from '../../flowerSex';
 import type { InsectBehaviorContext } from '../../../types';
-import { Rectangle } from '../../Quadtree';
-import { getActorsOnCell } from '../../simulationUtils';
 
 export class BeetleBehavior extends InsectBehavior {
     public update(insect: Insect, context: InsectBehaviorContext): void {
@@ -34,12 +34,19 @@ export class BeetleBehavior extends InsectBehavior {
         let hasInteracted = false;
         
         // --- Interaction Phase ---
-        if (insect.isCarryingNutrient) {
+        // Clearing the blight comes before anything else, so it does not spread.
+        const blightedFlowerOnCell = context.spatialHash.getOnCell(insect.x, insect.y, 'flower').find(f => f.isBlighted);
+        if (blightedFlowerOnCell && insect.stamina >= BEETLE_CLEAR_BLIGHT_STAMINA_COST) {
+            this.handleClearBlight(insect, blightedFlowerOnCell, context);
+            hasInteracted = true;
+        } else if (insect.isCarryingNutrient) {
             // Trying to deposit
             const flowerOnCell = this.findTypedFlowerOnCell(insect.x, insect.y, 'weak', context);
             if (flowerOnCell) {
                 this.handlePollination(insect, flowerOnCell, context);
-                insect.pollen = { genome: flowerOnCell.genome, sourceFlowerId: flowerOnCell.id, score: 0 };
+                if (makesPollen(flowerOnCell.sex)) {
+                    insect.pollen = { genome: flowerOnCell.genome, sourceFlowerId: flowerOnCell.id, score: 0, sex: flowerOnCell.sex };
+                }
                 this.handleDeposit(insect, flowerOnCell, context);
                 hasInteracted = true;
             }
@@ -48,7 +55,9 @@ export class BeetleBehavior extends InsectBehavior {
             const flowerOnCell = this.findTypedFlowerOnCell(insect.x, insect.y, 'healthy', context);
             if (flowerOnCell) {
                 this.handlePollination(insect, flowerOnCell, context);
-                insect.pollen = { genome: flowerOnCell.genome, sourceFlowerId: flowerOnCell.id, score: 0 };
+                if (makesPollen(flowerOnCell.sex)) {
+                    insect.pollen = { genome: flowerOnCell.genome, sourceFlowerId: flowerOnCell.id, score: 0, sex: flowerOnCell.sex };
+                }
                 this.handleCollect(insect, context);
                 hasInteracted = true;
             }
@@ -86,14 +95,22 @@ export class BeetleBehavior extends InsectBehavior {
         }
     }
 
+    private handleClearBlight(insect: Insect, flower: Flower, context: InsectBehaviorContext) {
+        insect.stamina -= BEETLE_CLEAR_BLIGHT_STAMINA_COST;
+        flower.isBlighted = false;
+        context.events.push({ message: `🪲 A beetle cleared the blight from a flower.`, type: 'info', importance: 'low' });
+    }
+
     private handleMovement(insect: Insect, context: InsectBehaviorContext): boolean {
         if (insect.stamina < INSECT_MOVE_COST) return false;
 
+        // Blighted flowers nearby come first, if there will be stamina left to clear them.
         let target: Flower | null = null;
-        if (insect.isCarryingNutrient) {
-            target = this.findClosestFlower('weak', insect, context);
-        } else {
-            target = this.findClosestFlower('healthy', insect, context);
+        if (insect.stamina >= INSECT_MOVE_COST + BEETLE_CLEAR_BLIGHT_STAMINA_COST) {
+            target = this.findClosestBlightedFlower(insect, context);
+        }
+        if (!target) {
+            target = this.findClosestFlower(insect.isCarryingNutrient ? 'weak' : 'healthy', insect, context);
         }
 
         if (target) {
@@ -111,10 +128,7 @@ export class BeetleBehavior extends InsectBehavior {
     }
 
     private findTypedFlowerOnCell(x: number, y: number, type: 'healthy' | 'weak', context: InsectBehaviorContext): Flower | undefined {
-        const actorsOnCell = getActorsOnCell(context.qtree, context.nextActorState, x, y);
-        const flower = actorsOnCell.find(
-            (actor) => actor.type === 'flower'
-        ) as Flower | undefined;
+        const flower = context.spatialHash.getOnCell(x, y, 'flower')[0];
         
         if (!flower) return undefined;
         
@@ -128,11 +142,21 @@ export class BeetleBehavior extends InsectBehavior {
         return undefined;
     }
 
+    private findClosestBlightedFlower(insect: Insect, context: InsectBehaviorContext): Flower | null {
+        const blighted = context.spatialHash.within(insect.x, insect.y, 5, 'flower').filter(f => f.isBlighted);
+        let closest: Flower | null = null, closestDistance = Infinity;
+        for (const flower of blighted) {
+            const distance = Math.hypot(insect.x - flower.x, insect.y - flower.y);
+            if (distance < closestDistance) {
+                closest = flower;
+                closestDistance = distance;
+            }
+        }
+        return closest;
+    }
+
     private findClosestFlower(type: 'healthy' | 'weak', insect: Insect, context: InsectBehaviorContext): Flower | null {
-        const vision = new Rectangle(insect.x, insect.y, 5, 5);
-        const nearbyFlowers = context.flowerQtree.query(vision)
-            .map(p => p.data as Flower)
-            .filter(f => context.nextActorState.has(f.id));
+        const nearbyFlowers = context.spatialHash.within(insect.x, insect.y, 5, 'flower');
 
         const threshold = type === 'healthy' ? HEALTHY_FLOWER_THRESHOLD : WEAK_FLOWER_THRESHOLD;
         const comparator = type === 'healthy' 
@@ -1,9 +1,10 @@
 import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
 import { ButterflyBehavior } from './ButterflyBehavior';
 import type { Insect, Flower, Grid, CellContent, AppEvent, FlowerSeed } from '../../../types';
-import { Quadtree, Rectangle } from '../../Quadtree';
-import { DEFAULT_SIM_PARAMS, INSECT_MOVE_COST, INSECT_STAMINA_REGEN_PER_TICK, INSECT_DATA, INSECT_DORMANCY_TEMP, INSECT_POLLINATION_CHANCE, INSECT_HEALTH_DECAY_PER_TICK, INSECT_HEAL_FROM_HEALING_FLOWER, INSECT_DAMAGE_FROM_TOXIC_FLOWER } from '../../../constants';
+import { SpatialHash } from '../../SpatialHash';
+import { DEFAULT_SIM_PARAMS, INSECT_MOVE_COST, INSECT_STAMINA_REGEN_PER_TICK, INSECT_DORMANCY_TEMP, INSECT_POLLINATION_CHANCE, INSECT_HEALTH_DECAY_PER_TICK, INSECT_HEAL_FROM_HEALING_FLOWER, INSECT_DAMAGE_FROM_TOXIC_FLOWER } from '../../../constants';
 import { AsyncFlowerFactory } from '../../asyncFlowerFactory';
+import { speciesRegistry } from '../../speciesRegistry';
 
 vi.mock('../../asyncFlowerFactory');
 
@@ -12,7 +13,7 @@ describe('ButterflyBehavior', () => {
     let butterfly: Insect;
     let grid: Grid;
     let nextActorState: Map<string, CellContent>;
-    let flowerQtree: Quadtree<CellContent>;
+    let spatialHash: SpatialHash;
     let mockAsyncFlowerFactory: AsyncFlowerFactory;
     let requestNewFlower: Mock;
     let events: AppEvent[];
@@ -31,7 +32,7 @@ describe('ButterflyBehavior', () => {
 
     beforeEach(() => {
         behavior = new ButterflyBehavior();
-        const baseStats = INSECT_DATA.get('🦋')!;
+        const baseStats = speciesRegistry.getStats('🦋')!;
         butterfly = { 
             id: 'insect1', type: 'insect', x: 5, y: 5, pollen: null, emoji: '🦋', 
             health: baseStats.maxHealth,
@@ -48,9 +49,7 @@ describe('ButterflyBehavior', () => {
         requestNewFlower = vi.fn().mockReturnValue(mockSeed);
         mockAsyncFlowerFactory = new (AsyncFlowerFactory as any)();
         mockAsyncFlowerFactory.requestNewFlower = requestNewFlower;
-
-        const boundary = new Rectangle(7.5, 7.5, 7.5, 7.5);
-        flowerQtree = new Quadtree(boundary, 4);
+        spatialHash = new SpatialHash(15, 15);
         newActorQueue = [];
         events = [];
         getNextId.mockClear();
@@ -61,8 +60,7 @@ describe('ButterflyBehavior', () => {
         params: DEFAULT_SIM_PARAMS,
         nextActorState,
         asyncFlowerFactory: mockAsyncFlowerFactory,
-        qtree: new Quadtree(new Rectangle(7.5, 7.5, 7.5, 7.5), 4),
-        flowerQtree,
+        spatialHash,
         events,
         incrementInsectsDiedOfOldAge: vi.fn(),
         currentTemperature: DEFAULT_SIM_PARAMS.temperature,
@@ -77,14 +75,14 @@ describe('ButterflyBehavior', () => {
         const initialFlowerHealth = flower.health;
 
         const context = setupContext();
-        context.qtree.insert({ x: flower.x, y: flower.y, data: flower });
-        context.flowerQtree.insert({ x: flower.x, y: flower.y, data: flower });
+        context.spatialHash.insert(flower);
+        context.spatialHash.insert(flower);
 
         behavior.update(butterfly, context);
         
         const flowerState = nextActorState.get(flower.id) as Flower;
         expect(flowerState.health).toBe(initialFlowerHealth); // No damage
-        expect(butterfly.pollen).toEqual({ genome: flower.genome, sourceFlowerId: flower.id, score: expect.any(Number) });
+        expect(butterfly.pollen).toEqual({ genome: flower.genome, sourceFlowerId: flower.id, score: expect.any(Number), sex: flower.sex });
     });
 
     it('should pollinate a different mature flower', () => {
@@ -97,8 +95,8 @@ describe('ButterflyBehavior', () => {
         butterfly.pollen = { genome: 'g1', sourceFlowerId: 'flower1', score: 10 };
         
         const context = setupContext();
-        context.qtree.insert({ x: targetFlower.x, y: targetFlower.y, data: targetFlower });
-        context.flowerQtree.insert({ x: targetFlower.x, y: targetFlower.y, data: targetFlower });
+        context.spatialHash.insert(targetFlower);
+        context.spatialHash.insert(targetFlower);
 
         behavior.update(butterfly, context);
         
@@ -130,8 +128,8 @@ describe('ButterflyBehavior', () => {
         nextActorState.set(flower.id, flower);
         
         const context = setupContext();
-        context.qtree.insert({ x: flower.x, y: flower.y, data: flower });
-        context.flowerQtree.insert({ x: flower.x, y: flower.y, data: flower });
+        context.spatialHash.insert(flower);
+        context.spatialHash.insert(flower);
         
         const initialX = butterfly.x;
         const initialY = butterfly.y;
@@ -163,7 +161,7 @@ describe('ButterflyBehavior', () => {
         const initialHealth = butterfly.health;
 
         const context = setupContext();
-        context.qtree.insert({ x: healingFlower.x, y: healingFlower.y, data: healingFlower });
+        context.spatialHash.insert(healingFlower);
         
         behavior.update(butterfly, context);
         
@@ -180,7 +178,7 @@ describe('ButterflyBehavior', () => {
         const initialHealth = butterfly.health;
 
         const context = setupContext();
-        context.qtree.insert({ x: toxicFlower.x, y: toxicFlower.y, data: toxicFlower });
+        context.spatialHash.insert(toxicFlower);
         
         behavior.update(butterfly, context);
         
@@ -197,7 +195,7 @@ describe('ButterflyBehavior', () => {
         const initialHealth = butterfly.health;
 
         const context = setupContext();
-        context.qtree.insert({ x: neutralFlower.x, y: neutralFlower.y, data: neutralFlower });
+        context.spatialHash.insert(neutralFlower);
         
         behavior.update(butterfly, context);
         
@@ -9,9 +9,11 @@ import {
     INSECT_HEAL_FROM_HEALING_FLOWER,
     INSECT_DAMAGE_FROM_TOXIC_FLOWER,
 } from '../../../constants';
-import { findCellForFlowerSpawn, scoreFlower, getActorsOnCell } from '../../simulationUtils';
+import { findCellForFlowerSpawn, scoreFlower } from '../../simulationUtils';
 import { InsectBehavior } from '../base/InsectBehavior';
 import type { InsectBehaviorContext } from '../../../types';
+import { random } from '../../random';
+import { fertilisationChance, makesPollen } from '../../flowerSex';
 
 /**
  * Implements the behavior for Butterflies. They are pure pollinators and
@@ -53,9 +55,7 @@ export class ButterflyBehavior extends InsectBehavior {
     }
     
     protected findFlowerOnCell(x: number, y: number, context: InsectBehaviorContext): Flower | undefined {
-         return getActorsOnCell(context.qtree, context.nextActorState, x, y).find(
-            (actor) => actor.type === 'flower'
-        ) as Flower | undefined;
+        return context.spatialHash.getOnCell(x, y, 'flower')[0];
     }
     
     private handleInteraction(insect: Insect, flower: Flower, context: InsectBehaviorContext) {
@@ -74,13 +74,16 @@ export class ButterflyBehavior extends InsectBehavior {
         }
 
         this.handlePollination(insect, flower, context);
-        const pollenScore = scoreFlower(insect, flower);
-        insect.pollen = { genome: flower.genome, sourceFlowerId: flower.id, score: pollenScore };
+        if (makesPollen(flower.sex)) {
+            const pollenScore = scoreFlower(insect, flower);
+            insect.pollen = { genome: flower.genome, sourceFlowerId: flower.id, score: pollenScore, sex: flower.sex };
+        }
     }
     
     protected handlePollination(insect: Insect, flower: Flower, context: InsectBehaviorContext) {
         const { pollen } = insect;
-        if (pollen && pollen.sourceFlowerId !== flower.id && flower.isMature && Math.random() < INSECT_POLLINATION_CHANCE) {
+        const chance = pollen && flower.isMature ? INSECT_POLLINATION_CHANCE * fertilisationChance(pollen.sourceFlowerId, pollen.sex, flower) : 0;
+        if (pollen && chance > 0 && random() < chance) {
             const spawnSpot = findCellForFlowerSpawn(context.grid, context.params, { x: flower.x, y: flower.y });
             if (spawnSpot) {
                 const seed = context.asyncFlowerFactory.requestNewFlower(context.nextActorState, spawnSpot.x, spawnSpot.y, flower.genome, pollen.genome, context.getNextId);
@@ -99,7 +102,7 @@ export class ButterflyBehavior extends InsectBehavior {
         if (hasInteracted) {
             moved = this.wander(insect, context);
         } else {
-            if (Math.random() > INSECT_WANDER_CHANCE) {
+            if (random() > INSECT_WANDER_CHANCE) {
                 const targetFlower = this.findBestFlowerTarget(insect, context);
                 if (targetFlower) {
                     moved = this.moveTowards(insect, targetFlower, context);
@@ -1,9 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { CaterpillarBehavior } from './CaterpillarBehavior';
 import type { Insect, Flower, Grid, CellContent, Cocoon, AppEvent } from '../../../types';
-import { Quadtree, Rectangle } from '../../Quadtree';
-import { DEFAULT_SIM_PARAMS, INSECT_DATA, CATERPILLAR_EAT_AMOUNT_FOR_COCOON, COCOON_HATCH_TIME, INSECT_HEALTH_DECAY_PER_TICK, INSECT_HEAL_FROM_HEALING_FLOWER, INSECT_DAMAGE_FROM_TOXIC_FLOWER } from '../../../constants';
+import { SpatialHash } from '../../SpatialHash';
+import { DEFAULT_SIM_PARAMS, CATERPILLAR_EAT_AMOUNT_FOR_COCOON, COCOON_HATCH_TIME, INSECT_HEALTH_DECAY_PER_TICK, INSECT_HEAL_FROM_HEALING_FLOWER, INSECT_DAMAGE_FROM_TOXIC_FLOWER } from '../../../constants';
 import { AsyncFlowerFactory } from '../../asyncFlowerFactory';
+import { TerrainMap } from '../../terrain';
+import { PathfindingService } from '../../pathfinding';
+import { speciesRegistry } from '../../speciesRegistry';
 
 vi.mock('../../asyncFlowerFactory');
 
@@ -12,11 +15,10 @@ describe('CaterpillarBehavior', () => {
     let caterpillar: Insect;
     let grid: Grid;
     let nextActorState: Map<string, CellContent>;
-    let flowerQtree: Quadtree<CellContent>;
-    let qtree: Quadtree<CellContent>;
+    let spatialHash: SpatialHash;
     let events: AppEvent[];
     const getNextId = vi.fn();
-    const CATERPILLAR_DATA = INSECT_DATA.get('🐛')!;
+    const CATERPILLAR_DATA = speciesRegistry.getStats('🐛')!;
 
     const mockFlower: Flower = {
         id: 'flower1', type: 'flower', x: 5, y: 5,
@@ -42,10 +44,7 @@ describe('CaterpillarBehavior', () => {
         grid[5][5].push(caterpillar);
         nextActorState = new Map();
         nextActorState.set(caterpillar.id, caterpillar);
-        
-        const boundary = new Rectangle(7.5, 7.5, 7.5, 7.5);
-        qtree = new Quadtree(boundary, 4);
-        flowerQtree = new Quadtree(boundary, 4);
+        spatialHash = new SpatialHash(15, 15);
         events = [];
         getNextId.mockClear().mockImplementation((type, x, y) => `${type}-${x}-${y}-${Math.random()}`);
     });
@@ -55,8 +54,11 @@ describe('CaterpillarBehavior', () => {
         params: DEFAULT_SIM_PARAMS,
         nextActorState,
         asyncFlowerFactory: new (AsyncFlowerFactory as any)(),
-        qtree,
-        flowerQtree,
+        terrain: TerrainMap.flat(DEFAULT_SIM_PARAMS.gridWidth, DEFAULT_SIM_PARAMS.gridHeight),
+        pathfinder: new PathfindingService(DEFAULT_SIM_PARAMS.gridWidth, DEFAULT_SIM_PARAMS.gridHeight),
+        isNight: false,
+        wind: { direction: 'N', strength: 0 },
+        spatialHash,
         events,
         incrementInsectsDiedOfOldAge: vi.fn(),
         currentTemperature: DEFAULT_SIM_PARAMS.temperature,
@@ -71,8 +73,8 @@ describe('CaterpillarBehavior', () => {
         const initialFlowerHealth = flower.health;
 
         const context = setupContext();
-        context.qtree.insert({ x: flower.x, y: flower.y, data: flower });
-        context.flowerQtree.insert({ x: flower.x, y: flower.y, data: flower });
+        context.spatialHash.insert(flower);
+        context.spatialHash.insert(flower);
 
         behavior.update(caterpillar, context);
         
@@ -86,8 +88,8 @@ describe('CaterpillarBehavior', () => {
         const farFlower = { ...mockFlower, id: 'far', x: 10, y: 10 };
         nextActorState.set(closeFlower.id, closeFlower);
         nextActorState.set(farFlower.id, farFlower);
-        flowerQtree.insert({ x: closeFlower.x, y: closeFlower.y, data: closeFlower });
-        flowerQtree.insert({ x: farFlower.x, y: farFlower.y, data: farFlower });
+        spatialHash.insert(closeFlower);
+        spatialHash.insert(farFlower);
 
         behavior.update(caterpillar, setupContext());
 
@@ -102,8 +104,8 @@ describe('CaterpillarBehavior', () => {
         grid[5][5].push(flower);
         nextActorState.set(flower.id, flower);
         const context = setupContext();
-        context.qtree.insert({ x: flower.x, y: flower.y, data: flower });
-        context.flowerQtree.insert({ x: flower.x, y: flower.y, data: flower });
+        context.spatialHash.insert(flower);
+        context.spatialHash.insert(flower);
 
         behavior.update(caterpillar, context);
 
@@ -125,8 +127,8 @@ describe('CaterpillarBehavior', () => {
         grid[5][5].push(flower);
         nextActorState.set(flower.id, flower);
         const context = setupContext();
-        context.qtree.insert({ x: flower.x, y: flower.y, data: flower });
-        context.flowerQtree.insert({ x: flower.x, y: flower.y, data: flower });
+        context.spatialHash.insert(flower);
+        context.spatialHash.insert(flower);
 
         behavior.update(caterpillar, context);
 
@@ -143,7 +145,7 @@ describe('CaterpillarBehavior', () => {
         const initialHealth = caterpillar.health;
 
         const context = setupContext();
-        context.qtree.insert({ x: healingFlower.x, y: healingFlower.y, data: healingFlower });
+        context.spatialHash.insert(healingFlower);
         
         behavior.update(caterpillar, context);
         
@@ -160,7 +162,7 @@ describe('CaterpillarBehavior', () => {
         const initialHealth = caterpillar.health;
 
         const context = setupContext();
-        context.qtree.insert({ x: toxicFlower.x, y: toxicFlower.y, data: toxicFlower });
+        context.spatialHash.insert(toxicFlower);
         
         behavior.update(caterpillar, context);
         
@@ -177,7 +179,7 @@ describe('CaterpillarBehavior', () => {
         const initialHealth = caterpillar.health;
 
         const context = setupContext();
-        context.qtree.insert({ x: neutralFlower.x, y: neutralFlower.y, data: neutralFlower });
+        context.spatialHash.insert(neutralFlower);
         
         behavior.update(caterpillar, context);
         
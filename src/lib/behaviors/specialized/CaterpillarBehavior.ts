@@ -3,7 +3,6 @@ import {
     INSECT_DORMANCY_TEMP, 
     INSECT_STAMINA_REGEN_PER_TICK,
     INSECT_MOVE_COST,
-    INSECT_DATA,
     CATERPILLAR_EAT_AMOUNT_FOR_COCOON,
     COCOON_HATCH_TIME,
     INSECT_HEAL_FROM_HEALING_FLOWER,
@@ -11,7 +10,7 @@ import {
 } from '../../../constants';
 import { InsectBehavior } from '../base/InsectBehavior';
 import type { InsectBehaviorContext } from '../../../types';
-import { getActorsOnCell } from '../../simulationUtils';
+import { speciesRegistry } from '../../speciesRegistry';
 
 /**
  * Implements the behavior for Caterpillars. Their primary goal is to eat
@@ -55,13 +54,11 @@ export class CaterpillarBehavior extends InsectBehavior {
     }
     
     protected findFlowerOnCell(x: number, y: number, context: InsectBehaviorContext): Flower | undefined {
-         return getActorsOnCell(context.qtree, context.nextActorState, x, y).find(
-            (actor) => actor.type === 'flower'
-        ) as Flower | undefined;
+        return context.spatialHash.getOnCell(x, y, 'flower')[0];
     }
     
     private handleInteraction(insect: Insect, flower: Flower) {
-        const baseStats = INSECT_DATA.get(insect.emoji)!;
+        const baseStats = speciesRegistry.getStats(insect.emoji)!;
         const damageDealt = baseStats.attack;
         
         flower.health = Math.max(0, flower.health - damageDealt);
@@ -1,9 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { CockroachBehavior } from './CockroachBehavior';
 import type { Cockroach, Corpse, CellContent, Nutrient, SimulationParams, Flower, AppEvent } from '../../../types';
-import { Quadtree, Rectangle } from '../../Quadtree';
+import { SpatialHash } from '../../SpatialHash';
 import { 
-    INSECT_DATA, 
     NUTRIENT_FROM_COCKROACH_LIFESPAN, 
     DEFAULT_SIM_PARAMS, 
     CORPSE_NUTRITION_VALUE,
@@ -17,8 +16,11 @@ import {
     FOOD_VALUE_CORPSE
 } from '../../../constants';
 import { AsyncFlowerFactory } from '../../asyncFlowerFactory';
+import { TerrainMap } from '../../terrain';
+import { PathfindingService } from '../../pathfinding';
+import { speciesRegistry } from '../../speciesRegistry';
 
-const COCKROACH_DATA = INSECT_DATA.get('🪳')!;
+const COCKROACH_DATA = speciesRegistry.getStats('🪳')!;
 
 vi.mock('../../asyncFlowerFactory');
 
@@ -26,8 +28,7 @@ describe('CockroachBehavior', () => {
     let behavior: CockroachBehavior;
     let cockroach: Cockroach;
     let nextActorState: Map<string, CellContent>;
-    let qtree: Quadtree<CellContent>;
-    let flowerQtree: Quadtree<CellContent>;
+    let spatialHash: SpatialHash;
     const getNextId = vi.fn();
     const params: SimulationParams = { ...DEFAULT_SIM_PARAMS, gridWidth: 10, gridHeight: 10 };
 
@@ -41,16 +42,13 @@ describe('CockroachBehavior', () => {
         };
         nextActorState = new Map();
         nextActorState.set(cockroach.id, cockroach);
-        const boundary = new Rectangle(params.gridWidth / 2, params.gridHeight / 2, params.gridWidth / 2, params.gridHeight / 2);
-        qtree = new Quadtree(boundary, 4);
-        flowerQtree = new Quadtree(boundary, 4);
+        spatialHash = new SpatialHash(params.gridWidth, params.gridHeight);
         getNextId.mockClear().mockImplementation((type, x, y) => `${type}-${x}-${y}-${Math.random()}`);
     });
 
     const setupContext = () => ({
         params,
-        qtree,
-        flowerQtree,
+        spatialHash,
         nextActorState,
         grid: Array.from({ length: params.gridHeight }, () => Array.from({ length: params.gridWidth }, () => [])),
         asyncFlowerFactory: new (AsyncFlowerFactory as any)(),
@@ -60,6 +58,10 @@ describe('CockroachBehavior', () => {
         newActorQueue: [] as CellContent[],
         getNextId,
         claimedCellsThisTick: new Set<string>(),
+        terrain: TerrainMap.flat(params.gridWidth, params.gridHeight),
+        pathfinder: new PathfindingService(params.gridWidth, params.gridHeight),
+        isNight: false,
+        wind: { direction: 'N' as const, strength: 0 },
     });
 
     it('should search for and move towards the nearest corpse', () => {
@@ -67,8 +69,8 @@ describe('CockroachBehavior', () => {
         const corpse2: Corpse = { id: 'corpse2', type: 'corpse', x: 0, y: 0, originalEmoji: '🐛', decayTimer: 10, foodValue: FOOD_VALUE_CORPSE };
         nextActorState.set(corpse1.id, corpse1);
         nextActorState.set(corpse2.id, corpse2);
-        qtree.insert({ x: corpse1.x, y: corpse1.y, data: corpse1 });
-        qtree.insert({ x: corpse2.x, y: corpse2.y, data: corpse2 });
+        spatialHash.insert(corpse1);
+        spatialHash.insert(corpse2);
 
         behavior.update(cockroach, setupContext());
 
@@ -85,7 +87,7 @@ describe('CockroachBehavior', () => {
         cockroach.stamina = 10;
         
         const context = setupContext();
-        context.qtree.insert({ x: corpse.x, y: corpse.y, data: corpse });
+        context.spatialHash.insert(corpse);
         
         behavior.update(cockroach, context);
 
@@ -155,8 +157,8 @@ describe('CockroachBehavior', () => {
 
         nextActorState.set(weakFlower.id, weakFlower);
         nextActorState.set(strongFlower.id, strongFlower);
-        flowerQtree.insert({ x: weakFlower.x, y: weakFlower.y, data: weakFlower });
-        flowerQtree.insert({ x: strongFlower.x, y: strongFlower.y, data: strongFlower });
+        spatialHash.insert(weakFlower);
+        spatialHash.insert(strongFlower);
 
         behavior.update(cockroach, setupContext());
         
@@ -179,7 +181,7 @@ describe('CockroachBehavior', () => {
         const initialStamina = cockroach.stamina;
 
         const context = setupContext();
-        context.qtree.insert({ x: flower.x, y: flower.y, data: flower });
+        context.spatialHash.insert(flower);
 
         behavior.update(cockroach, context);
         
@@ -3,7 +3,6 @@ import {
     COCKROACH_VISION_RANGE, 
     CORPSE_NUTRITION_VALUE, 
     NUTRIENT_FROM_COCKROACH_LIFESPAN, 
-    INSECT_DATA,
     COCKROACH_STAMINA_REGEN_PER_TICK,
     COCKROACH_MIN_STAMINA_TO_MOVE,
     COCKROACH_MOVE_STAMINA_COST,
@@ -11,10 +10,9 @@ import {
     INSECT_ATTACK_COST,
     COCKROACH_NUTRIENT_DROP_COOLDOWN,
 } from '../../../constants';
-import { Rectangle, type Point } from '../../Quadtree';
 import { InsectBehavior } from '../base/InsectBehavior';
 import type { InsectBehaviorContext } from '../../../types';
-import { getActorsOnCell } from '../../simulationUtils';
+import { speciesRegistry } from '../../speciesRegistry';
 
 export class CockroachBehavior extends InsectBehavior {
     public update(cockroach: Cockroach, context: InsectBehaviorContext): void {
@@ -42,7 +40,7 @@ export class CockroachBehavior extends InsectBehavior {
         // --- Action Phase ---
 
         // 1. Eat corpse on current cell (highest priority)
-        const actorsOnCell = getActorsOnCell(context.qtree, context.nextActorState, cockroach.x, cockroach.y);
+        const actorsOnCell = context.spatialHash.getOnCell(cockroach.x, cockroach.y);
         const corpseOnCell = actorsOnCell.find(a => a.type === 'corpse') as Corpse | undefined;
         if (corpseOnCell) {
             this.handleEatCorpse(cockroach, corpseOnCell, context);
@@ -111,7 +109,7 @@ export class CockroachBehavior extends InsectBehavior {
     }
 
     private handleAttackFlower(cockroach: Cockroach, flower: Flower, _context: InsectBehaviorContext) {
-        const baseStats = INSECT_DATA.get('🪳')!;
+        const baseStats = speciesRegistry.getStats('🪳')!;
         if (cockroach.stamina >= INSECT_ATTACK_COST) {
             flower.health = Math.max(0, flower.health - baseStats.attack);
             cockroach.stamina -= INSECT_ATTACK_COST;
@@ -125,10 +123,8 @@ export class CockroachBehavior extends InsectBehavior {
     }
 
     private findClosestEggOrCocoon(cockroach: Cockroach, context: InsectBehaviorContext): Egg | Cocoon | null {
-        const vision = new Rectangle(cockroach.x, cockroach.y, COCKROACH_VISION_RANGE, COCKROACH_VISION_RANGE);
-        const nearbyPrey = context.qtree.query(vision)
-            .map(p => p.data)
-            .filter(a => (a?.type === 'egg' || a?.type === 'cocoon') && context.nextActorState.has(a.id)) as (Egg | Cocoon)[];
+        const nearbyPrey: (Egg | Cocoon)[] = context.spatialHash.within(cockroach.x, cockroach.y, COCKROACH_VISION_RANGE)
+            .filter((a): a is Egg | Cocoon => a.type === 'egg' || a.type === 'cocoon');
         
         const validPrey = nearbyPrey.filter(p => {
             if (p.type === 'egg') {
@@ -149,10 +145,7 @@ export class CockroachBehavior extends InsectBehavior {
         let target: { x: number, y: number } | null = null;
         
         // Priority 1: Find corpses
-        const vision = new Rectangle(cockroach.x, cockroach.y, COCKROACH_VISION_RANGE, COCKROACH_VISION_RANGE);
-        const nearbyCorpses = context.qtree.query(vision)
-            .map((p: Point<CellContent>) => p.data)
-            .filter((a): a is Corpse => !!a && a.type === 'corpse' && context.nextActorState.has(a.id));
+        const nearbyCorpses = context.spatialHash.within(cockroach.x, cockroach.y, COCKROACH_VISION_RANGE, 'corpse');
 
         if (nearbyCorpses.length > 0) {
             target = nearbyCorpses.reduce((closest, corpse) => {
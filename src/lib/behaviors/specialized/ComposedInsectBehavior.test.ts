@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { ComposedInsectBehavior } from './ComposedInsectBehavior';
+import type { Insect, Corpse, CellContent, SimulationParams, AppEvent } from '../../../types';
+import { SpatialHash } from '../../SpatialHash';
+import {
+    DEFAULT_SIM_PARAMS,
+    CORPSE_NUTRITION_VALUE,
+    FOOD_VALUE_CORPSE,
+    HUNTER_HEAL_FROM_PREY,
+    INSECT_ATTACK_COST,
+    INSECT_GENOME_LENGTH,
+    INSECT_HEALTH_DECAY_PER_TICK,
+} from '../../../constants';
+import { AsyncFlowerFactory } from '../../asyncFlowerFactory';
+import { TerrainMap } from '../../terrain';
+import { PathfindingService } from '../../pathfinding';
+import { setCustomSpecies } from '../../customSpecies';
+import { speciesRegistry } from '../../speciesRegistry';
+
+vi.mock('../../asyncFlowerFactory');
+
+const MANTIS_STATS = { attack: 30, maxHealth: 100, maxStamina: 50, speed: 1, eggHatchTime: 20, reproductionCost: 5 };
+
+describe('ComposedInsectBehavior', () => {
+    let behavior: ComposedInsectBehavior;
+    let mantis: Insect;
+    let nextActorState: Map<string, CellContent>;
+    let spatialHash: SpatialHash;
+    const getNextId = vi.fn();
+    const params: SimulationParams = { ...DEFAULT_SIM_PARAMS, gridWidth: 10, gridHeight: 10 };
+
+    beforeAll(() => {
+        setCustomSpecies([{ emoji: '🦗', name: 'Mantis', role: 'hunter', stats: MANTIS_STATS, behaviors: [{ type: 'hunt', species: ['🦋'] }, { type: 'scavenge' }] }]);
+    });
+
+    afterAll(() => {
+        setCustomSpecies([]);
+    });
+
+    beforeEach(() => {
+        behavior = new ComposedInsectBehavior([{ type: 'hunt', species: ['🦋'] }, { type: 'scavenge' }]);
+        mantis = {
+            id: 'mantis1', type: 'insect', x: 5, y: 5, emoji: '🦗', pollen: null,
+            genome: Array(INSECT_GENOME_LENGTH).fill(0),
+            health: 50, maxHealth: MANTIS_STATS.maxHealth,
+            stamina: 30, maxStamina: MANTIS_STATS.maxStamina,
+        };
+        nextActorState = new Map([[mantis.id, mantis]]);
+        spatialHash = new SpatialHash(params.gridWidth, params.gridHeight);
+        spatialHash.insert(mantis);
+        getNextId.mockClear().mockImplementation((type, x, y) => `${type}-${x}-${y}`);
+        vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    });
+
+    const addActor = (actor: CellContent) => {
+        nextActorState.set(actor.id, actor);
+        spatialHash.insert(actor);
+    };
+
+    const setupContext = () => ({
+        params,
+        spatialHash,
+        nextActorState,
+        grid: Array.from({ length: params.gridHeight }, () => Array.from({ length: params.gridWidth }, () => [])),
+        asyncFlowerFactory: new (AsyncFlowerFactory as any)(),
+        events: [] as AppEvent[],
+        incrementInsectsDiedOfOldAge: vi.fn(),
+        currentTemperature: params.temperature,
+        newActorQueue: [] as CellContent[],
+        getNextId,
+        claimedCellsThisTick: new Set<string>(),
+        terrain: TerrainMap.flat(params.gridWidth, params.gridHeight),
+        pathfinder: new PathfindingService(params.gridWidth, params.gridHeight),
+        isNight: false,
+        wind: { direction: 'N' as const, strength: 0 },
+    });
+
+    const makeButterfly = (x: number, y: number, health: number): Insect => ({
+        id: `butterfly-${x}-${y}`, type: 'insect', x, y, emoji: '🦋', pollen: null,
+        genome: [], health, maxHealth: 100, stamina: 40, maxStamina: 40,
+    });
+
+    it('kills prey on its cell, leaving a corpse and healing', () => {
+        const prey = makeButterfly(5, 5, 20);
+        addActor(prey);
+        const context = setupContext();
+
+        behavior.update(mantis, context);
+
+        expect(nextActorState.has(prey.id)).toBe(false);
+        expect(context.newActorQueue).toEqual([expect.objectContaining({ type: 'corpse', x: 5, y: 5, originalEmoji: '🦋', foodValue: speciesRegistry.getStats('🦋')!.maxHealth })]);
+        expect(mantis.health).toBeCloseTo(50 - INSECT_HEALTH_DECAY_PER_TICK + HUNTER_HEAL_FROM_PREY);
+    });
+
+    it('wounds prey it cannot kill in one attack', () => {
+        const prey = makeButterfly(5, 5, 100);
+        addActor(prey);
+
+        behavior.update(mantis, setupContext());
+
+        expect(prey.health).toBe(100 - MANTIS_STATS.attack);
+        expect(nextActorState.has(prey.id)).toBe(true);
+        expect(mantis.stamina).toBeLessThanOrEqual(30 - INSECT_ATTACK_COST);
+    });
+
+    it('ignores insects that are not on its prey list', () => {
+        const ladybug: Insect = { ...makeButterfly(5, 5, 20), id: 'ladybug', emoji: '🐞' };
+        addActor(ladybug);
+
+        behavior.update(mantis, setupContext());
+
+        expect(ladybug.health).toBe(20);
+    });
+
+    it('eats a corpse on its cell when there is nothing to hunt', () => {
+        const corpse: Corpse = { id: 'corpse1', type: 'corpse', x: 5, y: 5, originalEmoji: '🐛', decayTimer: 10, foodValue: FOOD_VALUE_CORPSE };
+        addActor(corpse);
+
+        behavior.update(mantis, setupContext());
+
+        expect(nextActorState.has(corpse.id)).toBe(false);
+        expect(mantis.health).toBeCloseTo(50 - INSECT_HEALTH_DECAY_PER_TICK + CORPSE_NUTRITION_VALUE);
+    });
+
+    it('moves towards the nearest prey in sight', () => {
+        addActor(makeButterfly(8, 5, 100));
+        addActor(makeButterfly(0, 0, 100));
+
+        behavior.update(mantis, setupContext());
+
+        expect(mantis.x).toBe(6);
+        expect(mantis.y).toBe(5);
+    });
+});
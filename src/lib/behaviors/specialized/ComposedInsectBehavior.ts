@@ -0,0 +1,120 @@
+import type { Insect, Corpse, CellContent, BehaviorPrimitive } from '../../../types';
+import {
+    INSECT_DORMANCY_TEMP,
+    INSECT_STAMINA_REGEN_PER_TICK,
+    INSECT_MOVE_COST,
+    INSECT_ATTACK_COST,
+    INSECT_WANDER_CHANCE,
+    CORPSE_DECAY_TIME,
+    CORPSE_NUTRITION_VALUE,
+    FOOD_VALUE_CORPSE,
+    HUNTER_HEAL_FROM_PREY,
+} from '../../../constants';
+import { DefaultInsectBehavior } from './DefaultInsectBehavior';
+import type { InsectBehaviorContext } from '../../../types';
+import { random } from '../../random';
+import { speciesRegistry } from '../../speciesRegistry';
+
+const COMPOSED_VISION_RANGE = 6;
+
+/**
+ * Behavior for user-defined species, assembled from a list of primitives. Each tick the
+ * insect works through its primitives in order, first to act on its own cell and then to
+ * pick something to move towards, and wanders when none of them apply.
+ */
+export class ComposedInsectBehavior extends DefaultInsectBehavior {
+    constructor(private readonly primitives: BehaviorPrimitive[]) {
+        super();
+    }
+
+    public update(insect: Insect, context: InsectBehaviorContext): void {
+        if (this.handleHealthAndDeath(insect, context)) return;
+
+        if (insect.reproductionCooldown && insect.reproductionCooldown > 0) {
+            insect.reproductionCooldown--;
+        }
+
+        if (context.currentTemperature < INSECT_DORMANCY_TEMP) return;
+
+        const actorsOnCell = context.spatialHash.getOnCell(insect.x, insect.y);
+        const hasInteracted = this.primitives.some(primitive => this.interact(primitive, insect, actorsOnCell, context));
+
+        let hasMoved = false;
+        if (insect.stamina >= INSECT_MOVE_COST) {
+            const target = hasInteracted || random() < INSECT_WANDER_CHANCE ? null : this.findTarget(insect, context);
+            hasMoved = target ? this.moveTowards(insect, target, context) : false;
+            if (!hasMoved) hasMoved = this.wander(insect, context);
+            if (hasMoved) insect.stamina -= INSECT_MOVE_COST;
+        }
+
+        if (!hasInteracted && !hasMoved) {
+            insect.stamina = Math.min(insect.maxStamina, insect.stamina + INSECT_STAMINA_REGEN_PER_TICK);
+        }
+    }
+
+    private interact(primitive: BehaviorPrimitive, insect: Insect, actorsOnCell: CellContent[], context: InsectBehaviorContext): boolean {
+        switch (primitive.type) {
+            case 'pollinate': {
+                const flower = this.findFlowerOnCell(insect.x, insect.y, context);
+                if (!flower) return false;
+                this.handleInteraction(insect, flower, context);
+                return true;
+            }
+            case 'hunt': {
+                const prey = actorsOnCell.find(a => a.id !== insect.id && this.isPrey(a, primitive.species)) as Insect | undefined;
+                if (!prey || insect.stamina < INSECT_ATTACK_COST) return false;
+                this.attack(insect, prey, context);
+                return true;
+            }
+            case 'scavenge': {
+                const corpse = actorsOnCell.find(a => a.type === 'corpse') as Corpse | undefined;
+                if (!corpse) return false;
+                context.nextActorState.delete(corpse.id);
+                insect.health = Math.min(insect.maxHealth, insect.health + CORPSE_NUTRITION_VALUE);
+                insect.stamina = Math.min(insect.maxStamina, insect.stamina + CORPSE_NUTRITION_VALUE);
+                return true;
+            }
+        }
+    }
+
+    private findTarget(insect: Insect, context: InsectBehaviorContext): { x: number; y: number } | null {
+        for (const primitive of this.primitives) {
+            if (primitive.type === 'pollinate') {
+                const flower = this.findBestFlowerTarget(insect, context);
+                if (flower) return flower;
+                continue;
+            }
+            const candidates = context.spatialHash.within(insect.x, insect.y, COMPOSED_VISION_RANGE)
+                .filter(a => a.id !== insect.id)
+                .filter(a => primitive.type === 'hunt' ? this.isPrey(a, primitive.species) : a.type === 'corpse');
+            if (candidates.length > 0) {
+                return candidates.reduce((closest, a) =>
+                    Math.hypot(a.x - insect.x, a.y - insect.y) < Math.hypot(closest.x - insect.x, closest.y - insect.y) ? a : closest
+                );
+            }
+        }
+        return null;
+    }
+
+    private isPrey(actor: CellContent, species: string[]): boolean {
+        return (actor.type === 'insect' || actor.type === 'cockroach') && species.includes((actor as Insect).emoji);
+    }
+
+    private attack(insect: Insect, prey: Insect, context: InsectBehaviorContext) {
+        prey.health -= speciesRegistry.getStats(insect.emoji)!.attack;
+        insect.stamina -= INSECT_ATTACK_COST;
+        if (prey.health > 0) return;
+
+        context.nextActorState.delete(prey.id);
+        const corpseId = context.getNextId('corpse', prey.x, prey.y);
+        const preyBaseStats = speciesRegistry.getStats(prey.emoji);
+        context.newActorQueue.push({
+            id: corpseId, type: 'corpse', x: prey.x, y: prey.y,
+            originalEmoji: prey.emoji, decayTimer: CORPSE_DECAY_TIME,
+            foodValue: preyBaseStats ? preyBaseStats.maxHealth : FOOD_VALUE_CORPSE,
+        });
+        insect.health = Math.min(insect.maxHealth, insect.health + HUNTER_HEAL_FROM_PREY);
+        insect.stamina = Math.min(insect.maxStamina, insect.stamina + HUNTER_HEAL_FROM_PREY);
+        context.events.push({ message: `${insect.emoji} killed a ${prey.emoji}!`, type: 'info', importance: 'low' });
+    }
+}
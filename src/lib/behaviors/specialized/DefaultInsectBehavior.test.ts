@@ -1,9 +1,12 @@
 import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
 import { DefaultInsectBehavior } from './DefaultInsectBehavior';
 import type { Insect, Flower, Grid, CellContent, AppEvent, FlowerSeed } from '../../../types';
-import { Quadtree, Rectangle } from '../../Quadtree';
-import { DEFAULT_SIM_PARAMS, INSECT_HEALTH_DECAY_PER_TICK, INSECT_MOVE_COST, INSECT_STAMINA_REGEN_PER_TICK, INSECT_DATA, INSECT_HEAL_FROM_HEALING_FLOWER, TOXIC_FLOWER_THRESHOLD, INSECT_DAMAGE_FROM_TOXIC_FLOWER, FLOWER_STAT_INDICES, CORPSE_DECAY_TIME, INSECT_DORMANCY_TEMP, INSECT_POLLINATION_CHANCE, INSECT_WANDER_CHANCE, INSECT_STAMINA_GAIN_FROM_EATING } from '../../../constants';
+import { SpatialHash } from '../../SpatialHash';
+import { DEFAULT_SIM_PARAMS, INSECT_HEALTH_DECAY_PER_TICK, INSECT_MOVE_COST, INSECT_STAMINA_REGEN_PER_TICK, INSECT_HEAL_FROM_HEALING_FLOWER, TOXIC_FLOWER_THRESHOLD, INSECT_DAMAGE_FROM_TOXIC_FLOWER, FLOWER_STAT_INDICES, CORPSE_DECAY_TIME, INSECT_DORMANCY_TEMP, INSECT_POLLINATION_CHANCE, INSECT_WANDER_CHANCE, INSECT_STAMINA_GAIN_FROM_EATING, FLOWER_SELFING_CHANCE } from '../../../constants';
 import { AsyncFlowerFactory } from '../../asyncFlowerFactory';
+import { TerrainMap } from '../../terrain';
+import { PathfindingService } from '../../pathfinding';
+import { speciesRegistry } from '../../speciesRegistry';
 
 vi.mock('../../asyncFlowerFactory');
 
@@ -12,8 +15,7 @@ describe('DefaultInsectBehavior', () => {
     let insect: Insect;
     let grid: Grid;
     let nextActorState: Map<string, CellContent>;
-    let qtree: Quadtree<CellContent>;
-    let flowerQtree: Quadtree<CellContent>;
+    let spatialHash: SpatialHash;
     let mockAsyncFlowerFactory: AsyncFlowerFactory;
     let requestNewFlower: Mock;
     let events: AppEvent[];
@@ -33,7 +35,7 @@ describe('DefaultInsectBehavior', () => {
 
     beforeEach(() => {
         behavior = new DefaultInsectBehavior();
-        const baseStats = INSECT_DATA.get('🐞')!; // Changed from 🦋 to 🐞
+        const baseStats = speciesRegistry.getStats('🐞')!; // Changed from 🦋 to 🐞
         insect = { 
             id: 'insect1', type: 'insect', x: 5, y: 5, pollen: null, emoji: '🐞', // Changed from 🦋 to 🐞
             health: baseStats.maxHealth,
@@ -50,10 +52,7 @@ describe('DefaultInsectBehavior', () => {
         requestNewFlower = vi.fn().mockReturnValue(mockSeed);
         mockAsyncFlowerFactory = new (AsyncFlowerFactory as any)();
         mockAsyncFlowerFactory.requestNewFlower = requestNewFlower;
-
-        const boundary = new Rectangle(7.5, 7.5, 7.5, 7.5);
-        qtree = new Quadtree(boundary, 4);
-        flowerQtree = new Quadtree(boundary, 4);
+        spatialHash = new SpatialHash(15, 15);
         newActorQueue = [];
         events = [];
         incrementInsectsDiedOfOldAge = vi.fn();
@@ -65,14 +64,17 @@ describe('DefaultInsectBehavior', () => {
         params: DEFAULT_SIM_PARAMS,
         nextActorState,
         asyncFlowerFactory: mockAsyncFlowerFactory,
-        qtree,
-        flowerQtree,
+        spatialHash,
         events,
         incrementInsectsDiedOfOldAge,
         currentTemperature: DEFAULT_SIM_PARAMS.temperature,
         newActorQueue,
         getNextId,
         claimedCellsThisTick: new Set<string>(),
+        terrain: TerrainMap.flat(DEFAULT_SIM_PARAMS.gridWidth, DEFAULT_SIM_PARAMS.gridHeight),
+        pathfinder: new PathfindingService(DEFAULT_SIM_PARAMS.gridWidth, DEFAULT_SIM_PARAMS.gridHeight),
+        isNight: false,
+        wind: { direction: 'N' as const, strength: 0 },
     });
 
     it('should lose health and not move or attack if stamina is too low', () => {
@@ -124,8 +126,8 @@ describe('DefaultInsectBehavior', () => {
         grid[3][3].push(toxicFlower);
         nextActorState.set(healthyFlower.id, healthyFlower);
         nextActorState.set(toxicFlower.id, toxicFlower);
-        flowerQtree.insert({ x: healthyFlower.x, y: healthyFlower.y, data: healthyFlower });
-        flowerQtree.insert({ x: toxicFlower.x, y: toxicFlower.y, data: toxicFlower });
+        spatialHash.insert(healthyFlower);
+        spatialHash.insert(toxicFlower);
 
         behavior.update(insect, setupContext());
 
@@ -146,13 +148,13 @@ describe('DefaultInsectBehavior', () => {
         const initialStamina = insect.stamina;
 
         const context = setupContext();
-        context.qtree.insert({ x: flower.x, y: flower.y, data: flower });
-        context.flowerQtree.insert({ x: flower.x, y: flower.y, data: flower });
+        context.spatialHash.insert(flower);
+        context.spatialHash.insert(flower);
 
         behavior.update(insect, context);
         
         const flowerState = nextActorState.get(flower.id) as Flower;
-        const baseStats = INSECT_DATA.get(insect.emoji)!;
+        const baseStats = speciesRegistry.getStats(insect.emoji)!;
 
         // Stamina logic: insects GAIN stamina from eating, then spend some to wander away.
         const expectedStamina = Math.min(insect.maxStamina, initialStamina + INSECT_STAMINA_GAIN_FROM_EATING) - INSECT_MOVE_COST;
@@ -167,7 +169,7 @@ describe('DefaultInsectBehavior', () => {
         expect(insect.health).toBeCloseTo(expectedHealth);
         
         // Pollen check remains the same.
-        expect(insect.pollen).toEqual({ genome: flower.genome, sourceFlowerId: flower.id, score: expect.any(Number) });
+        expect(insect.pollen).toEqual({ genome: flower.genome, sourceFlowerId: flower.id, score: expect.any(Number), sex: flower.sex });
     });
 
     it('should be healed by a healing flower', () => {
@@ -178,8 +180,8 @@ describe('DefaultInsectBehavior', () => {
         const initialHealth = insect.health;
 
         const context = setupContext();
-        context.qtree.insert({ x: healingFlower.x, y: healingFlower.y, data: healingFlower });
-        context.flowerQtree.insert({ x: healingFlower.x, y: healingFlower.y, data: healingFlower });
+        context.spatialHash.insert(healingFlower);
+        context.spatialHash.insert(healingFlower);
         
         behavior.update(insect, context);
         
@@ -194,8 +196,8 @@ describe('DefaultInsectBehavior', () => {
         const initialHealth = insect.health;
         
         const context = setupContext();
-        context.qtree.insert({ x: toxicFlower.x, y: toxicFlower.y, data: toxicFlower });
-        context.flowerQtree.insert({ x: toxicFlower.x, y: toxicFlower.y, data: toxicFlower });
+        context.spatialHash.insert(toxicFlower);
+        context.spatialHash.insert(toxicFlower);
 
         behavior.update(insect, context);
 
@@ -215,8 +217,8 @@ describe('DefaultInsectBehavior', () => {
         insect.pollen = { genome: 'g1', sourceFlowerId: 'flower1', score: 10 };
         
         const context = setupContext();
-        context.qtree.insert({ x: targetFlower.x, y: targetFlower.y, data: targetFlower });
-        context.flowerQtree.insert({ x: targetFlower.x, y: targetFlower.y, data: targetFlower });
+        context.spatialHash.insert(targetFlower);
+        context.spatialHash.insert(targetFlower);
 
         behavior.update(insect, context);
         
@@ -256,8 +258,8 @@ describe('DefaultInsectBehavior', () => {
         nextActorState.set(targetFlower.id, targetFlower);
 
         const context = setupContext();
-        context.qtree.insert({ x: targetFlower.x, y: targetFlower.y, data: targetFlower });
-        context.flowerQtree.insert({ x: targetFlower.x, y: targetFlower.y, data: targetFlower });
+        context.spatialHash.insert(targetFlower);
+        context.spatialHash.insert(targetFlower);
 
         // Insect is carrying pollen from the flower it's currently on
         insect.pollen = { genome: 'g1', sourceFlowerId: 'flower1', score: 10 };
@@ -269,6 +271,72 @@ describe('DefaultInsectBehavior', () => {
         vi.spyOn(Math, 'random').mockRestore();
     });
 
+    it('should only carry pollen from a flower that makes it to one that sets seed', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(INSECT_POLLINATION_CHANCE / 2);
+        const maleFlower: Flower = { ...mockFlower, id: 'flower2', x: 5, y: 5, genome: 'g2', isMature: true, sex: 'male' };
+        grid[5][5].push(maleFlower);
+        nextActorState.set(maleFlower.id, maleFlower);
+        const context = setupContext();
+        context.spatialHash.insert(maleFlower);
+
+        // Pollen from a female flower cannot fertilise, and a male flower cannot set seed either way.
+        insect.pollen = { genome: 'g1', sourceFlowerId: 'flower1', score: 10, sex: 'female' };
+        behavior.update(insect, context);
+        insect.pollen = { genome: 'g1', sourceFlowerId: 'flower1', score: 10, sex: 'both' };
+        behavior.update(insect, context);
+
+        expect(requestNewFlower).not.toHaveBeenCalled();
+
+        vi.spyOn(Math, 'random').mockRestore();
+    });
+
+    it('should keep male pollen past a female flower and pollinate the next one with it', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(INSECT_POLLINATION_CHANCE / 2);
+        const firstFemale: Flower = { ...mockFlower, id: 'flower2', x: 5, y: 5, genome: 'g2', isMature: true, sex: 'female' };
+        const secondFemale: Flower = { ...mockFlower, id: 'flower3', x: 5, y: 5, genome: 'g3', isMature: true, sex: 'female' };
+        insect.pollen = { genome: 'g1', sourceFlowerId: 'flower1', score: 10, sex: 'male' };
+
+        grid[5][5].push(firstFemale);
+        nextActorState.set(firstFemale.id, firstFemale);
+        const firstContext = setupContext();
+        firstContext.spatialHash.insert(firstFemale);
+        behavior.update(insect, firstContext);
+
+        expect(insect.pollen).toMatchObject({ sourceFlowerId: 'flower1', sex: 'male' });
+
+        // Move the insect back onto the cell, now holding only the second female flower.
+        insect.x = 5;
+        insect.y = 5;
+        grid[5][5] = [insect, secondFemale];
+        nextActorState.delete(firstFemale.id);
+        nextActorState.set(secondFemale.id, secondFemale);
+        spatialHash = new SpatialHash(15, 15);
+        const secondContext = setupContext();
+        secondContext.spatialHash.insert(secondFemale);
+        requestNewFlower.mockClear();
+        behavior.update(insect, secondContext);
+
+        expect(requestNewFlower).toHaveBeenCalledWith(secondContext.nextActorState, expect.any(Number), expect.any(Number), 'g3', 'g1', expect.any(Function));
+
+        vi.spyOn(Math, 'random').mockRestore();
+    });
+
+    it('should let a hermaphrodite fertilise itself, though less readily than another flower', () => {
+        const targetFlower: Flower = { ...mockFlower, id: 'flower1', x: 5, y: 5, genome: 'g1', isMature: true, sex: 'both' };
+        grid[5][5].push(targetFlower);
+        nextActorState.set(targetFlower.id, targetFlower);
+        const context = setupContext();
+        context.spatialHash.insert(targetFlower);
+        insect.pollen = { genome: 'g1', sourceFlowerId: 'flower1', score: 10, sex: 'both' };
+        vi.spyOn(Math, 'random').mockReturnValue(INSECT_POLLINATION_CHANCE * FLOWER_SELFING_CHANCE / 2);
+
+        behavior.update(insect, context);
+
+        expect(requestNewFlower).toHaveBeenCalledWith(context.nextActorState, expect.any(Number), expect.any(Number), 'g1', 'g1', expect.any(Function));
+
+        vi.spyOn(Math, 'random').mockRestore();
+    });
+
     it('should not pollinate an immature flower', () => {
         vi.spyOn(Math, 'random').mockReturnValue(INSECT_POLLINATION_CHANCE / 2);
         
@@ -278,8 +346,8 @@ describe('DefaultInsectBehavior', () => {
         nextActorState.set(targetFlower.id, targetFlower);
 
         const context = setupContext();
-        context.qtree.insert({ x: targetFlower.x, y: targetFlower.y, data: targetFlower });
-        context.flowerQtree.insert({ x: targetFlower.x, y: targetFlower.y, data: targetFlower });
+        context.spatialHash.insert(targetFlower);
+        context.spatialHash.insert(targetFlower);
 
         // Insect has pollen from another flower
         insect.pollen = { genome: 'g1', sourceFlowerId: 'flower1', score: 10 };
@@ -4,7 +4,6 @@ import {
     INSECT_HEAL_FROM_HEALING_FLOWER, 
     INSECT_STAMINA_REGEN_PER_TICK,
     INSECT_MOVE_COST,
-    INSECT_DATA,
     INSECT_WANDER_CHANCE,
     INSECT_STAMINA_GAIN_FROM_EATING,
     INSECT_DAMAGE_FROM_TOXIC_FLOWER
@@ -12,6 +11,9 @@ import {
 import { scoreFlower } from '../../simulationUtils';
 import { InsectBehavior } from '../base/InsectBehavior';
 import type { InsectBehaviorContext } from '../../../types';
+import { random } from '../../random';
+import { speciesRegistry } from '../../speciesRegistry';
+import { makesPollen } from '../../flowerSex';
 
 /**
  * Implements the default behavior for most insects like butterflies, beetles, etc.
@@ -53,7 +55,7 @@ export class DefaultInsectBehavior extends InsectBehavior {
     }
     
     protected handleInteraction(insect: Insect, flower: Flower, context: InsectBehaviorContext) {
-        const baseStats = INSECT_DATA.get(insect.emoji)!;
+        const baseStats = speciesRegistry.getStats(insect.emoji)!;
         
         // Eating now restores stamina instead of costing it.
         insect.stamina = Math.min(insect.maxStamina, insect.stamina + INSECT_STAMINA_GAIN_FROM_EATING);
@@ -75,9 +77,11 @@ export class DefaultInsectBehavior extends InsectBehavior {
         // Pollination logic
         this.handlePollination(insect, flower, context);
 
-        // Always pick up pollen from the interacted flower
-        const pollenScore = scoreFlower(insect, flower);
-        insect.pollen = { genome: flower.genome, sourceFlowerId: flower.id, score: pollenScore };
+        // Pick up pollen from the interacted flower; a female flower has none, so the insect keeps what it carries.
+        if (makesPollen(flower.sex)) {
+            const pollenScore = scoreFlower(insect, flower);
+            insect.pollen = { genome: flower.genome, sourceFlowerId: flower.id, score: pollenScore, sex: flower.sex };
+        }
     }
     
     protected handleMovement(insect: Insect, hasInteracted: boolean, context: InsectBehaviorContext): boolean {
@@ -89,7 +93,7 @@ export class DefaultInsectBehavior extends InsectBehavior {
         if (hasInteracted) {
             moved = this.wander(insect, context);
         } else {
-            if (Math.random() > INSECT_WANDER_CHANCE) {
+            if (random() > INSECT_WANDER_CHANCE) {
                 const targetFlower = this.findBestFlowerTarget(insect, context);
                 if (targetFlower) {
                     moved = this.moveTowards(insect, targetFlower, context);
@@ -1,18 +1,20 @@
 import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
 import { HoneybeeBehavior } from './HoneybeeBehavior';
 import type { Insect, Flower, Hive, CellContent, SimulationParams, TerritoryMark, FlowerSeed } from '../../../types';
-import { Quadtree, Rectangle } from '../../Quadtree';
+import { SpatialHash } from '../../SpatialHash';
 import {
-    INSECT_DATA,
     DEFAULT_SIM_PARAMS,
     INSECT_MOVE_COST,
     INSECT_GENOME_LENGTH,
     INSECT_POLLINATION_CHANCE
 } from '../../../constants';
 import { AsyncFlowerFactory } from '../../asyncFlowerFactory';
+import { TerrainMap } from '../../terrain';
+import { PathfindingService } from '../../pathfinding';
 import * as simulationUtils from '../../simulationUtils';
+import { speciesRegistry } from '../../speciesRegistry';
 
-const BEE_DATA = INSECT_DATA.get('🐝')!;
+const BEE_DATA = speciesRegistry.getStats('🐝')!;
 
 vi.mock('../../asyncFlowerFactory');
 
@@ -20,8 +22,7 @@ describe('HoneybeeBehavior', () => {
     let behavior: HoneybeeBehavior;
     let bee: Insect;
     let nextActorState: Map<string, CellContent>;
-    let qtree: Quadtree<CellContent>;
-    let flowerQtree: Quadtree<CellContent>;
+    let spatialHash: SpatialHash;
     let newActorQueue: CellContent[];
     let mockAsyncFlowerFactory: AsyncFlowerFactory;
     let requestNewFlower: Mock;
@@ -65,11 +66,8 @@ describe('HoneybeeBehavior', () => {
 
         nextActorState = new Map();
         nextActorState.set(bee.id, bee);
-
-        const boundary = new Rectangle(params.gridWidth / 2, params.gridHeight / 2, params.gridWidth / 2, params.gridHeight / 2);
-        qtree = new Quadtree(boundary, 4);
-        qtree.insert({ x: bee.x, y: bee.y, data: bee });
-        flowerQtree = new Quadtree(boundary, 4);
+        spatialHash = new SpatialHash(params.gridWidth, params.gridHeight);
+        spatialHash.insert(bee);
 
         newActorQueue = [];
 
@@ -87,8 +85,7 @@ describe('HoneybeeBehavior', () => {
 
     const setupContext = (): any => ({
         params,
-        qtree,
-        flowerQtree,
+        spatialHash,
         nextActorState,
         newActorQueue,
         events: [],
@@ -98,13 +95,17 @@ describe('HoneybeeBehavior', () => {
         currentTemperature: params.temperature,
         getNextId,
         claimedCellsThisTick: new Set<string>(),
+        terrain: TerrainMap.flat(params.gridWidth, params.gridHeight),
+        pathfinder: new PathfindingService(params.gridWidth, params.gridHeight),
+        isNight: false,
+        wind: { direction: 'N', strength: 0 },
     });
 
     describe('Core Behavior', () => {
         it('should seek and move towards the best flower when seeking food', () => {
             const bestFlower = createMockFlower('f1', 12, 12);
             nextActorState.set(bestFlower.id, bestFlower);
-            flowerQtree.insert({ x: bestFlower.x, y: bestFlower.y, data: bestFlower });
+            spatialHash.insert(bestFlower);
 
             behavior.update(bee, setupContext());
 
@@ -117,7 +118,7 @@ describe('HoneybeeBehavior', () => {
             const flower = createMockFlower('f1', 10, 10);
             nextActorState.set(flower.id, flower);
             const context = setupContext();
-            vi.spyOn(simulationUtils, 'getActorsOnCell').mockReturnValue([flower]);
+            spatialHash.insert(flower);
 
             behavior.update(bee, context);
 
@@ -175,6 +176,23 @@ describe('HoneybeeBehavior', () => {
             expect(updatedHive.storedBees).toBe(1);
             expect(context.events.some((e: { message: string; }) => e.message.includes('entered its hive'))).toBe(true);
         });
+
+        it('should head home to rest at night', () => {
+            const context = setupContext();
+            context.isNight = true;
+            const hive = createMockHive('1', 13, 10);
+            nextActorState.set(hive.id, hive);
+
+            behavior.rest(bee, context);
+            expect(bee.behaviorState).toBe('returning_to_hive');
+            expect(bee.x).toBeGreaterThan(10);
+
+            bee.x = hive.x;
+            bee.y = hive.y;
+            behavior.rest(bee, context);
+            expect(nextActorState.has(bee.id)).toBe(false);
+            expect(context.events.some((e: { message: string; }) => e.message.includes('entered its hive for the night'))).toBe(true);
+        });
     });
 
     describe('Combat Mechanics', () => {
@@ -186,12 +204,12 @@ describe('HoneybeeBehavior', () => {
             
             const context = setupContext();
             context.nextActorState.set(rivalMark.id, { ...rivalMark });
-            context.qtree.insert({ x: rivalMark.x, y: rivalMark.y, data: rivalMark });
+            context.spatialHash.insert(rivalMark);
 
             // Make the bee move to the rival mark's cell
             const flower = createMockFlower('f1', 12, 12);
             context.nextActorState.set(flower.id, flower);
-            context.flowerQtree.insert({ x: flower.x, y: flower.y, data: flower });
+            context.spatialHash.insert(flower);
 
             behavior.update(bee, context); // Bee moves from (10,10) to (11,11)
         
@@ -210,7 +228,7 @@ describe('HoneybeeBehavior', () => {
             const enemyBee = createMockBee('enemy', 10, 10, '2');
             const context = setupContext();
             context.nextActorState.set(enemyBee.id, enemyBee);
-            vi.spyOn(simulationUtils, 'getActorsOnCell').mockReturnValue([bee, enemyBee]);
+            spatialHash.insert(enemyBee);
 
             behavior.update(bee, context);
 
@@ -226,7 +244,7 @@ describe('HoneybeeBehavior', () => {
             const friendlyMark: TerritoryMark = { id: markId, type: 'territoryMark', x: 10, y: 10, hiveId: '1', lifespan: 50, signal: { type: 'UNDER_ATTACK', origin: {x: 1, y: 1}, ttl: 5 }};
             const context = setupContext();
             context.nextActorState.set(friendlyMark.id, friendlyMark);
-            vi.spyOn(simulationUtils, 'getActorsOnCell').mockReturnValue([bee, friendlyMark]);
+            spatialHash.insert(friendlyMark);
     
             behavior.update(bee, context);
     
@@ -250,7 +268,7 @@ describe('HoneybeeBehavior', () => {
             const context = setupContext();
             context.nextActorState.set(flower.id, flower);
             context.nextActorState.set(hive.id, hive);
-            vi.spyOn(simulationUtils, 'getActorsOnCell').mockReturnValue([bee, flower]);
+            spatialHash.insert(flower);
     
             behavior.update(bee, context);
     
@@ -2,17 +2,18 @@ import type { Insect, Flower, Hive, TerritoryMark, Corpse } from '../../../types
 import {
     INSECT_STAMINA_REGEN_PER_TICK,
     INSECT_MOVE_COST,
-    INSECT_DATA,
     INSECT_ATTACK_COST,
     INSECT_POLLINATION_CHANCE,
     CORPSE_DECAY_TIME,
     FOOD_VALUE_CORPSE,
 } from '../../../constants';
-import { scoreFlower, findCellForFlowerSpawn, getActorsOnCell } from '../../simulationUtils';
+import { scoreFlower, findCellForFlowerSpawn } from '../../simulationUtils';
 import { InsectBehavior } from '../base/InsectBehavior';
 import type { InsectBehaviorContext } from '../../../types';
 import { propagateSignal } from '../../ecosystemManager';
-import { Rectangle } from '../../Quadtree';
+import { random } from '../../random';
+import { fertilisationChance, makesPollen } from '../../flowerSex';
+import { speciesRegistry } from '../../speciesRegistry';
 
 const BEE_VISION_RANGE = 7;
 
@@ -45,8 +46,15 @@ export class HoneybeeBehavior extends InsectBehavior {
         this._updateTerritoryMark(insect, context);
     }
 
+    /** Bees spend the night in their hive. */
+    public rest(insect: Insect, context: InsectBehaviorContext): void {
+        insect.signalToSend = undefined;
+        if (this.handleHealthAndDeath(insect, context)) return;
+        this.handleDormancy(insect, context);
+    }
+
     private _updateTerritoryMark(insect: Insect, context: InsectBehaviorContext) {
-        const { nextActorState, params, getNextId, qtree } = context;
+        const { nextActorState, params, getNextId, spatialHash } = context;
         const markId = getNextId('territoryMark', insect.x, insect.y);
         let mark = nextActorState.get(markId) as TerritoryMark | undefined;
 
@@ -67,8 +75,6 @@ export class HoneybeeBehavior extends InsectBehavior {
                 hiveId: insect.hiveId!, lifespan: params.territoryMarkLifespan,
             };
             nextActorState.set(markId, newMark);
-            // This new actor won't be in the original qtree, but that's okay for signaling
-            // within the same tick. For cross-tick interactions, it will be in the next tick's qtree.
             mark = newMark;
         }
 
@@ -78,7 +84,7 @@ export class HoneybeeBehavior extends InsectBehavior {
                 origin: insect.signalToSend.origin || { x: insect.x, y: insect.y },
                 ttl: params.signalTTL
             };
-            propagateSignal(mark, qtree, nextActorState, params);
+            propagateSignal(mark, spatialHash, params);
         }
     }
 
@@ -86,7 +92,7 @@ export class HoneybeeBehavior extends InsectBehavior {
         if (attacker.stamina >= INSECT_ATTACK_COST) {
             const initialTargetHealth = target.health;
             attacker.stamina -= INSECT_ATTACK_COST;
-            target.health -= INSECT_DATA.get('🐝')!.attack;
+            target.health -= speciesRegistry.getStats('🐝')!.attack;
 
             if (target.health < initialTargetHealth) {
                 context.events.push({ message: `A 🐝 from hive ${attacker.hiveId} attacked a rival bee.`, type: 'info', importance: 'low' });
@@ -95,14 +101,13 @@ export class HoneybeeBehavior extends InsectBehavior {
             if (target.health <= 0) {
                 context.nextActorState.delete(target.id);
                 const corpseId = context.getNextId('corpse', target.x, target.y);
-                const foodValue = INSECT_DATA.get(target.emoji)?.maxHealth || FOOD_VALUE_CORPSE;
+                const foodValue = speciesRegistry.getStats(target.emoji)?.maxHealth || FOOD_VALUE_CORPSE;
                 const newCorpse: Corpse = { 
                     id: corpseId, type: 'corpse', x: target.x, y: target.y, 
                     originalEmoji: target.emoji, decayTimer: CORPSE_DECAY_TIME,
                     foodValue: foodValue 
                 };
                 context.nextActorState.set(corpseId, newCorpse);
-                context.qtree.insert({ x: newCorpse.x, y: newCorpse.y, data: newCorpse });
 
                 context.events.push({ message: `A 🐝 from hive ${attacker.hiveId} defeated a rival bee!`, type: 'info', importance: 'low' });
 
@@ -124,7 +129,8 @@ export class HoneybeeBehavior extends InsectBehavior {
                 }
                 hive.storedBees++;
                 context.nextActorState.delete(insect.id); // Bee is now safe inside the hive.
-                context.events.push({ message: `🐝 A bee entered its hive to shelter from the cold.`, type: 'info', importance: 'low' });
+                const reason = context.currentTemperature < context.params.beeDormancyTemp ? 'to shelter from the cold' : 'for the night';
+                context.events.push({ message: `🐝 A bee entered its hive ${reason}.`, type: 'info', importance: 'low' });
 
             } else {
                 // Not at hive, set state to return and move
@@ -153,7 +159,7 @@ export class HoneybeeBehavior extends InsectBehavior {
     private handleInteraction(insect: Insect, context: InsectBehaviorContext): boolean {
         switch (insect.behaviorState) {
             case 'seeking_food': {
-                const actorsOnCell = getActorsOnCell(context.qtree, context.nextActorState, insect.x, insect.y);
+                const actorsOnCell = context.spatialHash.getOnCell(insect.x, insect.y);
                 const enemyOnCell = actorsOnCell.find((a: any) => a.type === 'insect' && (a as Insect).emoji === '🐝' && (a as Insect).hiveId !== insect.hiveId) as Insect | undefined;
 
                 if (enemyOnCell) {
@@ -219,7 +225,7 @@ export class HoneybeeBehavior extends InsectBehavior {
                 case 'returning_to_hive': {
                     const hive = this.findHive(insect, context);
                     if (hive) {
-                         if (Math.random() < context.params.beePollinationWanderChance) {
+                         if (random() < context.params.beePollinationWanderChance) {
                              moved = this.wander(insect, context);
                          } else {
                              moved = this.moveTowards(insect, hive, context);
@@ -264,7 +270,7 @@ export class HoneybeeBehavior extends InsectBehavior {
 
     private findHive(insect: Insect, context: InsectBehaviorContext): Hive | undefined {
         if (insect.hivePosition) {
-            const actorsOnCell = getActorsOnCell(context.qtree, context.nextActorState, insect.hivePosition.x, insect.hivePosition.y);
+            const actorsOnCell = context.spatialHash.getOnCell(insect.hivePosition.x, insect.hivePosition.y);
             const hive = actorsOnCell.find((a: any) => a.type === 'hive' && (a as Hive).hiveId === insect.hiveId) as Hive | undefined;
             if (hive) return hive;
         }
@@ -272,14 +278,13 @@ export class HoneybeeBehavior extends InsectBehavior {
     }
     
     protected findFlowerOnCell(x: number, y: number, context: InsectBehaviorContext): Flower | undefined {
-        return getActorsOnCell(context.qtree, context.nextActorState, x, y).find(
-           (actor) => actor.type === 'flower'
-       ) as Flower | undefined;
+        return context.spatialHash.getOnCell(x, y, 'flower')[0];
    }
 
     protected handlePollination(insect: Insect, flower: Flower, context: InsectBehaviorContext) {
         const { pollen } = insect;
-        if (pollen && pollen.sourceFlowerId !== flower.id && flower.isMature && Math.random() < INSECT_POLLINATION_CHANCE) {
+        const chance = pollen && flower.isMature ? INSECT_POLLINATION_CHANCE * fertilisationChance(pollen.sourceFlowerId, pollen.sex, flower) : 0;
+        if (pollen && chance > 0 && random() < chance) {
             const spawnSpot = findCellForFlowerSpawn(context.grid, context.params, { x: flower.x, y: flower.y }, context.claimedCellsThisTick);
             if (spawnSpot) {
                 const seed = context.asyncFlowerFactory.requestNewFlower(context.nextActorState, spawnSpot.x, spawnSpot.y, flower.genome, pollen.genome, context.getNextId);
@@ -293,9 +298,11 @@ export class HoneybeeBehavior extends InsectBehavior {
 
     private handleCollectPollen(insect: Insect, flower: Flower, context: InsectBehaviorContext) {
         this.handlePollination(insect, flower, context);
+        // A female flower has no pollen to collect, so the bee keeps what it carries.
+        if (!makesPollen(flower.sex)) return;
         let pollenScore = scoreFlower(insect, flower);
         pollenScore = Math.max(0, pollenScore);
-        insect.pollen = { genome: flower.genome, sourceFlowerId: flower.id, score: pollenScore };
+        insect.pollen = { genome: flower.genome, sourceFlowerId: flower.id, score: pollenScore, sex: flower.sex };
         if (pollenScore > 5) {
             // Set the intent to signal a good food source at the end of the turn.
             insect.signalToSend = { type: 'HIGH_VALUE_FLOWER_FOUND', origin: { x: flower.x, y: flower.y } };
@@ -309,9 +316,7 @@ export class HoneybeeBehavior extends InsectBehavior {
                 hive.pollen += score;
                 const learningRate = Math.min(0.05, score / 500);
                 if (hive.genome && hive.genome.length === insect.genome.length) {
-                    for (let i = 0; i < hive.genome.length; i++) {
-                        hive.genome[i] = (1 - learningRate) * hive.genome[i] + learningRate * insect.genome[i];
-                    }
+                    hive.genome = hive.genome.map((gene, i) => (1 - learningRate) * gene + learningRate * insect.genome[i]);
                 }
             }
             insect.pollen = null;
@@ -332,10 +337,8 @@ export class HoneybeeBehavior extends InsectBehavior {
     }
     
     private findNearestEnemy(insect: Insect, context: InsectBehaviorContext): Insect | null {
-        const vision = new Rectangle(insect.x, insect.y, BEE_VISION_RANGE, BEE_VISION_RANGE);
-        const nearbyBees = context.qtree.query(vision)
-            .map(p => p.data)
-            .filter((a: any) => a.type === 'insect' && (a as Insect).emoji === '🐝' && (a as Insect).hiveId !== insect.hiveId && context.nextActorState.has(a.id)) as Insect[];
+        const nearbyBees = context.spatialHash.within(insect.x, insect.y, BEE_VISION_RANGE, 'insect')
+            .filter(a => a.emoji === '🐝' && a.hiveId !== insect.hiveId);
 
         if (nearbyBees.length === 0) return null;
 
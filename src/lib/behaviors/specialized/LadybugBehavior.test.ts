@@ -1,9 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { LadybugBehavior } from './LadybugBehavior';
 import type { Insect, Flower, CellContent, SimulationParams, AppEvent } from '../../../types';
-import { Quadtree, Rectangle } from '../../Quadtree';
+import { SpatialHash } from '../../SpatialHash';
 import { 
-    INSECT_DATA, 
     DEFAULT_SIM_PARAMS, 
     INSECT_STAMINA_REGEN_PER_TICK,
     INSECT_MOVE_COST,
@@ -14,9 +13,12 @@ import {
     FLOWER_STAT_INDICES
 } from '../../../constants';
 import { AsyncFlowerFactory } from '../../asyncFlowerFactory';
+import { TerrainMap } from '../../terrain';
+import { PathfindingService } from '../../pathfinding';
+import { speciesRegistry } from '../../speciesRegistry';
 
-const LADYBUG_DATA = INSECT_DATA.get('🐞')!;
-const CATERPILLAR_DATA = INSECT_DATA.get('🐛')!;
+const LADYBUG_DATA = speciesRegistry.getStats('🐞')!;
+const CATERPILLAR_DATA = speciesRegistry.getStats('🐛')!;
 
 vi.mock('../../asyncFlowerFactory');
 
@@ -24,8 +26,7 @@ describe('LadybugBehavior', () => {
     let behavior: LadybugBehavior;
     let ladybug: Insect;
     let nextActorState: Map<string, CellContent>;
-    let qtree: Quadtree<CellContent>;
-    let flowerQtree: Quadtree<CellContent>;
+    let spatialHash: SpatialHash;
     let events: AppEvent[];
     const params: SimulationParams = { ...DEFAULT_SIM_PARAMS, gridWidth: 20, gridHeight: 20 };
     
@@ -54,20 +55,21 @@ describe('LadybugBehavior', () => {
         };
         nextActorState = new Map();
         nextActorState.set(ladybug.id, ladybug);
-        const boundary = new Rectangle(params.gridWidth / 2, params.gridHeight / 2, params.gridWidth / 2, params.gridHeight / 2);
-        qtree = new Quadtree(boundary, 4);
-        flowerQtree = new Quadtree(boundary, 4);
+        spatialHash = new SpatialHash(params.gridWidth, params.gridHeight);
         events = [];
     });
     
     const setupContext = (): any => ({
         params,
-        qtree,
-        flowerQtree,
+        spatialHash,
         nextActorState,
         events,
         grid: Array.from({ length: params.gridHeight }, () => Array.from({ length: params.gridWidth }, () => [])),
         asyncFlowerFactory: new (AsyncFlowerFactory as any)(),
+        terrain: TerrainMap.flat(params.gridWidth, params.gridHeight),
+        pathfinder: new PathfindingService(params.gridWidth, params.gridHeight),
+        isNight: false,
+        wind: { direction: 'N', strength: 0 },
         incrementInsectsDiedOfOldAge: vi.fn(),
         currentTemperature: params.temperature,
         newActorQueue: [],
@@ -78,8 +80,8 @@ describe('LadybugBehavior', () => {
         const farCaterpillar = createMockCaterpillar('c2', 15, 15);
         nextActorState.set(closeCaterpillar.id, closeCaterpillar);
         nextActorState.set(farCaterpillar.id, farCaterpillar);
-        qtree.insert({ x: closeCaterpillar.x, y: closeCaterpillar.y, data: closeCaterpillar });
-        qtree.insert({ x: farCaterpillar.x, y: farCaterpillar.y, data: farCaterpillar });
+        spatialHash.insert(closeCaterpillar);
+        spatialHash.insert(farCaterpillar);
         
         behavior.update(ladybug, setupContext());
 
@@ -103,7 +105,7 @@ describe('LadybugBehavior', () => {
         ladybug.health = 50;
         ladybug.stamina = 20;
         const context = setupContext();
-        context.qtree.insert({ x: caterpillar.x, y: caterpillar.y, data: caterpillar });
+        context.spatialHash.insert(caterpillar);
 
         behavior.update(ladybug, context);
         
@@ -121,7 +123,7 @@ describe('LadybugBehavior', () => {
     it('should patrol towards a random flower if no caterpillars are nearby', () => {
         const flower1 = createMockFlower('f1', 12, 12);
         nextActorState.set(flower1.id, flower1);
-        flowerQtree.insert({ x: flower1.x, y: flower1.y, data: flower1 });
+        spatialHash.insert(flower1);
 
         behavior.update(ladybug, setupContext());
 
@@ -8,8 +8,8 @@ import {
 } from '../../../constants';
 import { InsectBehavior } from '../base/InsectBehavior';
 import type { InsectBehaviorContext } from '../../../types';
-import { Rectangle } from '../../Quadtree';
-import { getActorsOnCell } from '../../simulationUtils';
+import { random } from '../../random';
+import { makesPollen } from '../../flowerSex';
 
 const LADYBUG_VISION_RANGE = 7;
 
@@ -53,7 +53,7 @@ export class LadybugBehavior extends InsectBehavior {
     }
 
     private handleInteraction(insect: Insect, context: InsectBehaviorContext): 'prey' | 'flower' | null {
-        const actorsOnCell = getActorsOnCell(context.qtree, context.nextActorState, insect.x, insect.y);
+        const actorsOnCell = context.spatialHash.getOnCell(insect.x, insect.y);
         // Priority 1: Eat caterpillar
         const caterpillarOnCell = actorsOnCell
             .find(a => a.type === 'insect' && (a as Insect).emoji === '🐛') as Insect | undefined;
@@ -91,7 +91,9 @@ export class LadybugBehavior extends InsectBehavior {
         const flowerOnCell = this.findFlowerOnCell(insect.x, insect.y, context);
         if (flowerOnCell && !insect.isHunting) {
             this.handlePollination(insect, flowerOnCell, context);
-            insect.pollen = { genome: flowerOnCell.genome, sourceFlowerId: flowerOnCell.id, score: 0 };
+            if (makesPollen(flowerOnCell.sex)) {
+                insect.pollen = { genome: flowerOnCell.genome, sourceFlowerId: flowerOnCell.id, score: 0, sex: flowerOnCell.sex };
+            }
             return 'flower';
         }
 
@@ -144,8 +146,7 @@ export class LadybugBehavior extends InsectBehavior {
     }
 
     private findPrey(insect: Insect, context: InsectBehaviorContext): Insect | Egg | Cocoon | null {
-        const vision = new Rectangle(insect.x, insect.y, LADYBUG_VISION_RANGE, LADYBUG_VISION_RANGE);
-        const nearbyActors = context.qtree.query(vision).map(p => p.data);
+        const nearbyActors = context.spatialHash.within(insect.x, insect.y, LADYBUG_VISION_RANGE);
 
         // Priority 1: Caterpillars
         const nearbyCaterpillars = nearbyActors
@@ -180,13 +181,10 @@ export class LadybugBehavior extends InsectBehavior {
     }
     
     private findRandomFlower(insect: Insect, context: InsectBehaviorContext): Flower | null {
-        const vision = new Rectangle(insect.x, insect.y, LADYBUG_VISION_RANGE, LADYBUG_VISION_RANGE);
-        const nearbyFlowers = context.flowerQtree.query(vision)
-            .map(p => p.data as Flower)
-            .filter(f => context.nextActorState.has(f.id));
+        const nearbyFlowers = context.spatialHash.within(insect.x, insect.y, LADYBUG_VISION_RANGE, 'flower');
 
         if (nearbyFlowers.length === 0) return null;
         
-        return nearbyFlowers[Math.floor(Math.random() * nearbyFlowers.length)];
+        return nearbyFlowers[Math.floor(random() * nearbyFlowers.length)];
     }
 }
@@ -1,9 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ScorpionBehavior } from './ScorpionBehavior';
 import type { Insect, CellContent, SimulationParams, AppEvent, Corpse } from '../../../types';
-import { Quadtree, Rectangle } from '../../Quadtree';
+import { SpatialHash } from '../../SpatialHash';
 import { 
-    INSECT_DATA, 
     DEFAULT_SIM_PARAMS, 
     SCORPION_HEAL_FROM_PREY,
     INSECT_ATTACK_COST,
@@ -11,8 +10,11 @@ import {
     INSECT_STAMINA_REGEN_PER_TICK
 } from '../../../constants';
 import { AsyncFlowerFactory } from '../../asyncFlowerFactory';
+import { TerrainMap } from '../../terrain';
+import { PathfindingService } from '../../pathfinding';
+import { speciesRegistry } from '../../speciesRegistry';
 
-const SCORPION_DATA = INSECT_DATA.get('🦂')!;
+const SCORPION_DATA = speciesRegistry.getStats('🦂')!;
 
 vi.mock('../../asyncFlowerFactory');
 
@@ -20,13 +22,13 @@ describe('ScorpionBehavior', () => {
     let behavior: ScorpionBehavior;
     let scorpion: Insect;
     let nextActorState: Map<string, CellContent>;
-    let qtree: Quadtree<CellContent>;
+    let spatialHash: SpatialHash;
     let events: AppEvent[];
     const getNextId = vi.fn();
     const params: SimulationParams = { ...DEFAULT_SIM_PARAMS, gridWidth: 20, gridHeight: 20 };
     
     const createMockPrey = (id: string, x: number, y: number, emoji: '🪲' | '🐌' | '🪳' | '🐞'): Insect => {
-        const data = INSECT_DATA.get(emoji)!;
+        const data = speciesRegistry.getStats(emoji)!;
         return {
             id, type: 'insect', x, y, emoji, pollen: null, genome: [],
             health: data.maxHealth, maxHealth: data.maxHealth,
@@ -44,20 +46,22 @@ describe('ScorpionBehavior', () => {
         };
         nextActorState = new Map();
         nextActorState.set(scorpion.id, scorpion);
-        const boundary = new Rectangle(params.gridWidth / 2, params.gridHeight / 2, params.gridWidth / 2, params.gridHeight / 2);
-        qtree = new Quadtree(boundary, 4);
+        spatialHash = new SpatialHash(params.gridWidth, params.gridHeight);
         events = [];
         getNextId.mockClear().mockImplementation((type, x, y) => `${type}-${x}-${y}-${Math.random()}`);
     });
     
     const setupContext = (): any => ({
         params,
-        qtree,
+        spatialHash,
         nextActorState,
         events,
         grid: Array.from({ length: params.gridHeight }, () => Array.from({ length: params.gridWidth }, () => [])),
-        flowerQtree: new Quadtree(new Rectangle(10,10,10,10), 4),
         asyncFlowerFactory: new (AsyncFlowerFactory as any)(),
+        terrain: TerrainMap.flat(params.gridWidth, params.gridHeight),
+        pathfinder: new PathfindingService(params.gridWidth, params.gridHeight),
+        isNight: false,
+        wind: { direction: 'N', strength: 0 },
         incrementInsectsDiedOfOldAge: vi.fn(),
         currentTemperature: params.temperature,
         newActorQueue: [],
@@ -69,8 +73,8 @@ describe('ScorpionBehavior', () => {
         const ladybug = createMockPrey('ladybug1', 8, 8, '🐞'); // Closer but lower priority
         nextActorState.set(beetle.id, beetle);
         nextActorState.set(ladybug.id, ladybug);
-        qtree.insert({ x: beetle.x, y: beetle.y, data: beetle });
-        qtree.insert({ x: ladybug.x, y: ladybug.y, data: ladybug });
+        spatialHash.insert(beetle);
+        spatialHash.insert(ladybug);
         
         behavior.update(scorpion, setupContext());
 
@@ -88,7 +92,7 @@ describe('ScorpionBehavior', () => {
         const initialScorpionStamina = scorpion.stamina;
 
         const context = setupContext();
-        context.qtree.insert({ x: beetle.x, y: beetle.y, data: beetle });
+        context.spatialHash.insert(beetle);
         
         behavior.update(scorpion, context);
 
@@ -113,7 +117,7 @@ describe('ScorpionBehavior', () => {
         scorpion.targetId = beetle.id;
 
         const context = setupContext();
-        context.qtree.insert({ x: beetle.x, y: beetle.y, data: beetle });
+        context.spatialHash.insert(beetle);
         behavior.update(scorpion, context);
 
         expect(nextActorState.has(beetle.id)).toBe(false);
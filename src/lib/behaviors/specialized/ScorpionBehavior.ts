@@ -5,14 +5,12 @@ import {
     INSECT_MOVE_COST,
     INSECT_ATTACK_COST,
     SCORPION_HEAL_FROM_PREY,
-    INSECT_DATA,
     CORPSE_DECAY_TIME,
     FOOD_VALUE_CORPSE,
 } from '../../../constants';
 import { InsectBehavior } from '../base/InsectBehavior';
 import type { InsectBehaviorContext } from '../../../types';
-import { Rectangle } from '../../Quadtree';
-import { getActorsOnCell } from '../../simulationUtils';
+import { speciesRegistry } from '../../speciesRegistry';
 
 const SCORPION_VISION_RANGE = 6;
 const PREY_PRIORITY = ['🪲', '🐌', '🪳', '🐞']; // Beetle, Snail, Cockroach, Ladybug
@@ -44,11 +42,11 @@ export class ScorpionBehavior extends InsectBehavior {
     }
 
     private handleInteraction(insect: Insect, context: InsectBehaviorContext): boolean {
-        const actorsOnCell = getActorsOnCell(context.qtree, context.nextActorState, insect.x, insect.y);
+        const actorsOnCell = context.spatialHash.getOnCell(insect.x, insect.y);
         const targetOnCell = actorsOnCell.find(a => a.id === insect.targetId) as Insect | undefined;
 
         if (targetOnCell && insect.stamina >= INSECT_ATTACK_COST) {
-            const baseStats = INSECT_DATA.get(insect.emoji)!;
+            const baseStats = speciesRegistry.getStats(insect.emoji)!;
             targetOnCell.health -= baseStats.attack;
             insect.stamina -= INSECT_ATTACK_COST;
 
@@ -57,7 +55,7 @@ export class ScorpionBehavior extends InsectBehavior {
                 context.nextActorState.delete(targetOnCell.id);
                 // Create a corpse
                 const corpseId = context.getNextId('corpse', targetOnCell.x, targetOnCell.y);
-                const preyBaseStats = INSECT_DATA.get(targetOnCell.emoji);
+                const preyBaseStats = speciesRegistry.getStats(targetOnCell.emoji);
                 const foodValue = preyBaseStats ? preyBaseStats.maxHealth : FOOD_VALUE_CORPSE;
                 context.newActorQueue.push({ 
                     id: corpseId, type: 'corpse', x: targetOnCell.x, y: targetOnCell.y, 
@@ -110,10 +108,8 @@ export class ScorpionBehavior extends InsectBehavior {
     }
 
     private findPrey(insect: Insect, context: InsectBehaviorContext): Insect | null {
-        const vision = new Rectangle(insect.x, insect.y, SCORPION_VISION_RANGE, SCORPION_VISION_RANGE);
-        const nearbyActors = context.qtree.query(vision)
-            .map(p => p.data)
-            .filter(a => (a?.type === 'insect' || a?.type === 'cockroach') && context.nextActorState.has(a.id)) as Insect[];
+        const nearbyActors = context.spatialHash.within(insect.x, insect.y, SCORPION_VISION_RANGE)
+            .filter(a => a.type === 'insect' || a.type === 'cockroach') as Insect[];
 
         for (const preyType of PREY_PRIORITY) {
             const potentialTargets = nearbyActors.filter(a => a.emoji === preyType);
@@ -1,9 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { SnailBehavior } from './SnailBehavior';
 import type { Insect, Flower, CellContent, SimulationParams, AppEvent, SlimeTrail, Grid } from '../../../types';
-import { Quadtree, Rectangle } from '../../Quadtree';
+import { SpatialHash } from '../../SpatialHash';
 import { 
-    INSECT_DATA, 
     DEFAULT_SIM_PARAMS, 
     SNAIL_MOVE_COOLDOWN,
     SLIME_TRAIL_LIFESPAN,
@@ -11,8 +10,11 @@ import {
     INSECT_WANDER_CHANCE,
 } from '../../../constants';
 import { AsyncFlowerFactory } from '../../asyncFlowerFactory';
+import { TerrainMap } from '../../terrain';
+import { PathfindingService } from '../../pathfinding';
+import { speciesRegistry } from '../../speciesRegistry';
 
-const SNAIL_DATA = INSECT_DATA.get('🐌')!;
+const SNAIL_DATA = speciesRegistry.getStats('🐌')!;
 
 vi.mock('../../asyncFlowerFactory');
 
@@ -20,7 +22,7 @@ describe('SnailBehavior', () => {
     let behavior: SnailBehavior;
     let snail: Insect;
     let nextActorState: Map<string, CellContent>;
-    let flowerQtree: Quadtree<CellContent>;
+    let spatialHash: SpatialHash;
     let events: AppEvent[];
     let newActorQueue: CellContent[];
     let grid: Grid;
@@ -48,8 +50,7 @@ describe('SnailBehavior', () => {
         grid[snail.y][snail.x].push(snail);
         nextActorState = new Map();
         nextActorState.set(snail.id, snail);
-        const boundary = new Rectangle(params.gridWidth / 2, params.gridHeight / 2, params.gridWidth / 2, params.gridHeight / 2);
-        flowerQtree = new Quadtree(boundary, 4);
+        spatialHash = new SpatialHash(params.gridWidth, params.gridHeight);
         events = [];
         newActorQueue = [];
         getNextId.mockClear().mockImplementation((type, x, y) => `${type}-${x}-${y}-${Math.random()}`);
@@ -57,13 +58,16 @@ describe('SnailBehavior', () => {
     
     const setupContext = (): any => ({
         params,
-        flowerQtree,
+        spatialHash,
         nextActorState,
         events,
         newActorQueue,
         grid,
-        qtree: new Quadtree(new Rectangle(10, 10, 10, 10), 4),
         asyncFlowerFactory: new (AsyncFlowerFactory as any)(),
+        terrain: TerrainMap.flat(params.gridWidth, params.gridHeight),
+        pathfinder: new PathfindingService(params.gridWidth, params.gridHeight),
+        isNight: false,
+        wind: { direction: 'N', strength: 0 },
         incrementInsectsDiedOfOldAge: vi.fn(),
         currentTemperature: params.temperature,
         getNextId,
@@ -85,7 +89,7 @@ describe('SnailBehavior', () => {
     it('should move, reset its cooldown, and leave a slime trail when cooldown is 0', () => {
         const flower = createMockFlower('f1', 12, 12);
         nextActorState.set(flower.id, flower);
-        flowerQtree.insert({ x: flower.x, y: flower.y, data: flower });
+        spatialHash.insert(flower);
         const initialX = snail.x;
         const initialY = snail.y;
 
@@ -110,7 +114,7 @@ describe('SnailBehavior', () => {
         const initialFlowerHealth = flower.health;
 
         const context = setupContext();
-        context.qtree.insert({ x: flower.x, y: flower.y, data: flower });
+        context.spatialHash.insert(flower);
         
         behavior.update(snail, context);
 
@@ -126,7 +130,7 @@ describe('SnailBehavior', () => {
         
         const flower = createMockFlower('f1', 12, 12);
         nextActorState.set(flower.id, flower);
-        flowerQtree.insert({ x: flower.x, y: flower.y, data: flower });
+        spatialHash.insert(flower);
 
         // The moveTowards method in the base class should see the snail emoji and not apply the slow factor.
         // It moves from (10,10) towards (12,12). Speed is 1. Should move to (11,11).
@@ -148,7 +152,7 @@ describe('SnailBehavior', () => {
         const initialX = snail.x;
         const initialY = snail.y;
 
-        // No flowers in the qtree
+        // No flowers in the spatial hash
         behavior.update(snail, setupContext());
 
         const moved = snail.x !== initialX || snail.y !== initialY;
@@ -1,17 +1,19 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { SpiderBehavior } from './SpiderBehavior';
 import type { Insect, Flower, CellContent, SimulationParams, SpiderWeb, Corpse } from '../../../types';
-import { Quadtree, Rectangle } from '../../Quadtree';
+import { SpatialHash } from '../../SpatialHash';
 import { 
-    INSECT_DATA, 
     DEFAULT_SIM_PARAMS, 
     INSECT_HEALTH_DECAY_PER_TICK,
     FLOWER_STAT_INDICES,
 } from '../../../constants';
 import { AsyncFlowerFactory } from '../../asyncFlowerFactory';
+import { TerrainMap } from '../../terrain';
+import { PathfindingService } from '../../pathfinding';
 import { SPIDER_HEAL_FROM_PREY } from '../../../constants';
+import { speciesRegistry } from '../../speciesRegistry';
 
-const SPIDER_DATA = INSECT_DATA.get('🕷️')!;
+const SPIDER_DATA = speciesRegistry.getStats('🕷️')!;
 
 vi.mock('../../asyncFlowerFactory');
 
@@ -19,8 +21,7 @@ describe('SpiderBehavior', () => {
     let behavior: SpiderBehavior;
     let spider: Insect;
     let nextActorState: Map<string, CellContent>;
-    let qtree: Quadtree<CellContent>;
-    let flowerQtree: Quadtree<CellContent>;
+    let spatialHash: SpatialHash;
     let newActorQueue: CellContent[];
     const getNextId = vi.fn();
     const params: SimulationParams = { 
@@ -46,17 +47,14 @@ describe('SpiderBehavior', () => {
         };
         nextActorState = new Map();
         nextActorState.set(spider.id, spider);
-        const boundary = new Rectangle(params.gridWidth / 2, params.gridHeight / 2, params.gridWidth / 2, params.gridHeight / 2);
-        qtree = new Quadtree(boundary, 4);
-        flowerQtree = new Quadtree(boundary, 4);
+        spatialHash = new SpatialHash(params.gridWidth, params.gridHeight);
         newActorQueue = [];
         getNextId.mockClear().mockImplementation((type, x, y) => `${type}-${x}-${y}-${Math.random()}`);
     });
     
     const setupContext = (): any => ({
         params,
-        qtree,
-        flowerQtree,
+        spatialHash,
         nextActorState,
         newActorQueue,
         events: [],
@@ -66,6 +64,10 @@ describe('SpiderBehavior', () => {
         currentTemperature: params.temperature,
         getNextId,
         claimedCellsThisTick: new Set<string>(),
+        terrain: TerrainMap.flat(params.gridWidth, params.gridHeight),
+        pathfinder: new PathfindingService(params.gridWidth, params.gridHeight),
+        isNight: false,
+        wind: { direction: 'N', strength: 0 },
     });
 
     it('should wander when ambushing with no webs and no good build spots', () => {
@@ -99,7 +101,7 @@ describe('SpiderBehavior', () => {
         spider.decisionCooldown = 0; // Force decision
         const context = setupContext();
         context.nextActorState.set(flower.id, flower);
-        context.flowerQtree.insert({ x: flower.x, y: flower.y, data: flower });
+        context.spatialHash.insert(flower);
         
         behavior.update(spider, context);
 
@@ -1,4 +1,4 @@
-import type { Insect, SpiderWeb, Flower } from '../../../types';
+import type { Insect, SpiderWeb } from '../../../types';
 import { 
     INSECT_DORMANCY_TEMP, 
     INSECT_STAMINA_REGEN_PER_TICK,
@@ -8,9 +8,10 @@ import {
 } from '../../../constants';
 import { InsectBehavior } from '../base/InsectBehavior';
 import type { InsectBehaviorContext } from '../../../types';
-import { Rectangle } from '../../Quadtree';
-import { SPIDER_HEAL_FROM_PREY, INSECT_DATA } from '../../../constants';
-import { neighborVectors, scoreFlower, getActorsOnCell } from '../../simulationUtils';
+import { SPIDER_HEAL_FROM_PREY } from '../../../constants';
+import { neighborVectors, scoreFlower } from '../../simulationUtils';
+import { random } from '../../random';
+import { speciesRegistry } from '../../speciesRegistry';
 
 const SPIDER_DECISION_COOLDOWN = 10;
 
@@ -38,7 +39,7 @@ export class SpiderBehavior extends InsectBehavior {
 
         // If cooldown is 0, make a new decision, then execute
         this.decideNextAction(insect, context);
-        insect.decisionCooldown = SPIDER_DECISION_COOLDOWN + Math.floor(Math.random() * 5);
+        insect.decisionCooldown = SPIDER_DECISION_COOLDOWN + Math.floor(random() * 5);
         this.executeCurrentState(insect, context);
     }
     
@@ -136,7 +137,7 @@ export class SpiderBehavior extends InsectBehavior {
             case 'ambushing':
                 // Move to a random web in the network to wait.
                 if (spider.webs!.length > 0) {
-                    const randomWebId = spider.webs![Math.floor(Math.random() * spider.webs!.length)];
+                    const randomWebId = spider.webs![Math.floor(random() * spider.webs!.length)];
                     const targetWeb = context.nextActorState.get(randomWebId);
                     if (targetWeb && (spider.x !== targetWeb.x || spider.y !== targetWeb.y)) {
                          hasActed = this.moveTowardsTarget(spider, targetWeb, context);
@@ -196,7 +197,7 @@ export class SpiderBehavior extends InsectBehavior {
     }
 
     private findWebExpansionSpot(spider: Insect, context: InsectBehaviorContext): { x: number; y: number } | null {
-        const { params, flowerQtree, qtree, nextActorState, claimedCellsThisTick } = context;
+        const { params, spatialHash, claimedCellsThisTick } = context;
         const searchRadius = 3;
         
         const possibleSpots: { x: number; y: number }[] = [];
@@ -223,15 +224,14 @@ export class SpiderBehavior extends InsectBehavior {
                 continue; // Skip already claimed spots
             }
 
-            const actorsOnCell = getActorsOnCell(qtree, nextActorState, spot.x, spot.y);
+            const actorsOnCell = spatialHash.getOnCell(spot.x, spot.y);
             // A spot is valid if it doesn't have a web or another colony-like structure.
             if (actorsOnCell.some(a => a.type === 'spiderweb' || a.type === 'hive' || a.type === 'antColony')) {
                 continue; // Skip invalid spots
             }
 
             let score = 0;
-            const vision = new Rectangle(spot.x, spot.y, searchRadius, searchRadius);
-            const nearbyFlowers = flowerQtree.query(vision).map(p => p.data as Flower);
+            const nearbyFlowers = spatialHash.within(spot.x, spot.y, searchRadius, 'flower');
             
             for (const flower of nearbyFlowers) {
                 score += scoreFlower(spider, flower);
@@ -304,7 +304,7 @@ export class SpiderBehavior extends InsectBehavior {
             context.nextActorState.delete(prey.id);
             
             const corpseId = context.getNextId('corpse', prey.x, prey.y);
-            const preyBaseStats = INSECT_DATA.get(prey.emoji);
+            const preyBaseStats = speciesRegistry.getStats(prey.emoji);
             const foodValue = preyBaseStats ? preyBaseStats.maxHealth : FOOD_VALUE_CORPSE;
             context.newActorQueue.push({ id: corpseId, type: 'corpse', x: prey.x, y: prey.y, originalEmoji: prey.emoji, decayTimer: CORPSE_DECAY_TIME, foodValue });
 
@@ -1,14 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { processSpiderWebTick } from './spiderWebBehavior';
 import type { SpiderWeb, Insect, CellContent, SimulationParams, AppEvent } from '../../types';
-import { INSECT_DATA, DEFAULT_SIM_PARAMS } from '../../constants';
-import { Quadtree, Rectangle } from '../Quadtree';
+import { DEFAULT_SIM_PARAMS } from '../../constants';
+import { SpatialHash } from '../SpatialHash';
+import { speciesRegistry } from '../speciesRegistry';
 
 describe('SpiderWebBehavior', () => {
     let web: SpiderWeb;
     let nextActorState: Map<string, CellContent>;
     let events: AppEvent[];
-    let qtree: Quadtree<CellContent>;
+    let spatialHash: SpatialHash;
     const params: SimulationParams = { 
         ...DEFAULT_SIM_PARAMS, 
         spiderWebStrength: 20,
@@ -24,17 +25,15 @@ describe('SpiderWebBehavior', () => {
         nextActorState = new Map();
         nextActorState.set(web.id, web);
         events = [];
-        
-        const boundary = new Rectangle(params.gridWidth / 2, params.gridHeight / 2, params.gridWidth / 2, params.gridHeight / 2);
-        qtree = new Quadtree(boundary, 4);
-        qtree.insert({ x: web.x, y: web.y, data: web });
+        spatialHash = new SpatialHash(params.gridWidth, params.gridHeight);
+        spatialHash.insert(web);
     });
     
     const setupContext = (): any => ({
         params,
         nextActorState,
         events,
-        qtree,
+        spatialHash,
     });
     
     it('should decrement its lifespan', () => {
@@ -57,7 +56,7 @@ describe('SpiderWebBehavior', () => {
             isTrapped: false,
         } as Insect;
         nextActorState.set(beetle.id, beetle);
-        qtree.insert({ x: beetle.x, y: beetle.y, data: beetle });
+        spatialHash.insert(beetle);
         
         processSpiderWebTick(web, setupContext());
 
@@ -71,7 +70,7 @@ describe('SpiderWebBehavior', () => {
             id: 'bfly1', type: 'insect', x: 5, y: 5, emoji: '🦋',
         } as Insect;
         nextActorState.set(butterfly.id, butterfly);
-        qtree.insert({ x: butterfly.x, y: butterfly.y, data: butterfly });
+        spatialHash.insert(butterfly);
         
         processSpiderWebTick(web, setupContext());
 
@@ -79,7 +78,7 @@ describe('SpiderWebBehavior', () => {
     });
 
     it('should allow a trapped insect to escape if it is strong enough', () => {
-        const beetleData = INSECT_DATA.get('🪲')!;
+        const beetleData = speciesRegistry.getStats('🪲')!;
         const beetle: Insect = { 
             id: 'beetle1', type: 'insect', x: 5, y: 5, emoji: '🪲',
             stamina: beetleData.maxStamina, isTrapped: true
@@ -102,7 +101,7 @@ describe('SpiderWebBehavior', () => {
     });
     
     it('should reduce stamina of a trapped insect that fails to escape', () => {
-        const beetleData = INSECT_DATA.get('🪲')!;
+        const beetleData = speciesRegistry.getStats('🪲')!;
         const beetle: Insect = { 
             id: 'beetle1', type: 'insect', x: 5, y: 5, emoji: '🪲',
             stamina: beetleData.maxStamina, isTrapped: true
@@ -1,17 +1,15 @@
 import type { SpiderWeb, Insect, SimulationParams, CellContent, AppEvent } from '../../types';
-import { INSECT_DATA } from '../../constants';
-import { getActorsOnCell } from '../simulationUtils';
-import type { Quadtree } from '../Quadtree';
+import type { SpatialHash } from '../SpatialHash';
+import { random } from '../random';
+import { speciesRegistry } from '../speciesRegistry';
 
 interface SpiderWebContext {
     nextActorState: Map<string, CellContent>;
     events: AppEvent[];
     params: SimulationParams;
-    qtree: Quadtree<CellContent>;
+    spatialHash: SpatialHash;
 }
 
-const FLYING_INSECTS = ['🦋', '🐞', '🐝'];
-
 export const processSpiderWebTick = (web: SpiderWeb, context: SpiderWebContext) => {
     const { nextActorState, events, params } = context;
 
@@ -33,10 +31,10 @@ export const processSpiderWebTick = (web: SpiderWeb, context: SpiderWebContext)
         }
 
         // Escape attempt
-        const insectStats = INSECT_DATA.get(trappedInsect.emoji);
+        const insectStats = speciesRegistry.getStats(trappedInsect.emoji);
         if (insectStats) {
             const escapeChance = (insectStats.attack / web.strength) * params.spiderEscapeChanceModifier;
-            if (Math.random() < escapeChance) {
+            if (random() < escapeChance) {
                 // Escape successful
                 web.strength -= insectStats.attack;
                 trappedInsect.isTrapped = false;
@@ -57,13 +55,13 @@ export const processSpiderWebTick = (web: SpiderWeb, context: SpiderWebContext)
         }
     } else {
         // Try to trap a new insect
-        const actorsOnCell = getActorsOnCell(context.qtree, context.nextActorState, web.x, web.y);
+        const actorsOnCell = context.spatialHash.getOnCell(web.x, web.y);
         const potentialPrey = actorsOnCell.find(a => 
-            (a.type === 'insect' && !FLYING_INSECTS.includes((a as Insect).emoji) && a.id !== web.ownerId) || 
+            (a.type === 'insect' && !speciesRegistry.get((a as Insect).emoji)?.flies && a.id !== web.ownerId) || 
             a.type === 'cockroach'
         ) as Insect | undefined;
 
-        if (potentialPrey && !potentialPrey.isTrapped && Math.random() < params.spiderWebTrapChance) {
+        if (potentialPrey && !potentialPrey.isTrapped && random() < params.spiderWebTrapChance) {
             potentialPrey.isTrapped = true;
             web.trappedActorId = potentialPrey.id;
             events.push({ message: `🕸️ A ${potentialPrey.emoji} got trapped in a web!`, type: 'info', importance: 'low' });
@@ -13,10 +13,9 @@ export const processTerritoryMarkTick = (mark: TerritoryMark, context: Territory
     }
     
     // Signal TTL also decays each tick if it exists
+    // The signal is replaced rather than edited, so the change shows up in the tick's deltas.
     if (mark.signal) {
-        mark.signal.ttl--;
-        if (mark.signal.ttl <= 0) {
-            mark.signal = undefined;
-        }
+        const ttl = mark.signal.ttl - 1;
+        mark.signal = ttl > 0 ? { ...mark.signal, ttl } : undefined;
     }
 };
\ No newline at end of file
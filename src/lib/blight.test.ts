@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { blightResistance, progressBlight, spreadBlight } from './blight';
+import { SpatialHash } from './SpatialHash';
+import { BLIGHT_RECOVERY_CHANCE, DEFAULT_SIM_PARAMS } from '../constants';
+import type { AppEvent, Flower, FlowerEffects } from '../types';
+
+const params = { ...DEFAULT_SIM_PARAMS, blightOutbreakChance: 0.5, blightSpreadChance: 0.2, blightHealthDamage: 3 };
+
+const createFlower = (id: string, x: number, y: number, effects: Partial<FlowerEffects> = {}): Flower => ({
+    id, type: 'flower', x, y, genome: 'g', imageData: '', health: 100, stamina: 100,
+    age: 60, isMature: true, maxHealth: 100, maxStamina: 100, maturationPeriod: 50,
+    nutrientEfficiency: 1, sex: 'both', minTemperature: 0, maxTemperature: 40, toxicityRate: 0,
+    effects: { vitality: 0, agility: 0, strength: 0, intelligence: 0, luck: 0, ...effects },
+});
+
+const setup = (flowers: Flower[]) => {
+    const nextActorState = new Map(flowers.map(flower => [flower.id, flower]));
+    const spatialHash = new SpatialHash(params.gridWidth, params.gridHeight);
+    flowers.forEach(flower => spatialHash.insert(flower));
+    return { nextActorState, spatialHash };
+};
+
+describe('blightResistance', () => {
+    it('should rise with vitality and strength, never reaching 1', () => {
+        const weak = blightResistance(createFlower('a', 0, 0));
+        const sturdy = blightResistance(createFlower('b', 0, 0, { vitality: 10, strength: 10 }));
+        const tough = blightResistance(createFlower('c', 0, 0, { vitality: 200, strength: 200 }));
+
+        expect(weak).toBe(0);
+        expect(sturdy).toBeCloseTo(0.5);
+        expect(tough).toBeGreaterThan(sturdy);
+        expect(tough).toBeLessThan(1);
+    });
+});
+
+describe('spreadBlight', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should start an outbreak now and then when no flower is blighted', () => {
+        const flowers = [createFlower('a', 1, 1), createFlower('b', 5, 5)];
+        const { nextActorState, spatialHash } = setup(flowers);
+        const events: AppEvent[] = [];
+        vi.spyOn(Math, 'random').mockReturnValue(0.4);
+
+        spreadBlight(nextActorState, spatialHash, params, 0.5, events);
+
+        expect(flowers.filter(flower => flower.isBlighted)).toHaveLength(1);
+        expect(events[0]).toMatchObject({ importance: 'high' });
+    });
+
+    it('should spread only to neighbouring flowers', () => {
+        const source = { ...createFlower('source', 4, 4), isBlighted: true };
+        const neighbour = createFlower('neighbour', 5, 5);
+        const distant = createFlower('distant', 7, 4);
+        const { nextActorState, spatialHash } = setup([source, neighbour, distant]);
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+
+        spreadBlight(nextActorState, spatialHash, params, 0.5, []);
+
+        expect(neighbour.isBlighted).toBe(true);
+        expect(distant.isBlighted).toBeFalsy();
+    });
+
+    it('should spread more readily in humid air', () => {
+        // Above the chance at 50% humidity, but below that at 90%.
+        vi.spyOn(Math, 'random').mockReturnValue(params.blightSpreadChance + 0.01);
+
+        const dryNeighbour = createFlower('dry', 2, 1);
+        const dry = setup([{ ...createFlower('s1', 1, 1), isBlighted: true }, dryNeighbour]);
+        spreadBlight(dry.nextActorState, dry.spatialHash, params, 0.5, []);
+
+        const humidNeighbour = createFlower('humid', 2, 1);
+        const humid = setup([{ ...createFlower('s2', 1, 1), isBlighted: true }, humidNeighbour]);
+        spreadBlight(humid.nextActorState, humid.spatialHash, params, 0.9, []);
+
+        expect(dryNeighbour.isBlighted).toBeFalsy();
+        expect(humidNeighbour.isBlighted).toBe(true);
+    });
+
+    it('should spread less readily to resistant flowers', () => {
+        // Above the chance of a half-resistant flower catching it, but below that of one without resistance.
+        vi.spyOn(Math, 'random').mockReturnValue(params.blightSpreadChance * 0.5 + 0.01);
+        const vulnerable = createFlower('vulnerable', 2, 1);
+        const resistant = createFlower('resistant', 0, 1, { vitality: 10, strength: 10 });
+        const { nextActorState, spatialHash } = setup([{ ...createFlower('source', 1, 1), isBlighted: true }, vulnerable, resistant]);
+
+        spreadBlight(nextActorState, spatialHash, params, 0.5, []);
+
+        expect(vulnerable.isBlighted).toBe(true);
+        expect(resistant.isBlighted).toBeFalsy();
+    });
+});
+
+describe('progressBlight', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should cost a blighted flower health and leave a healthy one alone', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0.99);
+        const blighted = { ...createFlower('a', 0, 0), isBlighted: true };
+        const healthy = createFlower('b', 1, 0);
+
+        progressBlight(blighted, params);
+        progressBlight(healthy, params);
+
+        expect(blighted.health).toBe(100 - params.blightHealthDamage);
+        expect(blighted.isBlighted).toBe(true);
+        expect(healthy.health).toBe(100);
+    });
+
+    it('should let resistant flowers throw the blight off', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(BLIGHT_RECOVERY_CHANCE * 0.5 - 0.001);
+        const resistant = { ...createFlower('a', 0, 0, { vitality: 10, strength: 10 }), isBlighted: true };
+        const vulnerable = { ...createFlower('b', 1, 0), isBlighted: true };
+
+        progressBlight(resistant, params);
+        progressBlight(vulnerable, params);
+
+        expect(resistant.isBlighted).toBe(false);
+        expect(vulnerable.isBlighted).toBe(true);
+    });
+});
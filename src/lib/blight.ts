@@ -0,0 +1,58 @@
+import type { AppEvent, CellContent, Flower, SimulationParams } from '../types';
+import type { SpatialHash } from './SpatialHash';
+import { BLIGHT_RECOVERY_CHANCE, BLIGHT_REFERENCE_HUMIDITY, BLIGHT_RESISTANCE_HALF_EFFECT } from '../constants';
+import { neighborVectors } from './simulationUtils';
+import { random } from './random';
+
+/**
+ * How well a flower's genes guard it against the blight, from 0 to 1. Vitality and strength
+ * both count, with diminishing returns.
+ */
+export const blightResistance = (flower: Flower): number => {
+    const defence = Math.max(0, flower.effects.vitality + flower.effects.strength);
+    return defence / (defence + BLIGHT_RESISTANCE_HALF_EFFECT);
+};
+
+/**
+ * Spreads the blight from each blighted flower to the flowers around it. It spreads faster the
+ * more blighted neighbours a flower has and the more humid the air, and resistant flowers catch
+ * it less often. Flowers blighted this tick only spread it from the next. While no flower is
+ * blighted, there is a small chance each tick of a new outbreak.
+ */
+export const spreadBlight = (nextActorState: Map<string, CellContent>, spatialHash: SpatialHash, params: SimulationParams, humidity: number, events: AppEvent[]): void => {
+    const flowers = spatialHash.ofType('flower').filter(flower => nextActorState.has(flower.id));
+    const blighted = flowers.filter(flower => flower.isBlighted);
+
+    if (blighted.length === 0) {
+        if (flowers.length === 0 || random() >= params.blightOutbreakChance) return;
+        flowers[Math.floor(random() * flowers.length)].isBlighted = true;
+        events.push({ message: '🍂 A fungal blight has appeared among the flowers!', type: 'info', importance: 'high' });
+        return;
+    }
+
+    const exposures = new Map<Flower, number>();
+    for (const source of blighted) {
+        for (const [dx, dy] of neighborVectors) {
+            for (const neighbour of spatialHash.getOnCell(source.x + dx, source.y + dy, 'flower')) {
+                if (neighbour.isBlighted || !nextActorState.has(neighbour.id)) continue;
+                exposures.set(neighbour, (exposures.get(neighbour) ?? 0) + 1);
+            }
+        }
+    }
+
+    const humidityFactor = Math.max(0, humidity) / BLIGHT_REFERENCE_HUMIDITY;
+    for (const [flower, sources] of exposures) {
+        const chance = Math.min(1, params.blightSpreadChance * humidityFactor * (1 - blightResistance(flower)));
+        if (random() < 1 - Math.pow(1 - chance, sources)) flower.isBlighted = true;
+    }
+};
+
+/**
+ * Advances a blighted flower's infection by a tick: it loses health, and may throw the blight
+ * off, the likelier the more resistant it is.
+ */
+export const progressBlight = (flower: Flower, params: SimulationParams): void => {
+    if (!flower.isBlighted) return;
+    flower.health -= params.blightHealthDamage;
+    if (random() < BLIGHT_RECOVERY_CHANCE * blightResistance(flower)) flower.isBlighted = false;
+};
@@ -0,0 +1,97 @@
+import type { SpeciesDefinition } from '../types';
+import { speciesRegistry, type SpeciesRegistry } from './speciesRegistry';
+import { ButterflyBehavior } from './behaviors/specialized/ButterflyBehavior';
+import { CaterpillarBehavior } from './behaviors/specialized/CaterpillarBehavior';
+import { SnailBehavior } from './behaviors/specialized/SnailBehavior';
+import { LadybugBehavior } from './behaviors/specialized/LadybugBehavior';
+import { BeetleBehavior } from './behaviors/specialized/BeetleBehavior';
+import { ScorpionBehavior } from './behaviors/specialized/ScorpionBehavior';
+import { HoneybeeBehavior } from './behaviors/specialized/HoneybeeBehavior';
+import { AntBehavior } from './behaviors/specialized/AntBehavior';
+import { SpiderBehavior } from './behaviors/specialized/SpiderBehavior';
+import { CockroachBehavior } from './behaviors/specialized/CockroachBehavior';
+
+export const BUILTIN_SPECIES: readonly SpeciesDefinition[] = [
+    // Butterfly is a pure pollinator with no attack
+    {
+        emoji: '🦋', name: 'Butterfly', pluralName: 'Butterflies',
+        stats: { role: 'pollinator', attack: 0, maxHealth: 100, maxStamina: 40, speed: 2, eggHatchTime: 8, reproductionCost: 5 },
+        behavior: ButterflyBehavior, reproduction: 'direct', spawn: 'random', offspringEmoji: '🐛', flies: true, activity: 'diurnal',
+        spawnable: true, chartColor: '#f97316', summaryKey: 'butterflyCount',
+    },
+    // Caterpillar is a voracious attacker. Caterpillars don't reproduce, they pupate into butterflies.
+    {
+        emoji: '🐛', name: 'Caterpillar', pluralName: 'Caterpillars',
+        stats: { role: 'attacker', attack: 8, maxHealth: 150, maxStamina: 30, speed: 1, eggHatchTime: 20, reproductionCost: 0 },
+        behavior: CaterpillarBehavior, reproduction: 'direct', spawn: 'random',
+        spawnable: true, chartColor: '#84cc16', summaryKey: 'caterpillarCount',
+    },
+    // Tank is slow and sturdy, low damage
+    {
+        emoji: '🐌', name: 'Snail', pluralName: 'Snails',
+        stats: { role: 'tank', attack: 3, maxHealth: 250, maxStamina: 20, speed: 1, eggHatchTime: 25, reproductionCost: 3 },
+        behavior: SnailBehavior, reproduction: 'direct', spawn: 'random', transmissionRate: 0.05,
+        spawnable: true, chartColor: '#D1D5DB', summaryKey: 'snailCount',
+    },
+    // Ladybugs are pest hunters
+    {
+        emoji: '🐞', name: 'Ladybug', pluralName: 'Ladybugs',
+        stats: { role: 'hunter', attack: 5, maxHealth: 120, maxStamina: 40, speed: 2, eggHatchTime: 18, reproductionCost: 5 },
+        behavior: LadybugBehavior, reproduction: 'direct', spawn: 'random', flies: true,
+        spawnable: true, chartColor: '#E53E3E', summaryKey: 'ladybugCount',
+    },
+    // Beetles are support tanks
+    {
+        emoji: '🪲', name: 'Beetle', pluralName: 'Beetles',
+        stats: { role: 'support', attack: 1, maxHealth: 200, maxStamina: 50, speed: 1, eggHatchTime: 30, reproductionCost: 10 },
+        behavior: BeetleBehavior, reproduction: 'direct', spawn: 'random',
+        spawnable: true, chartColor: '#966919', summaryKey: 'beetleCount',
+    },
+    // Scorpions are ground predators
+    {
+        emoji: '🦂', name: 'Scorpion', pluralName: 'Scorpions',
+        stats: { role: 'hunter', attack: 12, maxHealth: 220, maxStamina: 60, speed: 1, eggHatchTime: 35, reproductionCost: 15 },
+        behavior: ScorpionBehavior, reproduction: 'direct', spawn: 'random', activity: 'nocturnal',
+        spawnable: true, chartColor: '#8B0000', summaryKey: 'scorpionCount',
+    },
+    // Bees are fast pollinators with slightly more damage than butterflies
+    {
+        emoji: '🐝', name: 'Honeybee', pluralName: 'Bees',
+        stats: { role: 'pollinator', attack: 5, maxHealth: 60, maxStamina: 70, speed: 2, eggHatchTime: 12, reproductionCost: 0 },
+        behavior: HoneybeeBehavior, reproduction: 'hive', spawn: 'nest', flies: true, activity: 'diurnal', transmissionRate: 0.3,
+        spawnable: false, chartColor: '#FBBF24', summaryKey: 'beeCount',
+    },
+    // Ants are colony builders and scavengers
+    {
+        emoji: '🐜', name: 'Ant', pluralName: 'Ants',
+        stats: { role: 'colony-builder', attack: 4, maxHealth: 80, maxStamina: 60, speed: 2, eggHatchTime: 10, reproductionCost: 5 },
+        behavior: AntBehavior, reproduction: 'colony', spawn: 'nest', transmissionRate: 0.3,
+        spawnable: false, chartColor: '#6B4423', summaryKey: 'antCount',
+    },
+    // Spiders are trappers/hunters
+    {
+        emoji: '🕷️', name: 'Spider', pluralName: 'Spiders',
+        stats: { role: 'hunter', attack: 15, maxHealth: 180, maxStamina: 80, speed: 1, eggHatchTime: 20, reproductionCost: 20 },
+        behavior: SpiderBehavior, reproduction: 'direct', spawn: 'territorial', activity: 'nocturnal',
+        spawnable: true, chartColor: '#718096', summaryKey: 'spiderCount',
+    },
+    // Cockroaches are scavengers that can also attack weak flowers
+    {
+        emoji: '🪳', name: 'Cockroach', pluralName: 'Cockroaches',
+        stats: { role: 'scavenger', attack: 2, maxHealth: 50, maxStamina: 50, speed: 1, eggHatchTime: 30, reproductionCost: 2 },
+        behavior: CockroachBehavior, reproduction: 'direct', spawn: 'random', transmissionRate: 0.25,
+        spawnable: true, chartColor: '#7a4a2a',
+    },
+];
+
+/**
+ * Registers the built-in species. Safe to call more than once; species that are
+ * already registered are left alone.
+ */
+export const registerBuiltinSpecies = (registry: SpeciesRegistry = speciesRegistry) => {
+    for (const species of BUILTIN_SPECIES) {
+        if (!registry.has(species.emoji)) {
+            registry.register(species);
+        }
+    }
+};
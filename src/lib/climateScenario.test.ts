@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { parseClimateFile, climateReading } from './climateScenario';
+import { DEFAULT_SIM_PARAMS } from '../constants';
+import type { ClimateSeries } from '../types';
+
+const params = { ...DEFAULT_SIM_PARAMS, dayLengthInTicks: 10, climateLoop: true, climateTemperatureScale: 1, climateHumidityScale: 1 };
+
+describe('parseClimateFile', () => {
+    it('should read a CSV file with one reading per tick', () => {
+        const scenario = parseClimateFile('tick,temperature,humidity\n0,12.5,0.6\n1,13,0.65\n', 'spring-2024.csv');
+
+        expect(scenario).toEqual({
+            id: 'imported',
+            name: 'spring-2024',
+            series: { interval: 'tick', temperature: [12.5, 13], humidity: [0.6, 0.65] },
+        });
+    });
+
+    it('should read daily readings and humidity given as percentages', () => {
+        const scenario = parseClimateFile('Day,Temperature,Humidity\n1,10,60\n2,14,80', 'daily.csv');
+
+        expect(scenario.series).toEqual({ interval: 'day', temperature: [10, 14], humidity: [0.6, 0.8] });
+    });
+
+    it('should read a JSON file with a name and an interval', () => {
+        const json = JSON.stringify({ name: 'Drying Out', interval: 'day', readings: [{ temperature: 20, humidity: 0.5 }, { temperature: 22, humidity: 0.4 }] });
+        const scenario = parseClimateFile(json, 'drying.json');
+
+        expect(scenario.name).toBe('Drying Out');
+        expect(scenario.series).toEqual({ interval: 'day', temperature: [20, 22], humidity: [0.5, 0.4] });
+    });
+
+    it('should reject files it cannot use with a readable error', () => {
+        expect(() => parseClimateFile('{ "readings": ', 'broken.json')).toThrow('The file is not valid JSON.');
+        expect(() => parseClimateFile('{ "interval": "hour", "readings": [] }', 'x.json')).toThrow(/Unknown interval/);
+        expect(() => parseClimateFile('temp,humidity\n1,2', 'x.csv')).toThrow(/"temperature" and "humidity" columns/);
+        expect(() => parseClimateFile('temperature,humidity\n20,0.5\nwarm,0.5', 'x.csv')).toThrow('Reading 2 has no valid temperature.');
+        expect(() => parseClimateFile('temperature,humidity\n20,150', 'x.csv')).toThrow(/Reading 1 needs a humidity/);
+    });
+});
+
+describe('climateReading', () => {
+    const series: ClimateSeries = { interval: 'day', temperature: [10, 20, 30], humidity: [0.4, 0.6, 0.8] };
+
+    it('should interpolate daily readings across the ticks of each day', () => {
+        expect(climateReading(series, 0, params)).toEqual({ temperature: 10, humidity: 0.4 });
+        const reading = climateReading(series, 15, params);
+        expect(reading.temperature).toBeCloseTo(25);
+        expect(reading.humidity).toBeCloseTo(0.7);
+    });
+
+    it('should start over when it loops, or else hold its last reading', () => {
+        expect(climateReading(series, 30, params).temperature).toBe(10);
+        expect(climateReading(series, 25, params).temperature).toBeCloseTo(20);
+        expect(climateReading(series, 45, { ...params, climateLoop: false }).temperature).toBe(30);
+    });
+
+    it('should scale the swings about the mean of the series', () => {
+        const reading = climateReading(series, 20, { ...params, climateTemperatureScale: 2, climateHumidityScale: 0 });
+        expect(reading.temperature).toBe(40);
+        expect(reading.humidity).toBeCloseTo(0.6);
+    });
+});
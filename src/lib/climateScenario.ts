@@ -0,0 +1,127 @@
+import type { ClimateScenario, ClimateSeries, ClimateSeriesInterval, SimulationParams } from '../types';
+import { CLIMATE_SERIES_MAX_READINGS } from '../constants';
+
+export interface ClimateReading {
+    temperature: number;
+    humidity: number;
+}
+
+// The ID of the scenario made from the file the user last imported.
+export const IMPORTED_CLIMATE_SCENARIO_ID = 'imported';
+
+const INTERVALS: ClimateSeriesInterval[] = ['tick', 'day'];
+
+const parseReading = (temperature: unknown, humidity: unknown, row: number): ClimateReading => {
+    const t = typeof temperature === 'string' && temperature.trim() !== '' ? Number(temperature) : temperature;
+    const h = typeof humidity === 'string' && humidity.trim() !== '' ? Number(humidity) : humidity;
+    if (typeof t !== 'number' || !Number.isFinite(t)) {
+        throw new Error(`Reading ${row} has no valid temperature.`);
+    }
+    if (typeof h !== 'number' || !Number.isFinite(h) || h < 0 || h > 100) {
+        throw new Error(`Reading ${row} needs a humidity from 0 to 1, or a percentage.`);
+    }
+    return { temperature: t, humidity: h };
+};
+
+// A header row naming "temperature" and "humidity" columns, then one row per reading. A "day"
+// column marks daily readings; otherwise there is one reading per tick.
+const parseCsv = (text: string): { interval: ClimateSeriesInterval; readings: ClimateReading[] } => {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+    if (lines.length < 2) {
+        throw new Error('The CSV file needs a header row and at least one reading.');
+    }
+    const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+    const temperatureColumn = header.indexOf('temperature');
+    const humidityColumn = header.indexOf('humidity');
+    if (temperatureColumn === -1 || humidityColumn === -1) {
+        throw new Error('The CSV header needs "temperature" and "humidity" columns.');
+    }
+    const readings = lines.slice(1).map((line, i) => {
+        const cells = line.split(',');
+        return parseReading(cells[temperatureColumn], cells[humidityColumn], i + 1);
+    });
+    return { interval: header.includes('day') ? 'day' : 'tick', readings };
+};
+
+const parseJson = (data: any): { interval: ClimateSeriesInterval; readings: ClimateReading[] } => {
+    const interval = data.interval ?? 'tick';
+    if (!INTERVALS.includes(interval)) {
+        throw new Error(`Unknown interval: ${JSON.stringify(interval)}. Use "tick" or "day".`);
+    }
+    if (!Array.isArray(data.readings) || data.readings.length === 0) {
+        throw new Error('The file needs a "readings" list.');
+    }
+    const readings = data.readings.map((reading: any, i: number) => parseReading(reading?.temperature, reading?.humidity, i + 1));
+    return { interval, readings };
+};
+
+/**
+ * Parses a climate file, throwing a user-readable error if it is invalid. CSV files have
+ * "temperature" and "humidity" columns; JSON files have a "readings" list of objects with
+ * those keys, an optional "interval" of "tick" or "day" and an optional "name". Humidity is
+ * read as percentages if any reading is above 1.
+ */
+export const parseClimateFile = (text: string, fileName: string): ClimateScenario => {
+    const trimmed = text.trim();
+    let name: string | undefined;
+    let parsed: { interval: ClimateSeriesInterval; readings: ClimateReading[] };
+    if (trimmed.startsWith('{')) {
+        let data: any;
+        try {
+            data = JSON.parse(trimmed);
+        } catch {
+            throw new Error('The file is not valid JSON.');
+        }
+        parsed = parseJson(data);
+        if (typeof data.name === 'string' && data.name.trim() !== '') name = data.name.trim();
+    } else {
+        parsed = parseCsv(trimmed);
+    }
+
+    const { interval, readings } = parsed;
+    if (readings.length > CLIMATE_SERIES_MAX_READINGS) {
+        throw new Error(`The series has ${readings.length} readings; the most it can have is ${CLIMATE_SERIES_MAX_READINGS}.`);
+    }
+    const inPercent = readings.some(r => r.humidity > 1);
+    return {
+        id: IMPORTED_CLIMATE_SCENARIO_ID,
+        name: name ?? fileName.replace(/\.[^.]*$/, ''),
+        series: {
+            interval,
+            temperature: readings.map(r => r.temperature),
+            humidity: readings.map(r => inPercent ? r.humidity / 100 : r.humidity),
+        },
+    };
+};
+
+const means = new WeakMap<ClimateSeries, ClimateReading>();
+
+const meanOf = (series: ClimateSeries): ClimateReading => {
+    let mean = means.get(series);
+    if (!mean) {
+        const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+        mean = { temperature: average(series.temperature), humidity: average(series.humidity) };
+        means.set(series, mean);
+    }
+    return mean;
+};
+
+/**
+ * The temperature and humidity a series gives for a tick, with its swings about its mean scaled
+ * as the params ask. Daily readings are interpolated across the ticks of each day. Past its end,
+ * a series starts over if it loops and otherwise holds its last reading.
+ */
+export function climateReading(series: ClimateSeries, tick: number, params: SimulationParams): ClimateReading {
+    const { length } = series.temperature;
+    const position = series.interval === 'day' ? tick / Math.max(1, params.dayLengthInTicks) : tick;
+    const index = Math.floor(position);
+    const indexAt = (i: number) => params.climateLoop ? i % length : Math.min(i, length - 1);
+    const from = indexAt(index), to = indexAt(index + 1), progress = position - index;
+    const interpolate = (values: number[]) => values[from] + (values[to] - values[from]) * progress;
+
+    const mean = meanOf(series);
+    return {
+        temperature: mean.temperature + (interpolate(series.temperature) - mean.temperature) * params.climateTemperatureScale,
+        humidity: mean.humidity + (interpolate(series.humidity) - mean.humidity) * params.climateHumidityScale,
+    };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { parseCustomSpeciesFile, createCustomSpeciesDefinition, setCustomSpecies } from './customSpecies';
+import { SpeciesRegistry } from './speciesRegistry';
+import { BUILTIN_SPECIES } from './builtinSpecies';
+import { ComposedInsectBehavior } from './behaviors/specialized/ComposedInsectBehavior';
+import type { CustomSpeciesFile } from '../types';
+
+const MANTIS = {
+    emoji: '🦗',
+    name: 'Mantis',
+    role: 'hunter',
+    stats: { attack: 10, maxHealth: 120, maxStamina: 50, speed: 1, eggHatchTime: 20, reproductionCost: 6 },
+    behaviors: [{ type: 'hunt', species: ['🦋', '🐛'] }, { type: 'scavenge' }],
+    color: '#22c55e',
+};
+
+describe('customSpecies', () => {
+    let registry: SpeciesRegistry;
+
+    beforeEach(() => {
+        registry = new SpeciesRegistry();
+        setCustomSpecies([], registry);
+    });
+
+    describe('parseCustomSpeciesFile', () => {
+        it('parses a valid definition', () => {
+            const file = parseCustomSpeciesFile(JSON.stringify(MANTIS), registry);
+            expect(file).toEqual(MANTIS);
+        });
+
+        it.each([
+            ['not json', /not valid JSON/],
+            [JSON.stringify({ ...MANTIS, emoji: '' }), /needs an "emoji"/],
+            [JSON.stringify({ ...MANTIS, emoji: '🦋' }), /already used by the Butterfly/],
+            [JSON.stringify({ ...MANTIS, role: 'wizard' }), /Unknown role/],
+            [JSON.stringify({ ...MANTIS, stats: { ...MANTIS.stats, speed: 0 } }), /"stats.speed" must be a positive number/],
+            [JSON.stringify({ ...MANTIS, stats: { ...MANTIS.stats, attack: 'lots' } }), /"stats.attack" must be a non-negative number/],
+            [JSON.stringify({ ...MANTIS, behaviors: [] }), /at least one entry/],
+            [JSON.stringify({ ...MANTIS, behaviors: [{ type: 'fly' }] }), /unknown type/],
+            [JSON.stringify({ ...MANTIS, behaviors: [{ type: 'hunt' }] }), /needs a "species" list/],
+        ])('rejects %s', (text, message) => {
+            expect(() => parseCustomSpeciesFile(text, registry)).toThrow(message);
+        });
+
+        it('allows a user-defined species to be replaced', () => {
+            setCustomSpecies([MANTIS as CustomSpeciesFile], registry);
+            expect(() => parseCustomSpeciesFile(JSON.stringify({ ...MANTIS, name: 'Praying Mantis' }), registry)).not.toThrow();
+        });
+    });
+
+    it('builds a directly reproducing, spawnable species with a composed behavior', () => {
+        const definition = createCustomSpeciesDefinition(MANTIS as CustomSpeciesFile);
+        expect(definition).toMatchObject({ emoji: '🦗', pluralName: 'Mantiss', reproduction: 'direct', spawn: 'random', spawnable: true, chartColor: '#22c55e' });
+        expect(definition.stats).toEqual({ role: 'hunter', ...MANTIS.stats });
+        expect(new definition.behavior()).toBeInstanceOf(ComposedInsectBehavior);
+    });
+
+    it('registers user-defined species after the built-ins and replaces them on the next call', () => {
+        setCustomSpecies([MANTIS as CustomSpeciesFile], registry);
+        expect(registry.getEmojis()).toEqual([...BUILTIN_SPECIES.map(s => s.emoji), '🦗']);
+
+        setCustomSpecies([], registry);
+        expect(registry.has('🦗')).toBe(false);
+        expect(registry.getEmojis()).toEqual(BUILTIN_SPECIES.map(s => s.emoji));
+    });
+
+    it('skips a definition that clashes with a built-in species', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        setCustomSpecies([{ ...MANTIS, emoji: '🐝' } as CustomSpeciesFile], registry);
+        expect(registry.get('🐝')?.custom).toBeUndefined();
+        expect(warn).toHaveBeenCalled();
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,127 @@
+import type { BehaviorPrimitive, CustomSpeciesFile, InsectStats, SpeciesDefinition } from '../types';
+import { ComposedInsectBehavior } from './behaviors/specialized/ComposedInsectBehavior';
+import { speciesRegistry, type SpeciesRegistry } from './speciesRegistry';
+import { registerBuiltinSpecies } from './builtinSpecies';
+
+const INSECT_ROLES: InsectStats['role'][] = ['pollinator', 'attacker', 'tank', 'hunter', 'balanced', 'scavenger', 'support', 'colony-builder'];
+const STAT_KEYS = ['attack', 'maxHealth', 'maxStamina', 'speed', 'eggHatchTime', 'reproductionCost'] as const;
+const POSITIVE_STATS: readonly string[] = ['maxHealth', 'maxStamina', 'speed'];
+const DEFAULT_CHART_COLOR = '#a78bfa';
+
+const parseBehavior = (data: any, index: number): BehaviorPrimitive => {
+    switch (data?.type) {
+        case 'pollinate':
+        case 'scavenge':
+            return { type: data.type };
+        case 'hunt':
+            if (!Array.isArray(data.species) || data.species.length === 0 || !data.species.every((s: unknown) => typeof s === 'string' && s !== '')) {
+                throw new Error(`Behavior ${index + 1} ("hunt") needs a "species" list of emojis.`);
+            }
+            return { type: 'hunt', species: [...data.species] };
+        default:
+            throw new Error(`Behavior ${index + 1} has an unknown type: ${JSON.stringify(data?.type)}. Use "pollinate", "hunt" or "scavenge".`);
+    }
+};
+
+/**
+ * Parses a species definition file, throwing a user-readable error if it is invalid or
+ * uses the emoji of a built-in species.
+ */
+export const parseCustomSpeciesFile = (text: string, registry: SpeciesRegistry = speciesRegistry): CustomSpeciesFile => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    return parseCustomSpecies(data, registry);
+};
+
+/**
+ * Checks a species definition already read from JSON, such as one kept in a garden or replay
+ * file, throwing a user-readable error if it is invalid or uses the emoji of a built-in species.
+ */
+export const parseCustomSpecies = (data: any, registry: SpeciesRegistry = speciesRegistry): CustomSpeciesFile => {
+    if (typeof data?.emoji !== 'string' || data.emoji.trim() === '') {
+        throw new Error('The species needs an "emoji".');
+    }
+    if (typeof data.name !== 'string' || data.name.trim() === '') {
+        throw new Error('The species needs a "name".');
+    }
+    const existing = registry.get(data.emoji);
+    if (existing && !existing.custom) {
+        throw new Error(`${data.emoji} is already used by the ${existing.name}.`);
+    }
+    if (!INSECT_ROLES.includes(data.role)) {
+        throw new Error(`Unknown role: ${JSON.stringify(data.role)}. Use one of: ${INSECT_ROLES.join(', ')}.`);
+    }
+
+    const stats = {} as CustomSpeciesFile['stats'];
+    for (const key of STAT_KEYS) {
+        const value = data.stats?.[key];
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || (POSITIVE_STATS.includes(key) && value === 0)) {
+            throw new Error(`"stats.${key}" must be a ${POSITIVE_STATS.includes(key) ? 'positive' : 'non-negative'} number.`);
+        }
+        stats[key] = value;
+    }
+
+    if (!Array.isArray(data.behaviors) || data.behaviors.length === 0) {
+        throw new Error('The species needs at least one entry in "behaviors".');
+    }
+
+    return {
+        emoji: data.emoji,
+        name: data.name.trim(),
+        ...(typeof data.pluralName === 'string' && data.pluralName.trim() !== '' && { pluralName: data.pluralName.trim() }),
+        role: data.role,
+        stats,
+        behaviors: data.behaviors.map(parseBehavior),
+        ...(typeof data.color === 'string' && { color: data.color }),
+        ...(typeof data.flies === 'boolean' && { flies: data.flies }),
+    };
+};
+
+/**
+ * Turns a user's species file into a registry entry. User-defined species reproduce
+ * directly, appear at random like most insects, and can be spawned from the tools panel.
+ */
+export const createCustomSpeciesDefinition = (file: CustomSpeciesFile): SpeciesDefinition => {
+    const primitives = file.behaviors;
+    class CustomSpeciesBehavior extends ComposedInsectBehavior {
+        constructor() {
+            super(primitives);
+        }
+    }
+
+    return {
+        emoji: file.emoji,
+        name: file.name,
+        pluralName: file.pluralName ?? `${file.name}s`,
+        stats: { role: file.role, ...file.stats },
+        behavior: CustomSpeciesBehavior,
+        reproduction: 'direct',
+        spawn: 'random',
+        flies: file.flies,
+        spawnable: true,
+        chartColor: file.color ?? DEFAULT_CHART_COLOR,
+        custom: file,
+    };
+};
+
+/**
+ * Replaces the user-defined species in a registry with the given ones. Built-in species
+ * are registered first if they are not already, and a definition that clashes with one is skipped.
+ */
+export const setCustomSpecies = (files: CustomSpeciesFile[], registry: SpeciesRegistry = speciesRegistry) => {
+    registerBuiltinSpecies(registry);
+    for (const species of registry.getAll()) {
+        if (species.custom) registry.unregister(species.emoji);
+    }
+    for (const file of files) {
+        if (registry.has(file.emoji)) {
+            console.warn(`Skipping user-defined species ${file.emoji}: the emoji is already in use.`);
+            continue;
+        }
+        registry.register(createCustomSpeciesDefinition(file));
+    }
+};
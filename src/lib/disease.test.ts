@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { spreadDisease, progressDisease, exposeToDisease, isInfected } from './disease';
+import { SpatialHash } from './SpatialHash';
+import { DEFAULT_SIM_PARAMS, DISEASE_DEFAULT_TRANSMISSION_RATE, DISEASE_NEST_EXPOSURE_FACTOR } from '../constants';
+import type { AppEvent, CellContent, Hive, Insect } from '../types';
+
+const params = { ...DEFAULT_SIM_PARAMS, diseaseOutbreakChance: 0.5, diseaseDuration: 10, diseaseHealthDamage: 2 };
+
+const createInsect = (id: string, x: number, y: number, emoji = '🦋'): Insect =>
+    ({ id, type: 'insect', emoji, x, y, health: 100, maxHealth: 100, stamina: 40, maxStamina: 40, genome: [], pollen: null }) as Insect;
+
+const setup = (actors: CellContent[]) => {
+    const nextActorState = new Map(actors.map(actor => [actor.id, actor]));
+    const spatialHash = new SpatialHash(params.gridWidth, params.gridHeight);
+    actors.forEach(actor => spatialHash.insert(actor));
+    return { nextActorState, spatialHash };
+};
+
+describe('spreadDisease', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should start an outbreak now and then when no insect is infected', () => {
+        const insects = [createInsect('a', 1, 1), createInsect('b', 5, 5)];
+        const { nextActorState, spatialHash } = setup(insects);
+        const events: AppEvent[] = [];
+        vi.spyOn(Math, 'random').mockReturnValue(0.4);
+
+        spreadDisease(nextActorState, spatialHash, params, events);
+
+        expect(insects.filter(isInfected)).toHaveLength(1);
+        expect(events[0]).toMatchObject({ message: '🦠 A disease has broken out among the butterflies!', importance: 'high' });
+    });
+
+    it('should spread only to susceptible insects on the cell of an infected one', () => {
+        const sick = { ...createInsect('sick', 2, 2), infectionTimer: 5 };
+        const neighbour = createInsect('neighbour', 2, 2);
+        const immune = { ...createInsect('immune', 2, 2), isImmune: true };
+        const distant = createInsect('distant', 6, 6);
+        const { nextActorState, spatialHash } = setup([sick, neighbour, immune, distant]);
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+
+        spreadDisease(nextActorState, spatialHash, params, []);
+
+        expect(neighbour.infectionTimer).toBe(params.diseaseDuration);
+        expect(isInfected(immune)).toBe(false);
+        expect(isInfected(distant)).toBe(false);
+    });
+
+    it('should spread more readily the more infected insects share the cell', () => {
+        // Just above the chance of catching it from one infected insect, but below that from two.
+        const rate = DISEASE_DEFAULT_TRANSMISSION_RATE;
+        vi.spyOn(Math, 'random').mockReturnValue(rate + 0.01);
+
+        const lone = createInsect('lone', 1, 1);
+        const one = setup([{ ...createInsect('s1', 1, 1), infectionTimer: 5 }, lone]);
+        spreadDisease(one.nextActorState, one.spatialHash, params, []);
+
+        const crowded = createInsect('crowded', 1, 1);
+        const two = setup([{ ...createInsect('s1', 1, 1), infectionTimer: 5 }, { ...createInsect('s2', 1, 1), infectionTimer: 5 }, crowded]);
+        spreadDisease(two.nextActorState, two.spatialHash, params, []);
+
+        expect(isInfected(lone)).toBe(false);
+        expect(isInfected(crowded)).toBe(true);
+    });
+});
+
+describe('exposeToDisease', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should make insects in a hive more likely to catch it', () => {
+        // Above the bees' own transmission rate, but below the rate inside a hive.
+        vi.spyOn(Math, 'random').mockReturnValue(0.3 * (1 + DISEASE_NEST_EXPOSURE_FACTOR) / 2);
+        const outside = createInsect('outside', 1, 1, '🐝');
+        const inside = createInsect('inside', 4, 4, '🐝');
+        const hive = { id: 'hive1', type: 'hive', x: 4, y: 4, hiveId: '1', honey: 0, pollen: 0, spawnCooldown: 0, genome: [] } as Hive;
+        const { spatialHash } = setup([outside, inside, hive]);
+
+        expect(exposeToDisease(outside, 1, spatialHash, params, [])).toBe(false);
+        expect(exposeToDisease(inside, 1, spatialHash, params, [])).toBe(true);
+    });
+});
+
+describe('progressDisease', () => {
+    it('should cost an infected insect health until it recovers with immunity', () => {
+        const insect = { ...createInsect('a', 1, 1), infectionTimer: 2 };
+        const events: AppEvent[] = [];
+
+        progressDisease(insect, params, events);
+        expect(insect).toMatchObject({ health: 98, infectionTimer: 1 });
+        expect(insect.isImmune).toBeUndefined();
+
+        progressDisease(insect, params, events);
+        expect(insect).toMatchObject({ health: 96, infectionTimer: 0, isImmune: true });
+        expect(events).toEqual([expect.objectContaining({ message: '💪 A 🦋 recovered from the disease.' })]);
+
+        progressDisease(insect, params, events);
+        expect(insect.health).toBe(96);
+    });
+});
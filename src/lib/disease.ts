@@ -0,0 +1,78 @@
+import type { AppEvent, CellContent, Cockroach, DiseaseState, Insect, SimulationParams } from '../types';
+import type { SpatialHash } from './SpatialHash';
+import { DISEASE_DEFAULT_TRANSMISSION_RATE, DISEASE_NEST_EXPOSURE_FACTOR } from '../constants';
+import { random } from './random';
+import { speciesRegistry } from './speciesRegistry';
+
+type Host = Insect | Cockroach;
+
+export const isInfected = (host: DiseaseState): boolean => (host.infectionTimer ?? 0) > 0;
+
+const isSusceptible = (host: DiseaseState): boolean => !isInfected(host) && !host.isImmune;
+
+const infect = (host: Host, params: SimulationParams) => {
+    host.infectionTimer = params.diseaseDuration;
+};
+
+/**
+ * Exposes an insect to `sources` infected insects or corpses on its cell. Each one gives it a
+ * chance of catching the disease set by its species, and higher in the crowd of a hive or colony.
+ * @returns `true` if the insect caught the disease.
+ */
+export const exposeToDisease = (host: Host, sources: number, spatialHash: SpatialHash, params: SimulationParams, events: AppEvent[]): boolean => {
+    if (sources <= 0 || !isSusceptible(host)) return false;
+
+    let rate = speciesRegistry.get(host.emoji)?.transmissionRate ?? DISEASE_DEFAULT_TRANSMISSION_RATE;
+    if (spatialHash.getOnCell(host.x, host.y, 'hive').length > 0 || spatialHash.getOnCell(host.x, host.y, 'antColony').length > 0) {
+        rate *= DISEASE_NEST_EXPOSURE_FACTOR;
+    }
+    if (random() >= 1 - Math.pow(1 - Math.min(1, rate), sources)) return false;
+
+    infect(host, params);
+    events.push({ message: `🦠 A ${host.emoji} caught the disease.`, type: 'info', importance: 'low' });
+    return true;
+};
+
+/**
+ * Spreads the disease between insects that share a cell, the more so the more of them are
+ * infected, so crowded populations suffer most. Insects infected this tick only spread it from
+ * the next. While no insect is infected, there is a small chance each tick of a new outbreak.
+ */
+export const spreadDisease = (nextActorState: Map<string, CellContent>, spatialHash: SpatialHash, params: SimulationParams, events: AppEvent[]): void => {
+    const hosts: Host[] = [...spatialHash.ofType('insect'), ...spatialHash.ofType('cockroach')].filter(host => nextActorState.has(host.id));
+
+    const sourcesByCell = new Map<number, number>();
+    for (const host of hosts) {
+        if (!isInfected(host)) continue;
+        const cell = host.y * params.gridWidth + host.x;
+        sourcesByCell.set(cell, (sourcesByCell.get(cell) ?? 0) + 1);
+    }
+
+    if (sourcesByCell.size === 0) {
+        const susceptible = hosts.filter(isSusceptible);
+        if (susceptible.length === 0 || random() >= params.diseaseOutbreakChance) return;
+        const patientZero = susceptible[Math.floor(random() * susceptible.length)];
+        infect(patientZero, params);
+        const pluralName = speciesRegistry.get(patientZero.emoji)?.pluralName.toLowerCase() ?? 'insects';
+        events.push({ message: `🦠 A disease has broken out among the ${pluralName}!`, type: 'info', importance: 'high' });
+        return;
+    }
+
+    for (const host of hosts) {
+        exposeToDisease(host, sourcesByCell.get(host.y * params.gridWidth + host.x) ?? 0, spatialHash, params, events);
+    }
+};
+
+/**
+ * Advances an infected insect's illness by a tick: it loses health, and once the infection has
+ * run its course it recovers and is immune from then on.
+ */
+export const progressDisease = (host: Host, params: SimulationParams, events: AppEvent[]): void => {
+    if (!isInfected(host)) return;
+    host.health -= params.diseaseHealthDamage;
+    host.infectionTimer = host.infectionTimer! - 1;
+    if (host.infectionTimer === 0) {
+        host.isImmune = true;
+        events.push({ message: `💪 A ${host.emoji} recovered from the disease.`, type: 'info', importance: 'low' });
+    }
+};
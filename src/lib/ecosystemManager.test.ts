@@ -1,8 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handleInsectReproduction } from './ecosystemManager';
 import type { Insect, CellContent, AppEvent, Egg } from '../types';
-import { DEFAULT_SIM_PARAMS, INSECT_DATA, INSECT_GENOME_LENGTH, MUTATION_CHANCE } from '../constants';
+import { DEFAULT_SIM_PARAMS, INSECT_GENOME_LENGTH, MUTATION_CHANCE } from '../constants';
 import * as simulationUtils from './simulationUtils';
+import { speciesRegistry } from './speciesRegistry';
 
 describe('ecosystemManager', () => {
     
@@ -10,7 +11,7 @@ describe('ecosystemManager', () => {
         let nextActorState: Map<string, CellContent>;
         let events: AppEvent[];
         const params = { ...DEFAULT_SIM_PARAMS, gridWidth: 5, gridHeight: 5 };
-        const baseStats = INSECT_DATA.get('🦋')!;
+        const baseStats = speciesRegistry.getStats('🦋')!;
         const getNextId = vi.fn((type, x, y) => `${type}-${x}-${y}`);
 
 
@@ -1,19 +1,18 @@
-import type { Grid, SimulationParams, CellContent, AppEvent, Insect, Nutrient, Flower, Egg, TerritoryMark } from '../types';
-import { Quadtree, Rectangle } from './Quadtree';
-import { FLOWER_NUTRIENT_HEAL, MUTATION_CHANCE, MUTATION_AMOUNT, INSECT_DATA, INSECT_REPRODUCTION_COOLDOWN } from '../constants';
-import { findCellForStationaryActor, neighborVectors, getActorsOnCell } from './simulationUtils';
-
-export const processNutrientHealing = (nextActorState: Map<string, CellContent>, qtree: Quadtree<CellContent>): void => {
-    const nutrientsToProcess = Array.from(nextActorState.values()).filter(a => a.type === 'nutrient') as Nutrient[];
-    for (const nutrient of nutrientsToProcess) {
+import type { Grid, SimulationParams, CellContent, AppEvent, Insect, Egg, TerritoryMark } from '../types';
+import { SpatialHash } from './SpatialHash';
+import { FLOWER_NUTRIENT_HEAL, MUTATION_CHANCE, MUTATION_AMOUNT, INSECT_REPRODUCTION_COOLDOWN } from '../constants';
+import { findCellForStationaryActor, neighborVectors, buildGrid } from './simulationUtils';
+import { random } from './random';
+import { speciesRegistry } from './speciesRegistry';
+
+export const processNutrientHealing = (nextActorState: Map<string, CellContent>, spatialHash: SpatialHash): void => {
+    for (const nutrient of spatialHash.ofType('nutrient')) {
         if (!nextActorState.has(nutrient.id)) continue;
 
-        const healArea = new Rectangle(nutrient.x, nutrient.y, 1.5, 1.5);
-        const flowersToHeal = qtree.query(healArea).map(p => p.data).filter(a => a.type === 'flower' && nextActorState.has(a.id)) as Flower[];
+        const flowersToHeal = spatialHash.within(nutrient.x, nutrient.y, 1, 'flower').filter(a => nextActorState.has(a.id));
 
         if (flowersToHeal.length > 0) {
-            for (const flowerPoint of flowersToHeal) {
-                const flower = nextActorState.get(flowerPoint.id) as Flower;
+            for (const flower of flowersToHeal) {
                 const healAmount = FLOWER_NUTRIENT_HEAL * flower.nutrientEfficiency;
                 flower.health = Math.min(flower.maxHealth, flower.health + healAmount);
                 flower.stamina = Math.min(flower.maxStamina, flower.stamina + healAmount);
@@ -23,7 +22,7 @@ export const processNutrientHealing = (nextActorState: Map<string, CellContent>,
     }
 };
 
-export const propagateSignal = (startMark: TerritoryMark, qtree: Quadtree<CellContent>, nextActorState: Map<string, CellContent>, params: SimulationParams) => {
+export const propagateSignal = (startMark: TerritoryMark, spatialHash: SpatialHash, params: SimulationParams) => {
     if (!startMark.signal || startMark.signal.ttl <= 0) return;
 
     const queue: { mark: TerritoryMark; ttl: number }[] = [{ mark: startMark, ttl: startMark.signal.ttl }];
@@ -46,10 +45,8 @@ export const propagateSignal = (startMark: TerritoryMark, qtree: Quadtree<CellCo
                 const ny = mark.y + dy;
 
                 if (nx >= 0 && nx < params.gridWidth && ny >= 0 && ny < params.gridHeight) {
-                    const neighborActors = getActorsOnCell(qtree, nextActorState, nx, ny);
-                    for (const actor of neighborActors) {
-                        if (actor.type === 'territoryMark' && (actor as TerritoryMark).hiveId === startMark.hiveId && !visited.has(actor.id)) {
-                            const neighborMark = actor as TerritoryMark;
+                    for (const neighborMark of spatialHash.getOnCell(nx, ny, 'territoryMark')) {
+                        if (neighborMark.hiveId === startMark.hiveId && !visited.has(neighborMark.id)) {
                             const newSignalTTL = ttl - 1;
                             const existingSignal = neighborMark.signal;
                             const newSignalType = startMark.signal!.type;
@@ -92,44 +89,40 @@ export const propagateSignal = (startMark: TerritoryMark, qtree: Quadtree<CellCo
 
 const createOffspringGenome = (genome1: number[], genome2: number[]): number[] => {
     const newGenome = genome1.map((gene, i) => {
-        return Math.random() < 0.5 ? gene : genome2[i];
+        return random() < 0.5 ? gene : genome2[i];
     });
 
     // Mutation
     for (let i = 0; i < newGenome.length; i++) {
-        if (Math.random() < MUTATION_CHANCE) {
-            newGenome[i] *= 1 + (Math.random() * MUTATION_AMOUNT * 2) - MUTATION_AMOUNT;
+        if (random() < MUTATION_CHANCE) {
+            newGenome[i] *= 1 + (random() * MUTATION_AMOUNT * 2) - MUTATION_AMOUNT;
         }
     }
     return newGenome;
 };
 
+/**
+ * Pairs up insects sharing a cell and lays their eggs. `spatialHash` and `currentTickGrid` should
+ * reflect where actors are now; they are built from `nextActorState` when not given, and the new
+ * eggs are added to the grid.
+ */
 export const handleInsectReproduction = (
     nextActorState: Map<string, CellContent>,
     params: SimulationParams,
     events: AppEvent[],
     getNextId: (type: string, x: number, y: number) => string,
+    spatialHash: SpatialHash = SpatialHash.fromActors(nextActorState.values(), params),
+    currentTickGrid: Grid = buildGrid(nextActorState.values(), params),
 ): number => {
     let eggsLaidThisTick = 0;
-    const { gridWidth, gridHeight } = params;
+    const newEggs: Egg[] = [];
 
-    const currentTickGrid: Grid = Array.from({ length: gridHeight }, () => Array.from({ length: gridWidth }, () => []));
-    for (const actor of nextActorState.values()) {
-        if (actor.x >= 0 && actor.x < gridWidth && actor.y >= 0 && actor.y < gridHeight) {
-            currentTickGrid[actor.y][actor.x].push(actor);
-        }
-    }
-
-    const boundary = new Rectangle(gridWidth / 2, gridHeight / 2, gridWidth / 2, gridHeight / 2);
-    const insectQtree = new Quadtree<CellContent>(boundary, 4);
     const allInsects: Insect[] = [];
-    
     for (const actor of nextActorState.values()) {
         if (actor.type === 'insect') {
             const insect = actor as Insect;
             // Social insects (bees, ants) reproduce via their colony/hive, not directly.
-            if (insect.emoji === '🐝' || insect.emoji === '🐜') continue;
-            insectQtree.insert({ x: insect.x, y: insect.y, data: insect });
+            if (speciesRegistry.get(insect.emoji)?.reproduction !== 'direct') continue;
             allInsects.push(insect);
         }
     }
@@ -138,12 +131,12 @@ export const handleInsectReproduction = (
     for (const insect of allInsects) {
         if (reproducedInsects.has(insect.id) || insect.reproductionCooldown) continue;
 
-        const baseStats = INSECT_DATA.get(insect.emoji);
-        if (!baseStats || baseStats.reproductionCost === 0) continue; // Skip if no stats or cannot reproduce (e.g., caterpillar)
+        const species = speciesRegistry.get(insect.emoji);
+        if (!species || species.stats.reproductionCost === 0) continue; // Skip if unknown or cannot reproduce (e.g., caterpillar)
+        const baseStats = species.stats;
 
         // Check for partners on the same cell
-        const range = new Rectangle(insect.x, insect.y, 0.5, 0.5);
-        const partners = insectQtree.query(range).map(p => p.data as Insect).filter(other => other.id !== insect.id && other.emoji === insect.emoji && !reproducedInsects.has(other.id) && !other.reproductionCooldown);
+        const partners = spatialHash.insectsOnCell(insect.x, insect.y, insect.emoji).filter(other => other.id !== insect.id && !reproducedInsects.has(other.id) && !other.reproductionCooldown);
 
         if (partners.length > 0 && insect.stamina >= baseStats.reproductionCost) {
             const partner = partners[0];
@@ -151,7 +144,7 @@ export const handleInsectReproduction = (
             
             if (spot) {
                 // Determine what the egg will hatch into
-                const offspringEmoji = insect.emoji === '🦋' ? '🐛' : insect.emoji;
+                const offspringEmoji = species.offspringEmoji ?? insect.emoji;
 
                 const eggId = getNextId('egg', spot.x, spot.y);
                 const offspringGenome = createOffspringGenome(insect.genome, partner.genome);
@@ -162,6 +155,7 @@ export const handleInsectReproduction = (
                     genome: offspringGenome 
                 };
                 nextActorState.set(eggId, newEgg);
+                newEggs.push(newEgg);
                 
                 insect.stamina -= baseStats.reproductionCost;
                 insect.reproductionCooldown = INSECT_REPRODUCTION_COOLDOWN;
@@ -173,5 +167,10 @@ export const handleInsectReproduction = (
             }
         }
     }
+
+    // Eggs only take up their cells once every insect has had its chance to pair up.
+    for (const egg of newEggs) {
+        currentTickGrid[egg.y][egg.x].push(egg);
+    }
     return eggsLaidThisTick;
 };
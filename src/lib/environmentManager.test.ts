@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import { updateEnvironment, isNightTime, nightDarkness } from './environmentManager';
+import { DEFAULT_SIM_PARAMS } from '../constants';
+import type { AppEvent, EnvironmentState } from '../types';
+
+const params = { ...DEFAULT_SIM_PARAMS, weatherEventChance: 0, temperatureAmplitude: 0, dayLengthInTicks: 20, nightTempDecrease: 8 };
+const initialState: EnvironmentState = {
+    currentTemperature: params.temperature,
+    currentHumidity: params.humidity,
+    season: 'Spring',
+    currentWeatherEvent: { type: 'none', duration: 0 },
+    timeOfDay: 0,
+    wind: { direction: params.windDirection, strength: params.windStrength },
+};
+
+describe('updateEnvironment', () => {
+    it('should advance the time of day and start a new day after dayLengthInTicks', () => {
+        const events: AppEvent[] = [];
+        expect(updateEnvironment(5, params, initialState, events).timeOfDay).toBe(0.25);
+        expect(updateEnvironment(10, params, initialState, events).timeOfDay).toBe(0.5);
+        expect(updateEnvironment(20, params, initialState, events).timeOfDay).toBe(0);
+    });
+
+    it('should be coldest at midnight and unchanged through the day', () => {
+        const noon = updateEnvironment(5, params, initialState, []);
+        const midnight = updateEnvironment(15, params, initialState, []);
+
+        expect(noon.currentTemperature).toBe(params.temperature);
+        expect(midnight.currentTemperature).toBeCloseTo(params.temperature - params.nightTempDecrease);
+    });
+});
+
+describe('updateEnvironment with a climate scenario', () => {
+    it('should follow a climate series instead of the seasonal sine wave', () => {
+        const series = { interval: 'tick' as const, temperature: [5, 30], humidity: [0.2, 0.9] };
+        const climateParams = { ...params, temperatureAmplitude: 15, climateScenario: { id: 'imported', name: 'Test', series } };
+
+        // Readings taken every tick are not cooled further at night.
+        const state = updateEnvironment(15, climateParams, initialState, []);
+        expect(state.currentTemperature).toBe(30);
+        expect(state.currentHumidity).toBe(0.9);
+    });
+
+    it('should add a warming trend to the temperature', () => {
+        const warming = { ...params, climateScenario: { id: 'warming', name: 'Warming', warmingPerTick: 0.01 } };
+        expect(updateEnvironment(1000, warming, initialState, []).currentTemperature).toBeCloseTo(params.temperature + 10);
+    });
+
+    it('should start droughts more often as time goes by', () => {
+        const droughts = { ...params, climateScenario: { id: 'droughts', name: 'Droughts', droughtChancePerTick: 0.001 } };
+        vi.spyOn(Math, 'random').mockReturnValue(0.5);
+        try {
+            expect(updateEnvironment(100, droughts, initialState, []).currentWeatherEvent.type).toBe('none');
+            expect(updateEnvironment(1000, droughts, initialState, []).currentWeatherEvent.type).toBe('drought');
+        } finally {
+            vi.restoreAllMocks();
+        }
+    });
+});
+
+describe('isNightTime', () => {
+    it('should treat the second half of the day as night', () => {
+        expect(isNightTime(0.25)).toBe(false);
+        expect(isNightTime(0.5)).toBe(true);
+        expect(isNightTime(0.99)).toBe(true);
+        expect(nightDarkness(0.25)).toBe(0);
+        expect(nightDarkness(0.75)).toBe(1);
+    });
+});
@@ -1,4 +1,13 @@
 import type { AppEvent, EnvironmentState, Season, SimulationParams, WeatherEventType } from '../types';
+import { random } from './random';
+import { nextWind } from './wind';
+import { climateReading } from './climateScenario';
+
+/** Whether the sun has set, for a time of day from 0 at sunrise to 1 at the next sunrise. */
+export const isNightTime = (timeOfDay: number): boolean => timeOfDay >= 0.5;
+
+/** How dark it is, from 0 through the day to 1 at midnight. */
+export const nightDarkness = (timeOfDay: number): number => Math.max(0, -Math.sin(timeOfDay * 2 * Math.PI));
 
 export function updateEnvironment(
     tick: number,
@@ -6,7 +15,7 @@ export function updateEnvironment(
     currentEnvironmentState: EnvironmentState,
     events: AppEvent[]
 ): EnvironmentState {
-    const { seasonLengthInTicks, temperature, temperatureAmplitude, humidity, humidityAmplitude } = params;
+    const { seasonLengthInTicks, temperature, temperatureAmplitude, humidity, humidityAmplitude, dayLengthInTicks, nightTempDecrease, climateScenario } = params;
     const { weatherEventChance, weatherEventMinDuration, weatherEventMaxDuration, heatwaveTempIncrease, coldsnapTempDecrease, heavyRainHumidityIncrease, droughtHumidityDecrease } = params;
     
     // Create a new state object to avoid mutations
@@ -16,8 +25,15 @@ export function updateEnvironment(
     const seasonalProgress = (tick % seasonLengthInTicks) / seasonLengthInTicks;
     const angle = seasonalProgress * 2 * Math.PI;
 
-    let seasonalTemp = temperature + Math.sin(angle) * temperatureAmplitude;
-    let seasonalHumidity = humidity + Math.sin(angle) * humidityAmplitude;
+    // A climate series takes the place of the sine wave; a scenario's warming trend adds to either
+    let seasonalTemp: number, seasonalHumidity: number;
+    if (climateScenario?.series) {
+        ({ temperature: seasonalTemp, humidity: seasonalHumidity } = climateReading(climateScenario.series, tick, params));
+    } else {
+        seasonalTemp = temperature + Math.sin(angle) * temperatureAmplitude;
+        seasonalHumidity = humidity + Math.sin(angle) * humidityAmplitude;
+    }
+    seasonalTemp += (climateScenario?.warmingPerTick ?? 0) * tick;
     
     let season: Season;
     if (seasonalProgress < 0.25) season = 'Spring';
@@ -27,7 +43,13 @@ export function updateEnvironment(
     
     newEnvironmentState.season = season;
 
-    // 2. Update weather events
+    // 2. Update the time of day; the night is colder, most of all at midnight. Readings taken
+    // every tick already rise and fall with the day.
+    const timeOfDay = dayLengthInTicks > 0 ? (tick % dayLengthInTicks) / dayLengthInTicks : 0;
+    if (climateScenario?.series?.interval !== 'tick') seasonalTemp -= nightDarkness(timeOfDay) * nightTempDecrease;
+    newEnvironmentState.timeOfDay = timeOfDay;
+
+    // 3. Update weather events
     const { currentWeatherEvent } = newEnvironmentState;
     if (currentWeatherEvent.duration > 0) {
         currentWeatherEvent.duration--;
@@ -36,15 +58,25 @@ export function updateEnvironment(
             currentWeatherEvent.type = 'none';
         }
     } else {
-        if (Math.random() < weatherEventChance) {
-            const eventTypes: WeatherEventType[] = ['heatwave', 'coldsnap', 'heavyrain', 'drought'];
-            currentWeatherEvent.type = eventTypes[Math.floor(Math.random() * eventTypes.length)];
-            currentWeatherEvent.duration = Math.floor(Math.random() * (weatherEventMaxDuration - weatherEventMinDuration + 1)) + weatherEventMinDuration;
+        const startWeatherEvent = (type: WeatherEventType) => {
+            currentWeatherEvent.type = type;
+            currentWeatherEvent.duration = Math.floor(random() * (weatherEventMaxDuration - weatherEventMinDuration + 1)) + weatherEventMinDuration;
             events.push({ message: `A ${currentWeatherEvent.type} has begun!`, type: 'info', importance: 'high' });
+        };
+        // Some scenarios make droughts more likely as time goes by
+        const droughtChance = (climateScenario?.droughtChancePerTick ?? 0) * tick;
+        if (random() < weatherEventChance) {
+            const eventTypes: WeatherEventType[] = ['heatwave', 'coldsnap', 'heavyrain', 'drought'];
+            startWeatherEvent(eventTypes[Math.floor(random() * eventTypes.length)]);
+        } else if (droughtChance > 0 && random() < droughtChance) {
+            startWeatherEvent('drought');
         }
     }
 
-    // 3. Apply event modifiers
+    // 4. Update the wind
+    newEnvironmentState.wind = nextWind(currentEnvironmentState.wind, params, angle, currentWeatherEvent.type);
+
+    // 5. Apply event modifiers
     switch (currentWeatherEvent.type) {
         case 'heatwave':
             seasonalTemp += heatwaveTempIncrease;
@@ -60,7 +92,7 @@ export function updateEnvironment(
             break;
     }
 
-    // 4. Finalize and clamp values
+    // 6. Finalize and clamp values
     newEnvironmentState.currentTemperature = seasonalTemp;
     newEnvironmentState.currentHumidity = Math.max(0, Math.min(1, seasonalHumidity));
 
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FlowerGenomeCache, genomeKey } from './flowerGenomeCache';
+import type { FlowerGenomeStats, GenomeCacheEntry } from '../types';
+
+const stats = (health: number) => ({ health } as FlowerGenomeStats);
+const conditions = (humidity: number, temperature: number) => ({ humidity, temperature, altitude: 0, terrainType: 0 });
+
+describe('FlowerGenomeCache', () => {
+    it('should compute stats once per genome and conditions', async () => {
+        const cache = new FlowerGenomeCache(10);
+        const compute = vi.fn().mockResolvedValue(stats(5));
+
+        await cache.getStats('g1', conditions(0.5, 20), compute);
+        expect(await cache.getStats('g1', conditions(0.5, 20), compute)).toEqual(stats(5));
+        await cache.getStats('g1', conditions(0.8, 20), compute);
+        await cache.getStats('g1', { ...conditions(0.5, 20), terrainType: 3 }, compute);
+
+        expect(compute).toHaveBeenCalledTimes(3);
+        expect(cache.takeStats()).toEqual({ hits: 1, misses: 3 });
+        expect(cache.takeStats()).toEqual({ hits: 0, misses: 0 });
+    });
+
+    it('should keep images by detail radius', async () => {
+        const cache = new FlowerGenomeCache(10);
+        cache.rememberImage('g1', 4, 'small');
+        const draw = vi.fn().mockResolvedValue('large');
+
+        expect(await cache.getImage('g1', 4, draw)).toBe('small');
+        expect(await cache.getImage('g1', 8, draw)).toBe('large');
+        expect(draw).toHaveBeenCalledTimes(1);
+    });
+
+    it('should forget the least recently used genome beyond its limit', async () => {
+        const cache = new FlowerGenomeCache(2);
+        const compute = vi.fn().mockResolvedValue(stats(1));
+        await cache.getStats('g1', conditions(0, 0), compute);
+        await cache.getStats('g2', conditions(0, 0), compute);
+        await cache.getStats('g1', conditions(0, 0), compute);
+        await cache.getStats('g3', conditions(0, 0), compute);
+
+        expect(cache.size).toBe(2);
+        await cache.getStats('g1', conditions(0, 0), compute);
+        await cache.getStats('g2', conditions(0, 0), compute);
+        expect(compute).toHaveBeenCalledTimes(4);
+    });
+
+    it('should write entries through to its store and read them back on a miss', async () => {
+        const stored = new Map<string, GenomeCacheEntry>();
+        const store = { get: async (key: string) => stored.get(key), put: async (entry: GenomeCacheEntry) => stored.set(entry.key, structuredClone(entry)) };
+        await new FlowerGenomeCache(10, store).getStats('g1', conditions(0.5, 20), async () => stats(7));
+
+        const compute = vi.fn();
+        const fresh = new FlowerGenomeCache(10, store);
+        expect(await fresh.getStats('g1', conditions(0.5, 20), compute)).toEqual(stats(7));
+        expect(compute).not.toHaveBeenCalled();
+        expect(stored.get(genomeKey('g1'))?.genome).toBe('g1');
+    });
+
+    it('should treat a stored entry for another genome under the same key as a miss', async () => {
+        const entry: GenomeCacheEntry = { key: genomeKey('g1'), genome: 'other', images: {}, stats: { '0|0': stats(1) }, storedAt: 0 };
+        const cache = new FlowerGenomeCache(10, { get: async () => entry, put: async () => undefined });
+
+        expect(await cache.getStats('g1', conditions(0, 0), async () => stats(2))).toEqual(stats(2));
+    });
+});
@@ -0,0 +1,128 @@
+import type { FlowerGenomeStats, GenomeCacheEntry, GenomeCacheStore, TerrainSite } from '../types';
+
+/**
+ * A content hash of a genome, used as its cache key: two 32-bit FNV-1a hashes with
+ * different offsets, and the length. Entries also keep the genome, so a collision is a miss.
+ */
+export const genomeKey = (genome: string): string => {
+    let h1 = 0x811c9dc5, h2 = 0x01000193 ^ genome.length;
+    for (let i = 0; i < genome.length; i++) {
+        const c = genome.charCodeAt(i);
+        h1 = Math.imul(h1 ^ c, 0x01000193);
+        h2 = Math.imul(h2 ^ c, 0x5bd1e995);
+    }
+    return `${(h1 >>> 0).toString(16).padStart(8, '0')}${(h2 >>> 0).toString(16).padStart(8, '0')}-${genome.length}`;
+};
+
+// Everything besides the genome that a flower's stats depend on.
+export interface StatsConditions extends TerrainSite {
+    humidity: number;
+    temperature: number;
+}
+
+export interface GenomeCacheStats {
+    hits: number;
+    misses: number;
+}
+
+/**
+ * Remembers the stats and rendered images of the genomes a genetics worker has seen, so
+ * genomes that come round again skip the WASM work. The most recently used `maxEntries`
+ * genomes are kept in memory; with a `store`, entries are also written through to it and
+ * looked up there before being worked out again.
+ */
+export class FlowerGenomeCache {
+    private entries = new Map<string, GenomeCacheEntry>();
+    private maxEntries: number;
+    private store: GenomeCacheStore | null;
+    private hits = 0;
+    private misses = 0;
+
+    constructor(maxEntries: number, store: GenomeCacheStore | null = null) {
+        this.maxEntries = maxEntries;
+        this.store = store;
+    }
+
+    /** The genome's stats in the given conditions, computed by `compute` on a miss. */
+    public async getStats(genome: string, conditions: StatsConditions, compute: () => Promise<FlowerGenomeStats>): Promise<FlowerGenomeStats> {
+        const { humidity, temperature, altitude, terrainType } = conditions;
+        const key = `${humidity}|${temperature}|${altitude}|${terrainType}`;
+        const entry = await this.lookup(genome);
+        const cached = entry?.stats[key];
+        if (cached) {
+            this.hits++;
+            return cached;
+        }
+        this.misses++;
+        const stats = await compute();
+        this.update(genome, e => e.stats[key] = stats);
+        return stats;
+    }
+
+    /** The genome's image at the given detail radius, drawn by `draw` on a miss. */
+    public async getImage(genome: string, radius: number, draw: () => Promise<string>): Promise<string> {
+        const entry = await this.lookup(genome);
+        const cached = entry?.images[radius];
+        if (cached) {
+            this.hits++;
+            return cached;
+        }
+        this.misses++;
+        const image = await draw();
+        this.rememberImage(genome, radius, image);
+        return image;
+    }
+
+    /** Keeps an image drawn along with a new genome, such as by `mutate` or `reproduce`. */
+    public rememberImage(genome: string, radius: number, image: string) {
+        this.update(genome, e => e.images[radius] = image);
+    }
+
+    /** The hits and misses since the last call. */
+    public takeStats(): GenomeCacheStats {
+        const stats = { hits: this.hits, misses: this.misses };
+        this.hits = 0;
+        this.misses = 0;
+        return stats;
+    }
+
+    public get size(): number {
+        return this.entries.size;
+    }
+
+    private async lookup(genome: string): Promise<GenomeCacheEntry | undefined> {
+        const key = genomeKey(genome);
+        let entry = this.entries.get(key);
+        if (!entry && this.store) {
+            try {
+                entry = await this.store.get(key);
+            } catch (error) {
+                console.error("Genome cache: failed to read from the store.", error);
+            }
+        }
+        if (!entry || entry.genome !== genome) return undefined;
+        this.remember(entry);
+        return entry;
+    }
+
+    private update(genome: string, change: (entry: GenomeCacheEntry) => void) {
+        const key = genomeKey(genome);
+        const existing = this.entries.get(key);
+        const entry = existing && existing.genome === genome
+            ? existing
+            : { key, genome, images: {}, stats: {}, storedAt: 0 };
+        change(entry);
+        entry.storedAt = Date.now();
+        this.remember(entry);
+        this.store?.put(entry).catch(error => console.error("Genome cache: failed to write to the store.", error));
+    }
+
+    // Makes the entry the most recently used, evicting the least recently used beyond the limit.
+    private remember(entry: GenomeCacheEntry) {
+        this.entries.delete(entry.key);
+        this.entries.set(entry.key, entry);
+        if (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { FlowerRequestQueue } from './flowerRequestQueue';
+import type { FlowerCreationRequest, FlowerRequestPriority } from '../types';
+
+const request = (requestId: string, priority?: FlowerRequestPriority): FlowerCreationRequest => ({ requestId, flowerId: `f-${requestId}`, x: 0, y: 0, priority });
+
+const drain = (queue: FlowerRequestQueue) => {
+    const ids: string[] = [];
+    for (let next = queue.shift(); next; next = queue.shift()) ids.push(next.requestId);
+    return ids;
+};
+
+describe('FlowerRequestQueue', () => {
+    it('should serve plantings, then pollination, then expansion', () => {
+        const queue = new FlowerRequestQueue();
+        queue.push(request('e1', 'expansion'));
+        queue.push(request('p1', 'pollination'));
+        queue.push(request('c1', 'planting'));
+        queue.push(request('d1'));
+
+        expect(drain(queue)).toEqual(['c1', 'p1', 'd1', 'e1']);
+    });
+
+    it('should serve requests of equal priority in arrival order', () => {
+        const queue = new FlowerRequestQueue();
+        for (let i = 0; i < 20; i++) queue.push(request(`r${i}`, i % 2 ? 'expansion' : 'pollination'));
+
+        const ids = drain(queue);
+        expect(ids.slice(0, 10)).toEqual(['r0', 'r2', 'r4', 'r6', 'r8', 'r10', 'r12', 'r14', 'r16', 'r18']);
+        expect(ids.slice(10)).toEqual(['r1', 'r3', 'r5', 'r7', 'r9', 'r11', 'r13', 'r15', 'r17', 'r19']);
+    });
+
+    it('should remove waiting requests by ID', () => {
+        const queue = new FlowerRequestQueue();
+        ['a', 'b', 'c', 'd'].forEach(id => queue.push(request(id)));
+
+        expect(queue.remove('b')).toBe(true);
+        expect(queue.remove('b')).toBe(false);
+        expect(queue.size).toBe(3);
+        expect(drain(queue)).toEqual(['a', 'c', 'd']);
+    });
+});
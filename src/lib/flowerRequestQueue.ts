@@ -0,0 +1,84 @@
+import type { FlowerCreationRequest, FlowerRequestPriority } from '../types';
+
+const PRIORITY_RANK: Record<FlowerRequestPriority, number> = { planting: 0, pollination: 1, expansion: 2 };
+
+/** Lower ranks are served first. Requests without a priority count as pollination. */
+export const priorityRank = (priority: FlowerRequestPriority = 'pollination'): number => PRIORITY_RANK[priority];
+
+interface QueuedRequest {
+    request: FlowerCreationRequest;
+    rank: number;
+    sequence: number;
+}
+
+/**
+ * Flower requests waiting for a free genetics worker, as a binary heap ordered by
+ * priority and then by arrival, so requests of equal priority are served first come, first served.
+ */
+export class FlowerRequestQueue {
+    private heap: QueuedRequest[] = [];
+    private sequence = 0;
+
+    get size(): number {
+        return this.heap.length;
+    }
+
+    public push(request: FlowerCreationRequest) {
+        this.heap.push({ request, rank: priorityRank(request.priority), sequence: this.sequence++ });
+        this.siftUp(this.heap.length - 1);
+    }
+
+    /** Takes the request to serve next. */
+    public shift(): FlowerCreationRequest | undefined {
+        if (this.heap.length === 0) return undefined;
+        const next = this.heap[0];
+        this.removeAt(0);
+        return next.request;
+    }
+
+    /** Drops a waiting request. Returns false if it is not in the queue. */
+    public remove(requestId: string): boolean {
+        const index = this.heap.findIndex(entry => entry.request.requestId === requestId);
+        if (index === -1) return false;
+        this.removeAt(index);
+        return true;
+    }
+
+    public clear() {
+        this.heap = [];
+        this.sequence = 0;
+    }
+
+    private removeAt(index: number) {
+        const last = this.heap.pop()!;
+        if (index === this.heap.length) return;
+        this.heap[index] = last;
+        this.siftUp(index);
+        this.siftDown(index);
+    }
+
+    private before(a: QueuedRequest, b: QueuedRequest): boolean {
+        return a.rank !== b.rank ? a.rank < b.rank : a.sequence < b.sequence;
+    }
+
+    private siftUp(index: number) {
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (!this.before(this.heap[index], this.heap[parent])) return;
+            [this.heap[index], this.heap[parent]] = [this.heap[parent], this.heap[index]];
+            index = parent;
+        }
+    }
+
+    private siftDown(index: number) {
+        for (;;) {
+            const left = index * 2 + 1, right = left + 1;
+            let first = index;
+            if (left < this.heap.length && this.before(this.heap[left], this.heap[first])) first = left;
+            if (right < this.heap.length && this.before(this.heap[right], this.heap[first])) first = right;
+            if (first === index) return;
+            [this.heap[index], this.heap[first]] = [this.heap[first], this.heap[index]];
+            index = first;
+        }
+    }
+}
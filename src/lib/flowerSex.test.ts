@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { fertilisationChance, makesPollen, setsSeed } from './flowerSex';
+import { FLOWER_SELFING_CHANCE } from '../constants';
+import type { Flower, FlowerSex } from '../types';
+
+const createFlower = (id: string, sex: FlowerSex): Flower => ({
+    id, type: 'flower', x: 0, y: 0, genome: 'g', imageData: '', health: 100, stamina: 100,
+    age: 60, isMature: true, maxHealth: 100, maxStamina: 100, maturationPeriod: 50,
+    nutrientEfficiency: 1, sex, minTemperature: 0, maxTemperature: 40, toxicityRate: 0,
+    effects: { vitality: 0, agility: 0, strength: 0, intelligence: 0, luck: 0 },
+});
+
+describe('flowerSex', () => {
+    it('should have male flowers and hermaphrodites make pollen, and female flowers and hermaphrodites set seed', () => {
+        expect([makesPollen('male'), makesPollen('female'), makesPollen('both')]).toEqual([true, false, true]);
+        expect([setsSeed('male'), setsSeed('female'), setsSeed('both')]).toEqual([false, true, true]);
+    });
+
+    it('should treat pollen without a recorded sex as from a hermaphrodite', () => {
+        expect(makesPollen(undefined)).toBe(true);
+        expect(fertilisationChance('donor', undefined, createFlower('recipient', 'female'))).toBe(1);
+    });
+
+    it('should only let pollen from a flower that makes it set seed on one that sets it', () => {
+        expect(fertilisationChance('donor', 'male', createFlower('recipient', 'female'))).toBe(1);
+        expect(fertilisationChance('donor', 'both', createFlower('recipient', 'both'))).toBe(1);
+        expect(fertilisationChance('donor', 'female', createFlower('recipient', 'female'))).toBe(0);
+        expect(fertilisationChance('donor', 'male', createFlower('recipient', 'male'))).toBe(0);
+    });
+
+    it('should only let hermaphrodites fertilise themselves, at the selfing chance', () => {
+        expect(fertilisationChance('self', 'both', createFlower('self', 'both'))).toBe(FLOWER_SELFING_CHANCE);
+        expect(fertilisationChance('self', 'male', createFlower('self', 'male'))).toBe(0);
+        expect(fertilisationChance('self', 'female', createFlower('self', 'female'))).toBe(0);
+    });
+});
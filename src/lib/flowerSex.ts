@@ -0,0 +1,19 @@
+import type { Flower, FlowerSex } from '../types';
+import { FLOWER_SELFING_CHANCE } from '../constants';
+
+/** Whether a flower of this sex makes pollen: male flowers and hermaphrodites do. */
+export const makesPollen = (sex: FlowerSex = 'both'): boolean => sex !== 'female';
+
+/** Whether seed can set on a flower of this sex: female flowers and hermaphrodites. */
+export const setsSeed = (sex: FlowerSex = 'both'): boolean => sex !== 'male';
+
+/**
+ * How likely pollen from a donor flower is to set seed on a recipient, relative to the usual
+ * chance of the way it got there: 0 unless the donor makes pollen and the recipient sets seed.
+ * Only hermaphrodites can fertilise themselves, and less readily than another flower can.
+ */
+export const fertilisationChance = (donorId: string, donorSex: FlowerSex | undefined, recipient: Flower): number => {
+    if (!makesPollen(donorSex) || !setsSeed(recipient.sex)) return 0;
+    if (donorId === recipient.id) return recipient.sex === 'both' ? FLOWER_SELFING_CHANCE : 0;
+    return 1;
+};
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { createGardenFile, parseGardenFile, getGardenFileName } from './gardenFile';
+import { DEFAULT_SIM_PARAMS, GARDEN_FILE_FORMAT_VERSION } from '../constants';
+import type { CustomSpeciesFile, GardenFile, SavedGardenState } from '../types';
+
+const state: SavedGardenState = {
+    params: { ...DEFAULT_SIM_PARAMS, gridWidth: 2, gridHeight: 1 },
+    grid: [[[{ id: 'nutrient-1', type: 'nutrient', x: 0, y: 0, lifespan: 10 }], []]],
+    tick: 480,
+    totalInsectsEaten: 3,
+    totalBirdsHunted: 0,
+    totalHerbicidePlanesSpawned: 1,
+    environmentState: { currentTemperature: 20, currentHumidity: 0.5, season: 'Summer', currentWeatherEvent: { type: 'none', duration: 0 }, timeOfDay: 0, wind: { direction: 'S', strength: 3 } },
+    rngState: 99,
+};
+
+const moth: CustomSpeciesFile = {
+    emoji: '🦟', name: 'Moth', role: 'pollinator',
+    stats: { attack: 0, maxHealth: 20, maxStamina: 30, speed: 2, eggHatchTime: 20, reproductionCost: 5 },
+    behaviors: [{ type: 'pollinate' }],
+};
+
+const makeGarden = (overrides: Partial<GardenFile> = {}): GardenFile => ({
+    ...createGardenFile(
+        'Wet Spring #2',
+        state,
+        [{ category: 'longestLived', genome: 'genome-a', value: 900, imageData: '', sex: 'both' }],
+        [{ id: 'survival-1', title: 'Budding Survivor', description: '', goal: 100, progress: 100, completed: true, metric: 'maxFlowerAge', aggregator: 'max' }],
+        [{ tick: 479, flowers: 12 } as GardenFile['analyticsHistory'][number]],
+        [moth],
+    ),
+    ...overrides,
+});
+
+describe('parseGardenFile', () => {
+    it('round-trips a serialized garden', () => {
+        const garden = makeGarden();
+        expect(garden).toMatchObject({ format: 'evogarden-garden', version: GARDEN_FILE_FORMAT_VERSION });
+        expect(parseGardenFile(JSON.stringify(garden))).toEqual(garden);
+    });
+
+    it('rejects text that is not JSON', () => {
+        expect(() => parseGardenFile('not json')).toThrow('not valid JSON');
+    });
+
+    it('rejects JSON that is not a garden', () => {
+        expect(() => parseGardenFile(JSON.stringify({ ...makeGarden(), format: 'evogarden-replay' }))).toThrow('not an EvoGarden garden');
+    });
+
+    it('rejects gardens from a newer format version', () => {
+        expect(() => parseGardenFile(JSON.stringify(makeGarden({ version: GARDEN_FILE_FORMAT_VERSION + 1 })))).toThrow('Unsupported garden version');
+    });
+
+    it('rejects gardens without a complete state', () => {
+        const { grid: _grid, ...withoutGrid } = state;
+        expect(() => parseGardenFile(JSON.stringify({ ...makeGarden(), state: withoutGrid }))).toThrow('incomplete');
+        expect(() => parseGardenFile(JSON.stringify({ ...makeGarden(), seedBank: {} }))).toThrow('seedBank is not a list');
+    });
+
+    it('fills in the lists a hand-made garden leaves out', () => {
+        const parsed = parseGardenFile(JSON.stringify({ format: 'evogarden-garden', version: 1, state }));
+        expect(parsed).toMatchObject({ name: 'Imported garden', seedBank: [], challenges: [], analyticsHistory: [], customSpecies: [] });
+    });
+
+    it('rejects gardens with an invalid species definition', () => {
+        const garden = makeGarden({ customSpecies: [moth, { ...moth, emoji: '🐝' }] });
+        expect(() => parseGardenFile(JSON.stringify(garden))).toThrow("species 2 is invalid: 🐝 is already used by the Honeybee");
+    });
+});
+
+describe('getGardenFileName', () => {
+    it('names the file after the garden and its tick', () => {
+        expect(getGardenFileName(makeGarden())).toBe('wet-spring-2-tick-480.evogarden');
+        expect(getGardenFileName(makeGarden({ name: '***' }))).toBe('evogarden-tick-480.evogarden');
+    });
+});
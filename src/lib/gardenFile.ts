@@ -0,0 +1,68 @@
+import type { AnalyticsDataPoint, Challenge, CustomSpeciesFile, GardenFile, SavedGardenState, SeedBankEntry } from '../types';
+import { GARDEN_FILE_FORMAT_VERSION } from '../constants';
+import { parseCustomSpecies } from './customSpecies';
+
+export const GARDEN_FILE_EXTENSION = '.evogarden';
+
+export const createGardenFile = (
+    name: string,
+    state: SavedGardenState,
+    seedBank: SeedBankEntry[],
+    challenges: Challenge[],
+    analyticsHistory: AnalyticsDataPoint[],
+    customSpecies: CustomSpeciesFile[],
+): GardenFile => ({
+    format: 'evogarden-garden',
+    version: GARDEN_FILE_FORMAT_VERSION,
+    name,
+    exportedAt: Date.now(),
+    state,
+    seedBank,
+    challenges,
+    analyticsHistory,
+    customSpecies,
+});
+
+/**
+ * Parses the contents of a garden file, throwing a user-readable error if it is not
+ * a garden this version of EvoGarden can open.
+ */
+export const parseGardenFile = (text: string): GardenFile => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+
+    if (data?.format !== 'evogarden-garden') {
+        throw new Error('The file is not an EvoGarden garden.');
+    }
+    if (typeof data.version !== 'number' || data.version > GARDEN_FILE_FORMAT_VERSION) {
+        throw new Error(`Unsupported garden version: ${data.version}.`);
+    }
+    const { state } = data;
+    if (!state?.params || !Array.isArray(state.grid) || typeof state.tick !== 'number') {
+        throw new Error('The garden file is incomplete.');
+    }
+    for (const list of ['seedBank', 'challenges', 'analyticsHistory', 'customSpecies']) {
+        if (data[list] !== undefined && !Array.isArray(data[list])) {
+            throw new Error(`The garden file's ${list} is not a list.`);
+        }
+    }
+
+    const customSpecies = (data.customSpecies ?? []).map((species: unknown, i: number) => {
+        try {
+            return parseCustomSpecies(species);
+        } catch (err) {
+            throw new Error(`The garden file's species ${i + 1} is invalid: ${err instanceof Error ? err.message : err}`);
+        }
+    });
+
+    return { name: 'Imported garden', exportedAt: 0, seedBank: [], challenges: [], analyticsHistory: [], ...data, customSpecies };
+};
+
+export const getGardenFileName = (garden: GardenFile): string => {
+    const slug = garden.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    return `${slug || 'evogarden'}-tick-${garden.state.tick}${GARDEN_FILE_EXTENSION}`;
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { runHeadlessSimulation } from './headlessRunner';
+import { setRandomSource } from './random';
+import { StubFlowerService } from '../services/stubFlowerService';
+import { createInMemoryPersistence } from '../services/memoryPersistence';
+import { DEFAULT_SIM_PARAMS } from '../constants';
+import type { TickSummary } from '../types';
+
+const params = { ...DEFAULT_SIM_PARAMS, gridWidth: 10, gridHeight: 10, initialFlowers: 12, initialInsects: 6, initialBirds: 1 };
+
+const collectRun = async (seed: number | null, ticks: number) => {
+    const summaries: TickSummary[] = [];
+    await runHeadlessSimulation({
+        params: { ...params, seed },
+        ticks,
+        flowerService: new StubFlowerService(),
+        onTick: (summary) => summaries.push(summary),
+    });
+    return summaries;
+};
+
+const withoutTiming = (summaries: TickSummary[]) => summaries.map(({ tickTimeMs: _tickTimeMs, flowerQueueDepth: _depth, flowerQueueLatencyMs: _latency, flowerCacheHitRate: _hitRate, ...rest }) => rest);
+
+describe('runHeadlessSimulation', () => {
+    afterEach(() => {
+        setRandomSource(null);
+    });
+
+    it('should report one summary per tick', async () => {
+        const summaries = await collectRun(null, 10);
+        expect(summaries).toHaveLength(10);
+        expect(summaries.map(s => s.tick)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+        expect(summaries[0].flowerCount).toBeGreaterThan(0);
+    });
+
+    it('should produce identical summaries for the same seed', async () => {
+        const first = await collectRun(2024, 40);
+        const second = await collectRun(2024, 40);
+        expect(withoutTiming(second)).toEqual(withoutTiming(first));
+    });
+
+    it('should use the supplied persistence layer for the seed bank', async () => {
+        const persistence = createInMemoryPersistence();
+        const getSpy = vi.spyOn(persistence.seedBank, 'get');
+        await runHeadlessSimulation({
+            params, ticks: 1, flowerService: new StubFlowerService(), persistence, onTick: () => {},
+        });
+        expect(getSpy).toHaveBeenCalledWith('longestLived');
+    });
+
+    it('should replay identical ticks after rewinding a seeded run', async () => {
+        const summaries: TickSummary[] = [];
+        const engine = await runHeadlessSimulation({
+            params: { ...params, seed: 77 },
+            ticks: 30,
+            flowerService: new StubFlowerService(),
+            onTick: (summary) => summaries.push(summary),
+        });
+
+        engine.restoreTick(15);
+        const replayed: TickSummary[] = [];
+        for (let i = 0; i < 15; i++) {
+            replayed.push((await engine.calculateNextTick()).summary);
+        }
+
+        expect(withoutTiming(replayed)).toEqual(withoutTiming(summaries.slice(15)));
+    });
+});
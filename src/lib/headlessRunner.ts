@@ -0,0 +1,41 @@
+import type { AppEvent, FEService, SimulationParams, SimulationPersistence, TickSummary } from '../types';
+import { SimulationEngine } from './simulationEngine';
+import { InProcessFlowerBackend } from './inProcessFlowerBackend';
+import { createInitialWorld } from './simulationInitializer';
+import { TerrainMap } from './terrain';
+import { createInMemoryPersistence } from '../services/memoryPersistence';
+
+export interface HeadlessRunOptions {
+    params: SimulationParams;
+    ticks: number;
+    flowerService: FEService;
+    persistence?: SimulationPersistence;
+    onTick: (summary: TickSummary, events: AppEvent[]) => void;
+}
+
+/**
+ * Runs a simulation to completion without a browser: the flower genetics run in-process
+ * and the seed bank lives in memory unless a persistence layer is supplied.
+ * Mirrors the set-up done by `simulation.worker.ts` when it receives new params.
+ */
+export const runHeadlessSimulation = async ({ params, ticks, flowerService, persistence, onTick }: HeadlessRunOptions): Promise<SimulationEngine> => {
+    await flowerService.initialize();
+    flowerService.setParams({ radius: params.flowerDetailRadius, numLayers: 3, P: 6.0, bias: 1.0 });
+
+    const engine = new SimulationEngine(params, flowerService, persistence ?? createInMemoryPersistence());
+    engine.setFlowerWorkerPorts([new InProcessFlowerBackend(flowerService)], params);
+
+    const stem = await flowerService.makeStem();
+    engine.setStemImage(stem.image);
+
+    const terrain = TerrainMap.generate(params.gridWidth, params.gridHeight);
+    const actors = await createInitialWorld(flowerService, params, terrain);
+    engine.initializeGridWithActors(actors, terrain);
+
+    for (let i = 0; i < ticks; i++) {
+        const { summary, events } = await engine.calculateNextTick();
+        onTick(summary, events);
+    }
+
+    return engine;
+};
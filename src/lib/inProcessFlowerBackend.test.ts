@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InProcessFlowerBackend } from './inProcessFlowerBackend';
+import { StubFlowerService } from '../services/stubFlowerService';
+import { DEFAULT_SIM_PARAMS } from '../constants';
+
+const flushAsync = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('InProcessFlowerBackend', () => {
+    const setup = () => {
+        const backend = new InProcessFlowerBackend(new StubFlowerService());
+        const onmessage = vi.fn();
+        backend.onmessage = onmessage;
+        backend.postMessage({ type: 'update-params', payload: DEFAULT_SIM_PARAMS });
+        return { backend, onmessage };
+    };
+
+    it('should reply with a created flower for each request, in order', async () => {
+        const { backend, onmessage } = setup();
+        backend.postMessage({ type: 'request-flower', payload: { requestId: 'seed-1', flowerId: 'flower-1', x: 1, y: 2 } });
+        backend.postMessage({ type: 'request-flower', payload: { requestId: 'seed-2', flowerId: 'flower-2', x: 3, y: 4, parentGenome1: 'stub-a', parentGenome2: 'stub-b' } });
+        await flushAsync();
+
+        expect(onmessage).toHaveBeenCalledTimes(2);
+        const [first, second] = onmessage.mock.calls.map(([e]) => e.data);
+        expect(first.type).toBe('flower-created');
+        expect(first.payload.requestId).toBe('seed-1');
+        expect(first.payload.flower).toMatchObject({ id: 'flower-1', x: 1, y: 2, type: 'flower' });
+        expect(second.payload.requestId).toBe('seed-2');
+    });
+
+    it('should not reply to cancelled requests', async () => {
+        const { backend, onmessage } = setup();
+        backend.postMessage({ type: 'request-flower', payload: { requestId: 'seed-1', flowerId: 'flower-1', x: 0, y: 0 } });
+        backend.postMessage({ type: 'cancel-flower-request', payload: { requestId: 'seed-1' } });
+        await flushAsync();
+
+        expect(onmessage).not.toHaveBeenCalled();
+    });
+
+    it('should reevaluate between breeds, answering a failed batch with no updates', async () => {
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const { backend, onmessage } = setup();
+        backend.postMessage({ type: 'request-flower', payload: { requestId: 'seed-1', flowerId: 'flower-1', x: 0, y: 0 } });
+        backend.postMessage({ type: 'request-flower', payload: { requestId: 'seed-2', flowerId: 'flower-2', x: 1, y: 0 } });
+        // A batch without its list of flowers cannot be worked out.
+        backend.postMessage({ type: 'reevaluate-flowers', payload: { batchId: 'batch-1', temperature: 20, humidity: 0.5, flowers: null } });
+        await flushAsync();
+
+        const replies = onmessage.mock.calls.map(([e]) => e.data);
+        expect(replies.map(reply => reply.type)).toEqual(['flower-created', 'flowers-reevaluated', 'flower-created']);
+        expect(replies[1].payload).toMatchObject({ batchId: 'batch-1', updates: [] });
+        expect(errorSpy).toHaveBeenCalled();
+        errorSpy.mockRestore();
+    });
+
+    it('should ignore requests made before params are set', async () => {
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const backend = new InProcessFlowerBackend(new StubFlowerService());
+        const onmessage = vi.fn();
+        backend.onmessage = onmessage;
+        backend.postMessage({ type: 'request-flower', payload: { requestId: 'seed-1', flowerId: 'flower-1', x: 0, y: 0 } });
+        await flushAsync();
+
+        expect(onmessage).not.toHaveBeenCalled();
+        expect(errorSpy).toHaveBeenCalled();
+        errorSpy.mockRestore();
+    });
+});
@@ -0,0 +1,99 @@
+import type { FEService, FlowerCreationRequest, FlowerReevaluationRequest, SimulationParams } from '../types';
+import type { FlowerWorkerPort } from './asyncFlowerFactory';
+import { createNewFlower, reevaluateFlowerStats } from './simulationInitializer';
+import { FlowerGenomeCache } from './flowerGenomeCache';
+import { GENOME_CACHE_MAX_ENTRIES } from '../constants';
+
+/**
+ * An in-process replacement for `flower.worker.ts`, for environments without Web Workers
+ * (e.g. the headless Node runner). It speaks the same message protocol as the worker, so
+ * the `AsyncFlowerFactory` can use it in place of a `MessagePort`.
+ */
+export class InProcessFlowerBackend implements FlowerWorkerPort {
+    public onmessage: ((e: MessageEvent) => void) | null = null;
+
+    private flowerService: FEService;
+    private currentParams: SimulationParams | null = null;
+    private requestQueue: FlowerCreationRequest[] = [];
+    private reevaluationQueue: FlowerReevaluationRequest[] = [];
+    private cancelledRequests = new Set<string>();
+    private isProcessing = false;
+    private genomeCache = new FlowerGenomeCache(GENOME_CACHE_MAX_ENTRIES);
+
+    constructor(flowerService: FEService) {
+        this.flowerService = flowerService;
+    }
+
+    public postMessage(message: { type: string; payload?: any }) {
+        const { type, payload } = message;
+
+        switch (type) {
+            case 'update-params':
+                this.currentParams = payload;
+                this.flowerService.setParams({ radius: payload.flowerDetailRadius, numLayers: 2, P: 6.0, bias: 1.0 });
+                break;
+            case 'request-flower':
+                if (!this.currentParams) {
+                    console.error("In-process flower backend received request before params were set.");
+                    return;
+                }
+                this.requestQueue.push(payload);
+                this.processQueue();
+                break;
+            case 'reevaluate-flowers':
+                this.reevaluationQueue.push(payload);
+                this.processQueue();
+                break;
+            case 'cancel-flower-request':
+                this.cancelledRequests.add(payload.requestId);
+                break;
+            case 'cancel-all-requests':
+                this.requestQueue = [];
+                this.cancelledRequests.clear();
+                break;
+        }
+    }
+
+    /**
+     * Processes requests one at a time, like the worker does, replying asynchronously.
+     * Reevaluation batches go before the next breed.
+     */
+    private async processQueue() {
+        if (this.isProcessing) return;
+        this.isProcessing = true;
+
+        while (this.reevaluationQueue.length > 0 || this.requestQueue.length > 0) {
+            const reevaluation = this.reevaluationQueue.shift();
+            if (reevaluation) {
+                // A batch that fails is answered with no updates, so the engine is not left waiting on it.
+                const updates = await reevaluateFlowerStats(this.flowerService, reevaluation, this.genomeCache).catch(error => {
+                    console.error("In-process flower backend failed to reevaluate flowers.", error);
+                    return [];
+                });
+                this.reply('flowers-reevaluated', { batchId: reevaluation.batchId, updates, cacheStats: this.genomeCache.takeStats() });
+                continue;
+            }
+
+            const request = this.requestQueue.shift()!;
+            if (this.cancelledRequests.delete(request.requestId)) continue;
+
+            const newFlower = await createNewFlower(this.flowerService, this.currentParams!, request.x, request.y, request.parentGenome1, request.parentGenome2, request.flowerId, request.genome, request.site, this.genomeCache);
+            const cacheStats = this.genomeCache.takeStats();
+
+            // The request may have been cancelled while the flower was being created.
+            if (this.cancelledRequests.delete(request.requestId)) continue;
+
+            if (newFlower) {
+                this.reply('flower-created', { requestId: request.requestId, flower: newFlower, cacheStats });
+            } else {
+                this.reply('flower-creation-failed', { requestId: request.requestId, cacheStats });
+            }
+        }
+
+        this.isProcessing = false;
+    }
+
+    private reply(type: string, payload: unknown) {
+        this.onmessage?.({ data: { type, payload } } as MessageEvent);
+    }
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { ObstacleMap, frameObstacleAt } from './obstacles';
+
+describe('ObstacleMap', () => {
+    it('should place an obstacle on a clear cell and clear it when toggled again', () => {
+        const obstacles = ObstacleMap.empty(3, 3);
+        expect(obstacles.toggle('wall', 1, 2)).toBe('wall');
+        expect(obstacles.kindAt(1, 2)).toBe('wall');
+        expect(obstacles.isBlocked(1, 2)).toBe(true);
+
+        expect(obstacles.toggle('rock', 1, 2)).toBeNull();
+        expect(obstacles.isBlocked(1, 2)).toBe(false);
+    });
+
+    it('should ignore cells outside the garden', () => {
+        const obstacles = ObstacleMap.empty(2, 2);
+        expect(obstacles.toggle('rock', 2, 0)).toBeNull();
+        expect(obstacles.kindAt(-1, 0)).toBeNull();
+        expect(obstacles.toData().cells).toEqual([0, 0, 0, 0]);
+    });
+
+    it('should survive a round trip through its saved data and frames', () => {
+        const obstacles = ObstacleMap.empty(2, 2);
+        obstacles.toggle('rock', 0, 0);
+        obstacles.toggle('wall', 1, 1);
+
+        const restored = ObstacleMap.fromData(obstacles.toData());
+        expect(restored.kindAt(0, 0)).toBe('rock');
+        expect(restored.kindAt(1, 1)).toBe('wall');
+
+        const frame = restored.toFrame();
+        expect(frameObstacleAt(frame, 1, 1)).toBe('wall');
+        expect(frameObstacleAt(frame, 1, 0)).toBeNull();
+        expect(frameObstacleAt(null, 0, 0)).toBeNull();
+    });
+
+    it('should go back to a snapshot', () => {
+        const obstacles = ObstacleMap.empty(2, 1);
+        const snapshot = obstacles.getSnapshot();
+        obstacles.toggle('wall', 0, 0);
+        obstacles.restoreSnapshot(snapshot);
+        expect(obstacles.isBlocked(0, 0)).toBe(false);
+    });
+});
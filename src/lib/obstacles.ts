@@ -0,0 +1,81 @@
+import type { ObstacleData, ObstacleFrame, ObstacleKind } from '../types';
+import { OBSTACLE_KINDS } from '../constants';
+
+/** The obstacle on a cell of a frame sent to the UI, or null where the cell is clear. */
+export const frameObstacleAt = (frame: ObstacleFrame | null, x: number, y: number): ObstacleKind | null => {
+    if (!frame || x < 0 || x >= frame.width || y < 0 || y >= frame.height) return null;
+    const cell = frame.cells[y * frame.width + x];
+    return cell ? OBSTACLE_KINDS[cell - 1] ?? null : null;
+};
+
+/**
+ * The rocks and walls placed in the garden. Walking actors cannot cross them and find
+ * their way around instead; flying insects pass over them.
+ */
+export class ObstacleMap {
+    readonly width: number;
+    readonly height: number;
+    private cells: Uint8Array;
+
+    private constructor(width: number, height: number, cells: Uint8Array) {
+        this.width = width;
+        this.height = height;
+        this.cells = cells;
+    }
+
+    /** A garden with no obstacles. */
+    static empty(width: number, height: number): ObstacleMap {
+        return new ObstacleMap(width, height, new Uint8Array(width * height));
+    }
+
+    static fromData(data: ObstacleData): ObstacleMap {
+        return new ObstacleMap(data.width, data.height, Uint8Array.from(data.cells));
+    }
+
+    public toData(): ObstacleData {
+        return { width: this.width, height: this.height, cells: Array.from(this.cells) };
+    }
+
+    /** The obstacles in a buffer that can be transferred to the UI. */
+    public toFrame(): ObstacleFrame {
+        return { width: this.width, height: this.height, cells: this.cells.slice() };
+    }
+
+    public getSnapshot(): Uint8Array {
+        return this.cells.slice();
+    }
+
+    public restoreSnapshot(snapshot: Uint8Array) {
+        this.cells = snapshot.slice();
+    }
+
+    public kindAt(x: number, y: number): ObstacleKind | null {
+        const index = this.indexOf(x, y);
+        if (index === -1 || !this.cells[index]) return null;
+        return OBSTACLE_KINDS[this.cells[index] - 1] ?? null;
+    }
+
+    public isBlocked(x: number, y: number): boolean {
+        return this.kindAt(x, y) !== null;
+    }
+
+    /**
+     * Places an obstacle of the given kind on the cell, or clears the cell if one is already there.
+     * Returns the obstacle now on the cell, or null if it was cleared or lies outside the garden.
+     */
+    public toggle(kind: ObstacleKind, x: number, y: number): ObstacleKind | null {
+        const index = this.indexOf(x, y);
+        if (index === -1) return null;
+        if (this.cells[index]) {
+            this.cells[index] = 0;
+            return null;
+        }
+        this.cells[index] = OBSTACLE_KINDS.indexOf(kind) + 1;
+        return kind;
+    }
+
+    private indexOf(x: number, y: number): number {
+        if (x < 0 || x >= this.width || y < 0 || y >= this.height) return -1;
+        return Math.floor(y) * this.width + Math.floor(x);
+    }
+}
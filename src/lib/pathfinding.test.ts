@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { PathfindingService } from './pathfinding';
+import { ObstacleMap } from './obstacles';
+import { SoilMoistureMap } from './soilMoisture';
+import { TerrainMap } from './terrain';
+import type { Coord, PheromoneTrail } from '../types';
+
+const setup = (width: number, height: number, { walls = [] as Coord[], water = [] as Coord[], rock = [] as Coord[], trails = [] as PheromoneTrail[] } = {}) => {
+    const types = new Array(width * height).fill(0);
+    for (const { x, y } of rock) types[y * width + x] = 3;
+    const terrain = TerrainMap.fromData({ width, height, altitude: new Array(width * height).fill(0), types });
+    const soil = SoilMoistureMap.uniform(width, height, 0.5);
+    const soilData = soil.toData();
+    for (const { x, y } of water) soilData.water[y * width + x] = 1;
+    const obstacles = ObstacleMap.empty(width, height);
+    for (const { x, y } of walls) obstacles.toggle('wall', x, y);
+
+    const pathfinder = new PathfindingService(width, height);
+    pathfinder.update(terrain, SoilMoistureMap.fromData(soilData), obstacles, trails);
+    return pathfinder;
+};
+
+const trail = (x: number, y: number, colonyId: string) => ({ id: `trail-${x}-${y}`, type: 'pheromoneTrail', x, y, colonyId, lifespan: 10, strength: 1 }) as PheromoneTrail;
+
+// Follows the path one step at a time, as an actor would.
+const walk = (pathfinder: PathfindingService, from: Coord, to: Coord) => {
+    const path: Coord[] = [];
+    let position = from;
+    for (let step = pathfinder.nextStep(position, to); step; step = pathfinder.nextStep(position, to)) {
+        position = { x: step.x, y: step.y };
+        path.push(position);
+        if (path.length > 50) break;
+    }
+    return path;
+};
+
+describe('PathfindingService', () => {
+    it('should find its way around a wall through the gap', () => {
+        const walls = [0, 1, 2, 3].map(y => ({ x: 2, y }));
+        const pathfinder = setup(5, 5, { walls });
+        const path = walk(pathfinder, { x: 0, y: 0 }, { x: 4, y: 0 });
+
+        expect(path[path.length - 1]).toEqual({ x: 4, y: 0 });
+        expect(path).toContainEqual({ x: 2, y: 4 });
+        expect(path.some(({ x, y }) => pathfinder.isBlocked(x, y))).toBe(false);
+    });
+
+    it('should not cross water or leave the garden', () => {
+        const pathfinder = setup(3, 1, { water: [{ x: 1, y: 0 }] });
+        expect(pathfinder.isBlocked(1, 0)).toBe(true);
+        expect(pathfinder.isBlocked(3, 0)).toBe(true);
+        expect(pathfinder.nextStep({ x: 0, y: 0 }, { x: 2, y: 0 })).toBeNull();
+    });
+
+    it('should give no step when already at the target', () => {
+        expect(setup(2, 2).nextStep({ x: 1, y: 1 }, { x: 1, y: 1 })).toBeNull();
+    });
+
+    it('should walk around rocky ground when the way round is cheaper', () => {
+        const rock = [0, 1, 2, 3].map(x => ({ x, y: 0 }));
+        const pathfinder = setup(4, 2, { rock });
+        expect(pathfinder.nextStep({ x: 0, y: 0 }, { x: 3, y: 0 })).toMatchObject({ x: 1, y: 1 });
+    });
+
+    it('should send ants along their own colony\'s trails', () => {
+        const trails = [1, 2].map(x => trail(x, 1, 'colony-1'));
+        const pathfinder = setup(4, 2, { trails });
+
+        expect(pathfinder.nextStep({ x: 0, y: 0 }, { x: 3, y: 0 }, 'colony-1')).toMatchObject({ x: 1, y: 1 });
+        expect(pathfinder.nextStep({ x: 0, y: 0 }, { x: 3, y: 0 }, 'colony-2')).toMatchObject({ x: 1, y: 0 });
+        expect(pathfinder.nextStep({ x: 0, y: 0 }, { x: 3, y: 0 })).toMatchObject({ x: 1, y: 0 });
+    });
+
+    it('should not cut the corner of a blocked cell', () => {
+        const pathfinder = setup(2, 2, { walls: [{ x: 1, y: 0 }] });
+        expect(pathfinder.nextStep({ x: 0, y: 0 }, { x: 1, y: 1 })).toEqual({ x: 0, y: 1, cost: 1 });
+    });
+
+    it('should let actors step onto a blocked target', () => {
+        const pathfinder = setup(2, 1, { walls: [{ x: 1, y: 0 }] });
+        expect(pathfinder.nextStep({ x: 0, y: 0 }, { x: 1, y: 0 })).toEqual({ x: 1, y: 0, cost: 1 });
+    });
+
+    it('should forget its paths when the ground changes', () => {
+        const terrain = TerrainMap.flat(3, 3);
+        const soil = SoilMoistureMap.uniform(3, 3, 0.5);
+        const obstacles = ObstacleMap.empty(3, 3);
+        const pathfinder = new PathfindingService(3, 3);
+        pathfinder.update(terrain, soil, obstacles, []);
+        expect(pathfinder.nextStep({ x: 0, y: 1 }, { x: 2, y: 1 })).toMatchObject({ x: 1, y: 1 });
+
+        obstacles.toggle('rock', 1, 1);
+        pathfinder.update(terrain, soil, obstacles, []);
+        expect(pathfinder.nextStep({ x: 0, y: 1 }, { x: 2, y: 1 })).not.toMatchObject({ x: 1, y: 1 });
+    });
+});
@@ -0,0 +1,224 @@
+import type { Coord, PheromoneTrail } from '../types';
+import type { TerrainMap } from './terrain';
+import type { SoilMoistureMap } from './soilMoisture';
+import type { ObstacleMap } from './obstacles';
+import { PATH_FIELD_CACHE_SIZE, PHEROMONE_PATH_COST_FACTOR } from '../constants';
+import { neighborVectors } from './simulationUtils';
+
+// Costs closer than this are a tie, broken in favour of the cell nearest the target.
+const COST_EPSILON = 1e-6;
+
+/** A move to a neighbouring cell, with what it costs to walk there. */
+export interface PathStep {
+    x: number;
+    y: number;
+    cost: number;
+}
+
+// A binary min-heap of cell indexes, ordered by their cost.
+class CellHeap {
+    private cells: number[] = [];
+    private costs: number[] = [];
+
+    get size(): number {
+        return this.cells.length;
+    }
+
+    public push(cell: number, cost: number) {
+        let index = this.cells.length;
+        this.cells.push(cell);
+        this.costs.push(cost);
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (this.costs[parent] <= cost) break;
+            this.move(parent, index);
+            index = parent;
+        }
+        this.cells[index] = cell;
+        this.costs[index] = cost;
+    }
+
+    /** Takes the cheapest cell and its cost. */
+    public pop(): [number, number] {
+        const top: [number, number] = [this.cells[0], this.costs[0]];
+        const cell = this.cells.pop()!, cost = this.costs.pop()!;
+        if (this.cells.length === 0) return top;
+        let index = 0;
+        for (;;) {
+            const left = index * 2 + 1, right = left + 1;
+            let child = left;
+            if (right < this.cells.length && this.costs[right] < this.costs[left]) child = right;
+            if (child >= this.cells.length || this.costs[child] >= cost) break;
+            this.move(child, index);
+            index = child;
+        }
+        this.cells[index] = cell;
+        this.costs[index] = cost;
+        return top;
+    }
+
+    private move(from: number, to: number) {
+        this.cells[to] = this.cells[from];
+        this.costs[to] = this.costs[from];
+    }
+}
+
+/**
+ * Finds the way for actors walking through the garden. Water, rocks and walls cannot be
+ * crossed, and slow terrain costs more to cross than loam. Ants walk their own colony's
+ * pheromone trails for a fraction of the cost, so trails form along the easiest routes.
+ *
+ * Paths come from flow fields: the cost of reaching a target from every cell, worked out once
+ * and shared by every actor heading there. Fields are kept until the ground changes; those
+ * for ants only last the tick, as trails are laid and fade every tick.
+ */
+export class PathfindingService {
+    private width: number;
+    private height: number;
+    // The cost of walking into each cell; Infinity where it cannot be entered.
+    private costs: Float32Array;
+    private trailsByColony = new Map<string, Set<number>>();
+    private fields = new Map<string, Float64Array>();
+    private trailFields = new Map<string, Float64Array>();
+
+    /** Starts out with open, level ground everywhere. */
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+        this.costs = new Float32Array(width * height).fill(1);
+    }
+
+    /**
+     * Takes in the ground and the trails at the start of a tick. Cached fields are dropped
+     * if the ground has changed since the last tick.
+     */
+    public update(terrain: TerrainMap, soilMoisture: SoilMoistureMap, obstacles: ObstacleMap, trails: PheromoneTrail[]) {
+        const { width, height } = terrain;
+        const costs = new Float32Array(width * height);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                costs[y * width + x] = obstacles.isBlocked(x, y) || soilMoisture.isWater(x, y) ? Infinity : 1 / terrain.speedFactorAt(x, y);
+            }
+        }
+        if (width !== this.width || height !== this.height || costs.some((cost, i) => cost !== this.costs[i])) {
+            this.fields.clear();
+        }
+        this.width = width;
+        this.height = height;
+        this.costs = costs;
+
+        this.trailFields.clear();
+        this.trailsByColony.clear();
+        for (const trail of trails) {
+            const index = this.indexOf(trail.x, trail.y);
+            if (index === -1) continue;
+            let cells = this.trailsByColony.get(trail.colonyId);
+            if (!cells) {
+                cells = new Set();
+                this.trailsByColony.set(trail.colonyId, cells);
+            }
+            cells.add(index);
+        }
+    }
+
+    /** Whether walking actors are kept out of the cell. Cells outside the garden are blocked. */
+    public isBlocked(x: number, y: number): boolean {
+        const index = this.indexOf(x, y);
+        return index === -1 || this.costs[index] === Infinity;
+    }
+
+    /**
+     * The first step of the cheapest walk from one cell to another, or null if the actor is
+     * already there or the target cannot be reached. The target cell itself can always be
+     * entered, so actors can reach things standing on an obstacle. Pass a colony ID to walk
+     * that colony's pheromone trails cheaply.
+     */
+    public nextStep(from: Coord, to: Coord, colonyId?: string): PathStep | null {
+        const start = this.indexOf(from.x, from.y);
+        const target = this.indexOf(to.x, to.y);
+        if (start === -1 || target === -1 || start === target) return null;
+
+        const trails = colonyId !== undefined ? this.trailsByColony.get(colonyId) : undefined;
+        const field = this.fieldTo(target, colonyId, trails);
+        if (field[start] === Infinity) return null;
+
+        let best: PathStep | null = null;
+        let bestTotal = Infinity, bestDistance = Infinity;
+        for (const [dx, dy] of neighborVectors) {
+            const cost = this.stepCost(from.x, from.y, dx, dy, target, trails);
+            if (cost === Infinity) continue;
+            const x = from.x + dx, y = from.y + dy;
+            const total = cost + field[y * this.width + x];
+            const distance = Math.hypot(to.x - x, to.y - y);
+            if (total < bestTotal - COST_EPSILON || (total < bestTotal + COST_EPSILON && distance < bestDistance)) {
+                best = { x, y, cost };
+                bestTotal = total;
+                bestDistance = distance;
+            }
+        }
+        return best;
+    }
+
+    // The cost of walking from (x, y) to the neighbouring cell (x + dx, y + dy). Diagonal steps
+    // cost more and cannot cut the corner of a blocked cell.
+    private stepCost(x: number, y: number, dx: number, dy: number, target: number, trails?: Set<number>): number {
+        const index = this.indexOf(x + dx, y + dy);
+        if (index === -1) return Infinity;
+        let cost = index === target ? Math.min(this.costs[index], 1) : this.costs[index];
+        if (cost === Infinity) return Infinity;
+        if (dx !== 0 && dy !== 0) {
+            if (this.isBlocked(x + dx, y) || this.isBlocked(x, y + dy)) return Infinity;
+            cost *= Math.SQRT2;
+        }
+        if (trails?.has(index)) cost *= PHEROMONE_PATH_COST_FACTOR;
+        return cost;
+    }
+
+    private fieldTo(target: number, colonyId: string | undefined, trails: Set<number> | undefined): Float64Array {
+        const cache = trails ? this.trailFields : this.fields;
+        const key = trails ? `${colonyId}:${target}` : `${target}`;
+        const cached = cache.get(key);
+        if (cached) {
+            // Re-inserting keeps the most recently used fields at the end of the map.
+            cache.delete(key);
+            cache.set(key, cached);
+            return cached;
+        }
+
+        const field = this.buildField(target, trails);
+        if (cache.size >= PATH_FIELD_CACHE_SIZE) cache.delete(cache.keys().next().value!);
+        cache.set(key, field);
+        return field;
+    }
+
+    // Dijkstra's algorithm, run outwards from the target.
+    private buildField(target: number, trails: Set<number> | undefined): Float64Array {
+        const { width, height } = this;
+        const field = new Float64Array(width * height).fill(Infinity);
+        field[target] = 0;
+        const open = new CellHeap();
+        open.push(target, 0);
+
+        while (open.size > 0) {
+            const [cell, cost] = open.pop();
+            if (cost > field[cell]) continue;
+            const x = cell % width, y = Math.floor(cell / width);
+            for (const [dx, dy] of neighborVectors) {
+                const nx = x + dx, ny = y + dy;
+                if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+                const total = cost + this.stepCost(nx, ny, -dx, -dy, target, trails);
+                const neighbour = ny * width + nx;
+                if (total < field[neighbour]) {
+                    field[neighbour] = total;
+                    open.push(neighbour, total);
+                }
+            }
+        }
+        return field;
+    }
+
+    private indexOf(x: number, y: number): number {
+        if (x < 0 || x >= this.width || y < 0 || y >= this.height) return -1;
+        return Math.floor(y) * this.width + Math.floor(x);
+    }
+}
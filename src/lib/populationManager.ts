@@ -1,7 +1,23 @@
 import type { SimulationParams, CellContent, AppEvent, PopulationTrend, Bird, Eagle, HerbicidePlane, Coord, Grid, Cockroach } from '../types';
-import { POPULATION_TREND_WINDOW, POPULATION_GROWTH_THRESHOLD_INSECT, POPULATION_DECLINE_THRESHOLD_INSECT, BIRD_SPAWN_COOLDOWN, EAGLE_SPAWN_COOLDOWN, COCKROACH_SPAWN_COOLDOWN, POPULATION_GROWTH_THRESHOLD_CORPSE, POPULATION_DECLINE_THRESHOLD_CORPSE, INSECT_DATA, INSECT_GENOME_LENGTH, FLOWER_STAT_INDICES } from '../constants';
+import { POPULATION_TREND_WINDOW, POPULATION_GROWTH_THRESHOLD_INSECT, POPULATION_DECLINE_THRESHOLD_INSECT, BIRD_SPAWN_COOLDOWN, EAGLE_SPAWN_COOLDOWN, COCKROACH_SPAWN_COOLDOWN, POPULATION_GROWTH_THRESHOLD_CORPSE, POPULATION_DECLINE_THRESHOLD_CORPSE, INSECT_GENOME_LENGTH, FLOWER_STAT_INDICES } from '../constants';
 import { calculatePopulationTrend, findCellForStationaryActor } from './simulationUtils';
 import type { TickSummary } from '../types';
+import { random } from './random';
+import { speciesRegistry } from './speciesRegistry';
+
+// Everything the manager needs to resume from an earlier tick (see TickHistory).
+export interface PopulationManagerSnapshot {
+    insectCountHistory: number[];
+    birdCountHistory: number[];
+    corpseCountHistory: number[];
+    birdSpawnCooldown: number;
+    eagleSpawnCooldown: number;
+    herbicideCooldown: number;
+    cockroachSpawnCooldown: number;
+    lastInsectTrend: PopulationTrend;
+    totalBirdsHunted: number;
+    totalHerbicidePlanesSpawned: number;
+}
 
 export class PopulationManager {
     private params: SimulationParams;
@@ -47,11 +63,40 @@ export class PopulationManager {
         this.totalHerbicidePlanesSpawned = state.totalHerbicidePlanesSpawned || 0;
     }
     
+    public getSnapshot(): PopulationManagerSnapshot {
+        return {
+            insectCountHistory: [...this.insectCountHistory],
+            birdCountHistory: [...this.birdCountHistory],
+            corpseCountHistory: [...this.corpseCountHistory],
+            birdSpawnCooldown: this.birdSpawnCooldown,
+            eagleSpawnCooldown: this.eagleSpawnCooldown,
+            herbicideCooldown: this.herbicideCooldown,
+            cockroachSpawnCooldown: this.cockroachSpawnCooldown,
+            lastInsectTrend: this.lastInsectTrend,
+            totalBirdsHunted: this.totalBirdsHunted,
+            totalHerbicidePlanesSpawned: this.totalHerbicidePlanesSpawned,
+        };
+    }
+
+    public restoreSnapshot(snapshot: PopulationManagerSnapshot) {
+        this.insectCountHistory = [...snapshot.insectCountHistory];
+        this.birdCountHistory = [...snapshot.birdCountHistory];
+        this.corpseCountHistory = [...snapshot.corpseCountHistory];
+        this.birdSpawnCooldown = snapshot.birdSpawnCooldown;
+        this.eagleSpawnCooldown = snapshot.eagleSpawnCooldown;
+        this.herbicideCooldown = snapshot.herbicideCooldown;
+        this.cockroachSpawnCooldown = snapshot.cockroachSpawnCooldown;
+        this.lastInsectTrend = snapshot.lastInsectTrend;
+        this.totalBirdsHunted = snapshot.totalBirdsHunted;
+        this.totalHerbicidePlanesSpawned = snapshot.totalHerbicidePlanesSpawned;
+    }
+    
     public processTick(
         nextActorState: Map<string, CellContent>,
         grid: Grid,
         summary: TickSummary,
-        events: AppEvent[]
+        events: AppEvent[],
+        getNextId: (type: string, x: number, y: number) => string
     ): CellContent[] {
         this.updateCooldowns();
         
@@ -82,7 +127,7 @@ export class PopulationManager {
         if (this.params.allowedActors.includes('🐦') && insectTrend === 'growing' && this.birdSpawnCooldown === 0) {
             const spot = findCellForStationaryActor(grid, this.params, 'bird');
             if (spot) {
-                const birdId = `bird-dyn-${Date.now()}`;
+                const birdId = getNextId('bird-dyn', spot.x, spot.y);
                 const newBird: Bird = { id: birdId, type: 'bird', x: spot.x, y: spot.y, target: null, patrolTarget: null };
                 newActors.push(newBird);
                 events.push({ message: '🐦 A new bird has arrived to hunt!', type: 'info', importance: 'high' });
@@ -96,7 +141,7 @@ export class PopulationManager {
             if (this.eagleSpawnCooldown === 0 && currentBirdCount > 2) {
                 const spot = findCellForStationaryActor(grid, this.params, 'eagle');
                 if (spot) {
-                    const eagleId = `eagle-dyn-${Date.now()}`;
+                    const eagleId = getNextId('eagle-dyn', spot.x, spot.y);
                     const newEagle: Eagle = { id: eagleId, type: 'eagle', x: spot.x, y: spot.y, target: null };
                     newActors.push(newEagle);
                     events.push({ message: '🦅 An eagle has appeared in the skies!', type: 'info', importance: 'high' });
@@ -110,8 +155,8 @@ export class PopulationManager {
         if (this.params.allowedActors.includes('🪳') && corpseTrend === 'growing' && this.cockroachSpawnCooldown === 0) {
             const spot = findCellForStationaryActor(grid, this.params, 'cockroach');
             if (spot) {
-                const cockroachId = `insect-cockroach-${spot.x}-${spot.y}-${Date.now()}`;
-                const baseStats = INSECT_DATA.get('🪳')!;
+                const cockroachId = getNextId('insect-cockroach', spot.x, spot.y);
+                const baseStats = speciesRegistry.getStats('🪳')!;
                 const cockroachGenome = Array(INSECT_GENOME_LENGTH).fill(0.1); // Mildly dislike everything else
                 cockroachGenome[FLOWER_STAT_INDICES.HEALTH] = -2.0; // Strongly dislike healthy flowers
                 cockroachGenome[FLOWER_STAT_INDICES.STAMINA] = -1.0; // Dislike high-stamina flowers
@@ -138,7 +183,7 @@ export class PopulationManager {
         if (this.herbicideCooldown === 0 && !hasPlane && flowerCountForDensity >= flowerDensityThresholdCount) {
             this.totalHerbicidePlanesSpawned++;
             const STRIDE = 3;
-            const pattern = Math.floor(Math.random() * 4);
+            const pattern = Math.floor(random() * 4);
             let start: Coord = { x: 1, y: 1 };
             let dx = 0, dy = 0, turnDx = 0, turnDy = 0;
             const { gridWidth, gridHeight } = this.params;
@@ -151,7 +196,7 @@ export class PopulationManager {
                 case 3: start = { x: maxX - (STRIDE - 1), y: maxY }; dx = 0; dy = -1; turnDx = -STRIDE; turnDy = 0; break;
             }
             
-            const planeId = `plane-${Date.now()}`;
+            const planeId = getNextId('plane', start.x, start.y);
             const newPlane: HerbicidePlane = { id: planeId, type: 'herbicidePlane', ...start, dx, dy, turnDx, turnDy, stride: STRIDE };
             newActors.push(newPlane);
             events.push({ message: '✈️ Herbicide plane deployed to control flower overgrowth!', type: 'info', importance: 'high' });
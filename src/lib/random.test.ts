@@ -0,0 +1,60 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { SeededRandom, setRandomSource, random, generateSeed } from './random';
+
+describe('SeededRandom', () => {
+    afterEach(() => {
+        setRandomSource(null);
+        vi.restoreAllMocks();
+    });
+
+    it('should produce the same sequence for the same seed', () => {
+        const a = new SeededRandom(1234);
+        const b = new SeededRandom(1234);
+        const seqA = Array.from({ length: 20 }, () => a.next());
+        const seqB = Array.from({ length: 20 }, () => b.next());
+        expect(seqA).toEqual(seqB);
+    });
+
+    it('should produce different sequences for different seeds', () => {
+        const a = new SeededRandom(1);
+        const b = new SeededRandom(2);
+        expect(a.next()).not.toBe(b.next());
+    });
+
+    it('should return numbers in the range [0, 1)', () => {
+        const rng = new SeededRandom(99);
+        for (let i = 0; i < 1000; i++) {
+            const value = rng.next();
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(1);
+        }
+    });
+
+    it('should continue the same sequence after its state is restored', () => {
+        const rng = new SeededRandom(42);
+        rng.next();
+        const state = rng.getState();
+        const expected = [rng.next(), rng.next(), rng.next()];
+
+        const restored = new SeededRandom(0);
+        restored.setState(state);
+        expect([restored.next(), restored.next(), restored.next()]).toEqual(expected);
+    });
+
+    it('random() should draw from the active source, falling back to Math.random', () => {
+        const mathRandomSpy = vi.spyOn(Math, 'random').mockReturnValue(0.5);
+        expect(random()).toBe(0.5);
+
+        setRandomSource(new SeededRandom(7));
+        const expected = new SeededRandom(7).next();
+        expect(random()).toBe(expected);
+        expect(mathRandomSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('generateSeed should return an unsigned 32-bit integer', () => {
+        const seed = generateSeed();
+        expect(Number.isInteger(seed)).toBe(true);
+        expect(seed).toBeGreaterThanOrEqual(0);
+        expect(seed).toBeLessThanOrEqual(0xFFFFFFFF);
+    });
+});
@@ -0,0 +1,56 @@
+/**
+ * A small, seedable pseudo-random number generator (mulberry32).
+ * Its whole state is a single 32-bit integer, which makes it cheap to
+ * snapshot and restore alongside the rest of the simulation state.
+ */
+export class SeededRandom {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Returns the next number in the sequence, in the range [0, 1).
+     */
+    public next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    public getState(): number {
+        return this.state;
+    }
+
+    public setState(state: number) {
+        this.state = state >>> 0;
+    }
+}
+
+// The generator every simulation module draws from. When it is null the
+// simulation falls back to `Math.random`, i.e. an unseeded, non-reproducible run.
+let activeRandom: SeededRandom | null = null;
+
+/**
+ * Injects the generator used by the engine, behaviors and initializers.
+ * Pass `null` to go back to `Math.random`.
+ */
+export const setRandomSource = (source: SeededRandom | null) => {
+    activeRandom = source;
+};
+
+export const getRandomSource = (): SeededRandom | null => activeRandom;
+
+/**
+ * Drop-in replacement for `Math.random()` inside the simulation.
+ */
+export const random = (): number => activeRandom ? activeRandom.next() : Math.random();
+
+/**
+ * Creates a fresh 32-bit seed, used when the user asks for a seeded run
+ * without providing one.
+ */
+export const generateSeed = (): number => Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
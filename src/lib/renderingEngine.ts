@@ -1,9 +1,26 @@
-import type { CellContent, Corpse, Flower, FlowerSeed, Insect, SimulationParams, SlimeTrail } from '../types';
+import type { CellContent, Corpse, Flower, FlowerSeed, Insect, ObstacleFrame, ObstacleKind, SimulationParams, SlimeTrail, SoilMoistureFrame, TerrainData, TerrainType } from '../types';
+import { OBSTACLE_KINDS, TERRAIN_MAX_ALTITUDE, TERRAIN_TYPES } from '../constants';
+import { nightDarkness } from './environmentManager';
 
 const CELL_SIZE_PX = 64;
 const GRID_COLOR = 'hsla(120, 100%, 50%, 0.2)';
 const SELECTED_CELL_BORDER_COLOR = 'hsl(120, 100%, 50%)'; // Opaque bright green
 const SELECTED_CELL_BORDER_WIDTH = 4; // in pixels
+// Hue and saturation of each terrain type; higher ground is drawn lighter.
+const TERRAIN_COLORS: Record<TerrainType, [number, number]> = {
+    loam: [30, 35],
+    sand: [45, 55],
+    clay: [15, 45],
+    rock: [0, 0],
+};
+const WATER_COLOR = 'hsl(205, 70%, 40%)';
+const MOISTURE_OVERLAY_MAX_ALPHA = 0.6;
+const NIGHT_OVERLAY_MAX_ALPHA = 0.55; // How dark the garden is drawn at midnight
+const BLIGHT_TINT_COLOR = 'hsla(35, 70%, 25%, 0.5)';
+const OBSTACLE_EMOJIS: Record<ObstacleKind, string> = {
+    rock: '🪨',
+    wall: '🧱',
+};
 
 /**
  * Helper function to efficiently check if the members of two sets are different.
@@ -24,6 +41,11 @@ export class RenderingEngine {
     private params: SimulationParams;
     private imageCache = new Map<string, HTMLImageElement>();
     private corpseImageCache = new Map<string, HTMLCanvasElement>();
+    private terrain: TerrainData | null = null;
+    private soilMoisture: SoilMoistureFrame | null = null;
+    private showMoistureOverlay = false;
+    private obstacles: ObstacleFrame | null = null;
+    private timeOfDay = 0;
     
     // State for change detection
     private lastStaticActorIds = new Set<string>();
@@ -51,6 +73,35 @@ export class RenderingEngine {
         this.lastStaticActorIds.clear(); 
     }
 
+    public setTerrain(terrain: TerrainData | null) {
+        this.terrain = terrain;
+        // The terrain is drawn with the static layer, so it must be redrawn.
+        this.lastStaticActorIds.clear();
+        this.drawGrid();
+    }
+
+    public setSoilMoisture(soilMoisture: SoilMoistureFrame | null) {
+        const waterChanged = !soilMoisture || !this.soilMoisture || soilMoisture.water.some((water, i) => water !== this.soilMoisture!.water[i]);
+        this.soilMoisture = soilMoisture;
+        // Water is drawn with the static layer, so it is only redrawn when a pond or stream appears.
+        if (waterChanged) this.lastStaticActorIds.clear();
+    }
+
+    public setObstacles(obstacles: ObstacleFrame | null) {
+        const obstaclesChanged = !obstacles || !this.obstacles || obstacles.cells.some((cell, i) => cell !== this.obstacles!.cells[i]);
+        this.obstacles = obstacles;
+        // Obstacles are drawn with the static layer too.
+        if (obstaclesChanged) this.lastStaticActorIds.clear();
+    }
+
+    public setTimeOfDay(timeOfDay: number) {
+        this.timeOfDay = timeOfDay;
+    }
+
+    public setMoistureOverlay(show: boolean) {
+        this.showMoistureOverlay = show;
+    }
+
     private updateCanvasSize() {
         const width = this.params.gridWidth * CELL_SIZE_PX;
         const height = this.params.gridHeight * CELL_SIZE_PX;
@@ -62,6 +113,9 @@ export class RenderingEngine {
 
     public drawGrid() {
         this.bgCtx.clearRect(0, 0, this.bgCanvas.width, this.bgCanvas.height);
+        this.drawTerrain();
+        this.drawWater();
+        this.drawObstacles();
         this.bgCtx.strokeStyle = GRID_COLOR;
         for (let y = 0; y < this.params.gridHeight; y++) {
             for (let x = 0; x < this.params.gridWidth; x++) {
@@ -70,6 +124,75 @@ export class RenderingEngine {
         }
     }
 
+    private drawTerrain() {
+        const terrain = this.terrain;
+        if (!terrain || !this.fitsGrid(terrain)) return;
+        for (let y = 0; y < terrain.height; y++) {
+            for (let x = 0; x < terrain.width; x++) {
+                const index = y * terrain.width + x;
+                const [hue, saturation] = TERRAIN_COLORS[TERRAIN_TYPES[terrain.types[index]] ?? 'loam'];
+                const lightness = 12 + (terrain.altitude[index] / TERRAIN_MAX_ALTITUDE) * 18;
+                this.bgCtx.fillStyle = `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+                this.bgCtx.fillRect(x * CELL_SIZE_PX, y * CELL_SIZE_PX, CELL_SIZE_PX, CELL_SIZE_PX);
+            }
+        }
+    }
+
+    private fitsGrid(layer: { width: number; height: number } | null): boolean {
+        return !!layer && layer.width === this.params.gridWidth && layer.height === this.params.gridHeight;
+    }
+
+    private drawWater() {
+        const soil = this.soilMoisture;
+        if (!soil || !this.fitsGrid(soil)) return;
+        this.bgCtx.fillStyle = WATER_COLOR;
+        soil.water.forEach((water, i) => {
+            if (water) this.bgCtx.fillRect((i % soil.width) * CELL_SIZE_PX, Math.floor(i / soil.width) * CELL_SIZE_PX, CELL_SIZE_PX, CELL_SIZE_PX);
+        });
+    }
+
+    private drawObstacles() {
+        const obstacles = this.obstacles;
+        if (!obstacles || !this.fitsGrid(obstacles)) return;
+        this.bgCtx.save();
+        this.bgCtx.textAlign = 'center';
+        this.bgCtx.textBaseline = 'middle';
+        this.bgCtx.font = `${CELL_SIZE_PX * 0.7}px sans-serif`;
+        obstacles.cells.forEach((cell, i) => {
+            const kind = cell ? OBSTACLE_KINDS[cell - 1] : undefined;
+            if (!kind) return;
+            this.bgCtx.fillText(OBSTACLE_EMOJIS[kind], (i % obstacles.width + 0.5) * CELL_SIZE_PX, (Math.floor(i / obstacles.width) + 0.5) * CELL_SIZE_PX);
+        });
+        this.bgCtx.restore();
+    }
+
+    // Darkens the garden at night. It is drawn under the actors, so they stay easy to see.
+    private drawNightOverlay() {
+        const darkness = nightDarkness(this.timeOfDay);
+        if (darkness <= 0) return;
+        this.fgCtx.fillStyle = `hsla(230, 50%, 8%, ${darkness * NIGHT_OVERLAY_MAX_ALPHA})`;
+        this.fgCtx.fillRect(0, 0, this.fgCanvas.width, this.fgCanvas.height);
+    }
+
+    private drawMoistureOverlay() {
+        const soil = this.soilMoisture;
+        if (!soil || !this.fitsGrid(soil)) return;
+        soil.moisture.forEach((moisture, i) => {
+            if (soil.water[i]) return;
+            this.fgCtx.fillStyle = `hsla(205, 90%, 55%, ${(moisture / 255) * MOISTURE_OVERLAY_MAX_ALPHA})`;
+            this.fgCtx.fillRect((i % soil.width) * CELL_SIZE_PX, Math.floor(i / soil.width) * CELL_SIZE_PX, CELL_SIZE_PX, CELL_SIZE_PX);
+        });
+    }
+
+    // Flowers are drawn with the static layer, so the blight is tinted over them on the dynamic
+    // layer instead, where it follows the flowers catching and throwing it off.
+    private drawBlightTint(flowers: Flower[]) {
+        this.fgCtx.fillStyle = BLIGHT_TINT_COLOR;
+        for (const flower of flowers) {
+            this.fgCtx.fillRect(flower.x * CELL_SIZE_PX, flower.y * CELL_SIZE_PX, CELL_SIZE_PX, CELL_SIZE_PX);
+        }
+    }
+
     private drawCorpse(ctx: CanvasRenderingContext2D, actor: Corpse) {
         const cachedCanvas = this.corpseImageCache.get(actor.originalEmoji);
         if (cachedCanvas) {
@@ -177,10 +300,12 @@ export class RenderingEngine {
     public draw(actors: Map<string, CellContent>, selectedActorId: string | null) {
         const staticActors = new Map<string, Flower | FlowerSeed>();
         const dynamicActors: CellContent[] = [];
+        const blightedFlowers: Flower[] = [];
 
         for (const actor of actors.values()) {
             if (actor.type === 'flower' || actor.type === 'flowerSeed') {
                 staticActors.set(actor.id, actor);
+                if (actor.type === 'flower' && actor.isBlighted) blightedFlowers.push(actor);
             } else if (actor.type !== 'territoryMark') { // Do not draw territory marks
                 dynamicActors.push(actor);
             }
@@ -194,7 +319,7 @@ export class RenderingEngine {
             this.lastStaticActorIds = currentStaticActorIds;
         }
 
-        this.drawDynamicLayer(dynamicActors, selectedActorId, actors);
+        this.drawDynamicLayer(dynamicActors, blightedFlowers, selectedActorId, actors);
     }
 
     private _collectGarbage(currentStaticActors: Map<string, Flower | FlowerSeed>) {
@@ -221,8 +346,11 @@ export class RenderingEngine {
         this._collectGarbage(currentStaticActors);
     }
 
-    private drawDynamicLayer(dynamicActors: CellContent[], selectedActorId: string | null, allActors: Map<string, CellContent>) {
+    private drawDynamicLayer(dynamicActors: CellContent[], blightedFlowers: Flower[], selectedActorId: string | null, allActors: Map<string, CellContent>) {
         this.fgCtx.clearRect(0, 0, this.fgCanvas.width, this.fgCanvas.height);
+        this.drawNightOverlay();
+        if (this.showMoistureOverlay) this.drawMoistureOverlay();
+        this.drawBlightTint(blightedFlowers);
 
         // Draw selection highlight first, so it's underneath the actors
         if (selectedActorId) {
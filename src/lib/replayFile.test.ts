@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { parseReplayFile, getReplayFileName } from './replayFile';
+import { DEFAULT_SIM_PARAMS, REPLAY_FORMAT_VERSION } from '../constants';
+import type { CustomSpeciesFile, ReplayFile } from '../types';
+
+const moth: CustomSpeciesFile = {
+    emoji: '🦟', name: 'Moth', role: 'pollinator',
+    stats: { attack: 0, maxHealth: 20, maxStamina: 30, speed: 2, eggHatchTime: 20, reproductionCost: 5 },
+    behaviors: [{ type: 'pollinate' }],
+};
+
+const makeReplay = (overrides: Partial<ReplayFile> = {}): ReplayFile => ({
+    format: 'evogarden-replay',
+    version: REPLAY_FORMAT_VERSION,
+    params: { ...DEFAULT_SIM_PARAMS, seed: 42 },
+    seed: 42,
+    startTick: 0,
+    endTick: 120,
+    environmentState: { currentTemperature: 20, currentHumidity: 0.5, season: 'Summer', currentWeatherEvent: { type: 'none', duration: 0 }, timeOfDay: 0, wind: { direction: 'S', strength: 3 } },
+    rngState: 123,
+    initialActors: [],
+    seedBank: [],
+    interventions: [{ tick: 5, type: 'trigger-weather', payload: { eventType: 'drought' } }],
+    flowerGenomes: { 'seed-1-1-3-0': 'genome-a' },
+    customSpecies: [moth],
+    ...overrides,
+});
+
+describe('parseReplayFile', () => {
+    it('round-trips a serialized replay', () => {
+        const replay = makeReplay();
+        expect(parseReplayFile(JSON.stringify(replay))).toEqual(replay);
+    });
+
+    it('rejects text that is not JSON', () => {
+        expect(() => parseReplayFile('not json')).toThrow('not valid JSON');
+    });
+
+    it('rejects JSON that is not a replay', () => {
+        expect(() => parseReplayFile(JSON.stringify({ params: DEFAULT_SIM_PARAMS }))).toThrow('not an EvoGarden replay');
+    });
+
+    it('rejects replays from a newer format version', () => {
+        expect(() => parseReplayFile(JSON.stringify(makeReplay({ version: REPLAY_FORMAT_VERSION + 1 })))).toThrow('Unsupported replay version');
+    });
+
+    it('rejects replays missing required fields', () => {
+        const { rngState: _rngState, ...incomplete } = makeReplay();
+        expect(() => parseReplayFile(JSON.stringify(incomplete))).toThrow('incomplete');
+    });
+
+    it('rejects replays without the weather they started in', () => {
+        const { environmentState: _environmentState, ...noWeather } = makeReplay();
+        expect(() => parseReplayFile(JSON.stringify(noWeather))).toThrow('environmentState');
+        const partialWeather = makeReplay({ environmentState: { season: 'Summer' } as ReplayFile['environmentState'] });
+        expect(() => parseReplayFile(JSON.stringify(partialWeather))).toThrow('environmentState');
+    });
+
+    it('checks the species a replay brings, and reads older replays as having none', () => {
+        expect(() => parseReplayFile(JSON.stringify(makeReplay({ customSpecies: [{ ...moth, behaviors: [] }] })))).toThrow("species 1 is invalid: The species needs at least one entry");
+        const { customSpecies: _customSpecies, ...older } = makeReplay();
+        expect(parseReplayFile(JSON.stringify(older)).customSpecies).toEqual([]);
+    });
+});
+
+describe('getReplayFileName', () => {
+    it('names the file after the seed and the last recorded tick', () => {
+        expect(getReplayFileName(makeReplay())).toBe('evogarden-replay-42-tick-120.json');
+    });
+});
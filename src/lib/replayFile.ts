@@ -0,0 +1,44 @@
+import type { ReplayFile } from '../types';
+import { REPLAY_FORMAT_VERSION } from '../constants';
+import { parseCustomSpecies } from './customSpecies';
+
+/**
+ * Parses the contents of a replay file, throwing a user-readable error if it is not
+ * a replay this version of EvoGarden can play.
+ */
+export const parseReplayFile = (text: string): ReplayFile => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+
+    if (data?.format !== 'evogarden-replay') {
+        throw new Error('The file is not an EvoGarden replay.');
+    }
+    if (typeof data.version !== 'number' || data.version > REPLAY_FORMAT_VERSION) {
+        throw new Error(`Unsupported replay version: ${data.version}.`);
+    }
+    if (typeof data.seed !== 'number' || typeof data.rngState !== 'number' || !data.params || !Array.isArray(data.initialActors) || !Array.isArray(data.interventions)) {
+        throw new Error('The replay file is incomplete.');
+    }
+    const { environmentState } = data;
+    if (!environmentState || typeof environmentState !== 'object' || typeof environmentState.currentTemperature !== 'number' || typeof environmentState.currentHumidity !== 'number') {
+        throw new Error("The replay file's weather at the start (environmentState) is missing or incomplete.");
+    }
+    if (data.customSpecies !== undefined && !Array.isArray(data.customSpecies)) {
+        throw new Error("The replay file's customSpecies is not a list.");
+    }
+    const customSpecies = (data.customSpecies ?? []).map((species: unknown, i: number) => {
+        try {
+            return parseCustomSpecies(species);
+        } catch (err) {
+            throw new Error(`The replay file's species ${i + 1} is invalid: ${err instanceof Error ? err.message : err}`);
+        }
+    });
+
+    return { seedBank: [], flowerGenomes: {}, ...data, customSpecies };
+};
+
+export const getReplayFileName = (replay: ReplayFile): string => `evogarden-replay-${replay.seed}-tick-${replay.endTick}.json`;
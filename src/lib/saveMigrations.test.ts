@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { migrateSave, SAVE_MIGRATIONS } from './saveMigrations';
+import { registerBuiltinSpecies } from './builtinSpecies';
+import { DEFAULT_SIM_PARAMS, SAVE_FORMAT_VERSION } from '../constants';
+
+// A garden as saved before the format was versioned, with a hive and a butterfly from before
+// hives stored pollen and insects had health and stamina.
+const makeUnversionedSave = (): any => ({
+    params: { ...DEFAULT_SIM_PARAMS, gridWidth: 2, gridHeight: 1 },
+    grid: [[
+        [{ id: 'hive-1', type: 'hive', x: 0, y: 0, honey: 10, genome: [] }],
+        [{ id: 'insect-butterfly-1', type: 'insect', x: 1, y: 0, emoji: '🦋', lifespan: 50, pollen: null }],
+    ]],
+    tick: 480,
+});
+
+describe('migrateSave', () => {
+    beforeAll(() => {
+        registerBuiltinSpecies();
+    });
+
+    it('has a migration from every older format to the next', () => {
+        for (let from = 1; from < SAVE_FORMAT_VERSION; from++) {
+            expect(SAVE_MIGRATIONS.filter(migration => migration.from === from)).toHaveLength(1);
+        }
+    });
+
+    it('upgrades an unversioned save step by step, leaving the original as it is', () => {
+        const saved = makeUnversionedSave();
+        const state = migrateSave(saved);
+
+        expect(state.saveVersion).toBe(SAVE_FORMAT_VERSION);
+        expect(state.totalInsectsEaten).toBe(0);
+        const [[[hive], [butterfly]]] = state.grid as any;
+        expect(hive).toMatchObject({ pollen: 0, spawnCooldown: 0 });
+        expect(butterfly.lifespan).toBeUndefined();
+        expect(butterfly.health).toBe(butterfly.maxHealth / 2);
+        expect(butterfly.stamina).toBe(butterfly.maxStamina);
+        expect(butterfly.genome.length).toBeGreaterThan(0);
+        expect(saved.grid[0][1][0].lifespan).toBe(50);
+    });
+
+    it('returns a save in the current format without changing it', () => {
+        const saved = { ...makeUnversionedSave(), saveVersion: SAVE_FORMAT_VERSION };
+        expect(migrateSave(saved)).toEqual(saved);
+    });
+
+    it('rejects a save from a newer version of EvoGarden', () => {
+        expect(() => migrateSave({ ...makeUnversionedSave(), saveVersion: SAVE_FORMAT_VERSION + 1 }))
+            .toThrow(`save format ${SAVE_FORMAT_VERSION + 1}; this version reads up to ${SAVE_FORMAT_VERSION}`);
+    });
+
+    it('describes what is missing or malformed in a save', () => {
+        expect(() => migrateSave({ ...makeUnversionedSave(), params: undefined })).toThrow('no simulation settings');
+        expect(() => migrateSave({ ...makeUnversionedSave(), tick: undefined })).toThrow('which tick');
+        expect(() => migrateSave({ ...makeUnversionedSave(), grid: [[]] })).toThrow('does not match its 2×1 garden size');
+        expect(() => migrateSave({ ...makeUnversionedSave(), saveVersion: 'two' })).toThrow('unknown format version: "two"');
+    });
+
+    it('leaves out insects of unknown species with a warning, keeping the rest of the garden', () => {
+        const saved = makeUnversionedSave();
+        saved.grid[0][1][0].emoji = '🦖';
+        const warnings: string[] = [];
+
+        const state = migrateSave(saved, warnings);
+
+        expect(state.grid[0][1]).toEqual([]);
+        expect(state.grid[0][0]).toHaveLength(1);
+        expect(warnings).toEqual(['1 insects of species this browser does not know (🦖) were left out of the garden.']);
+    });
+
+    it('says which step failed when a save cannot be upgraded', () => {
+        const original = SAVE_MIGRATIONS[0].migrate;
+        SAVE_MIGRATIONS[0].migrate = () => { throw new Error('out of memory'); };
+        try {
+            expect(() => migrateSave(makeUnversionedSave())).toThrow(/^Could not upgrade the save from format 1 to 2 \(.*\): out of memory\.$/);
+        } finally {
+            SAVE_MIGRATIONS[0].migrate = original;
+        }
+    });
+});
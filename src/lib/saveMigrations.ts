@@ -0,0 +1,124 @@
+import type { Cockroach, Hive, Insect, SavedGardenState } from '../types';
+import { SAVE_FORMAT_VERSION } from '../constants';
+import { speciesRegistry } from './speciesRegistry';
+import { generateRandomInsectGenome, getInsectEmoji } from '../utils';
+
+// Saves made before the format was versioned have no `saveVersion`, and are read as this one.
+export const UNVERSIONED_SAVE_VERSION = 1;
+
+/**
+ * A step that upgrades a save from the format version `from` to the one after it. Anything it
+ * has to leave out of the garden is described in `warnings`.
+ */
+export interface SaveMigration {
+    from: number;
+    description: string;
+    migrate: (state: any, warnings: string[]) => any;
+}
+
+/**
+ * Every step from the oldest save format to the current one, in order. A change to what the
+ * engine saves bumps `SAVE_FORMAT_VERSION` and adds the step that brings older saves up to it.
+ */
+export const SAVE_MIGRATIONS: SaveMigration[] = [
+    {
+        from: 1,
+        description: 'fill in the hive stores, insect emojis, health and stamina added since the first saves',
+        migrate: (state, warnings) => {
+            state.totalInsectsEaten ??= 0;
+            state.totalBirdsHunted ??= 0;
+            state.totalHerbicidePlanesSpawned ??= 0;
+            const unknownSpecies: string[] = [];
+
+            // Returns false for an insect whose health cannot be worked out, to leave it out.
+            const upgradeActor = (actor: any): boolean => {
+                if (actor.type === 'hive') {
+                    const hive = actor as Hive;
+                    hive.pollen ??= 0;
+                    hive.spawnCooldown ??= 0;
+                }
+                if (actor.type !== 'insect' && actor.type !== 'cockroach') return true;
+                const insect = actor as Insect | Cockroach;
+                insect.emoji ||= actor.type === 'cockroach' ? '🪳' : getInsectEmoji(insect.id);
+
+                // Insects once aged by a lifespan, before they had health and stamina.
+                const { lifespan } = insect as Insect;
+                if (lifespan === undefined || insect.health !== undefined) return true;
+                const stats = speciesRegistry.getStats(insect.emoji);
+                if (!stats) {
+                    unknownSpecies.push(insect.emoji);
+                    return false;
+                }
+                insect.maxHealth = stats.maxHealth;
+                insect.health = (lifespan / 100) * stats.maxHealth;
+                insect.maxStamina = stats.maxStamina;
+                insect.stamina = stats.maxStamina;
+                insect.genome = generateRandomInsectGenome();
+                delete (insect as Insect).lifespan;
+                return true;
+            };
+            state.grid = state.grid.map((row: any[][]) => row.map(cell => cell.filter(upgradeActor)));
+
+            if (unknownSpecies.length > 0) {
+                warnings.push(`${unknownSpecies.length} insects of species this browser does not know (${[...new Set(unknownSpecies)].join(' ')}) were left out of the garden.`);
+            }
+            return state;
+        },
+    },
+];
+
+// Throws an error naming the first part of the save this version of EvoGarden cannot read.
+const checkSaveShape = (state: any) => {
+    if (!state || typeof state !== 'object') {
+        throw new Error('The save holds no garden.');
+    }
+    if (!state.params || typeof state.params !== 'object') {
+        throw new Error('The save has no simulation settings.');
+    }
+    if (typeof state.tick !== 'number' || !Number.isFinite(state.tick)) {
+        throw new Error('The save does not record which tick the garden was at.');
+    }
+    if (!Array.isArray(state.grid) || !state.grid.every((row: unknown) => Array.isArray(row) && row.every(Array.isArray))) {
+        throw new Error('The save has no garden grid, or its grid is not laid out in rows of cells.');
+    }
+    const { gridWidth, gridHeight } = state.params;
+    if (state.grid.length !== gridHeight || state.grid.some((row: unknown[]) => row.length !== gridWidth)) {
+        throw new Error(`The save's grid does not match its ${gridWidth}×${gridHeight} garden size.`);
+    }
+    const actor = state.grid.flat(2).find((a: any) => typeof a?.id !== 'string' || typeof a?.type !== 'string');
+    if (actor !== undefined) {
+        throw new Error('The save has an actor with no id or type.');
+    }
+};
+
+/**
+ * Upgrades a save of any format version to the current one, running each migration step in
+ * turn, and returns it stamped with the current version. The save passed in is left as it is.
+ * Actors the steps had to leave out are described in `warnings`. Throws a user-readable error
+ * describing what is incompatible if the save cannot be loaded.
+ */
+export const migrateSave = (saved: any, warnings: string[] = []): SavedGardenState => {
+    const version = saved?.saveVersion ?? UNVERSIONED_SAVE_VERSION;
+    if (!Number.isInteger(version) || version < UNVERSIONED_SAVE_VERSION) {
+        throw new Error(`The save has an unknown format version: ${JSON.stringify(version)}.`);
+    }
+    if (version > SAVE_FORMAT_VERSION) {
+        throw new Error(`The garden was saved by a newer version of EvoGarden (save format ${version}; this version reads up to ${SAVE_FORMAT_VERSION}).`);
+    }
+    checkSaveShape(saved);
+
+    let state = version < SAVE_FORMAT_VERSION ? structuredClone(saved) : saved;
+    for (let from = version; from < SAVE_FORMAT_VERSION; from++) {
+        const step = SAVE_MIGRATIONS.find(migration => migration.from === from);
+        if (!step) {
+            throw new Error(`There is no way to upgrade a save from format ${from} to ${from + 1}.`);
+        }
+        try {
+            state = step.migrate(state, warnings);
+        } catch (err) {
+            const reason = err instanceof Error ? err.message : String(err);
+            throw new Error(`Could not upgrade the save from format ${from} to ${from + 1} (${step.description}): ${reason}.`);
+        }
+    }
+    return { ...state, saveVersion: SAVE_FORMAT_VERSION };
+};
@@ -1,18 +1,12 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { SimulationEngine } from './simulationEngine';
+import { setRandomSource } from './random';
 import type { EnvironmentState } from '../types';
-import { DEFAULT_SIM_PARAMS, INSECT_DATA, SEED_HEALTH } from '../constants';
-import type { FEService, Flower, Grid, CellContent, ActorUpdateDelta, ActorAddDelta, FlowerSeed } from '../types';
-
-vi.mock('../services/db', () => ({
-  db: {
-    seedBank: {
-      get: vi.fn().mockResolvedValue(undefined),
-      put: vi.fn().mockResolvedValue(undefined),
-      toArray: vi.fn().mockResolvedValue([]),
-    },
-  },
-}));
+import { DEFAULT_SIM_PARAMS, SAVE_FORMAT_VERSION, SEED_HEALTH } from '../constants';
+import type { FEService, Flower, Grid, CellContent, ActorUpdateDelta, ActorAddDelta, FlowerSeed, TickSummary, CustomSpeciesFile } from '../types';
+import { speciesRegistry } from './speciesRegistry';
+import { setCustomSpecies } from './customSpecies';
+import { TerrainMap } from './terrain';
 
 const mockFlowerService: FEService = {
     initialize: vi.fn().mockResolvedValue(undefined),
@@ -50,12 +44,12 @@ describe('SimulationEngine', () => {
         vi.mocked(mockFlowerService.drawFlower).mockResolvedValue({ genome: 'loaded-genome', image: 'loaded-image' });
         engine = new SimulationEngine(DEFAULT_SIM_PARAMS, mockFlowerService);
         mockFlowerWorkerPort = { postMessage: vi.fn(), onmessage: null };
-        engine.setFlowerWorkerPort(mockFlowerWorkerPort as any, DEFAULT_SIM_PARAMS);
+        engine.setFlowerWorkerPorts([mockFlowerWorkerPort as any], DEFAULT_SIM_PARAMS);
     });
 
     describe('Initialization and Setup', () => {
         it('initializeGridWithActors should correctly populate the grid', () => {
-            const baseInsectStats = INSECT_DATA.get('🦋')!;
+            const baseInsectStats = speciesRegistry.getStats('🦋')!;
             const mockActors: CellContent[] = [
                 {
                     id: 'insect-1', type: 'insect', x: 0, y: 0, emoji: '🦋', pollen: null,
@@ -103,6 +97,7 @@ describe('SimulationEngine', () => {
             engine.initializeGridWithActors([seed, flower]);
             
             const state = engine.getStateForSave();
+            expect(state.saveVersion).toBe(SAVE_FORMAT_VERSION);
             expect(state.params).toEqual(DEFAULT_SIM_PARAMS);
             expect(state.tick).toBe(0);
             
@@ -137,6 +132,22 @@ describe('SimulationEngine', () => {
             const loadedFlower = grid[0][0][0] as Flower;
             expect(loadedFlower.imageData).toBe('loaded-image');
         });
+
+        it('should save the terrain and restore it, or lay flat ground for saves without one', async () => {
+            const { gridWidth, gridHeight } = DEFAULT_SIM_PARAMS;
+            const terrain = TerrainMap.flat(gridWidth, gridHeight).toData();
+            terrain.types[0] = 3;
+            terrain.altitude[0] = 900;
+            engine.initializeGridWithActors([], TerrainMap.fromData(terrain));
+
+            const state = engine.getStateForSave();
+            expect(state.terrain).toEqual(terrain);
+
+            await engine.loadState({ ...state, terrain: undefined });
+            expect(engine.getTerrain().typeAt(0, 0)).toBe('loam');
+            await engine.loadState(state);
+            expect(engine.getTerrain().siteAt(0, 0)).toEqual({ altitude: 900, terrainType: 3 });
+        });
     });
 
     describe('Core Simulation Logic', () => {
@@ -222,7 +233,7 @@ describe('SimulationEngine', () => {
             onmessage: null as any,
           };
 
-          engine.setFlowerWorkerPort(mockFlowerWorkerPort as any, params);
+          engine.setFlowerWorkerPorts([mockFlowerWorkerPort as any], params);
 
           // Start in Winter so the next tick will transition to Spring
           engine.setEnvironmentState({
@@ -324,4 +335,271 @@ describe('SimulationEngine', () => {
           expect(gridInsects.length).toBeGreaterThan(0);
         });
     });
+    describe('Advancing Several Ticks', () => {
+        it('advanceTicks should run the ticks and report them as one update', async () => {
+            engine.initializeGridWithActors([{ ...mockFlower, id: 'flower-a', x: 1, y: 1 }]);
+            engine.triggerWeatherEvent('heatwave');
+
+            const { summaries, events, deltas } = await engine.advanceTicks(3);
+
+            expect(engine.getGridState().tick).toBe(3);
+            expect(summaries.map(s => s.tick)).toEqual([0, 1, 2]);
+            expect(events.every(e => typeof e.tick === 'number')).toBe(true);
+            expect(events.some(e => e.message.includes('heatwave') && e.tick === 0)).toBe(true);
+
+            // Three ticks of stamina/health changes collapse into a single update for the flower.
+            const flowerDeltas = deltas.filter(d => d.type === 'update' && d.id === 'flower-a') as ActorUpdateDelta[];
+            expect(flowerDeltas).toHaveLength(1);
+            const finalFlower = engine.getGridState().grid[1][1].find(a => a.id === 'flower-a') as Flower;
+            expect((flowerDeltas[0].changes as Partial<Flower>).age).toBe(finalFlower.age);
+        });
+    });
+
+    describe('Tick History', () => {
+        const snapshotGrid = (grid: Grid) => JSON.stringify(grid.flat(2).map(a => ({ ...a })).sort((a, b) => a.id.localeCompare(b.id)));
+
+        it('should restore the grid and tick of an earlier tick', async () => {
+            engine.initializeGridWithActors([{ ...mockFlower, id: 'flower-a', x: 1, y: 1, health: 80 }]);
+            const gridsByTick = new Map<number, string>();
+            gridsByTick.set(0, snapshotGrid(engine.getGridState().grid));
+            for (let i = 0; i < 5; i++) {
+                await engine.calculateNextTick();
+                gridsByTick.set(engine.getGridState().tick, snapshotGrid(engine.getGridState().grid));
+            }
+
+            expect(engine.getHistoryRange()).toEqual({ oldestTick: 0, latestTick: 5 });
+
+            const summary = engine.restoreTick(2);
+            expect(summary?.tick).toBe(1);
+            expect(engine.getGridState().tick).toBe(2);
+            expect(snapshotGrid(engine.getGridState().grid)).toBe(gridsByTick.get(2));
+
+            // Later ticks remain available until the simulation advances again.
+            engine.restoreTick(5);
+            expect(snapshotGrid(engine.getGridState().grid)).toBe(gridsByTick.get(5));
+
+            engine.restoreTick(0);
+            expect(snapshotGrid(engine.getGridState().grid)).toBe(gridsByTick.get(0));
+            await engine.calculateNextTick();
+            expect(engine.getHistoryRange()).toEqual({ oldestTick: 0, latestTick: 1 });
+        });
+
+        it('should dig ponds on the next tick and drain them again when rewound', async () => {
+            engine.initializeGridWithActors([]);
+            await engine.calculateNextTick();
+            engine.placeWaterBody('pond', { x: 3, y: 3 });
+            const { events } = await engine.calculateNextTick();
+
+            expect(engine.getSoilMoisture().isWater(3, 3)).toBe(true);
+            expect(events.some(e => e.message.includes('pond'))).toBe(true);
+
+            engine.restoreTick(1);
+            expect(engine.getSoilMoisture().isWater(3, 3)).toBe(false);
+        });
+
+        it('should build obstacles on the next tick, keep them in saves and clear them when rewound', async () => {
+            engine.initializeGridWithActors([]);
+            await engine.calculateNextTick();
+            engine.toggleObstacle('wall', { x: 2, y: 4 });
+            const { events } = await engine.calculateNextTick();
+
+            expect(engine.getObstacles().kindAt(2, 4)).toBe('wall');
+            expect(events.some(e => e.message.includes('wall'))).toBe(true);
+
+            const state = engine.getStateForSave();
+            engine.restoreTick(1);
+            expect(engine.getObstacles().isBlocked(2, 4)).toBe(false);
+
+            await engine.loadState(state);
+            expect(engine.getObstacles().kindAt(2, 4)).toBe('wall');
+        });
+
+        it('should refuse ticks outside the history buffer', async () => {
+            engine.initializeGridWithActors([]);
+            await engine.calculateNextTick();
+            expect(engine.restoreTick(7)).toBeUndefined();
+            expect(engine.getGridState().tick).toBe(1);
+        });
+    });
+
+    describe('Seeded Runs', () => {
+        afterEach(() => {
+            setRandomSource(null);
+        });
+
+        // Runs a seeded simulation against a fake flower worker that answers requests
+        // in the order given by `answerOrder`, to emulate a worker finishing out of order.
+        const runSeeded = async (seed: number, ticks: number, answerOrder: 'fifo' | 'lifo') => {
+            const params = { ...DEFAULT_SIM_PARAMS, gridWidth: 8, gridHeight: 8, seed };
+            const seededEngine = new SimulationEngine(params, mockFlowerService);
+            const requests: any[] = [];
+            const port = {
+                onmessage: null as ((e: { data: any }) => void) | null,
+                postMessage: vi.fn((message: { type: string; payload: any }) => {
+                    if (message.type !== 'request-flower') return;
+                    requests.push(message.payload);
+                    setTimeout(() => {
+                        const next = answerOrder === 'fifo' ? requests.shift() : requests.pop();
+                        if (!next) return;
+                        const flower: Flower = { ...mockFlower, id: next.flowerId, x: next.x, y: next.y, age: 0, isMature: false };
+                        port.onmessage?.({ data: { type: 'flower-created', payload: { requestId: next.requestId, flower } } });
+                    }, 0);
+                }),
+            };
+            seededEngine.setFlowerWorkerPorts([port as any], params);
+            seededEngine.setStemImage('stem');
+
+            const baseInsectStats = speciesRegistry.getStats('🦋')!;
+            seededEngine.initializeGridWithActors([
+                { ...mockFlower, id: 'flower-a', x: 1, y: 1 },
+                { ...mockFlower, id: 'flower-b', x: 6, y: 6, genome: 'g2' },
+                {
+                    id: 'insect-a', type: 'insect', x: 3, y: 3, emoji: '🦋', pollen: null, genome: [0.1, 0.2, 0.3],
+                    health: baseInsectStats.maxHealth, maxHealth: baseInsectStats.maxHealth,
+                    stamina: baseInsectStats.maxStamina, maxStamina: baseInsectStats.maxStamina,
+                },
+            ]);
+
+            const summaries: Omit<TickSummary, 'tickTimeMs' | 'flowerQueueDepth' | 'flowerQueueLatencyMs'>[] = [];
+            for (let i = 0; i < ticks; i++) {
+                const { summary } = await seededEngine.calculateNextTick();
+                const { tickTimeMs: _tickTimeMs, flowerQueueDepth: _depth, flowerQueueLatencyMs: _latency, ...rest } = summary;
+                summaries.push(rest);
+            }
+            const actors = seededEngine.getGridState().grid.flat(2).map(a => `${a.id}@${a.x},${a.y}`).sort();
+            return { summaries, actors };
+        };
+
+        it('should produce identical runs for the same seed, regardless of worker timing', async () => {
+            const first = await runSeeded(1234, 15, 'fifo');
+            const second = await runSeeded(1234, 15, 'lifo');
+
+            expect(second.summaries).toEqual(first.summaries);
+            expect(second.actors).toEqual(first.actors);
+        });
+
+        it('should save and restore the generator state with the simulation', async () => {
+            const params = { ...DEFAULT_SIM_PARAMS, seed: 99 };
+            const seededEngine = new SimulationEngine(params, mockFlowerService);
+            seededEngine.initializeGridWithActors([]);
+            await seededEngine.calculateNextTick();
+
+            const saved = seededEngine.getStateForSave();
+            expect(typeof saved.rngState).toBe('number');
+
+            const restoredEngine = new SimulationEngine(params, mockFlowerService);
+            await restoredEngine.loadState({ ...saved, params });
+            expect((restoredEngine as any).rng.getState()).toBe(saved.rngState);
+        });
+    });
+
+    describe('Replays', () => {
+        afterEach(() => {
+            setRandomSource(null);
+        });
+
+        // Creates an engine whose fake flower worker names every bred genome with `prefix`, so
+        // flowers bred during a replay only match the recording if the recorded genomes are used.
+        const createReplayEngine = (params: typeof DEFAULT_SIM_PARAMS, prefix: string) => {
+            const replayEngine = new SimulationEngine(params, mockFlowerService);
+            let bred = 0;
+            const port = {
+                onmessage: null as ((e: { data: any }) => void) | null,
+                postMessage: vi.fn((message: { type: string; payload: any }) => {
+                    if (message.type !== 'request-flower') return;
+                    const request = message.payload;
+                    setTimeout(() => {
+                        const flower: Flower = { ...mockFlower, id: request.flowerId, x: request.x, y: request.y, age: 0, isMature: false, genome: request.genome ?? `${prefix}-${bred++}` };
+                        port.onmessage?.({ data: { type: 'flower-created', payload: { requestId: request.requestId, flower } } });
+                    }, 0);
+                }),
+            };
+            replayEngine.setFlowerWorkerPorts([port as any], params);
+            replayEngine.setStemImage('stem');
+            return replayEngine;
+        };
+
+        const describeActors = (target: SimulationEngine) => target.getGridState().grid.flat(2)
+            .map(a => `${a.id}@${a.x},${a.y}${a.type === 'flower' ? `:${(a as Flower).genome}` : ''}`)
+            .sort();
+
+        const runTicks = async (target: SimulationEngine, ticks: number, beforeTick: (tick: number) => void) => {
+            const summaries: Omit<TickSummary, 'tickTimeMs' | 'flowerQueueDepth' | 'flowerQueueLatencyMs'>[] = [];
+            for (let i = 0; i < ticks; i++) {
+                beforeTick(i);
+                const { summary } = await target.calculateNextTick();
+                const { tickTimeMs: _tickTimeMs, flowerQueueDepth: _depth, flowerQueueLatencyMs: _latency, ...rest } = summary;
+                summaries.push(rest);
+            }
+            return summaries;
+        };
+
+        it('should re-simulate a recorded run exactly, including its interventions', async () => {
+            const params = { ...DEFAULT_SIM_PARAMS, gridWidth: 8, gridHeight: 8, seed: 777 };
+            const recorder = createReplayEngine(params, 'recorded');
+            recorder.initializeGridWithActors([{ ...mockFlower, id: 'flower-a', x: 1, y: 1 }]);
+
+            const recordedSummaries = await runTicks(recorder, 12, tick => {
+                if (tick === 2) recorder.plantChampionSeed('champion', 'both', { x: 4, y: 4 });
+                if (tick === 5) recorder.introduceSpecies('🐞', 2);
+                if (tick === 7) recorder.triggerWeatherEvent('drought');
+            });
+
+            const replay = (await recorder.getReplay())!;
+            expect(replay.seed).toBe(777);
+            expect(replay.endTick).toBe(12);
+            expect(replay.interventions.map(i => [i.tick, i.type])).toEqual([[2, 'plant-champion-seed'], [5, 'introduce-species'], [7, 'trigger-weather']]);
+
+            const viewer = createReplayEngine(DEFAULT_SIM_PARAMS, 'replayed');
+            await viewer.loadReplay(JSON.parse(JSON.stringify(replay)));
+            expect(viewer.isReplaying()).toBe(true);
+
+            const replayedSummaries = await runTicks(viewer, 12, tick => {
+                // Interventions are locked while replaying.
+                if (tick === 3) viewer.introduceSpecies('🐦', 3);
+            });
+
+            expect(replayedSummaries).toEqual(recordedSummaries);
+            expect(describeActors(viewer)).toEqual(describeActors(recorder));
+            expect(describeActors(viewer)).toContain('flower-4-4@4,4:recorded-0');
+        });
+
+        it('should keep the user-defined species in the replay', async () => {
+            const moth: CustomSpeciesFile = {
+                emoji: '🦟', name: 'Moth', role: 'pollinator',
+                stats: { attack: 0, maxHealth: 20, maxStamina: 30, speed: 2, eggHatchTime: 20, reproductionCost: 5 },
+                behaviors: [{ type: 'pollinate' }],
+            };
+            setCustomSpecies([moth]);
+            try {
+                const recorder = createReplayEngine({ ...DEFAULT_SIM_PARAMS, seed: 3 }, 'recorded');
+                recorder.initializeGridWithActors([]);
+                expect((await recorder.getReplay())!.customSpecies).toEqual([moth]);
+            } finally {
+                setCustomSpecies([]);
+            }
+        });
+
+        it('should leave replay mode when the simulation is reset', async () => {
+            const params = { ...DEFAULT_SIM_PARAMS, seed: 5 };
+            const recorder = createReplayEngine(params, 'recorded');
+            recorder.initializeGridWithActors([]);
+            const replay = (await recorder.getReplay())!;
+
+            const viewer = createReplayEngine(DEFAULT_SIM_PARAMS, 'replayed');
+            await viewer.loadReplay(replay);
+            viewer.setParams(params);
+            expect(viewer.isReplaying()).toBe(false);
+        });
+
+        it('should not record unseeded runs or runs resumed from a save', async () => {
+            engine.initializeGridWithActors([]);
+            expect(await engine.getReplay()).toBeNull();
+
+            const seededEngine = new SimulationEngine({ ...DEFAULT_SIM_PARAMS, seed: 3 }, mockFlowerService);
+            seededEngine.initializeGridWithActors([]);
+            await seededEngine.loadState({ ...seededEngine.getStateForSave() });
+            expect(await seededEngine.getReplay()).toBeNull();
+        });
+    });
 });
@@ -1,6 +1,6 @@
-import type { Grid, SimulationParams, CellContent, Flower, Bird, Insect, Egg, Nutrient, FEService, AppEvent, TickSummary, Eagle, HerbicidePlane, HerbicideSmoke, ActorDelta, FlowerSeed, EnvironmentState, Season, Corpse, Cockroach, Cocoon, SlimeTrail, Hive, TerritoryMark, AntColony, PheromoneTrail, SpiderWeb, WeatherEventType } from '../types';
-import { getInsectEmoji, generateRandomInsectGenome, ACTOR_NAMES } from '../utils';
-import { buildQuadtrees, cloneActor, findEmptyCell, findCellForFlowerSpawn } from './simulationUtils';
+import type { Grid, SimulationParams, CellContent, Flower, Bird, Insect, Egg, Nutrient, FEService, SimulationPersistence, AppEvent, TickSummary, Eagle, HerbicidePlane, HerbicideSmoke, ActorDelta, FlowerSeed, EnvironmentState, Season, Corpse, Cockroach, Cocoon, SlimeTrail, Hive, TerritoryMark, AntColony, PheromoneTrail, SpiderWeb, WeatherEventType, Intervention, RecordedIntervention, ReplayFile, SeedBankEntry, SpeciesDefinition, SpeciesSummaryKey, TerrainData, SoilMoistureData, WaterBodyKind, ObstacleData, ObstacleKind, FlowerSex } from '../types';
+import { getInsectEmoji, generateRandomInsectGenome } from '../utils';
+import { buildGrid, cloneActor, findEmptyCell, findCellForFlowerSpawn, combineDeltas, applyPlasticStats } from './simulationUtils';
 import { processBirdTick } from './behaviors/birdBehavior';
 import { processEggTick } from './behaviors/eggBehavior';
 import { processFlowerTick, processFlowerSeedTick } from './behaviors/flowerBehavior';
@@ -17,38 +17,75 @@ import { processTerritoryMarkTick } from './behaviors/territoryMarkBehavior';
 import { processAntColonyTick } from './behaviors/antColonyBehavior';
 import { processPheromoneTrailTick } from './behaviors/pheromoneTrailBehavior';
 import { processSpiderWebTick } from './behaviors/spiderWebBehavior';
-import { db } from '../services/db';
-import { PopulationManager } from './populationManager';
-import { AsyncFlowerFactory } from './asyncFlowerFactory';
+import { createInMemoryPersistence } from '../services/memoryPersistence';
+import { PopulationManager, type PopulationManagerSnapshot } from './populationManager';
+import { AsyncFlowerFactory, type FlowerWorkerPort, type FlowerFactorySnapshot } from './asyncFlowerFactory';
+import { TickHistory } from './tickHistory';
+import { ActorStore } from './actorStore';
+import type { SpatialHash } from './SpatialHash';
 import * as ecosystemManager from './ecosystemManager';
-import { DEFAULT_SIM_PARAMS, INSECT_DATA, TOXIC_FLOWER_THRESHOLD } from '../constants';
-import { Quadtree } from './Quadtree';
-import { updateEnvironment } from './environmentManager';
+import { isInfected, spreadDisease } from './disease';
+import { spreadBlight } from './blight';
+import { DEFAULT_SIM_PARAMS, TOXIC_FLOWER_THRESHOLD, FLOWER_ARRIVAL_DELAY_TICKS, TICK_HISTORY_LENGTH, REPLAY_FORMAT_VERSION, SAVE_FORMAT_VERSION, FLOWER_PLASTICITY_INTERVAL_TICKS, FLOWER_PLASTICITY_TEMPERATURE_STEP, FLOWER_PLASTICITY_HUMIDITY_STEP } from '../constants';
+import { updateEnvironment, isNightTime } from './environmentManager';
+import { random, SeededRandom, setRandomSource } from './random';
+import { speciesRegistry } from './speciesRegistry';
+import { TerrainMap } from './terrain';
+import { SoilMoistureMap, type SoilMoistureSnapshot } from './soilMoisture';
+import { ObstacleMap } from './obstacles';
+import { migrateSave } from './saveMigrations';
+import { PathfindingService } from './pathfinding';
 
-const shallowObjectEquals = (o1: any, o2: any): boolean => {
-    if (o1 === o2) return true;
-    if (o1 == null || o2 == null) return o1 === o2;
-    if (typeof o1 !== 'object' || typeof o2 !== 'object') return o1 === o2;
-
-    const keys1 = Object.keys(o1);
-    const keys2 = Object.keys(o2);
+// Engine state, besides the actors themselves, that is restored when rewinding.
+interface TickState {
+    environmentState: EnvironmentState;
+    totalInsectsEaten: number;
+    population: PopulationManagerSnapshot;
+    flowerFactory: FlowerFactorySnapshot;
+    soilMoisture: SoilMoistureSnapshot;
+    obstacles: Uint8Array;
+    actorOrder: string[]; // IDs in grid order, as actors sharing a cell act in that order
+    rngState: number | null;
+    summary: TickSummary | null; // Summary of the tick that led here; null for the starting state.
+}
 
-    if (keys1.length !== keys2.length) return false;
+// Everything needed to export a seeded run as a replay, captured when the garden was created.
+interface ReplayRecording {
+    params: SimulationParams;
+    startTick: number;
+    environmentState: EnvironmentState;
+    rngState: number;
+    initialActors: CellContent[];
+    terrain: TerrainData;
+    soilMoisture: SoilMoistureData;
+    seedBank: Promise<SeedBankEntry[]>;
+    interventions: RecordedIntervention[];
+    flowerGenomes: Map<string, string>;
+}
 
-    for (const key of keys1) {
-        if (!Object.prototype.hasOwnProperty.call(o2, key) || o1[key] !== o2[key]) {
-            return false;
-        }
-    }
-    return true;
-};
+// Set while the engine is re-simulating a replay file.
+interface ActiveReplay {
+    interventions: RecordedIntervention[];
+    livePersistence: SimulationPersistence; // The persistence to return to once the replay ends
+}
 
 export class SimulationEngine {
     private tick = 0;
+    // The live actors, indexed by position. It records their changes during a tick; between ticks `grid` holds them too.
+    private actors = new ActorStore();
     private grid: Grid = [];
+    private terrain: TerrainMap;
+    private soilMoisture: SoilMoistureMap;
+    private obstacles: ObstacleMap;
+    private pathfinder: PathfindingService;
     private params: SimulationParams;
     private flowerService: FEService;
+    private persistence: SimulationPersistence;
     private totalInsectsEaten = 0;
+    // Seeded generator for reproducible runs; null when the params carry no seed.
+    private rng: SeededRandom | null = null;
+    // Per-tick counter used to build unique, reproducible IDs for transient actors.
+    private idCounter = 0;
     
     // Environment state
     private environmentState: EnvironmentState;
@@ -69,33 +106,44 @@ export class SimulationEngine {
     private insectsBornThisTick = 0;
     private birdsHuntedThisTick = 0;
 
-    private pendingActions: { type: string; payload: any }[] = [];
+    private pendingActions: Intervention[] = [];
+    private history = new TickHistory<TickState>(TICK_HISTORY_LENGTH);
+    private recording: ReplayRecording | null = null;
+    private replay: ActiveReplay | null = null;
 
-    constructor(params: SimulationParams, flowerService: FEService) {
+    constructor(params: SimulationParams, flowerService: FEService, persistence: SimulationPersistence = createInMemoryPersistence()) {
         this.params = params;
         this.flowerService = flowerService;
+        this.persistence = persistence;
+        this.terrain = TerrainMap.flat(params.gridWidth, params.gridHeight);
+        this.soilMoisture = SoilMoistureMap.uniform(params.gridWidth, params.gridHeight, params.humidity);
+        this.obstacles = ObstacleMap.empty(params.gridWidth, params.gridHeight);
+        this.pathfinder = new PathfindingService(params.gridWidth, params.gridHeight);
         this.populationManager = new PopulationManager(params);
         this.asyncFlowerFactory = new AsyncFlowerFactory();
+        this._resetRandomSource(params);
         this.environmentState = {
             currentTemperature: params.temperature,
             currentHumidity: params.humidity,
             season: 'Spring',
             currentWeatherEvent: { type: 'none', duration: 0 },
+            timeOfDay: 0,
+            wind: { direction: params.windDirection, strength: params.windStrength },
         };
         this.loadChampionsFromDb();
     }
     
     private async loadChampionsFromDb() {
         try {
-            const longestLived = await db.seedBank.get('longestLived');
+            const longestLived = await this.persistence.seedBank.get('longestLived');
             if (longestLived) {
                 this.longestLivedChampion.value = longestLived.value;
             }
-            const mostToxic = await db.seedBank.get('mostToxic');
+            const mostToxic = await this.persistence.seedBank.get('mostToxic');
             if (mostToxic) {
                 this.mostToxicChampion.value = mostToxic.value;
             }
-            const mostHealing = await db.seedBank.get('mostHealing');
+            const mostHealing = await this.persistence.seedBank.get('mostHealing');
             if (mostHealing) {
                 this.mostHealingChampion.value = mostHealing.value;
             }
@@ -109,7 +157,7 @@ export class SimulationEngine {
         if (flower.age > this.longestLivedChampion.value) {
             this.longestLivedChampion.value = flower.age;
             const imageData = await this.flowerService.drawFlower(flower.genome).then(r => r.image);
-            await db.seedBank.put({
+            await this.persistence.seedBank.put({
                 category: 'longestLived',
                 genome: flower.genome,
                 value: flower.age,
@@ -123,7 +171,7 @@ export class SimulationEngine {
         if (flower.toxicityRate > this.mostToxicChampion.value) {
             this.mostToxicChampion.value = flower.toxicityRate;
             const imageData = await this.flowerService.drawFlower(flower.genome).then(r => r.image);
-            await db.seedBank.put({
+            await this.persistence.seedBank.put({
                 category: 'mostToxic',
                 genome: flower.genome,
                 value: flower.toxicityRate,
@@ -137,7 +185,7 @@ export class SimulationEngine {
         if (flower.toxicityRate < this.mostHealingChampion.value) {
             this.mostHealingChampion.value = flower.toxicityRate;
             const imageData = await this.flowerService.drawFlower(flower.genome).then(r => r.image);
-            await db.seedBank.put({
+            await this.persistence.seedBank.put({
                 category: 'mostHealing',
                 genome: flower.genome,
                 value: flower.toxicityRate,
@@ -151,17 +199,30 @@ export class SimulationEngine {
         return newChampion;
     }
 
-    private async _checkDeceasedChampions(initialActors: CellContent[], nextActorState: Map<string, CellContent>, events: AppEvent[]) {
+    private async _checkDeceasedChampions(tickActors: CellContent[], events: AppEvent[]) {
         const promises: Promise<any>[] = [];
-        for (const actor of initialActors) {
-            if (actor.type === 'flower' && !nextActorState.has(actor.id)) {
-                // This flower died this tick.
-                promises.push(this._checkAndSaveChampion(actor as Flower, events));
+        for (const actor of tickActors) {
+            if (actor.type === 'flower' && !this.actors.has(actor.id)) {
+                // This flower died this tick. Judge it as it was at the start of the tick.
+                const flower = (this.actors.getSnapshot(actor.id) ?? actor) as Flower;
+                promises.push(this._checkAndSaveChampion(flower, events));
             }
         }
         await Promise.all(promises);
     }
     
+    /**
+     * Creates the seeded generator described by the params (if any) and makes it the
+     * active source for every module that draws random numbers. Seeded runs also
+     * switch the flower factory to tick-scheduled delivery so that flower arrival
+     * no longer depends on how fast the genetics worker happens to be.
+     */
+    private _resetRandomSource(params: SimulationParams) {
+        this.rng = typeof params.seed === 'number' ? new SeededRandom(params.seed) : null;
+        setRandomSource(this.rng);
+        this.asyncFlowerFactory.setArrivalDelay(this.rng ? FLOWER_ARRIVAL_DELAY_TICKS : null);
+    }
+
     private getNextId(type: string, x: number, y: number): string {
         switch (type) {
             case 'flower':
@@ -173,12 +234,12 @@ export class SimulationEngine {
                 return `${type}-${x}-${y}`;
             default:
                 // Unique ID for actors that can stack or are transient
-                return `${type}-${x}-${y}-${this.tick}-${Math.random()}`;
+                return `${type}-${x}-${y}-${this.tick}-${this.idCounter++}`;
         }
     }
 
-    public setFlowerWorkerPort(port: MessagePort, params: SimulationParams) {
-        this.asyncFlowerFactory.setFlowerWorkerPort(port, params);
+    public setFlowerWorkerPorts(ports: FlowerWorkerPort[], params: SimulationParams) {
+        this.asyncFlowerFactory.setFlowerWorkerPorts(ports, params);
     }
     public setEnvironmentState(env: EnvironmentState) {
         this.environmentState = env;
@@ -187,7 +248,49 @@ export class SimulationEngine {
         this.asyncFlowerFactory.setStemImage(imageData);
     }
 
-    public initializeGridWithActors(actors: CellContent[]) {
+    public initializeGridWithActors(actors: CellContent[], terrain = TerrainMap.flat(this.params.gridWidth, this.params.gridHeight)) {
+        this._setTerrain(terrain);
+        this._setSoilMoisture(null);
+        this._setObstacles(null);
+        this._placeActors(actors);
+        this._resetHistory();
+        this._startRecording();
+    }
+
+    public getTerrain(): TerrainMap {
+        return this.terrain;
+    }
+
+    /** Uses the given terrain, or flat ground if it does not fit the grid. */
+    private _setTerrain(terrain: TerrainMap | null | undefined) {
+        const { gridWidth, gridHeight } = this.params;
+        this.terrain = terrain && terrain.width === gridWidth && terrain.height === gridHeight ? terrain : TerrainMap.flat(gridWidth, gridHeight);
+        this.asyncFlowerFactory.setTerrain(this.terrain);
+    }
+
+    public getSoilMoisture(): SoilMoistureMap {
+        return this.soilMoisture;
+    }
+
+    /** Uses the given soil moisture, or evenly moist ground if it does not fit the grid. */
+    private _setSoilMoisture(soilMoisture: SoilMoistureMap | null | undefined) {
+        const { gridWidth, gridHeight } = this.params;
+        this.soilMoisture = soilMoisture && soilMoisture.width === gridWidth && soilMoisture.height === gridHeight
+            ? soilMoisture
+            : SoilMoistureMap.uniform(gridWidth, gridHeight, this.environmentState.currentHumidity);
+    }
+
+    public getObstacles(): ObstacleMap {
+        return this.obstacles;
+    }
+
+    /** Uses the given obstacles, or a clear garden if they do not fit the grid. */
+    private _setObstacles(obstacles: ObstacleMap | null | undefined) {
+        const { gridWidth, gridHeight } = this.params;
+        this.obstacles = obstacles && obstacles.width === gridWidth && obstacles.height === gridHeight ? obstacles : ObstacleMap.empty(gridWidth, gridHeight);
+    }
+
+    private _placeActors(actors: CellContent[]) {
         const { gridWidth, gridHeight } = this.params;
         this.grid = Array.from({ length: gridHeight }, () => Array.from({ length: gridWidth }, () => []));
 
@@ -196,27 +299,215 @@ export class SimulationEngine {
             const { x, y } = actor;
 
             if (x >= 0 && x < gridWidth && y >= 0 && y < gridHeight) {
-                this.grid[y][x].push(actor);
+                // The engine changes its actors in place, so it keeps its own copies.
+                this.grid[y][x].push(cloneActor(actor));
             } else {
                 console.warn(`Actor with ID ${actor.id} has out-of-bounds coordinates (${x}, ${y}) and was not placed.`);
             }
         }
+        this.actors.reset(this.grid);
+    }
+
+    /**
+     * Starts recording the run from its current state so it can be exported as a replay.
+     * Only seeded runs can be re-simulated, so unseeded runs are not recorded.
+     */
+    private _startRecording() {
+        if (!this.rng) {
+            this.recording = null;
+            return;
+        }
+        const initialActors = structuredClone(this.grid.flat(2));
+        initialActors.forEach(actor => {
+            if (actor.type === 'flower') actor.imageData = '';
+        });
+        this.recording = {
+            params: structuredClone(this.params),
+            startTick: this.tick,
+            environmentState: structuredClone(this.environmentState),
+            rngState: this.rng.getState(),
+            initialActors,
+            terrain: this.terrain.toData(),
+            soilMoisture: this.soilMoisture.toData(),
+            seedBank: this.persistence.seedBank.toArray().catch(error => {
+                console.error("Failed to read the seed bank for the replay:", error);
+                return [];
+            }),
+            interventions: [],
+            flowerGenomes: new Map(),
+        };
+    }
+
+    private _endReplay() {
+        if (!this.replay) return;
+        this.persistence = this.replay.livePersistence;
+        this.asyncFlowerFactory.setGenomeOverrides(null);
+        this.replay = null;
+    }
+
+    public isReplaying(): boolean {
+        return this.replay !== null;
+    }
+
+    /**
+     * Exports the run recorded since the garden was created, or null if the run is
+     * unseeded or was resumed from a save.
+     */
+    public async getReplay(): Promise<ReplayFile | null> {
+        if (!this.recording) return null;
+        const { params, startTick, environmentState, rngState, initialActors, terrain, soilMoisture, seedBank, interventions, flowerGenomes } = this.recording;
+        const entries = (await seedBank).map(entry => ({ ...entry, imageData: '' }));
+        return structuredClone({
+            format: 'evogarden-replay',
+            version: REPLAY_FORMAT_VERSION,
+            params,
+            seed: params.seed as number,
+            startTick,
+            endTick: this.tick,
+            environmentState,
+            rngState,
+            initialActors,
+            terrain,
+            soilMoisture,
+            seedBank: entries,
+            interventions,
+            flowerGenomes: Object.fromEntries(flowerGenomes),
+            customSpecies: speciesRegistry.getAll().flatMap(species => species.custom ? [species.custom] : []),
+        });
+    }
+
+    /**
+     * Restarts the engine from a replay file. Until the next reset or load, only the recorded
+     * interventions are applied and every flower is drawn from its recorded genome, so the run
+     * unfolds as it did when it was recorded. The seed bank is a copy of the recorded one, so
+     * the replay never touches the user's own.
+     */
+    public async loadReplay(replay: ReplayFile) {
+        const params: SimulationParams = { ...DEFAULT_SIM_PARAMS, ...replay.params, seed: replay.seed };
+        // Decoded before anything is changed, so a replay that cannot be read leaves the garden as it was.
+        const terrain = replay.terrain && TerrainMap.fromData(replay.terrain);
+        const soilMoisture = replay.soilMoisture && SoilMoistureMap.fromData(replay.soilMoisture);
+        const actors = structuredClone(replay.initialActors);
+
+        this._endReplay();
+        this.replay = { interventions: structuredClone(replay.interventions), livePersistence: this.persistence };
+        this.persistence = createInMemoryPersistence(replay.seedBank);
+
+        this.params = params;
+        this.tick = replay.startTick;
+        this.totalInsectsEaten = 0;
+        this.pendingActions = [];
+        this.populationManager.updateParams(params, true);
+        this.asyncFlowerFactory.updateParams(params);
+        this.asyncFlowerFactory.reset();
+        this.asyncFlowerFactory.setGenomeOverrides(new Map(Object.entries(replay.flowerGenomes)));
+        this.history.clear();
+        this._resetRandomSource(params);
+        this.rng?.setState(replay.rngState);
+        this.environmentState = structuredClone(replay.environmentState);
+        this._setTerrain(terrain);
+        this._setSoilMoisture(soilMoisture);
+        // Obstacles are placed by recorded interventions, so a replay starts without any.
+        this._setObstacles(null);
+
+        this.longestLivedChampion.value = 0;
+        this.mostToxicChampion.value = 0;
+        this.mostHealingChampion.value = 0;
+        await this.loadChampionsFromDb();
+
+        await Promise.all(actors.map(actor => {
+            if (actor.type !== 'flower') return Promise.resolve();
+            return this.flowerService.drawFlower(actor.genome)
+                .then(result => { if (result?.image) actor.imageData = result.image; })
+                .catch(err => console.error(`Failed to regenerate image for flower ${actor.id}`, err));
+        }));
+        this._placeActors(actors);
+        this._resetHistory();
+        this._startRecording();
+    }
+
+    private _captureTickState(summary: TickSummary | null): TickState {
+        return {
+            environmentState: structuredClone(this.environmentState),
+            totalInsectsEaten: this.totalInsectsEaten,
+            population: this.populationManager.getSnapshot(),
+            flowerFactory: this.asyncFlowerFactory.getSnapshot(),
+            soilMoisture: this.soilMoisture.getSnapshot(),
+            obstacles: this.obstacles.getSnapshot(),
+            actorOrder: this.grid.flat(2).map(actor => actor.id),
+            rngState: this.rng ? this.rng.getState() : null,
+            summary,
+        };
+    }
+
+    private _resetHistory() {
+        this.history.reset(this.tick, this.grid.flat(2), this._captureTickState(null));
+    }
+
+    public getHistoryRange() {
+        return this.history.getRange();
+    }
+
+    /**
+     * Rewinds the simulation to a tick still held in the history buffer. Ticks after it
+     * stay available until the simulation advances again from the restored point.
+     * Returns the summary recorded for that tick, or undefined if it is out of range.
+     */
+    public restoreTick(tick: number): TickSummary | null | undefined {
+        const restored = this.history.restore(tick);
+        if (!restored) return undefined;
+
+        const { actors, state } = restored;
+        const order = new Map(state.actorOrder.map((id, index) => [id, index]));
+        this._updateGrid([...actors.values()].sort((a, b) => order.get(a.id)! - order.get(b.id)!));
+        this.actors.reset(this.grid);
+        this.tick = tick;
+        this.environmentState = state.environmentState;
+        this.totalInsectsEaten = state.totalInsectsEaten;
+        this.populationManager.restoreSnapshot(state.population);
+        this.asyncFlowerFactory.setCurrentTick(tick);
+        this.asyncFlowerFactory.restoreSnapshot(state.flowerFactory);
+        this.soilMoisture.restoreSnapshot(state.soilMoisture);
+        this.obstacles.restoreSnapshot(state.obstacles);
+        if (this.rng && state.rngState !== null) {
+            this.rng.setState(state.rngState);
+        }
+        // Interventions queued for the abandoned future no longer apply.
+        this.pendingActions = [];
+        if (this.recording) {
+            this.recording.interventions = this.recording.interventions.filter(intervention => intervention.tick < tick);
+        }
+        return state.summary;
+    }
+
+    private _queueIntervention(intervention: Intervention) {
+        // A replay is locked to the interventions it recorded.
+        if (this.replay) return;
+        this.pendingActions.push(intervention);
     }
 
     public triggerWeatherEvent(eventType: WeatherEventType) {
-        this.pendingActions.push({ type: 'trigger-weather', payload: { eventType } });
+        this._queueIntervention({ type: 'trigger-weather', payload: { eventType } });
     }
     public introduceSpecies(emoji: string, count: number) {
-        this.pendingActions.push({ type: 'introduce-species', payload: { emoji, count } });
+        this._queueIntervention({ type: 'introduce-species', payload: { emoji, count } });
     }
     public introduceStationary(actorType: 'hive' | 'antColony', count: number) {
-        this.pendingActions.push({ type: 'introduce-stationary', payload: { actorType, count } });
+        this._queueIntervention({ type: 'introduce-stationary', payload: { actorType, count } });
     }
     public plantChampionSeed(genome: string, sex: 'male' | 'female' | 'both', position: {x: number, y: number}) {
-        this.pendingActions.push({ type: 'plant-champion-seed', payload: { genome, sex, position } });
+        this._queueIntervention({ type: 'plant-champion-seed', payload: { genome, sex, position } });
+    }
+    public placeWaterBody(kind: WaterBodyKind, position: {x: number, y: number}) {
+        this._queueIntervention({ type: 'place-water', payload: { kind, position } });
+    }
+    /** Places an obstacle on the cell, or clears the obstacle already there. */
+    public toggleObstacle(kind: ObstacleKind, position: {x: number, y: number}) {
+        this._queueIntervention({ type: 'toggle-obstacle', payload: { kind, position } });
     }
 
     private _resetTickCounters() {
+        this.idCounter = 0;
         this.insectsEatenThisTick = 0;
         this.eggsEatenThisTick = 0;
         this.cocoonsEatenThisTick = 0;
@@ -229,8 +520,7 @@ export class SimulationEngine {
     private _processActorTicks(
         actorsToProcess: CellContent[],
         nextActorState: Map<string, CellContent>,
-        qtree: Quadtree<CellContent>,
-        flowerQtree: Quadtree<CellContent>,
+        spatialHash: SpatialHash,
         events: AppEvent[],
         newActorQueue: CellContent[],
         claimedCellsThisTick: Set<string>
@@ -240,14 +530,18 @@ export class SimulationEngine {
             params: this.params,
             asyncFlowerFactory: this.asyncFlowerFactory,
             currentTemperature: this.environmentState.currentTemperature,
+            soilMoisture: this.soilMoisture,
+            wind: this.environmentState.wind,
             nextActorState,
             claimedCellsThisTick,
             getNextId: this.getNextId.bind(this),
         };
         const insectContext = {
             ...flowerContext,
-            qtree,
-            flowerQtree,
+            terrain: this.terrain,
+            pathfinder: this.pathfinder,
+            isNight: isNightTime(this.environmentState.timeOfDay),
+            spatialHash,
             events,
             incrementInsectsDiedOfOldAge: () => { this.insectsDiedOfOldAgeThisTick++; },
             newActorQueue,
@@ -260,7 +554,7 @@ export class SimulationEngine {
 
             switch (actor.type) {
                 case 'bird':
-                    processBirdTick(actor as Bird, { grid: this.grid, params: this.params, qtree, flowerQtree, nextActorState, events,
+                    processBirdTick(actor as Bird, { grid: this.grid, params: this.params, spatialHash, pathfinder: this.pathfinder, wind: this.environmentState.wind, nextActorState, events,
                         incrementInsectsEaten: () => { this.insectsEatenThisTick++; this.totalInsectsEaten++; },
                         incrementEggsEaten: () => { this.eggsEatenThisTick++; },
                         incrementCocoonsEaten: () => { this.cocoonsEatenThisTick++; },
@@ -268,15 +562,15 @@ export class SimulationEngine {
                     });
                     break;
                 case 'eagle':
-                    if (processEagleTick(actor as Eagle, { grid: this.grid, params: this.params, qtree, nextActorState, events })) {
+                    if (processEagleTick(actor as Eagle, { grid: this.grid, params: this.params, spatialHash, nextActorState, events })) {
                         this.birdsHuntedThisTick++;
                     }
                     break;
                 case 'herbicidePlane':
-                    processHerbicidePlaneTick(actor as HerbicidePlane, { grid: this.grid, params: this.params, nextActorState, getNextId: this.getNextId.bind(this) });
+                    processHerbicidePlaneTick(actor as HerbicidePlane, { grid: this.grid, params: this.params, nextActorState, spatialHash, getNextId: this.getNextId.bind(this) });
                     break;
                 case 'herbicideSmoke':
-                    processHerbicideSmokeTick(actor as HerbicideSmoke, { grid: this.grid, params: this.params, nextActorState, asyncFlowerFactory: this.asyncFlowerFactory, qtree });
+                    processHerbicideSmokeTick(actor as HerbicideSmoke, { grid: this.grid, params: this.params, nextActorState, asyncFlowerFactory: this.asyncFlowerFactory, spatialHash, wind: this.environmentState.wind, getNextId: this.getNextId.bind(this) });
                     break;
                 case 'insect':
                 case 'cockroach':
@@ -295,7 +589,7 @@ export class SimulationEngine {
                     processNutrientTick(actor as Nutrient, { nextActorState });
                     break;
                 case 'corpse':
-                    processCorpseTick(actor as Corpse, { nextActorState, getNextId: this.getNextId.bind(this) });
+                    processCorpseTick(actor as Corpse, { nextActorState, spatialHash, params: this.params, events, getNextId: this.getNextId.bind(this) });
                     break;
                 case 'cocoon':
                     processCocoonTick(actor as Cocoon, { nextActorState, events, getNextId: this.getNextId.bind(this) });
@@ -304,7 +598,7 @@ export class SimulationEngine {
                     processSlimeTrailTick(actor as SlimeTrail, { nextActorState });
                     break;
                 case 'hive':
-                    processHiveTick(actor as Hive, { nextActorState, events, newActorQueue, params: this.params, currentTemperature: this.environmentState.currentTemperature, getNextId: this.getNextId.bind(this) });
+                    processHiveTick(actor as Hive, { nextActorState, events, newActorQueue, params: this.params, currentTemperature: this.environmentState.currentTemperature, isNight: isNightTime(this.environmentState.timeOfDay), getNextId: this.getNextId.bind(this) });
                     break;
                 case 'territoryMark':
                     processTerritoryMarkTick(actor as TerritoryMark, { nextActorState });
@@ -316,7 +610,7 @@ export class SimulationEngine {
                     processPheromoneTrailTick(actor as PheromoneTrail, { nextActorState, params: this.params });
                     break;
                 case 'spiderweb':
-                    processSpiderWebTick(actor as SpiderWeb, { nextActorState, events, params: this.params, qtree });
+                    processSpiderWebTick(actor as SpiderWeb, { nextActorState, events, params: this.params, spatialHash });
                     break;
             }
         }
@@ -328,10 +622,12 @@ export class SimulationEngine {
         let totalHealth = 0, totalStamina = 0, totalNutrientEfficiency = 0, totalMaturationPeriod = 0;
         let maxHealthSoFar = 0, maxStaminaSoFar = 0, maxToxicitySoFar = 0, maxHealingSoFar = 0;
         let totalVitality = 0, totalAgility = 0, totalStrength = 0, totalIntelligence = 0, totalLuck = 0;
-        let healingFlowerCount = 0, toxicFlowerCount = 0;
-        let caterpillarCount = 0, butterflyCount = 0, beetleCount = 0, ladybugCount = 0, snailCount = 0, beeCount = 0, scorpionCount = 0, antCount = 0, spiderCount = 0;
+        let healingFlowerCount = 0, toxicFlowerCount = 0, blightedFlowerCount = 0;
+        const flowerSexCounts: Record<FlowerSex, number> = { male: 0, female: 0, both: 0 };
+        const speciesCounts: Record<string, number> = {};
         let hiveCount = 0, totalHoney = 0, colonyCount = 0, totalAntFood = 0;
         let storedBeesCount = 0, storedAntsCount = 0;
+        let infectedInsectCount = 0, recoveredInsectCount = 0;
 
 
         for (const actor of nextActorState.values()) {
@@ -349,30 +645,16 @@ export class SimulationEngine {
                 } else if (f.toxicityRate > TOXIC_FLOWER_THRESHOLD) {
                     toxicFlowerCount++;
                 }
+                if (f.isBlighted) blightedFlowerCount++;
+                if (f.sex in flowerSexCounts) flowerSexCounts[f.sex]++;
             } else if (actor.type === 'flowerSeed') {
                 seedCount++;
             } else if (actor.type === 'insect') {
                 insectCount++;
-                const insect = actor as Insect;
-                if (insect.emoji === '🐛') {
-                    caterpillarCount++;
-                } else if (insect.emoji === '🦋') {
-                    butterflyCount++;
-                } else if (insect.emoji === '🪲') {
-                    beetleCount++;
-                } else if (insect.emoji === '🐞') {
-                    ladybugCount++;
-                } else if (insect.emoji === '🐌') {
-                    snailCount++;
-                } else if (insect.emoji === '🐝') {
-                    beeCount++;
-                } else if (insect.emoji === '🦂') {
-                    scorpionCount++;
-                } else if (insect.emoji === '🐜') {
-                    antCount++;
-                } else if (insect.emoji === '🕷️') {
-                    spiderCount++;
-                }
+                const { emoji } = actor as Insect;
+                speciesCounts[emoji] = (speciesCounts[emoji] || 0) + 1;
+                if (isInfected(actor as Insect)) infectedInsectCount++;
+                else if ((actor as Insect).isImmune) recoveredInsectCount++;
             } else if (actor.type === 'bird') {
                 birdCount++;
             } else if (actor.type === 'eagle') {
@@ -389,6 +671,10 @@ export class SimulationEngine {
                 corpseCount++;
             } else if (actor.type === 'cockroach') {
                 cockroachCount++;
+                const { emoji } = actor as Cockroach;
+                speciesCounts[emoji] = (speciesCounts[emoji] || 0) + 1;
+                if (isInfected(actor as Cockroach)) infectedInsectCount++;
+                else if ((actor as Cockroach).isImmune) recoveredInsectCount++;
             } else if (actor.type === 'cocoon') {
                 cocoonCount++;
             } else if (actor.type === 'hive') {
@@ -405,16 +691,30 @@ export class SimulationEngine {
         const flowerDensity = (flowerCountForStats + seedCount) / (this.params.gridWidth * this.params.gridHeight);
         const totalInsectCount = insectCount + cockroachCount + storedBeesCount + storedAntsCount;
 
+        // Insects waiting out the cold inside a hive or colony still count towards their species.
+        const storedBySpecies: [SpeciesDefinition | undefined, number][] = [
+            [speciesRegistry.getNestSpecies('hive'), storedBeesCount],
+            [speciesRegistry.getNestSpecies('colony'), storedAntsCount],
+        ];
+        for (const [species, stored] of storedBySpecies) {
+            if (species && stored > 0) speciesCounts[species.emoji] = (speciesCounts[species.emoji] || 0) + stored;
+        }
+        const speciesSummaryCounts: Record<SpeciesSummaryKey, number> = {
+            caterpillarCount: 0, butterflyCount: 0, beetleCount: 0, ladybugCount: 0, snailCount: 0,
+            beeCount: 0, scorpionCount: 0, antCount: 0, spiderCount: 0,
+        };
+        for (const species of speciesRegistry.getAll()) {
+            if (species.summaryKey) speciesSummaryCounts[species.summaryKey] = speciesCounts[species.emoji] || 0;
+        }
+        const flowerFactory = this.asyncFlowerFactory.takeMetrics();
+
         return {
             tick: this.tick,
             flowerCount: flowerCountForStats + seedCount,
             insectCount: totalInsectCount,
             birdCount, eagleCount, eggCount, herbicidePlaneCount, herbicideSmokeCount, corpseCount, cockroachCount, cocoonCount,
-            caterpillarCount, butterflyCount, beetleCount, ladybugCount, snailCount, 
-            beeCount: beeCount + storedBeesCount, 
-            scorpionCount,
-            antCount: antCount + storedAntsCount, 
-            spiderCount,
+            ...speciesSummaryCounts,
+            speciesCounts,
             hiveCount,
             colonyCount,
             totalHoney,
@@ -426,6 +726,9 @@ export class SimulationEngine {
             eggsLaid: this.eggsLaidThisTick, insectsBorn: this.insectsBornThisTick, eggsEaten: this.eggsEatenThisTick,
             cocoonsEaten: this.cocoonsEatenThisTick,
             insectsDiedOfOldAge: this.insectsDiedOfOldAgeThisTick,
+            susceptibleInsectCount: totalInsectCount - infectedInsectCount - recoveredInsectCount,
+            infectedInsectCount,
+            recoveredInsectCount,
             avgHealth: flowerCountForStats > 0 ? totalHealth / flowerCountForStats : 0,
             avgStamina: flowerCountForStats > 0 ? totalStamina / flowerCountForStats : 0,
             maxHealth: maxHealthSoFar, maxToxicity: maxToxicitySoFar,
@@ -438,71 +741,57 @@ export class SimulationEngine {
             avgStrength: flowerCountForStats > 0 ? totalStrength / flowerCountForStats : 0,
             avgIntelligence: flowerCountForStats > 0 ? totalIntelligence / flowerCountForStats : 0,
             avgLuck: flowerCountForStats > 0 ? totalLuck / flowerCountForStats : 0,
+            maleFlowerCount: flowerSexCounts.male,
+            femaleFlowerCount: flowerSexCounts.female,
+            hermaphroditeFlowerCount: flowerSexCounts.both,
             tickTimeMs,
             currentTemperature: this.environmentState.currentTemperature,
             currentHumidity: this.environmentState.currentHumidity,
             season: this.environmentState.season,
             weatherEvent: this.environmentState.currentWeatherEvent.type,
+            timeOfDay: this.environmentState.timeOfDay,
+            windDirection: this.environmentState.wind.direction,
+            windStrength: this.environmentState.wind.strength,
             pendingFlowerRequests: this.asyncFlowerFactory.getPendingRequestCount(),
+            flowerQueueDepth: flowerFactory.depth,
+            flowerQueueLatencyMs: flowerFactory.latencyMs,
+            flowerCacheHitRate: flowerFactory.cacheHitRate,
             healingFlowerCount,
             toxicFlowerCount,
+            blightedFlowerCount,
         };
     }
     
-    private _updateGrid(nextActorState: Map<string, CellContent>): void {
-        const { gridWidth, gridHeight } = this.params;
-        const nextGrid: Grid = Array.from({ length: gridHeight }, () => Array.from({ length: gridWidth }, () => []));
-        for (const actor of nextActorState.values()) {
-            if(actor.x >= 0 && actor.x < gridWidth && actor.y >= 0 && actor.y < gridHeight) {
-                nextGrid[actor.y][actor.x].push(actor);
-            }
+    // Flowers that have died or been replaced since the batch was sent are left alone.
+    private _applyFlowerStatsUpdates(nextActorState: Map<string, CellContent>) {
+        for (const { flowerId, genome, stats } of this.asyncFlowerFactory.takeReevaluatedStats()) {
+            const flower = nextActorState.get(flowerId);
+            if (flower?.type === 'flower' && flower.genome === genome) applyPlasticStats(flower, stats);
         }
-        this.grid = nextGrid;
     }
 
-    private _calculateDeltas(initialActors: CellContent[], finalActorState: Map<string, CellContent>): ActorDelta[] {
-        const deltas: ActorDelta[] = [];
-        const initialActorMap = new Map(initialActors.map(actor => [actor.id, actor]));
+    // The weather is rounded so that small swings reuse the genome cache.
+    private _requestFlowerReevaluation(nextActorState: Map<string, CellContent>) {
+        const flowers = [...nextActorState.values()].filter((actor): actor is Flower => actor.type === 'flower');
+        if (flowers.length === 0) return;
+        const { currentTemperature, currentHumidity } = this.environmentState;
+        const round = (value: number, step: number) => Math.round(value / step) * step;
+        this.asyncFlowerFactory.requestReevaluation(
+            flowers,
+            round(currentTemperature, FLOWER_PLASTICITY_TEMPERATURE_STEP),
+            round(currentHumidity, FLOWER_PLASTICITY_HUMIDITY_STEP),
+        );
+    }
 
-        // Check for updates and removals
-        for (const [id, initialActor] of initialActorMap.entries()) {
-            const finalActor = finalActorState.get(id);
-            if (!finalActor) {
-                deltas.push({ type: 'remove', id });
-            } else {
-                const changes: Partial<CellContent> = {};
-                let hasChanged = false;
-
-                for (const key in finalActor) {
-                    if (key === 'id') continue;
-                    
-                    const initialValue = (initialActor as any)[key];
-                    const finalValue = (finalActor as any)[key];
-                    
-                    if (typeof finalValue === 'object' && finalValue !== null) {
-                        if (!shallowObjectEquals(initialValue, finalValue)) {
-                            (changes as any)[key] = finalValue;
-                            hasChanged = true;
-                        }
-                    } else if (initialValue !== finalValue) {
-                        (changes as any)[key] = finalValue;
-                        hasChanged = true;
-                    }
-                }
-                if (hasChanged) {
-                    deltas.push({ type: 'update', id, changes });
-                }
-            }
-        }
+    private _updateGrid(actors: Iterable<CellContent>): void {
+        this.grid = buildGrid(actors, this.params);
+    }
 
-        // Check for additions
-        for (const [id, finalActor] of finalActorState.entries()) {
-            if (!initialActorMap.has(id)) {
-                deltas.push({ type: 'add', actor: finalActor });
-            }
+    private _placeInGrid(actor: CellContent): void {
+        const { gridWidth, gridHeight } = this.params;
+        if (actor.x >= 0 && actor.x < gridWidth && actor.y >= 0 && actor.y < gridHeight) {
+            this.grid[actor.y][actor.x].push(actor);
         }
-        
-        return deltas;
     }
 
     private _updateEnvironment(events: AppEvent[]): Season {
@@ -513,23 +802,35 @@ export class SimulationEngine {
 
     public async calculateNextTick(): Promise<{ events: AppEvent[]; summary: TickSummary; deltas: ActorDelta[] }> {
         const tickStartTime = performance.now();
+        // Re-install our generator in case another engine in the same thread replaced it.
+        setRandomSource(this.rng);
+        this.asyncFlowerFactory.setCurrentTick(this.tick);
         this._resetTickCounters();
         const events: AppEvent[] = [];
         let newFlowerCount = 0;
         
         const previousSeason = this._updateEnvironment(events);
         
-        const initialActors = this.grid.flat(2).map(cloneActor);
-        const nextActorState = new Map<string, CellContent>(initialActors.map(actor => [actor.id, cloneActor(actor)]));
+        // Actors are changed in place; the store records what changed for the deltas.
+        const tickActors = this.grid.flat(2);
+        this.actors.startTick(this.grid);
+        const nextActorState = this.actors;
         const claimedCellsThisTick = new Set<string>();
 
+        if (this.replay) {
+            this.pendingActions = this.replay.interventions
+                .filter(intervention => intervention.tick === this.tick)
+                .map(({ type, payload }) => ({ type, payload }));
+        }
+        this.recording?.interventions.push(...this.pendingActions.map(action => ({ ...structuredClone(action), tick: this.tick })));
+
         for (const action of this.pendingActions) {
             switch (action.type) {
                 case 'trigger-weather': {
                     const { eventType } = action.payload;
                     if (this.environmentState.currentWeatherEvent.duration <= 0) {
                         this.environmentState.currentWeatherEvent.type = eventType;
-                        this.environmentState.currentWeatherEvent.duration = Math.floor(Math.random() * (this.params.weatherEventMaxDuration - this.params.weatherEventMinDuration + 1)) + this.params.weatherEventMinDuration;
+                        this.environmentState.currentWeatherEvent.duration = Math.floor(random() * (this.params.weatherEventMaxDuration - this.params.weatherEventMinDuration + 1)) + this.params.weatherEventMinDuration;
                         events.push({ message: `A ${eventType} has begun!`, type: 'info', importance: 'high' });
                     }
                     break;
@@ -546,9 +847,9 @@ export class SimulationEngine {
                                 const newBird: Bird = { id: birdId, type: 'bird', x: pos.x, y: pos.y, target: null, patrolTarget: null };
                                 nextActorState.set(birdId, newBird);
                             } else { // It must be an insect
-                                const baseStats = INSECT_DATA.get(emoji);
+                                const baseStats = speciesRegistry.getStats(emoji);
                                 if (baseStats) {
-                                    const typeName = (ACTOR_NAMES[emoji] || 'insect').toLowerCase();
+                                    const typeName = speciesRegistry.getIdName(emoji);
                                     const id = this.getNextId(`insect-${typeName}`, pos.x, pos.y);
                                     const newInsect: Insect = { 
                                         id, type: 'insect', x: pos.x, y: pos.y, 
@@ -605,7 +906,7 @@ export class SimulationEngine {
                     const { genome, position } = action.payload;
                     const isOccupied = Array.from(nextActorState.values()).some(a => a.x === position.x && a.y === position.y);
                     if (!isOccupied) {
-                        const seed = this.asyncFlowerFactory.requestNewFlower(nextActorState, position.x, position.y, genome, undefined, this.getNextId.bind(this));
+                        const seed = this.asyncFlowerFactory.requestNewFlower(nextActorState, position.x, position.y, genome, undefined, this.getNextId.bind(this), 'planting');
                         if (seed) {
                             nextActorState.set(seed.id, seed);
                             claimedCellsThisTick.add(`flower-${position.x}-${position.y}`);
@@ -613,9 +914,26 @@ export class SimulationEngine {
                     }
                     break;
                 }
+                case 'place-water': {
+                    const { kind, position } = action.payload as { kind: WaterBodyKind; position: {x: number, y: number} };
+                    const flooded = kind === 'pond'
+                        ? this.soilMoisture.addPond(position.x, position.y)
+                        : this.soilMoisture.addStream(position.x, position.y, this.terrain);
+                    if (flooded > 0) {
+                        events.push({ message: kind === 'pond' ? '💧 A pond has been dug.' : '💧 A stream now runs through the garden.', type: 'success', importance: 'high' });
+                    }
+                    break;
+                }
+                case 'toggle-obstacle': {
+                    const { kind, position } = action.payload as { kind: ObstacleKind; position: {x: number, y: number} };
+                    const placed = this.obstacles.toggle(kind, position.x, position.y);
+                    events.push({ message: placed === 'wall' ? '🧱 A wall was built.' : placed === 'rock' ? '🪨 A rock was placed.' : 'An obstacle was cleared away.', type: 'info', importance: 'low' });
+                    break;
+                }
             }
         }
         this.pendingActions = [];
+        this.soilMoisture.update(this.environmentState.currentWeatherEvent.type, this.environmentState.currentHumidity);
 
         // Spring Repopulation Logic
         if (previousSeason === 'Winter' && this.environmentState.season === 'Spring') {
@@ -654,21 +972,21 @@ export class SimulationEngine {
                 const tempGridForPlacement = this.grid.map(row => row.map(cell => [...cell]));
                 
                 if (flowerCount <= this.params.initialFlowers) {
-                    const seedsFromBank = await db.seedBank.toArray();
+                    const seedsFromBank = await this.persistence.seedBank.toArray();
                     for (let i = 0; i < this.params.initialFlowers; i++) {
                         const origin = {
-                            x: Math.floor(Math.random() * this.params.gridWidth),
-                            y: Math.floor(Math.random() * this.params.gridHeight)
+                            x: Math.floor(random() * this.params.gridWidth),
+                            y: Math.floor(random() * this.params.gridHeight)
                         };
                         const pos = findCellForFlowerSpawn(tempGridForPlacement, this.params, origin, claimedCellsThisTick);
                         if (pos) {
                             claimedCellsThisTick.add(`${pos.x},${pos.y}`);
                             let seed: FlowerSeed | null;
                             if (seedsFromBank.length > 0) {
-                                const randomSeed = seedsFromBank[Math.floor(Math.random() * seedsFromBank.length)];
-                                seed = this.asyncFlowerFactory.requestNewFlower(nextActorState, pos.x, pos.y, randomSeed.genome, undefined, this.getNextId.bind(this));
+                                const randomSeed = seedsFromBank[Math.floor(random() * seedsFromBank.length)];
+                                seed = this.asyncFlowerFactory.requestNewFlower(nextActorState, pos.x, pos.y, randomSeed.genome, undefined, this.getNextId.bind(this), 'planting');
                             } else {
-                                seed = this.asyncFlowerFactory.requestNewFlower(nextActorState, pos.x, pos.y, undefined, undefined, this.getNextId.bind(this));
+                                seed = this.asyncFlowerFactory.requestNewFlower(nextActorState, pos.x, pos.y, undefined, undefined, this.getNextId.bind(this), 'planting');
                             }
                             if (seed) {
                                nextActorState.set(seed.id, seed);
@@ -682,14 +1000,14 @@ export class SimulationEngine {
                     for (let i = 0; i < this.params.initialInsects; i++) {
                          const pos = findEmptyCell(tempGridForPlacement, this.params);
                          if (pos) {
-                            const id = `insect-repop-${i}-${Date.now()}`;
-                            // Exclude social insects from random initial spawn, and respect the whitelist
-                            const emoji = getInsectEmoji(id, { allowed: this.params.allowedActors, exclude: ['🐝', '🐜', '🕷️'] });
+                            const id = this.getNextId('insect-repop', pos.x, pos.y);
+                            // Only species that spawn at random (not from a nest or territory), respecting the whitelist
+                            const emoji = getInsectEmoji(id, { allowed: this.params.allowedActors, spawn: 'random' });
                             if (emoji) {
-                                const baseStats = INSECT_DATA.get(emoji);
+                                const baseStats = speciesRegistry.getStats(emoji);
                                 if (baseStats) {
-                                    const typeName = (ACTOR_NAMES[emoji] || 'insect').toLowerCase();
-                                    const id = `insect-${typeName}-${-1}-${-1}-${Date.now() + i}`;
+                                    const typeName = speciesRegistry.getIdName(emoji);
+                                    const id = this.getNextId(`insect-${typeName}`, pos.x, pos.y);
                                     const newInsect: Insect = { 
                                         id, type: 'insect', x: pos.x, y: pos.y, 
                                         pollen: null, emoji, 
@@ -709,8 +1027,13 @@ export class SimulationEngine {
             }
         }
         
-        // Process flowers that were created in the background
-        const { flowersToAdd, seedsToRemove } = this.asyncFlowerFactory.getCompletedFlowers(nextActorState);
+        // Process flowers that were created in the background. Seeded runs wait here for
+        // every flower scheduled for this tick so that arrival is reproducible.
+        await this.asyncFlowerFactory.waitForDueFlowers();
+        const { flowersToAdd, seedsToRemove, deliveredGenomes } = this.asyncFlowerFactory.getCompletedFlowers(nextActorState);
+        for (const { requestId, genome } of deliveredGenomes) {
+            this.recording?.flowerGenomes.set(requestId, genome);
+        }
         for (const seedId of seedsToRemove) {
             nextActorState.delete(seedId);
         }
@@ -723,15 +1046,22 @@ export class SimulationEngine {
             newFlowerCount++;
             events.push({ message: '🌱 A new flower has bloomed!', type: 'success', importance: 'low' });
         }
+        this._applyFlowerStatsUpdates(nextActorState);
+        if (this.tick > 0 && this.tick % FLOWER_PLASTICITY_INTERVAL_TICKS === 0) {
+            this._requestFlowerReevaluation(nextActorState);
+        }
         
-        const { qtree, flowerQtree } = buildQuadtrees(Array.from(nextActorState.values()), this.params);
+        const { spatialHash } = this.actors;
+        this.pathfinder.update(this.terrain, this.soilMoisture, this.obstacles, spatialHash.ofType('pheromoneTrail'));
         
-        ecosystemManager.processNutrientHealing(nextActorState, qtree);
+        ecosystemManager.processNutrientHealing(nextActorState, spatialHash);
 
         const newActorQueue: CellContent[] = [];
-        this._processActorTicks(initialActors, nextActorState, qtree, flowerQtree, events, newActorQueue, claimedCellsThisTick);
+        this._processActorTicks(tickActors, nextActorState, spatialHash, events, newActorQueue, claimedCellsThisTick);
+        spreadDisease(nextActorState, spatialHash, this.params, events);
+        spreadBlight(nextActorState, spatialHash, this.params, this.environmentState.currentHumidity, events);
         
-        await this._checkDeceasedChampions(initialActors, nextActorState, events);
+        await this._checkDeceasedChampions(tickActors, events);
 
         this.populationManager.totalBirdsHunted += this.birdsHuntedThisTick;
         
@@ -739,35 +1069,63 @@ export class SimulationEngine {
             nextActorState.set(actor.id, actor);
         }
 
-        this.eggsLaidThisTick += ecosystemManager.handleInsectReproduction(nextActorState, this.params, events, this.getNextId.bind(this));
+        // New arrivals still look for space in the grid as it stood at the start of the tick.
+        const tickStartGrid = this.grid;
+        this._updateGrid(this.actors.plainValues());
+        this.eggsLaidThisTick += ecosystemManager.handleInsectReproduction(nextActorState, this.params, events, this.getNextId.bind(this), spatialHash, this.grid);
         
         const tickEndTime = performance.now();
         const tickTimeMs = tickEndTime - tickStartTime;
         const summary = this._calculateTickSummary(nextActorState, newFlowerCount, tickTimeMs);
 
-        const newPopulationActors = this.populationManager.processTick(nextActorState, this.grid, summary, events);
+        const newPopulationActors = this.populationManager.processTick(nextActorState, tickStartGrid, summary, events, this.getNextId.bind(this));
         for (const actor of newPopulationActors) {
             nextActorState.set(actor.id, actor);
+            this._placeInGrid(actor);
         }
         
-        const deltas = this._calculateDeltas(initialActors, nextActorState);
-        
-        this._updateGrid(nextActorState);
+        const deltas = this.actors.takeDeltas();
         
         this.tick++;
+        this.history.record(this.tick, deltas, this._captureTickState(summary));
 
         return { events, summary, deltas };
     }
 
+    /**
+     * Runs `count` ticks back to back and reports them as one update: the events of every
+     * tick (each stamped with its tick), the deltas combined into their net effect, and the
+     * summary of each tick in order.
+     */
+    public async advanceTicks(count: number): Promise<{ events: AppEvent[]; summaries: TickSummary[]; deltas: ActorDelta[] }> {
+        const events: AppEvent[] = [];
+        const summaries: TickSummary[] = [];
+        const deltaLists: ActorDelta[][] = [];
+
+        for (let i = 0; i < count; i++) {
+            const result = await this.calculateNextTick();
+            events.push(...result.events.map(event => ({ ...event, tick: result.summary.tick })));
+            summaries.push(result.summary);
+            deltaLists.push(result.deltas);
+        }
+
+        return { events, summaries, deltas: combineDeltas(deltaLists) };
+    }
+
     public getGridState() { return { grid: this.grid, tick: this.tick, params: this.params }; }
 
     public getStateForSave() {
         const stateToSave = JSON.parse(JSON.stringify({ 
+            saveVersion: SAVE_FORMAT_VERSION,
             params: this.params, grid: this.grid, tick: this.tick, 
             totalInsectsEaten: this.totalInsectsEaten,
             totalBirdsHunted: this.populationManager.totalBirdsHunted, 
             totalHerbicidePlanesSpawned: this.populationManager.totalHerbicidePlanesSpawned,
             environmentState: this.environmentState,
+            rngState: this.rng ? this.rng.getState() : null,
+            terrain: this.terrain.toData(),
+            soilMoisture: this.soilMoisture.toData(),
+            obstacles: this.obstacles.toData(),
         }));
         stateToSave.grid.flat(2).forEach((entity: CellContent) => {
             if (entity.type === 'flower') (entity as Flower).imageData = '';
@@ -776,63 +1134,54 @@ export class SimulationEngine {
         return stateToSave;
     }
 
-    public async loadState(savedPayload: {params: SimulationParams, grid: Grid, tick: number, totalInsectsEaten?: number, totalBirdsHunted?: number, totalHerbicidePlanesSpawned?: number, environmentState?: EnvironmentState}) {
-        const { params: loadedParams, grid: loadedGrid, tick: loadedTick, totalInsectsEaten: loadedTotalInsectsEaten, environmentState: loadedEnvState } = savedPayload;
-        if (!loadedGrid || !loadedParams) {
-            console.error("Aborting load: Invalid state.", savedPayload);
-            return;
-        }
+    /**
+     * Loads a saved garden, first upgrading it to the current save format. Throws a
+     * user-readable error, leaving the running garden as it is, if the save cannot be loaded.
+     */
+    public async loadState(savedPayload: {saveVersion?: number, params: SimulationParams, grid: Grid, tick: number, totalInsectsEaten?: number, totalBirdsHunted?: number, totalHerbicidePlanesSpawned?: number, environmentState?: EnvironmentState, rngState?: number | null, terrain?: TerrainData, soilMoisture?: SoilMoistureData, obstacles?: ObstacleData}) {
+        const savedState = migrateSave(savedPayload);
+        const { params: loadedParams, grid: loadedGrid, tick: loadedTick, totalInsectsEaten: loadedTotalInsectsEaten, environmentState: loadedEnvState, rngState, terrain, soilMoisture, obstacles } = savedState;
+        this._endReplay();
 
         this.params = { ...DEFAULT_SIM_PARAMS, ...loadedParams };
         this.tick = loadedTick; 
         this.totalInsectsEaten = loadedTotalInsectsEaten || 0;
-        this.populationManager.loadState(savedPayload);
+        this.populationManager.loadState(savedState);
+        this._setTerrain(terrain && TerrainMap.fromData(terrain));
+        this._setObstacles(obstacles && ObstacleMap.fromData(obstacles));
         this.grid = loadedGrid;
+        this.actors.reset(loadedGrid);
         this.asyncFlowerFactory.updateParams(this.params);
+        this._resetRandomSource(this.params);
+        if (this.rng && typeof rngState === 'number') {
+            // Resume the sequence where the saved run left off rather than from the seed.
+            this.rng.setState(rngState);
+        }
         
         this.environmentState = loadedEnvState || {
             currentTemperature: this.params.temperature,
             currentHumidity: this.params.humidity,
             season: 'Summer',
             currentWeatherEvent: { type: 'none', duration: 0 },
+            timeOfDay: 0,
+            wind: { direction: this.params.windDirection, strength: this.params.windStrength },
         };
+        this._setSoilMoisture(soilMoisture && SoilMoistureMap.fromData(soilMoisture));
         
         this.loadChampionsFromDb();
 
         const regenerationPromises = this.grid.flat(2).map(entity => {
-            // Data migration for backward compatibility with older save files
-            if (entity.type === 'hive') {
-                const hive = entity as Hive;
-                if (hive.pollen === undefined) hive.pollen = 0;
-                if (hive.spawnCooldown === undefined) hive.spawnCooldown = 0;
-            }
             if (entity.type === 'flower' && entity.genome) {
                 return this.flowerService.drawFlower(entity.genome)
                     .then(result => { if (result?.image) entity.imageData = result.image; })
                     .catch(err => console.error(`Failed to regenerate image for flower ${entity.id}`, err));
             }
-            if (entity.type === 'insect' || entity.type === 'cockroach') {
-                const insect = entity as Insect | Cockroach;
-                if (!insect.emoji) {
-                     insect.emoji = entity.type === 'cockroach' ? '🪳' : getInsectEmoji(insect.id);
-                }
-                
-                // Backward compatibility for saves from before the health/stamina update
-                if ((insect as any).lifespan !== undefined && insect.health === undefined) {
-                    const baseStats = INSECT_DATA.get(insect.emoji);
-                    if (baseStats) {
-                        insect.maxHealth = baseStats.maxHealth;
-                        insect.health = ((insect as any).lifespan / 100) * baseStats.maxHealth;
-                        insect.maxStamina = baseStats.maxStamina;
-                        insect.stamina = baseStats.maxStamina;
-                        insect.genome = generateRandomInsectGenome();
-                        delete (insect as any).lifespan;
-                    }
-                }
-            }
             return Promise.resolve();
         });
         await Promise.all(regenerationPromises);
+        this._resetHistory();
+        // A resumed run has no record of how it started, so it cannot be exported as a replay.
+        this.recording = null;
     }
 
     public setParams(newParams: SimulationParams, reset = true) {
@@ -840,15 +1189,23 @@ export class SimulationEngine {
         this.populationManager.updateParams(newParams, reset);
         this.asyncFlowerFactory.updateParams(this.params);
         if (reset) {
+            this._endReplay();
             this.tick = 0;
             this.totalInsectsEaten = 0;
             this.asyncFlowerFactory.reset();
+            this.history.clear();
+            this._setTerrain(null);
+            this._setObstacles(null);
+            this._resetRandomSource(newParams);
             this.environmentState = {
                 currentTemperature: newParams.temperature,
                 currentHumidity: newParams.humidity,
                 season: 'Summer',
                 currentWeatherEvent: { type: 'none', duration: 0 },
+                timeOfDay: 0,
+                wind: { direction: newParams.windDirection, strength: newParams.windStrength },
             };
+            this._setSoilMoisture(null);
             this.loadChampionsFromDb();
         }
     }
@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { createInitialMobileActors, createNewFlower } from './simulationInitializer';
+import { createInitialMobileActors, createNewFlower, reevaluateFlowerStats } from './simulationInitializer';
 import type { FEService, FlowerGenomeStats, Insect } from '../types';
-import { DEFAULT_SIM_PARAMS, INSECT_DATA } from '../constants';
+import { DEFAULT_SIM_PARAMS } from '../constants';
+import { speciesRegistry } from './speciesRegistry';
+import { FlowerGenomeCache } from './flowerGenomeCache';
 
 const mockFlowerService: FEService = {
     initialize: vi.fn().mockResolvedValue(undefined),
@@ -74,6 +76,45 @@ describe('simulationInitializer', () => {
                 age: 0,
             });
         });
+
+        it('should reuse the cached stats and image of a genome it has seen', async () => {
+            vi.mocked(mockFlowerService.drawFlower).mockResolvedValue({ genome: 'mutated-genome', image: 'drawn-image' });
+            const cache = new FlowerGenomeCache(10);
+            await createNewFlower(mockFlowerService, DEFAULT_SIM_PARAMS, 1, 1, 'g1', undefined, undefined, undefined, undefined, cache);
+            const replayed = await createNewFlower(mockFlowerService, DEFAULT_SIM_PARAMS, 1, 1, undefined, undefined, undefined, 'mutated-genome', undefined, cache);
+
+            expect(mockFlowerService.getFlowerStats).toHaveBeenCalledTimes(1);
+            expect(mockFlowerService.drawFlower).not.toHaveBeenCalled();
+            expect(replayed).toMatchObject({ genome: 'mutated-genome', imageData: 'mutated-image', maxHealth: mockFlowerStats.health });
+            expect(cache.takeStats()).toEqual({ hits: 2, misses: 1 });
+        });
+    });
+
+    describe('reevaluateFlowerStats', () => {
+        it('should work out each genome once per site for the weather in the request', async () => {
+            vi.mocked(mockFlowerService.getFlowerStats).mockResolvedValue({ ...mockFlowerStats, health: 60, stamina: 40 });
+            const site = { altitude: 640, terrainType: 2 };
+            const updates = await reevaluateFlowerStats(mockFlowerService, {
+                batchId: 'b', temperature: 35, humidity: 0.2,
+                flowers: [{ flowerId: 'f1', genome: 'g', site }, { flowerId: 'f2', genome: 'g', site }],
+            });
+
+            expect(mockFlowerService.getFlowerStats).toHaveBeenCalledTimes(1);
+            expect(mockFlowerService.getFlowerStats).toHaveBeenCalledWith('g', 0.2, 35, 640, 2);
+            expect(updates.map(u => u.flowerId)).toEqual(['f1', 'f2']);
+            expect(updates[0]).toMatchObject({ genome: 'g', stats: { maxHealth: 60, maxStamina: 40, nutrientEfficiency: 1.1, toxicityRate: 0.1 } });
+        });
+
+        it('should leave out flowers whose stats cannot be worked out', async () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            vi.mocked(mockFlowerService.getFlowerStats).mockRejectedValueOnce(new Error('bad genome'));
+            const updates = await reevaluateFlowerStats(mockFlowerService, {
+                batchId: 'b', temperature: 20, humidity: 0.5,
+                flowers: [{ flowerId: 'f1', genome: 'bad' }, { flowerId: 'f2', genome: 'good' }],
+            });
+
+            expect(updates.map(u => u.flowerId)).toEqual(['f2']);
+        });
     });
 
     describe('createInitialMobileActors', () => {
@@ -89,7 +130,7 @@ describe('simulationInitializer', () => {
             expect(birds.length).toBe(2);
 
             const firstInsect = insects[0];
-            const baseStats = INSECT_DATA.get(firstInsect.emoji)!;
+            const baseStats = speciesRegistry.getStats(firstInsect.emoji)!;
             expect(firstInsect.health).toBe(baseStats.maxHealth);
             expect(firstInsect.stamina).toBe(baseStats.maxStamina);
             expect(firstInsect.genome).toBeInstanceOf(Array);
@@ -1,6 +1,9 @@
-import type { SimulationParams, CellContent, Flower, FEService, FlowerGenomeStats, Insect, Hive, AntColony } from '../types';
-import { getInsectEmoji, generateRandomInsectGenome, ACTOR_NAMES } from '../utils';
-import { INSECT_DATA } from '../constants';
+import type { SimulationParams, CellContent, Flower, FEService, FlowerGenomeStats, Insect, Hive, AntColony, SpeciesDefinition, TerrainSite, FlowerPlasticStats, FlowerReevaluationRequest, FlowerStatsUpdate } from '../types';
+import { getInsectEmoji, generateRandomInsectGenome } from '../utils';
+import { random } from './random';
+import { speciesRegistry } from './speciesRegistry';
+import type { FlowerGenomeCache } from './flowerGenomeCache';
+import { TerrainMap } from './terrain';
 
 // Fallback values
 const FALLBACK_MAX_HEALTH = 100;
@@ -8,9 +11,20 @@ const FALLBACK_MAX_STAMINA = 100;
 const FALLBACK_MATURATION_AGE = 50;
 const FALLBACK_NUTRIENT_EFFICIENCY = 1.0;
 
+// The stats a flower takes from its genome's stats that shift with the weather.
+const plasticStatsFrom = (stats: FlowerGenomeStats): FlowerPlasticStats => ({
+    maxHealth: stats.health || FALLBACK_MAX_HEALTH,
+    maxStamina: stats.stamina || FALLBACK_MAX_STAMINA,
+    nutrientEfficiency: 1.0 + ((stats.effects?.vitality || 0) / 100) || FALLBACK_NUTRIENT_EFFICIENCY,
+    toxicityRate: stats.toxicityRate,
+    effects: stats.effects,
+});
+
 /**
  * This function encapsulates the logic for creating a new flower actor.
  * It is now executed exclusively within the flower.worker.ts context.
+ * Its stats are worked out for the terrain `site` it grows on, or level loam without one.
+ * With a `cache`, stats and images of genomes seen before are reused rather than worked out again.
  */
 export const createNewFlower = async (
     flowerService: FEService, 
@@ -18,19 +32,32 @@ export const createNewFlower = async (
     x: number, y: number, 
     genome?: string, parentGenome2?: string,
     flowerId?: string,
+    exactGenome?: string,
+    site: TerrainSite = { altitude: 0, terrainType: 0 },
+    cache?: FlowerGenomeCache,
 ): Promise<Flower | null> => {
     try {
         let newFlowerData: { genome: string; image: string };
-        const { humidity, temperature } = params;
+        const { humidity, temperature, flowerDetailRadius } = params;
 
-        if (genome && parentGenome2) newFlowerData = await flowerService.reproduce(genome, parentGenome2);
-        else if (genome) newFlowerData = await flowerService.mutate(genome);
-        else newFlowerData = await flowerService.makeFlower();
+        if (exactGenome && cache) {
+            const image = await cache.getImage(exactGenome, flowerDetailRadius, async () => (await flowerService.drawFlower(exactGenome)).image);
+            newFlowerData = { genome: exactGenome, image };
+        } else {
+            if (exactGenome) newFlowerData = await flowerService.drawFlower(exactGenome);
+            else if (genome && parentGenome2) newFlowerData = await flowerService.reproduce(genome, parentGenome2);
+            else if (genome) newFlowerData = await flowerService.mutate(genome);
+            else newFlowerData = await flowerService.makeFlower();
+            cache?.rememberImage(newFlowerData.genome, flowerDetailRadius, newFlowerData.image);
+        }
 
-        const stats: FlowerGenomeStats = await flowerService.getFlowerStats(newFlowerData.genome, humidity, temperature);
-        const maxHealth = stats.health || FALLBACK_MAX_HEALTH;
-        const maxStamina = stats.stamina || FALLBACK_MAX_STAMINA;
-        const nutrientEfficiency = 1.0 + ((stats.effects?.vitality || 0) / 100) || FALLBACK_NUTRIENT_EFFICIENCY;
+        const { genome: newGenome } = newFlowerData;
+        const { altitude, terrainType } = site;
+        const computeStats = () => flowerService.getFlowerStats(newGenome, humidity, temperature, altitude, terrainType);
+        const stats: FlowerGenomeStats = cache
+            ? await cache.getStats(newGenome, { humidity, temperature, altitude, terrainType }, computeStats)
+            : await computeStats();
+        const { maxHealth, maxStamina, nutrientEfficiency } = plasticStatsFrom(stats);
         const maturationPeriod = stats.maturationPeriod || FALLBACK_MATURATION_AGE;
         const id = flowerId || `flower-${x}-${y}-${Date.now()}`;
 
@@ -47,6 +74,39 @@ export const createNewFlower = async (
     }
 };
 
+/**
+ * Works out the stats of living flowers again for the weather in the request. Each genome is
+ * only worked out once per site, and flowers whose stats cannot be worked out are left out.
+ */
+export const reevaluateFlowerStats = async (
+    flowerService: FEService,
+    request: FlowerReevaluationRequest,
+    cache?: FlowerGenomeCache,
+): Promise<FlowerStatsUpdate[]> => {
+    const { humidity, temperature } = request;
+    const updates: FlowerStatsUpdate[] = [];
+    const statsByConditions = new Map<string, FlowerPlasticStats | null>();
+    for (const { flowerId, genome, site = { altitude: 0, terrainType: 0 } } of request.flowers) {
+        const { altitude, terrainType } = site;
+        const key = `${genome}|${altitude}|${terrainType}`;
+        if (!statsByConditions.has(key)) {
+            try {
+                const computeStats = () => flowerService.getFlowerStats(genome, humidity, temperature, altitude, terrainType);
+                const stats = cache
+                    ? await cache.getStats(genome, { humidity, temperature, altitude, terrainType }, computeStats)
+                    : await computeStats();
+                statsByConditions.set(key, plasticStatsFrom(stats));
+            } catch (error) {
+                console.error("Flower Worker: Failed to reevaluate flower stats:", error);
+                statsByConditions.set(key, null);
+            }
+        }
+        const stats = statsByConditions.get(key);
+        if (stats) updates.push({ flowerId, genome, stats });
+    }
+    return updates;
+};
+
 /**
  * Creates the initial set of mobile actors (insects, birds) with placeholder coordinates.
  * The actual placement is handled by the simulation worker.
@@ -57,14 +117,14 @@ export const createInitialMobileActors = (params: SimulationParams): CellContent
 
     for (let i = 0; i < initialInsects; i++) {
         const id = `insect-init-${i}`;
-        // Exclude social insects from random initial spawn and respect the whitelist
-        const emoji = getInsectEmoji(id, { allowed: allowedActors, exclude: ['🐝', '🐜', '🕷️'] });
+        // Only species that spawn at random (not from a nest or territory), respecting the whitelist
+        const emoji = getInsectEmoji(id, { allowed: allowedActors, spawn: 'random' });
         
         if (emoji) {
-            const baseStats = INSECT_DATA.get(emoji);
+            const baseStats = speciesRegistry.getStats(emoji);
             if (baseStats) {
-                const typeName = (ACTOR_NAMES[emoji] || 'insect').toLowerCase();
-                const id = `insect-${typeName}-${-1}-${-1}-${Date.now() + i}`;
+                const typeName = speciesRegistry.getIdName(emoji);
+                const id = `insect-${typeName}-init-${i}`;
                 const newInsect: Insect = { 
                     id, type: 'insect', x: -1, y: -1, 
                     pollen: null, emoji, 
@@ -90,14 +150,15 @@ export const createInitialMobileActors = (params: SimulationParams): CellContent
 export const initializeHivesAndBees = (actors: CellContent[], params: SimulationParams) => {
     const { gridWidth, gridHeight, hiveGridArea, hiveSpawnThreshold, hiveSpawnCost } = params;
     const hives: Hive[] = [];
-    const bees = actors.filter(a => a.type === 'insect' && (a as Insect).emoji === '🐝') as Insect[];
+    const beeEmoji = speciesRegistry.getNestSpecies('hive')?.emoji;
+    const bees = actors.filter(a => a.type === 'insect' && (a as Insect).emoji === beeEmoji) as Insect[];
 
     let hiveCounter = 1;
 
     for (let y = 0; y < gridHeight; y += hiveGridArea) {
         for (let x = 0; x < gridWidth; x += hiveGridArea) {
-            const hiveX = x + Math.floor(Math.random() * hiveGridArea);
-            const hiveY = y + Math.floor(Math.random() * hiveGridArea);
+            const hiveX = x + Math.floor(random() * hiveGridArea);
+            const hiveY = y + Math.floor(random() * hiveGridArea);
 
             if (hiveX < gridWidth && hiveY < gridHeight) {
                 const hiveId = `hive-${hiveCounter}`;
@@ -140,15 +201,16 @@ export const initializeHivesAndBees = (actors: CellContent[], params: Simulation
 export const initializeAntColonies = (actors: CellContent[], params: SimulationParams) => {
     const { gridWidth, gridHeight, colonyGridArea, antColonySpawnThreshold, antColonySpawnCost } = params;
     const colonies: AntColony[] = [];
-    const ants = actors.filter(a => a.type === 'insect' && (a as Insect).emoji === '🐜') as Insect[];
+    const antEmoji = speciesRegistry.getNestSpecies('colony')?.emoji;
+    const ants = actors.filter(a => a.type === 'insect' && (a as Insect).emoji === antEmoji) as Insect[];
 
     let colonyCounter = 1;
 
     // Create colonies on a grid, similar to hives
     for (let y = 0; y < gridHeight; y += colonyGridArea) {
         for (let x = 0; x < gridWidth; x += colonyGridArea) {
-            const colonyX = x + Math.floor(Math.random() * colonyGridArea);
-            const colonyY = y + Math.floor(Math.random() * colonyGridArea);
+            const colonyX = x + Math.floor(random() * colonyGridArea);
+            const colonyY = y + Math.floor(random() * colonyGridArea);
 
             if (colonyX < gridWidth && colonyY < gridHeight) {
                 const colonyId = `colony-${colonyCounter}`;
@@ -187,26 +249,88 @@ export const initializeAntColonies = (actors: CellContent[], params: SimulationP
     });
 };
 
-export const initializeSpiders = (actors: CellContent[], params: SimulationParams) => {
+/**
+ * Places one individual of a territorial species (e.g. spiders) at a random cell
+ * in every `spiderGridArea` square of the grid.
+ */
+export const initializeTerritorialSpecies = (actors: CellContent[], params: SimulationParams, species: SpeciesDefinition) => {
     const { gridWidth, gridHeight, spiderGridArea } = params;
-    const baseStats = INSECT_DATA.get('🕷️')!;
+    const { emoji, stats } = species;
+    const typeName = speciesRegistry.getIdName(emoji);
 
     for (let y = 0; y < gridHeight; y += spiderGridArea) {
         for (let x = 0; x < gridWidth; x += spiderGridArea) {
-            const spiderX = x + Math.floor(Math.random() * spiderGridArea);
-            const spiderY = y + Math.floor(Math.random() * spiderGridArea);
-
-            if (spiderX < gridWidth && spiderY < gridHeight) {
-                const id = `insect-spider-${spiderX}-${spiderY}-${Date.now()}`;
-                const newSpider: Insect = {
-                    id, type: 'insect', x: spiderX, y: spiderY,
-                    pollen: null, emoji: '🕷️',
+            const insectX = x + Math.floor(random() * spiderGridArea);
+            const insectY = y + Math.floor(random() * spiderGridArea);
+
+            if (insectX < gridWidth && insectY < gridHeight) {
+                const id = `insect-${typeName}-${insectX}-${insectY}`;
+                const newInsect: Insect = {
+                    id, type: 'insect', x: insectX, y: insectY,
+                    pollen: null, emoji,
                     genome: generateRandomInsectGenome(),
-                    health: baseStats.maxHealth, maxHealth: baseStats.maxHealth,
-                    stamina: baseStats.maxStamina, maxStamina: baseStats.maxStamina
+                    health: stats.maxHealth, maxHealth: stats.maxHealth,
+                    stamina: stats.maxStamina, maxStamina: stats.maxStamina
                 };
-                actors.push(newSpider);
+                actors.push(newInsect);
             }
         }
     }
-};
\ No newline at end of file
+};
+/**
+ * Builds the starting population for a new simulation: flowers on unique cells,
+ * mobile actors scattered at random, and the hives, colonies and territorial species the
+ * whitelist allows. Shared by the simulation worker and the headless runner.
+ * Flowers are bred for the `terrain` of the cell they are placed on.
+ */
+export const createInitialWorld = async (flowerService: FEService, params: SimulationParams, terrain: TerrainMap = TerrainMap.flat(params.gridWidth, params.gridHeight)): Promise<CellContent[]> => {
+    const initialMobileActors = createInitialMobileActors(params);
+    
+    // Get all possible grid coordinates
+    const allCoords: { x: number; y: number }[] = [];
+    for (let y = 0; y < params.gridHeight; y++) {
+        for (let x = 0; x < params.gridWidth; x++) {
+            allCoords.push({ x, y });
+        }
+    }
+    
+    // Shuffle coordinates to randomize placement
+    for (let i = allCoords.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [allCoords[i], allCoords[j]] = [allCoords[j], allCoords[i]];
+    }
+
+    // Give each flower a unique cell, truncating if necessary
+    if (params.initialFlowers > allCoords.length) {
+        console.warn(`Attempting to spawn ${params.initialFlowers} flowers on a ${allCoords.length}-cell grid. Capping at grid size.`);
+    }
+    const flowerPromises = allCoords.slice(0, params.initialFlowers).map(({ x, y }, i) =>
+        createNewFlower(flowerService, params, x, y, undefined, undefined, `flower-init-${i}`, undefined, terrain.siteAt(x, y))
+    );
+    const initialFlowers = (await Promise.all(flowerPromises)).filter((f): f is Flower => f !== null);
+
+    // Assign random coordinates to mobile actors (can overlap)
+    initialMobileActors.forEach(actor => {
+        actor.x = Math.floor(random() * params.gridWidth);
+        actor.y = Math.floor(random() * params.gridHeight);
+    });
+    
+    const allActors = [...initialFlowers, ...initialMobileActors];
+    
+    const isAllowed = (species: SpeciesDefinition | undefined): species is SpeciesDefinition =>
+        !!species && params.allowedActors.includes(species.emoji);
+
+    if (isAllowed(speciesRegistry.getNestSpecies('hive'))) {
+        initializeHivesAndBees(allActors, params);
+    }
+    if (isAllowed(speciesRegistry.getNestSpecies('colony'))) {
+        initializeAntColonies(allActors, params);
+    }
+    for (const species of speciesRegistry.getAll()) {
+        if (species.spawn === 'territorial' && isAllowed(species)) {
+            initializeTerritorialSpecies(allActors, params, species);
+        }
+    }
+
+    return allActors;
+};
@@ -1,11 +1,22 @@
 import { describe, it, expect } from 'vitest';
-import { findEmptyCell, findCellForFlowerSpawn, findCellForStationaryActor } from './simulationUtils';
-import type { Grid, CellContent } from '../types';
+import { buildGrid, findEmptyCell, findCellForFlowerSpawn, findCellForStationaryActor, combineDeltas, applyPlasticStats } from './simulationUtils';
+import type { Grid, CellContent, Nutrient, Flower } from '../types';
 import { DEFAULT_SIM_PARAMS } from '../constants';
 
 describe('simulationUtils', () => {
     const params = { ...DEFAULT_SIM_PARAMS, gridWidth: 3, gridHeight: 3 };
 
+    describe('buildGrid', () => {
+        it('should place actors in their cells and skip those out of bounds', () => {
+            const a = { id: 'a', x: 2, y: 1 } as CellContent;
+            const b = { id: 'b', x: 2, y: 1 } as CellContent;
+            const outside = { id: 'c', x: 3, y: 0 } as CellContent;
+            const grid = buildGrid([a, outside, b], params);
+            expect(grid[1][2]).toEqual([a, b]);
+            expect(grid.flat(2)).toHaveLength(2);
+        });
+    });
+
     describe('findEmptyCell', () => {
         it('should find an empty neighbor', () => {
             const grid: Grid = [
@@ -49,4 +60,66 @@ describe('simulationUtils', () => {
             expect(result).not.toBeNull();
         });
     });
+
+    describe('combineDeltas', () => {
+        const nutrient = (id: string, lifespan: number): Nutrient => ({ id, type: 'nutrient', x: 0, y: 0, lifespan });
+
+        it('should merge consecutive updates to the same actor', () => {
+            const result = combineDeltas([
+                [{ type: 'update', id: 'n1', changes: { lifespan: 9 } }],
+                [{ type: 'update', id: 'n1', changes: { x: 2 } }],
+                [{ type: 'update', id: 'n1', changes: { lifespan: 8 } }],
+            ]);
+            expect(result).toEqual([{ type: 'update', id: 'n1', changes: { lifespan: 8, x: 2 } }]);
+        });
+
+        it('should fold updates into an actor added during the run', () => {
+            const result = combineDeltas([
+                [{ type: 'add', actor: nutrient('n1', 10) }],
+                [{ type: 'update', id: 'n1', changes: { lifespan: 9 } }],
+            ]);
+            expect(result).toEqual([{ type: 'add', actor: nutrient('n1', 9) }]);
+        });
+
+        it('should drop actors that were both added and removed during the run', () => {
+            const result = combineDeltas([
+                [{ type: 'add', actor: nutrient('n1', 10) }],
+                [{ type: 'remove', id: 'n1' }],
+            ]);
+            expect(result).toEqual([]);
+        });
+
+        it('should keep removals of pre-existing actors and re-adds of the same id', () => {
+            const result = combineDeltas([
+                [{ type: 'update', id: 'n1', changes: { lifespan: 1 } }, { type: 'remove', id: 'n2' }],
+                [{ type: 'remove', id: 'n1' }, { type: 'add', actor: nutrient('n2', 5) }],
+            ]);
+            expect(result).toEqual([
+                { type: 'remove', id: 'n1' },
+                { type: 'add', actor: nutrient('n2', 5) },
+            ]);
+        });
+    });
+
+    describe('applyPlasticStats', () => {
+        const effects = { vitality: 10, agility: 5, strength: 5, intelligence: 5, luck: 5 };
+        const grown = { maxHealth: 100, maxStamina: 50, nutrientEfficiency: 1.1, toxicityRate: 0.1, effects };
+
+        it('should keep the stats a flower grew with and scale its health and stamina to the new maximums', () => {
+            const flower = { ...grown, health: 50, stamina: 50 } as Flower;
+            const stats = { maxHealth: 80, maxStamina: 40, nutrientEfficiency: 1.05, toxicityRate: 0.3, effects: { ...effects, vitality: 5 } };
+            applyPlasticStats(flower, stats);
+
+            expect(flower).toMatchObject({ ...stats, health: 40, stamina: 40, baseStats: grown });
+        });
+
+        it('should not overwrite the stats a flower grew with when they change again', () => {
+            const flower = { ...grown, health: 100, stamina: 50 } as Flower;
+            applyPlasticStats(flower, { ...grown, maxHealth: 80 });
+            applyPlasticStats(flower, { ...grown, maxHealth: 120 });
+
+            expect(flower.baseStats).toEqual(grown);
+            expect(flower.health).toBe(120);
+        });
+    });
 });
@@ -1,6 +1,6 @@
-import type { Coord, Grid, SimulationParams, CellContent, WindDirection, Insect, Bird, PopulationTrend, Flower, Cockroach } from '../types';
+import type { Coord, Grid, SimulationParams, CellContent, WindDirection, Insect, Bird, PopulationTrend, Flower, Cockroach, ActorDelta, FlowerPlasticStats } from '../types';
 import { POPULATION_TREND_WINDOW, FLOWER_STAT_INDICES, FLOWER_SPAWN_SEARCH_RADIUS } from '../constants';
-import { Quadtree, Rectangle } from './Quadtree';
+import { random } from './random';
 
 export const windVectors: Record<WindDirection, {dx: number, dy: number}> = {
     'N': {dx: 0, dy: -1}, 'NE': {dx: 1, dy: -1}, 'E': {dx: 1, dy: 0}, 'SE': {dx: 1, dy: 1},
@@ -8,31 +8,12 @@ export const windVectors: Record<WindDirection, {dx: number, dy: number}> = {
 };
 export const neighborVectors = [[-1,-1],[-1,0],[-1,1],[0,-1],[0,1],[1,-1],[1,0],[1,1]];
 
-export const getActorsOnCell = (qtree: Quadtree<CellContent>, nextActorState: Map<string, CellContent>, x: number, y: number): CellContent[] => {
-    const range = new Rectangle(x + 0.5, y + 0.5, 0.5, 0.5); // Center on cell
-    const foundActors: CellContent[] = [];
-    const points = qtree.query(range);
-
-    for (const p of points) {
-        if (p.data) {
-            const actor = nextActorState.get(p.data.id);
-            // The qtree can contain actors that have been removed in the current tick.
-            // Also, the query can be imprecise, so double-check coordinates.
-            if (actor && actor.x === x && actor.y === y) {
-                foundActors.push(actor);
-            }
-        }
-    }
-    return foundActors;
-};
-
-
 export const findEmptyCell = (grid: Grid, params: SimulationParams, origin?: Coord): Coord | null => {
     if(origin) {
         const emptyNeighbors = neighborVectors
             .map(([dx, dy]) => ({ x: origin.x + dx, y: origin.y + dy }))
             .filter(p => p.x >= 0 && p.x < params.gridWidth && p.y >= 0 && p.y < params.gridHeight && grid[p.y][p.x].length === 0)
-            .sort(() => 0.5 - Math.random());
+            .sort(() => 0.5 - random());
         if (emptyNeighbors.length > 0) return emptyNeighbors[0];
     }
     
@@ -46,7 +27,7 @@ export const findEmptyCell = (grid: Grid, params: SimulationParams, origin?: Coo
         }
     }
     if (emptyCells.length === 0) return null;
-    return emptyCells[Math.floor(Math.random() * emptyCells.length)];
+    return emptyCells[Math.floor(random() * emptyCells.length)];
 };
 
 export const findCellForFlowerSpawn = (grid: Grid, params: SimulationParams, origin?: Coord, claimedCells?: Set<string>): Coord | null => {
@@ -87,7 +68,7 @@ export const findCellForFlowerSpawn = (grid: Grid, params: SimulationParams, ori
 
     // Shuffle for randomness to prevent directional bias
     for (let i = potentialCoords.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
+        const j = Math.floor(random() * (i + 1));
         [potentialCoords[i], potentialCoords[j]] = [potentialCoords[j], potentialCoords[i]];
     }
     
@@ -115,7 +96,7 @@ export const findCellForStationaryActor = (grid: Grid, params: SimulationParams,
                 p.y >= 0 && p.y < params.gridHeight && 
                 isSuitable(grid[p.y][p.x], p.x, p.y)
             )
-            .sort(() => 0.5 - Math.random());
+            .sort(() => 0.5 - random());
         if (validNeighbors.length > 0) return validNeighbors[0];
     }
 
@@ -128,7 +109,7 @@ export const findCellForStationaryActor = (grid: Grid, params: SimulationParams,
         }
     }
     if (validCells.length === 0) return null;
-    return validCells[Math.floor(Math.random() * validCells.length)];
+    return validCells[Math.floor(random() * validCells.length)];
 };
 
 /**
@@ -191,19 +172,15 @@ export const calculatePopulationTrend = (history: number[], growthThreshold: num
     return 'stable';
 };
 
-export const buildQuadtrees = (actors: CellContent[], params: { gridWidth: number, gridHeight: number }): { qtree: Quadtree<CellContent>, flowerQtree: Quadtree<CellContent> } => {
+export const buildGrid = (actors: Iterable<CellContent>, params: { gridWidth: number, gridHeight: number }): Grid => {
     const { gridWidth, gridHeight } = params;
-    const boundary = new Rectangle(gridWidth / 2, gridHeight / 2, gridWidth / 2, gridHeight / 2);
-    const qtree = new Quadtree<CellContent>(boundary, 4);
-    const flowerQtree = new Quadtree<CellContent>(boundary, 4);
-    
+    const grid: Grid = Array.from({ length: gridHeight }, () => Array.from({ length: gridWidth }, () => []));
     for (const actor of actors) {
-        qtree.insert({ x: actor.x, y: actor.y, data: actor });
-        if (actor.type === 'flower') {
-            flowerQtree.insert({ x: actor.x, y: actor.y, data: actor });
+        if (actor.x >= 0 && actor.x < gridWidth && actor.y >= 0 && actor.y < gridHeight) {
+            grid[actor.y][actor.x].push(actor);
         }
     }
-    return { qtree, flowerQtree };
+    return grid;
 };
 
 export const scoreFlower = (insect: Insect | Cockroach, flower: Flower): number => {
@@ -224,3 +201,65 @@ export const scoreFlower = (insect: Insect | Cockroach, flower: Flower): number
 
     return score;
 };
+
+/**
+ * Gives a living flower the stats its genome now has, keeping the ones it grew with the first
+ * time they change. Health and stamina keep the same share of their new maximums.
+ */
+export const applyPlasticStats = (flower: Flower, stats: FlowerPlasticStats): void => {
+    flower.baseStats ??= {
+        maxHealth: flower.maxHealth,
+        maxStamina: flower.maxStamina,
+        nutrientEfficiency: flower.nutrientEfficiency,
+        toxicityRate: flower.toxicityRate,
+        effects: flower.effects,
+    };
+    flower.health *= stats.maxHealth / flower.maxHealth;
+    flower.stamina *= stats.maxStamina / flower.maxStamina;
+    flower.maxHealth = stats.maxHealth;
+    flower.maxStamina = stats.maxStamina;
+    flower.nutrientEfficiency = stats.nutrientEfficiency;
+    flower.toxicityRate = stats.toxicityRate;
+    flower.effects = stats.effects;
+};
+
+/**
+ * Collapses the deltas of several consecutive ticks into one list with the same net effect,
+ * so a client applying it ends up where it would be after applying each tick in turn.
+ */
+export const combineDeltas = (deltaLists: ActorDelta[][]): ActorDelta[] => {
+    // Net change per actor id, in first-seen order. `delta` is null when nothing needs sending.
+    const combined = new Map<string, { existedBefore: boolean; delta: ActorDelta | null }>();
+
+    for (const deltas of deltaLists) {
+        for (const delta of deltas) {
+            const id = delta.type === 'add' ? delta.actor.id : delta.id;
+            const entry = combined.get(id) ?? { existedBefore: delta.type !== 'add', delta: null };
+            const previous = entry.delta;
+
+            switch (delta.type) {
+                case 'add':
+                    entry.delta = delta;
+                    break;
+                case 'remove':
+                    // An actor that was both born and removed during the run is never sent.
+                    entry.delta = entry.existedBefore ? delta : null;
+                    break;
+                case 'update':
+                    if (previous?.type === 'add') {
+                        entry.delta = { type: 'add', actor: { ...previous.actor, ...delta.changes } as CellContent };
+                    } else if (previous?.type === 'update') {
+                        entry.delta = { type: 'update', id, changes: { ...previous.changes, ...delta.changes } as Partial<CellContent> };
+                    } else {
+                        entry.delta = delta;
+                    }
+                    break;
+            }
+            combined.set(id, entry);
+        }
+    }
+
+    return Array.from(combined.values())
+        .map(entry => entry.delta)
+        .filter((delta): delta is ActorDelta => delta !== null);
+};
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { SoilMoistureMap, frameMoistureAt } from './soilMoisture';
+import { TerrainMap } from './terrain';
+import { SOIL_MOISTURE_DROUGHT_LOSS, SOIL_MOISTURE_RAIN_GAIN, STREAM_MAX_LENGTH } from '../constants';
+
+const waterCells = (soil: SoilMoistureMap) => {
+    const { width, water } = soil.toData();
+    return water.flatMap((cell, i) => cell ? [[i % width, Math.floor(i / width)]] : []);
+};
+
+describe('SoilMoistureMap', () => {
+    it('should soak up heavy rain and dry out in a drought', () => {
+        const soil = SoilMoistureMap.uniform(3, 3, 0.5);
+        soil.update('heavyrain', 0.5);
+        expect(soil.moistureAt(1, 1)).toBeCloseTo(0.5 + SOIL_MOISTURE_RAIN_GAIN);
+
+        const dry = SoilMoistureMap.uniform(3, 3, 0.5);
+        dry.update('drought', 0.5);
+        expect(dry.moistureAt(1, 1)).toBeCloseTo(0.5 - SOIL_MOISTURE_DROUGHT_LOSS);
+    });
+
+    it('should drift towards the humidity of the air', () => {
+        const soil = SoilMoistureMap.uniform(2, 2, 0.2);
+        for (let i = 0; i < 500; i++) soil.update('none', 0.8);
+        expect(soil.moistureAt(0, 0)).toBeCloseTo(0.8, 2);
+    });
+
+    it('should keep ponds saturated and spread their water to the ground around them', () => {
+        const soil = SoilMoistureMap.uniform(9, 1, 0.2);
+        expect(soil.addPond(0, 0)).toBe(2);
+        for (let i = 0; i < 20; i++) soil.update('none', 0.2);
+
+        expect(soil.isWater(0, 0)).toBe(true);
+        expect(soil.moistureAt(1, 0)).toBe(1);
+        expect(soil.moistureAt(2, 0)).toBeGreaterThan(soil.moistureAt(4, 0));
+        expect(soil.moistureAt(4, 0)).toBeGreaterThan(soil.moistureAt(8, 0));
+    });
+
+    it('should run a stream down the steepest slope until it cannot go downhill', () => {
+        // A valley running down from the top-left corner, with higher ground on either side.
+        const terrain = TerrainMap.fromData({
+            width: 3, height: 3,
+            altitude: [
+                500, 400, 900,
+                900, 300, 900,
+                900, 200, 250,
+            ],
+            types: new Array(9).fill(0),
+        });
+        const soil = SoilMoistureMap.uniform(3, 3, 0.5);
+
+        expect(soil.addStream(0, 0, terrain)).toBe(4);
+        expect(waterCells(soil)).toEqual([[0, 0], [1, 0], [1, 1], [1, 2]]);
+    });
+
+    it('should run a stream straight across level ground, up to its maximum length', () => {
+        const soil = SoilMoistureMap.uniform(STREAM_MAX_LENGTH + 5, 3, 0.5);
+        soil.addStream(0, 1, TerrainMap.flat(STREAM_MAX_LENGTH + 5, 3));
+
+        const cells = waterCells(soil);
+        expect(cells.length).toBe(STREAM_MAX_LENGTH);
+        expect(cells.every(([, y]) => y === 1)).toBe(true);
+    });
+
+    it('should make flowers spend more stamina on dry or waterlogged ground', () => {
+        expect(SoilMoistureMap.uniform(1, 1, 0.5).staminaFactorAt(0, 0)).toBe(1);
+        expect(SoilMoistureMap.uniform(1, 1, 0).staminaFactorAt(0, 0)).toBe(2);
+        expect(SoilMoistureMap.uniform(1, 1, 1).staminaFactorAt(0, 0)).toBeCloseTo(1.5);
+    });
+
+    it('should restore a snapshot and survive a round trip through its plain data', () => {
+        const soil = SoilMoistureMap.uniform(4, 4, 0.3);
+        soil.addPond(1, 1);
+        const snapshot = soil.getSnapshot();
+        const data = soil.toData();
+
+        soil.update('drought', 0);
+        soil.restoreSnapshot(snapshot);
+        expect(soil.toData()).toEqual(data);
+        expect(SoilMoistureMap.fromData(data).toData()).toEqual(data);
+    });
+
+    it('should scale moisture to bytes for the UI', () => {
+        const soil = SoilMoistureMap.uniform(4, 1, 0.5);
+        soil.addPond(0, 0);
+        const frame = soil.toFrame();
+
+        expect(frameMoistureAt(frame, 3, 0)).toBeCloseTo(0.5, 2);
+        expect(frameMoistureAt(frame, 0, 0)).toBe(1);
+        expect(frameMoistureAt(frame, 4, 0)).toBeUndefined();
+        expect(frameMoistureAt(null, 0, 0)).toBeUndefined();
+    });
+});
@@ -0,0 +1,187 @@
+import type { SoilMoistureData, SoilMoistureFrame, WeatherEventType } from '../types';
+import {
+    POND_RADIUS,
+    SOIL_MOISTURE_DIFFUSION,
+    SOIL_MOISTURE_DROUGHT_LOSS,
+    SOIL_MOISTURE_DRY,
+    SOIL_MOISTURE_RAIN_GAIN,
+    SOIL_MOISTURE_RELAXATION,
+    SOIL_MOISTURE_WATERLOGGED,
+    STREAM_MAX_LENGTH,
+} from '../constants';
+import type { TerrainMap } from './terrain';
+
+const ORTHOGONAL = [[1, 0], [0, 1], [-1, 0], [0, -1]];
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// The moisture and water of every cell, as kept in the tick history.
+export interface SoilMoistureSnapshot {
+    moisture: Float32Array;
+    water: Uint8Array;
+}
+
+/** The moisture of a cell in a frame sent to the UI, or undefined outside it. */
+export const frameMoistureAt = (frame: SoilMoistureFrame | null, x: number, y: number): number | undefined => {
+    if (!frame || x < 0 || x >= frame.width || y < 0 || y >= frame.height) return undefined;
+    return frame.moisture[y * frame.width + x] / 255;
+};
+
+/**
+ * How wet the ground of every cell is. Moisture seeps between neighbouring cells and drifts
+ * towards the humidity of the air; heavy rain soaks the whole garden and drought dries it out.
+ * Cells under a pond or stream stay saturated and keep the ground around them moist.
+ *
+ * Flowers on dry or waterlogged ground spend more stamina than those on moist soil.
+ */
+export class SoilMoistureMap {
+    readonly width: number;
+    readonly height: number;
+    private moisture: Float32Array;
+    private water: Uint8Array;
+
+    private constructor(width: number, height: number, moisture: Float32Array, water: Uint8Array) {
+        this.width = width;
+        this.height = height;
+        this.moisture = moisture;
+        this.water = water;
+    }
+
+    /** Ground equally moist everywhere, with no water. */
+    static uniform(width: number, height: number, level: number): SoilMoistureMap {
+        return new SoilMoistureMap(width, height, new Float32Array(width * height).fill(clamp01(level)), new Uint8Array(width * height));
+    }
+
+    static fromData(data: SoilMoistureData): SoilMoistureMap {
+        return new SoilMoistureMap(data.width, data.height, Float32Array.from(data.moisture), Uint8Array.from(data.water));
+    }
+
+    public toData(): SoilMoistureData {
+        return { width: this.width, height: this.height, moisture: Array.from(this.moisture), water: Array.from(this.water) };
+    }
+
+    /** The moisture of every cell scaled to bytes, in buffers that can be transferred to the UI. */
+    public toFrame(): SoilMoistureFrame {
+        return {
+            width: this.width,
+            height: this.height,
+            moisture: Uint8Array.from(this.moisture, value => Math.round(value * 255)),
+            water: this.water.slice(),
+        };
+    }
+
+    public getSnapshot(): SoilMoistureSnapshot {
+        return { moisture: this.moisture.slice(), water: this.water.slice() };
+    }
+
+    public restoreSnapshot(snapshot: SoilMoistureSnapshot) {
+        this.moisture = snapshot.moisture.slice();
+        this.water = snapshot.water.slice();
+    }
+
+    public moistureAt(x: number, y: number): number {
+        const index = this.indexOf(x, y);
+        return index === -1 ? 0 : this.moisture[index];
+    }
+
+    public isWater(x: number, y: number): boolean {
+        const index = this.indexOf(x, y);
+        return index !== -1 && this.water[index] === 1;
+    }
+
+    /**
+     * How much more stamina a flower spends on the cell than on moist soil: up to double on
+     * bone-dry ground, and up to half as much again on waterlogged ground.
+     */
+    public staminaFactorAt(x: number, y: number): number {
+        const moisture = this.moistureAt(x, y);
+        if (moisture < SOIL_MOISTURE_DRY) return 1 + (SOIL_MOISTURE_DRY - moisture) / SOIL_MOISTURE_DRY;
+        if (moisture > SOIL_MOISTURE_WATERLOGGED) return 1 + 0.5 * (moisture - SOIL_MOISTURE_WATERLOGGED) / (1 - SOIL_MOISTURE_WATERLOGGED);
+        return 1;
+    }
+
+    /** Fills the cells within `POND_RADIUS` of (x, y) with water. Returns the number of cells flooded. */
+    public addPond(x: number, y: number): number {
+        let flooded = 0;
+        for (let dy = -POND_RADIUS; dy <= POND_RADIUS; dy++) {
+            for (let dx = -POND_RADIUS; dx <= POND_RADIUS; dx++) {
+                if (Math.hypot(dx, dy) > POND_RADIUS + 0.5) continue;
+                if (this.flood(x + dx, y + dy)) flooded++;
+            }
+        }
+        return flooded;
+    }
+
+    /**
+     * Runs a stream from (x, y) down the steepest slope of the terrain. On level ground it keeps
+     * its course; it stops where every way on leads uphill, at the edge of the garden, or after
+     * `STREAM_MAX_LENGTH` cells. Returns the number of cells flooded.
+     */
+    public addStream(x: number, y: number, terrain: TerrainMap): number {
+        if (this.indexOf(x, y) === -1) return 0;
+        const course = new Set<number>();
+        let flooded = 0;
+        let direction = ORTHOGONAL[0];
+        for (let length = 0; length < STREAM_MAX_LENGTH; length++) {
+            if (this.flood(x, y)) flooded++;
+            course.add(this.indexOf(x, y));
+
+            const altitude = terrain.altitudeAt(x, y);
+            let next: { x: number; y: number; drop: number; direction: number[] } | null = null;
+            // Trying the current direction first keeps a stream on level ground running straight.
+            for (const [dx, dy] of [direction, ...ORTHOGONAL.filter(d => d !== direction)]) {
+                const index = this.indexOf(x + dx, y + dy);
+                if (index === -1 || course.has(index)) continue;
+                const drop = altitude - terrain.altitudeAt(x + dx, y + dy);
+                if (drop >= 0 && (!next || drop > next.drop)) next = { x: x + dx, y: y + dy, drop, direction: [dx, dy] };
+            }
+            if (!next) break;
+            ({ x, y, direction } = next);
+        }
+        return flooded;
+    }
+
+    /**
+     * Advances the moisture by one tick: it seeps between neighbours, drifts towards
+     * the air's humidity and follows the weather. Water keeps its cells saturated.
+     */
+    public update(weather: WeatherEventType, airHumidity: number) {
+        const { width, height, moisture, water } = this;
+        const weatherChange = weather === 'heavyrain' ? SOIL_MOISTURE_RAIN_GAIN : weather === 'drought' ? -SOIL_MOISTURE_DROUGHT_LOSS : 0;
+        const next = new Float32Array(width * height);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const index = y * width + x;
+                if (water[index]) {
+                    next[index] = 1;
+                    continue;
+                }
+                let total = 0, neighbours = 0;
+                for (const [dx, dy] of ORTHOGONAL) {
+                    const neighbour = this.indexOf(x + dx, y + dy);
+                    if (neighbour === -1) continue;
+                    total += moisture[neighbour];
+                    neighbours++;
+                }
+                let value = moisture[index];
+                if (neighbours > 0) value += (total / neighbours - value) * SOIL_MOISTURE_DIFFUSION;
+                value += (airHumidity - value) * SOIL_MOISTURE_RELAXATION + weatherChange;
+                next[index] = clamp01(value);
+            }
+        }
+        this.moisture = next;
+    }
+
+    private flood(x: number, y: number): boolean {
+        const index = this.indexOf(x, y);
+        if (index === -1 || this.water[index]) return false;
+        this.water[index] = 1;
+        this.moisture[index] = 1;
+        return true;
+    }
+
+    private indexOf(x: number, y: number): number {
+        if (x < 0 || x >= this.width || y < 0 || y >= this.height) return -1;
+        return Math.floor(y) * this.width + Math.floor(x);
+    }
+}
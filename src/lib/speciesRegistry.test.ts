@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SpeciesRegistry, speciesRegistry } from './speciesRegistry';
+import { BUILTIN_SPECIES, registerBuiltinSpecies } from './builtinSpecies';
+import { DefaultInsectBehavior } from './behaviors/specialized/DefaultInsectBehavior';
+import type { SpeciesDefinition } from '../types';
+
+const GLOWWORM: SpeciesDefinition = {
+    emoji: '🪱', name: 'Glow Worm', pluralName: 'Glow Worms',
+    stats: { role: 'balanced', attack: 1, maxHealth: 40, maxStamina: 30, speed: 1, eggHatchTime: 10, reproductionCost: 4 },
+    behavior: DefaultInsectBehavior, reproduction: 'direct', spawn: 'random',
+    spawnable: true, chartColor: '#a3e635',
+};
+
+describe('SpeciesRegistry', () => {
+    let registry: SpeciesRegistry;
+
+    beforeEach(() => {
+        registry = new SpeciesRegistry();
+    });
+
+    it('registers species and looks them up by emoji', () => {
+        registry.register(GLOWWORM);
+        expect(registry.has('🪱')).toBe(true);
+        expect(registry.get('🪱')).toBe(GLOWWORM);
+        expect(registry.getStats('🪱')).toBe(GLOWWORM.stats);
+        expect(registry.getStats('❓')).toBeUndefined();
+    });
+
+    it('rejects a second species with the same emoji', () => {
+        registry.register(GLOWWORM);
+        expect(() => registry.register({ ...GLOWWORM, name: 'Other' })).toThrow();
+    });
+
+    it('builds ID names from the display name', () => {
+        registry.register(GLOWWORM);
+        expect(registry.getIdName('🪱')).toBe('glowworm');
+        expect(registry.getIdName('❓')).toBe('insect');
+    });
+
+    it('registers the built-in species once, in order', () => {
+        registerBuiltinSpecies(registry);
+        registerBuiltinSpecies(registry);
+        expect(registry.getEmojis()).toEqual(BUILTIN_SPECIES.map(s => s.emoji));
+        expect(registry.getNestSpecies('hive')?.emoji).toBe('🐝');
+        expect(registry.getNestSpecies('colony')?.emoji).toBe('🐜');
+    });
+
+    it('is populated with the built-in species for the app', () => {
+        expect(speciesRegistry.get('🦋')?.offspringEmoji).toBe('🐛');
+        expect(speciesRegistry.getAll().filter(s => s.spawn === 'territorial').map(s => s.emoji)).toEqual(['🕷️']);
+    });
+});
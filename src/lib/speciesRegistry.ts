@@ -0,0 +1,55 @@
+import type { InsectStats, ReproductionMode, SpeciesDefinition } from '../types';
+
+/**
+ * Holds every insect species the simulation knows about, keyed by emoji. Behaviors, the
+ * engine and the UI all read species data from here, so adding a species is a single
+ * `register` call. The built-in species are registered by `registerBuiltinSpecies`.
+ */
+export class SpeciesRegistry {
+    private species = new Map<string, SpeciesDefinition>();
+
+    public register(definition: SpeciesDefinition) {
+        if (this.species.has(definition.emoji)) {
+            throw new Error(`A species is already registered for ${definition.emoji}.`);
+        }
+        this.species.set(definition.emoji, definition);
+    }
+
+    public unregister(emoji: string) {
+        this.species.delete(emoji);
+    }
+
+    public has(emoji: string): boolean {
+        return this.species.has(emoji);
+    }
+
+    public get(emoji: string): SpeciesDefinition | undefined {
+        return this.species.get(emoji);
+    }
+
+    /** All registered species, in registration order. */
+    public getAll(): SpeciesDefinition[] {
+        return Array.from(this.species.values());
+    }
+
+    public getEmojis(): string[] {
+        return Array.from(this.species.keys());
+    }
+
+    public getStats(emoji: string): InsectStats | undefined {
+        return this.species.get(emoji)?.stats;
+    }
+
+    /** The species a hive or colony spawns, if one is registered. */
+    public getNestSpecies(mode: Exclude<ReproductionMode, 'direct'>): SpeciesDefinition | undefined {
+        return this.getAll().find(s => s.reproduction === mode);
+    }
+
+    /** The species name as used in actor IDs, e.g. `insect-honeybee-3-4-12`. */
+    public getIdName(emoji: string): string {
+        const species = this.species.get(emoji);
+        return species ? species.name.toLowerCase().replace(/\s+/g, '') : 'insect';
+    }
+}
+
+export const speciesRegistry = new SpeciesRegistry();
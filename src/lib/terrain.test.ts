@@ -0,0 +1,54 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { TerrainMap } from './terrain';
+import { SeededRandom, setRandomSource } from './random';
+import { TERRAIN_MAX_ALTITUDE, TERRAIN_SPEED_FACTORS, TERRAIN_TYPES } from '../constants';
+
+const generateSeeded = (seed: number) => {
+    setRandomSource(new SeededRandom(seed));
+    return TerrainMap.generate(30, 20);
+};
+
+describe('TerrainMap', () => {
+    afterEach(() => {
+        setRandomSource(null);
+    });
+
+    it('should generate the same terrain for the same seed', () => {
+        expect(generateSeeded(42).toData()).toEqual(generateSeeded(42).toData());
+        expect(generateSeeded(42).toData()).not.toEqual(generateSeeded(43).toData());
+    });
+
+    it('should keep altitudes in range and make only the high ground rock', () => {
+        const { altitude, types } = generateSeeded(7).toData();
+        const rock = TERRAIN_TYPES.indexOf('rock');
+
+        expect(altitude.length).toBe(600);
+        altitude.forEach((value, i) => {
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThanOrEqual(TERRAIN_MAX_ALTITUDE);
+            if (types[i] === rock) expect(value).toBeGreaterThanOrEqual(TERRAIN_MAX_ALTITUDE * 0.8 - 1);
+        });
+    });
+
+    it('should describe each cell, with flat loam outside the map', () => {
+        const terrain = TerrainMap.fromData({ width: 2, height: 2, altitude: [0, 100, 200, 900], types: [0, 1, 2, 3] });
+
+        expect(terrain.typeAt(1, 0)).toBe('sand');
+        expect(terrain.altitudeAt(0, 1)).toBe(200);
+        expect(terrain.siteAt(1, 1)).toEqual({ altitude: 900, terrainType: 3 });
+        expect(terrain.speedFactorAt(1, 1)).toBe(TERRAIN_SPEED_FACTORS.rock);
+        expect(terrain.siteAt(5, 5)).toEqual({ altitude: 0, terrainType: 0 });
+        expect(terrain.speedFactorAt(-1, 0)).toBe(1);
+    });
+
+    it('should survive a round trip through its plain data', () => {
+        const terrain = generateSeeded(3);
+        expect(TerrainMap.fromData(terrain.toData()).toData()).toEqual(terrain.toData());
+    });
+
+    it('should make flat terrain level loam', () => {
+        const { altitude, types } = TerrainMap.flat(4, 3).toData();
+        expect(altitude).toEqual(new Array(12).fill(0));
+        expect(types).toEqual(new Array(12).fill(0));
+    });
+});
@@ -0,0 +1,113 @@
+import type { TerrainData, TerrainSite, TerrainType } from '../types';
+import { TERRAIN_FEATURE_SIZE, TERRAIN_MAX_ALTITUDE, TERRAIN_ROCK_ALTITUDE, TERRAIN_SPEED_FACTORS, TERRAIN_TYPES } from '../constants';
+import { random } from './random';
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+// Smooth noise in [0, 1): random values every `featureSize` cells, blended in between.
+const valueNoise = (width: number, height: number, featureSize: number): Float64Array => {
+    const latticeWidth = Math.ceil(width / featureSize) + 2;
+    const latticeHeight = Math.ceil(height / featureSize) + 2;
+    const lattice = Array.from({ length: latticeWidth * latticeHeight }, () => random());
+    const at = (lx: number, ly: number) => lattice[ly * latticeWidth + lx];
+
+    const noise = new Float64Array(width * height);
+    for (let y = 0; y < height; y++) {
+        const ly = Math.floor(y / featureSize), ty = smoothstep(y / featureSize - ly);
+        for (let x = 0; x < width; x++) {
+            const lx = Math.floor(x / featureSize), tx = smoothstep(x / featureSize - lx);
+            const top = at(lx, ly) + (at(lx + 1, ly) - at(lx, ly)) * tx;
+            const bottom = at(lx, ly + 1) + (at(lx + 1, ly + 1) - at(lx, ly + 1)) * tx;
+            noise[y * width + x] = top + (bottom - top) * ty;
+        }
+    }
+    return noise;
+};
+
+// Two octaves of value noise, so large hills carry some smaller bumps.
+const fractalNoise = (width: number, height: number): Float64Array => {
+    const coarse = valueNoise(width, height, TERRAIN_FEATURE_SIZE);
+    const fine = valueNoise(width, height, Math.max(1, TERRAIN_FEATURE_SIZE / 2));
+    return coarse.map((value, i) => value * 0.65 + fine[i] * 0.35);
+};
+
+/**
+ * The ground of the garden: an altitude and a terrain type for every cell. It is part of
+ * the garden like its actors are, and does not change while the simulation runs.
+ *
+ * Flowers' stats are worked out for the terrain of the cell they grow on, and insects
+ * crossing sand, clay or rock move more slowly than on loam.
+ */
+export class TerrainMap {
+    readonly width: number;
+    readonly height: number;
+    private altitudes: Uint16Array;
+    private types: Uint8Array;
+
+    private constructor(width: number, height: number, altitudes: Uint16Array, types: Uint8Array) {
+        this.width = width;
+        this.height = height;
+        this.altitudes = altitudes;
+        this.types = types;
+    }
+
+    /** Level loam everywhere, as gardens had before terrain existed. */
+    static flat(width: number, height: number): TerrainMap {
+        return new TerrainMap(width, height, new Uint16Array(width * height), new Uint8Array(width * height));
+    }
+
+    /**
+     * Generates rolling terrain from noise, drawing from the simulation's random source so
+     * seeded gardens get the same terrain every time. High ground is bare rock; below it,
+     * a second noise field lays out patches of sand, loam and clay.
+     */
+    static generate(width: number, height: number): TerrainMap {
+        const elevation = fractalNoise(width, height);
+        const soil = fractalNoise(width, height);
+        const altitudes = new Uint16Array(width * height);
+        const types = new Uint8Array(width * height);
+        for (let i = 0; i < width * height; i++) {
+            altitudes[i] = Math.round(elevation[i] * TERRAIN_MAX_ALTITUDE);
+            const type: TerrainType = elevation[i] >= TERRAIN_ROCK_ALTITUDE ? 'rock'
+                : soil[i] < 0.35 ? 'sand'
+                : soil[i] > 0.65 ? 'clay'
+                : 'loam';
+            types[i] = TERRAIN_TYPES.indexOf(type);
+        }
+        return new TerrainMap(width, height, altitudes, types);
+    }
+
+    static fromData(data: TerrainData): TerrainMap {
+        return new TerrainMap(data.width, data.height, Uint16Array.from(data.altitude), Uint8Array.from(data.types));
+    }
+
+    public toData(): TerrainData {
+        return { width: this.width, height: this.height, altitude: Array.from(this.altitudes), types: Array.from(this.types) };
+    }
+
+    public typeAt(x: number, y: number): TerrainType {
+        const index = this.indexOf(x, y);
+        return index === -1 ? 'loam' : TERRAIN_TYPES[this.types[index]] ?? 'loam';
+    }
+
+    public altitudeAt(x: number, y: number): number {
+        const index = this.indexOf(x, y);
+        return index === -1 ? 0 : this.altitudes[index];
+    }
+
+    /** The cell's terrain as the genetics module takes it. */
+    public siteAt(x: number, y: number): TerrainSite {
+        const index = this.indexOf(x, y);
+        return index === -1 ? { altitude: 0, terrainType: 0 } : { altitude: this.altitudes[index], terrainType: this.types[index] };
+    }
+
+    /** The share of its speed an insect keeps while crossing the cell. */
+    public speedFactorAt(x: number, y: number): number {
+        return TERRAIN_SPEED_FACTORS[this.typeAt(x, y)];
+    }
+
+    private indexOf(x: number, y: number): number {
+        if (x < 0 || x >= this.width || y < 0 || y >= this.height) return -1;
+        return Math.floor(y) * this.width + Math.floor(x);
+    }
+}
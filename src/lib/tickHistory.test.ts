@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { TickHistory } from './tickHistory';
+import type { ActorDelta, CellContent, Nutrient } from '../types';
+
+const nutrient = (id: string, x: number, lifespan: number): Nutrient => ({ id, type: 'nutrient', x, y: 0, lifespan });
+
+describe('TickHistory', () => {
+    it('should report no range before it is reset', () => {
+        const history = new TickHistory<string>(5);
+        expect(history.getRange()).toBeNull();
+        expect(history.restore(0)).toBeNull();
+    });
+
+    it('should rebuild each recorded tick by replaying deltas', () => {
+        const history = new TickHistory<string>(5);
+        history.reset(0, [nutrient('n1', 0, 10)], 'state-0');
+
+        history.record(1, [{ type: 'update', id: 'n1', changes: { lifespan: 9 } }], 'state-1');
+        history.record(2, [{ type: 'add', actor: nutrient('n2', 1, 5) }], 'state-2');
+        history.record(3, [{ type: 'remove', id: 'n1' }], 'state-3');
+
+        expect(history.getRange()).toEqual({ oldestTick: 0, latestTick: 3 });
+
+        const tick1 = history.restore(1)!;
+        expect(tick1.state).toBe('state-1');
+        expect((tick1.actors.get('n1') as Nutrient).lifespan).toBe(9);
+        expect(tick1.actors.has('n2')).toBe(false);
+
+        const tick3 = history.restore(3)!;
+        expect(Array.from(tick3.actors.keys())).toEqual(['n2']);
+    });
+
+    it('should fold the oldest ticks into the base snapshot once full', () => {
+        const history = new TickHistory<number>(2);
+        history.reset(0, [nutrient('n1', 0, 10)], 0);
+        for (let tick = 1; tick <= 4; tick++) {
+            history.record(tick, [{ type: 'update', id: 'n1', changes: { lifespan: 10 - tick } }], tick);
+        }
+
+        expect(history.getRange()).toEqual({ oldestTick: 2, latestTick: 4 });
+        expect(history.restore(1)).toBeNull();
+        const oldest = history.restore(2)!;
+        expect(oldest.state).toBe(2);
+        expect((oldest.actors.get('n1') as Nutrient).lifespan).toBe(8);
+    });
+
+    it('should drop ticks from an abandoned future when recording after a rewind', () => {
+        const history = new TickHistory<number>(10);
+        history.reset(0, [], 0);
+        history.record(1, [{ type: 'add', actor: nutrient('a', 0, 1) }], 1);
+        history.record(2, [{ type: 'add', actor: nutrient('b', 0, 1) }], 2);
+        history.record(3, [{ type: 'add', actor: nutrient('c', 0, 1) }], 3);
+
+        // Re-simulate tick 2 differently after rewinding to tick 1.
+        history.record(2, [{ type: 'add', actor: nutrient('z', 0, 1) }], 20);
+
+        expect(history.getRange()).toEqual({ oldestTick: 0, latestTick: 2 });
+        expect(Array.from(history.restore(2)!.actors.keys()).sort()).toEqual(['a', 'z']);
+    });
+
+    it('should not be affected by later mutation of recorded or restored actors', () => {
+        const history = new TickHistory<number>(5);
+        const actors: CellContent[] = [nutrient('n1', 0, 10)];
+        history.reset(0, actors, 0);
+        const added = nutrient('n2', 1, 5);
+        const deltas: ActorDelta[] = [{ type: 'add', actor: added }];
+        history.record(1, deltas, 1);
+
+        (actors[0] as Nutrient).lifespan = 0;
+        added.lifespan = 0;
+        (history.restore(1)!.actors.get('n2') as Nutrient).lifespan = 0;
+
+        const restored = history.restore(1)!;
+        expect((restored.actors.get('n1') as Nutrient).lifespan).toBe(10);
+        expect((restored.actors.get('n2') as Nutrient).lifespan).toBe(5);
+    });
+});
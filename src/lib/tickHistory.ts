@@ -0,0 +1,119 @@
+import type { ActorDelta, CellContent, TickHistoryRange } from '../types';
+
+interface TickHistoryEntry<S> {
+    tick: number;
+    deltas: ActorDelta[]; // Changes that turn the previous tick's actors into this tick's.
+    state: S;
+}
+
+/**
+ * A ring buffer of the last N ticks of simulation state. Rather than storing a full copy
+ * of the grid every tick, it keeps one full snapshot of the oldest retained tick and the
+ * per-tick deltas produced by the engine. Any tick in range is rebuilt by replaying the
+ * deltas forward from that snapshot; when the buffer is full the oldest delta is folded
+ * into the snapshot.
+ *
+ * `S` is any extra per-tick state (environment, counters, ...) the owner wants restored
+ * alongside the actors; it is stored as-is, so callers should hand over a private copy.
+ */
+export class TickHistory<S> {
+    private capacity: number;
+    private baseTick = 0;
+    private baseActors = new Map<string, CellContent>();
+    private baseState: S | null = null;
+    private entries: TickHistoryEntry<S>[] = [];
+
+    constructor(capacity: number) {
+        this.capacity = Math.max(0, capacity);
+    }
+
+    /**
+     * Discards all history and starts again from the given full state.
+     */
+    public reset(tick: number, actors: Iterable<CellContent>, state: S) {
+        this.baseTick = tick;
+        this.baseActors = new Map();
+        for (const actor of actors) {
+            this.baseActors.set(actor.id, structuredClone(actor));
+        }
+        this.baseState = state;
+        this.entries = [];
+    }
+
+    /**
+     * Records the deltas that produced `tick`. Any previously recorded ticks at or after
+     * `tick` (left over from before a rewind) are dropped, since the timeline has diverged.
+     */
+    public record(tick: number, deltas: ActorDelta[], state: S) {
+        if (this.baseState === null) return;
+        if (tick <= this.baseTick) return;
+
+        this.entries = this.entries.filter(entry => entry.tick < tick);
+        this.entries.push({ tick, deltas: structuredClone(deltas), state });
+
+        while (this.entries.length > this.capacity) {
+            const oldest = this.entries.shift()!;
+            for (const delta of oldest.deltas) {
+                applyDelta(this.baseActors, delta);
+            }
+            this.baseTick = oldest.tick;
+            this.baseState = oldest.state;
+        }
+    }
+
+    /**
+     * The range of ticks that can currently be restored, or null when nothing is recorded.
+     */
+    public getRange(): TickHistoryRange | null {
+        if (this.baseState === null) return null;
+        const latestTick = this.entries.length > 0 ? this.entries[this.entries.length - 1].tick : this.baseTick;
+        return { oldestTick: this.baseTick, latestTick };
+    }
+
+    /**
+     * Rebuilds the actors and extra state for a recorded tick. The returned actors are
+     * fresh copies, so the caller may mutate them freely. Returns null if out of range.
+     */
+    public restore(tick: number): { actors: Map<string, CellContent>; state: S } | null {
+        const range = this.getRange();
+        if (!range || tick < range.oldestTick || tick > range.latestTick) return null;
+
+        const actors = new Map<string, CellContent>();
+        for (const [id, actor] of this.baseActors) {
+            actors.set(id, structuredClone(actor));
+        }
+        let state: S = this.baseState!;
+        for (const entry of this.entries) {
+            if (entry.tick > tick) break;
+            for (const delta of entry.deltas) {
+                applyDelta(actors, structuredClone(delta));
+            }
+            state = entry.state;
+        }
+        return { actors, state: structuredClone(state) };
+    }
+
+    public clear() {
+        this.baseActors = new Map();
+        this.baseState = null;
+        this.entries = [];
+    }
+}
+
+const applyDelta = (actors: Map<string, CellContent>, delta: ActorDelta) => {
+    switch (delta.type) {
+        case 'add':
+            actors.set(delta.actor.id, delta.actor);
+            break;
+        case 'remove':
+            actors.delete(delta.id);
+            break;
+        case 'update': {
+            const actor = actors.get(delta.id);
+            if (actor) {
+                actors.set(delta.id, { ...actor, ...delta.changes } as CellContent);
+            }
+            break;
+        }
+    }
+};
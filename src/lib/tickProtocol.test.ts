@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TickEncoder, ActorTable } from './tickProtocol';
+import type { ActorDelta, Bird, CellContent, FlowerSeed, Insect } from '../types';
+
+const seed = (id: string, x: number, imageData = 'stem'): FlowerSeed => ({ id, type: 'flowerSeed', x, y: 0, imageData, health: 10, maxHealth: 10, age: 0 });
+const insect = (id: string, x: number): Insect => ({
+    id, type: 'insect', x, y: 1, emoji: '🐞', pollen: null, health: 20, maxHealth: 20, stamina: 10, maxStamina: 10, genome: [1, 2],
+});
+const bird = (id: string): Bird => ({ id, type: 'bird', x: 3, y: 3, target: null, patrolTarget: null });
+
+describe('tickProtocol', () => {
+    let encoder: TickEncoder;
+    let table: ActorTable;
+
+    const send = (deltas: ActorDelta[]) => {
+        const encoded = encoder.encode(deltas);
+        table.apply(encoded);
+        return encoded;
+    };
+
+    beforeEach(() => {
+        encoder = new TickEncoder();
+        table = new ActorTable();
+        table.apply(encoder.encodeSnapshot([seed('s1', 0), insect('i1', 1), bird('b1')]));
+    });
+
+    it('should rebuild the actors from a snapshot', () => {
+        const actors = table.toMap();
+        expect(Array.from(actors.keys())).toEqual(['s1', 'i1', 'b1']);
+        expect(actors.get('s1')).toEqual(seed('s1', 0));
+        expect(actors.get('i1')).toEqual(insect('i1', 1));
+        expect(actors.get('b1')).toEqual(bird('b1'));
+    });
+
+    it('should apply updates, removals and additions', () => {
+        send([
+            { type: 'remove', id: 'b1' },
+            { type: 'update', id: 'i1', changes: { x: 2, health: 12.5, isHunting: true, targetId: 's1' } },
+            { type: 'add', actor: insect('i2', 4) },
+        ]);
+
+        const actors = table.toMap();
+        expect(actors.has('b1')).toBe(false);
+        expect(actors.get('i1')).toEqual({ ...insect('i1', 1), x: 2, health: 12.5, isHunting: true, targetId: 's1' });
+        expect(actors.get('i2')).toEqual(insect('i2', 4));
+    });
+
+    it('should pack positions, health, stamina and flags into the buffer', () => {
+        const encoded = send([{ type: 'update', id: 'i1', changes: { x: 5, y: 6, stamina: 3, isHunting: false } }]);
+
+        expect(encoded.changed).toEqual([]);
+        expect(encoded.buffer.byteLength).toBe(8 + 32);
+        expect(table.toMap().get('i1')).toEqual({ ...insect('i1', 1), x: 5, y: 6, stamina: 3, isHunting: false });
+    });
+
+    it('should send values that cannot be packed as plain changes', () => {
+        const encoded = send([{ type: 'update', id: 'i1', changes: { x: 2.5, isHunting: undefined } }]);
+
+        expect(encoded.changed).toEqual([{ slot: 1, changes: { x: 2.5, isHunting: undefined } }]);
+        expect(table.toMap().get('i1')?.x).toBe(2.5);
+    });
+
+    it('should send each image once and refer to it afterwards', () => {
+        const encoded = send([{ type: 'add', actor: seed('s2', 2) }, { type: 'update', id: 'i1', changes: { health: 1 } }]);
+
+        expect(encoded.images).toEqual([]);
+        expect(encoded.added[0].actor).not.toHaveProperty('imageData');
+        expect(table.toMap().get('s2')).toEqual(seed('s2', 2));
+    });
+
+    it('should send an image again once no actor used it', () => {
+        send([{ type: 'remove', id: 's1' }]);
+        const encoded = send([{ type: 'add', actor: seed('s3', 3) }]);
+
+        expect(encoded.images.map(([, imageData]) => imageData)).toEqual(['stem']);
+        expect(table.toMap().get('s3')).toEqual(seed('s3', 3));
+    });
+
+    it('should keep an image that is dropped and picked up again in the same batch', () => {
+        const encoded = send([
+            { type: 'update', id: 's1', changes: { imageData: 'flower' } },
+            { type: 'add', actor: seed('s2', 2) },
+        ]);
+
+        expect(encoded.images.map(([, imageData]) => imageData)).toEqual(['flower']);
+        const actors = table.toMap();
+        expect((actors.get('s1') as FlowerSeed).imageData).toBe('flower');
+        expect((actors.get('s2') as FlowerSeed).imageData).toBe('stem');
+    });
+
+    it('should reuse the slots of removed actors', () => {
+        const encoded = send([{ type: 'remove', id: 'b1' }, { type: 'add', actor: bird('b2') }]);
+
+        expect(encoded.added[0].slot).toBe(2);
+        const actors = table.toMap();
+        expect(actors.has('b1')).toBe(false);
+        expect(actors.get('b2')).toEqual(bird('b2'));
+    });
+
+    it('should only rebuild the actors that changed', () => {
+        const before = table.toMap();
+        send([{ type: 'update', id: 'i1', changes: { health: 5 } }]);
+        const after = table.toMap();
+
+        expect(after).not.toBe(before);
+        expect(after.get('b1')).toBe(before.get('b1'));
+        expect(after.get('i1')).not.toBe(before.get('i1'));
+    });
+
+    it('should match applying the deltas directly over many ticks', () => {
+        const reference = new Map<string, CellContent>(table.toMap());
+        let nextId = 0;
+        for (let tick = 0; tick < 50; tick++) {
+            const deltas: ActorDelta[] = [];
+            for (const actor of Array.from(reference.values())) {
+                const roll = (actor.x * 7 + tick * 13 + actor.id.length) % 10;
+                if (roll === 0) {
+                    deltas.push({ type: 'remove', id: actor.id });
+                } else if (roll < 6) {
+                    deltas.push({ type: 'update', id: actor.id, changes: { x: (actor.x + 1) % 20, ...(actor.type === 'insect' ? { health: actor.health - 0.25 } : {}) } });
+                }
+            }
+            deltas.push({ type: 'add', actor: tick % 2 ? insect(`i${nextId++}`, tick % 20) : seed(`s${nextId++}`, tick % 20, `image-${tick % 3}`) });
+
+            for (const delta of deltas) {
+                if (delta.type === 'add') reference.set(delta.actor.id, delta.actor);
+                else if (delta.type === 'remove') reference.delete(delta.id);
+                else reference.set(delta.id, { ...reference.get(delta.id)!, ...delta.changes } as CellContent);
+            }
+            send(deltas);
+        }
+
+        expect(table.toMap()).toEqual(reference);
+    });
+});
@@ -0,0 +1,424 @@
+import type { ActorDelta, CellContent, EncodedActorChanges } from '../types';
+
+/*
+ * The compact encoding of actor deltas sent from the simulation worker to the UI.
+ *
+ * The fields that change on most ticks (positions, health, stamina and a few boolean state flags)
+ * are packed into an `ArrayBuffer` that is transferred rather than copied. Anything else, and
+ * every newly added actor, travels as plain objects. Each actor is given a numeric slot when it is
+ * added, and flower images are sent once and referred to by number until no actor uses them.
+ *
+ * Buffer layout, little-endian:
+ *   header   removal count (u32), update count (u32)
+ *   removal  slot (u32)
+ *   update   slot (u32), field mask (u8), flag mask (u8), flag values (u8), unused (u8),
+ *            x (i32), y (i32), health (f64), stamina (f64)
+ */
+
+const INT_FIELDS = ['x', 'y'] as const;
+const FLOAT_FIELDS = ['health', 'stamina'] as const;
+const NUMERIC_FIELDS = [...INT_FIELDS, ...FLOAT_FIELDS];
+const FLAG_FIELDS = ['isMature', 'isCarryingNutrient', 'isHunting', 'isReturningToHive', 'isTrapped'] as const;
+
+type NumericField = typeof NUMERIC_FIELDS[number];
+type FlagField = typeof FLAG_FIELDS[number];
+type HotFields = Partial<Record<NumericField, number> & Record<FlagField, boolean>>;
+
+const HEADER_BYTES = 8;
+const REMOVAL_BYTES = 4;
+const UPDATE_BYTES = 32;
+
+/** Whether a field's value can be packed into an update record. */
+const isPackable = (key: string, value: unknown): boolean => {
+    if ((INT_FIELDS as readonly string[]).includes(key)) {
+        return Number.isInteger(value) && Math.abs(value as number) < 2 ** 31;
+    }
+    if ((FLOAT_FIELDS as readonly string[]).includes(key)) return typeof value === 'number';
+    if ((FLAG_FIELDS as readonly string[]).includes(key)) return typeof value === 'boolean';
+    return false;
+};
+
+const isHotField = (key: string): boolean =>
+    (NUMERIC_FIELDS as readonly string[]).includes(key) || (FLAG_FIELDS as readonly string[]).includes(key);
+
+/**
+ * Counts the actors using each image, so both ends can forget an image once nothing shows it.
+ * Unused images are only dropped at the end of a batch, as the two ends apply a batch in different orders.
+ */
+class ImageRefs {
+    private uses = new Map<number, number>();
+    private bySlot = new Map<number, number>();
+
+    public use(slot: number, ref: number) {
+        this.release(slot);
+        this.bySlot.set(slot, ref);
+        this.uses.set(ref, (this.uses.get(ref) ?? 0) + 1);
+    }
+
+    public release(slot: number) {
+        const ref = this.bySlot.get(slot);
+        if (ref === undefined) return;
+        this.bySlot.delete(slot);
+        this.uses.set(ref, this.uses.get(ref)! - 1);
+    }
+
+    /** Forgets the images no actor uses any more and returns them. */
+    public sweep(): number[] {
+        const unused: number[] = [];
+        for (const [ref, count] of this.uses) {
+            if (count > 0) continue;
+            this.uses.delete(ref);
+            unused.push(ref);
+        }
+        return unused;
+    }
+
+    public clear() {
+        this.uses.clear();
+        this.bySlot.clear();
+    }
+}
+
+/**
+ * Encodes the engine's deltas in the simulation worker. It remembers which slot each actor
+ * was given and which images the UI already has, so it must see every batch that is sent.
+ */
+export class TickEncoder {
+    private slots = new Map<string, number>();
+    private freeSlots: number[] = [];
+    private nextSlot = 0;
+    private imageRefs = new Map<string, number>();
+    private imagesByRef = new Map<number, string>();
+    private imageUses = new ImageRefs();
+    private nextImageRef = 0;
+
+    public reset() {
+        this.slots.clear();
+        this.freeSlots = [];
+        this.nextSlot = 0;
+        this.imageRefs.clear();
+        this.imagesByRef.clear();
+        this.imageUses.clear();
+    }
+
+    /** Starts again from a full set of actors, such as after a reset or a rewind. */
+    public encodeSnapshot(actors: Iterable<CellContent>): EncodedActorChanges {
+        this.reset();
+        const deltas: ActorDelta[] = [];
+        for (const actor of actors) {
+            deltas.push({ type: 'add', actor });
+        }
+        return this.encode(deltas);
+    }
+
+    public encode(deltas: ActorDelta[]): EncodedActorChanges {
+        const removals: number[] = [];
+        const updates: { slot: number; fields: HotFields }[] = [];
+        const encoded: EncodedActorChanges = { buffer: new ArrayBuffer(0), added: [], changed: [], images: [] };
+
+        for (const delta of deltas) {
+            switch (delta.type) {
+                case 'add': {
+                    const slot = this.slots.get(delta.actor.id) ?? this.allocate(delta.actor.id);
+                    this.imageUses.release(slot);
+                    encoded.added.push({ slot, actor: this.withImageRef(slot, delta.actor, encoded) });
+                    break;
+                }
+                case 'remove': {
+                    const slot = this.slots.get(delta.id);
+                    if (slot === undefined) break;
+                    this.slots.delete(delta.id);
+                    this.freeSlots.push(slot);
+                    this.imageUses.release(slot);
+                    removals.push(slot);
+                    break;
+                }
+                case 'update': {
+                    const slot = this.slots.get(delta.id);
+                    if (slot === undefined) break;
+                    const fields: HotFields = {};
+                    const rest: Record<string, unknown> = {};
+                    let hasFields = false, hasRest = false;
+                    for (const [key, value] of Object.entries(delta.changes)) {
+                        if (isPackable(key, value)) {
+                            (fields as Record<string, unknown>)[key] = value;
+                            hasFields = true;
+                        } else {
+                            rest[key] = value;
+                            hasRest = true;
+                        }
+                    }
+                    if (hasFields) updates.push({ slot, fields });
+                    if (hasRest) encoded.changed.push({ slot, changes: this.withImageRef(slot, rest, encoded) });
+                    break;
+                }
+            }
+        }
+
+        for (const ref of this.imageUses.sweep()) {
+            this.imageRefs.delete(this.imagesByRef.get(ref)!);
+            this.imagesByRef.delete(ref);
+        }
+        encoded.buffer = writeBuffer(removals, updates);
+        return encoded;
+    }
+
+    private allocate(id: string): number {
+        const slot = this.freeSlots.pop() ?? this.nextSlot++;
+        this.slots.set(id, slot);
+        return slot;
+    }
+
+    // Copies `fields`, replacing an image with its reference and sending it first if the UI lacks it.
+    private withImageRef(slot: number, fields: object, encoded: EncodedActorChanges): Record<string, unknown> {
+        const { imageData, ...rest } = fields as Record<string, unknown>;
+        if (typeof imageData !== 'string') {
+            if ('imageData' in fields) this.imageUses.release(slot);
+            return fields as Record<string, unknown>;
+        }
+
+        let ref = this.imageRefs.get(imageData);
+        if (ref === undefined) {
+            ref = this.nextImageRef++;
+            this.imageRefs.set(imageData, ref);
+            this.imagesByRef.set(ref, imageData);
+            encoded.images.push([ref, imageData]);
+        }
+        this.imageUses.use(slot, ref);
+        return { ...rest, imageRef: ref };
+    }
+}
+
+const writeBuffer = (removals: number[], updates: { slot: number; fields: HotFields }[]): ArrayBuffer => {
+    const buffer = new ArrayBuffer(HEADER_BYTES + removals.length * REMOVAL_BYTES + updates.length * UPDATE_BYTES);
+    const view = new DataView(buffer);
+    view.setUint32(0, removals.length, true);
+    view.setUint32(4, updates.length, true);
+
+    let offset = HEADER_BYTES;
+    for (const slot of removals) {
+        view.setUint32(offset, slot, true);
+        offset += REMOVAL_BYTES;
+    }
+    for (const { slot, fields } of updates) {
+        let fieldMask = 0, flagMask = 0, flagValues = 0;
+        NUMERIC_FIELDS.forEach((key, bit) => {
+            if (fields[key] !== undefined) fieldMask |= 1 << bit;
+        });
+        FLAG_FIELDS.forEach((key, bit) => {
+            if (fields[key] === undefined) return;
+            flagMask |= 1 << bit;
+            if (fields[key]) flagValues |= 1 << bit;
+        });
+        view.setUint32(offset, slot, true);
+        view.setUint8(offset + 4, fieldMask);
+        view.setUint8(offset + 5, flagMask);
+        view.setUint8(offset + 6, flagValues);
+        view.setInt32(offset + 8, fields.x ?? 0, true);
+        view.setInt32(offset + 12, fields.y ?? 0, true);
+        view.setFloat64(offset + 16, fields.health ?? 0, true);
+        view.setFloat64(offset + 24, fields.stamina ?? 0, true);
+        offset += UPDATE_BYTES;
+    }
+    return buffer;
+};
+
+/**
+ * The UI's copy of the actors, patched from the batches a `TickEncoder` produces.
+ *
+ * The packed fields live in typed arrays indexed by slot and the rest in one plain object per
+ * actor. Actor objects are only rebuilt, in `toMap`, for the slots a batch touched.
+ */
+export class ActorTable {
+    private ids: (string | undefined)[] = [];
+    private rest: Record<string, unknown>[] = [];
+    private fieldMasks = new Uint8Array(0);
+    private flagMasks = new Uint8Array(0);
+    private flagValues = new Uint8Array(0);
+    private xs = new Int32Array(0);
+    private ys = new Int32Array(0);
+    private healths = new Float64Array(0);
+    private staminas = new Float64Array(0);
+    private images = new Map<number, string>();
+    private imageUses = new ImageRefs();
+    private actors = new Map<string, CellContent>(); // Built actors, in the order they arrived
+    private dirty = new Set<number>();
+
+    public reset() {
+        this.ids = [];
+        this.rest = [];
+        this.fieldMasks.fill(0);
+        this.flagMasks.fill(0);
+        this.images.clear();
+        this.imageUses.clear();
+        this.actors.clear();
+        this.dirty.clear();
+    }
+
+    public apply(changes: EncodedActorChanges) {
+        for (const [ref, imageData] of changes.images) {
+            this.images.set(ref, imageData);
+        }
+
+        const view = new DataView(changes.buffer);
+        const removalCount = view.getUint32(0, true);
+        const updateCount = view.getUint32(4, true);
+        let offset = HEADER_BYTES;
+        for (let i = 0; i < removalCount; i++) {
+            this.remove(view.getUint32(offset, true));
+            offset += REMOVAL_BYTES;
+        }
+
+        for (const { slot, actor } of changes.added) {
+            this.add(slot, actor);
+        }
+
+        for (let i = 0; i < updateCount; i++) {
+            this.readUpdate(view, offset);
+            offset += UPDATE_BYTES;
+        }
+
+        for (const { slot, changes: fields } of changes.changed) {
+            if (this.ids[slot] === undefined) continue;
+            this.setFields(slot, fields);
+            this.dirty.add(slot);
+        }
+
+        for (const ref of this.imageUses.sweep()) {
+            this.images.delete(ref);
+        }
+    }
+
+    /** The actors by ID. Actors that did not change since the last call are the same objects as before. */
+    public toMap(): Map<string, CellContent> {
+        for (const slot of this.dirty) {
+            const id = this.ids[slot];
+            if (id !== undefined) this.actors.set(id, this.build(slot));
+        }
+        this.dirty.clear();
+        return new Map(this.actors);
+    }
+
+    private add(slot: number, actor: Record<string, unknown>) {
+        this.ensureCapacity(slot + 1);
+        const previousId = this.ids[slot];
+        if (previousId !== undefined && previousId !== actor.id) this.remove(slot);
+
+        this.ids[slot] = actor.id as string;
+        this.rest[slot] = {};
+        this.fieldMasks[slot] = 0;
+        this.flagMasks[slot] = 0;
+        this.imageUses.release(slot);
+        this.setFields(slot, actor);
+        this.actors.set(actor.id as string, this.build(slot));
+        this.dirty.delete(slot);
+    }
+
+    private remove(slot: number) {
+        const id = this.ids[slot];
+        if (id === undefined) return;
+        this.actors.delete(id);
+        this.ids[slot] = undefined;
+        this.imageUses.release(slot);
+        this.dirty.delete(slot);
+    }
+
+    private setFields(slot: number, fields: Record<string, unknown>) {
+        const rest = this.rest[slot];
+        for (const [key, value] of Object.entries(fields)) {
+            if (key === 'imageRef') {
+                this.imageUses.use(slot, value as number);
+                rest.imageData = this.images.get(value as number);
+            } else if (isPackable(key, value)) {
+                this.setHotField(slot, key, value as number | boolean);
+                delete rest[key];
+            } else {
+                rest[key] = value;
+                if (key === 'imageData') this.imageUses.release(slot);
+                if (isHotField(key)) this.clearHotField(slot, key);
+            }
+        }
+    }
+
+    private readUpdate(view: DataView, offset: number) {
+        const slot = view.getUint32(offset, true);
+        if (this.ids[slot] === undefined) return;
+        const fieldMask = view.getUint8(offset + 4);
+        const flagMask = view.getUint8(offset + 5);
+        const flagValues = view.getUint8(offset + 6);
+        const values: Record<NumericField, number> = {
+            x: view.getInt32(offset + 8, true),
+            y: view.getInt32(offset + 12, true),
+            health: view.getFloat64(offset + 16, true),
+            stamina: view.getFloat64(offset + 24, true),
+        };
+
+        const rest = this.rest[slot];
+        NUMERIC_FIELDS.forEach((key, bit) => {
+            if (!(fieldMask & (1 << bit))) return;
+            this.setHotField(slot, key, values[key]);
+            delete rest[key];
+        });
+        FLAG_FIELDS.forEach((key, bit) => {
+            if (!(flagMask & (1 << bit))) return;
+            this.setHotField(slot, key, (flagValues & (1 << bit)) !== 0);
+            delete rest[key];
+        });
+        this.dirty.add(slot);
+    }
+
+    private setHotField(slot: number, key: string, value: number | boolean) {
+        const flagBit = (FLAG_FIELDS as readonly string[]).indexOf(key);
+        if (flagBit !== -1) {
+            this.flagMasks[slot] |= 1 << flagBit;
+            if (value) this.flagValues[slot] |= 1 << flagBit;
+            else this.flagValues[slot] &= ~(1 << flagBit);
+            return;
+        }
+        this.fieldMasks[slot] |= 1 << (NUMERIC_FIELDS as readonly string[]).indexOf(key);
+        this.numericArray(key as NumericField)[slot] = value as number;
+    }
+
+    private clearHotField(slot: number, key: string) {
+        const flagBit = (FLAG_FIELDS as readonly string[]).indexOf(key);
+        if (flagBit !== -1) this.flagMasks[slot] &= ~(1 << flagBit);
+        else this.fieldMasks[slot] &= ~(1 << (NUMERIC_FIELDS as readonly string[]).indexOf(key));
+    }
+
+    private build(slot: number): CellContent {
+        const actor: Record<string, unknown> = { ...this.rest[slot] };
+        NUMERIC_FIELDS.forEach((key, bit) => {
+            if (this.fieldMasks[slot] & (1 << bit)) actor[key] = this.numericArray(key)[slot];
+        });
+        FLAG_FIELDS.forEach((key, bit) => {
+            if (this.flagMasks[slot] & (1 << bit)) actor[key] = (this.flagValues[slot] & (1 << bit)) !== 0;
+        });
+        return actor as unknown as CellContent;
+    }
+
+    private numericArray(key: NumericField): Int32Array | Float64Array {
+        switch (key) {
+            case 'x': return this.xs;
+            case 'y': return this.ys;
+            case 'health': return this.healths;
+            case 'stamina': return this.staminas;
+        }
+    }
+
+    private ensureCapacity(size: number) {
+        if (size <= this.fieldMasks.length) return;
+        const capacity = Math.max(size, this.fieldMasks.length * 2, 64);
+        const grow = <T extends Uint8Array | Int32Array | Float64Array>(array: T, make: (length: number) => T): T => {
+            const grown = make(capacity);
+            grown.set(array);
+            return grown;
+        };
+        this.fieldMasks = grow(this.fieldMasks, n => new Uint8Array(n));
+        this.flagMasks = grow(this.flagMasks, n => new Uint8Array(n));
+        this.flagValues = grow(this.flagValues, n => new Uint8Array(n));
+        this.xs = grow(this.xs, n => new Int32Array(n));
+        this.ys = grow(this.ys, n => new Int32Array(n));
+        this.healths = grow(this.healths, n => new Float64Array(n));
+        this.staminas = grow(this.staminas, n => new Float64Array(n));
+    }
+}
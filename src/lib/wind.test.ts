@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { nextWind, windDrift, isDownwind } from './wind';
+import { DEFAULT_SIM_PARAMS, WIND_MAX_VEER } from '../constants';
+
+const params = { ...DEFAULT_SIM_PARAMS, windDirection: 'N' as const, windStrength: 2 };
+
+describe('nextWind', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should veer no further than WIND_MAX_VEER from the prevailing direction', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        let wind = nextWind(undefined, params, 0, 'none');
+        for (let i = 0; i < 10; i++) wind = nextWind(wind, params, 0, 'none');
+
+        // Always veering clockwise from north stops WIND_MAX_VEER steps round.
+        expect(wind.direction).toBe(['N', 'NE', 'E', 'SE'][WIND_MAX_VEER]);
+    });
+
+    it('should swing back round when the prevailing direction changes', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0.99);
+        const wind = nextWind({ direction: 'S', strength: 2 }, params, 0, 'none');
+        expect(wind.direction).toBe('SW');
+    });
+
+    it('should blow harder in winter and in storms than in summer', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0.99);
+        const spring = nextWind(undefined, params, 0, 'none').strength;
+        const summer = nextWind(undefined, params, Math.PI / 2, 'none').strength;
+        const winter = nextWind(undefined, params, 3 * Math.PI / 2, 'none').strength;
+        const storm = nextWind(undefined, params, 0, 'heavyrain').strength;
+
+        expect(spring).toBe(2);
+        expect(summer).toBe(1);
+        expect(winter).toBe(3);
+        expect(storm).toBe(3);
+    });
+
+    it('should double its strength in a gust', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0.06);
+        expect(nextWind(undefined, params, 0, 'none').strength).toBe(4);
+    });
+});
+
+describe('windDrift', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should blow an actor one cell downwind', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        expect(windDrift({ x: 5, y: 5 }, { direction: 'SE', strength: 2 }, params)).toEqual({ x: 6, y: 6 });
+    });
+
+    it('should leave actors be in calm air, or where they would leave the garden', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        expect(windDrift({ x: 5, y: 5 }, { direction: 'N', strength: 0 }, params)).toBeNull();
+        expect(windDrift({ x: 5, y: 0 }, { direction: 'N', strength: 2 }, params)).toBeNull();
+    });
+});
+
+describe('isDownwind', () => {
+    it('should accept steps with the wind and reject those across or against it', () => {
+        const wind = { direction: 'E' as const, strength: 2 };
+        expect(isDownwind(1, -1, wind)).toBe(true);
+        expect(isDownwind(1, 0, wind)).toBe(true);
+        expect(isDownwind(0, 1, wind)).toBe(false);
+        expect(isDownwind(-1, 0, wind)).toBe(false);
+    });
+});
@@ -0,0 +1,57 @@
+import type { Coord, SimulationParams, WeatherEventType, Wind } from '../types';
+import {
+    WIND_DIRECTIONS,
+    WIND_DRIFT_CHANCE_PER_STRENGTH,
+    WIND_GUST_CHANCE,
+    WIND_GUST_FACTOR,
+    WIND_MAX_VEER,
+    WIND_SEASONAL_AMPLITUDE,
+    WIND_SHIFT_CHANCE,
+    WIND_WEATHER_FACTORS,
+} from '../constants';
+import { windVectors } from './simulationUtils';
+import { random } from './random';
+
+// Steps of 45° clockwise from one direction index to another, from -4 to 3.
+const veerBetween = (from: number, to: number) => ((to - from + 12) % 8) - 4;
+
+/**
+ * The wind for the next tick. It veers now and then, but never far from the prevailing
+ * direction in the params; its strength rises in winter and falls in summer, follows the
+ * weather, and now and then gusts.
+ * @param seasonAngle How far through the year it is, in radians from the start of spring.
+ */
+export function nextWind(wind: Wind | undefined, params: SimulationParams, seasonAngle: number, weather: WeatherEventType): Wind {
+    const prevailing = WIND_DIRECTIONS.indexOf(params.windDirection);
+    let direction = WIND_DIRECTIONS.indexOf(wind?.direction ?? params.windDirection);
+    const veer = veerBetween(prevailing, direction);
+    if (Math.abs(veer) > WIND_MAX_VEER) {
+        // The prevailing wind was changed; swing back round to it.
+        direction = (direction - Math.sign(veer) + 8) % 8;
+    } else if (random() < WIND_SHIFT_CHANCE) {
+        const shifted = (direction + (random() < 0.5 ? 1 : 7)) % 8;
+        if (Math.abs(veerBetween(prevailing, shifted)) <= WIND_MAX_VEER) direction = shifted;
+    }
+
+    let strength = params.windStrength * (1 - WIND_SEASONAL_AMPLITUDE * Math.sin(seasonAngle)) * WIND_WEATHER_FACTORS[weather];
+    if (random() < WIND_GUST_CHANCE) strength *= WIND_GUST_FACTOR;
+    return { direction: WIND_DIRECTIONS[direction], strength: Math.round(strength * 10) / 10 };
+}
+
+/**
+ * Where the wind blows a flying actor this tick: one cell downwind, with a chance that grows
+ * with the wind's strength. Returns null if the actor holds its course or would leave the garden.
+ */
+export function windDrift(position: Coord, wind: Wind, params: SimulationParams): Coord | null {
+    if (wind.strength <= 0 || random() >= wind.strength * WIND_DRIFT_CHANCE_PER_STRENGTH) return null;
+    const { dx, dy } = windVectors[wind.direction];
+    const x = position.x + dx, y = position.y + dy;
+    if (x < 0 || x >= params.gridWidth || y < 0 || y >= params.gridHeight) return null;
+    return { x, y };
+}
+
+/** Whether a step of (dx, dy) runs with the wind rather than across or against it. */
+export function isDownwind(dx: number, dy: number, wind: Wind): boolean {
+    const vector = windVectors[wind.direction];
+    return dx * vector.dx + dy * vector.dy > 0;
+}
@@ -1,12 +1,16 @@
 import { Dexie, type Table } from 'dexie';
-import type { Flower, Insect, SeedBankEntry } from '../types';
+import type { Flower, GenomeCacheEntry, Insect, SaveSlot, SeedBankEntry } from '../types';
 
 export class EvoGardenDB extends Dexie {
   savedFlowers!: Table<Flower, string>;
   savedInsects!: Table<Insect, string>;
   seedBank!: Table<SeedBankEntry, string>;
+  genomeCache!: Table<GenomeCacheEntry, string>;
+  saves!: Table<SaveSlot, string>;
   constructor() {
     super('EvoGardenDatabase');
+    // These versions number the database's tables; the gardens stored in them carry their
+    // own `saveVersion`, upgraded on load by saveMigrations.ts.
     this.version(2).stores({
       savedFlowers: 'id',
       seedBank: 'category',
@@ -17,6 +21,30 @@ export class EvoGardenDB extends Dexie {
       seedBank: 'category',
       savedInsects: 'id'
     });
+    // Version 4 adds the genome cache shared by the flower workers.
+    this.version(4).stores({
+      savedFlowers: 'id',
+      seedBank: 'category',
+      savedInsects: 'id',
+      genomeCache: 'key, storedAt'
+    });
+    // Version 5 adds the named save slots. The single-save tables are kept until the app
+    // has moved their garden into a slot.
+    this.version(5).stores({
+      savedFlowers: 'id',
+      seedBank: 'category',
+      savedInsects: 'id',
+      genomeCache: 'key, storedAt',
+      saves: 'id, createdAt'
+    });
   }
 }
 export const db = new EvoGardenDB();
+
+/** Deletes the genome cache entries stored longest ago, keeping at most `maxEntries`. */
+export const pruneGenomeCache = async (maxEntries: number) => {
+  const excess = await db.genomeCache.count() - maxEntries;
+  if (excess <= 0) return;
+  const oldest = await db.genomeCache.orderBy('storedAt').limit(excess).primaryKeys();
+  await db.genomeCache.bulkDelete(oldest);
+};
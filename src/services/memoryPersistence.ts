@@ -0,0 +1,20 @@
+import type { SeedBankCategory, SeedBankEntry, SimulationPersistence } from '../types';
+
+/**
+ * A non-persistent store for the simulation engine, used by headless runs and
+ * tests where IndexedDB is unavailable. Entries live only as long as the process.
+ */
+export const createInMemoryPersistence = (initialSeedBank: SeedBankEntry[] = []): SimulationPersistence => {
+    const seedBank = new Map<SeedBankCategory, SeedBankEntry>(initialSeedBank.map(entry => [entry.category, entry]));
+
+    return {
+        seedBank: {
+            get: async (category) => seedBank.get(category),
+            put: async (entry) => {
+                seedBank.set(entry.category, entry);
+                return entry.category;
+            },
+            toArray: async () => Array.from(seedBank.values()),
+        },
+    };
+};
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { migrateLegacySave, LEGACY_SAVE_KEY } from './saveSlots';
+import { db } from './db';
+import { DEFAULT_SIM_PARAMS } from '../constants';
+
+vi.mock('./db', () => ({
+    db: {
+        saves: { add: vi.fn() },
+        savedFlowers: { toArray: vi.fn(), clear: vi.fn() },
+        savedInsects: { toArray: vi.fn(), clear: vi.fn() },
+    },
+}));
+
+const flower = { id: 'flower-1', type: 'flower', x: 0, y: 0, genome: 'genome-a', imageData: '' };
+
+// The single save's metadata, with the flower as a placeholder whose data is in the database.
+const legacyMetadata = {
+    params: { ...DEFAULT_SIM_PARAMS, gridWidth: 1, gridHeight: 1 },
+    grid: [[[{ id: 'flower-1', type: 'flower', x: 0, y: 0 }]]],
+    tick: 120,
+};
+
+describe('migrateLegacySave', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        localStorage.clear();
+        localStorage.setItem(LEGACY_SAVE_KEY, JSON.stringify(legacyMetadata));
+        vi.mocked(db.savedFlowers.toArray).mockResolvedValue([flower] as any);
+        vi.mocked(db.savedInsects.toArray).mockResolvedValue([]);
+    });
+
+    it('returns null when there is no old save', async () => {
+        localStorage.clear();
+        expect(await migrateLegacySave()).toBeNull();
+        expect(db.saves.add).not.toHaveBeenCalled();
+    });
+
+    it('moves the rehydrated garden into a slot and then clears the old save', async () => {
+        vi.mocked(db.saves.add).mockResolvedValue('slot-1');
+
+        const slot = await migrateLegacySave();
+
+        expect(slot?.state.grid[0][0][0]).toMatchObject({ id: 'flower-1', genome: 'genome-a' });
+        expect(localStorage.getItem(LEGACY_SAVE_KEY)).toBeNull();
+        expect(db.savedFlowers.clear).toHaveBeenCalled();
+        expect(db.savedInsects.clear).toHaveBeenCalled();
+    });
+
+    it('keeps the old save when the slot cannot be saved', async () => {
+        vi.mocked(db.saves.add).mockRejectedValue(new Error('QuotaExceededError'));
+
+        await expect(migrateLegacySave()).rejects.toThrow('QuotaExceededError');
+        expect(localStorage.getItem(LEGACY_SAVE_KEY)).toBe(JSON.stringify(legacyMetadata));
+        expect(db.savedFlowers.clear).not.toHaveBeenCalled();
+        expect(db.savedInsects.clear).not.toHaveBeenCalled();
+    });
+
+    it('keeps the old save when actor data is missing from the database', async () => {
+        vi.mocked(db.savedFlowers.toArray).mockResolvedValue([]);
+
+        await expect(migrateLegacySave()).rejects.toThrow("1 flowers whose data is missing from the browser's database");
+        expect(localStorage.getItem(LEGACY_SAVE_KEY)).not.toBeNull();
+        expect(db.savedFlowers.clear).not.toHaveBeenCalled();
+    });
+});
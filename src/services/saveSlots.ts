@@ -0,0 +1,122 @@
+import type { CellContent, Grid, SavedGardenState, SaveSlot, SaveSlotSummary } from '../types';
+import { SAVE_THUMBNAIL_WIDTH } from '../constants';
+import { db } from './db';
+
+// Where the single save kept its metadata before there were save slots. Its flowers and
+// insects were kept in the `savedFlowers` and `savedInsects` tables.
+export const LEGACY_SAVE_KEY = 'evoGarden-savedState-meta';
+const LEGACY_SAVE_SLOT_NAME = 'Saved garden';
+
+const newSlotId = () => `save-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const summarizeGarden = (state: SavedGardenState): SaveSlotSummary => {
+    const actors = state.grid.flat(2);
+    return {
+        gridWidth: state.params.gridWidth,
+        gridHeight: state.params.gridHeight,
+        seed: state.params.seed ?? null,
+        climateScenario: state.params.climateScenario?.name ?? 'Seasonal',
+        flowerCount: actors.filter(actor => actor.type === 'flower').length,
+        insectCount: actors.filter(actor => actor.type === 'insect' || actor.type === 'cockroach').length,
+    };
+};
+
+/** Every save slot, newest first. */
+export const listSaveSlots = (): Promise<SaveSlot[]> => db.saves.orderBy('createdAt').reverse().toArray();
+
+export const getSaveSlot = (id: string): Promise<SaveSlot | undefined> => db.saves.get(id);
+
+/** Saves a garden to a new slot. */
+export const createSaveSlot = async (name: string, state: SavedGardenState, thumbnail: string): Promise<SaveSlot> => {
+    const slot: SaveSlot = { id: newSlotId(), name, createdAt: Date.now(), tick: state.tick, summary: summarizeGarden(state), thumbnail, state };
+    await db.saves.add(slot);
+    return slot;
+};
+
+export const renameSaveSlot = async (id: string, name: string): Promise<void> => {
+    await db.saves.update(id, { name });
+};
+
+/** Copies a slot to a new one, so a garden can be branched and each branch saved on its own. */
+export const duplicateSaveSlot = async (id: string): Promise<SaveSlot> => {
+    const slot = await db.saves.get(id);
+    if (!slot) throw new Error('The save no longer exists.');
+    const copy: SaveSlot = { ...slot, id: newSlotId(), name: `${slot.name} (copy)`, createdAt: Date.now() };
+    await db.saves.add(copy);
+    return copy;
+};
+
+export const deleteSaveSlot = (id: string): Promise<void> => db.saves.delete(id);
+
+// The single save kept only these keys of each flower, insect and cockroach in its grid,
+// and the rest of the actor in the database.
+const PLACEHOLDER_KEYS = ['id', 'type', 'x', 'y'];
+const isPlaceholder = (actor: any) => Object.keys(actor).length === PLACEHOLDER_KEYS.length && PLACEHOLDER_KEYS.every(key => key in actor);
+
+/**
+ * Rehydrates the grid of the single save by replacing the placeholders in its metadata with
+ * the flowers and insects stored in IndexedDB. Saves older still stored full actor data in
+ * localStorage, which is kept as it is. Throws an error saying what is missing if any
+ * placeholder has no actor to replace it.
+ */
+const rehydrateLegacyGrid = async (metadata: any): Promise<Grid> => {
+    if (!Array.isArray(metadata?.grid)) {
+        throw new Error('The old save has no garden grid.');
+    }
+    const flowers = await db.savedFlowers.toArray();
+    const insects = await db.savedInsects.toArray();
+    const actorMap = new Map<string, CellContent>([
+        ...flowers.map((f): [string, CellContent] => [f.id, f]),
+        ...insects.map((i): [string, CellContent] => [i.id, i])
+    ]);
+
+    const missing = metadata.grid.flat(2).filter((actor: any) => isPlaceholder(actor) && !actorMap.has(actor.id));
+    if (missing.length > 0) {
+        const missingFlowers = missing.filter((actor: CellContent) => actor.type === 'flower').length;
+        const missingInsects = missing.length - missingFlowers;
+        const parts = [missingFlowers && `${missingFlowers} flowers`, missingInsects && `${missingInsects} insects`].filter(Boolean);
+        throw new Error(`The old save lists ${parts.join(' and ')} whose data is missing from the browser's database.`);
+    }
+
+    return metadata.grid.map((row: CellContent[][]) =>
+        row.map((cell: CellContent[]) =>
+            cell.map((actor: CellContent) => isPlaceholder(actor) ? actorMap.get(actor.id)! : actor)
+        )
+    );
+};
+
+/**
+ * Moves the garden of the single save used before there were slots into a slot of its own,
+ * and clears the old storage once the slot is saved. Returns the new slot, or null if there
+ * was no old save. If the garden cannot be moved, the old save is left as it is, so the move
+ * can be tried again, and the error rethrown.
+ */
+export const migrateLegacySave = async (): Promise<SaveSlot | null> => {
+    const metadataJSON = localStorage.getItem(LEGACY_SAVE_KEY);
+    if (!metadataJSON) return null;
+    const metadata = JSON.parse(metadataJSON);
+    // The garden is kept as it was saved, and upgraded to the current format when loaded.
+    const state: SavedGardenState = { ...metadata, grid: await rehydrateLegacyGrid(metadata) };
+    const slot = await createSaveSlot(LEGACY_SAVE_SLOT_NAME, state, '');
+
+    localStorage.removeItem(LEGACY_SAVE_KEY);
+    await db.savedFlowers.clear();
+    await db.savedInsects.clear();
+    return slot;
+};
+
+/**
+ * Draws the garden's canvas layers one over the other, scaled down to a thumbnail. Returns
+ * an empty string if there is nothing to draw or the browser cannot draw it.
+ */
+export const drawSaveThumbnail = (layers: HTMLCanvasElement[]): string => {
+    const [bottom] = layers;
+    if (!bottom || bottom.width === 0 || bottom.height === 0) return '';
+    const canvas = document.createElement('canvas');
+    canvas.width = SAVE_THUMBNAIL_WIDTH;
+    canvas.height = Math.round(bottom.height * SAVE_THUMBNAIL_WIDTH / bottom.width);
+    const context = canvas.getContext('2d');
+    if (!context) return '';
+    for (const layer of layers) context.drawImage(layer, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+};
@@ -0,0 +1,81 @@
+import type { FEService, FEParams, FlowerGenomeStats } from '../types';
+import { random, SeededRandom } from '../lib/random';
+
+const SEXES: FlowerGenomeStats['sex'][] = ['male', 'female', 'both'];
+// A 1x1 transparent PNG, so consumers that expect image data always get some.
+const STUB_IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+// FNV-1a hash, used to derive stable stats from a genome string.
+const hashString = (value: string): number => {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/**
+ * A lightweight stand-in for the WASM flower service, for headless runs that don't
+ * want to load the WASM module. Genomes are opaque strings, images are placeholders, and
+ * stats are derived from a hash of the genome, so a genome always yields the same flower.
+ * New genomes draw from the simulation's random source, which makes seeded runs fully reproducible.
+ */
+export class StubFlowerService implements FEService {
+    private params: FEParams = { radius: 8, numLayers: 2, P: 6.0, bias: 1.0 };
+
+    private newGenome(base = 0): { genome: string; image: string } {
+        const value = (base ^ Math.floor(random() * 0xFFFFFFFF)) >>> 0;
+        return { genome: `stub-${value.toString(16)}`, image: STUB_IMAGE };
+    }
+
+    async initialize(): Promise<void> {}
+
+    setParams(params: FEParams): void {
+        this.params = { ...params };
+    }
+
+    getParams(): FEParams {
+        return this.params;
+    }
+
+    async makeFlower() { return this.newGenome(); }
+    async makePetals() { return this.newGenome(); }
+    async makePetalLayer(_layer: number) { return this.newGenome(); }
+    async makeStem() { return this.newGenome(); }
+
+    async reproduce(father: string, mother: string) {
+        return this.newGenome(hashString(father) ^ hashString(mother));
+    }
+
+    async mutate(original: string) {
+        return this.newGenome(hashString(original));
+    }
+
+    async getFlowerStats(genome: string): Promise<FlowerGenomeStats> {
+        const rng = new SeededRandom(hashString(genome));
+        const minTemperature = Math.round(-5 + rng.next() * 15);
+        return {
+            health: Math.round(50 + rng.next() * 100),
+            stamina: Math.round(50 + rng.next() * 100),
+            minTemperature,
+            maxTemperature: Math.round(minTemperature + 15 + rng.next() * 20),
+            maturationPeriod: Math.round(30 + rng.next() * 70),
+            sex: SEXES[Math.floor(rng.next() * SEXES.length)],
+            toxicityRate: Math.round((rng.next() - 0.5) * 100) / 100,
+            effects: {
+                vitality: Math.round(rng.next() * 20),
+                agility: Math.round(rng.next() * 20),
+                intelligence: Math.round(rng.next() * 20),
+                strength: Math.round(rng.next() * 20),
+                luck: Math.round(rng.next() * 20),
+            },
+        };
+    }
+
+    async drawFlower(genome: string) { return { genome, image: STUB_IMAGE }; }
+    async drawPetals(genome: string) { return { genome, image: STUB_IMAGE }; }
+    async drawPetalLayer(genome: string, _layer: number) { return { genome, image: STUB_IMAGE }; }
+    async draw3DFlower(_genome: string, _sex: 'male' | 'female' | 'both') { return ''; }
+    async drawEmissive3DFlower(_genome: string, _sex: 'male' | 'female' | 'both') { return ''; }
+}
@@ -3,14 +3,31 @@
 import { SimulationEngine } from './lib/simulationEngine';
 import { flowerService } from './services/flowerService';
 import { BASE_TICK_RATE_MS } from './constants';
-import type { SimulationParams, Flower } from './types';
-import { createNewFlower, createInitialMobileActors, initializeHivesAndBees, initializeAntColonies, initializeSpiders } from './lib/simulationInitializer';
+import type { SimulationParams, ReplayFile } from './types';
+import { createInitialWorld } from './lib/simulationInitializer';
+import { TerrainMap } from './lib/terrain';
+import { db } from './services/db';
+import { registerBuiltinSpecies } from './lib/builtinSpecies';
+import { setCustomSpecies } from './lib/customSpecies';
+import { TickEncoder } from './lib/tickProtocol';
+
+registerBuiltinSpecies();
 
 let isRunning = false;
 let gameLoopTimeoutId: number | undefined;
 let engine: SimulationEngine | null = null;
 let isLoadingState = false;
-let flowerWorkerPort: MessagePort | null = null;
+let isAdvancing = false; // True while a `step`/`run-ticks` request is being processed
+let ticksAdvanced: Promise<void> = Promise.resolve(); // Settles when the current `step`/`run-ticks` request is done
+// Messages handled even while ticks are being advanced. Any other waits until they are, so it
+// cannot change the engine's state halfway through a run.
+const MESSAGES_DURING_RUN = new Set(['init-ports', 'set-live-params', 'pause', 'step', 'run-ticks']);
+let tickInProgress: Promise<void> | null = null; // Settles when the game loop's tick has been calculated and sent
+// Messages handled even while the game loop is calculating a tick; any other waits for the tick.
+const MESSAGES_DURING_TICK = new Set(['init-ports', 'set-live-params', 'pause']);
+let flowerWorkerPorts: MessagePort[] = [];
+// Every batch of actor changes sent to the UI goes through this, as it tracks what the UI already has.
+const tickEncoder = new TickEncoder();
 
 const INIT_TIMEOUT_MS = 15000;
 
@@ -28,25 +45,56 @@ const initializeWasm = async (): Promise<boolean> => {
     }
 };
 
+/** The soil moisture and obstacles as the UI draws them, with the buffers to transfer. */
+const groundFrames = (engine: SimulationEngine) => {
+    const soilMoisture = engine.getSoilMoisture().toFrame();
+    const obstacles = engine.getObstacles().toFrame();
+    return { frames: { soilMoisture, obstacles }, buffers: [soilMoisture.moisture.buffer, soilMoisture.water.buffer, obstacles.cells.buffer] };
+};
+
+/** Sends the UI all of the engine's actors, replacing the ones it had. */
+const postSnapshot = (type: string, engine: SimulationEngine, extra: object = {}) => {
+    const { grid, tick, params } = engine.getGridState();
+    const actors = tickEncoder.encodeSnapshot(grid.flat(2));
+    const { frames, buffers } = groundFrames(engine);
+    self.postMessage({ type, payload: { actors, ...frames, tick, params, ...extra } }, [actors.buffer, ...buffers]);
+};
+
 const gameLoop = async () => {
-    if (!isRunning || !engine) return;
+    if (!isRunning || !engine || tickInProgress) return;
 
-    const { events, summary, deltas } = await engine.calculateNextTick();
+    let endTick = () => {};
+    tickInProgress = new Promise<void>(resolve => { endTick = resolve; });
+    try {
+        const { events, summary, deltas } = await engine.calculateNextTick();
 
-    self.postMessage({ type: 'tick-update', payload: { deltas, events, summary } });
-    
-    const currentParams = engine.getGridState().params;
-    const tickRate = BASE_TICK_RATE_MS / (currentParams.simulationSpeed || 1);
+        // The tick has changed the engine, so the UI is sent it even if paused meanwhile.
+        const actors = tickEncoder.encode(deltas);
+        const { frames, buffers } = groundFrames(engine);
+        self.postMessage({ type: 'tick-update', payload: { actors, ...frames, events, summary, historyRange: engine.getHistoryRange() } }, [actors.buffer, ...buffers]);
+        if (!isRunning) return;
 
-    gameLoopTimeoutId = self.setTimeout(gameLoop, tickRate);
+        const currentParams = engine.getGridState().params;
+        const tickRate = BASE_TICK_RATE_MS / (currentParams.simulationSpeed || 1);
+        gameLoopTimeoutId = self.setTimeout(gameLoop, tickRate);
+    } finally {
+        tickInProgress = null;
+        endTick();
+    }
 };
 
 self.onmessage = async (e: MessageEvent) => {
     const { type, payload } = e.data;
+    // Wait out a run of ticks or a game loop tick in progress, so the message cannot change the engine under it.
+    while (true) {
+        if (isAdvancing && !MESSAGES_DURING_RUN.has(type)) await ticksAdvanced;
+        else if (tickInProgress && !MESSAGES_DURING_TICK.has(type)) await tickInProgress;
+        else break;
+    }
     switch (type) {
         case 'init-ports':
-            flowerWorkerPort = payload.flowerWorkerPort;
-            // The SimulationEngine is responsible for setting the onmessage handler for this port
+            flowerWorkerPorts = payload.flowerWorkerPorts;
+            // The SimulationEngine is responsible for setting the onmessage handlers for these ports
             // via the AsyncFlowerFactory.
             break;
         case 'update-params': {
@@ -62,7 +110,7 @@ self.onmessage = async (e: MessageEvent) => {
             flowerService.setParams({ radius: params.flowerDetailRadius, numLayers: 3, P: 6.0, bias: 1.0 });
 
             if (!engine) {
-                engine = new SimulationEngine(params, flowerService);
+                engine = new SimulationEngine(params, flowerService, db);
             } else {
                 engine.setParams(params);
             }
@@ -70,63 +118,17 @@ self.onmessage = async (e: MessageEvent) => {
             const stem = await flowerService.makeStem();
             engine.setStemImage(stem.image);
 
-            if (flowerWorkerPort) {
-                engine.setFlowerWorkerPort(flowerWorkerPort, params);
+            if (flowerWorkerPorts.length > 0) {
+                engine.setFlowerWorkerPorts(flowerWorkerPorts, params);
             } else {
-                console.error("Simulation worker could not set flower worker port on engine.");
+                console.error("Simulation worker could not set flower worker ports on engine.");
             }
             
-            const flowerPromises = Array.from({ length: params.initialFlowers }, () => 
-                createNewFlower(flowerService, params, -1, -1)
-            );
-            const initialFlowers = (await Promise.all(flowerPromises)).filter((f): f is Flower => f !== null);
-            const initialMobileActors = createInitialMobileActors(params);
-            
-            // Get all possible grid coordinates
-            const allCoords: { x: number; y: number }[] = [];
-            for (let y = 0; y < params.gridHeight; y++) {
-                for (let x = 0; x < params.gridWidth; x++) {
-                    allCoords.push({ x, y });
-                }
-            }
-            
-            // Shuffle coordinates to randomize placement
-            for (let i = allCoords.length - 1; i > 0; i--) {
-                const j = Math.floor(Math.random() * (i + 1));
-                [allCoords[i], allCoords[j]] = [allCoords[j], allCoords[i]];
-            }
-
-            // Assign unique coordinates to flowers, truncating if necessary
-            if (initialFlowers.length > allCoords.length) {
-                console.warn(`Attempting to spawn ${initialFlowers.length} flowers on a ${allCoords.length}-cell grid. Capping at grid size.`);
-                initialFlowers.splice(allCoords.length);
-            }
-            initialFlowers.forEach((flower, index) => {
-                const coord = allCoords[index];
-                flower.x = coord.x;
-                flower.y = coord.y;
-            });
-
-            // Assign random coordinates to mobile actors (can overlap)
-            initialMobileActors.forEach(actor => {
-                actor.x = Math.floor(Math.random() * params.gridWidth);
-                actor.y = Math.floor(Math.random() * params.gridHeight);
-            });
-            
-            const allActors = [...initialFlowers, ...initialMobileActors];
-            
-            if (params.allowedActors.includes('🐝')) {
-                initializeHivesAndBees(allActors, params);
-            }
-            if (params.allowedActors.includes('🐜')) {
-                initializeAntColonies(allActors, params);
-            }
-            if (params.allowedActors.includes('🕷️')) {
-                initializeSpiders(allActors, params);
-            }
+            const terrain = TerrainMap.generate(params.gridWidth, params.gridHeight);
+            const allActors = await createInitialWorld(flowerService, params, terrain);
 
-            engine.initializeGridWithActors(allActors);
-            self.postMessage({ type: 'init-complete', payload: engine.getGridState() });
+            engine.initializeGridWithActors(allActors, terrain);
+            postSnapshot('init-complete', engine, { terrain: terrain.toData() });
             break;
         }
         
@@ -149,6 +151,54 @@ self.onmessage = async (e: MessageEvent) => {
             if (gameLoopTimeoutId) clearTimeout(gameLoopTimeoutId);
             break;
 
+        case 'step':
+        case 'run-ticks': {
+            if (isAdvancing) break; // The run in progress reports when it is done
+            if (!engine || isLoadingState) {
+                self.postMessage({ type: 'ticks-skipped' });
+                break;
+            }
+            isRunning = false;
+            if (gameLoopTimeoutId) clearTimeout(gameLoopTimeoutId);
+
+            const count = type === 'step' ? 1 : Math.floor(payload?.count);
+            if (!Number.isFinite(count) || count < 1) {
+                console.warn(`Worker: invalid tick count for run-ticks: ${payload?.count}`);
+                self.postMessage({ type: 'ticks-skipped' });
+                break;
+            }
+
+            isAdvancing = true;
+            let endRun = () => {};
+            ticksAdvanced = new Promise<void>(resolve => { endRun = resolve; });
+            try {
+                const { events, summaries, deltas } = await engine.advanceTicks(count);
+                const actors = tickEncoder.encode(deltas);
+                const { frames, buffers } = groundFrames(engine);
+                self.postMessage({ type: 'ticks-complete', payload: { actors, ...frames, events, summaries, historyRange: engine.getHistoryRange() } }, [actors.buffer, ...buffers]);
+            } finally {
+                isAdvancing = false;
+                endRun();
+            }
+            break;
+        }
+
+        case 'rewind':
+        case 'step-back': {
+            if (!engine || isLoadingState) break;
+            isRunning = false;
+            if (gameLoopTimeoutId) clearTimeout(gameLoopTimeoutId);
+
+            const targetTick = type === 'rewind' ? payload.tick : engine.getGridState().tick - 1;
+            const summary = engine.restoreTick(targetTick);
+            if (summary === undefined) {
+                console.warn(`Worker: tick ${targetTick} is not in the history buffer.`);
+                break;
+            }
+            postSnapshot('rewind-complete', engine, { summary, historyRange: engine.getHistoryRange() });
+            break;
+        }
+
         case 'get-state':
             if (engine) {
                 const stateToSave = engine.getStateForSave();
@@ -164,15 +214,16 @@ self.onmessage = async (e: MessageEvent) => {
              if (!engine) {
                  if (!(await initializeWasm())) {
                      isLoadingState = false;
+                     self.postMessage({ type: 'load-failed', payload: { message: 'The simulation engine failed to load.' } });
                      return;
                  }
-                 engine = new SimulationEngine(payload.params, flowerService);
+                 engine = new SimulationEngine(payload.params, flowerService, db);
              }
              
-             if (flowerWorkerPort) {
-                engine.setFlowerWorkerPort(flowerWorkerPort, payload.params);
+             if (flowerWorkerPorts.length > 0) {
+                engine.setFlowerWorkerPorts(flowerWorkerPorts, payload.params);
              } else {
-                console.error("Simulation worker could not set flower worker port on engine during load.");
+                console.error("Simulation worker could not set flower worker ports on engine during load.");
              }
              
              // Set parameters before generating stem to ensure correct quality
@@ -182,12 +233,68 @@ self.onmessage = async (e: MessageEvent) => {
              const stemForLoad = await flowerService.makeStem();
              engine.setStemImage(stemForLoad.image);
 
-             await engine.loadState(payload);
+             try {
+                 await engine.loadState(payload);
+             } catch (error) {
+                 // The engine keeps the garden it had, so the UI can carry on with it.
+                 console.error("Worker: failed to load state.", error);
+                 isLoadingState = false;
+                 self.postMessage({ type: 'load-failed', payload: { message: error instanceof Error ? error.message : 'Unknown error' } });
+                 break;
+             }
              
-             self.postMessage({ type: 'load-complete', payload: engine.getGridState() });
+             postSnapshot('load-complete', engine, { terrain: engine.getTerrain().toData() });
              isLoadingState = false;
             break;
 
+        case 'get-replay': {
+            const replay = engine ? await engine.getReplay() : null;
+            self.postMessage({ type: 'replay-response', payload: replay });
+            break;
+        }
+
+        case 'load-replay': {
+            const replay = payload as ReplayFile;
+            isLoadingState = true;
+            isRunning = false;
+            if (gameLoopTimeoutId) clearTimeout(gameLoopTimeoutId);
+
+            if (!(await initializeWasm())) {
+                isLoadingState = false;
+                self.postMessage({ type: 'load-failed', payload: { message: 'The simulation engine failed to load.' } });
+                return;
+            }
+            if (!engine) {
+                engine = new SimulationEngine(replay.params, flowerService, db);
+            }
+            if (flowerWorkerPorts.length > 0) {
+                engine.setFlowerWorkerPorts(flowerWorkerPorts, replay.params);
+            } else {
+                console.error("Simulation worker could not set flower worker ports on engine during replay load.");
+            }
+
+            flowerService.setParams({ radius: replay.params.flowerDetailRadius, numLayers: 3, P: 6.0, bias: 1.0 });
+            const stemForReplay = await flowerService.makeStem();
+            engine.setStemImage(stemForReplay.image);
+
+            try {
+                await engine.loadReplay(replay);
+            } catch (error) {
+                console.error("Worker: failed to load replay.", error);
+                isLoadingState = false;
+                self.postMessage({ type: 'load-failed', payload: { message: error instanceof Error ? error.message : 'Unknown error' } });
+                break;
+            }
+
+            postSnapshot('replay-loaded', engine, { terrain: engine.getTerrain().toData() });
+            isLoadingState = false;
+            break;
+        }
+
+        case 'set-custom-species':
+            // Mirrors the user-defined species of the main thread; affects insects from the next tick on.
+            setCustomSpecies(payload);
+            break;
         case 'trigger-weather':
             if (engine) {
                 engine.triggerWeatherEvent(payload.eventType);
@@ -208,5 +315,15 @@ self.onmessage = async (e: MessageEvent) => {
                 engine.plantChampionSeed(payload.genome, payload.sex, payload.position);
             }
             break;
+        case 'place-water':
+            if (engine) {
+                engine.placeWaterBody(payload.kind, payload.position);
+            }
+            break;
+        case 'toggle-obstacle':
+            if (engine) {
+                engine.toggleObstacle(payload.kind, payload.position);
+            }
+            break;
     }
 };
@@ -20,17 +20,8 @@ export const useAnalyticsStore = create<AnalyticsState>()(
                     herbicidePlanes: summary.herbicidePlaneCount,
                     herbicideSmokes: summary.herbicideSmokeCount,
                     corpses: summary.corpseCount,
-                    cockroaches: summary.cockroachCount,
-                    caterpillars: summary.caterpillarCount,
-                    butterflies: summary.butterflyCount,
                     cocoons: summary.cocoonCount,
-                    beetles: summary.beetleCount,
-                    ladybugs: summary.ladybugCount,
-                    snails: summary.snailCount,
-                    bees: summary.beeCount,
-                    scorpionCount: summary.scorpionCount || 0,
-                    antCount: summary.antCount || 0,
-                    spiderCount: summary.spiderCount || 0,
+                    speciesCounts: summary.speciesCounts || {},
                     hiveCount: summary.hiveCount,
                     colonyCount: summary.colonyCount || 0,
                     totalHoney: summary.totalHoney,
@@ -42,6 +33,9 @@ export const useAnalyticsStore = create<AnalyticsState>()(
                     eggsEaten: summary.eggsEaten,
                     cocoonsEaten: summary.cocoonsEaten,
                     insectsDiedOfOldAge: summary.insectsDiedOfOldAge,
+                    susceptibleInsects: summary.susceptibleInsectCount,
+                    infectedInsects: summary.infectedInsectCount,
+                    recoveredInsects: summary.recoveredInsectCount,
                     totalBirdsHunted: summary.totalBirdsHunted,
                     totalHerbicidePlanesSpawned: summary.totalHerbicidePlanesSpawned,
                     nutrientCount: summary.nutrientCount,
@@ -59,15 +53,22 @@ export const useAnalyticsStore = create<AnalyticsState>()(
                     avgStrength: summary.avgStrength,
                     avgIntelligence: summary.avgIntelligence,
                     avgLuck: summary.avgLuck,
+                    maleFlowerCount: summary.maleFlowerCount,
+                    femaleFlowerCount: summary.femaleFlowerCount,
+                    hermaphroditeFlowerCount: summary.hermaphroditeFlowerCount,
                     tickTimeMs: summary.tickTimeMs,
                     renderTimeMs: renderTimeMs,
                     currentTemperature: summary.currentTemperature,
                     currentHumidity: summary.currentHumidity,
                     season: summary.season,
                     weatherEvent: summary.weatherEvent,
+                    timeOfDay: summary.timeOfDay,
+                    windStrength: summary.windStrength,
                     pendingFlowerRequests: summary.pendingFlowerRequests,
+                    flowerCacheHitRate: summary.flowerCacheHitRate,
                     healingFlowerCount: summary.healingFlowerCount,
                     toxicFlowerCount: summary.toxicFlowerCount,
+                    blightedFlowerCount: summary.blightedFlowerCount,
                 };
                 
                 const newHistory = [...get().history, newPoint];
@@ -79,6 +80,8 @@ export const useAnalyticsStore = create<AnalyticsState>()(
 
                 set({ history: newHistory });
             },
+            truncateFrom: (tick: number) => set({ history: get().history.filter(point => point.tick < tick) }),
+            restore: (history: AnalyticsDataPoint[]) => set({ history: history.slice(-MAX_HISTORY_LENGTH) }),
             reset: () => set({ history: [] }),
         }),
         {
@@ -69,6 +69,17 @@ export const useChallengeStore = create<ChallengeState>()(
                     set({ challenges: updatedChallenges });
                 }
             },
+            // Challenges are matched by ID, so ones added since the save start afresh and ones
+            // since removed are dropped.
+            restore: (saved: Challenge[]) => {
+                const savedById = new Map(saved.map(challenge => [challenge.id, challenge]));
+                set({
+                    challenges: initialChallenges.map(challenge => {
+                        const match = savedById.get(challenge.id);
+                        return match ? { ...challenge, progress: match.progress, completed: match.completed } : challenge;
+                    }),
+                });
+            },
         }),
         {
             name: 'evogarden-challenge-storage',
@@ -0,0 +1,34 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { CustomSpeciesState } from '../types';
+import { setCustomSpecies } from '../lib/customSpecies';
+
+// Keeps the user-defined species and mirrors them into this thread's species registry.
+// The simulation worker has its own registry and is sent the list separately.
+export const useCustomSpeciesStore = create<CustomSpeciesState>()(
+    persist(
+        (set, get) => ({
+            species: [],
+            addSpecies: (newSpecies) => {
+                const species = [...get().species.filter(s => s.emoji !== newSpecies.emoji), newSpecies];
+                setCustomSpecies(species);
+                set({ species });
+            },
+            removeSpecies: (emoji) => {
+                const species = get().species.filter(s => s.emoji !== emoji);
+                setCustomSpecies(species);
+                set({ species });
+            },
+            restore: (species) => {
+                setCustomSpecies(species);
+                set({ species });
+            },
+        }),
+        {
+            name: 'evogarden-custom-species',
+            onRehydrateStorage: () => (state) => {
+                if (state) setCustomSpecies(state.species);
+            },
+        }
+    )
+);
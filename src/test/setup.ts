@@ -4,3 +4,7 @@
 // See: https://github.com/testing-library/jest-dom
 
 import '@testing-library/jest-dom/vitest';
+import { registerBuiltinSpecies } from '../lib/builtinSpecies';
+
+// The app registers the built-in species at startup; tests get the same registry.
+registerBuiltinSpecies();
@@ -5,6 +5,9 @@ export interface Actor extends Coord {
     emoji?: string;
 }
 
+// Hermaphrodite flowers ('both') make pollen and set seed; the others only do one or the other.
+export type FlowerSex = 'male' | 'female' | 'both';
+
 // Raw genetic effects from WASM
 export interface FlowerEffects {
     vitality: number;
@@ -21,7 +24,7 @@ export interface FlowerGenomeStats {
     minTemperature: number;
     maxTemperature: number;
     maturationPeriod: number;
-    sex: 'male' | 'female' | 'both';
+    sex: FlowerSex;
     toxicityRate: number;
     effects: FlowerEffects;
 }
@@ -34,11 +37,14 @@ export interface FlowerStats {
     minTemperature: number;
     maxTemperature: number;
     maturationPeriod: number;
-    sex: 'male' | 'female' | 'both';
+    sex: FlowerSex;
     toxicityRate: number;
     effects: FlowerEffects;
 }
 
+// The stats that shift with the weather a flower grows in.
+export type FlowerPlasticStats = Pick<FlowerStats, 'maxHealth' | 'maxStamina' | 'nutrientEfficiency' | 'toxicityRate' | 'effects'>;
+
 export interface Flower extends Actor, FlowerStats {
     type: 'flower';
     genome: string;
@@ -47,6 +53,8 @@ export interface Flower extends Actor, FlowerStats {
     stamina: number; // Current stamina
     age: number;
     isMature: boolean;
+    isBlighted?: boolean; // Infected with the fungal blight
+    baseStats?: FlowerPlasticStats; // The stats it grew with, kept once the weather has changed them
 }
 
 export interface FlowerSeed extends Actor {
@@ -67,14 +75,21 @@ export interface InsectStats {
     reproductionCost: number; // stamina cost
 }
 
+// Where an insect stands with the disease: susceptible if neither field is set.
+export interface DiseaseState {
+    infectionTimer?: number; // Ticks until an infected insect recovers
+    isImmune?: boolean; // Recovered from the disease and cannot catch it again
+}
+
 export type InsectBehaviorState = 'seeking_food' | 'returning_to_hive' | 'hunting' | 'patrolling' | 'idle' | 'collecting' | 'depositing' | 'returning_to_colony' | 'building' | 'ambushing' | 'consuming' | 'repairing';
 
-export interface Insect extends Actor {
+export interface Insect extends Actor, DiseaseState {
     type: 'insect';
     pollen: {
         genome: string;
         sourceFlowerId: string;
         score: number;
+        sex?: FlowerSex; // Of the source flower; pollen picked up before flowers had sexes counts as hermaphrodite
     } | null;
     emoji: string;
     health: number;
@@ -187,6 +202,7 @@ export interface Corpse extends Actor {
     originalEmoji: string;
     decayTimer: number;
     foodValue: number;
+    isInfectious?: boolean; // Left by an insect that died infected; spreads the disease to insects on its cell
 }
 
 export interface Cocoon extends Actor {
@@ -200,7 +216,7 @@ export interface SlimeTrail extends Actor {
     lifespan: number;
 }
 
-export interface Cockroach extends Actor {
+export interface Cockroach extends Actor, DiseaseState {
     type: 'cockroach';
     health: number;
     maxHealth: number;
@@ -255,3 +271,14 @@ export type ActorRemoveDelta = {
     id: string;
 };
 export type ActorDelta = ActorAddDelta | ActorUpdateDelta | ActorRemoveDelta;
+
+/**
+ * A batch of actor deltas as sent from the simulation worker to the UI (see `tickProtocol.ts`).
+ * Actors are referred to by numeric slot, and flower images by reference once they have been sent.
+ */
+export interface EncodedActorChanges {
+    buffer: ArrayBuffer; // Removals and updates of positions, health, stamina and state flags
+    added: { slot: number; actor: Record<string, unknown> }[];
+    changed: { slot: number; changes: Record<string, unknown> }[]; // Updates to any other fields
+    images: [ref: number, imageData: string][]; // Images referenced for the first time
+}
@@ -1,6 +1,13 @@
-import type { SavedCellActor, CellContent } from './actors';
+import type { SavedCellActor, CellContent, FlowerPlasticStats } from './actors';
+import type { SeedBankEntry, Challenge, AnalyticsDataPoint } from './ui';
+import type { CustomSpeciesFile } from './behaviors';
 
 export type WindDirection = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
+// The wind blowing through the garden this tick; the direction is the way it blows towards.
+export interface Wind {
+    direction: WindDirection;
+    strength: number; // Cells pollen is carried
+}
 
 export type NotificationMode = 'toasts' | 'log' | 'both';
 
@@ -17,7 +24,29 @@ export interface EnvironmentState {
     currentHumidity: number;
     season: Season;
     currentWeatherEvent: WeatherEvent;
+    timeOfDay: number; // Share of the day gone by, from 0 at sunrise; night falls at 0.5
+    wind: Wind;
+}
+
+// How often a climate series has a reading: every tick, or every day with the ticks between interpolated.
+export type ClimateSeriesInterval = 'tick' | 'day';
+
+// Temperature and humidity readings, in order, that take the place of the seasonal sine wave.
+export interface ClimateSeries {
+    interval: ClimateSeriesInterval;
+    temperature: number[]; // °C
+    humidity: number[]; // 0 to 1
 }
+
+// A climate for the garden: readings imported by the user, trends over time, or both.
+export interface ClimateScenario {
+    id: string;
+    name: string;
+    series?: ClimateSeries;
+    warmingPerTick?: number; // °C added to the temperature with every tick gone by
+    droughtChancePerTick?: number; // Added to the chance of a drought starting with every tick gone by
+}
+
 export interface SimulationParams {
     gridWidth: number;
     gridHeight: number;
@@ -26,8 +55,8 @@ export interface SimulationParams {
     initialBirds: number;
     humidity: number;
     temperature: number;
-    windDirection: WindDirection;
-    windStrength: number;
+    windDirection: WindDirection; // Prevailing wind; the actual wind veers around it
+    windStrength: number; // Typical wind strength, before seasons, weather and gusts
     flowerDetailRadius: number;
     herbicideFlowerDensityThreshold: number;
     herbicideDamage: number;
@@ -36,10 +65,19 @@ export interface SimulationParams {
     herbicideSmokeExpansionCount: number;
     notificationMode: NotificationMode;
     simulationSpeed: number;
+    seed: number | null; // Seed for the simulation's PRNG; null for a non-reproducible run
     // Seasonal Cycle Parameters
     seasonLengthInTicks: number;
     temperatureAmplitude: number;
     humidityAmplitude: number;
+    // Climate Scenario Parameters
+    climateScenario: ClimateScenario | null; // Null for the seasonal sine wave alone
+    climateLoop: boolean; // Whether a series starts over when it runs out, rather than holding its last reading
+    climateTemperatureScale: number; // Scales the swings of a series' temperature about its mean
+    climateHumidityScale: number; // Scales the swings of a series' humidity about its mean
+    // Day/Night Cycle Parameters
+    dayLengthInTicks: number;
+    nightTempDecrease: number; // Drop in temperature at midnight
     // Weather Event Parameters
     weatherEventChance: number;
     heatwaveTempIncrease: number;
@@ -48,6 +86,14 @@ export interface SimulationParams {
     droughtHumidityDecrease: number;
     weatherEventMinDuration: number;
     weatherEventMaxDuration: number;
+    // Disease Parameters
+    diseaseOutbreakChance: number; // Chance per tick of an outbreak when no insect is infected
+    diseaseDuration: number; // Ticks an insect stays infected before it recovers
+    diseaseHealthDamage: number; // Health an infected insect loses per tick, on top of its usual decay
+    // Blight Parameters
+    blightOutbreakChance: number; // Chance per tick of an outbreak when no flower is blighted
+    blightSpreadChance: number; // Chance per tick of catching the blight from each blighted neighbour, at 50% humidity and with no resistance
+    blightHealthDamage: number; // Health a blighted flower loses per tick
     // Insect Evolution
     reproductionCooldown: number;
     mutationChance: number;
@@ -88,12 +134,64 @@ export interface Coord {
     y: number;
 }
 
+// The soil a cell is made of. It conditions the flowers that grow there and slows insects crossing it.
+export type TerrainType = 'loam' | 'sand' | 'clay' | 'rock';
+
+// A terrain map as plain arrays, row by row, for saving and for sending between threads.
+export interface TerrainData {
+    width: number;
+    height: number;
+    altitude: number[]; // Metres
+    types: number[]; // Indexes into TERRAIN_TYPES
+}
+
+// The terrain of a cell, as the genetics module takes it when working out a flower's stats.
+export interface TerrainSite {
+    altitude: number;
+    terrainType: number;
+}
+
+// Soil moisture, from 0 (dry) to 1 (saturated), and standing water of every cell, row by row.
+export interface SoilMoistureData {
+    width: number;
+    height: number;
+    moisture: number[];
+    water: number[]; // 1 where a pond or stream lies, 0 elsewhere
+}
+
+// Soil moisture as sent to the UI each tick, with moisture scaled to 0-255.
+export interface SoilMoistureFrame {
+    width: number;
+    height: number;
+    moisture: Uint8Array;
+    water: Uint8Array;
+}
+
+export type WaterBodyKind = 'pond' | 'stream';
+
+// Something placed on a cell that walking actors cannot cross.
+export type ObstacleKind = 'rock' | 'wall';
+
+// The obstacles of every cell, row by row, for saving and for sending to the UI.
+export interface ObstacleData {
+    width: number;
+    height: number;
+    cells: number[]; // 0 where the cell is clear, otherwise 1 + an index into OBSTACLE_KINDS
+}
+
+export interface ObstacleFrame {
+    width: number;
+    height: number;
+    cells: Uint8Array;
+}
+
 export type Grid = (CellContent[])[][];
 export type SavedGrid = (SavedCellActor[])[][];
 
 // Represents the data structure stored in localStorage (metadata).
 // The full actor data for flowers and insects is in IndexedDB.
 export interface SavedStateMetadata {
+    saveVersion?: number; // Missing from saves made before the format was versioned, which count as version 1
     params: SimulationParams;
     grid: SavedGrid;
     tick: number;
@@ -101,6 +199,15 @@ export interface SavedStateMetadata {
     totalBirdsHunted: number;
     totalHerbicidePlanesSpawned: number;
     environmentState: EnvironmentState;
+    rngState?: number | null; // Internal state of the seeded PRNG at save time
+    terrain?: TerrainData; // Missing from gardens saved before terrain existed, which load as flat loam
+    soilMoisture?: SoilMoistureData; // Missing from gardens saved before soil moisture existed
+    obstacles?: ObstacleData; // Missing from gardens saved before obstacles existed, which load clear
+}
+
+// A whole garden as the simulation worker hands it over for saving, with every actor in the grid.
+export interface SavedGardenState extends Omit<SavedStateMetadata, 'grid'> {
+    grid: Grid;
 }
 
 export type PopulationTrend = 'growing' | 'declining' | 'stable';
@@ -126,6 +233,7 @@ export interface TickSummary {
     scorpionCount: number;
     antCount: number;
     spiderCount: number;
+    speciesCounts: Record<string, number>; // Live insects by species emoji, including those stored in hives and colonies
     hiveCount: number;
     colonyCount: number;
     totalHoney: number;
@@ -143,6 +251,9 @@ export interface TickSummary {
     eggsEaten: number;
     cocoonsEaten: number;
     insectsDiedOfOldAge: number;
+    susceptibleInsectCount: number; // Insects that have not had the disease, including those stored in hives and colonies
+    infectedInsectCount: number;
+    recoveredInsectCount: number; // Insects immune after recovering
     avgHealth: number;
     avgStamina: number;
     maxHealth: number;
@@ -156,16 +267,36 @@ export interface TickSummary {
     avgStrength: number;
     avgIntelligence: number;
     avgLuck: number;
+    maleFlowerCount: number;
+    femaleFlowerCount: number;
+    hermaphroditeFlowerCount: number;
     tickTimeMs: number;
     currentTemperature: number;
     currentHumidity: number;
     season: Season;
     weatherEvent: WeatherEventType;
+    timeOfDay: number;
+    windDirection: WindDirection;
+    windStrength: number;
     pendingFlowerRequests: number;
+    flowerQueueDepth: number; // Flower requests waiting for a free genetics worker
+    flowerQueueLatencyMs: number; // Mean time from request to finished flower, over the flowers finished since the last tick
+    flowerCacheHitRate: number; // Share of genome cache lookups that hit, from 0 to 1, over those since the last tick
     healingFlowerCount: number;
     toxicFlowerCount: number;
+    blightedFlowerCount: number;
 }
 
+// The span of ticks the engine can currently rewind to.
+export interface TickHistoryRange {
+    oldestTick: number;
+    latestTick: number;
+}
+
+// Which flower requests the genetics workers serve first: champion plantings and spring
+// repopulation, then pollination, then asexual expansion.
+export type FlowerRequestPriority = 'planting' | 'pollination' | 'expansion';
+
 export interface FlowerCreationRequest {
     requestId: string;
     flowerId: string;
@@ -173,4 +304,66 @@ export interface FlowerCreationRequest {
     y: number;
     parentGenome1?: string;
     parentGenome2?: string;
+    genome?: string; // Exact genome to draw instead of breeding a new one, used when replaying a run
+    priority?: FlowerRequestPriority; // Defaults to 'pollination'
+    site?: TerrainSite; // Terrain of the cell the flower grows on
+}
+
+// Living flowers whose stats are worked out again for the weather they are growing in.
+export interface FlowerReevaluationRequest {
+    batchId: string;
+    temperature: number;
+    humidity: number;
+    flowers: { flowerId: string; genome: string; site?: TerrainSite }[];
+}
+
+export interface FlowerStatsUpdate {
+    flowerId: string;
+    genome: string; // The flower may have died and another grown on its cell, under the same ID
+    stats: FlowerPlasticStats;
+}
+
+export type InterventionType = 'trigger-weather' | 'introduce-species' | 'introduce-stationary' | 'plant-champion-seed' | 'place-water' | 'toggle-obstacle';
+
+// A user intervention, queued on the engine and applied at the start of the next tick.
+export interface Intervention {
+    type: InterventionType;
+    payload: any;
+}
+
+export interface RecordedIntervention extends Intervention {
+    tick: number; // The tick the intervention was applied on
+}
+
+// A recorded run that can be shared and re-simulated exactly.
+export interface ReplayFile {
+    format: 'evogarden-replay';
+    version: number;
+    params: SimulationParams;
+    seed: number;
+    startTick: number;
+    endTick: number; // Tick the recording was exported at
+    environmentState: EnvironmentState;
+    rngState: number; // Generator state once the initial actors were placed
+    initialActors: CellContent[]; // Flower images are stripped and redrawn on load
+    terrain?: TerrainData; // Missing from replays recorded before terrain existed, which play on flat loam
+    soilMoisture?: SoilMoistureData; // Soil moisture at the start; older replays start evenly moist
+    seedBank: SeedBankEntry[]; // Seed bank at the start, so spring repopulation draws from the same seeds
+    interventions: RecordedIntervention[];
+    flowerGenomes: Record<string, string>; // Genome of every flower delivered, by request ID
+    customSpecies: CustomSpeciesFile[]; // User-defined species registered at export, which the run may have used
+}
+
+// A whole garden in one file, with everything kept in the browser about it, so it can be
+// moved to another browser or attached to a bug report.
+export interface GardenFile {
+    format: 'evogarden-garden';
+    version: number;
+    name: string;
+    exportedAt: number; // Milliseconds since the epoch
+    state: SavedGardenState; // Flower images are stripped and redrawn on load
+    seedBank: SeedBankEntry[];
+    challenges: Challenge[];
+    analyticsHistory: AnalyticsDataPoint[];
+    customSpecies: CustomSpeciesFile[]; // User-defined species, so the garden's insects of them live on in another browser
 }
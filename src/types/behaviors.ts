@@ -1,6 +1,9 @@
-import type { Grid, SimulationParams, CellContent, AppEvent } from './index';
+import type { Grid, SimulationParams, CellContent, AppEvent, InsectStats, Wind } from './index';
 import type { AsyncFlowerFactory } from '../lib/asyncFlowerFactory';
-import type { Quadtree } from '../lib/Quadtree';
+import type { SpatialHash } from '../lib/SpatialHash';
+import type { TerrainMap } from '../lib/terrain';
+import type { PathfindingService } from '../lib/pathfinding';
+import type { InsectBehavior } from '../lib/behaviors/base/InsectBehavior';
 
 /**
  * The context object provided to each insect's behavior update function.
@@ -12,12 +15,82 @@ export interface InsectBehaviorContext {
     grid: Grid;
     nextActorState: Map<string, CellContent>;
     asyncFlowerFactory: AsyncFlowerFactory;
-    qtree: Quadtree<CellContent>;
-    flowerQtree: Quadtree<CellContent>;
+    spatialHash: SpatialHash;
     events: AppEvent[];
     incrementInsectsDiedOfOldAge: () => void;
     currentTemperature: number;
+    isNight: boolean;
+    wind: Wind;
     newActorQueue: CellContent[];
     getNextId: (type: string, x: number, y: number) => string;
     claimedCellsThisTick: Set<string>;
+    terrain: TerrainMap;
+    pathfinder: PathfindingService;
+}
+
+/**
+ * How a species produces offspring. `direct` species lay eggs when two adults meet;
+ * `hive` and `colony` species are spawned by their hive or colony instead.
+ */
+export type ReproductionMode = 'direct' | 'hive' | 'colony';
+
+/**
+ * How a species first appears in a garden. `random` species are scattered with the initial
+ * insects and used to repopulate an empty garden, `territorial` species get one individual
+ * per `spiderGridArea` square, and `nest` species live in their hive or colony.
+ */
+export type SpeciesSpawnMode = 'random' | 'territorial' | 'nest';
+
+/**
+ * When a species is about. `diurnal` species rest through the night; `nocturnal` species
+ * move faster at night.
+ */
+export type SpeciesActivity = 'diurnal' | 'nocturnal';
+
+// Per-species counters on `TickSummary`, kept for challenges that track a single species.
+export type SpeciesSummaryKey = 'caterpillarCount' | 'butterflyCount' | 'beetleCount' | 'ladybugCount' | 'snailCount' | 'beeCount' | 'scorpionCount' | 'antCount' | 'spiderCount';
+
+/**
+ * Everything the simulation and the UI need to know about an insect species.
+ * Registered once with the species registry and looked up by emoji.
+ */
+export interface SpeciesDefinition {
+    emoji: string;
+    name: string;
+    pluralName: string;
+    stats: InsectStats;
+    behavior: new () => InsectBehavior;
+    reproduction: ReproductionMode;
+    spawn: SpeciesSpawnMode;
+    offspringEmoji?: string; // What hatches from its eggs, if not the species itself (e.g. butterflies lay caterpillar eggs)
+    flies?: boolean; // Flying insects are not caught in spider webs
+    activity?: SpeciesActivity; // Species active around the clock if unset
+    transmissionRate?: number; // Chance per tick of catching the disease from each infected insect on its cell; DISEASE_DEFAULT_TRANSMISSION_RATE if unset
+    spawnable: boolean; // Whether it can be introduced from the tools panel
+    chartColor: string;
+    summaryKey?: SpeciesSummaryKey;
+    custom?: CustomSpeciesFile; // The user's JSON definition, for species that are not built in
+}
+
+/**
+ * A building block for the behavior of a user-defined species. A species lists the
+ * primitives it uses in priority order: the first one that finds something to do wins.
+ */
+export type BehaviorPrimitive =
+    | { type: 'pollinate' } // Feed on and pollinate the flowers its genome prefers
+    | { type: 'hunt'; species: string[] } // Attack and kill insects of the listed species
+    | { type: 'scavenge' }; // Eat corpses
+
+/**
+ * A species defined by the user in a JSON file, without writing TypeScript.
+ */
+export interface CustomSpeciesFile {
+    emoji: string;
+    name: string;
+    pluralName?: string;
+    role: InsectStats['role'];
+    stats: Omit<InsectStats, 'role'>;
+    behaviors: BehaviorPrimitive[];
+    color?: string;
+    flies?: boolean;
 }
@@ -1,5 +1,6 @@
 
 import type { FlowerGenomeStats } from './actors';
+import type { SeedBankCategory, SeedBankEntry } from './ui';
 
 export interface FEService {
     initialize(): Promise<void>;
@@ -25,3 +26,38 @@ export interface FEParams {
     P: number;
     bias: number;
 }
+
+/**
+ * The subset of the seed bank table the simulation engine needs. The browser
+ * passes the Dexie table; headless runs can use an in-memory implementation.
+ */
+export interface SeedBankStore {
+    get(category: SeedBankCategory): Promise<SeedBankEntry | undefined>;
+    put(entry: SeedBankEntry): Promise<unknown>;
+    toArray(): Promise<SeedBankEntry[]>;
+}
+
+export interface SimulationPersistence {
+    seedBank: SeedBankStore;
+}
+
+/**
+ * What the genome cache knows about one genome: its rendered images by flower detail
+ * radius, and its stats by `humidity|temperature|altitude|terrainType`.
+ */
+export interface GenomeCacheEntry {
+    key: string; // Content hash of the genome
+    genome: string;
+    images: Record<string, string>;
+    stats: Record<string, FlowerGenomeStats>;
+    storedAt: number;
+}
+
+/**
+ * Where the genome cache keeps entries between sessions. The browser passes the Dexie
+ * table; without one, the cache only lives in memory.
+ */
+export interface GenomeCacheStore {
+    get(key: string): Promise<GenomeCacheEntry | undefined>;
+    put(entry: GenomeCacheEntry): Promise<unknown>;
+}
@@ -1,4 +1,5 @@
-import type { TickSummary, Season, WeatherEventType } from './base';
+import type { TickSummary, Season, WeatherEventType, SavedGardenState } from './base';
+import type { CustomSpeciesFile } from './behaviors';
 
 export interface AppEvent {
   message: string;
@@ -41,6 +42,7 @@ export interface Challenge {
 export interface ChallengeState {
     challenges: Challenge[];
     processTick: (summary: TickSummary) => void;
+    restore: (challenges: Challenge[]) => void; // Takes the progress of saved challenges, e.g. from a garden file
 }
 
 export interface AnalyticsDataPoint {
@@ -53,17 +55,8 @@ export interface AnalyticsDataPoint {
     herbicidePlanes: number;
     herbicideSmokes: number;
     corpses: number;
-    cockroaches: number;
-    caterpillars: number;
-    butterflies: number;
     cocoons: number;
-    beetles: number;
-    ladybugs: number;
-    snails: number;
-    bees: number;
-    scorpionCount: number;
-    antCount: number;
-    spiderCount: number;
+    speciesCounts: Record<string, number>;
     hiveCount: number;
     colonyCount: number;
     totalHoney: number;
@@ -75,6 +68,10 @@ export interface AnalyticsDataPoint {
     eggsEaten: number;
     cocoonsEaten: number;
     insectsDiedOfOldAge: number;
+    // Missing from history recorded before insects could fall ill
+    susceptibleInsects?: number;
+    infectedInsects?: number;
+    recoveredInsects?: number;
     totalBirdsHunted: number;
     totalHerbicidePlanesSpawned: number;
     nutrientCount: number;
@@ -92,23 +89,40 @@ export interface AnalyticsDataPoint {
     avgStrength: number;
     avgIntelligence: number;
     avgLuck: number;
+    // Flowers of each sex; missing from history recorded before flower sex mattered
+    maleFlowerCount?: number;
+    femaleFlowerCount?: number;
+    hermaphroditeFlowerCount?: number;
     tickTimeMs: number;
     renderTimeMs: number;
     currentTemperature?: number;
     currentHumidity?: number;
     season?: Season;
     weatherEvent?: WeatherEventType;
+    timeOfDay?: number; // Missing from history recorded before the day/night cycle existed
+    windStrength?: number; // Missing from history recorded before the wind changed
     pendingFlowerRequests: number;
+    flowerCacheHitRate?: number; // Missing from history recorded before the genome cache existed
     healingFlowerCount: number;
     toxicFlowerCount: number;
+    blightedFlowerCount?: number; // Missing from history recorded before the blight existed
 }
 
 export interface AnalyticsState {
     history: AnalyticsDataPoint[];
     addDataPoint: (data: { summary: TickSummary; renderTimeMs: number }) => void;
+    truncateFrom: (tick: number) => void; // Drops points for `tick` and later, e.g. after a rewind
+    restore: (history: AnalyticsDataPoint[]) => void; // Replaces the history, e.g. with one from a garden file
     reset: () => void;
 }
 
+export interface CustomSpeciesState {
+    species: CustomSpeciesFile[];
+    addSpecies: (species: CustomSpeciesFile) => void; // Replaces any user-defined species with the same emoji
+    removeSpecies: (emoji: string) => void;
+    restore: (species: CustomSpeciesFile[]) => void; // Replaces every user-defined species, e.g. to undo a failed garden import
+}
+
 // --- Seed Bank ---
 
 export type SeedBankCategory = 'longestLived' | 'mostToxic' | 'mostHealing';
@@ -120,3 +134,25 @@ export interface SeedBankEntry {
     imageData: string;
     sex: 'male' | 'female' | 'both';
 }
+
+// --- Save Slots ---
+
+// What a save slot lists about its garden, so it can be told apart without loading it.
+export interface SaveSlotSummary {
+    gridWidth: number;
+    gridHeight: number;
+    seed: number | null;
+    climateScenario: string;
+    flowerCount: number;
+    insectCount: number;
+}
+
+export interface SaveSlot {
+    id: string;
+    name: string;
+    createdAt: number; // Milliseconds since the epoch
+    tick: number;
+    summary: SaveSlotSummary;
+    thumbnail: string; // A data URL of the garden as drawn when it was saved, or empty if it could not be drawn
+    state: SavedGardenState;
+}
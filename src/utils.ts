@@ -1,9 +1,12 @@
 import { INSECT_GENOME_LENGTH } from "./constants";
-import type { CellContent, Corpse, Insect } from "./types";
+import type { CellContent, Corpse, Insect, SpeciesSpawnMode } from "./types";
+import { random } from "./lib/random";
+import { speciesRegistry } from "./lib/speciesRegistry";
 
-const insectEmojis = ['🦋', '🐛', '🐌', '🐞', '🪲', '🦂', '🐝', '🐜', '🕷️', '🪳'];
-
-export const getInsectEmoji = (insectId: string, options: { allowed?: string[], exclude?: string[] } = {}): string => {
+export const getInsectEmoji = (insectId: string, options: { allowed?: string[], exclude?: string[], spawn?: SpeciesSpawnMode } = {}): string => {
+    const insectEmojis = speciesRegistry.getAll()
+        .filter(species => options.spawn === undefined || species.spawn === options.spawn)
+        .map(species => species.emoji);
     let pool: string[];
 
     // If an `allowed` list is provided, filter it to only include actual insects.
@@ -11,7 +14,7 @@ export const getInsectEmoji = (insectId: string, options: { allowed?: string[],
         pool = options.allowed.filter(actor => insectEmojis.includes(actor));
     } else {
         // Otherwise, start with all emojis.
-        pool = [...insectEmojis];
+        pool = insectEmojis;
     }
     
     // Then filter by exclude list
@@ -27,21 +30,12 @@ export const getInsectEmoji = (insectId: string, options: { allowed?: string[],
 };
 
 export const generateRandomInsectGenome = (): number[] => {
-    return Array.from({ length: INSECT_GENOME_LENGTH }, () => (Math.random() * 2) - 1); // Weights between -1 and 1
+    return Array.from({ length: INSECT_GENOME_LENGTH }, () => (random() * 2) - 1); // Weights between -1 and 1
 };
 
+// Display names for everything that is not an insect species; species names come from the registry.
 export const ACTOR_NAMES: Record<string, string> = {
   '🌸': 'Flower',
-  '🦋': 'Butterfly',
-  '🐛': 'Caterpillar',
-  '🐌': 'Snail',
-  '🐞': 'Ladybug',
-  '🪲': 'Beetle',
-  '🦂': 'Scorpion',
-  '🐝': 'Honeybee',
-  '🪳': 'Cockroach',
-  '🐜': 'Ant',
-  '🕷️': 'Spider',
   '🕸️': 'Spider Web',
   '🐦': 'Bird',
   '🦅': 'Eagle',
@@ -59,15 +53,22 @@ export const ACTOR_NAMES: Record<string, string> = {
   'Pheromone Trail': 'Pheromone Trail',
 };
 
+/**
+ * The display name for an actor emoji, e.g. `Butterfly` for 🦋 or `Hive` for 🛖.
+ */
+export const getEmojiName = (emoji: string): string | undefined => {
+    return speciesRegistry.get(emoji)?.name ?? ACTOR_NAMES[emoji];
+};
+
 export const getActorName = (actor: CellContent): string => {
     switch (actor.type) {
         case 'insect': {
-            const name = ACTOR_NAMES[(actor as Insect).emoji] || 'Insect';
+            const name = getEmojiName((actor as Insect).emoji) || 'Insect';
             return `${(actor as Insect).emoji} ${name}`;
         }
         case 'cockroach': return `🪳 Cockroach`;
         case 'corpse': {
-            const originalName = ACTOR_NAMES[(actor as Corpse).originalEmoji] || 'Creature';
+            const originalName = getEmojiName((actor as Corpse).originalEmoji) || 'Creature';
             return `💀 Corpse (${originalName})`;
         }
         case 'flower': return `🌸 Flower`;
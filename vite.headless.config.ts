@@ -0,0 +1,11 @@
+import { defineConfig } from 'vite';
+
+// Builds the headless command-line runner (src/headless.ts) as a Node script.
+export default defineConfig({
+  build: {
+    ssr: 'src/headless.ts',
+    outDir: 'dist-headless',
+    target: 'node20',
+    emptyOutDir: true,
+  },
+});